@@ -0,0 +1,227 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { AlertTriangle, ArrowLeft, ExternalLink, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useUser } from "@/lib/user-context";
+import { getExplorerTxUrl } from "@/lib/chains";
+import { getReconciliationReports } from "@/lib/reconciliation";
+import type { ReconciliationItem, ReconciliationReport } from "@/lib/supabase";
+
+const OUTCOME_LABELS: Record<ReconciliationItem["outcome"], string> = {
+  confirmed: "Confirmed",
+  mismatch: "Needs review",
+  reverted: "Reverted",
+  dropped: "Dropped",
+  not_found: "No receipt yet",
+  error: "Lookup failed",
+};
+
+const ISSUE_LABELS: Record<ReconciliationItem["issues"][number]["kind"], string> = {
+  amount: "Amount",
+  recipient: "Recipient",
+  sender: "Sender",
+  token: "Token",
+  no_transfer: "No transfer",
+};
+
+function shortHash(hash: string): string {
+  return hash.length > 14 ? `${hash.slice(0, 8)}…${hash.slice(-6)}` : hash;
+}
+
+function StatCard({ label, value }: { label: string; value: number }) {
+  return (
+    <div className="bg-white/5 rounded-2xl border border-white/10 p-4">
+      <p className="text-sm text-white/50">{label}</p>
+      <p className="text-xl font-medium text-white">{value}</p>
+    </div>
+  );
+}
+
+function ItemRow({ item }: { item: ReconciliationItem }) {
+  const changed = item.status !== item.previous_status;
+
+  return (
+    <div className="p-4 space-y-2">
+      <div className="flex items-center justify-between gap-3">
+        <div className="min-w-0">
+          <p className="text-base font-medium text-white">
+            {item.amount} {item.token}
+          </p>
+          <a
+            href={getExplorerTxUrl(item.tx_hash, item.chain)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-sm text-white/50 hover:text-white/80 inline-flex items-center gap-1"
+          >
+            {shortHash(item.tx_hash)}
+            <ExternalLink className="h-3 w-3" />
+          </a>
+        </div>
+        <div className="text-right shrink-0">
+          <p className={`text-sm ${item.status === "failed" ? "text-red-400" : changed ? "text-green-400" : "text-white/70"}`}>
+            {changed ? `${item.previous_status} → ${item.status}` : item.status}
+          </p>
+          <p className="text-xs text-white/50">{OUTCOME_LABELS[item.outcome]}</p>
+        </div>
+      </div>
+
+      {item.error && <p className="text-sm text-red-400">{item.error}</p>}
+
+      {item.issues.map((issue) => (
+        <p key={issue.kind} className="flex gap-2 text-sm text-yellow-300">
+          <AlertTriangle className="h-4 w-4 shrink-0 mt-0.5" />
+          <span className="break-all">
+            {ISSUE_LABELS[issue.kind]}: expected {issue.expected}
+            {issue.actual ? `, found ${issue.actual}` : ""}
+          </span>
+        </p>
+      ))}
+    </div>
+  );
+}
+
+export default function ReconciliationPage() {
+  const router = useRouter();
+  const { profile } = useUser();
+  const [reports, setReports] = useState<ReconciliationReport[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!profile?.id) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    getReconciliationReports(profile.id)
+      .then((result) => {
+        if (cancelled) return;
+        setReports(result);
+        setSelectedId(result[0]?.id || null);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to load reports");
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [profile?.id]);
+
+  const report = reports.find((r) => r.id === selectedId);
+  const flagged = report?.items.filter((item) => item.issues.length > 0 || item.outcome === "error") || [];
+  const others = report?.items.filter((item) => !flagged.includes(item)) || [];
+
+  return (
+    <div className="min-h-screen bg-[#0E0E0F] text-white pb-20">
+      <div className="mx-auto max-w-md">
+        {/* Header */}
+        <div className="px-6 py-8 flex items-center gap-3">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => router.push("/profile")}
+            className="text-white hover:bg-white/10 rounded-full"
+          >
+            <ArrowLeft className="h-6 w-6" />
+          </Button>
+          <div>
+            <h1 className="text-xl font-medium">Reconciliation</h1>
+            <p className="text-sm text-white/50">
+              Stale payments checked against onchain receipts
+            </p>
+          </div>
+        </div>
+
+        <div className="px-6 space-y-6">
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-6 w-6 animate-spin text-white/60" />
+            </div>
+          ) : error ? (
+            <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-sm">
+              {error}
+            </div>
+          ) : reports.length === 0 ? (
+            <p className="text-base text-white/50 text-center py-12">No reconciliation runs yet</p>
+          ) : (
+            <>
+              {/* Runs */}
+              <div className="flex gap-2 overflow-x-auto pb-1">
+                {reports.map((r) => (
+                  <button
+                    key={r.id}
+                    onClick={() => setSelectedId(r.id)}
+                    className={`px-3 py-1 rounded-full text-sm whitespace-nowrap transition-colors ${
+                      r.id === selectedId
+                        ? "bg-white text-black"
+                        : "bg-white/10 text-white/70 hover:bg-white/20"
+                    }`}
+                  >
+                    {new Date(r.ran_at).toLocaleString([], {
+                      month: "short",
+                      day: "numeric",
+                      hour: "2-digit",
+                      minute: "2-digit",
+                    })}
+                    {r.mismatches > 0 ? ` · ${r.mismatches} flagged` : ""}
+                  </button>
+                ))}
+              </div>
+
+              {report && (
+                <>
+                  {/* Summary */}
+                  <div className="grid grid-cols-2 gap-3">
+                    <StatCard label="Checked" value={report.checked} />
+                    <StatCard label="Mismatches" value={report.mismatches} />
+                    <StatCard label="Marked success" value={report.succeeded} />
+                    <StatCard label="Marked failed" value={report.failed} />
+                  </div>
+                  <p className="text-sm text-white/50 px-1">
+                    {report.unresolved} transaction{report.unresolved === 1 ? "" : "s"} left
+                    unchanged. Mismatches are held until their reconciliation_held_at is
+                    cleared; the rest are retried on later runs.
+                  </p>
+
+                  {flagged.length > 0 && (
+                    <div>
+                      <h2 className="text-base font-semibold text-white mb-3 px-1">
+                        Needs Review
+                      </h2>
+                      <div className="bg-white/5 rounded-2xl border border-white/10 divide-y divide-white/10">
+                        {flagged.map((item) => (
+                          <ItemRow key={item.transaction_id} item={item} />
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {others.length > 0 && (
+                    <div>
+                      <h2 className="text-base font-semibold text-white mb-3 px-1">
+                        Transactions
+                      </h2>
+                      <div className="bg-white/5 rounded-2xl border border-white/10 divide-y divide-white/10">
+                        {others.map((item) => (
+                          <ItemRow key={item.transaction_id} item={item} />
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                </>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
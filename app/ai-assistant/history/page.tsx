@@ -1,13 +1,14 @@
+import { AIConversationHistory } from "@/components/ai/AIConversationHistory";
 import { AIOperationHistory } from "@/components/ai/AIOperationHistory";
 import { ArrowLeft } from "lucide-react";
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
 
 /**
- * AI Operation History Page
+ * AI History Page
  * 
- * Displays the complete history of AI operations for the current user.
- * Provides transparency and audit trail for all AI-suggested actions.
+ * Lists past AI conversations, which can be reopened to continue them, and
+ * the audit trail of all AI-suggested operations.
  */
 export default function AIHistoryPage() {
   return (
@@ -21,14 +22,17 @@ export default function AIHistoryPage() {
             </Button>
           </Link>
           <div>
-            <h1 className="text-2xl font-bold">AI Operation History</h1>
+            <h1 className="text-2xl font-bold">AI History</h1>
             <p className="text-sm text-muted-foreground">
-              View all AI assistant interactions and operations
+              Continue past conversations and review AI operations
             </p>
           </div>
         </div>
 
-        {/* History Component */}
+        {/* Conversations */}
+        <AIConversationHistory />
+
+        {/* Operations */}
         <AIOperationHistory />
       </div>
     </div>
@@ -4,16 +4,20 @@ import { AIAgentChat } from "@/components/ai/AIAgentChat";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { ArrowLeft } from "lucide-react";
-import { useRouter } from "next/navigation";
+import { useRouter, useSearchParams } from "next/navigation";
+import { Suspense } from "react";
 
 /**
  * BANB AI Page
  * 
  * Full-screen AI chat interface for banking operations.
- * Accessible at /ai-assistant for dedicated AI interaction experience.
+ * Accessible at /ai-assistant for dedicated AI interaction experience;
+ * /ai-assistant?conversation=<id> resumes a stored conversation.
  */
-export default function AIAssistantPage() {
+function AIAssistantContent() {
   const router = useRouter();
+  const searchParams = useSearchParams();
+  const conversationId = searchParams.get("conversation") || undefined;
 
   return (
     <div className="min-h-screen bg-gradient-to-b from-[#3B1EFF] via-[#5B3FFF] to-[#1A0F3D]">
@@ -36,7 +40,7 @@ export default function AIAssistantPage() {
 
         {/* Chat Interface */}
         <Card className="h-[calc(100vh-180px)] overflow-hidden bg-white/95 dark:bg-gray-900/95 backdrop-blur-sm">
-          <AIAgentChat />
+          <AIAgentChat key={conversationId || "new"} conversationId={conversationId} />
         </Card>
 
         {/* Info Card */}
@@ -53,3 +57,15 @@ export default function AIAssistantPage() {
     </div>
   );
 }
+
+export default function AIAssistantPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="min-h-screen bg-gradient-to-b from-[#3B1EFF] via-[#5B3FFF] to-[#1A0F3D]" />
+      }
+    >
+      <AIAssistantContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,84 @@
+/**
+ * @fileoverview Single personal access token.
+ * DELETE revokes it; the record is kept so the owner can see when it was used.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { requireSessionProfile } from "@/lib/server-auth";
+
+// Create a service role client for server-side operations
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY ||
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  }
+);
+
+/**
+ * DELETE /api/access-tokens/[id]?profile_id=...
+ * Revokes the token. Revoking an already revoked token succeeds.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const profileId = request.nextUrl.searchParams.get("profile_id");
+    if (!profileId) {
+      return NextResponse.json(
+        { error: "Missing required parameter: profile_id" },
+        { status: 400 }
+      );
+    }
+
+    const session = await requireSessionProfile(request, profileId);
+    if (!session.ok) {
+      return NextResponse.json({ error: session.message }, { status: session.status });
+    }
+
+    const { data: token } = await supabaseAdmin
+      .from("personal_access_tokens")
+      .select("id, revoked_at")
+      .eq("id", id)
+      .eq("profile_id", profileId)
+      .maybeSingle();
+
+    if (!token) {
+      return NextResponse.json(
+        { error: "Access token not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!token.revoked_at) {
+      const { error } = await supabaseAdmin
+        .from("personal_access_tokens")
+        .update({ revoked_at: new Date().toISOString() })
+        .eq("id", id);
+
+      if (error) {
+        return NextResponse.json(
+          { error: "Failed to revoke access token", details: error.message },
+          { status: 500 }
+        );
+      }
+
+      console.log(`[access-tokens] ✓ Token ${id} revoked`);
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[access-tokens] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to revoke access token" },
+      { status: 500 }
+    );
+  }
+}
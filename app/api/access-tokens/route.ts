@@ -0,0 +1,155 @@
+/**
+ * @fileoverview Personal access tokens of a profile.
+ * GET lists them and POST creates one. The token secret is returned once by
+ * POST and only its hash is stored.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { requireSessionProfile } from "@/lib/server-auth";
+import {
+  MAX_ACTIVE_ACCESS_TOKENS,
+  validateAccessTokenInput,
+} from "@/lib/access-tokens";
+import { generateAccessToken } from "@/lib/access-token-auth";
+
+// Create a service role client for server-side operations
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY ||
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  }
+);
+
+// Every column except the hash
+const TOKEN_COLUMNS =
+  "id, profile_id, name, token_prefix, scopes, expires_at, last_used_at, revoked_at, created_at";
+
+/**
+ * GET /api/access-tokens?profile_id=...
+ * Returns the profile's tokens, newest first.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const profileId = request.nextUrl.searchParams.get("profile_id");
+    if (!profileId) {
+      return NextResponse.json(
+        { error: "Missing required parameter: profile_id" },
+        { status: 400 }
+      );
+    }
+
+    const session = await requireSessionProfile(request, profileId);
+    if (!session.ok) {
+      return NextResponse.json({ error: session.message }, { status: session.status });
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from("personal_access_tokens")
+      .select(TOKEN_COLUMNS)
+      .eq("profile_id", profileId)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      return NextResponse.json(
+        { error: "Failed to fetch access tokens", details: error.message },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, tokens: data || [] });
+  } catch (error) {
+    console.error("[access-tokens] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch access tokens" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/access-tokens
+ * Creates a token and returns its secret.
+ *
+ * Body: { profile_id, name, scopes, expires_in_days }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { profile_id, name, scopes, expires_in_days } = body;
+
+    // 1. Validate input
+    if (!profile_id) {
+      return NextResponse.json(
+        { error: "Missing required field: profile_id" },
+        { status: 400 }
+      );
+    }
+
+    const validationError = validateAccessTokenInput({ name, scopes, expires_in_days });
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    // 1b. Verify the caller is the profile owner
+    const session = await requireSessionProfile(request, profile_id);
+    if (!session.ok) {
+      return NextResponse.json({ error: session.message }, { status: session.status });
+    }
+
+    // 2. Limit active tokens
+    const { count } = await supabaseAdmin
+      .from("personal_access_tokens")
+      .select("id", { count: "exact", head: true })
+      .eq("profile_id", profile_id)
+      .is("revoked_at", null)
+      .gt("expires_at", new Date().toISOString());
+
+    if ((count || 0) >= MAX_ACTIVE_ACCESS_TOKENS) {
+      return NextResponse.json(
+        { error: `You can have at most ${MAX_ACTIVE_ACCESS_TOKENS} active tokens. Revoke one first.` },
+        { status: 400 }
+      );
+    }
+
+    // 3. Store the hash
+    const { token, prefix, hash } = generateAccessToken();
+    const expiresAt = new Date(Date.now() + expires_in_days * 24 * 60 * 60 * 1000);
+
+    const { data, error } = await supabaseAdmin
+      .from("personal_access_tokens")
+      .insert({
+        profile_id,
+        name: name.trim(),
+        token_hash: hash,
+        token_prefix: prefix,
+        scopes: Array.from(new Set(scopes)),
+        expires_at: expiresAt.toISOString(),
+      })
+      .select(TOKEN_COLUMNS)
+      .single();
+
+    if (error || !data) {
+      console.error("[access-tokens] Create error:", error);
+      return NextResponse.json(
+        { error: "Failed to create access token", details: error?.message },
+        { status: 500 }
+      );
+    }
+
+    console.log(`[access-tokens] ✓ Token ${data.id} created for ${profile_id}`);
+
+    return NextResponse.json({ success: true, token, access_token: data }, { status: 201 });
+  } catch (error) {
+    console.error("[access-tokens] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to create access token" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,201 @@
+/**
+ * @fileoverview Account statement download.
+ * Produces the statement of one account for a month or a custom range as a
+ * CSV, OFX, QFX or PDF file. Downloaded from the statements screen in the
+ * profile, for the signed-in owner of the account only.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { requireSessionProfile } from "@/lib/server-auth";
+import {
+  STATEMENT_FORMATS,
+  buildAccountStatement,
+  formatStatementCsv,
+  formatStatementOfx,
+  formatStatementPdf,
+  parseStatementPeriod,
+  type StatementFormat,
+  type StatementSource,
+} from "@/lib/statements";
+
+// Create a service role client for server-side operations
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY ||
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  }
+);
+
+const CONTENT_TYPES: Record<StatementFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  ofx: "application/x-ofx",
+  qfx: "application/vnd.intu.qfx",
+  pdf: "application/pdf",
+};
+
+/**
+ * GET /api/accounts/[id]/statement?profile_id=...&format=pdf&month=2025-03
+ * GET /api/accounts/[id]/statement?profile_id=...&format=csv&from=2025-03-01&to=2025-03-15
+ * Returns the statement as a file download. Without a month or range, the
+ * current month is used.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const searchParams = request.nextUrl.searchParams;
+    const requestedProfileId = searchParams.get("profile_id");
+    const format = (searchParams.get("format") || "pdf").toLowerCase() as StatementFormat;
+
+    // 1. Validate parameters
+    if (!requestedProfileId) {
+      return NextResponse.json(
+        { error: "Missing required parameter: profile_id" },
+        { status: 400 }
+      );
+    }
+
+    if (!STATEMENT_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: `format must be one of: ${STATEMENT_FORMATS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const { period, error: periodError } = parseStatementPeriod({
+      month: searchParams.get("month"),
+      from: searchParams.get("from"),
+      to: searchParams.get("to"),
+    });
+    if (!period) {
+      return NextResponse.json({ error: periodError }, { status: 400 });
+    }
+
+    // 2. Verify the caller is the profile owner
+    const session = await requireSessionProfile(request, requestedProfileId);
+    if (!session.ok) {
+      return NextResponse.json({ error: session.message }, { status: session.status });
+    }
+    const profileId = session.profile.id;
+
+    // 3. Load the account, which must belong to the profile
+    const { data: account, error: accountError } = await supabaseAdmin
+      .from("accounts")
+      .select("*")
+      .eq("id", id)
+      .eq("profile_id", profileId)
+      .single();
+
+    if (accountError || !account) {
+      return NextResponse.json(
+        { error: "Account not found" },
+        { status: 404 }
+      );
+    }
+
+    // 4. Load everything since the period start; later rows walk the current
+    // balance back to the closing balance
+    const { data: accountTransactions, error: accountTxError } = await supabaseAdmin
+      .from("account_transactions")
+      .select("*")
+      .eq("account_id", account.id)
+      .gte("created_at", period.from)
+      .order("created_at", { ascending: true });
+
+    if (accountTxError) {
+      throw new Error(`Failed to fetch account transactions: ${accountTxError.message}`);
+    }
+
+    // 5. Payments and investments go through the primary wallet
+    let transactions: StatementSource["transactions"] = [];
+    let movements: StatementSource["movements"] = [];
+    if (account.is_primary) {
+      const { data: linkedRecipients } = await supabaseAdmin
+        .from("recipients")
+        .select("id")
+        .eq("profile_id_link", profileId);
+      const incomingIds = linkedRecipients?.map((r) => r.id) || [];
+
+      const involvement = incomingIds.length > 0
+        ? `sender_profile_id.eq.${profileId},recipient_id.in.(${incomingIds.join(",")})`
+        : `sender_profile_id.eq.${profileId}`;
+
+      const [transactionsResult, movementsResult] = await Promise.all([
+        supabaseAdmin
+          .from("transactions")
+          .select(
+            `
+            *,
+            recipient:recipients(name, profile_id, external_address),
+            sender:profiles!transactions_sender_profile_id_fkey(name)
+          `
+          )
+          .or(involvement)
+          .gte("created_at", period.from)
+          .order("created_at", { ascending: true }),
+        supabaseAdmin
+          .from("investment_movements")
+          .select("*, investment:investments(investment_name)")
+          .eq("profile_id", profileId)
+          .gte("created_at", period.from)
+          .order("created_at", { ascending: true }),
+      ]);
+
+      if (transactionsResult.error) {
+        throw new Error(`Failed to fetch transactions: ${transactionsResult.error.message}`);
+      }
+      if (movementsResult.error) {
+        throw new Error(`Failed to fetch investment movements: ${movementsResult.error.message}`);
+      }
+      transactions = transactionsResult.data || [];
+      movements = movementsResult.data || [];
+    }
+
+    // 6. Build and render the statement
+    const statement = buildAccountStatement(
+      {
+        account,
+        profileId,
+        accountTransactions: accountTransactions || [],
+        transactions,
+        movements,
+      },
+      period
+    );
+
+    const body =
+      format === "pdf"
+        ? formatStatementPdf(statement)
+        : format === "csv"
+          ? formatStatementCsv(statement)
+          : formatStatementOfx(statement, {
+              intuBid: format === "qfx" ? process.env.QFX_INTU_BID || "00000" : undefined,
+            });
+
+    const lastDay = new Date(new Date(period.to).getTime() - 1).toISOString().slice(0, 10);
+    const slug = account.name.replace(/[^a-z0-9]+/gi, "-").toLowerCase();
+    const filename = `statement-${slug}-${period.from.slice(0, 10)}-${lastDay}.${format}`;
+
+    return new NextResponse(body as BodyInit, {
+      headers: {
+        "Content-Type": CONTENT_TYPES[format],
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("[accounts/statement] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to generate statement" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,362 @@
+/**
+ * @fileoverview Incoming and outgoing transfer sync for accounts.
+ * Scans the ERC-20 Transfer logs of every active account (see
+ * lib/transfer-indexer.ts), records them as account_transactions and keeps
+ * Account.balance in step. Each account resumes from the last block it was
+ * scanned to. Intended to be called by a cron job; set
+ * TRANSFER_LOG_SOURCE=fixture to replay recorded logs.
+ *
+ * Overlapping syncs are safe: transfers are inserted against a unique key,
+ * pending rows are confirmed only once, and the balance moves in the database
+ * by what this run actually wrote. Schema this relies on:
+ *
+ *   alter table account_transactions add column log_index integer;
+ *   create unique index account_transactions_transfer_key
+ *     on account_transactions (account_id, tx_hash, log_index);
+ *   create function apply_account_balance_delta(p_account_id uuid, p_delta numeric)
+ *     returns numeric language sql as $$
+ *       update accounts set balance = balance + p_delta, updated_at = now()
+ *        where id = p_account_id returning balance $$;
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { getAddress } from "viem";
+import {
+  decodeTransferLog,
+  getBalanceDelta,
+  getIndexedTokenAddresses,
+  getTransferLogSource,
+  planTransferSync,
+  resolveCounterpartyName,
+  type BalanceRow,
+  type CounterpartyDirectory,
+  type TokenTransfer,
+} from "@/lib/transfer-indexer";
+import type { Account, AccountTransaction, TransferIndexCursor } from "@/lib/supabase";
+import { isCronAuthorized } from "@/lib/cron-auth";
+
+// Create a service role client for server-side operations
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY ||
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  }
+);
+
+/**
+ * Maximum number of accounts processed per invocation.
+ */
+const BATCH_SIZE = 100;
+
+/**
+ * Outcome of syncing a single account.
+ */
+interface AccountSyncResult {
+  accountId: string;
+  status: "synced" | "skipped" | "error";
+  inserted?: number;
+  confirmed?: number;
+  balance?: string;
+  lastBlock?: number | null;
+  reason?: string;
+}
+
+/**
+ * Both spellings of each address; addresses are stored as entered.
+ */
+function addressVariants(addresses: string[]): string[] {
+  return [
+    ...new Set(addresses.flatMap((address) => [address, address.toLowerCase(), getAddress(address)])),
+  ];
+}
+
+/**
+ * Loads the names the owner and other app users go by for the counterparties.
+ */
+async function loadCounterpartyNames(
+  profileId: string,
+  counterparties: string[]
+): Promise<Record<string, string>> {
+  if (counterparties.length === 0) {
+    return {};
+  }
+
+  const variants = addressVariants(counterparties);
+  const [{ data: recipients }, { data: accounts }, { data: wallets }] = await Promise.all([
+    supabaseAdmin
+      .from("recipients")
+      .select("name, external_address, profile_id_link")
+      .eq("profile_id", profileId),
+    supabaseAdmin
+      .from("accounts")
+      .select("profile_id, address")
+      .in("address", variants),
+    supabaseAdmin
+      .from("profiles")
+      .select("id, name, wallet_address")
+      .in("wallet_address", variants),
+  ]);
+
+  const addressesByProfile = new Map<string, string[]>();
+  for (const row of accounts || []) {
+    addressesByProfile.set(row.profile_id, [...(addressesByProfile.get(row.profile_id) || []), row.address]);
+  }
+  for (const row of wallets || []) {
+    addressesByProfile.set(row.id, [...(addressesByProfile.get(row.id) || []), row.wallet_address]);
+  }
+
+  const { data: profiles } = addressesByProfile.size > 0
+    ? await supabaseAdmin
+        .from("profiles")
+        .select("id, name")
+        .in("id", [...addressesByProfile.keys()])
+    : { data: [] };
+
+  const directory: CounterpartyDirectory = {
+    recipients: recipients || [],
+    profiles: (profiles || []).map((profile) => ({
+      id: profile.id,
+      name: profile.name,
+      addresses: addressesByProfile.get(profile.id) || [],
+    })),
+  };
+
+  const names: Record<string, string> = {};
+  for (const address of counterparties) {
+    const name = resolveCounterpartyName(address, directory);
+    if (name) {
+      names[address.toLowerCase()] = name;
+    }
+  }
+  return names;
+}
+
+/**
+ * Scans one account from its cursor and records new transfers.
+ */
+async function syncAccount(account: Account, now: Date): Promise<AccountSyncResult> {
+  const tokens = getIndexedTokenAddresses(account.network);
+  if (tokens.length === 0) {
+    return {
+      accountId: account.id,
+      status: "skipped",
+      reason: `No indexed tokens on ${account.network}`,
+    };
+  }
+
+  // 1. Resume from the last indexed block; it is scanned again since a
+  // previous scan may have stopped partway through it
+  const { data: cursor } = await supabaseAdmin
+    .from("transfer_index_cursors")
+    .select("*")
+    .eq("account_id", account.id)
+    .maybeSingle<TransferIndexCursor>();
+  const fromBlock = cursor?.network === account.network ? cursor.last_block : 0;
+
+  // 2. Fetch and decode the logs
+  const logs = await getTransferLogSource().fetchTransferLogs({
+    network: account.network,
+    address: account.address,
+    tokens,
+    fromBlock,
+  });
+  const transfers = logs
+    .map((log) => decodeTransferLog(log, account.network))
+    .filter((transfer): transfer is TokenTransfer => transfer !== null);
+
+  // 3. Rows already recorded for these transactions
+  const hashes = [...new Set(transfers.map((transfer) => transfer.tx_hash))];
+  const { data: existing, error: existingError } = hashes.length > 0
+    ? await supabaseAdmin
+        .from("account_transactions")
+        .select("*")
+        .eq("account_id", account.id)
+        .in("tx_hash", hashes)
+    : { data: [], error: null };
+
+  if (existingError) {
+    throw new Error(`Failed to load transactions: ${existingError.message}`);
+  }
+
+  // 4. Plan inserts, confirmations and the balance change
+  const own = account.address.toLowerCase();
+  const counterparties = [
+    ...new Set(
+      transfers.map((transfer) =>
+        transfer.to.toLowerCase() === own ? transfer.from : transfer.to
+      )
+    ),
+  ];
+  const names = await loadCounterpartyNames(account.profile_id, counterparties);
+  const plan = planTransferSync(
+    account,
+    transfers,
+    (existing || []) as AccountTransaction[],
+    names
+  );
+
+  // 5. Write the rows. Transfers another sync recorded in the meantime are
+  // skipped, and only the rows this run wrote move the balance
+  const applied: BalanceRow[] = [];
+  let inserted = 0;
+  if (plan.inserts.length > 0) {
+    const { data: insertedRows, error: insertError } = await supabaseAdmin
+      .from("account_transactions")
+      .upsert(plan.inserts, {
+        onConflict: "account_id,tx_hash,log_index",
+        ignoreDuplicates: true,
+      })
+      .select("amount, direction, token_symbol");
+    if (insertError) {
+      throw new Error(`Failed to record transfers: ${insertError.message}`);
+    }
+    inserted = insertedRows?.length || 0;
+    applied.push(...((insertedRows || []) as BalanceRow[]));
+  }
+
+  let confirmed = 0;
+  for (const confirmation of plan.confirmations) {
+    const { data: confirmedRows, error: updateError } = await supabaseAdmin
+      .from("account_transactions")
+      .update({ ...confirmation.changes, updated_at: now.toISOString() })
+      .eq("id", confirmation.id)
+      .is("log_index", null)
+      .select("id");
+    if (updateError) {
+      throw new Error(`Failed to confirm transaction: ${updateError.message}`);
+    }
+    if (confirmedRows && confirmedRows.length > 0) {
+      confirmed++;
+      if (confirmation.balanceRow) {
+        applied.push(confirmation.balanceRow);
+      }
+    }
+  }
+
+  // 6. Move the balance and the cursor
+  let balance = account.balance;
+  const balanceDelta = getBalanceDelta(applied);
+  if (Number(balanceDelta) !== 0) {
+    const { data: newBalance, error: balanceError } = await supabaseAdmin.rpc(
+      "apply_account_balance_delta",
+      { p_account_id: account.id, p_delta: balanceDelta }
+    );
+    if (balanceError) {
+      throw new Error(`Failed to update balance: ${balanceError.message}`);
+    }
+    balance = String(newBalance);
+  }
+
+  const { error: cursorError } = await supabaseAdmin
+    .from("transfer_index_cursors")
+    .upsert(
+      {
+        account_id: account.id,
+        network: account.network,
+        last_block: plan.lastBlock ?? fromBlock,
+        last_scanned_at: now.toISOString(),
+      },
+      { onConflict: "account_id" }
+    );
+  if (cursorError) {
+    throw new Error(`Failed to store cursor: ${cursorError.message}`);
+  }
+
+  return {
+    accountId: account.id,
+    status: "synced",
+    inserted,
+    confirmed,
+    balance,
+    lastBlock: plan.lastBlock,
+  };
+}
+
+/**
+ * Syncs every active account, or a single one.
+ */
+async function syncAccounts(accountId: string | null) {
+  const now = new Date();
+
+  let query = supabaseAdmin
+    .from("accounts")
+    .select("*")
+    .eq("status", "active")
+    .order("updated_at", { ascending: true })
+    .limit(BATCH_SIZE);
+  if (accountId) {
+    query = query.eq("id", accountId);
+  }
+
+  const { data: accounts, error } = await query;
+
+  if (error) {
+    console.error("[AccountSync] Failed to load accounts:", error);
+    return NextResponse.json(
+      { error: "Failed to load accounts", details: error.message },
+      { status: 500 }
+    );
+  }
+
+  const results: AccountSyncResult[] = [];
+  for (const account of (accounts || []) as Account[]) {
+    try {
+      results.push(await syncAccount(account, now));
+    } catch (err) {
+      results.push({
+        accountId: account.id,
+        status: "error",
+        reason: err instanceof Error ? err.message : "Unknown error",
+      });
+    }
+  }
+
+  const synced = results.filter((r) => r.status === "synced").length;
+  const inserted = results.reduce((total, r) => total + (r.inserted || 0), 0);
+  console.log(
+    `[AccountSync] Processed ${results.length} account(s), synced ${synced}, recorded ${inserted} transfer(s)`
+  );
+
+  return NextResponse.json({
+    success: true,
+    processed: results.length,
+    synced,
+    results,
+    ranAt: now.toISOString(),
+  });
+}
+
+/**
+ * GET /api/accounts/sync
+ * Entry point for cron schedulers (e.g. Vercel Cron sends GET requests).
+ * Pass `account_id` to sync a single account.
+ */
+export async function GET(request: NextRequest) {
+  if (!isCronAuthorized(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    return await syncAccounts(request.nextUrl.searchParams.get("account_id"));
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/accounts/sync
+ * Same as GET, for schedulers that only send POST requests.
+ */
+export async function POST(request: NextRequest) {
+  return GET(request);
+}
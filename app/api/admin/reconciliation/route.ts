@@ -0,0 +1,69 @@
+/**
+ * @fileoverview Reconciliation reports for the admin view.
+ * Lists the runs of the transaction reconciliation worker
+ * (/api/transactions/reconcile), newest first. Restricted to the profiles
+ * listed in ADMIN_PROFILE_IDS.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { isAdminProfile, requireSessionProfile } from "@/lib/server-auth";
+
+// Create a service role client for server-side operations
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY ||
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  }
+);
+
+const MAX_REPORTS = 100;
+
+/**
+ * GET /api/admin/reconciliation?profile_id=...&limit=20
+ * Returns the latest reconciliation reports with their items.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const limit = Math.min(Math.max(Number(searchParams.get("limit")) || 20, 1), MAX_REPORTS);
+
+    // 1. Only admins may read reports
+    const session = await requireSessionProfile(request, searchParams.get("profile_id") || undefined);
+    if (!session.ok) {
+      return NextResponse.json({ error: session.message }, { status: session.status });
+    }
+
+    if (!isAdminProfile(session.profile.id)) {
+      return NextResponse.json({ error: "Admin access required" }, { status: 403 });
+    }
+
+    // 2. Load the reports
+    const { data: reports, error } = await supabaseAdmin
+      .from("reconciliation_reports")
+      .select("*")
+      .order("ran_at", { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error("[admin/reconciliation] Failed to load reports:", error);
+      return NextResponse.json(
+        { error: "Failed to load reconciliation reports" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, reports: reports || [] });
+  } catch (error) {
+    console.error("[admin/reconciliation] Error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,31 +1,32 @@
 import { NextRequest, NextResponse } from "next/server";
-import { supabase } from "@/lib/supabase";
-import { MCP_TOOLS, executeToolHandler, type ToolExecutionContext } from "@/lib/mcp-server";
-
-// Rate limiting: Store request counts in memory (in production, use Redis)
-const rateLimitMap = new Map<string, { count: number; resetAt: number }>();
-const RATE_LIMIT = 10; // requests per minute
-const RATE_LIMIT_WINDOW = 60 * 1000; // 1 minute in ms
-
-/**
- * Rate limiter for AI endpoints
- */
-function checkRateLimit(identifier: string): boolean {
-  const now = Date.now();
-  const record = rateLimitMap.get(identifier);
-
-  if (!record || now > record.resetAt) {
-    rateLimitMap.set(identifier, { count: 1, resetAt: now + RATE_LIMIT_WINDOW });
-    return true;
-  }
-
-  if (record.count >= RATE_LIMIT) {
-    return false;
-  }
-
-  record.count++;
-  return true;
-}
+import { supabase, type AIConversation } from "@/lib/supabase";
+import { MCP_TOOLS, canUseTool, executeToolHandler, type ToolExecutionContext } from "@/lib/mcp-server";
+import { hasScope } from "@/lib/access-tokens";
+import { checkAccessToken } from "@/lib/access-token-auth";
+import { requireSessionProfile } from "@/lib/server-auth";
+import { consumeAIRequest, getAIUsageStore, getProfilePlan } from "@/lib/ai-usage-store";
+import {
+  getAIProvider,
+  getAIProviderConfig,
+  getAIProviderErrorStatus,
+  runToolLoop,
+  type AIMessage,
+} from "@/lib/ai-provider";
+import { formatSSEEvent } from "@/lib/sse";
+import {
+  AI_ACTION_TOOLS,
+  appendOperationStep,
+  getActionToolOperationType,
+  parseActionToolCall,
+  type ParsedAIOperation,
+} from "@/lib/ai-operations";
+import { getVaultCatalog } from "@/lib/vault-catalog";
+import {
+  buildHistoryWindow,
+  getConversationTitle,
+  summarizeConversation,
+  toHistoryMessages,
+} from "@/lib/ai-conversations";
 
 /**
  * Sanitize user input to prevent prompt injection
@@ -54,7 +55,7 @@ function sanitizeInput(input: string): string {
  * Retrieve user context for AI processing
  */
 async function getUserContext(
-  profileId: string,
+  toolContext: ToolExecutionContext,
   options: {
     includeBalance?: boolean;
     includeTransactions?: boolean;
@@ -62,6 +63,7 @@ async function getUserContext(
   }
 ) {
   const context: Record<string, unknown> = {};
+  const { profileId, scopes } = toolContext;
 
   try {
     // Get profile
@@ -81,11 +83,7 @@ async function getUserContext(
     // Get balance if requested (server-side via MCP tool)
     if (options.includeBalance) {
       try {
-        const balanceResult = await executeToolHandler(
-          "get_user_balance",
-          {},
-          { profileId } as ToolExecutionContext
-        );
+        const balanceResult = await executeToolHandler("get_user_balance", {}, toolContext);
         let balanceInfo: unknown = null;
         if (balanceResult.content && balanceResult.content[0]?.text) {
           const parsed = JSON.parse(balanceResult.content[0].text);
@@ -102,8 +100,8 @@ async function getUserContext(
       }
     }
 
-    // Get recent transactions if requested
-    if (options.includeTransactions) {
+    // Get recent transactions if requested (and the access token allows it)
+    if (options.includeTransactions && hasScope(scopes, "read:transactions")) {
       const { data: transactions } = await supabase
         .from("transactions")
         .select(
@@ -119,8 +117,8 @@ async function getUserContext(
       context.transactions = transactions || [];
     }
 
-    // Get recipients if requested
-    if (options.includeRecipients) {
+    // Get recipients if requested (and the access token allows it)
+    if (options.includeRecipients && hasScope(scopes, "read:recipients")) {
       const { data: recipients } = await supabase
         .from("recipients")
         .select("*")
@@ -138,44 +136,201 @@ async function getUserContext(
 }
 
 /**
- * Parse AI response for actionable operations
+ * Find the conversation a message continues, or start a new one titled after it.
+ * Returns null when the conversation doesn't exist or belongs to someone else.
  */
-function parseAIResponse(response: string): {
-  operation: Record<string, unknown> | null;
-} {
-  // Simple pattern matching for operations
-  // In production, use structured output from AI model
+async function getOrCreateConversation(
+  profileId: string,
+  conversationId: string | undefined,
+  message: string
+): Promise<AIConversation | null> {
+  if (conversationId) {
+    const { data } = await supabase
+      .from("ai_conversations")
+      .select("*")
+      .eq("id", conversationId)
+      .eq("profile_id", profileId)
+      .maybeSingle();
+    return data;
+  }
 
-  const paymentPattern = /send\s+\$?(\d+(?:\.\d{2})?)\s+to\s+(\w+)/i;
-  const match = response.match(paymentPattern);
+  const { data, error } = await supabase
+    .from("ai_conversations")
+    .insert({ profile_id: profileId, title: getConversationTitle(message) })
+    .select()
+    .single();
 
-  if (match) {
-    return {
-      operation: {
-        type: "payment",
-        data: {
-          amount: match[1],
-          recipientName: match[2],
-        },
-      },
-    };
+  if (error || !data) {
+    throw new Error(`Failed to create conversation: ${error?.message}`);
+  }
+  return data;
+}
+
+/**
+ * Load the earlier turns of a conversation for the prompt.
+ * Messages that no longer fit the history budget are folded into the
+ * conversation summary; if summarizing fails they are only left out.
+ */
+async function loadConversationHistory(conversation: AIConversation): Promise<AIMessage[]> {
+  let query = supabase
+    .from("ai_messages")
+    .select("role, content, cancelled, created_at")
+    .eq("conversation_id", conversation.id)
+    .order("created_at", { ascending: true });
+  if (conversation.summarized_until) {
+    query = query.gt("created_at", conversation.summarized_until);
   }
 
-  return { operation: null };
+  const { data: messages, error } = await query;
+  if (error) {
+    console.error("[AI Chat] Failed to load conversation history:", error);
+    return toHistoryMessages(conversation.summary, []);
+  }
+
+  const { recent, older } = buildHistoryWindow(messages || []);
+  let summary = conversation.summary;
+
+  if (older.length > 0 && getAIProviderConfig().valid) {
+    try {
+      summary = await summarizeConversation(getAIProvider(), summary, older);
+      await supabase
+        .from("ai_conversations")
+        .update({
+          summary,
+          summarized_until: older[older.length - 1].created_at,
+        })
+        .eq("id", conversation.id);
+    } catch (error) {
+      console.error("[AI Chat] Failed to summarize conversation:", error);
+    }
+  }
+
+  return toHistoryMessages(summary, recent);
 }
 
 /**
- * Convert MCP tools to OpenAI function definitions
+ * Store a conversation message and mark the conversation as active
  */
-function convertMCPToolsToOpenAIFunctions() {
-  return MCP_TOOLS.map((tool) => ({
-    type: "function",
-    function: {
-      name: tool.name,
-      description: tool.description,
-      parameters: tool.inputSchema,
-    },
-  }));
+async function saveMessage(
+  conversationId: string,
+  profileId: string,
+  role: "user" | "assistant",
+  content: string,
+  cancelled: boolean = false
+): Promise<void> {
+  const { error } = await supabase.from("ai_messages").insert({
+    conversation_id: conversationId,
+    profile_id: profileId,
+    role,
+    content,
+    cancelled,
+  });
+  if (error) {
+    console.error("[AI Chat] Failed to save message:", error);
+    return;
+  }
+
+  await supabase
+    .from("ai_conversations")
+    .update({ updated_at: new Date().toISOString() })
+    .eq("id", conversationId);
+}
+
+/**
+ * Validate an operation proposed through an action tool and resolve it against
+ * the user's data, so the confirmation shows exactly what will be executed
+ */
+async function proposeOperation(
+  toolName: string,
+  args: Record<string, unknown>,
+  profileId: string
+): Promise<{ operation: ParsedAIOperation | null; error?: string }> {
+  const { operation, errors } = parseActionToolCall(toolName, args);
+  if (!operation) {
+    return { operation: null, error: errors.join("; ") };
+  }
+
+  switch (operation.type) {
+    case "payment": {
+      // Match a saved recipient by ID, or by full name (case-insensitive)
+      const { data: recipients } = await supabase
+        .from("recipients")
+        .select("id, name, external_address")
+        .eq("profile_id", profileId)
+        .eq("status", "active");
+
+      const wanted = operation.data.recipient_name?.toLowerCase();
+      const recipient = (recipients || []).find((r) =>
+        operation.data.recipient_id
+          ? r.id === operation.data.recipient_id
+          : r.name.toLowerCase() === wanted
+      );
+
+      if (!recipient) {
+        const names = (recipients || []).map((r) => r.name).join(", ") || "none";
+        return {
+          operation: null,
+          error: `Recipient not found among saved recipients (${names})`,
+        };
+      }
+      if (!recipient.external_address) {
+        return {
+          operation: null,
+          error: `${recipient.name} does not have a wallet address`,
+        };
+      }
+
+      operation.data.recipient_id = recipient.id;
+      operation.data.recipient_name = recipient.name;
+      operation.data.to = recipient.external_address;
+      return { operation };
+    }
+
+    case "invest": {
+      const vault = await getVaultCatalog()
+        .getVaults()
+        .then((vaults) => vaults.find((v) => v.id === operation.data.option_id));
+      if (!vault) {
+        return { operation: null, error: "Investment option not found" };
+      }
+
+      operation.data.vault_address = vault.vault_address;
+      operation.data.vault_name = vault.name;
+      return { operation };
+    }
+
+    case "withdraw_investment": {
+      const vault = await getVaultCatalog()
+        .getVaults()
+        .then((vaults) => vaults.find((v) => v.id === operation.data.option_id));
+      if (!vault) {
+        return { operation: null, error: "Investment option not found" };
+      }
+
+      // Withdrawals come out of the user's active investment in that vault
+      const { data: investments } = await supabase
+        .from("investments")
+        .select("id, investment_name")
+        .eq("profile_id", profileId)
+        .eq("status", "active")
+        .ilike("vault_address", vault.vault_address)
+        .order("created_at", { ascending: false })
+        .limit(1);
+
+      const investment = investments?.[0];
+      if (!investment) {
+        return { operation: null, error: `The user has no active investment in ${vault.name}` };
+      }
+
+      operation.data.investment_id = investment.id;
+      operation.data.vault_address = vault.vault_address;
+      operation.data.vault_name = investment.investment_name || vault.name;
+      return { operation };
+    }
+
+    default:
+      return { operation };
+  }
 }
 
 /**
@@ -184,13 +339,12 @@ function convertMCPToolsToOpenAIFunctions() {
 async function executeMCPTool(
   toolName: string,
   args: Record<string, unknown>,
-  profileId: string
+  toolContext: ToolExecutionContext
 ): Promise<string> {
   try {
-    console.log(`Executing MCP tool: ${toolName} for profile: ${profileId}`);
+    console.log(`Executing MCP tool: ${toolName} for profile: ${toolContext.profileId}`);
     
-    const context: ToolExecutionContext = { profileId };
-    const result = await executeToolHandler(toolName, args, context);
+    const result = await executeToolHandler(toolName, args, toolContext);
     
     // Extract the text content from MCP result
     if (result.content && result.content[0]?.text) {
@@ -216,61 +370,53 @@ async function executeMCPTool(
 }
 
 /**
- * Validates AI configuration for MCP functionality
+ * Callbacks for streaming a response while it is generated
  */
-function validateAIConfiguration(): { valid: boolean; error?: string } {
-  const aiProvider = process.env.AI_PROVIDER;
-  const apiKey = process.env.AI_API_KEY;
-
-  // Check if AI_PROVIDER is set to openai for MCP functionality
-  if (aiProvider !== "openai") {
-    return {
-      valid: false,
-      error: `MCP functionality requires AI_PROVIDER="openai", but got "${aiProvider}". Please update your .env.local file.`
-    };
-  }
-
-  // Check if API key is configured
-  if (!apiKey || apiKey === "your_ai_api_key" || (typeof apiKey === "string" && apiKey.startsWith("your_"))) {
-    return {
-      valid: false,
-      error: "AI_API_KEY is not configured. Please add a valid OpenAI API key to your .env.local file."
-    };
-  }
-
-  // Basic API key format validation (OpenAI keys start with sk-)
-  if (typeof apiKey === "string" && !apiKey.startsWith("sk-")) {
-    return {
-      valid: false,
-      error: "Invalid AI_API_KEY format. OpenAI API keys should start with 'sk-'."
-    };
-  }
+interface AIBackendHooks {
+  signal?: AbortSignal;
+  onTextDelta?: (text: string) => void;
+  onToolCall?: (toolName: string) => void;
+  onToolResult?: (toolName: string) => void;
+}
 
-  return { valid: true };
+/**
+ * AI answer and the operation proposed through an action tool, if any
+ */
+interface AIBackendResult {
+  response: string;
+  operation: ParsedAIOperation | null;
 }
 
 /**
- * Call AI backend with MCP tool integration (OpenAI, Anthropic, or local model)
+ * Call the configured AI provider (OpenAI, Anthropic, or local model) with MCP tool integration
  */
 async function callAIBackend(
   message: string,
   context: Record<string, unknown>,
-  profileId?: string
-): Promise<string> {
-  const aiProvider = process.env.AI_PROVIDER || "openai";
-  const apiKey = process.env.AI_API_KEY;
+  toolContext?: ToolExecutionContext,
+  history: AIMessage[] = [],
+  hooks: AIBackendHooks = {}
+): Promise<AIBackendResult> {
+  const profileId = toolContext?.profileId;
 
   // Validate AI configuration
-  const configValidation = validateAIConfiguration();
+  const configValidation = getAIProviderConfig();
   if (!configValidation.valid) {
     console.warn("AI configuration invalid:", configValidation.error);
-    return await generateMockResponse(message, context, profileId, configValidation.error);
+    return {
+      response: await generateMockResponse(message, context, toolContext, configValidation.error),
+      operation: null,
+    };
   }
 
+  // Set when the model calls an action tool; one operation per answer
+  let operation: ParsedAIOperation | null = null;
+
   try {
-    if (aiProvider === "openai") {
-      // Prepare system message with MCP tool context
-      const systemMessage = `You are a helpful banking assistant for Banb, a blockchain-based neo-bank. You can help users analyze their spending, send payments, and answer questions about their account.
+    const provider = getAIProvider();
+
+    // Prepare system message with MCP tool context
+    const systemMessage = `You are a helpful banking assistant for Banb, a blockchain-based neo-bank. You can help users analyze their spending, send payments, and answer questions about their account.
 
 You have access to the following tools to query user data:
 - get_investment_options: Get available investment products with APR, risk level, and details
@@ -281,6 +427,12 @@ You have access to the following tools to query user data:
 - get_recipients: Get saved payment recipients (friends list)
 - get_transaction_summary: Get spending analysis and patterns with insights
 
+You can propose operations with these action tools. The app then asks the user to confirm; calling them does not execute anything:
+- propose_payment: Prepare a payment to a saved recipient
+- propose_investment: Prepare a USDC deposit into an investment vault
+- propose_investment_withdrawal: Prepare withdrawing USDC from one of the user's active investments, an amount or everything
+- propose_recipient: Prepare saving a new recipient with a wallet address
+
 Use these tools when users ask about their data. Always provide helpful, accurate information based on the tool results.
 When users ask about investments, balance, transactions, accounts, recipients, or spending patterns, use the appropriate tools to get current data.
 
@@ -295,238 +447,121 @@ IMPORTANT BEHAVIOR FOR TRANSACTIONS:
 FORMATTING ONCHAIN TRANSACTIONS:
 - When get_onchain_transactions returns data, use the "display" field for each transaction (it's pre-formatted)
 - Present transactions in a clean list format with each transaction on its own line
-- Make the explorer_url a clickable link by formatting it as: [View on Basescan](url)
+- Make the explorer_url a clickable link by formatting it as: [View on explorer](url)
 - DO NOT show the status field (confirmed/failed) to the user
 - Example format:
   📥 Received 50.00 USDC - 1/15/2025
-  [View on Basescan](https://basescan.org/tx/0xabc...)
+  [View on explorer](https://basescan.org/tx/0xabc...)
   
   📤 Sent 25.00 ETH - 1/14/2025
-  [View on Basescan](https://basescan.org/tx/0xdef...)
+  [View on explorer](https://arbiscan.io/tx/0xdef...)
 - Keep presentation simple and mobile-friendly with proper spacing between transactions
 
+CONVERSATION:
+- Earlier messages of this conversation (and a summary of older ones) come before the latest question. Use them to resolve follow-ups like "and last month?" or "send her the same amount"
+
 LANGUAGE:
 - Respond in the same language as the user's question. If the user asks in Italian, respond in Italian. If the user asks in English, respond in English
 - Keep answers concise and helpful
 
-When suggesting a payment, use the format: "I can send $X to [recipient name] for you. Would you like me to proceed?"`;
-
-      // Prepare OpenAI request with function calling
-      const requestBody: {
-        model: string;
-        messages: Array<{role: string; content: string | null; tool_calls?: unknown[]}>;
-        max_tokens: number;
-        temperature: number;
-        tools?: unknown[];
-        tool_choice?: string;
-      } = {
-        model: "gpt-4o-mini", // Use the available model
-        messages: [
-          {
-            role: "system",
-            content: systemMessage,
-          },
-          {
-            role: "user",
-            content: message,
-          },
-        ],
-        max_tokens: 500,
-        temperature: 0.7,
-      };
-
-      // Add function calling if profile ID is available (user is authenticated)
-      if (profileId) {
-        requestBody.tools = convertMCPToolsToOpenAIFunctions();
-        requestBody.tool_choice = "auto";
-      }
-
-      console.log("Making OpenAI request with tools:", profileId ? "enabled" : "disabled");
-
-      const response = await fetch("https://api.openai.com/v1/chat/completions", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${apiKey}`,
-        },
-        body: JSON.stringify(requestBody),
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error("OpenAI API error:", response.status, errorText);
-        
-        // Handle specific API key errors
-        if (response.status === 401) {
-          console.error("OpenAI API key is invalid or expired");
-          return generateMockResponse(message, context, profileId, "Invalid or expired OpenAI API key. Please check your AI_API_KEY in .env.local.");
-        }
-        
-        if (response.status === 429) {
-          console.error("OpenAI API rate limit exceeded");
-          return generateMockResponse(message, context, "OpenAI API rate limit exceeded. Please try again later.");
-        }
-        
-        throw new Error(`OpenAI API error: ${response.status} ${response.statusText}`);
-      }
-
-      const data = await response.json();
-      const choice = data.choices[0];
-      
-      if (!choice) {
-        console.error("No choices returned from OpenAI");
-        return "I'm sorry, I couldn't process that request.";
-      }
+PROPOSING OPERATIONS:
+- When the user asks to send money, invest, withdraw from an investment, or save a new recipient, call the matching propose_* tool with the details they gave
+- For withdrawals, pass withdraw_all instead of an amount when the user wants everything back
+- Use the recipient's exact saved name or ID; if the amount or recipient is unclear, ask instead of guessing
+- After a successful proposal, tell the user to review and confirm it. Never say it has already been sent or executed`;
+
+    // Context requested by the client (balance, transactions, recipients)
+    const contextMessage =
+      Object.keys(context).length > 0
+        ? `\n\nUser context: ${JSON.stringify(context)}`
+        : "";
+
+    // Tools are only offered when the user is authenticated
+    console.log(
+      `Making ${provider.name} (${provider.model}) request with tools:`,
+      profileId ? "enabled" : "disabled"
+    );
 
-      // Check if OpenAI wants to call tools
-      if (choice.message.tool_calls && choice.message.tool_calls.length > 0 && profileId) {
-        console.log(`OpenAI requested ${choice.message.tool_calls.length} tool calls`);
-        
-        const toolMessages: Array<{
-          role: string;
-          tool_call_id: string;
-          content: string;
-        }> = [];
-        
-        // Execute each tool call
-        for (const toolCall of choice.message.tool_calls) {
-          const toolName = toolCall.function.name;
-          const toolArgs = JSON.parse(toolCall.function.arguments || "{}");
-          
-          console.log(`Executing MCP tool: ${toolName} with args:`, toolArgs);
-          
-          try {
-            const toolResult = await executeMCPTool(toolName, toolArgs, profileId);
-            toolMessages.push({
-              role: "tool",
-              tool_call_id: toolCall.id,
-              content: toolResult,
-            });
-            console.log(`Tool ${toolName} executed successfully`);
-          } catch (toolError) {
-            console.error(`Error executing tool ${toolName}:`, toolError);
-            toolMessages.push({
-              role: "tool",
-              tool_call_id: toolCall.id,
-              content: `Error: ${toolError instanceof Error ? toolError.message : "Tool execution failed"}`,
-            });
+    const result = await runToolLoop({
+      provider,
+      messages: [
+        { role: "system", content: systemMessage + contextMessage },
+        ...history,
+        { role: "user", content: message },
+      ],
+      tools: toolContext
+        ? [...MCP_TOOLS.filter((tool) => canUseTool(tool.name, toolContext)), ...AI_ACTION_TOOLS]
+        : undefined,
+      executeTool: async (toolName, toolArgs) => {
+        if (getActionToolOperationType(toolName)) {
+          if (operation) {
+            return "Error: An operation is already awaiting confirmation. Propose one operation at a time.";
           }
-        }
-        
-        // Make a second call to OpenAI with tool results
-        const followUpRequestBody = {
-          model: "gpt-4o-mini", // Use the available model
-          messages: [
-            {
-              role: "system",
-              content: systemMessage,
-            },
-            {
-              role: "user",
-              content: message,
-            },
-            {
-              role: "assistant",
-              content: null,
-              tool_calls: choice.message.tool_calls,
-            },
-            ...toolMessages,
-          ],
-          max_tokens: 500,
-          temperature: 0.7,
-        };
-
-        console.log("Making follow-up OpenAI request with tool results");
-
-        const followUpResponse = await fetch("https://api.openai.com/v1/chat/completions", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${apiKey}`,
-          },
-          body: JSON.stringify(followUpRequestBody),
-        });
-
-        if (!followUpResponse.ok) {
-          const errorText = await followUpResponse.text();
-          console.error("OpenAI follow-up API error:", followUpResponse.status, errorText);
-          throw new Error(`OpenAI follow-up API error: ${followUpResponse.status} ${followUpResponse.statusText}`);
+          const proposal = await proposeOperation(toolName, toolArgs, profileId!);
+          if (!proposal.operation) {
+            return `Error: ${proposal.error}`;
+          }
+          operation = proposal.operation;
+          return JSON.stringify({ status: "awaiting_user_confirmation", operation });
         }
 
-        const followUpData = await followUpResponse.json();
-        const finalResponse = followUpData.choices[0]?.message?.content;
-        
-        if (!finalResponse) {
-          console.error("No content in follow-up response");
-          return "I processed your request but couldn't generate a response.";
-        }
+        console.log(`Executing MCP tool: ${toolName} with args:`, toolArgs);
+        return executeMCPTool(toolName, toolArgs, toolContext!);
+      },
+      maxTokens: 500,
+      temperature: 0.7,
+      signal: hooks.signal,
+      onTextDelta: hooks.onTextDelta,
+      onToolCall: (call) => hooks.onToolCall?.(call.name),
+      onToolResult: (call) => hooks.onToolResult?.(call.name),
+    });
 
-        console.log("Successfully completed MCP tool integration flow");
-        return finalResponse;
-      }
+    if (!result.content) {
+      console.error("No content in AI response");
+      return {
+        response: result.toolCalls.length > 0
+          ? "I processed your request but couldn't generate a response."
+          : "I'm sorry, I couldn't process that request.",
+        operation,
+      };
+    }
 
-      // Return direct response if no tool calls
-      const directResponse = choice.message?.content;
-      if (!directResponse) {
-        console.error("No content in direct response");
-        return "I'm sorry, I couldn't process that request.";
-      }
+    console.log(
+      result.toolCalls.length > 0
+        ? `Successfully completed MCP tool integration flow (${result.toolCalls.length} tool calls)`
+        : "Returning direct response (no tool calls)"
+    );
+    return { response: result.content, operation };
+  } catch (error) {
+    // Cancelled by the client: nothing left to answer
+    if (hooks.signal?.aborted) {
+      throw error;
+    }
 
-      console.log("Returning direct response (no tool calls)");
-      return directResponse;
-    } else if (aiProvider === "anthropic") {
-      // Note: Anthropic integration doesn't support MCP tools in this implementation
-      console.log("Using Anthropic (no MCP tool support)");
-      const response = await fetch("https://api.anthropic.com/v1/messages", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "x-api-key": apiKey || "",
-          "anthropic-version": "2023-06-01",
-        },
-        body: JSON.stringify({
-          model: "claude-3-sonnet-20240229",
-          max_tokens: 500,
-          messages: [
-            {
-              role: "user",
-              content: `Context: ${JSON.stringify(context)}\n\nUser message: ${message}`,
-            },
-          ],
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error(`Anthropic API error: ${response.statusText}`);
-      }
+    const status = getAIProviderErrorStatus(error);
 
-      const data = await response.json();
-      return data.content[0]?.text || "I'm sorry, I couldn't process that request.";
-    } else {
-      // Local model via Ollama (no MCP tool support)
-      console.log("Using local model (no MCP tool support)");
-      const response = await fetch("http://localhost:11434/api/generate", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          model: "llama2",
-          prompt: `Context: ${JSON.stringify(context)}\n\nUser: ${message}\n\nAssistant:`,
-          stream: false,
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error(`Ollama API error: ${response.statusText}`);
-      }
+    // Handle specific API key errors
+    if (status === 401) {
+      console.error("AI provider API key is invalid or expired");
+      return {
+        response: await generateMockResponse(message, context, toolContext, "Invalid or expired API key. Please check your AI_API_KEY in .env.local."),
+        operation: null,
+      };
+    }
 
-      const data = await response.json();
-      return data.response || "I'm sorry, I couldn't process that request.";
+    if (status === 429) {
+      console.error("AI provider rate limit exceeded");
+      return {
+        response: await generateMockResponse(message, context, toolContext, "AI provider rate limit exceeded. Please try again later."),
+        operation: null,
+      };
     }
-  } catch (error) {
+
     console.error("AI backend error:", error);
-    return generateMockResponse(message, context, profileId);
+    return {
+      response: await generateMockResponse(message, context, toolContext),
+      operation: null,
+    };
   }
 }
 
@@ -536,17 +571,17 @@ When suggesting a payment, use the format: "I can send $X to [recipient name] fo
 async function generateMockResponse(
   message: string,
   context: Record<string, unknown>,
-  profileId?: string,
+  toolContext?: ToolExecutionContext,
   configError?: string
 ): Promise<string> {
   // If there's a configuration error, include it in the response
   const configMessage = configError 
     ? `⚠️ Configuration Issue: ${configError}\n\n` 
-    : "⚠️ AI_API_KEY not configured. Please add a valid OpenAI API key to your .env.local file for full functionality.\n\n";
+    : "⚠️ AI backend unavailable. Check AI_PROVIDER, AI_MODEL and AI_API_KEY in your .env.local file for full functionality.\n\n";
   const lowerMessage = message.toLowerCase();
 
   // If we have an authenticated user, try to satisfy the request via MCP tools directly (DB-backed)
-  if (profileId) {
+  if (toolContext) {
     try {
       // Italian keyword detection
       const itTransazioni = lowerMessage.includes("transazioni") || lowerMessage.includes("storico");
@@ -559,15 +594,15 @@ async function generateMockResponse(
         const parts: string[] = [];
 
         if (itConti || itSaldi) {
-          const accountsData = await executeMCPTool("get_accounts", {}, profileId);
+          const accountsData = await executeMCPTool("get_accounts", {}, toolContext);
           parts.push("Conti collegati e saldi (dati live):\n" + accountsData);
         }
         if (itTransazioni) {
-          const txData = await executeMCPTool("get_recent_transactions", { limit: 10 }, profileId);
+          const txData = await executeMCPTool("get_recent_transactions", { limit: 10 }, toolContext);
           parts.push("Transazioni recenti (dati live):\n" + txData);
         }
         if (itInvestimenti) {
-          const invData = await executeMCPTool("get_investment_options", {}, profileId);
+          const invData = await executeMCPTool("get_investment_options", {}, toolContext);
           parts.push("Tipologie di investimenti disponibili (dati dal codice):\n" + invData);
         }
 
@@ -578,38 +613,38 @@ async function generateMockResponse(
 
       // Map English intent to MCP tool
       if (lowerMessage.includes("investment") || lowerMessage.includes("invest")) {
-        const data = await executeMCPTool("get_investment_options", {}, profileId);
+        const data = await executeMCPTool("get_investment_options", {}, toolContext);
         return configMessage + "Here are the available investment options (live data):\n\n" + data;
       }
 
       if (lowerMessage.includes("spending") || lowerMessage.includes("analyze") || lowerMessage.includes("summary")) {
-        const data = await executeMCPTool("get_transaction_summary", {}, profileId);
+        const data = await executeMCPTool("get_transaction_summary", {}, toolContext);
         return configMessage + "Here is your spending summary (live data):\n\n" + data;
       }
 
       if (lowerMessage.includes("transaction") || lowerMessage.includes("history")) {
-        const data = await executeMCPTool("get_recent_transactions", { limit: 10 }, profileId);
+        const data = await executeMCPTool("get_recent_transactions", { limit: 10 }, toolContext);
         return configMessage + "Here are your recent transactions (live data):\n\n" + data;
       }
 
       if (lowerMessage.includes("recipient") || lowerMessage.includes("friend")) {
-        const data = await executeMCPTool("get_recipients", {}, profileId);
+        const data = await executeMCPTool("get_recipients", {}, toolContext);
         return configMessage + "Here are your saved recipients (live data):\n\n" + data;
       }
 
       if (lowerMessage.includes("balance") || lowerMessage.includes("accounts")) {
         // Provide both overall balance and accounts when asked about balance/accounts
         const [balanceData, accountsData] = await Promise.all([
-          executeMCPTool("get_user_balance", {}, profileId),
-          executeMCPTool("get_accounts", {}, profileId),
+          executeMCPTool("get_user_balance", {}, toolContext),
+          executeMCPTool("get_accounts", {}, toolContext),
         ]);
         return configMessage + "Balance information (live data):\n\n" + balanceData + "\n\nLinked accounts (live data):\n" + accountsData;
       }
 
       // Default authenticated fallback: return a brief live snapshot using MCP tools
       const [summaryData, accountsData] = await Promise.all([
-        executeMCPTool("get_transaction_summary", {}, profileId),
-        executeMCPTool("get_accounts", {}, profileId),
+        executeMCPTool("get_transaction_summary", {}, toolContext),
+        executeMCPTool("get_accounts", {}, toolContext),
       ]);
       return configMessage +
         "Here is a quick snapshot of your account (live data):\n\n" +
@@ -650,14 +685,135 @@ async function generateMockResponse(
   return configMessage + "I'm here to help with your banking needs. You can ask me about investments, balance, transactions, recipients, or spending analysis.";
 }
 
+/**
+ * Streams a chat response as Server-Sent Events:
+ * - `conversation` {id, title}: conversation the message belongs to
+ * - `delta` {text}: answer text as it is generated
+ * - `tool` {name, status, label}: tool call progress
+ * - `done` {response, operation}: final answer and proposed operation
+ * - `error` {message}: the request failed
+ * Closing the connection cancels the model request; the text received so far
+ * is stored as a stopped answer.
+ */
+function streamChatResponse(
+  request: NextRequest,
+  message: string,
+  userContext: Record<string, unknown>,
+  toolContext: ToolExecutionContext,
+  conversation: AIConversation,
+  history: AIMessage[]
+): Response {
+  const { profileId } = toolContext;
+  const encoder = new TextEncoder();
+  const abortController = new AbortController();
+  request.signal.addEventListener("abort", () => abortController.abort());
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (!abortController.signal.aborted) {
+          controller.enqueue(encoder.encode(formatSSEEvent(event, data)));
+        }
+      };
+
+      let streamed = "";
+      send("conversation", { id: conversation.id, title: conversation.title });
+
+      try {
+        const { response, operation } = await callAIBackend(message, userContext, toolContext, history, {
+          signal: abortController.signal,
+          onTextDelta: (text) => {
+            streamed += text;
+            send("delta", { text });
+          },
+          onToolCall: (name) =>
+            send("tool", { name, status: "started", label: `Calling ${name}…` }),
+          onToolResult: (name) =>
+            send("tool", { name, status: "completed", label: `Finished ${name}` }),
+        });
+
+        await saveMessage(conversation.id, profileId, "assistant", response);
+        await recordOperation(profileId, message, response, operation);
+        send("done", { response, operation, conversationId: conversation.id });
+      } catch (error) {
+        if (abortController.signal.aborted) {
+          if (streamed) {
+            await saveMessage(conversation.id, profileId, "assistant", streamed, true);
+          }
+        } else {
+          console.error("AI chat stream error:", error);
+          send("error", { message: "Unable to process request" });
+        }
+      } finally {
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      }
+    },
+    cancel() {
+      abortController.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
+
+/**
+ * Records a proposed operation in the audit trail, awaiting confirmation.
+ * The record ID is set on the operation so later steps are logged to it.
+ */
+async function recordOperation(
+  profileId: string,
+  userMessage: string,
+  aiResponse: string,
+  operation: ParsedAIOperation | null
+): Promise<void> {
+  if (!operation) {
+    return;
+  }
+
+  const { data, error } = await supabase
+    .from("ai_operations")
+    .insert({
+      profile_id: profileId,
+      operation_type: operation.type,
+      operation_data: operation.data,
+      user_message: userMessage,
+      ai_response: aiResponse,
+      user_confirmed: false,
+      executed: false,
+      execution_result: appendOperationStep(null, "proposed"),
+    })
+    .select("id")
+    .single();
+
+  if (error || !data) {
+    console.error("Failed to record AI operation:", error);
+    return;
+  }
+
+  operation.id = data.id;
+}
+
 /**
  * POST /api/ai/chat
- * Process AI agent chat messages
+ * Process AI agent chat messages.
+ * Send `stream: true` to receive the response as Server-Sent Events.
+ * Pass the `conversationId` of an earlier response to continue that
+ * conversation; without it a new conversation is started.
  */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { message, context: requestContext } = body;
+    const { message, context: requestContext, stream, conversationId } = body;
 
     // Validate input
     if (!message || typeof message !== "string") {
@@ -667,20 +823,50 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Get profile ID from context (in production, extract from auth session)
-    const profileId = requestContext?.profileId;
-    if (!profileId) {
+    // A personal access token decides the profile and scopes; otherwise the
+    // verified session decides the profile
+    const tokenCheck = await checkAccessToken(request, "ai:chat");
+    if (tokenCheck && !tokenCheck.ok) {
+      return NextResponse.json(
+        { success: false, message: tokenCheck.message },
+        { status: tokenCheck.status }
+      );
+    }
+    if (tokenCheck && requestContext?.profileId && requestContext.profileId !== tokenCheck.auth.profileId) {
       return NextResponse.json(
-        { success: false, message: "Authentication required" },
-        { status: 401 }
+        { success: false, message: "Profile does not match the access token" },
+        { status: 403 }
       );
     }
 
-    // Rate limiting
-    if (!checkRateLimit(profileId)) {
+    let profileId: string;
+    if (tokenCheck) {
+      profileId = tokenCheck.auth.profileId;
+    } else {
+      const session = await requireSessionProfile(request, requestContext?.profileId);
+      if (!session.ok) {
+        return NextResponse.json(
+          { success: false, message: session.message },
+          { status: session.status }
+        );
+      }
+      profileId = session.profile.id;
+    }
+    const toolContext: ToolExecutionContext = {
+      profileId,
+      scopes: tokenCheck?.auth.scopes,
+    };
+
+    // Rate limit and monthly plan quota
+    const usageCheck = await consumeAIRequest(
+      getAIUsageStore(),
+      profileId,
+      await getProfilePlan(profileId)
+    );
+    if (!usageCheck.ok) {
       return NextResponse.json(
-        { success: false, message: "Rate limit exceeded. Please try again later." },
-        { status: 429 }
+        { success: false, message: usageCheck.message, reason: usageCheck.reason, usage: usageCheck.usage },
+        { status: 429, headers: { "Retry-After": String(usageCheck.retryAfterSeconds) } }
       );
     }
 
@@ -688,35 +874,42 @@ export async function POST(request: NextRequest) {
     const sanitizedMessage = sanitizeInput(message);
 
     // Get user context
-    const userContext = await getUserContext(profileId, {
+    const userContext = await getUserContext(toolContext, {
       includeBalance: requestContext?.includeBalance,
       includeTransactions: requestContext?.includeTransactions,
       includeRecipients: requestContext?.includeRecipients,
     });
 
-    // Call AI backend with MCP integration
-    const aiResponse = await callAIBackend(sanitizedMessage, userContext, profileId);
-
-    // Parse for operations
-    const { operation } = parseAIResponse(aiResponse);
-
-    // If operation detected, create audit record
-    if (operation) {
-      await supabase.from("ai_operations").insert({
-        profile_id: profileId,
-        operation_type: (operation as { type: string }).type,
-        operation_data: (operation as { data: Record<string, unknown> }).data,
-        user_message: sanitizedMessage,
-        ai_response: aiResponse,
-        user_confirmed: false,
-        executed: false,
-      });
+    // Continue or start the conversation
+    const conversation = await getOrCreateConversation(
+      profileId,
+      typeof conversationId === "string" ? conversationId : undefined,
+      sanitizedMessage
+    );
+    if (!conversation) {
+      return NextResponse.json(
+        { success: false, message: "Conversation not found" },
+        { status: 404 }
+      );
     }
+    const history = await loadConversationHistory(conversation);
+    await saveMessage(conversation.id, profileId, "user", sanitizedMessage);
+
+    if (stream === true) {
+      return streamChatResponse(request, sanitizedMessage, userContext, toolContext, conversation, history);
+    }
+
+    // Call AI backend with MCP integration
+    const { response, operation } = await callAIBackend(sanitizedMessage, userContext, toolContext, history);
+
+    await saveMessage(conversation.id, profileId, "assistant", response);
+    await recordOperation(profileId, sanitizedMessage, response, operation);
 
     return NextResponse.json({
       success: true,
-      response: aiResponse,
+      response,
       operation,
+      conversationId: conversation.id,
     });
   } catch (error) {
     console.error("AI chat error:", error);
@@ -0,0 +1,230 @@
+/**
+ * @fileoverview Single AI assistant conversation.
+ * GET returns the conversation with its messages so the chat can resume it,
+ * PATCH renames it and DELETE removes it with its messages.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { requireSessionProfile } from "@/lib/server-auth";
+import { AI_CONVERSATION_TITLE_LENGTH } from "@/lib/ai-conversations";
+
+// Create a service role client for server-side operations
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY ||
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  }
+);
+
+/**
+ * Loads a conversation owned by the profile, or null.
+ */
+async function findConversation(conversationId: string, profileId: string) {
+  const { data } = await supabaseAdmin
+    .from("ai_conversations")
+    .select("*")
+    .eq("id", conversationId)
+    .eq("profile_id", profileId)
+    .maybeSingle();
+
+  return data;
+}
+
+/**
+ * GET /api/ai/conversations/[id]?profile_id=...
+ * Returns the conversation and all of its messages, oldest first.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const profileId = request.nextUrl.searchParams.get("profile_id");
+    if (!profileId) {
+      return NextResponse.json(
+        { error: "Missing required parameter: profile_id" },
+        { status: 400 }
+      );
+    }
+
+    const session = await requireSessionProfile(request, profileId);
+    if (!session.ok) {
+      return NextResponse.json({ error: session.message }, { status: session.status });
+    }
+
+    const conversation = await findConversation(id, profileId);
+    if (!conversation) {
+      return NextResponse.json(
+        { error: "Conversation not found" },
+        { status: 404 }
+      );
+    }
+
+    const { data: messages, error } = await supabaseAdmin
+      .from("ai_messages")
+      .select("*")
+      .eq("conversation_id", id)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      return NextResponse.json(
+        { error: "Failed to fetch messages", details: error.message },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      conversation,
+      messages: messages || [],
+    });
+  } catch (error) {
+    console.error("[ai/conversations/:id] API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/ai/conversations/[id]
+ * Renames the conversation. Body: { profile_id, title }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { profile_id: profileId, title } = await request.json();
+
+    // 1. Validate input
+    if (!profileId || typeof title !== "string") {
+      return NextResponse.json(
+        { error: "Missing required fields: profile_id, title" },
+        { status: 400 }
+      );
+    }
+    const trimmed = title.replace(/\s+/g, " ").trim();
+    if (!trimmed || trimmed.length > AI_CONVERSATION_TITLE_LENGTH) {
+      return NextResponse.json(
+        {
+          error: `Title must be between 1 and ${AI_CONVERSATION_TITLE_LENGTH} characters`,
+        },
+        { status: 400 }
+      );
+    }
+
+    // 1b. Verify the caller is the profile owner
+    const session = await requireSessionProfile(request, profileId);
+    if (!session.ok) {
+      return NextResponse.json({ error: session.message }, { status: session.status });
+    }
+
+    // 2. Make sure the conversation belongs to the profile
+    const conversation = await findConversation(id, profileId);
+    if (!conversation) {
+      return NextResponse.json(
+        { error: "Conversation not found" },
+        { status: 404 }
+      );
+    }
+
+    // 3. Rename
+    const { data, error } = await supabaseAdmin
+      .from("ai_conversations")
+      .update({ title: trimmed, updated_at: new Date().toISOString() })
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error || !data) {
+      return NextResponse.json(
+        { error: "Failed to rename conversation", details: error?.message },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, conversation: data });
+  } catch (error) {
+    console.error("[ai/conversations/:id] API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/ai/conversations/[id]?profile_id=...
+ * Deletes the conversation and its messages. Recorded ai_operations are kept
+ * for the audit trail.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const profileId = request.nextUrl.searchParams.get("profile_id");
+    if (!profileId) {
+      return NextResponse.json(
+        { error: "Missing required parameter: profile_id" },
+        { status: 400 }
+      );
+    }
+
+    const session = await requireSessionProfile(request, profileId);
+    if (!session.ok) {
+      return NextResponse.json({ error: session.message }, { status: session.status });
+    }
+
+    const conversation = await findConversation(id, profileId);
+    if (!conversation) {
+      return NextResponse.json(
+        { error: "Conversation not found" },
+        { status: 404 }
+      );
+    }
+
+    const { error: messagesError } = await supabaseAdmin
+      .from("ai_messages")
+      .delete()
+      .eq("conversation_id", id);
+
+    if (messagesError) {
+      return NextResponse.json(
+        { error: "Failed to delete messages", details: messagesError.message },
+        { status: 500 }
+      );
+    }
+
+    const { error } = await supabaseAdmin
+      .from("ai_conversations")
+      .delete()
+      .eq("id", id);
+
+    if (error) {
+      return NextResponse.json(
+        { error: "Failed to delete conversation", details: error.message },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[ai/conversations/:id] API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * @fileoverview AI assistant conversation list.
+ * Conversations are created by /api/ai/chat when a message is sent without a
+ * conversation ID; GET lists a profile's conversations for the history page.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { requireSessionProfile } from "@/lib/server-auth";
+import type { AIConversationSummary } from "@/lib/ai-conversations";
+
+// Create a service role client for server-side operations
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY ||
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  }
+);
+
+/**
+ * Most conversations returned in one list.
+ */
+const CONVERSATION_LIST_LIMIT = 50;
+
+/**
+ * GET /api/ai/conversations?profile_id=...
+ * Lists a profile's conversations with their message counts, most recently
+ * active first.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const profileId = request.nextUrl.searchParams.get("profile_id");
+    if (!profileId) {
+      return NextResponse.json(
+        { error: "Missing required parameter: profile_id" },
+        { status: 400 }
+      );
+    }
+
+    const session = await requireSessionProfile(request, profileId);
+    if (!session.ok) {
+      return NextResponse.json({ error: session.message }, { status: session.status });
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from("ai_conversations")
+      .select("*, ai_messages(count)")
+      .eq("profile_id", profileId)
+      .order("updated_at", { ascending: false })
+      .limit(CONVERSATION_LIST_LIMIT);
+
+    if (error) {
+      return NextResponse.json(
+        { error: "Failed to fetch conversations", details: error.message },
+        { status: 500 }
+      );
+    }
+
+    const conversations: AIConversationSummary[] = (data || []).map(
+      ({ ai_messages, ...conversation }) => ({
+        ...conversation,
+        message_count: ai_messages?.[0]?.count ?? 0,
+      })
+    );
+
+    return NextResponse.json({ success: true, conversations });
+  } catch (error) {
+    console.error("[ai/conversations] API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
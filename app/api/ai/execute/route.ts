@@ -1,68 +1,91 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabase } from "@/lib/supabase";
+import { DEFAULT_TOKEN, getToken } from "@/lib/tokens";
+import { DEFAULT_CHAIN, getChain } from "@/lib/chains";
+import { appendOperationStep, validateAIOperationData } from "@/lib/ai-operations";
+import { getVaultCatalog } from "@/lib/vault-catalog";
+import {
+  evaluateSpendingPolicy,
+  getSpendingUsage,
+  toSpendingPolicySettings,
+  type AISpendingDecision,
+  type AISpendingPayment,
+} from "@/lib/ai-spending-policy";
+import { checkAccessToken } from "@/lib/access-token-auth";
+import { requireSessionProfile } from "@/lib/server-auth";
 
 /**
  * Validate operation data based on type
- * Ensures all required fields are present and properly formatted
+ * Uses the same schema as the AI action tools (lib/ai-operations.ts)
  */
 function validateOperation(
   operationType: string,
   operationData: Record<string, unknown>
 ): { valid: boolean; error?: string } {
-  switch (operationType) {
-    case "payment":
-      // Validate amount
-      if (!operationData.amount) {
-        return { valid: false, error: "Payment requires amount" };
-      }
-      const amount = parseFloat(operationData.amount as string);
-      if (isNaN(amount) || amount <= 0) {
-        return { valid: false, error: "Invalid payment amount: must be greater than zero" };
-      }
-      if (amount > 1000000) {
-        return { valid: false, error: "Payment amount exceeds maximum limit" };
-      }
-
-      // Validate recipient
-      if (!operationData.recipientName && !operationData.recipient_id) {
-        return { valid: false, error: "Payment requires recipient name or ID" };
-      }
-
-      // Validate token
-      if (operationData.token && operationData.token !== "USDC") {
-        return { valid: false, error: "Only USDC payments are currently supported" };
-      }
-
-      // Validate chain
-      if (operationData.chain && operationData.chain !== "base") {
-        return { valid: false, error: "Only Base network is currently supported" };
-      }
+  const { valid, errors } = validateAIOperationData(operationType, operationData);
+  return valid ? { valid } : { valid, error: errors[0] };
+}
 
-      return { valid: true };
+/**
+ * Check an AI payment against the user's spending policy
+ * Usage is the volume of AI payments executed (or claimed for execution) in
+ * the last 7 days, other than the operation being checked
+ */
+async function checkSpendingPolicy(
+  profileId: string,
+  payment: AISpendingPayment,
+  operationId: string
+): Promise<AISpendingDecision> {
+  const { data: policy, error: policyError } = await supabase
+    .from("ai_spending_policies")
+    .select("*")
+    .eq("profile_id", profileId)
+    .maybeSingle();
+
+  if (policyError) {
+    throw new Error("Unable to check your AI spending policy");
+  }
 
-    case "analysis":
-      // Analysis operations don't require specific data
-      return { valid: true };
+  const since = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString();
+  const { data: payments, error: usageError } = await supabase
+    .from("ai_operations")
+    .select("operation_data, executed_at")
+    .eq("profile_id", profileId)
+    .eq("operation_type", "payment")
+    .eq("executed", true)
+    .neq("id", operationId)
+    .gte("executed_at", since);
+
+  if (usageError) {
+    throw new Error("Unable to check your AI spending policy");
+  }
 
-    case "query":
-      // Query operations don't require specific data
-      return { valid: true };
+  const usage = getSpendingUsage(
+    (payments || []).map((operation) => ({
+      amount: String(operation.operation_data?.amount ?? "0"),
+      token: String(operation.operation_data?.token || DEFAULT_TOKEN),
+      executed_at: operation.executed_at,
+    }))
+  );
 
-    default:
-      return { valid: false, error: "Unknown operation type" };
-  }
+  return evaluateSpendingPolicy(toSpendingPolicySettings(policy), payment, usage);
 }
 
 /**
  * Execute payment operation
- * Creates a pending transaction that must be confirmed by the user's wallet
+ * Checks the spending policy, then creates a pending transaction that must be
+ * confirmed by the user's wallet
  */
 async function executePayment(
   profileId: string,
-  operationData: Record<string, unknown>
+  operationData: Record<string, unknown>,
+  operationId: string
 ): Promise<{ success: boolean; result?: Record<string, unknown>; error?: string }> {
   try {
-    const { amount, recipientName, recipient_id } = operationData;
+    const { amount, recipient_name: recipientName, recipient_id } = operationData;
+    const tokenSymbol =
+      getToken(String(operationData.token || DEFAULT_TOKEN))?.symbol || DEFAULT_TOKEN;
+    const chain = getChain(String(operationData.chain || DEFAULT_CHAIN))?.name || DEFAULT_CHAIN;
 
     let recipient;
 
@@ -116,15 +139,32 @@ async function executePayment(
       };
     }
 
+    // Check the AI spending policy before anything is created
+    const policy = await checkSpendingPolicy(profileId, {
+      amount: String(amount),
+      token: tokenSymbol,
+      recipient_id: recipient.id,
+      recipient_created_at: recipient.created_at,
+    }, operationId);
+
+    if (!policy.allowed) {
+      console.warn(`[executePayment] Refused by spending policy (${policy.rule})`);
+      return {
+        success: false,
+        result: { policy },
+        error: policy.reason,
+      };
+    }
+
     // Create pending transaction
     const { data: transaction, error: txError } = await supabase
       .from("transactions")
       .insert({
         sender_profile_id: profileId,
         recipient_id: recipient.id,
-        chain: operationData.chain || "base",
+        chain,
         amount: amount as string,
-        token: operationData.token || "USDC",
+        token: tokenSymbol,
         status: "pending",
       })
       .select()
@@ -148,9 +188,10 @@ async function executePayment(
         recipientAddress: recipient.external_address,
         recipientName: recipient.name,
         amount: amount,
-        token: operationData.token || "USDC",
-        chain: operationData.chain || "base",
+        token: tokenSymbol,
+        chain,
         status: "pending",
+        policy,
         message: "Transaction created. Please confirm in your wallet to complete the payment.",
       },
     };
@@ -163,6 +204,219 @@ async function executePayment(
   }
 }
 
+/**
+ * Operations whose result is a prefilled review page: they are only executed
+ * once the user signs the transaction there
+ */
+const REVIEWED_OPERATIONS = ["invest", "withdraw_investment"];
+
+/**
+ * Query string that lets the review page log its steps to the stored operation
+ */
+function operationParam(operationId?: string): string {
+  return operationId ? `&ai_operation=${encodeURIComponent(operationId)}` : "";
+}
+
+/**
+ * Execute investment operation
+ * Resolves the vault and returns the prefilled review page; the deposit itself
+ * is signed by the user from that page
+ */
+async function executeInvest(
+  profileId: string,
+  operationData: Record<string, unknown>,
+  operationId?: string
+): Promise<{ success: boolean; result?: Record<string, unknown>; error?: string }> {
+  try {
+    const optionId = String(operationData.option_id);
+    const amount = String(operationData.amount);
+
+    const vaults = await getVaultCatalog().getVaults();
+    const vault = vaults.find((v) => v.id === optionId);
+    if (!vault) {
+      return {
+        success: false,
+        error: "Investment option not found",
+      };
+    }
+
+    console.log(`[executeInvest] ✓ Prepared ${amount} USDC deposit into ${vault.name}`);
+
+    return {
+      success: true,
+      result: {
+        optionId,
+        vaultAddress: vault.vault_address,
+        vaultName: vault.name,
+        apy: vault.apy,
+        amount,
+        reviewPath: `/invest/review?option=${encodeURIComponent(optionId)}&amount=${encodeURIComponent(amount)}${operationParam(operationId)}`,
+        message: "Review the deposit and confirm it in your wallet.",
+      },
+    };
+  } catch (error) {
+    console.error("[executeInvest] ❌ Error:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Investment preparation failed",
+    };
+  }
+}
+
+/**
+ * Execute investment withdrawal operation
+ * Checks the investment is still active and returns the prefilled withdrawal
+ * page; the withdrawal itself is signed by the user from that page
+ */
+async function executeWithdrawInvestment(
+  profileId: string,
+  operationData: Record<string, unknown>,
+  operationId?: string
+): Promise<{ success: boolean; result?: Record<string, unknown>; error?: string }> {
+  try {
+    const optionId = String(operationData.option_id);
+    const withdrawAll = operationData.withdraw_all === true;
+    const amount = withdrawAll ? null : String(operationData.amount);
+
+    const vaults = await getVaultCatalog().getVaults();
+    const vault = vaults.find((v) => v.id === optionId);
+    if (!vault) {
+      return {
+        success: false,
+        error: "Investment option not found",
+      };
+    }
+
+    // Use the investment resolved with the proposal, or the latest one in the vault
+    let query = supabase
+      .from("investments")
+      .select("id, investment_name, vault_address")
+      .eq("profile_id", profileId)
+      .eq("status", "active");
+    query = operationData.investment_id
+      ? query.eq("id", String(operationData.investment_id))
+      : query.ilike("vault_address", vault.vault_address);
+
+    const { data: investments, error } = await query
+      .order("created_at", { ascending: false })
+      .limit(1);
+
+    const investment = investments?.[0];
+    if (error || !investment) {
+      console.error("[executeWithdrawInvestment] Investment not found:", error);
+      return {
+        success: false,
+        error: `No active investment in ${vault.name}`,
+      };
+    }
+
+    const vaultAddress = investment.vault_address || vault.vault_address;
+    const name = investment.investment_name || vault.name;
+    const params = new URLSearchParams({
+      investment: investment.id,
+      vault: vaultAddress,
+      name,
+    });
+    if (withdrawAll) {
+      params.set("full", "1");
+    } else if (amount) {
+      params.set("amount", amount);
+    }
+
+    console.log(
+      `[executeWithdrawInvestment] ✓ Prepared ${withdrawAll ? "full" : `${amount} USDC`} withdrawal from ${name}`
+    );
+
+    return {
+      success: true,
+      result: {
+        optionId,
+        investmentId: investment.id,
+        vaultAddress,
+        vaultName: name,
+        amount,
+        withdrawAll,
+        reviewPath: `/invest/withdraw?${params.toString()}${operationParam(operationId)}`,
+        message: "Review the withdrawal and confirm it in your wallet.",
+      },
+    };
+  } catch (error) {
+    console.error("[executeWithdrawInvestment] ❌ Error:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Withdrawal preparation failed",
+    };
+  }
+}
+
+/**
+ * Execute recipient operation
+ * Saves a new recipient with an external wallet address
+ */
+async function executeRecipient(
+  profileId: string,
+  operationData: Record<string, unknown>
+): Promise<{ success: boolean; result?: Record<string, unknown>; error?: string }> {
+  try {
+    const name = String(operationData.name);
+    const address = String(operationData.address);
+
+    // Don't save the same address twice
+    const { data: existing } = await supabase
+      .from("recipients")
+      .select("id, name")
+      .eq("profile_id", profileId)
+      .eq("status", "active")
+      .ilike("external_address", address)
+      .limit(1);
+
+    if (existing && existing.length > 0) {
+      return {
+        success: false,
+        error: `This address is already saved as "${existing[0].name}"`,
+      };
+    }
+
+    const { data: recipient, error } = await supabase
+      .from("recipients")
+      .insert({
+        profile_id: profileId,
+        name,
+        external_address: address,
+        recipient_type: "crypto",
+        status: "active",
+      })
+      .select()
+      .single();
+
+    if (error || !recipient) {
+      console.error("[executeRecipient] Failed to create recipient:", error);
+      return {
+        success: false,
+        error: "Failed to save recipient",
+      };
+    }
+
+    console.log(`[executeRecipient] ✓ Recipient created: ${recipient.id}`);
+
+    return {
+      success: true,
+      result: {
+        recipientId: recipient.id,
+        name: recipient.name,
+        address: recipient.external_address,
+        message: `${recipient.name} was added to your recipients.`,
+      },
+    };
+  } catch (error) {
+    console.error("[executeRecipient] ❌ Error:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Recipient creation failed",
+    };
+  }
+}
+
 /**
  * Execute analysis operation
  */
@@ -243,21 +497,131 @@ async function executeQuery(
   };
 }
 
+type ExecutionResult = { success: boolean; result?: Record<string, unknown>; error?: string };
+
+/**
+ * Run an operation claimed by the caller
+ */
+async function runOperation(
+  operationType: string,
+  profileId: string,
+  operationData: Record<string, unknown>,
+  operationId: string
+): Promise<ExecutionResult> {
+  try {
+    switch (operationType) {
+      case "payment":
+        return await executePayment(profileId, operationData, operationId);
+      case "invest":
+        return await executeInvest(profileId, operationData, operationId);
+      case "withdraw_investment":
+        return await executeWithdrawInvestment(profileId, operationData, operationId);
+      case "recipient":
+        return await executeRecipient(profileId, operationData);
+      case "analysis":
+        return await executeAnalysis(profileId, operationData);
+      case "query":
+        return await executeQuery(profileId, operationData);
+      default:
+        return { success: false, error: "Unknown operation type" };
+    }
+  } catch (error) {
+    console.error(`[AI Execute] ❌ ${operationType} operation threw:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Operation execution failed",
+    };
+  }
+}
+
+/**
+ * Store the outcome of a claimed operation. Failed operations release the
+ * claim; deposits and withdrawals stay unexecuted until the user signs them
+ * on the review page
+ */
+async function recordExecution(
+  operationId: string,
+  operationType: string,
+  previousResult: Record<string, unknown> | null,
+  executionResult: ExecutionResult
+): Promise<void> {
+  const awaitsSignature =
+    executionResult.success && REVIEWED_OPERATIONS.includes(operationType);
+  let executionLog = appendOperationStep(
+    {
+      ...previousResult,
+      ...executionResult.result,
+      ...(executionResult.success ? {} : { error: executionResult.error }),
+    },
+    "confirmed"
+  );
+  if (!awaitsSignature) {
+    executionLog = executionResult.success
+      ? appendOperationStep(executionLog, "completed")
+      : appendOperationStep(executionLog, "failed", { error: executionResult.error });
+  }
+
+  const executed = executionResult.success && !awaitsSignature;
+  const { error: updateError } = await supabase
+    .from("ai_operations")
+    .update({
+      user_confirmed: true,
+      executed,
+      execution_result: executionLog,
+      executed_at: executed ? new Date().toISOString() : null,
+    })
+    .eq("id", operationId);
+
+  if (updateError) {
+    console.error("[AI Execute] Failed to update operation:", updateError);
+  }
+}
+
 /**
  * POST /api/ai/execute
  * Execute AI-suggested operations after user confirmation
  * 
  * Security measures:
  * - Validates user confirmation
- * - Checks operation hasn't been executed already
+ * - Claims the operation before executing it, so it runs at most once
+ * - Records direct executions in ai_operations
  * - Validates operation data
+ * - Checks AI payments against the user's spending policy (lib/ai-spending-policy.ts)
  * - Logs all operations to audit trail
  * - Follows same security rules as manual operations
  */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { operationId, confirmed, operationType, operationData, profileId, userConfirmed } = body;
+    const { operationId, confirmed, operationType, operationData, userConfirmed } = body;
+
+    // A personal access token decides the profile; otherwise the verified session does
+    const tokenCheck = await checkAccessToken(request, "ai:execute");
+    if (tokenCheck && !tokenCheck.ok) {
+      return NextResponse.json(
+        { success: false, message: tokenCheck.message },
+        { status: tokenCheck.status }
+      );
+    }
+    if (tokenCheck && body.profileId && body.profileId !== tokenCheck.auth.profileId) {
+      return NextResponse.json(
+        { success: false, message: "Profile does not match the access token" },
+        { status: 403 }
+      );
+    }
+    let profileId: string;
+    if (tokenCheck) {
+      profileId = tokenCheck.auth.profileId;
+    } else {
+      const session = await requireSessionProfile(request, body.profileId);
+      if (!session.ok) {
+        return NextResponse.json(
+          { success: false, message: session.message },
+          { status: session.status }
+        );
+      }
+      profileId = session.profile.id;
+    }
 
     // Support both operation ID (for stored operations) and direct execution
     if (operationId) {
@@ -283,7 +647,8 @@ export async function POST(request: NextRequest) {
         .eq("id", operationId)
         .single();
 
-      if (fetchError || !operation) {
+      // Callers can only confirm their own operations
+      if (fetchError || !operation || operation.profile_id !== profileId) {
         console.error("[AI Execute] Operation not found:", fetchError);
         return NextResponse.json(
           { success: false, message: "Operation not found" },
@@ -304,46 +669,50 @@ export async function POST(request: NextRequest) {
       const validation = validateOperation(operation.operation_type, operation.operation_data);
       if (!validation.valid) {
         console.error("[AI Execute] Validation failed:", validation.error);
+        await supabase
+          .from("ai_operations")
+          .update({
+            execution_result: appendOperationStep(operation.execution_result, "failed", {
+              error: validation.error,
+            }),
+          })
+          .eq("id", operationId);
         return NextResponse.json(
           { success: false, message: validation.error },
           { status: 400 }
         );
       }
 
-      // Execute operation based on type
-      let executionResult;
-      switch (operation.operation_type) {
-        case "payment":
-          executionResult = await executePayment(operation.profile_id, operation.operation_data);
-          break;
-        case "analysis":
-          executionResult = await executeAnalysis(operation.profile_id, operation.operation_data);
-          break;
-        case "query":
-          executionResult = await executeQuery(operation.profile_id, operation.operation_data);
-          break;
-        default:
-          return NextResponse.json(
-            { success: false, message: "Unknown operation type" },
-            { status: 400 }
-          );
-      }
-
-      // Update operation record with execution result
-      const { error: updateError } = await supabase
+      // Claim the operation before executing it, so concurrent confirmations
+      // can't both run it. A claimed payment counts toward the spending limits
+      const { data: claimed, error: claimError } = await supabase
         .from("ai_operations")
-        .update({
-          user_confirmed: true,
-          executed: executionResult.success,
-          execution_result: executionResult.result || { error: executionResult.error },
-          executed_at: new Date().toISOString(),
-        })
-        .eq("id", operationId);
+        .update({ user_confirmed: true, executed: true, executed_at: new Date().toISOString() })
+        .eq("id", operationId)
+        .eq("executed", false)
+        .select("id");
 
-      if (updateError) {
-        console.error("[AI Execute] Failed to update operation:", updateError);
+      if (claimError || !claimed || claimed.length === 0) {
+        console.warn("[AI Execute] Operation already claimed:", operationId);
+        return NextResponse.json(
+          { success: false, message: "Operation already executed" },
+          { status: 400 }
+        );
       }
 
+      const executionResult = await runOperation(
+        operation.operation_type,
+        operation.profile_id,
+        operation.operation_data,
+        operationId
+      );
+      await recordExecution(
+        operationId,
+        operation.operation_type,
+        operation.execution_result,
+        executionResult
+      );
+
       console.log(`[AI Execute] ${executionResult.success ? "✓" : "❌"} ${operation.operation_type} operation`);
 
       return NextResponse.json({
@@ -360,9 +729,12 @@ export async function POST(request: NextRequest) {
         );
       }
 
-      if (operationType === "payment" && !userConfirmed) {
+      if (
+        ["payment", "invest", "withdraw_investment", "recipient"].includes(operationType) &&
+        !userConfirmed
+      ) {
         return NextResponse.json(
-          { success: false, message: "Payment operations require user confirmation" },
+          { success: false, message: "This operation requires user confirmation" },
           { status: 400 }
         );
       }
@@ -377,31 +749,47 @@ export async function POST(request: NextRequest) {
         );
       }
 
-      // Execute operation
-      let executionResult;
-      switch (operationType) {
-        case "payment":
-          executionResult = await executePayment(profileId, operationData || {});
-          break;
-        case "analysis":
-          executionResult = await executeAnalysis(profileId, operationData || {});
-          break;
-        case "query":
-          executionResult = await executeQuery(profileId, operationData || {});
-          break;
-        default:
-          return NextResponse.json(
-            { success: false, message: "Unknown operation type" },
-            { status: 400 }
-          );
+      // Record the operation as claimed before executing it, so direct
+      // payments count toward the spending limits like stored ones
+      const { data: recorded, error: recordError } = await supabase
+        .from("ai_operations")
+        .insert({
+          profile_id: profileId,
+          operation_type: operationType,
+          operation_data: operationData || {},
+          user_message: "",
+          ai_response: "",
+          user_confirmed: !!userConfirmed,
+          executed: true,
+          executed_at: new Date().toISOString(),
+          execution_result: null,
+        })
+        .select("id")
+        .single();
+
+      if (recordError || !recorded) {
+        console.error("[AI Execute] Failed to record operation:", recordError);
+        return NextResponse.json(
+          { success: false, message: "Failed to record operation" },
+          { status: 500 }
+        );
       }
 
+      const executionResult = await runOperation(
+        operationType,
+        profileId,
+        operationData || {},
+        recorded.id
+      );
+      await recordExecution(recorded.id, operationType, null, executionResult);
+
       console.log(`[AI Execute] ${executionResult.success ? "✓" : "❌"} ${operationType} operation (direct)`);
 
       return NextResponse.json({
         success: executionResult.success,
         result: executionResult.result,
         message: executionResult.error,
+        operationId: recorded.id,
       });
     }
   } catch (error) {
@@ -0,0 +1,127 @@
+/**
+ * @fileoverview Steps of an AI operation after it leaves the chat.
+ * The confirmation dialog logs rejections here, and the prefilled investment
+ * review and withdrawal pages log when the user signs and how it ended.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { requireSessionProfile } from "@/lib/server-auth";
+import { appendOperationStep, type AIOperationStep } from "@/lib/ai-operations";
+
+// Create a service role client for server-side operations
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY ||
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  }
+);
+
+// Steps the client may log; proposal and confirmation are logged by the server
+const CLIENT_STEPS: AIOperationStep[] = ["rejected", "submitted", "completed", "failed"];
+
+/**
+ * POST /api/ai/operations/[id]/steps
+ * Appends a step to the operation's execution result.
+ * `completed` marks the operation executed; `failed` records the error.
+ *
+ * Body: { profile_id, step, details? }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const { profile_id, step, details } = body;
+
+    // 1. Validate input
+    if (!profile_id || !step) {
+      return NextResponse.json(
+        { error: "Missing required fields: profile_id, step" },
+        { status: 400 }
+      );
+    }
+    if (!CLIENT_STEPS.includes(step)) {
+      return NextResponse.json(
+        { error: `step must be one of: ${CLIENT_STEPS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+    if (details !== undefined && (typeof details !== "object" || details === null || Array.isArray(details))) {
+      return NextResponse.json(
+        { error: "details must be an object" },
+        { status: 400 }
+      );
+    }
+
+    // 1b. Verify the caller is the profile owner
+    const session = await requireSessionProfile(request, profile_id);
+    if (!session.ok) {
+      return NextResponse.json({ error: session.message }, { status: session.status });
+    }
+
+    // 2. Load the operation owned by the profile
+    const { data: operation } = await supabaseAdmin
+      .from("ai_operations")
+      .select("*")
+      .eq("id", id)
+      .eq("profile_id", profile_id)
+      .maybeSingle();
+
+    if (!operation) {
+      return NextResponse.json(
+        { error: "Operation not found" },
+        { status: 404 }
+      );
+    }
+    if (operation.executed) {
+      return NextResponse.json(
+        { error: "Operation already executed" },
+        { status: 409 }
+      );
+    }
+
+    // 3. Append the step; the latest failure is kept as the operation's error
+    const executionResult = appendOperationStep(operation.execution_result, step, details);
+    delete executionResult.error;
+    if (step === "failed") {
+      executionResult.error = typeof details?.error === "string" ? details.error : "Operation failed";
+    }
+
+    const update: Record<string, unknown> = { execution_result: executionResult };
+    if (step === "completed") {
+      update.executed = true;
+      update.executed_at = new Date().toISOString();
+    }
+
+    const { data: updated, error } = await supabaseAdmin
+      .from("ai_operations")
+      .update(update)
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error || !updated) {
+      console.error("[ai/operations/:id/steps] Update error:", error);
+      return NextResponse.json(
+        { error: "Failed to log operation step", details: error?.message },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, operation: updated });
+  } catch (error) {
+    console.error("[ai/operations/:id/steps] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to log operation step" },
+      { status: 500 }
+    );
+  }
+}
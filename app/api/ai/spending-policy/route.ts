@@ -0,0 +1,164 @@
+/**
+ * @fileoverview AI spending policy of a profile.
+ * GET returns the policy (or the defaults) and PUT saves it. The policy is
+ * enforced by /api/ai/execute on every AI payment.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { requireSessionProfile } from "@/lib/server-auth";
+import {
+  DEFAULT_AI_SPENDING_POLICY,
+  toSpendingPolicySettings,
+  validateSpendingPolicySettings,
+  type AISpendingPolicySettings,
+} from "@/lib/ai-spending-policy";
+
+// Create a service role client for server-side operations
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY ||
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  }
+);
+
+/**
+ * GET /api/ai/spending-policy?profile_id=...
+ * Returns the profile's policy, or the defaults if none is saved.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const profileId = request.nextUrl.searchParams.get("profile_id");
+    if (!profileId) {
+      return NextResponse.json(
+        { error: "Missing required parameter: profile_id" },
+        { status: 400 }
+      );
+    }
+
+    const session = await requireSessionProfile(request, profileId);
+    if (!session.ok) {
+      return NextResponse.json({ error: session.message }, { status: session.status });
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from("ai_spending_policies")
+      .select("*")
+      .eq("profile_id", session.profile.id)
+      .maybeSingle();
+
+    if (error) {
+      return NextResponse.json(
+        { error: "Failed to fetch spending policy", details: error.message },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      policy: toSpendingPolicySettings(data),
+    });
+  } catch (error) {
+    console.error("[ai/spending-policy] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch spending policy" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/ai/spending-policy
+ * Saves the profile's policy.
+ *
+ * Body: { profile_id, per_transaction_limit, daily_limit, weekly_limit,
+ *         allowlist_enabled, allowed_recipient_ids, new_recipient_cooldown_hours }
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { profile_id, ...changes } = body;
+
+    // 1. Validate input
+    if (!profile_id) {
+      return NextResponse.json(
+        { error: "Missing required field: profile_id" },
+        { status: 400 }
+      );
+    }
+
+    const settings: AISpendingPolicySettings = {
+      ...DEFAULT_AI_SPENDING_POLICY,
+      ...changes,
+    };
+    const validationError = validateSpendingPolicySettings(settings);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    // 1b. Verify the caller is the profile owner
+    const session = await requireSessionProfile(request, profile_id);
+    if (!session.ok) {
+      return NextResponse.json({ error: session.message }, { status: session.status });
+    }
+
+    // 2. Allowed recipients must be the profile's own
+    const allowedIds = Array.from(new Set(settings.allowed_recipient_ids));
+    if (allowedIds.length > 0) {
+      const { data: recipients } = await supabaseAdmin
+        .from("recipients")
+        .select("id")
+        .eq("profile_id", profile_id)
+        .in("id", allowedIds);
+
+      if ((recipients || []).length !== allowedIds.length) {
+        return NextResponse.json(
+          { error: "Allowed recipients must be your saved recipients" },
+          { status: 400 }
+        );
+      }
+    }
+
+    // 3. Save
+    const { data, error } = await supabaseAdmin
+      .from("ai_spending_policies")
+      .upsert(
+        {
+          profile_id,
+          per_transaction_limit: settings.per_transaction_limit,
+          daily_limit: settings.daily_limit,
+          weekly_limit: settings.weekly_limit,
+          allowlist_enabled: settings.allowlist_enabled,
+          allowed_recipient_ids: allowedIds,
+          new_recipient_cooldown_hours: settings.new_recipient_cooldown_hours,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: "profile_id" }
+      )
+      .select()
+      .single();
+
+    if (error || !data) {
+      console.error("[ai/spending-policy] Save error:", error);
+      return NextResponse.json(
+        { error: "Failed to save spending policy", details: error?.message },
+        { status: 500 }
+      );
+    }
+
+    console.log(`[ai/spending-policy] ✓ Policy saved for ${profile_id}`);
+
+    return NextResponse.json({ success: true, policy: toSpendingPolicySettings(data) });
+  } catch (error) {
+    console.error("[ai/spending-policy] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to save spending policy" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * @fileoverview AI usage of a profile for the current month.
+ * Shown in the AI bar so users know how many requests their plan has left.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getAIUsageStore, getAIUsageSummary, getProfilePlan } from "@/lib/ai-usage-store";
+import { requireSessionProfile } from "@/lib/server-auth";
+
+/**
+ * GET /api/ai/usage?profile_id=...
+ * Returns the plan, the monthly quota, requests used and when the quota resets.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const profileId = request.nextUrl.searchParams.get("profile_id");
+    if (!profileId) {
+      return NextResponse.json(
+        { error: "Missing required parameter: profile_id" },
+        { status: 400 }
+      );
+    }
+
+    const session = await requireSessionProfile(request, profileId);
+    if (!session.ok) {
+      return NextResponse.json({ error: session.message }, { status: session.status });
+    }
+
+    const usage = await getAIUsageSummary(
+      getAIUsageStore(),
+      session.profile.id,
+      await getProfilePlan(session.profile.id)
+    );
+
+    return NextResponse.json({ success: true, usage });
+  } catch (error) {
+    console.error("[ai/usage] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch AI usage" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,41 +1,13 @@
 import { Errors, createClient } from "@farcaster/quick-auth";
 import { NextRequest, NextResponse } from "next/server";
+import {
+  findProfileByWallets,
+  getFarcasterPrimaryAddress,
+  getAppHost,
+} from "@/lib/server-auth";
 
 const client = createClient();
 
-// Helper function to determine the correct domain for JWT verification
-function getUrlHost(request: NextRequest): string {
-  // First try to get the origin from the Origin header (most reliable for CORS requests)
-  const origin = request.headers.get("origin");
-  if (origin) {
-    try {
-      const url = new URL(origin);
-      return url.host;
-    } catch (error) {
-      console.warn("Invalid origin header:", origin, error);
-    }
-  }
-
-  // Fallback to Host header
-  const host = request.headers.get("host");
-  if (host) {
-    return host;
-  }
-
-  // Final fallback to environment variables (your original logic)
-  let urlValue: string;
-  if (process.env.VERCEL_ENV === "production") {
-    urlValue = process.env.NEXT_PUBLIC_URL!;
-  } else if (process.env.VERCEL_URL) {
-    urlValue = `https://${process.env.VERCEL_URL}`;
-  } else {
-    urlValue = "http://localhost:3000";
-  }
-
-  const url = new URL(urlValue);
-  return url.host;
-}
-
 export async function GET(request: NextRequest) {
   // Because we're fetching this endpoint via `sdk.quickAuth.fetch`,
   // if we're in a mini app, the request will include the necessary `Authorization` header.
@@ -47,21 +19,35 @@ export async function GET(request: NextRequest) {
   }
 
   try {
-    // Now we verify the token. `domain` must match the domain of the request.
-    // In our case, we're using the `getUrlHost` function to get the domain of the request
-    // based on the Vercel environment. This will vary depending on your hosting provider.
+    // Now we verify the token. `domain` must match the app's configured
+    // domain (NEXT_PUBLIC_URL), not one taken from the request's headers.
+    const domain = getAppHost();
+    if (!domain) {
+      return NextResponse.json({ message: "NEXT_PUBLIC_URL is not configured" }, { status: 500 });
+    }
     const payload = await client.verifyJwt({
       token: authorization.split(" ")[1] as string,
-      domain: getUrlHost(request),
+      domain,
     });
     // If the token was valid, `payload.sub` will be the user's Farcaster ID.
     const userFid = payload.sub;
 
+    // Map the FID to a Banb profile through its primary address
+    let profileId: string | null = null;
+    try {
+      const address = await getFarcasterPrimaryAddress(Number(userFid));
+      const profile = await findProfileByWallets(address ? [address] : []);
+      profileId = profile?.id ?? null;
+    } catch (error) {
+      console.warn("Failed to resolve profile for FID:", userFid, error);
+    }
+
     // Return user information for your waitlist application
     return NextResponse.json({
       success: true,
       user: {
         fid: userFid,
+        profileId,
         issuedAt: payload.iat,
         expiresAt: payload.exp,
       },
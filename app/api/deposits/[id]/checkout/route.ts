@@ -0,0 +1,117 @@
+/**
+ * @fileoverview Starts the provider checkout for a quoted deposit.
+ * Opens an order at the on-ramp provider and returns the widget URL the
+ * user is redirected to for paying with Google Pay or Apple Pay.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { requireSessionProfile } from "@/lib/server-auth";
+import { getOnrampProvider } from "@/lib/onramp";
+
+// Create a service role client for server-side operations
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY ||
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  }
+);
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { profile_id } = await request.json();
+
+    // 1. Validate required fields
+    if (!profile_id) {
+      return NextResponse.json(
+        { error: "Missing required field: profile_id" },
+        { status: 400 }
+      );
+    }
+
+    // 1b. Verify the caller is the profile owner
+    const session = await requireSessionProfile(request, profile_id);
+    if (!session.ok) {
+      return NextResponse.json({ error: session.message }, { status: session.status });
+    }
+
+    // 2. Load the order, which must belong to the caller and still be quoted
+    const { data: deposit, error: fetchError } = await supabaseAdmin
+      .from("deposit_orders")
+      .select("*")
+      .eq("id", id)
+      .eq("profile_id", profile_id)
+      .single();
+
+    if (fetchError || !deposit) {
+      return NextResponse.json(
+        { error: "Deposit not found" },
+        { status: 404 }
+      );
+    }
+
+    if (deposit.status !== "quoted") {
+      return NextResponse.json(
+        { error: `Deposit is already ${deposit.status}` },
+        { status: 409 }
+      );
+    }
+
+    // 3. Open the order at the provider
+    let checkout;
+    try {
+      checkout = await getOnrampProvider().createOrder(
+        deposit.provider_quote_id,
+        { orderId: deposit.id, walletAddress: deposit.wallet_address }
+      );
+    } catch (checkoutError) {
+      return NextResponse.json(
+        {
+          error:
+            checkoutError instanceof Error
+              ? checkoutError.message
+              : "Could not start checkout",
+        },
+        { status: 422 }
+      );
+    }
+
+    // 4. Record the provider order
+    const { data, error } = await supabaseAdmin
+      .from("deposit_orders")
+      .update({
+        status: "pending",
+        provider_reference: checkout.reference,
+        widget_url: checkout.widgetUrl,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error("[deposits/:id/checkout] Failed to update:", error);
+      return NextResponse.json(
+        { error: "Failed to update deposit", details: error.message },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, deposit: data });
+  } catch (error) {
+    console.error("[deposits/:id/checkout] API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * @fileoverview Payment step of the mock on-ramp checkout.
+ * Plays the part of the payment processor: builds the signed webhook the
+ * provider would send once the user pays or declines, and delivers it to
+ * /api/deposits/webhook so the full webhook path runs locally.
+ * Only available while the mock provider is configured.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { requireSessionProfile } from "@/lib/server-auth";
+import {
+  getOnrampProvider,
+  isMockOnrampProvider,
+  ONRAMP_SIGNATURE_HEADER,
+} from "@/lib/onramp";
+
+// Create a service role client for server-side operations
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY ||
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  }
+);
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { profile_id, outcome = "completed" } = await request.json();
+
+    // 1. Only the mock provider can simulate payments
+    const provider = getOnrampProvider();
+    if (!isMockOnrampProvider(provider)) {
+      return NextResponse.json(
+        { error: "Mock payments are not available" },
+        { status: 404 }
+      );
+    }
+
+    // 2. Validate required fields
+    if (!profile_id) {
+      return NextResponse.json(
+        { error: "Missing required field: profile_id" },
+        { status: 400 }
+      );
+    }
+
+    if (outcome !== "completed" && outcome !== "failed") {
+      return NextResponse.json(
+        { error: "Outcome must be completed or failed" },
+        { status: 400 }
+      );
+    }
+
+    // 2b. Verify the caller is the profile owner
+    const session = await requireSessionProfile(request, profile_id);
+    if (!session.ok) {
+      return NextResponse.json({ error: session.message }, { status: session.status });
+    }
+
+    // 3. Load the order, which must belong to the caller and be at checkout
+    const { data: deposit, error: fetchError } = await supabaseAdmin
+      .from("deposit_orders")
+      .select("*")
+      .eq("id", id)
+      .eq("profile_id", profile_id)
+      .single();
+
+    if (fetchError || !deposit) {
+      return NextResponse.json(
+        { error: "Deposit not found" },
+        { status: 404 }
+      );
+    }
+
+    if (deposit.status !== "pending" || !deposit.provider_reference) {
+      return NextResponse.json(
+        { error: `Deposit is already ${deposit.status}` },
+        { status: 409 }
+      );
+    }
+
+    // 4. Deliver the signed webhook
+    let webhook;
+    try {
+      webhook = provider.simulatePayment(deposit.provider_reference, outcome);
+    } catch (simulateError) {
+      return NextResponse.json(
+        {
+          error:
+            simulateError instanceof Error
+              ? simulateError.message
+              : "Could not simulate payment",
+        },
+        { status: 422 }
+      );
+    }
+
+    const response = await fetch(new URL("/api/deposits/webhook", request.url), {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        [ONRAMP_SIGNATURE_HEADER]: webhook.signature,
+      },
+      body: webhook.body,
+    });
+
+    const result = await response.json();
+    return NextResponse.json(result, { status: response.status });
+  } catch (error) {
+    console.error("[deposits/:id/mock-payment] API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * @fileoverview Single fiat deposit order.
+ * GET returns the order, marking unpaid quotes past their expiry as "expired".
+ * Payment progress itself arrives through the provider webhook.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { requireSessionProfile } from "@/lib/server-auth";
+
+// Create a service role client for server-side operations
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY ||
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  }
+);
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const profileId = request.nextUrl.searchParams.get("profile_id");
+    if (!profileId) {
+      return NextResponse.json(
+        { error: "Missing required parameter: profile_id" },
+        { status: 400 }
+      );
+    }
+
+    const session = await requireSessionProfile(request, profileId);
+    if (!session.ok) {
+      return NextResponse.json({ error: session.message }, { status: session.status });
+    }
+
+    const { data: deposit, error } = await supabaseAdmin
+      .from("deposit_orders")
+      .select("*")
+      .eq("id", id)
+      .eq("profile_id", session.profile.id)
+      .single();
+
+    if (error || !deposit) {
+      return NextResponse.json(
+        { error: "Deposit not found" },
+        { status: 404 }
+      );
+    }
+
+    if (
+      deposit.status === "quoted" &&
+      new Date(deposit.quote_expires_at).getTime() <= Date.now()
+    ) {
+      const { data: expired, error: updateError } = await supabaseAdmin
+        .from("deposit_orders")
+        .update({ status: "expired", updated_at: new Date().toISOString() })
+        .eq("id", id)
+        .eq("status", "quoted")
+        .select()
+        .single();
+
+      if (updateError || !expired) {
+        throw new Error(`Failed to expire deposit: ${updateError?.message}`);
+      }
+
+      return NextResponse.json({ success: true, deposit: expired });
+    }
+
+    return NextResponse.json({ success: true, deposit });
+  } catch (error) {
+    console.error("[deposits/:id] API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
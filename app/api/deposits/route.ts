@@ -0,0 +1,198 @@
+/**
+ * @fileoverview Fiat deposit quotes and history.
+ * POST requests a quote from the on-ramp provider and stores it as a "quoted"
+ * deposit order credited to the profile's primary account; GET lists a
+ * profile's deposit orders.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { requireSessionProfile } from "@/lib/server-auth";
+import { getOnrampProvider, isOnrampPaymentMethod } from "@/lib/onramp";
+import { DEFAULT_CHAIN } from "@/lib/chains";
+import { isTokenSupported } from "@/lib/tokens";
+
+// Create a service role client for server-side operations
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY ||
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  }
+);
+
+/**
+ * Token the on-ramp delivers. Deposits are bought as USDC only.
+ */
+const DEPOSIT_TOKEN = "USDC";
+
+export async function POST(request: NextRequest) {
+  try {
+    const {
+      profile_id,
+      fiat_amount,
+      fiat_currency = "USD",
+      payment_method,
+      chain = DEFAULT_CHAIN,
+    } = await request.json();
+
+    // 1. Validate required fields
+    if (!profile_id || !fiat_amount || !payment_method) {
+      return NextResponse.json(
+        {
+          error:
+            "Missing required fields: profile_id, fiat_amount, payment_method",
+        },
+        { status: 400 }
+      );
+    }
+
+    const numericAmount = parseFloat(fiat_amount);
+    if (isNaN(numericAmount) || numericAmount <= 0) {
+      return NextResponse.json(
+        { error: "Amount must be greater than zero" },
+        { status: 400 }
+      );
+    }
+
+    if (!isOnrampPaymentMethod(payment_method)) {
+      return NextResponse.json(
+        { error: `Unsupported payment method: ${payment_method}` },
+        { status: 400 }
+      );
+    }
+
+    if (!isTokenSupported(DEPOSIT_TOKEN, chain)) {
+      return NextResponse.json(
+        { error: `Deposits are not available on ${chain}` },
+        { status: 400 }
+      );
+    }
+
+    // 1b. Verify the caller is the profile owner
+    const session = await requireSessionProfile(request, profile_id);
+    if (!session.ok) {
+      return NextResponse.json({ error: session.message }, { status: session.status });
+    }
+
+    // 2. Resolve the account the deposit is credited to
+    const { data: account, error: accountError } = await supabaseAdmin
+      .from("accounts")
+      .select("id, address")
+      .eq("profile_id", profile_id)
+      .eq("is_primary", true)
+      .eq("status", "active")
+      .single();
+
+    if (accountError || !account) {
+      return NextResponse.json(
+        { error: "No active account to deposit into" },
+        { status: 400 }
+      );
+    }
+
+    // 3. Request a quote from the provider
+    const provider = getOnrampProvider();
+    let quote;
+    try {
+      quote = await provider.createQuote({
+        fiatAmount: numericAmount.toFixed(2),
+        fiatCurrency: fiat_currency,
+        token: DEPOSIT_TOKEN,
+        chain,
+        paymentMethod: payment_method,
+      });
+    } catch (quoteError) {
+      return NextResponse.json(
+        {
+          error:
+            quoteError instanceof Error
+              ? quoteError.message
+              : "Could not get a quote",
+        },
+        { status: 422 }
+      );
+    }
+
+    // 4. Store the quoted deposit order
+    const { data, error } = await supabaseAdmin
+      .from("deposit_orders")
+      .insert({
+        profile_id,
+        account_id: account.id,
+        wallet_address: account.address,
+        payment_method,
+        fiat_amount: numericAmount.toFixed(2),
+        fiat_currency,
+        fee: quote.fee.toFixed(2),
+        fx_rate: quote.fxRate.toString(),
+        crypto_amount: quote.cryptoAmount.toFixed(2),
+        token: DEPOSIT_TOKEN,
+        chain,
+        provider: provider.name,
+        provider_quote_id: quote.quoteId,
+        status: "quoted",
+        quote_expires_at: quote.expiresAt,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error("[deposits] Failed to store quote:", error);
+      return NextResponse.json(
+        { error: "Failed to create deposit", details: error.message },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, deposit: data });
+  } catch (error) {
+    console.error("[deposits] API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const profileId = request.nextUrl.searchParams.get("profile_id");
+    if (!profileId) {
+      return NextResponse.json(
+        { error: "Missing required parameter: profile_id" },
+        { status: 400 }
+      );
+    }
+
+    const session = await requireSessionProfile(request, profileId);
+    if (!session.ok) {
+      return NextResponse.json({ error: session.message }, { status: session.status });
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from("deposit_orders")
+      .select("*")
+      .eq("profile_id", session.profile.id)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      return NextResponse.json(
+        { error: "Failed to fetch deposits", details: error.message },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, deposits: data || [] });
+  } catch (error) {
+    console.error("[deposits] API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,214 @@
+/**
+ * @fileoverview On-ramp provider webhook.
+ * Verifies the provider signature, moves the deposit order along, and on
+ * completion credits the deposit as an incoming account transaction.
+ * Account.balance moves once the transfer indexer (/api/accounts/sync) sees
+ * the provider's transfer onchain.
+ * Deliveries are idempotent: events for orders that already reached a final
+ * state are acknowledged without changes, so provider retries are safe.
+ * Completion events must carry the delivery tx hash, which the indexer
+ * matches the credited row on; events without one are refused so the
+ * provider retries them.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import {
+  getOnrampProvider,
+  ONRAMP_PAYMENT_METHODS,
+  ONRAMP_SIGNATURE_HEADER,
+  type OnrampWebhookEvent,
+} from "@/lib/onramp";
+import type { DepositOrder } from "@/lib/supabase";
+
+// Create a service role client for server-side operations
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY ||
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  }
+);
+
+/**
+ * Completes a deposit order and credits it to the account.
+ * The order is claimed with a conditional update first, so two concurrent
+ * deliveries of the same event cannot credit the account twice. If the
+ * credit fails, the claim is released so the provider's retry can complete it.
+ */
+async function completeDeposit(
+  deposit: DepositOrder,
+  event: OnrampWebhookEvent
+): Promise<DepositOrder | null> {
+  const cryptoAmount =
+    event.cryptoAmount !== undefined
+      ? event.cryptoAmount.toFixed(2)
+      : deposit.crypto_amount;
+  const completedAt = new Date().toISOString();
+
+  // 1. Claim the order
+  const { data: claimed, error: claimError } = await supabaseAdmin
+    .from("deposit_orders")
+    .update({
+      status: "completed",
+      crypto_amount: cryptoAmount,
+      tx_hash: event.txHash,
+      completed_at: completedAt,
+      updated_at: completedAt,
+    })
+    .eq("id", deposit.id)
+    .in("status", ["pending", "processing"])
+    .select()
+    .single();
+
+  if (claimError || !claimed) {
+    return null; // Already completed by another delivery
+  }
+
+  // 2. Credit the incoming transaction
+  const methodLabel = ONRAMP_PAYMENT_METHODS[deposit.payment_method];
+  const { data: transaction, error: txError } = await supabaseAdmin
+    .from("account_transactions")
+    .insert({
+      account_id: deposit.account_id,
+      amount: cryptoAmount,
+      direction: "in",
+      counterparty: deposit.provider,
+      counterparty_name: methodLabel,
+      tx_hash: event.txHash,
+      token_symbol: deposit.token,
+      network: deposit.chain,
+      status: "confirmed",
+      description: `Deposit via ${methodLabel}`,
+      metadata: {
+        deposit_order_id: deposit.id,
+        payment_method: deposit.payment_method,
+        fiat_amount: deposit.fiat_amount,
+        fiat_currency: deposit.fiat_currency,
+        fee: deposit.fee,
+        provider_reference: deposit.provider_reference,
+      },
+    })
+    .select("id")
+    .single();
+
+  if (txError || !transaction) {
+    await supabaseAdmin
+      .from("deposit_orders")
+      .update({
+        status: deposit.status,
+        completed_at: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", deposit.id);
+    throw new Error(`Failed to credit deposit: ${txError?.message}`);
+  }
+
+  // 3. Link the transaction to the order
+  const { data, error } = await supabaseAdmin
+    .from("deposit_orders")
+    .update({ account_transaction_id: transaction.id })
+    .eq("id", deposit.id)
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to link deposit transaction: ${error?.message}`);
+  }
+
+  return data;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // 1. Verify the signature before trusting anything in the body
+    const rawBody = await request.text();
+    let event: OnrampWebhookEvent;
+    try {
+      event = getOnrampProvider().parseWebhook(
+        rawBody,
+        request.headers.get(ONRAMP_SIGNATURE_HEADER)
+      );
+    } catch (verifyError) {
+      return NextResponse.json(
+        {
+          error:
+            verifyError instanceof Error
+              ? verifyError.message
+              : "Invalid webhook",
+        },
+        { status: 401 }
+      );
+    }
+
+    // 2. Find the order the event belongs to
+    const { data: deposit, error: fetchError } = await supabaseAdmin
+      .from("deposit_orders")
+      .select("*")
+      .eq("provider_reference", event.reference)
+      .single();
+
+    if (fetchError || !deposit) {
+      return NextResponse.json(
+        { error: "Deposit not found" },
+        { status: 404 }
+      );
+    }
+
+    // 3. Acknowledge events for orders that are already final
+    if (deposit.status !== "pending" && deposit.status !== "processing") {
+      return NextResponse.json({ success: true, deposit, duplicate: true });
+    }
+
+    // 4. Apply the event
+    if (event.status === "completed") {
+      if (!event.txHash) {
+        return NextResponse.json(
+          { error: "Completed events must include the delivery transaction hash" },
+          { status: 422 }
+        );
+      }
+
+      const completed = await completeDeposit(deposit, event);
+      return NextResponse.json({
+        success: true,
+        deposit: completed ?? deposit,
+        duplicate: !completed,
+      });
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from("deposit_orders")
+      .update({
+        status: event.status,
+        failure_reason:
+          event.status === "failed"
+            ? event.failureReason || "Payment failed"
+            : null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", deposit.id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error("[deposits/webhook] Failed to update:", error);
+      return NextResponse.json(
+        { error: "Failed to update deposit", details: error.message },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, deposit: data });
+  } catch (error) {
+    console.error("[deposits/webhook] API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * @fileoverview Daily rewards for a single investment.
+ * Built from the snapshots written by the onchain sync (/api/investments/sync)
+ * and shaped as RewardsApiResponse for lib/rewards-api.ts.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { buildDailyRewards, getSnapshotDate } from "@/lib/investment-sync";
+import type { RewardsApiResponse } from "@/lib/rewards-api";
+import { requireSessionProfile } from "@/lib/server-auth";
+
+// Create a service role client for server-side operations
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY ||
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  }
+);
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Number of days returned when no range is given.
+ */
+const DEFAULT_PERIOD_DAYS = 30;
+
+/**
+ * GET /api/investments/[id]/rewards?start=YYYY-MM-DD&end=YYYY-MM-DD
+ * Returns daily rewards in the range (default: the last 30 days), all-time
+ * rewards and rewards for the current calendar month. Only the investment's
+ * owner may read them.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const searchParams = request.nextUrl.searchParams;
+    const now = new Date();
+
+    // 1. Resolve the period
+    const end = searchParams.get("end") || getSnapshotDate(now);
+    const start =
+      searchParams.get("start") ||
+      getSnapshotDate(
+        new Date(now.getTime() - DEFAULT_PERIOD_DAYS * 24 * 60 * 60 * 1000)
+      );
+
+    if (!DATE_PATTERN.test(start) || !DATE_PATTERN.test(end)) {
+      return NextResponse.json(
+        { error: "start and end must be dates in YYYY-MM-DD format" },
+        { status: 400 }
+      );
+    }
+    if (start > end) {
+      return NextResponse.json(
+        { error: "start must not be after end" },
+        { status: 400 }
+      );
+    }
+
+    // 2. Make sure the investment exists and belongs to the caller
+    const session = await requireSessionProfile(
+      request,
+      searchParams.get("profile_id") || undefined
+    );
+    if (!session.ok) {
+      return NextResponse.json({ error: session.message }, { status: session.status });
+    }
+
+    const { data: investment, error: investmentError } = await supabaseAdmin
+      .from("investments")
+      .select("id")
+      .eq("id", id)
+      .eq("profile_id", session.profile.id)
+      .single();
+
+    if (investmentError || !investment) {
+      return NextResponse.json(
+        { error: "Investment not found" },
+        { status: 404 }
+      );
+    }
+
+    // 3. Snapshots in the period and since the start of the month
+    const monthStart = `${getSnapshotDate(now).slice(0, 8)}01`;
+    const { data: snapshots, error: snapshotsError } = await supabaseAdmin
+      .from("investment_snapshots")
+      .select("snapshot_date, accrued_yield, cumulative_yield")
+      .eq("investment_id", id)
+      .gte("snapshot_date", start < monthStart ? start : monthStart)
+      .order("snapshot_date", { ascending: true });
+
+    if (snapshotsError) {
+      throw new Error(`Failed to load snapshots: ${snapshotsError.message}`);
+    }
+
+    // 4. All-time total comes from the latest snapshot overall
+    const { data: latest } = await supabaseAdmin
+      .from("investment_snapshots")
+      .select("cumulative_yield")
+      .eq("investment_id", id)
+      .order("snapshot_date", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const monthlyRewards = buildDailyRewards(
+      snapshots || [],
+      monthStart,
+      getSnapshotDate(now)
+    ).reduce((sum, day) => sum + day.amount, 0);
+
+    const response: RewardsApiResponse = {
+      dailyRewards: buildDailyRewards(snapshots || [], start, end),
+      totalRewards: latest ? parseFloat(latest.cumulative_yield) : 0,
+      monthlyRewards,
+      period: { start, end },
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("[investments/:id/rewards] API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,338 @@
+/**
+ * @fileoverview Onchain position and yield sync for vault investments.
+ * Reads each active investment's vault share balance across the owner's
+ * accounts, values it with `convertToAssets`, and records the yield accrued
+ * since the previous sync as a daily snapshot, a `reward` movement and the
+ * investment's `current_rewards`. Intended to be called by a cron job, daily
+ * or more often: repeated syncs on the same day update that day's snapshot
+ * and reward movement instead of adding new ones.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { createPublicClient, http, parseUnits } from "viem";
+import { base } from "viem/chains";
+import {
+  calculateAccruedYield,
+  formatVaultAssets,
+  getSnapshotDate,
+  sumNetFlows,
+  VAULT_ASSET_DECIMALS,
+} from "@/lib/investment-sync";
+import type { Investment, InvestmentSnapshot } from "@/lib/supabase";
+import MORPHO_ABI from "@/lib/abi/Morpho.abi.json";
+import { isCronAuthorized } from "@/lib/cron-auth";
+
+// Create a service role client for server-side operations
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY ||
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  }
+);
+
+// Vaults are on Base; BASE_RPC_URL overrides the public RPC
+const publicClient = createPublicClient({
+  chain: base,
+  transport: http(process.env.BASE_RPC_URL || undefined),
+});
+
+/**
+ * Maximum number of investments processed per invocation.
+ */
+const BATCH_SIZE = 100;
+
+/**
+ * Outcome of syncing a single investment.
+ */
+interface InvestmentSyncResult {
+  investmentId: string;
+  status: "synced" | "skipped" | "error";
+  assets?: string;
+  accruedYield?: string;
+  reason?: string;
+}
+
+/**
+ * Values a position: sums vault shares over every account of the profile,
+ * since deposits can come from any linked wallet.
+ */
+async function readPosition(
+  vaultAddress: `0x${string}`,
+  owners: `0x${string}`[]
+): Promise<{ shares: bigint; assets: bigint }> {
+  let shares = BigInt(0);
+  for (const owner of owners) {
+    shares += (await publicClient.readContract({
+      address: vaultAddress,
+      abi: MORPHO_ABI,
+      functionName: "balanceOf",
+      args: [owner],
+    })) as bigint;
+  }
+
+  if (shares === BigInt(0)) {
+    return { shares, assets: BigInt(0) };
+  }
+
+  const assets = (await publicClient.readContract({
+    address: vaultAddress,
+    abi: MORPHO_ABI,
+    functionName: "convertToAssets",
+    args: [shares],
+  })) as bigint;
+
+  return { shares, assets };
+}
+
+/**
+ * Syncs one investment: snapshot, reward movement and current_rewards.
+ */
+async function syncInvestment(
+  investment: Investment,
+  now: Date
+): Promise<InvestmentSyncResult> {
+  if (!investment.vault_address) {
+    return {
+      investmentId: investment.id,
+      status: "skipped",
+      reason: "Investment has no vault address",
+    };
+  }
+
+  // 1. Accounts that may hold the vault shares
+  const { data: accounts, error: accountsError } = await supabaseAdmin
+    .from("accounts")
+    .select("address")
+    .eq("profile_id", investment.profile_id)
+    .eq("status", "active");
+
+  if (accountsError || !accounts || accounts.length === 0) {
+    return {
+      investmentId: investment.id,
+      status: "skipped",
+      reason: "Profile has no active accounts",
+    };
+  }
+
+  // 2. Value the position onchain
+  const { shares, assets } = await readPosition(
+    investment.vault_address as `0x${string}`,
+    accounts.map((account) => account.address as `0x${string}`)
+  );
+
+  // 3. Compare with the previous sync, net of deposits and withdrawals since
+  const { data: previous } = await supabaseAdmin
+    .from("investment_snapshots")
+    .select("*")
+    .eq("investment_id", investment.id)
+    .order("snapshot_date", { ascending: false })
+    .limit(1)
+    .maybeSingle<InvestmentSnapshot>();
+
+  let flowsQuery = supabaseAdmin
+    .from("investment_movements")
+    .select("movement_type, amount, status")
+    .eq("investment_id", investment.id)
+    .in("movement_type", ["deposit", "withdrawal"]);
+  if (previous) {
+    flowsQuery = flowsQuery.gt("created_at", previous.synced_at);
+  }
+  const { data: flows, error: flowsError } = await flowsQuery;
+
+  if (flowsError) {
+    throw new Error(`Failed to load movements: ${flowsError.message}`);
+  }
+
+  const previousAssets = previous
+    ? parseUnits(previous.assets, VAULT_ASSET_DECIMALS)
+    : BigInt(0);
+  const accrued = calculateAccruedYield(
+    assets,
+    previousAssets,
+    sumNetFlows(flows || [])
+  );
+
+  // 4. Store today's snapshot, adding to it if today was already synced
+  const snapshotDate = getSnapshotDate(now);
+  const sameDay = previous?.snapshot_date === snapshotDate;
+  const previousCumulative = previous
+    ? parseUnits(previous.cumulative_yield, VAULT_ASSET_DECIMALS)
+    : BigInt(0);
+  const dayYield =
+    accrued +
+    (sameDay
+      ? parseUnits(previous.accrued_yield, VAULT_ASSET_DECIMALS)
+      : BigInt(0));
+  const cumulative = previousCumulative + accrued;
+
+  const { error: snapshotError } = await supabaseAdmin
+    .from("investment_snapshots")
+    .upsert(
+      {
+        investment_id: investment.id,
+        profile_id: investment.profile_id,
+        snapshot_date: snapshotDate,
+        shares: shares.toString(),
+        assets: formatVaultAssets(assets),
+        principal: investment.amount_invested,
+        accrued_yield: formatVaultAssets(dayYield),
+        cumulative_yield: formatVaultAssets(cumulative),
+        synced_at: now.toISOString(),
+      },
+      { onConflict: "investment_id,snapshot_date" }
+    );
+
+  if (snapshotError) {
+    throw new Error(`Failed to store snapshot: ${snapshotError.message}`);
+  }
+
+  // 5. Record the day's yield as a single reward movement
+  if (dayYield > BigInt(0)) {
+    const { data: existingReward } = await supabaseAdmin
+      .from("investment_movements")
+      .select("id")
+      .eq("investment_id", investment.id)
+      .eq("movement_type", "reward")
+      .eq("metadata->>snapshot_date", snapshotDate)
+      .maybeSingle();
+
+    const rewardMetadata = {
+      source: "onchain_sync",
+      snapshot_date: snapshotDate,
+      vault_address: investment.vault_address,
+      assets: formatVaultAssets(assets),
+    };
+
+    const { error: rewardError } = existingReward
+      ? await supabaseAdmin
+          .from("investment_movements")
+          .update({
+            amount: formatVaultAssets(dayYield),
+            metadata: rewardMetadata,
+            updated_at: now.toISOString(),
+          })
+          .eq("id", existingReward.id)
+      : await supabaseAdmin.from("investment_movements").insert({
+          profile_id: investment.profile_id,
+          investment_id: investment.id,
+          movement_type: "reward",
+          amount: formatVaultAssets(dayYield),
+          token: "USDC",
+          chain: "base",
+          status: "confirmed",
+          metadata: rewardMetadata,
+        });
+
+    if (rewardError) {
+      throw new Error(`Failed to record reward: ${rewardError.message}`);
+    }
+  }
+
+  // 6. Keep the investment's running total in step with the snapshots
+  const { error: updateError } = await supabaseAdmin
+    .from("investments")
+    .update({ current_rewards: formatVaultAssets(cumulative) })
+    .eq("id", investment.id);
+
+  if (updateError) {
+    throw new Error(`Failed to update rewards: ${updateError.message}`);
+  }
+
+  return {
+    investmentId: investment.id,
+    status: "synced",
+    assets: formatVaultAssets(assets),
+    accruedYield: formatVaultAssets(accrued),
+  };
+}
+
+/**
+ * Syncs every active vault investment, or a single one.
+ */
+async function syncInvestments(investmentId: string | null) {
+  const now = new Date();
+
+  let query = supabaseAdmin
+    .from("investments")
+    .select("*")
+    .eq("status", "active")
+    .eq("investment_type", "morpho_vault")
+    .order("updated_at", { ascending: true, nullsFirst: true })
+    .limit(BATCH_SIZE);
+  if (investmentId) {
+    query = query.eq("id", investmentId);
+  }
+
+  const { data: investments, error } = await query;
+
+  if (error) {
+    console.error("[InvestmentSync] Failed to load investments:", error);
+    return NextResponse.json(
+      { error: "Failed to load investments", details: error.message },
+      { status: 500 }
+    );
+  }
+
+  const results: InvestmentSyncResult[] = [];
+  for (const investment of (investments || []) as Investment[]) {
+    try {
+      results.push(await syncInvestment(investment, now));
+    } catch (err) {
+      results.push({
+        investmentId: investment.id,
+        status: "error",
+        reason: err instanceof Error ? err.message : "Unknown error",
+      });
+    }
+  }
+
+  const synced = results.filter((r) => r.status === "synced").length;
+  console.log(
+    `[InvestmentSync] Processed ${results.length} investment(s), synced ${synced}`
+  );
+
+  return NextResponse.json({
+    success: true,
+    processed: results.length,
+    synced,
+    results,
+    ranAt: now.toISOString(),
+  });
+}
+
+/**
+ * GET /api/investments/sync
+ * Entry point for cron schedulers (e.g. Vercel Cron sends GET requests).
+ * Pass `investment_id` to sync a single investment.
+ */
+export async function GET(request: NextRequest) {
+  if (!isCronAuthorized(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    return await syncInvestments(
+      request.nextUrl.searchParams.get("investment_id")
+    );
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/investments/sync
+ * Same as GET, for schedulers that only send POST requests.
+ */
+export async function POST(request: NextRequest) {
+  return GET(request);
+}
@@ -1,44 +1,70 @@
 /**
  * @fileoverview MCP (Model Context Protocol) API route for handling MCP requests.
- * Provides a POST endpoint that processes MCP protocol requests for AI-powered queries.
- * Handles authentication, request parsing, tool execution, and error responses.
+ * Implements the MCP streamable HTTP transport: clients POST JSON-RPC 2.0
+ * messages and get the responses back as JSON or as a text/event-stream.
+ * The server is stateless, so it issues no session ids and offers no
+ * server-initiated stream. Callers authenticate with a personal access token,
+ * whose scopes limit the tools and resources they see, or with the signed-in
+ * user's session. The original `{ method, params }` body is still accepted
+ * for the in-app test pages, which send the session.
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { 
+  JSONRPC_ERROR_CODES,
+  MCP_PROTOCOL_VERSION,
+  MCP_SERVER_INFO,
+  MCP_SUPPORTED_PROTOCOL_VERSIONS,
+  handleJSONRPCMessage,
   handleMCPRequest, 
+  jsonRPCError,
   validateAuthentication,
+  type JSONRPCResponse,
   type MCPRequest,
   type ToolExecutionContext 
 } from "@/lib/mcp-server";
+import { formatSSEEvent } from "@/lib/sse";
+import { checkAccessToken } from "@/lib/access-token-auth";
+import { requireSessionProfile } from "@/lib/server-auth";
 
 /**
- * Extracts profile_id from the request body context.
- * In production, this would extract from authenticated session/JWT token.
- * For now, expects profile_id in request body context.
+ * Authenticates the caller from the Authorization header. A personal access
+ * token decides the profile and which tools and resources are available;
+ * without one, a verified session gives its profile full access, as in the
+ * app's AI chat. The profile must still be active.
  * 
- * @param {unknown} body - Parsed request body
- * @returns {string | null} Profile ID if authenticated, null otherwise
+ * @param {NextRequest} request - Next.js request object
+ * @returns {Promise<ToolExecutionContext | null>} Context for the caller's profile, null if unauthenticated
  */
-function extractProfileId(body: unknown): string | null {
-  try {
-    // Type guard to check if body is an object with context property
-    if (!body || typeof body !== "object" || body === null) {
-      return null;
-    }
-    
-    const bodyObj = body as { context?: { profileId?: unknown } };
-    const profileId = bodyObj.context?.profileId;
-    
-    if (!profileId || typeof profileId !== "string") {
+async function authenticateMCPRequest(request: NextRequest): Promise<ToolExecutionContext | null> {
+  const tokenCheck = await checkAccessToken(request);
+  if (tokenCheck && !tokenCheck.ok) {
+    return null;
+  }
+
+  let profileId: string;
+  if (tokenCheck) {
+    profileId = tokenCheck.auth.profileId;
+  } else {
+    const session = await requireSessionProfile(request);
+    if (!session.ok) {
       return null;
     }
-    
-    return profileId;
-  } catch (error) {
-    console.error("Failed to extract profile ID:", error);
+    profileId = session.profile.id;
+  }
+
+  try {
+    await validateAuthentication(profileId);
+  } catch {
     return null;
   }
+
+  return {
+    profileId,
+    scopes: tokenCheck?.auth.scopes,
+    sessionId:
+      request.headers.get("mcp-session-id") || request.headers.get("x-session-id") || undefined,
+  };
 }
 
 /**
@@ -85,15 +111,15 @@ function parseMCPRequest(body: unknown): MCPRequest {
 
 /**
  * Logs MCP request for audit and debugging purposes.
- * Includes request method, tool name, profile ID, and timestamp.
+ * Includes request method, tool name or resource URI, profile ID, and timestamp.
  * 
- * @param {MCPRequest} request - MCP request to log
+ * @param {object} request - MCP request to log (legacy or JSON-RPC)
  * @param {string} profileId - Authenticated user's profile ID
  * @param {string} status - Request status (success/error)
  * @param {string} [error] - Error message if request failed
  */
 function logMCPRequest(
-  request: MCPRequest, 
+  request: { method: string; params?: { name?: unknown; uri?: unknown } }, 
   profileId: string, 
   status: "success" | "error",
   error?: string
@@ -102,6 +128,7 @@ function logMCPRequest(
     timestamp: new Date().toISOString(),
     method: request.method,
     tool_name: request.params?.name || null,
+    resource_uri: request.params?.uri || null,
     profile_id: profileId,
     status,
     error: error || null,
@@ -114,37 +141,198 @@ function logMCPRequest(
   }
 }
 
+/**
+ * Rejects cross-site browser requests, which the MCP transport requires to
+ * prevent DNS rebinding. Requests without an Origin (non-browser clients)
+ * are allowed.
+ *
+ * @param {NextRequest} request - Next.js request object
+ * @returns {boolean} True if the request may proceed
+ */
+function isAllowedOrigin(request: NextRequest): boolean {
+  const origin = request.headers.get("origin");
+  if (!origin) {
+    return true;
+  }
+  try {
+    return new URL(origin).host === request.headers.get("host");
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether the client accepts a plain JSON response. Clients that only
+ * accept text/event-stream get the responses as SSE events.
+ *
+ * @param {NextRequest} request - Next.js request object
+ * @returns {boolean} True to answer with application/json
+ */
+function acceptsJSON(request: NextRequest): boolean {
+  const accept = request.headers.get("accept");
+  return !accept || accept.includes("application/json") || accept.includes("*/*");
+}
+
+/**
+ * Sends a JSON-RPC payload as JSON or as a single-use event stream.
+ *
+ * @param {NextRequest} request - Next.js request object
+ * @param {JSONRPCResponse | JSONRPCResponse[]} payload - Response or batch of responses
+ * @param {number} [status=200] - HTTP status
+ * @returns {Response} HTTP response
+ */
+function sendJSONRPC(
+  request: NextRequest,
+  payload: JSONRPCResponse | JSONRPCResponse[],
+  status = 200
+): Response {
+  if (acceptsJSON(request)) {
+    return NextResponse.json(payload, { status });
+  }
+
+  const events = (Array.isArray(payload) ? payload : [payload])
+    .map((response) => formatSSEEvent("message", response))
+    .join("");
+  return new Response(events, {
+    status,
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+    },
+  });
+}
+
+/**
+ * Handles JSON-RPC messages (single or batch) from MCP clients.
+ *
+ * @param {NextRequest} request - Next.js request object
+ * @param {unknown} body - Parsed request body
+ * @returns {Promise<Response>} JSON-RPC response(s), or 202 if only notifications were sent
+ */
+async function handleJSONRPCBody(request: NextRequest, body: unknown): Promise<Response> {
+  // 1. Check the negotiated protocol version sent after initialize
+  const protocolVersion = request.headers.get("mcp-protocol-version");
+  if (protocolVersion && !MCP_SUPPORTED_PROTOCOL_VERSIONS.includes(protocolVersion)) {
+    return sendJSONRPC(
+      request,
+      jsonRPCError(null, JSONRPC_ERROR_CODES.INVALID_REQUEST, `Unsupported protocol version: ${protocolVersion}`),
+      400
+    );
+  }
+
+  // 2. Authenticate
+  const context = await authenticateMCPRequest(request);
+  if (!context) {
+    return sendJSONRPC(
+      request,
+      jsonRPCError(null, JSONRPC_ERROR_CODES.UNAUTHORIZED, "Authentication required"),
+      401
+    );
+  }
+  const { profileId } = context;
+
+  // 3. Dispatch each message
+  const messages = Array.isArray(body) ? body : [body];
+  if (messages.length === 0) {
+    return sendJSONRPC(
+      request,
+      jsonRPCError(null, JSONRPC_ERROR_CODES.INVALID_REQUEST, "Empty batch"),
+      400
+    );
+  }
+
+  const responses: JSONRPCResponse[] = [];
+  for (const message of messages) {
+    const response = await handleJSONRPCMessage(message, context);
+    const method = (message as { method?: unknown } | null)?.method;
+    const params = (message as { params?: { name?: unknown; uri?: unknown } } | null)?.params;
+    if (response && "error" in response) {
+      logMCPRequest({ method: String(method), params }, profileId, "error", response.error.message);
+    } else if (typeof method === "string") {
+      logMCPRequest({ method, params }, profileId, "success");
+    }
+    if (response) {
+      responses.push(response);
+    }
+  }
+
+  // 4. Notifications only: accepted without a body
+  if (responses.length === 0) {
+    return new Response(null, { status: 202 });
+  }
+
+  return sendJSONRPC(request, Array.isArray(body) ? responses : responses[0]);
+}
+
 /**
  * POST /api/mcp
  * Handles MCP protocol requests for AI-powered data queries.
  * 
- * Request format:
+ * Requires `Authorization: Bearer <personal access token>` or a session token.
+ *
+ * JSON-RPC 2.0 request format (MCP clients):
+ * ```json
+ * { "jsonrpc": "2.0", "id": 1, "method": "tools/call",
+ *   "params": { "name": "tool_name", "arguments": {...} } }
+ * ```
+ *
+ * Legacy request format:
  * ```json
  * {
  *   "method": "tools/list" | "tools/call",
- *   "params": { "name": "tool_name", "arguments": {...} },
- *   "context": { "profileId": "user-id" }
+ *   "params": { "name": "tool_name", "arguments": {...} }
  * }
  * ```
  * 
  * Response format follows MCP specification:
- * - tools/list: Returns available tools
- * - tools/call: Returns tool execution result
+ * - JSON-RPC: a JSON-RPC response per request, errors use JSONRPC_ERROR_CODES
+ * - Legacy tools/list: Returns available tools
+ * - Legacy tools/call: Returns tool execution result
  * 
  * @param {NextRequest} request - Next.js request object
- * @returns {Promise<NextResponse>} MCP protocol response or error
+ * @returns {Promise<Response>} MCP protocol response or error
  */
 export async function POST(request: NextRequest) {
+  if (!isAllowedOrigin(request)) {
+    return NextResponse.json(
+      jsonRPCError(null, JSONRPC_ERROR_CODES.INVALID_REQUEST, "Origin not allowed"),
+      { status: 403 }
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return sendJSONRPC(
+      request,
+      jsonRPCError(null, JSONRPC_ERROR_CODES.PARSE_ERROR, "Parse error"),
+      400
+    );
+  }
+
+  const isJSONRPC =
+    Array.isArray(body) ||
+    (!!body && typeof body === "object" && "jsonrpc" in body);
+
+  return isJSONRPC ? handleJSONRPCBody(request, body) : handleLegacyRequest(request, body);
+}
+
+/**
+ * Handles the original `{ method, params, context }` request body.
+ *
+ * @param {NextRequest} request - Next.js request object
+ * @param {unknown} body - Parsed request body
+ * @returns {Promise<NextResponse>} MCP protocol response or error
+ */
+async function handleLegacyRequest(request: NextRequest, body: unknown) {
   let profileId: string | null = null;
   let mcpRequest: MCPRequest | null = null;
 
   try {
-    // Parse request body once
-    const body = await request.json();
-
-    // Extract and validate authentication
-    profileId = extractProfileId(body);
-    if (!profileId) {
+    // Authenticate with the access token
+    const context = await authenticateMCPRequest(request);
+    if (!context) {
       return NextResponse.json(
         { 
           error: "Authentication required",
@@ -153,19 +341,11 @@ export async function POST(request: NextRequest) {
         { status: 401 }
       );
     }
+    profileId = context.profileId;
 
-    // Validate user authentication
-    await validateAuthentication(profileId);
-
-    // Parse MCP request from the same body
+    // Parse MCP request
     mcpRequest = parseMCPRequest(body);
 
-    // Create execution context
-    const context: ToolExecutionContext = {
-      profileId,
-      sessionId: request.headers.get("x-session-id") || undefined,
-    };
-
     // Execute MCP request
     const result = await handleMCPRequest(mcpRequest, context);
 
@@ -204,6 +384,16 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (errorMessage.includes("access token lacks")) {
+      return NextResponse.json(
+        { 
+          error: errorMessage,
+          code: "FORBIDDEN" 
+        },
+        { status: 403 }
+      );
+    }
+
     if (errorMessage.includes("Unknown tool")) {
       return NextResponse.json(
         { 
@@ -229,15 +419,38 @@ export async function POST(request: NextRequest) {
 /**
  * GET /api/mcp
  * Returns API information and available methods.
- * Useful for debugging and API discovery.
+ * Useful for debugging and API discovery. MCP clients asking for a
+ * server-initiated event stream get 405, since this server doesn't offer one.
  */
-export async function GET() {
+export async function GET(request: NextRequest) {
+  if (request.headers.get("accept")?.includes("text/event-stream")) {
+    return new Response(null, { status: 405, headers: { Allow: "POST" } });
+  }
+
   return NextResponse.json({
     name: "Banb MCP Server",
-    version: "1.0.0",
+    version: MCP_SERVER_INFO.version,
     description: "Model Context Protocol server for Banb banking data queries",
-    methods: ["tools/list", "tools/call"],
+    protocolVersion: MCP_PROTOCOL_VERSION,
+    transport: "streamable-http",
+    methods: [
+      "initialize",
+      "ping",
+      "tools/list",
+      "tools/call",
+      "resources/list",
+      "resources/templates/list",
+      "resources/read",
+    ],
     authentication: "required",
     documentation: "https://github.com/your-org/banb#mcp-api",
   });
-}
\ No newline at end of file
+}
+
+/**
+ * DELETE /api/mcp
+ * Session termination. The server is stateless, so there is nothing to end.
+ */
+export async function DELETE() {
+  return new Response(null, { status: 405, headers: { Allow: "POST" } });
+}
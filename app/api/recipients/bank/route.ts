@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { requireSessionProfile } from "@/lib/server-auth";
+import {
+  normalizeBankDetails,
+  validateBankDetails,
+} from "@/lib/bank-validation";
+
+// Create a service role client for server-side operations
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY ||
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  }
+);
+
+export async function POST(request: NextRequest) {
+  try {
+    // 1. Get the recipient data from the request body
+    const { profile_id, name, bank_details } = await request.json();
+
+    // 2. Validate required fields
+    if (!profile_id || !name || !bank_details) {
+      return NextResponse.json(
+        { error: "Missing required fields: profile_id, name, bank_details" },
+        { status: 400 }
+      );
+    }
+
+    // 2b. Verify the caller is the profile owner
+    const session = await requireSessionProfile(request, profile_id);
+    if (!session.ok) {
+      return NextResponse.json({ error: session.message }, { status: session.status });
+    }
+
+    // 3. Validate the bank details for their country
+    const bankError = validateBankDetails(bank_details);
+    if (bankError) {
+      return NextResponse.json({ error: bankError }, { status: 400 });
+    }
+
+    // 4. Validate that the profile exists
+    const { data: profile, error: profileError } = await supabaseAdmin
+      .from("profiles")
+      .select("id")
+      .eq("id", profile_id)
+      .single();
+
+    if (profileError || !profile) {
+      return NextResponse.json(
+        { error: "Invalid profile - profile not found" },
+        { status: 400 }
+      );
+    }
+
+    // 5. Insert the recipient with normalized details
+    const { data, error } = await supabaseAdmin
+      .from("recipients")
+      .insert({
+        profile_id,
+        name: String(name).trim(),
+        recipient_type: "bank",
+        bank_details: normalizeBankDetails(bank_details),
+        status: "active",
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Database error details:", error);
+      return NextResponse.json(
+        {
+          error: "Failed to add bank recipient to database",
+          details: error.message,
+        },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, recipient: data });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
+import { requireSessionProfile } from "@/lib/server-auth";
 
 // Create a service role client for server-side operations
 const supabaseAdmin = createClient(
@@ -35,6 +36,12 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // 2b. Verify the caller is the profile owner
+    const session = await requireSessionProfile(request, profile_id);
+    if (!session.ok) {
+      return NextResponse.json({ error: session.message }, { status: session.status });
+    }
+
     // 3. Validate that the profile_id exists and is valid
     const { data: profile, error: profileError } = await supabaseAdmin
       .from("profiles")
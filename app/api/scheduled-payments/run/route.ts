@@ -0,0 +1,253 @@
+/**
+ * @fileoverview Scheduled payment runner.
+ * Finds active schedules whose next run is due and queues a pending transaction
+ * for each one. The payer confirms queued transactions with their wallet the
+ * next time they open the app. Intended to be called by a cron job.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import {
+  getNextRunDate,
+  isScheduleFinished,
+  type ScheduledPayment,
+} from "@/lib/scheduled-payments";
+import { isCronAuthorized } from "@/lib/cron-auth";
+
+// Create a service role client for server-side operations
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY ||
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  }
+);
+
+/**
+ * Maximum number of schedules processed per invocation.
+ */
+const BATCH_SIZE = 100;
+
+/**
+ * Outcome of processing a single schedule.
+ */
+interface ScheduleRunResult {
+  scheduleId: string;
+  status: "queued" | "completed" | "skipped" | "error";
+  transactionId?: string;
+  reason?: string;
+}
+
+/**
+ * Advances a due schedule and queues a pending transaction for the run.
+ * A schedule queues at most one payment per invocation: runs missed while
+ * the job was not running are skipped rather than stacked up.
+ */
+async function runSchedule(
+  schedule: ScheduledPayment,
+  now: Date
+): Promise<ScheduleRunResult> {
+  const dueAt = new Date(schedule.next_run_at!);
+
+  // Schedules can reach their end between runs (e.g. end_date edited)
+  if (isScheduleFinished(schedule, dueAt)) {
+    await supabaseAdmin
+      .from("scheduled_payments")
+      .update({
+        status: "completed",
+        next_run_at: null,
+        updated_at: now.toISOString(),
+      })
+      .eq("id", schedule.id);
+    return { scheduleId: schedule.id, status: "completed" };
+  }
+
+  // The recipient must still be active and belong to the payer
+  const { data: recipient, error: recipientError } = await supabaseAdmin
+    .from("recipients")
+    .select("id, status")
+    .eq("id", schedule.recipient_id)
+    .eq("profile_id", schedule.profile_id)
+    .single();
+
+  if (recipientError || !recipient || recipient.status !== "active") {
+    await supabaseAdmin
+      .from("scheduled_payments")
+      .update({ status: "paused", updated_at: now.toISOString() })
+      .eq("id", schedule.id);
+    return {
+      scheduleId: schedule.id,
+      status: "skipped",
+      reason: "Recipient no longer available, schedule paused",
+    };
+  }
+
+  // Claim the run by advancing the schedule first. The update only matches
+  // while the schedule is where this invocation found it, so overlapping
+  // invocations cannot queue the same run twice.
+  const runCount = schedule.run_count + 1;
+  let nextRun = getNextRunDate(dueAt, schedule);
+  while (nextRun.getTime() <= now.getTime()) {
+    nextRun = getNextRunDate(nextRun, schedule);
+  }
+  const finished = isScheduleFinished(
+    { ...schedule, run_count: runCount },
+    nextRun
+  );
+
+  const { data: claimed, error: claimError } = await supabaseAdmin
+    .from("scheduled_payments")
+    .update({
+      run_count: runCount,
+      last_run_at: dueAt.toISOString(),
+      next_run_at: finished ? null : nextRun.toISOString(),
+      status: finished ? "completed" : "active",
+      updated_at: now.toISOString(),
+    })
+    .eq("id", schedule.id)
+    .eq("status", "active")
+    .eq("next_run_at", schedule.next_run_at!)
+    .eq("run_count", schedule.run_count)
+    .select("id");
+
+  if (claimError) {
+    console.error("[ScheduledPayments] Failed to advance schedule:", claimError);
+    return {
+      scheduleId: schedule.id,
+      status: "error",
+      reason: claimError.message,
+    };
+  }
+
+  if (!claimed || claimed.length === 0) {
+    return {
+      scheduleId: schedule.id,
+      status: "skipped",
+      reason: "Run already claimed by another invocation",
+    };
+  }
+
+  const { data: transaction, error: txError } = await supabaseAdmin
+    .from("transactions")
+    .insert({
+      sender_profile_id: schedule.profile_id,
+      recipient_id: schedule.recipient_id,
+      chain: schedule.chain,
+      amount: schedule.amount,
+      token: schedule.token,
+      status: "pending",
+      scheduled_payment_id: schedule.id,
+    })
+    .select("id")
+    .single();
+
+  if (txError || !transaction) {
+    console.error("[ScheduledPayments] Failed to queue transaction:", txError);
+
+    // Release the claim so the next invocation retries this run
+    await supabaseAdmin
+      .from("scheduled_payments")
+      .update({
+        run_count: schedule.run_count,
+        last_run_at: schedule.last_run_at,
+        next_run_at: schedule.next_run_at,
+        status: "active",
+        updated_at: now.toISOString(),
+      })
+      .eq("id", schedule.id)
+      .eq("run_count", runCount);
+
+    return {
+      scheduleId: schedule.id,
+      status: "error",
+      reason: txError?.message || "Failed to create transaction",
+    };
+  }
+
+  return {
+    scheduleId: schedule.id,
+    status: "queued",
+    transactionId: transaction.id,
+  };
+}
+
+/**
+ * Processes every due schedule.
+ */
+async function runDueSchedules() {
+  const now = new Date();
+
+  const { data: schedules, error } = await supabaseAdmin
+    .from("scheduled_payments")
+    .select("*")
+    .eq("status", "active")
+    .lte("next_run_at", now.toISOString())
+    .order("next_run_at", { ascending: true })
+    .limit(BATCH_SIZE);
+
+  if (error) {
+    console.error("[ScheduledPayments] Failed to load due schedules:", error);
+    return NextResponse.json(
+      { error: "Failed to load due schedules", details: error.message },
+      { status: 500 }
+    );
+  }
+
+  const results: ScheduleRunResult[] = [];
+  for (const schedule of (schedules || []) as ScheduledPayment[]) {
+    try {
+      results.push(await runSchedule(schedule, now));
+    } catch (err) {
+      results.push({
+        scheduleId: schedule.id,
+        status: "error",
+        reason: err instanceof Error ? err.message : "Unknown error",
+      });
+    }
+  }
+
+  const queued = results.filter((r) => r.status === "queued").length;
+  console.log(
+    `[ScheduledPayments] Processed ${results.length} schedule(s), queued ${queued} transaction(s)`
+  );
+
+  return NextResponse.json({
+    success: true,
+    processed: results.length,
+    queued,
+    results,
+    ranAt: now.toISOString(),
+  });
+}
+
+/**
+ * GET /api/scheduled-payments/run
+ * Entry point for cron schedulers (e.g. Vercel Cron sends GET requests).
+ */
+export async function GET(request: NextRequest) {
+  if (!isCronAuthorized(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    return await runDueSchedules();
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/scheduled-payments/run
+ * Same as GET, for schedulers that only send POST requests.
+ */
+export async function POST(request: NextRequest) {
+  return GET(request);
+}
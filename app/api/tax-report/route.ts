@@ -0,0 +1,233 @@
+/**
+ * @fileoverview Crypto tax report of a profile.
+ * Values yield income and realized gains for one tax year from investment
+ * movements and transfers (see lib/tax-report.ts). The whole history up to
+ * the end of the year is walked, since lots acquired in earlier years carry
+ * their cost basis forward. Included in the Pro and Ambassador plans.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { getProfilePlan } from "@/lib/ai-usage-store";
+import { requireSessionProfile } from "@/lib/server-auth";
+import { fetchDailyExchangeRates, type DailyExchangeRates } from "@/lib/currency";
+import { getTokenPriceSource } from "@/lib/token-prices";
+import {
+  buildTaxReport,
+  formatTaxReportCsv,
+  getTaxYearSummary,
+  isCostBasisMethod,
+  isStableToken,
+  toTaxEvents,
+  type DailyTokenPrices,
+  type TaxReportSummary,
+} from "@/lib/tax-report";
+
+// Create a service role client for server-side operations
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY ||
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  }
+);
+
+const PAGE_SIZE = 1000;
+
+/**
+ * Reads every page of a query; PostgREST caps a response at 1000 rows.
+ */
+async function fetchAllRows<T>(
+  query: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await query(from, from + PAGE_SIZE - 1);
+    if (error) {
+      throw new Error(error.message);
+    }
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) {
+      return rows;
+    }
+  }
+}
+
+/**
+ * GET /api/tax-report?profile_id=...&year=2025&method=fifo&format=json
+ * Returns the summary of the year as JSON, or its line items with
+ * format=csv. method is "fifo" (default) or "average".
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const requestedProfileId = searchParams.get("profile_id");
+    const currentYear = new Date().getUTCFullYear();
+    const year = Number(searchParams.get("year") || currentYear);
+    const method = searchParams.get("method") || "fifo";
+    const format = searchParams.get("format") || "json";
+
+    // 1. Validate parameters
+    if (!requestedProfileId) {
+      return NextResponse.json(
+        { error: "Missing required parameter: profile_id" },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(year) || year < 2000 || year > currentYear) {
+      return NextResponse.json(
+        { error: `year must be between 2000 and ${currentYear}` },
+        { status: 400 }
+      );
+    }
+
+    if (!isCostBasisMethod(method)) {
+      return NextResponse.json(
+        { error: "method must be fifo or average" },
+        { status: 400 }
+      );
+    }
+
+    if (format !== "json" && format !== "csv") {
+      return NextResponse.json(
+        { error: "format must be json or csv" },
+        { status: 400 }
+      );
+    }
+
+    // 2. Verify the caller is the profile owner
+    const session = await requireSessionProfile(request, requestedProfileId);
+    if (!session.ok) {
+      return NextResponse.json({ error: session.message }, { status: session.status });
+    }
+    const profileId = session.profile.id;
+
+    // 3. Tax reports are a paid feature
+    const plan = await getProfilePlan(profileId);
+    if (plan === "free") {
+      return NextResponse.json(
+        { error: "Tax reports are included in the Pro plan", plan },
+        { status: 403 }
+      );
+    }
+
+    // 4. Load settled history up to the end of the year
+    const yearEnd = new Date(Date.UTC(year + 1, 0, 1)).toISOString();
+
+    const { data: linkedRecipients } = await supabaseAdmin
+      .from("recipients")
+      .select("id")
+      .eq("profile_id_link", profileId);
+    const incomingIds = linkedRecipients?.map((r) => r.id) || [];
+    const involvement = incomingIds.length > 0
+      ? `sender_profile_id.eq.${profileId},recipient_id.in.(${incomingIds.join(",")})`
+      : `sender_profile_id.eq.${profileId}`;
+
+    const { data: accounts } = await supabaseAdmin
+      .from("accounts")
+      .select("id")
+      .eq("profile_id", profileId);
+    const accountIds = accounts?.map((a) => a.id) || [];
+
+    const [movements, transactions, accountTransactions] = await Promise.all([
+      fetchAllRows((from, to) =>
+        supabaseAdmin
+          .from("investment_movements")
+          .select("*")
+          .eq("profile_id", profileId)
+          .eq("status", "confirmed")
+          .lt("created_at", yearEnd)
+          .order("created_at", { ascending: true })
+          .range(from, to)
+      ),
+      fetchAllRows((from, to) =>
+        supabaseAdmin
+          .from("transactions")
+          .select("*")
+          .or(involvement)
+          .eq("status", "success")
+          .lt("created_at", yearEnd)
+          .order("created_at", { ascending: true })
+          .range(from, to)
+      ),
+      accountIds.length === 0
+        ? Promise.resolve([])
+        : fetchAllRows((from, to) =>
+            supabaseAdmin
+              .from("account_transactions")
+              .select("*")
+              .in("account_id", accountIds)
+              .eq("status", "confirmed")
+              .lt("created_at", yearEnd)
+              .order("created_at", { ascending: true })
+              .range(from, to)
+          ),
+    ]);
+
+    const events = toTaxEvents({ profileId, movements, transactions, accountTransactions });
+
+    // 5. Load the rates and prices of the days with activity
+    const warnings: string[] = [];
+    let rates: DailyExchangeRates = {};
+    const prices: DailyTokenPrices = {};
+
+    if (events.length > 0) {
+      const firstDay = events[0].date.slice(0, 10);
+      const lastDay = events[events.length - 1].date.slice(0, 10);
+
+      try {
+        rates = await fetchDailyExchangeRates(firstDay, lastDay);
+      } catch (error) {
+        console.error("[tax-report] Exchange rates unavailable:", error);
+        warnings.push("EUR values use a fixed exchange rate because reference rates could not be loaded");
+      }
+
+      const priceSource = getTokenPriceSource();
+      const volatileTokens = [...new Set(events.map((e) => e.token))].filter(
+        (token) => !isStableToken(token)
+      );
+      for (const token of volatileTokens) {
+        const days = events.filter((e) => e.token === token).map((e) => e.date.slice(0, 10));
+        try {
+          prices[token] = await priceSource.fetchDailyPrices(token, days[0], days[days.length - 1]);
+        } catch (error) {
+          console.error(`[tax-report] ${token} prices unavailable:`, error);
+        }
+      }
+    }
+
+    // 6. Build the report
+    const report = buildTaxReport(events, { method, rates, prices });
+
+    if (format === "csv") {
+      return new NextResponse(formatTaxReportCsv(report, year), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="tax-report-${year}-${method}.csv"`,
+          "Cache-Control": "no-store",
+        },
+      });
+    }
+
+    const summary: TaxReportSummary = {
+      year,
+      method,
+      summary: getTaxYearSummary(report, year),
+      years: report.years.map((y) => y.year),
+      warnings: [...warnings, ...report.warnings],
+    };
+
+    return NextResponse.json({ success: true, report: summary });
+  } catch (error) {
+    console.error("[tax-report] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to generate tax report" },
+      { status: 500 }
+    );
+  }
+}
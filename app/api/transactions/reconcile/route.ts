@@ -0,0 +1,298 @@
+/**
+ * @fileoverview Transaction reconciliation worker.
+ * Finds payments left "pending" or "sent" for longer than
+ * STALE_TRANSACTION_MINUTES, fetches their receipts by tx_hash and marks them
+ * success or failed, leaving transfers that differ from the record for
+ * review (see lib/reconciliation.ts). Held transactions get
+ * reconciliation_held_at and are skipped until an admin clears it. Every
+ * checked row gets reconciled_at, so rows left unresolved go to the back of
+ * the next batch. Payment requests paid by a settled transaction are marked
+ * paid. The run is stored as a
+ * reconciliation report for the admin view. Intended to be called by a cron
+ * job. Each network's RPC can be set with <NETWORK>_RPC_URL (e.g. BASE_RPC_URL).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import {
+  createPublicClient,
+  getAddress,
+  http,
+  TransactionNotFoundError,
+  TransactionReceiptNotFoundError,
+  type PublicClient,
+} from "viem";
+import { requireChain } from "@/lib/chains";
+import { TRANSFER_EVENT_TOPIC } from "@/lib/transfer-indexer";
+import {
+  STALE_TRANSACTION_MINUTES,
+  reconcileTransaction,
+  summarizeReconciliation,
+  type OnchainTransfer,
+  type ReceiptSummary,
+} from "@/lib/reconciliation";
+import type { ReconciliationItem, Transaction } from "@/lib/supabase";
+import { isCronAuthorized } from "@/lib/cron-auth";
+
+// Create a service role client for server-side operations
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY ||
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  }
+);
+
+/**
+ * Maximum number of transactions processed per invocation.
+ */
+const BATCH_SIZE = 100;
+
+type StaleTransaction = Transaction & {
+  recipient: { external_address: string | null; profile_id_link: string | null } | null;
+};
+
+const publicClients = new Map<string, PublicClient>();
+
+function getPublicClient(chain: string): PublicClient {
+  const network = requireChain(chain);
+  let client = publicClients.get(network.name);
+  if (!client) {
+    client = createPublicClient({
+      chain: network.chain,
+      transport: http(process.env[`${network.name.toUpperCase()}_RPC_URL`] || undefined),
+    }) as PublicClient;
+    publicClients.set(network.name, client);
+  }
+  return client;
+}
+
+/**
+ * Fetches a receipt and decodes its transfers. Returns null while the
+ * transaction is not mined (or was dropped).
+ */
+async function fetchReceipt(chain: string, txHash: `0x${string}`): Promise<ReceiptSummary | null> {
+  const client = getPublicClient(chain);
+
+  try {
+    const receipt = await client.getTransactionReceipt({ hash: txHash });
+
+    const transfers: OnchainTransfer[] = receipt.logs
+      .filter(
+        (log) =>
+          log.topics.length >= 3 &&
+          log.topics[0]?.toLowerCase() === TRANSFER_EVENT_TOPIC
+      )
+      .map((log) => ({
+        token_address: log.address,
+        from: getAddress(`0x${log.topics[1]!.slice(26)}`),
+        to: getAddress(`0x${log.topics[2]!.slice(26)}`),
+        value: log.data && log.data !== "0x" ? BigInt(log.data) : BigInt(0),
+      }));
+
+    // Native payments carry the amount as the transaction's value
+    const transaction = await client.getTransaction({ hash: txHash });
+    if (transaction.value > BigInt(0) && transaction.to) {
+      transfers.push({
+        token_address: null,
+        from: transaction.from,
+        to: transaction.to,
+        value: transaction.value,
+      });
+    }
+
+    return {
+      status: receipt.status,
+      block_number: Number(receipt.blockNumber),
+      transfers,
+    };
+  } catch (error) {
+    if (
+      error instanceof TransactionReceiptNotFoundError ||
+      error instanceof TransactionNotFoundError
+    ) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Addresses each profile can pay from or be paid at: its wallet and accounts.
+ */
+async function loadProfileAddresses(profileIds: string[]): Promise<Map<string, string[]>> {
+  const addresses = new Map<string, string[]>();
+  if (profileIds.length === 0) {
+    return addresses;
+  }
+
+  const [{ data: profiles }, { data: accounts }] = await Promise.all([
+    supabaseAdmin.from("profiles").select("id, wallet_address").in("id", profileIds),
+    supabaseAdmin.from("accounts").select("profile_id, address").in("profile_id", profileIds),
+  ]);
+
+  for (const profile of profiles || []) {
+    if (profile.wallet_address) {
+      addresses.set(profile.id, [profile.wallet_address]);
+    }
+  }
+  for (const account of accounts || []) {
+    addresses.set(account.profile_id, [...(addresses.get(account.profile_id) || []), account.address]);
+  }
+  return addresses;
+}
+
+/**
+ * Reconciles every stale transaction and stores the report.
+ */
+async function reconcileTransactions() {
+  const now = new Date();
+  const staleBefore = new Date(now.getTime() - STALE_TRANSACTION_MINUTES * 60 * 1000);
+
+  // 1. Stale payments that were broadcast (queued payments have no tx_hash
+  // yet), least recently checked first, skipping those held for review
+  const { data, error } = await supabaseAdmin
+    .from("transactions")
+    .select("*, recipient:recipients(external_address, profile_id_link)")
+    .in("status", ["pending", "sent"])
+    .not("tx_hash", "is", null)
+    .is("reconciliation_held_at", null)
+    .lt("created_at", staleBefore.toISOString())
+    .order("reconciled_at", { ascending: true, nullsFirst: true })
+    .order("created_at", { ascending: true })
+    .limit(BATCH_SIZE);
+
+  if (error) {
+    console.error("[Reconciliation] Failed to load transactions:", error);
+    return NextResponse.json(
+      { error: "Failed to load transactions", details: error.message },
+      { status: 500 }
+    );
+  }
+
+  const transactions = (data || []) as StaleTransaction[];
+  const profileAddresses = await loadProfileAddresses([
+    ...new Set(
+      transactions
+        .flatMap((transaction) => [transaction.sender_profile_id, transaction.recipient?.profile_id_link])
+        .filter((id): id is string => !!id)
+    ),
+  ]);
+
+  // 2. Look up each receipt and settle the status
+  const items: ReconciliationItem[] = [];
+  for (const transaction of transactions) {
+    const recipientAddresses = [
+      ...(transaction.recipient?.external_address ? [transaction.recipient.external_address] : []),
+      ...(profileAddresses.get(transaction.recipient?.profile_id_link || "") || []),
+    ];
+    const senderAddresses = profileAddresses.get(transaction.sender_profile_id) || [];
+
+    let item: ReconciliationItem;
+    try {
+      const receipt = await fetchReceipt(transaction.chain, transaction.tx_hash as `0x${string}`);
+      item = reconcileTransaction(transaction, receipt, recipientAddresses, senderAddresses, now);
+    } catch (err) {
+      item = {
+        ...reconcileTransaction(transaction, null, [], [], now),
+        status: transaction.status === "pending" ? "pending" : "sent",
+        outcome: "error",
+        error: err instanceof Error ? err.message : "Unknown error",
+      };
+    }
+
+    // Only update rows the client has not settled in the meantime
+    const checkedAt = new Date().toISOString();
+    const { error: updateError } = await supabaseAdmin
+      .from("transactions")
+      .update({
+        status: item.status,
+        reconciled_at: checkedAt,
+        ...(item.outcome === "mismatch" ? { reconciliation_held_at: checkedAt } : {}),
+      })
+      .eq("id", transaction.id)
+      .eq("status", item.previous_status);
+    if (updateError) {
+      item = {
+        ...item,
+        status: item.previous_status,
+        outcome: "error",
+        error: `Failed to update status: ${updateError.message}`,
+      };
+    }
+
+    // Settled payments of a request mark the request paid
+    if (item.status === "success" && transaction.payment_request_id) {
+      const settledAt = new Date().toISOString();
+      const { error: requestError } = await supabaseAdmin
+        .from("payment_requests")
+        .update({
+          status: "paid",
+          transaction_id: transaction.id,
+          paid_at: settledAt,
+          updated_at: settledAt,
+        })
+        .eq("id", transaction.payment_request_id)
+        .eq("status", "requested");
+      if (requestError) {
+        console.error("[Reconciliation] Failed to mark payment request paid:", requestError);
+      }
+    }
+
+    items.push(item);
+  }
+
+  // 3. Store the report
+  const report = summarizeReconciliation(items, now);
+  const { data: stored, error: reportError } = await supabaseAdmin
+    .from("reconciliation_reports")
+    .insert(report)
+    .select("id")
+    .single();
+
+  if (reportError) {
+    console.error("[Reconciliation] Failed to store report:", reportError);
+  }
+
+  console.log(
+    `[Reconciliation] Checked ${report.checked} transaction(s): ${report.succeeded} success, ${report.failed} failed, ${report.unresolved} unresolved, ${report.mismatches} mismatch(es)`
+  );
+
+  return NextResponse.json({
+    success: true,
+    report: { id: stored?.id || null, ...report },
+    ranAt: now.toISOString(),
+  });
+}
+
+/**
+ * GET /api/transactions/reconcile
+ * Entry point for cron schedulers (e.g. Vercel Cron sends GET requests).
+ */
+export async function GET(request: NextRequest) {
+  if (!isCronAuthorized(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    return await reconcileTransactions();
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/transactions/reconcile
+ * Same as GET, for schedulers that only send POST requests.
+ */
+export async function POST(request: NextRequest) {
+  return GET(request);
+}
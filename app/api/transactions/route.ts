@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
+import { parseUnits } from "viem";
+import { requireSessionProfile } from "@/lib/server-auth";
 
 // Create a service role client for server-side operations
 const supabaseAdmin = createClient(
@@ -14,6 +16,15 @@ const supabaseAdmin = createClient(
   }
 );
 
+// Amounts are numeric(20,8), so compare them as fixed-point values
+function isSameAmount(a: string | number, b: string | number): boolean {
+  try {
+    return parseUnits(String(a), 8) === parseUnits(String(b), 8);
+  } catch {
+    return false;
+  }
+}
+
 export async function POST(request: NextRequest) {
   try {
     // 0. Check if service role key is available
@@ -24,8 +35,14 @@ export async function POST(request: NextRequest) {
     }
 
     // 1. Get the transaction data from the request body
-    const { sender_profile_id, recipient_id, chain, amount, token } =
-      await request.json();
+    const {
+      sender_profile_id,
+      recipient_id,
+      chain,
+      amount,
+      token,
+      payment_request_id,
+    } = await request.json();
 
     // 2. Validate required fields
     if (!sender_profile_id || !recipient_id || !chain || !amount || !token) {
@@ -38,6 +55,12 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // 2b. Verify the caller is the sender
+    const session = await requireSessionProfile(request, sender_profile_id);
+    if (!session.ok) {
+      return NextResponse.json({ error: session.message }, { status: session.status });
+    }
+
     // 3. Validate that the sender profile exists
     const { data: senderProfile, error: senderError } = await supabaseAdmin
       .from("profiles")
@@ -55,7 +78,7 @@ export async function POST(request: NextRequest) {
     // 4. Validate that the recipient exists and belongs to the sender
     const { data: recipient, error: recipientError } = await supabaseAdmin
       .from("recipients")
-      .select("id, name, profile_id")
+      .select("id, name, profile_id, profile_id_link")
       .eq("id", recipient_id)
       .eq("profile_id", sender_profile_id) // Ensure recipient belongs to sender
       .single();
@@ -70,6 +93,44 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // 4b. When paying a request, it must be addressed to the sender, still
+    // open, and paid in full to the requester
+    if (payment_request_id) {
+      const { data: paymentRequest, error: requestError } = await supabaseAdmin
+        .from("payment_requests")
+        .select("id, requester_profile_id, amount, token, chain, status, expires_at")
+        .eq("id", payment_request_id)
+        .eq("payer_profile_id", sender_profile_id)
+        .single();
+
+      if (
+        requestError ||
+        !paymentRequest ||
+        paymentRequest.status !== "requested" ||
+        new Date(paymentRequest.expires_at).getTime() <= Date.now()
+      ) {
+        return NextResponse.json(
+          { error: "Invalid payment request - not found or no longer open" },
+          { status: 400 }
+        );
+      }
+
+      if (
+        !isSameAmount(amount, paymentRequest.amount) ||
+        token !== paymentRequest.token ||
+        chain !== paymentRequest.chain ||
+        recipient.profile_id_link !== paymentRequest.requester_profile_id
+      ) {
+        return NextResponse.json(
+          {
+            error:
+              "Invalid payment request - amount, token, chain and recipient must match the request",
+          },
+          { status: 400 }
+        );
+      }
+    }
+
     // 5. Create the transaction (no RLS needed since it's server-side)
 
     const { data, error } = await supabaseAdmin
@@ -81,6 +142,7 @@ export async function POST(request: NextRequest) {
         amount: amount,
         token: token,
         status: "pending",
+        payment_request_id: payment_request_id || null,
       })
       .select()
       .single();
@@ -0,0 +1,29 @@
+/**
+ * @fileoverview Single vault from the vault catalog.
+ * GET returns the vault's static information and current metrics.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getVaultCatalog } from "@/lib/vault-catalog";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ address: string }> }
+) {
+  try {
+    const { address } = await params;
+    const vault = await getVaultCatalog().getVault(address);
+
+    if (!vault) {
+      return NextResponse.json({ error: "Vault not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, vault });
+  } catch (error) {
+    console.error("[vaults/:address] API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
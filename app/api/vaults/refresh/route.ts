@@ -0,0 +1,51 @@
+/**
+ * @fileoverview Vault catalog refresh job.
+ * Refetches vault metrics from the configured source so users are not served
+ * stale APYs between cache expiries. Intended to be called by a cron job.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getVaultCatalog } from "@/lib/vault-catalog";
+import { isCronAuthorized } from "@/lib/cron-auth";
+
+/**
+ * GET /api/vaults/refresh
+ * Entry point for cron schedulers (e.g. Vercel Cron sends GET requests).
+ */
+export async function GET(request: NextRequest) {
+  if (!isCronAuthorized(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const vaults = await getVaultCatalog().refresh();
+    const updated = vaults.filter((vault) => vault.metricsUpdatedAt).length;
+    console.log(
+      `[VaultCatalog] Refreshed ${updated} of ${vaults.length} vault(s)`
+    );
+
+    return NextResponse.json({
+      success: true,
+      vaults: vaults.map((vault) => ({
+        vault_address: vault.vault_address,
+        apy: vault.apy,
+        metricsUpdatedAt: vault.metricsUpdatedAt,
+      })),
+      ranAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/vaults/refresh
+ * Same as GET, for schedulers that only send POST requests.
+ */
+export async function POST(request: NextRequest) {
+  return GET(request);
+}
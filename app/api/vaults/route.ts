@@ -0,0 +1,20 @@
+/**
+ * @fileoverview Vault catalog.
+ * GET lists every vault offered to users with its current metrics.
+ */
+
+import { NextResponse } from "next/server";
+import { getVaultCatalog } from "@/lib/vault-catalog";
+
+export async function GET() {
+  try {
+    const vaults = await getVaultCatalog().getVaults();
+    return NextResponse.json({ success: true, vaults });
+  } catch (error) {
+    console.error("[vaults] API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * @fileoverview Single IBAN withdrawal.
+ * GET returns the withdrawal after syncing it with the off-ramp provider:
+ * unsubmitted quotes past their expiry become "expired", and submitted
+ * payouts pick up the provider's processing/settled/returned state.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { requireSessionProfile } from "@/lib/server-auth";
+import { getOfframpProvider } from "@/lib/offramp";
+import type { Withdrawal } from "@/lib/supabase";
+
+// Create a service role client for server-side operations
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY ||
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  }
+);
+
+/**
+ * Brings a withdrawal up to date with its quote expiry and the provider's payout state.
+ * Returns the withdrawal unchanged when nothing moved.
+ */
+async function syncWithdrawal(withdrawal: Withdrawal): Promise<Withdrawal> {
+  let updates: Partial<Withdrawal> | null = null;
+
+  if (
+    withdrawal.status === "quoted" &&
+    new Date(withdrawal.quote_expires_at).getTime() <= Date.now()
+  ) {
+    updates = { status: "expired" };
+  } else if (
+    (withdrawal.status === "submitted" || withdrawal.status === "processing") &&
+    withdrawal.provider_reference
+  ) {
+    const payout = await getOfframpProvider().getPayout(
+      withdrawal.provider_reference
+    );
+    if (payout.status !== withdrawal.status) {
+      updates = {
+        status: payout.status,
+        failure_reason: payout.failureReason ?? null,
+        settled_at: payout.settledAt ?? null,
+      };
+    }
+  }
+
+  if (!updates) {
+    return withdrawal;
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from("withdrawals")
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq("id", withdrawal.id)
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to update withdrawal: ${error?.message}`);
+  }
+
+  return data;
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const profileId = request.nextUrl.searchParams.get("profile_id");
+    if (!profileId) {
+      return NextResponse.json(
+        { error: "Missing required parameter: profile_id" },
+        { status: 400 }
+      );
+    }
+
+    const session = await requireSessionProfile(request, profileId);
+    if (!session.ok) {
+      return NextResponse.json({ error: session.message }, { status: session.status });
+    }
+
+    const { data: withdrawal, error } = await supabaseAdmin
+      .from("withdrawals")
+      .select("*")
+      .eq("id", id)
+      .eq("profile_id", session.profile.id)
+      .single();
+
+    if (error || !withdrawal) {
+      return NextResponse.json(
+        { error: "Withdrawal not found" },
+        { status: 404 }
+      );
+    }
+
+    const synced = await syncWithdrawal(withdrawal);
+    return NextResponse.json({ success: true, withdrawal: synced });
+  } catch (error) {
+    console.error("[withdrawals/:id] API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * @fileoverview Submits a quoted IBAN withdrawal.
+ * Called after the user's transfer to the provider deposit address is sent:
+ * records the transaction hash and asks the provider to start the payout.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { requireSessionProfile } from "@/lib/server-auth";
+import { getOfframpProvider } from "@/lib/offramp";
+
+// Create a service role client for server-side operations
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY ||
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  }
+);
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { profile_id, tx_hash } = await request.json();
+
+    // 1. Validate required fields
+    if (!profile_id || !tx_hash) {
+      return NextResponse.json(
+        { error: "Missing required fields: profile_id, tx_hash" },
+        { status: 400 }
+      );
+    }
+
+    if (!/^0x[a-fA-F0-9]{64}$/.test(tx_hash)) {
+      return NextResponse.json(
+        { error: "Invalid transaction hash" },
+        { status: 400 }
+      );
+    }
+
+    // 1b. Verify the caller is the profile owner
+    const session = await requireSessionProfile(request, profile_id);
+    if (!session.ok) {
+      return NextResponse.json({ error: session.message }, { status: session.status });
+    }
+
+    // 2. Load the withdrawal, which must belong to the caller and still be quoted
+    const { data: withdrawal, error: fetchError } = await supabaseAdmin
+      .from("withdrawals")
+      .select("*")
+      .eq("id", id)
+      .eq("profile_id", profile_id)
+      .single();
+
+    if (fetchError || !withdrawal) {
+      return NextResponse.json(
+        { error: "Withdrawal not found" },
+        { status: 404 }
+      );
+    }
+
+    if (withdrawal.status !== "quoted") {
+      return NextResponse.json(
+        { error: `Withdrawal is already ${withdrawal.status}` },
+        { status: 409 }
+      );
+    }
+
+    // 3. Start the payout at the provider
+    let payout;
+    try {
+      payout = await getOfframpProvider().submitPayout(
+        withdrawal.provider_quote_id,
+        tx_hash
+      );
+    } catch (submitError) {
+      // The funds are already on their way, so keep the hash for support follow-up
+      await supabaseAdmin
+        .from("withdrawals")
+        .update({
+          status: "failed",
+          tx_hash,
+          failure_reason:
+            submitError instanceof Error
+              ? submitError.message
+              : "Provider rejected the withdrawal",
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", id);
+
+      return NextResponse.json(
+        {
+          error:
+            submitError instanceof Error
+              ? submitError.message
+              : "Provider rejected the withdrawal",
+        },
+        { status: 422 }
+      );
+    }
+
+    // 4. Record the submission
+    const { data, error } = await supabaseAdmin
+      .from("withdrawals")
+      .update({
+        status: "submitted",
+        tx_hash,
+        provider_reference: payout.reference,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error("[withdrawals/:id/submit] Failed to update:", error);
+      return NextResponse.json(
+        { error: "Failed to update withdrawal", details: error.message },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, withdrawal: data });
+  } catch (error) {
+    console.error("[withdrawals/:id/submit] API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
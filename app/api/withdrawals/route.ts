@@ -0,0 +1,199 @@
+/**
+ * @fileoverview IBAN withdrawal quotes and history.
+ * POST requests a quote from the off-ramp provider and stores it as a
+ * "quoted" withdrawal; GET lists a profile's withdrawals.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { requireSessionProfile } from "@/lib/server-auth";
+import { getOfframpProvider } from "@/lib/offramp";
+import { DEFAULT_CHAIN } from "@/lib/chains";
+import { isTokenSupported } from "@/lib/tokens";
+import { normalizeIban, validateIban } from "@/lib/bank-validation";
+
+// Create a service role client for server-side operations
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY ||
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  }
+);
+
+/**
+ * Tokens the off-ramp accepts. Payouts are quoted from USDC only.
+ */
+const WITHDRAWAL_TOKEN = "USDC";
+
+export async function POST(request: NextRequest) {
+  try {
+    const {
+      profile_id,
+      amount,
+      iban,
+      account_holder,
+      bank_name,
+      fiat_currency = "EUR",
+      chain = DEFAULT_CHAIN,
+    } = await request.json();
+
+    // 1. Validate required fields
+    if (!profile_id || !amount || !iban || !account_holder) {
+      return NextResponse.json(
+        {
+          error:
+            "Missing required fields: profile_id, amount, iban, account_holder",
+        },
+        { status: 400 }
+      );
+    }
+
+    const numericAmount = parseFloat(amount);
+    if (isNaN(numericAmount) || numericAmount <= 0) {
+      return NextResponse.json(
+        { error: "Amount must be greater than zero" },
+        { status: 400 }
+      );
+    }
+
+    if (!isTokenSupported(WITHDRAWAL_TOKEN, chain)) {
+      return NextResponse.json(
+        { error: `Withdrawals are not available on ${chain}` },
+        { status: 400 }
+      );
+    }
+
+    const ibanError = validateIban(String(iban));
+    if (ibanError) {
+      return NextResponse.json({ error: ibanError }, { status: 400 });
+    }
+    const normalizedIban = normalizeIban(String(iban));
+
+    // 1b. Verify the caller is the profile owner
+    const session = await requireSessionProfile(request, profile_id);
+    if (!session.ok) {
+      return NextResponse.json({ error: session.message }, { status: session.status });
+    }
+
+    // 2. Validate that the profile exists
+    const { data: profile, error: profileError } = await supabaseAdmin
+      .from("profiles")
+      .select("id")
+      .eq("id", profile_id)
+      .single();
+
+    if (profileError || !profile) {
+      return NextResponse.json(
+        { error: "Invalid profile - profile not found" },
+        { status: 400 }
+      );
+    }
+
+    // 3. Request a quote from the provider
+    const provider = getOfframpProvider();
+    let quote;
+    try {
+      quote = await provider.createQuote({
+        amount: numericAmount.toFixed(2),
+        token: WITHDRAWAL_TOKEN,
+        chain,
+        fiatCurrency: fiat_currency,
+        iban: normalizedIban,
+        accountHolder: String(account_holder).trim(),
+      });
+    } catch (quoteError) {
+      return NextResponse.json(
+        {
+          error:
+            quoteError instanceof Error
+              ? quoteError.message
+              : "Could not get a quote",
+        },
+        { status: 422 }
+      );
+    }
+
+    // 4. Store the quoted withdrawal
+    const { data, error } = await supabaseAdmin
+      .from("withdrawals")
+      .insert({
+        profile_id,
+        amount: numericAmount.toFixed(2),
+        token: WITHDRAWAL_TOKEN,
+        chain,
+        fiat_currency,
+        fiat_amount: quote.fiatAmount.toFixed(2),
+        fx_rate: quote.fxRate.toString(),
+        fee: quote.fee.toFixed(2),
+        iban: normalizedIban,
+        account_holder: String(account_holder).trim(),
+        bank_name: bank_name || null,
+        provider: provider.name,
+        provider_quote_id: quote.quoteId,
+        deposit_address: quote.depositAddress,
+        status: "quoted",
+        quote_expires_at: quote.expiresAt,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error("[withdrawals] Failed to store quote:", error);
+      return NextResponse.json(
+        { error: "Failed to create withdrawal", details: error.message },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, withdrawal: data });
+  } catch (error) {
+    console.error("[withdrawals] API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const profileId = request.nextUrl.searchParams.get("profile_id");
+    if (!profileId) {
+      return NextResponse.json(
+        { error: "Missing required parameter: profile_id" },
+        { status: 400 }
+      );
+    }
+
+    const session = await requireSessionProfile(request, profileId);
+    if (!session.ok) {
+      return NextResponse.json({ error: session.message }, { status: session.status });
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from("withdrawals")
+      .select("*")
+      .eq("profile_id", session.profile.id)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      return NextResponse.json(
+        { error: "Failed to fetch withdrawals", details: error.message },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, withdrawals: data || [] });
+  } catch (error) {
+    console.error("[withdrawals] API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
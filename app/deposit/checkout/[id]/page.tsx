@@ -0,0 +1,128 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { Loader2, ShieldCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useUser } from "@/lib/user-context";
+import {
+  completeMockDepositPayment,
+  getDeposit,
+  type DepositOrder,
+} from "@/lib/deposits";
+
+/**
+ * Checkout widget of the mock on-ramp provider.
+ * Stands in for the hosted page where a real provider collects the Google Pay
+ * or Apple Pay payment: paying or declining sends the provider webhook, then
+ * the user lands on the deposit status screen.
+ */
+export default function MockDepositCheckoutPage() {
+  const router = useRouter();
+  const params = useParams();
+  const depositId = params.id as string;
+  const { profile } = useUser();
+
+  const [deposit, setDeposit] = useState<DepositOrder | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isPaying, setIsPaying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!profile?.id) return;
+
+    getDeposit(depositId, profile.id)
+      .then(setDeposit)
+      .catch((err) =>
+        setError(err instanceof Error ? err.message : "Failed to load checkout")
+      )
+      .finally(() => setIsLoading(false));
+  }, [depositId, profile?.id]);
+
+  const handlePayment = async (outcome: "completed" | "failed") => {
+    if (!profile?.id) return;
+
+    setIsPaying(true);
+    setError(null);
+    try {
+      await completeMockDepositPayment(depositId, profile.id, outcome);
+      router.push(`/deposit/status/${depositId}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Payment failed");
+      setIsPaying(false);
+    }
+  };
+
+  const currencySymbol = deposit?.fiat_currency === "EUR" ? "€" : "$";
+
+  return (
+    <div className="min-h-screen bg-[#0E0E0F] text-white">
+      <div className="max-w-md mx-auto px-6 py-8 space-y-8">
+        <div className="flex items-center gap-2 text-white/50 text-sm">
+          <ShieldCheck className="w-4 h-4" />
+          <span>Test checkout: no real payment is taken</span>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-white/60" />
+          </div>
+        ) : !deposit ? (
+          <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-sm">
+            {error || "Deposit not found"}
+          </div>
+        ) : (
+          <>
+            <div className="text-center space-y-1">
+              <p className="text-sm text-white/50">Pay</p>
+              <p className="text-5xl font-light">
+                {currencySymbol}
+                {deposit.fiat_amount}
+              </p>
+              <p className="text-sm text-white/50">
+                for {deposit.crypto_amount} {deposit.token}
+              </p>
+            </div>
+
+            {error && (
+              <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-sm">
+                {error}
+              </div>
+            )}
+
+            {deposit.status === "pending" ? (
+              <div className="space-y-3">
+                <Button
+                  onClick={() => handlePayment("completed")}
+                  disabled={isPaying}
+                  className="w-full h-14 rounded-full bg-white hover:bg-white/90 disabled:opacity-30 disabled:cursor-not-allowed text-black font-medium text-base"
+                >
+                  {isPaying ? (
+                    <Loader2 className="w-5 h-5 animate-spin" />
+                  ) : (
+                    "Pay"
+                  )}
+                </Button>
+                <Button
+                  variant="ghost"
+                  onClick={() => handlePayment("failed")}
+                  disabled={isPaying}
+                  className="w-full h-12 rounded-full text-white/70 hover:bg-white/10 hover:text-white"
+                >
+                  Decline payment
+                </Button>
+              </div>
+            ) : (
+              <Button
+                onClick={() => router.push(`/deposit/status/${depositId}`)}
+                className="w-full h-14 rounded-full bg-white hover:bg-white/90 text-black font-medium text-base"
+              >
+                View deposit
+              </Button>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
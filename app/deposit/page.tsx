@@ -3,13 +3,18 @@
 import { useState, useEffect } from "react";
 import Image from "next/image";
 import { useRouter } from "next/navigation";
-import { ArrowLeft, Smartphone } from "lucide-react";
+import { ArrowLeft, Loader2, Smartphone } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { NumberPad } from "@/components/payments/NumberPad";
+import { useUser } from "@/lib/user-context";
+import { createDepositQuote, type DepositOrder } from "@/lib/deposits";
 
 export default function DepositPage() {
   const router = useRouter();
+  const { profile } = useUser();
   const [amount, setAmount] = useState("");
+  const [isQuoting, setIsQuoting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
   const [balance, setBalance] = useState("0.00");
   const [currency, setCurrency] = useState("USD");
   const [paymentMethod, setPaymentMethod] = useState<{
@@ -92,6 +97,26 @@ export default function DepositPage() {
     setAmount(amount.slice(0, -1));
   };
 
+  // Quote the deposit and continue to the review screen
+  const handleContinue = async () => {
+    if (!profile?.id || numericAmount <= 0) return;
+
+    setIsQuoting(true);
+    setError(null);
+    try {
+      const deposit = await createDepositQuote({
+        profile_id: profile.id,
+        fiat_amount: amount,
+        fiat_currency: currency,
+        payment_method: paymentMethod.id as DepositOrder["payment_method"],
+      });
+      router.push(`/deposit/review/${deposit.id}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not get a quote");
+      setIsQuoting(false);
+    }
+  };
+
   return (
     <div className="h-screen bg-[#0E0E0F] text-white flex flex-col overflow-hidden">
       <div className="max-w-md mx-auto w-full flex flex-col h-full">
@@ -166,13 +191,20 @@ export default function DepositPage() {
           />
         </div>
 
-        <div className="px-6 pb-6 flex-shrink-0">
+        <div className="px-6 pb-6 flex-shrink-0 space-y-3">
+          {error && (
+            <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-sm">
+              {error}
+            </div>
+          )}
           <Button
-            disabled={numericAmount <= 0}
-            onClick={() => console.log("To continue")}
+            disabled={numericAmount <= 0 || isQuoting || !profile?.id}
+            onClick={handleContinue}
             className="w-full h-12 sm:h-14 rounded-full bg-white hover:bg-white/90 disabled:opacity-30 disabled:cursor-not-allowed text-black font-medium text-base"
           >
-            {paymentMethod.type === "image" && paymentMethod.icon ? (
+            {isQuoting ? (
+              <Loader2 className="w-5 h-5 animate-spin" />
+            ) : paymentMethod.type === "image" && paymentMethod.icon ? (
               <div className="flex items-center justify-center">
                 <Image
                   src={paymentMethod.icon}
@@ -0,0 +1,202 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { ArrowLeft, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useUser } from "@/lib/user-context";
+import {
+  getDeposit,
+  isDepositQuoteOpen,
+  startDepositCheckout,
+  type DepositOrder,
+} from "@/lib/deposits";
+import { CHAINS, getChain } from "@/lib/chains";
+
+/**
+ * Display labels for the on-ramp payment methods.
+ */
+const PAYMENT_METHOD_LABELS: Record<DepositOrder["payment_method"], string> = {
+  "google-pay": "Google Pay",
+  "apple-pay": "Apple Pay",
+};
+
+/**
+ * Formats the time left on a quote as m:ss.
+ */
+function formatTimeLeft(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
+
+export default function DepositReviewPage() {
+  const router = useRouter();
+  const params = useParams();
+  const depositId = params.id as string;
+  const { profile } = useUser();
+
+  const [deposit, setDeposit] = useState<DepositOrder | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isStarting, setIsStarting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!profile?.id) return;
+
+    getDeposit(depositId, profile.id)
+      .then(setDeposit)
+      .catch((err) =>
+        setError(err instanceof Error ? err.message : "Failed to load quote")
+      )
+      .finally(() => setIsLoading(false));
+  }, [depositId, profile?.id]);
+
+  // Tick once a second for the quote countdown
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const isOpen = deposit ? isDepositQuoteOpen(deposit, new Date(now)) : false;
+  const network = deposit ? getChain(deposit.chain) ?? CHAINS.base : CHAINS.base;
+  const currencySymbol = deposit?.fiat_currency === "EUR" ? "€" : "$";
+  const methodLabel = deposit
+    ? PAYMENT_METHOD_LABELS[deposit.payment_method]
+    : "";
+
+  // Hand off to the provider checkout
+  const handleCheckout = async () => {
+    if (!deposit || !profile?.id) return;
+
+    setIsStarting(true);
+    setError(null);
+    try {
+      const pending = await startDepositCheckout(deposit.id, profile.id);
+      if (!pending.widget_url) {
+        throw new Error("Provider did not return a checkout");
+      }
+      window.location.href = pending.widget_url;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not start checkout");
+      setIsStarting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-[#0E0E0F] text-white">
+      <div className="max-w-md mx-auto px-6 py-8 space-y-8">
+        {/* Header */}
+        <div className="flex items-center gap-4">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => router.back()}
+            className="text-white hover:bg-white/10 rounded-full -ml-2"
+          >
+            <ArrowLeft className="w-6 h-6" />
+          </Button>
+          <h1 className="text-xl font-medium">Review deposit</h1>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-white/60" />
+          </div>
+        ) : !deposit ? (
+          <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-sm">
+            {error || "Deposit not found"}
+          </div>
+        ) : (
+          <>
+            {/* Credited amount */}
+            <div className="text-center space-y-1">
+              <p className="text-sm text-white/50">You receive</p>
+              <p className="text-5xl font-light">
+                {deposit.crypto_amount} {deposit.token}
+              </p>
+            </div>
+
+            {/* Quote details */}
+            <div className="rounded-2xl bg-white/5 p-4 space-y-3 text-sm">
+              <div className="flex justify-between">
+                <span className="text-white/50">You pay</span>
+                <span>
+                  {currencySymbol}
+                  {deposit.fiat_amount}
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-white/50">Fee</span>
+                <span>
+                  {currencySymbol}
+                  {deposit.fee}
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-white/50">Exchange rate</span>
+                <span>
+                  1 {deposit.token} = {currencySymbol}
+                  {parseFloat(deposit.fx_rate).toFixed(4)}
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-white/50">Payment method</span>
+                <span>{methodLabel}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-white/50">Network</span>
+                <span className="flex items-center gap-2">
+                  <span
+                    className="w-2.5 h-2.5 rounded-full"
+                    style={{ backgroundColor: network.color }}
+                  />
+                  {network.label}
+                </span>
+              </div>
+            </div>
+
+            {error && (
+              <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-sm">
+                {error}
+              </div>
+            )}
+
+            {/* CTA */}
+            <div className="space-y-3">
+              <p className="text-center text-xs text-white/50">
+                {isOpen
+                  ? `Quote expires in ${formatTimeLeft(
+                      new Date(deposit.quote_expires_at).getTime() - now
+                    )}`
+                  : "This quote is no longer valid."}
+              </p>
+              {isOpen ? (
+                <Button
+                  onClick={handleCheckout}
+                  disabled={isStarting}
+                  className="w-full h-14 rounded-full bg-white hover:bg-white/90 disabled:opacity-30 disabled:cursor-not-allowed text-black font-medium text-base"
+                >
+                  {isStarting ? (
+                    <Loader2 className="w-5 h-5 animate-spin" />
+                  ) : (
+                    `Continue to ${methodLabel}`
+                  )}
+                </Button>
+              ) : (
+                <Button
+                  onClick={() => router.push("/deposit")}
+                  className="w-full h-14 rounded-full bg-white hover:bg-white/90 text-black font-medium text-base"
+                >
+                  Get a new quote
+                </Button>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,242 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import {
+  AlertCircle,
+  Check,
+  Copy,
+  ExternalLink,
+  Loader2,
+  Wallet,
+} from "lucide-react";
+import { useUser } from "@/lib/user-context";
+import { useDepositStatus } from "@/lib/deposits";
+import { getExplorerTxUrl } from "@/lib/chains";
+
+export default function DepositStatusPage() {
+  const router = useRouter();
+  const params = useParams();
+  const depositId = params.id as string;
+  const { profile } = useUser();
+
+  const { deposit, isLoading, error } = useDepositStatus(
+    depositId,
+    profile?.id
+  );
+  const [copied, setCopied] = useState(false);
+
+  const copyTxHash = () => {
+    if (deposit?.tx_hash) {
+      navigator.clipboard.writeText(deposit.tx_hash);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    }
+  };
+
+  const openExplorer = () => {
+    if (deposit?.tx_hash) {
+      window.open(getExplorerTxUrl(deposit.tx_hash, deposit.chain), "_blank");
+    }
+  };
+
+  const steps = useMemo(
+    () => [
+      { label: "Checkout started", status: "pending" },
+      { label: "Payment processing", status: "processing" },
+      { label: "Added to your account", status: "completed" },
+    ],
+    []
+  );
+
+  // Number of completed steps
+  const currentStep =
+    deposit?.status === "completed"
+      ? 3
+      : deposit?.status === "processing"
+      ? 2
+      : deposit?.status === "pending"
+      ? 1
+      : 0;
+
+  if (isLoading || (!deposit && !error)) {
+    return (
+      <div className="min-h-screen bg-[#0E0E0F] text-white flex flex-col">
+        <div className="mx-auto max-w-md w-full flex flex-col h-screen">
+          <div className="flex flex-col h-full px-6">
+            <div className="flex-1 flex flex-col justify-center items-center">
+              <div className="text-white/60">Loading deposit status...</div>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !deposit) {
+    return (
+      <div className="min-h-screen bg-[#0E0E0F] text-white flex flex-col">
+        <div className="mx-auto max-w-md w-full flex flex-col h-screen">
+          <div className="flex flex-col h-full px-6">
+            <div className="flex-1 flex flex-col justify-center items-center">
+              <AlertCircle className="h-12 w-12 text-red-500 mb-4" />
+              <div className="text-red-400 text-center">
+                {error || "Deposit not found"}
+              </div>
+            </div>
+            <div className="pb-6 pt-4">
+              <Button
+                onClick={() => router.push("/home")}
+                className="w-full h-14 rounded-full bg-white text-black hover:bg-white/90 text-base font-medium"
+              >
+                Back to Home
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const currencySymbol = deposit.fiat_currency === "EUR" ? "€" : "$";
+  const isUnsuccessful =
+    deposit.status === "failed" || deposit.status === "expired";
+  const isInFlight = currentStep > 0 && currentStep < 3;
+
+  return (
+    <div className="min-h-screen bg-[#0E0E0F] text-white flex flex-col">
+      <div className="mx-auto max-w-md w-full flex flex-col h-screen">
+        <div className="flex flex-col h-full px-6">
+          <div className="flex-1 flex flex-col justify-center items-center space-y-8">
+            {/* Icon with badge */}
+            <div className="relative">
+              <div className="w-16 h-16 rounded-full bg-white/10 flex items-center justify-center">
+                <Wallet className="w-8 h-8 text-white" />
+              </div>
+              <div
+                className={`absolute -bottom-1 -right-1 w-7 h-7 rounded-full flex items-center justify-center border-2 border-[#0E0E0F] ${
+                  isUnsuccessful
+                    ? "bg-red-500"
+                    : currentStep === 3
+                    ? "bg-green-500"
+                    : "bg-blue-500"
+                }`}
+              >
+                {isUnsuccessful ? (
+                  <AlertCircle className="w-4 h-4 text-white" />
+                ) : currentStep === 3 ? (
+                  <Check className="w-4 h-4 text-white" />
+                ) : (
+                  <Loader2 className="w-4 h-4 text-white animate-spin" />
+                )}
+              </div>
+            </div>
+
+            {/* Status text */}
+            <div className="text-center">
+              <h2 className="text-xl font-medium text-white mb-2">
+                {deposit.status === "completed"
+                  ? "Deposit complete!"
+                  : deposit.status === "expired"
+                  ? "Quote expired"
+                  : deposit.status === "failed"
+                  ? "Payment failed"
+                  : "Adding money"}
+              </h2>
+              <p className="text-white/60 text-sm">
+                {isUnsuccessful
+                  ? deposit.failure_reason || "You have not been charged"
+                  : `${deposit.crypto_amount} ${deposit.token} for ${currencySymbol}${deposit.fiat_amount}`}
+              </p>
+            </div>
+
+            {/* Deposit steps */}
+            {!isUnsuccessful && (
+              <div className="w-full space-y-4">
+                {steps.map((step, index) => {
+                  const isActive = index < currentStep;
+                  const isCurrent = index === currentStep;
+
+                  return (
+                    <div
+                      key={step.label}
+                      className="flex justify-between items-center"
+                    >
+                      <span
+                        className={`text-base ${
+                          isActive ? "text-white" : "text-white/40"
+                        }`}
+                      >
+                        {step.label}
+                      </span>
+                      <div
+                        className={`h-8 w-8 rounded-full flex items-center justify-center transition-all duration-500 ${
+                          isActive
+                            ? "bg-green-500"
+                            : isCurrent
+                            ? "bg-blue-500"
+                            : "bg-white/10"
+                        }`}
+                      >
+                        {isActive ? (
+                          <Check className="h-5 w-5 text-white" />
+                        ) : isCurrent ? (
+                          <Loader2 className="h-4 w-4 text-white animate-spin" />
+                        ) : (
+                          <div className="h-2 w-2 rounded-full bg-white/50" />
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {/* Transaction hash with inline buttons */}
+            {deposit.tx_hash && (
+              <div className="w-full pt-4">
+                <div className="flex justify-between items-center mb-2">
+                  <span className="text-white text-sm">TX Hash</span>
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={copyTxHash}
+                      className="p-1.5 hover:bg-white/10 rounded-lg transition-colors"
+                      title="Copy hash"
+                    >
+                      {copied ? (
+                        <Check className="h-4 w-4 text-green-500" />
+                      ) : (
+                        <Copy className="h-4 w-4 text-white/60" />
+                      )}
+                    </button>
+                    <button
+                      onClick={openExplorer}
+                      className="p-1.5 hover:bg-white/10 rounded-lg transition-colors"
+                      title="View on explorer"
+                    >
+                      <ExternalLink className="h-4 w-4 text-white/60" />
+                    </button>
+                  </div>
+                </div>
+                <div className="text-white/90 text-sm font-mono break-all bg-white/5 px-3 py-2 rounded-lg">
+                  {deposit.tx_hash}
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Action Button */}
+          <div className="pb-8 pt-4">
+            <Button
+              onClick={() => router.push("/home")}
+              className="w-full h-14 rounded-full bg-white text-black hover:bg-white/90 text-base font-medium"
+            >
+              {isInFlight ? "Back to Home" : "Close"}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
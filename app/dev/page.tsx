@@ -2,6 +2,7 @@
 
 import { Button } from "@/components/ui/button";
 import Link from "next/link";
+import { authFetch } from "@/lib/auth-fetch";
 
 export default function DevPage() {
   return (
@@ -127,13 +128,10 @@ export default function DevPage() {
           <div className="grid md:grid-cols-3 gap-4">
             <Button 
               onClick={() => {
-                fetch('/api/mcp', {
+                authFetch('/api/mcp', {
                   method: 'POST',
                   headers: { 'Content-Type': 'application/json' },
-                  body: JSON.stringify({
-                    method: 'tools/list',
-                    context: { profileId: 'dev-user-123' }
-                  })
+                  body: JSON.stringify({ method: 'tools/list' })
                 }).then(r => r.json()).then(console.log);
               }}
             >
@@ -143,12 +141,11 @@ export default function DevPage() {
             <Button 
               variant="outline"
               onClick={() => {
-                fetch('/api/ai/chat', {
+                authFetch('/api/ai/chat', {
                   method: 'POST',
                   headers: { 'Content-Type': 'application/json' },
                   body: JSON.stringify({
-                    message: 'What investment options are available?',
-                    context: { profileId: 'dev-user-123' }
+                    message: 'What investment options are available?'
                   })
                 }).then(r => r.json()).then(console.log);
               }}
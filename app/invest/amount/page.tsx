@@ -5,7 +5,11 @@ import { X } from "lucide-react";
 import Link from "next/link";
 import { useRouter, useSearchParams } from "next/navigation";
 import { useState, useEffect, Suspense } from "react";
-import { getInvestmentOption, type InvestmentOption } from "@/lib/investments";
+import {
+  getInvestmentOption,
+  getInvestmentOptionByVault,
+  type InvestmentOption,
+} from "@/lib/investments";
 import { useUSDCBalance } from "@/lib/payments";
 import { useAccountSafe as useAccount } from "@/lib/use-account-safe";
 import { useUser } from "@/lib/user-context";
@@ -27,25 +31,37 @@ function InvestmentAmountContent() {
   const [amount, setAmount] = useState("");
   const [investmentOption, setInvestmentOption] =
     useState<InvestmentOption | null>(null);
+  const [isOptionLoading, setIsOptionLoading] = useState(true);
   const [currentAccount, setCurrentAccount] = useState<Account | null>(null);
 
   // Load investment option
   useEffect(() => {
-    if (optionId) {
-      const option = getInvestmentOption(optionId);
-      setInvestmentOption(option || null);
-    } else if (vaultAddress && vaultName) {
-      // Create option for existing vault using real data
-      setInvestmentOption({
-        id: "existing-vault",
-        name: decodeURIComponent(vaultName),
-        description: "Add more funds to your existing investment",
-        apr: 6.55, // Will be updated from database
-        logo: "/morpho.svg",
-        vault_address: vaultAddress,
-        type: "morpho_vault",
-      });
-    }
+    const loadInvestmentOption = async () => {
+      try {
+        if (optionId) {
+          const option = await getInvestmentOption(optionId);
+          setInvestmentOption(option || null);
+        } else if (vaultAddress && vaultName) {
+          // Create option for existing vault with its current APR
+          const listed = await getInvestmentOptionByVault(vaultAddress);
+          setInvestmentOption({
+            id: "existing-vault",
+            name: decodeURIComponent(vaultName),
+            description: "Add more funds to your existing investment",
+            apr: listed?.apr || 0,
+            logo: "/morpho.svg",
+            vault_address: vaultAddress,
+            type: "morpho_vault",
+          });
+        }
+      } catch (err) {
+        console.error("Failed to load investment option:", err);
+      } finally {
+        setIsOptionLoading(false);
+      }
+    };
+
+    loadInvestmentOption();
   }, [optionId, vaultAddress, vaultName]);
 
   // Load current account (the one with matching address)
@@ -126,6 +142,14 @@ function InvestmentAmountContent() {
   const isValidAmount =
     amount && parseFloat(amount) > 0 && !hasInsufficientBalance;
 
+  if (isOptionLoading) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center">
+        <div className="text-white">Loading...</div>
+      </div>
+    );
+  }
+
   if (!investmentOption) {
     return (
       <div className="min-h-screen bg-black text-white flex items-center justify-center">
@@ -25,7 +25,7 @@ export default function InvestmentInfoPage() {
   useEffect(() => {
     const fetchVaultInfo = async () => {
       try {
-        const vault = getVaultData(vaultAddress);
+        const vault = await getVaultData(vaultAddress);
         setVaultInfo(vault || null);
       } catch (error) {
         console.error("Failed to fetch vault info:", error);
@@ -164,6 +164,13 @@ export default function InvestmentInfoPage() {
           </Card>
         </div>
 
+        {vaultInfo.metricsUpdatedAt && (
+          <p className="text-xs text-gray-500 -mt-4 mb-8">
+            Metrics updated{" "}
+            {new Date(vaultInfo.metricsUpdatedAt).toLocaleString()}
+          </p>
+        )}
+
         {/* Strategy Table */}
         <Card className="bg-gray-900 border-gray-700 p-6 mb-8">
           <h2 className="text-xl font-semibold mb-4 text-white">Strategy</h2>
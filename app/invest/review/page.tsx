@@ -5,8 +5,13 @@ import { ArrowLeft, TrendingUp, Lock, Loader2 } from "lucide-react";
 import Link from "next/link";
 import { useRouter, useSearchParams } from "next/navigation";
 import { useState, useEffect, Suspense } from "react";
-import { getInvestmentOption, type InvestmentOption } from "@/lib/investments";
+import {
+  getInvestmentOption,
+  getInvestmentOptionByVault,
+  type InvestmentOption,
+} from "@/lib/investments";
 import { useInvestmentPayment } from "@/lib/investment-payments";
+import { logAIOperationStep } from "@/lib/ai-agent";
 import { useUser } from "@/lib/user-context";
 import { useAccountSafe as useAccount } from "@/lib/use-account-safe";
 import { getAccountsByProfile } from "@/lib/accounts";
@@ -20,6 +25,8 @@ function InvestmentReviewContent() {
   const vaultAddress = searchParams.get("vault");
   const vaultName = searchParams.get("name");
   const amount = searchParams.get("amount");
+  // Set when the AI assistant prefilled this review
+  const aiOperationId = searchParams.get("ai_operation");
   const { profile } = useUser();
   const {
     executeInvestment,
@@ -30,26 +37,38 @@ function InvestmentReviewContent() {
 
   const [investmentOption, setInvestmentOption] =
     useState<InvestmentOption | null>(null);
+  const [isOptionLoading, setIsOptionLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [currentAccount, setCurrentAccount] = useState<Account | null>(null);
   const { address } = useAccount();
 
   useEffect(() => {
-    if (optionId) {
-      const option = getInvestmentOption(optionId);
-      setInvestmentOption(option || null);
-    } else if (vaultAddress && vaultName) {
-      // Create option for existing vault using real data
-      setInvestmentOption({
-        id: "existing-vault",
-        name: decodeURIComponent(vaultName),
-        description: "Add more funds to your existing investment",
-        apr: 6.55, // Will be updated from database
-        logo: "/morpho.svg",
-        vault_address: vaultAddress,
-        type: "morpho_vault",
-      });
-    }
+    const loadInvestmentOption = async () => {
+      try {
+        if (optionId) {
+          const option = await getInvestmentOption(optionId);
+          setInvestmentOption(option || null);
+        } else if (vaultAddress && vaultName) {
+          // Create option for existing vault with its current APR
+          const listed = await getInvestmentOptionByVault(vaultAddress);
+          setInvestmentOption({
+            id: "existing-vault",
+            name: decodeURIComponent(vaultName),
+            description: "Add more funds to your existing investment",
+            apr: listed?.apr || 0,
+            logo: "/morpho.svg",
+            vault_address: vaultAddress,
+            type: "morpho_vault",
+          });
+        }
+      } catch (err) {
+        console.error("Failed to load investment option:", err);
+      } finally {
+        setIsOptionLoading(false);
+      }
+    };
+
+    loadInvestmentOption();
   }, [optionId, vaultAddress, vaultName]);
 
   // Load current account
@@ -77,6 +96,10 @@ function InvestmentReviewContent() {
       return;
     }
 
+    if (aiOperationId) {
+      logAIOperationStep(aiOperationId, profile.id, "submitted", { amount });
+    }
+
     try {
       const result = await executeInvestment({
         investment_name: investmentOption.name,
@@ -89,6 +112,17 @@ function InvestmentReviewContent() {
         apr: investmentOption.apr,
       });
 
+      if (aiOperationId) {
+        await logAIOperationStep(
+          aiOperationId,
+          profile.id,
+          result.success ? "completed" : "failed",
+          result.success
+            ? { investmentId: result.investmentId, movementId: result.movementId, txHash: result.hash }
+            : { error: result.error || "Investment failed" }
+        );
+      }
+
       if (result.success) {
         // Redirect to investment status page using movement ID
         if (result.movementId) {
@@ -104,9 +138,22 @@ function InvestmentReviewContent() {
     } catch (err) {
       console.error("Investment failed:", err);
       setError(err instanceof Error ? err.message : "Investment failed");
+      if (aiOperationId) {
+        logAIOperationStep(aiOperationId, profile.id, "failed", {
+          error: err instanceof Error ? err.message : "Investment failed",
+        });
+      }
     }
   };
 
+  if (isOptionLoading) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center">
+        <div className="text-white">Loading...</div>
+      </div>
+    );
+  }
+
   if (!investmentOption || !amount) {
     return (
       <div className="min-h-screen bg-[#0E0E0F] text-white flex flex-col">
@@ -1,8 +1,8 @@
 "use client";
 
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
-import { ArrowLeft, TrendingUp } from "lucide-react";
+import { ArrowLeft, TrendingUp, Loader2 } from "lucide-react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { getInvestmentOptions, type InvestmentOption } from "@/lib/investments";
@@ -10,9 +10,25 @@ import Image from "next/image";
 
 export default function InvestmentSelectPage() {
   const router = useRouter();
-  const investmentOptions = getInvestmentOptions();
+  const [investmentOptions, setInvestmentOptions] = useState<
+    InvestmentOption[]
+  >([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
   const [selectedOption, setSelectedOption] = useState<string | null>(null);
 
+  // Load options with current APRs from the vault catalog
+  useEffect(() => {
+    getInvestmentOptions()
+      .then(setInvestmentOptions)
+      .catch((err) =>
+        setError(
+          err instanceof Error ? err.message : "Failed to load investments"
+        )
+      )
+      .finally(() => setIsLoading(false));
+  }, []);
+
   const handleSelectOption = (optionId: string) => {
     setSelectedOption(optionId);
   };
@@ -41,6 +57,16 @@ export default function InvestmentSelectPage() {
 
         {/* Content */}
         <div className="p-6">
+          {isLoading && (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-white/60" />
+            </div>
+          )}
+          {error && (
+            <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-sm">
+              {error}
+            </div>
+          )}
           <div className="space-y-3">
             {investmentOptions.map((option) => {
               const isSelected = selectedOption === option.id;
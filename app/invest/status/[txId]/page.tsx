@@ -13,6 +13,7 @@ import {
 } from "lucide-react";
 import { useInvestmentMovementStatus } from "@/lib/investment-movement-status";
 import type { InvestmentMovementStatus } from "@/lib/investment-movement-status";
+import { getExplorerTxUrl } from "@/lib/chains";
 
 export default function InvestmentStatusPage() {
   const router = useRouter();
@@ -44,7 +45,7 @@ export default function InvestmentStatusPage() {
 
   const openExplorer = () => {
     if (movement?.tx_hash) {
-      window.open(`https://basescan.org/tx/${movement.tx_hash}`, "_blank");
+      window.open(getExplorerTxUrl(movement.tx_hash, movement.chain), "_blank");
     }
   };
 
@@ -0,0 +1,281 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Loader2, X } from "lucide-react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { useState, useEffect, useRef, Suspense } from "react";
+import {
+  useInvestmentWithdrawal,
+  useVaultPosition,
+} from "@/lib/investment-payments";
+import { useAccountSafe as useAccount } from "@/lib/use-account-safe";
+import { useUser } from "@/lib/user-context";
+import { logAIOperationStep } from "@/lib/ai-agent";
+import { NumberPad } from "@/components/payments/NumberPad";
+import Image from "next/image";
+
+function InvestmentWithdrawContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const investmentId = searchParams.get("investment");
+  const vaultAddress = searchParams.get("vault") || undefined;
+  const vaultName = searchParams.get("name");
+  // Prefilled by the AI assistant: an amount or the whole position
+  const prefilledAmount = searchParams.get("amount");
+  const prefillFull = searchParams.get("full") === "1";
+  const aiOperationId = searchParams.get("ai_operation");
+  const { address } = useAccount();
+  const { profile } = useUser();
+
+  const { withdrawable, isLoading: isPositionLoading } = useVaultPosition(
+    vaultAddress,
+    address
+  );
+  const { executeWithdrawal, isLoading, error, pendingStep } =
+    useInvestmentWithdrawal(profile?.id);
+
+  const [amount, setAmount] = useState(prefilledAmount || "");
+  const [isFull, setIsFull] = useState(false);
+  const hasPrefilledFull = useRef(false);
+
+  // Fill in the whole position once it is known
+  useEffect(() => {
+    if (!prefillFull || isPositionLoading || hasPrefilledFull.current) return;
+    hasPrefilledFull.current = true;
+    const max = Math.floor(parseFloat(withdrawable) * 100) / 100;
+    setAmount(max > 0 ? max.toFixed(2) : "");
+    setIsFull(max > 0);
+  }, [prefillFull, isPositionLoading, withdrawable]);
+
+  const formatNumber = (value: string) => {
+    const cleanValue = value.replace(/[^0-9.]/g, "").replace(/,/g, "");
+
+    // Prevent multiple decimal points
+    if ((cleanValue.match(/\./g) || []).length > 1) return amount;
+
+    // Handle empty or decimal-only input
+    if (cleanValue === "" || cleanValue === ".") return cleanValue;
+
+    const [integer, decimal] = cleanValue.split(".");
+
+    // Validate length limits (max 6 digits for integer, 2 for decimal)
+    if (integer.length > 6 || (decimal && decimal.length > 2)) {
+      return amount;
+    }
+
+    return cleanValue;
+  };
+
+  const formatDisplayValue = (value: string) => {
+    if (!value || value === "0") return "0";
+    return value;
+  };
+
+  // Handle number pad input
+  const handleNumberClick = (num: string) => {
+    if (num === "." && amount.includes(".")) return; // Prevent multiple decimals
+
+    const newValue = amount + num;
+    const formatted = formatNumber(newValue);
+    if (formatted !== amount) {
+      setAmount(formatted);
+      setIsFull(false);
+    }
+  };
+
+  // Handle backspace
+  const handleBackspace = () => {
+    setAmount(amount.slice(0, -1));
+    setIsFull(false);
+  };
+
+  // Withdraw the whole position (redeems all shares, including accrued yield)
+  const handleMax = () => {
+    const max = Math.floor(parseFloat(withdrawable) * 100) / 100;
+    setAmount(max > 0 ? max.toFixed(2) : "");
+    setIsFull(max > 0);
+  };
+
+  const maxWithdrawable = parseFloat(withdrawable) || 0;
+  const exceedsPosition = !isFull && !!amount && parseFloat(amount) > maxWithdrawable;
+  const isValidAmount =
+    !!amount && parseFloat(amount) > 0 && !exceedsPosition;
+
+  const handleWithdraw = async () => {
+    if (!isValidAmount || !investmentId || !vaultAddress || !profile?.id) {
+      return;
+    }
+
+    if (aiOperationId) {
+      logAIOperationStep(aiOperationId, profile.id, "submitted", { amount, is_full: isFull });
+    }
+
+    try {
+      const result = await executeWithdrawal({
+        investment_id: investmentId,
+        investment_name: vaultName ? decodeURIComponent(vaultName) : "",
+        vault_address: vaultAddress,
+        amount,
+        is_full: isFull,
+        sender_profile_id: profile.id,
+      });
+      if (aiOperationId) {
+        await logAIOperationStep(aiOperationId, profile.id, "completed", {
+          movementId: result.movementId,
+          txHash: result.hash,
+        });
+      }
+      router.push(`/invest/withdraw/status/${result.movementId}`);
+    } catch (err) {
+      // Error is surfaced through the hook's error state
+      if (aiOperationId) {
+        logAIOperationStep(aiOperationId, profile.id, "failed", {
+          error: err instanceof Error ? err.message : "Withdrawal failed",
+        });
+      }
+    }
+  };
+
+  if (!investmentId || !vaultAddress) {
+    return (
+      <div className="min-h-screen bg-black text-white flex items-center justify-center">
+        <div className="text-center">
+          <p className="text-white/60">Investment not found</p>
+          <Button className="mt-4" onClick={() => router.push("/home")}>
+            Go Back
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-screen bg-[#0E0E0F] text-white flex flex-col overflow-hidden">
+      <div className="max-w-md mx-auto w-full flex flex-col h-full">
+        {/* Header */}
+        <div className="px-6 py-6 flex items-center justify-between flex-shrink-0">
+          <div className="flex flex-col gap-1">
+            <h1 className="text-lg font-medium">
+              Withdraw: {vaultName ? decodeURIComponent(vaultName) : "Vault"}
+            </h1>
+            <p className="text-xs text-white/50">
+              Available:{" "}
+              {isPositionLoading
+                ? "..."
+                : `$${maxWithdrawable.toFixed(2)} USDC`}
+            </p>
+          </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => router.back()}
+            className="text-white hover:bg-white/10 rounded-full"
+          >
+            <X className="w-6 h-6" />
+          </Button>
+        </div>
+
+        {/* From Field - Vault Info */}
+        <div className="px-6 pb-4 flex-shrink-0">
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-white/50">From</span>
+            <div className="flex items-center gap-2 bg-white/10 px-3 py-2 rounded-full">
+              <Image
+                src="/morpho.svg"
+                alt="Morpho"
+                width={20}
+                height={20}
+                className="w-5 h-5"
+              />
+              <span className="text-sm text-white font-medium">
+                {`${vaultAddress.slice(0, 6)}...${vaultAddress.slice(-4)}`}
+              </span>
+            </div>
+          </div>
+        </div>
+
+        {/* Amount display - centered with scroll */}
+        <div className="flex-1 flex flex-col min-h-0 overflow-y-auto scrollbar-hide">
+          <div className="flex-1 flex flex-col items-center justify-center px-6 py-4">
+            <div className="inline-flex items-start justify-center gap-0.5">
+              <span className="text-3xl font-normal text-white mt-2 font-sans">
+                $
+              </span>
+              <span className="text-7xl font-light text-white min-w-[1ch] inline-block tracking-tight font-sans">
+                {formatDisplayValue(amount) || "0"}
+              </span>
+            </div>
+
+            <button
+              onClick={handleMax}
+              disabled={isPositionLoading || maxWithdrawable <= 0}
+              className={`mt-6 rounded-full px-4 py-1.5 text-sm transition-colors disabled:opacity-30 ${
+                isFull
+                  ? "bg-white text-black"
+                  : "bg-white/10 text-white hover:bg-white/15"
+              }`}
+            >
+              Withdraw all
+            </button>
+
+            {exceedsPosition && (
+              <div className="mt-4 text-red-400 text-sm">
+                Amount exceeds your position
+              </div>
+            )}
+            {error && (
+              <div className="mt-4 p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-sm">
+                {error}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Number Pad */}
+        <div className="flex-shrink-0">
+          <NumberPad
+            onNumberClick={handleNumberClick}
+            onBackspace={handleBackspace}
+          />
+        </div>
+
+        {/* Bottom Button */}
+        <div className="px-6 pb-6 flex-shrink-0">
+          <Button
+            disabled={!isValidAmount || isLoading}
+            onClick={handleWithdraw}
+            className="w-full h-12 sm:h-14 rounded-full disabled:opacity-30 disabled:cursor-not-allowed text-white font-medium text-base border-0"
+            style={{
+              backgroundColor: isValidAmount
+                ? "#3479FF"
+                : "rgba(52, 121, 255, 0.3)",
+            }}
+          >
+            {isLoading ? (
+              <div className="flex items-center justify-center gap-2">
+                <Loader2 className="w-5 h-5 animate-spin" />
+                <span>{pendingStep || "Processing..."}</span>
+              </div>
+            ) : (
+              <span className="text-white">Withdraw</span>
+            )}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function InvestmentWithdrawPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="min-h-screen bg-black flex items-center justify-center">
+          <div className="text-white">Loading...</div>
+        </div>
+      }
+    >
+      <InvestmentWithdrawContent />
+    </Suspense>
+  );
+}
@@ -4,7 +4,7 @@ import { useState, useEffect } from "react";
 
 // Disable static generation for this page
 export const dynamic = 'force-dynamic';
-import { AlertTriangle, X } from "lucide-react";
+import { AlertTriangle, CalendarClock, HandCoins, X } from "lucide-react";
 import { useRouter } from "next/navigation";
 import { useAccount } from "wagmi";
 import { normalize } from "viem/ens";
@@ -106,6 +106,22 @@ export default function PaymentsPage() {
               Balance: ${formattedBalance || "0.00"}
             </p>
           </div>
+          <Button
+            size="icon"
+            variant="ghost"
+            onClick={() => router.push("/payments/request")}
+            className="h-10 w-10 text-white hover:bg-white/10 rounded-full"
+          >
+            <HandCoins className="h-5 w-5" />
+          </Button>
+          <Button
+            size="icon"
+            variant="ghost"
+            onClick={() => router.push("/payments/scheduled")}
+            className="h-10 w-10 text-white hover:bg-white/10 rounded-full"
+          >
+            <CalendarClock className="h-5 w-5" />
+          </Button>
           <Button
             size="icon"
             variant="ghost"
@@ -0,0 +1,181 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { ArrowLeft, ChevronRight, Loader2, Plus } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { RequestForm } from "@/components/payments/RequestForm";
+import { RequestStatusBadge } from "@/components/payments/RequestStatusBadge";
+import { useUser } from "@/lib/user-context";
+import {
+  getOutgoingPaymentRequests,
+  type PaymentRequest,
+} from "@/lib/payment-requests";
+import { formatTransactionAmount } from "@/lib/transactions";
+
+// Disable static generation for this page
+export const dynamic = 'force-dynamic';
+
+export default function PaymentRequestsPage() {
+  const router = useRouter();
+  const { profile } = useUser();
+  const [requests, setRequests] = useState<PaymentRequest[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+
+  const fetchRequests = useCallback(async () => {
+    if (!profile?.id) return;
+    try {
+      const data = await getOutgoingPaymentRequests(profile.id);
+      setRequests(data);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load requests");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [profile?.id]);
+
+  useEffect(() => {
+    fetchRequests();
+  }, [fetchRequests]);
+
+  const handleCreated = async (splitId: string | null) => {
+    if (splitId) {
+      router.push(`/payments/request/split/${splitId}`);
+      return;
+    }
+    setShowForm(false);
+    await fetchRequests();
+  };
+
+  // Requests that belong to a split are shown once, as the split
+  const seenSplits = new Set<string>();
+  const items = requests.filter((request) => {
+    if (!request.split_id) return true;
+    if (seenSplits.has(request.split_id)) return false;
+    seenSplits.add(request.split_id);
+    return true;
+  });
+
+  return (
+    <div className="min-h-screen bg-[#1E1B3D] text-white">
+      <div className="mx-auto max-w-md">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4">
+          <Button
+            size="icon"
+            variant="ghost"
+            onClick={() => (showForm ? setShowForm(false) : router.push("/payments"))}
+            className="h-10 w-10 text-white hover:bg-white/10"
+          >
+            <ArrowLeft className="h-6 w-6" />
+          </Button>
+          {!showForm && (
+            <Button
+              size="icon"
+              variant="ghost"
+              onClick={() => setShowForm(true)}
+              className="h-10 w-10 text-white hover:bg-white/10 rounded-full"
+            >
+              <Plus className="h-6 w-6" />
+            </Button>
+          )}
+        </div>
+
+        {/* Title */}
+        <div className="px-6 mb-8">
+          <h1 className="text-3xl font-bold text-white">
+            {showForm ? "Request money" : "Requests"}
+          </h1>
+        </div>
+
+        <div className="px-6 pb-24">
+          {showForm && profile?.id ? (
+            <RequestForm
+              profileId={profile.id}
+              onCreated={handleCreated}
+              onCancel={() => setShowForm(false)}
+            />
+          ) : isLoading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-6 w-6 animate-spin text-white/60" />
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {error && (
+                <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-sm">
+                  {error}
+                </div>
+              )}
+
+              {items.length === 0 && (
+                <div className="text-center py-12 space-y-4">
+                  <p className="text-white/60">You haven&apos;t requested any money yet</p>
+                  <Button
+                    onClick={() => setShowForm(true)}
+                    className="rounded-full bg-white/15 hover:bg-white/25 text-white"
+                  >
+                    Request or split a bill
+                  </Button>
+                </div>
+              )}
+
+              {items.map((request) =>
+                request.split_id ? (
+                  <button
+                    key={request.id}
+                    onClick={() =>
+                      router.push(`/payments/request/split/${request.split_id}`)
+                    }
+                    className="w-full flex items-center justify-between gap-3 rounded-2xl bg-[#2A2640] p-4 text-left hover:bg-[#332E4D] transition-colors"
+                  >
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">
+                        {request.note || "Split bill"}
+                      </p>
+                      <p className="text-sm text-white/60">
+                        Split with{" "}
+                        {
+                          requests.filter((r) => r.split_id === request.split_id)
+                            .length
+                        }{" "}
+                        friends
+                      </p>
+                    </div>
+                    <ChevronRight className="h-5 w-5 text-white/40 flex-shrink-0" />
+                  </button>
+                ) : (
+                  <div
+                    key={request.id}
+                    className="flex items-center justify-between gap-3 rounded-2xl bg-[#2A2640] p-4"
+                  >
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">
+                        {request.payer?.name || "Friend"}
+                      </p>
+                      <p className="text-sm text-white/60 truncate">
+                        {request.note ||
+                          new Date(request.created_at).toLocaleDateString("en-US", {
+                            month: "short",
+                            day: "numeric",
+                          })}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-3 flex-shrink-0">
+                      <span className="font-medium">
+                        {formatTransactionAmount(request.amount, request.token)}
+                      </span>
+                      <RequestStatusBadge status={request.status} />
+                    </div>
+                  </div>
+                )
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { ArrowLeft, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { RequestStatusBadge } from "@/components/payments/RequestStatusBadge";
+import {
+  getPaymentSplitById,
+  isPaymentRequestPayable,
+  type PaymentSplit,
+} from "@/lib/payment-requests";
+import { formatTransactionAmount } from "@/lib/transactions";
+
+export default function SplitStatusPage() {
+  const router = useRouter();
+  const params = useParams();
+  const splitId = params.splitId as string;
+  const [split, setSplit] = useState<PaymentSplit | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getPaymentSplitById(splitId)
+      .then((data) => {
+        if (!data) {
+          setError("Split not found");
+        }
+        setSplit(data);
+      })
+      .catch((err) =>
+        setError(err instanceof Error ? err.message : "Failed to load split")
+      )
+      .finally(() => setIsLoading(false));
+  }, [splitId]);
+
+  const requests = split?.requests || [];
+  const requestedTotal = requests.reduce(
+    (sum, r) => sum + parseFloat(r.amount),
+    0
+  );
+  const paidTotal = requests
+    .filter((r) => r.status === "paid")
+    .reduce((sum, r) => sum + parseFloat(r.amount), 0);
+  const paidCount = requests.filter((r) => r.status === "paid").length;
+
+  return (
+    <div className="min-h-screen bg-[#1E1B3D] text-white">
+      <div className="mx-auto max-w-md">
+        {/* Header */}
+        <div className="flex items-center px-6 py-4">
+          <Button
+            size="icon"
+            variant="ghost"
+            onClick={() => router.push("/payments/request")}
+            className="h-10 w-10 text-white hover:bg-white/10"
+          >
+            <ArrowLeft className="h-6 w-6" />
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-white/60" />
+          </div>
+        ) : error || !split ? (
+          <div className="px-6">
+            <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-sm">
+              {error || "Split not found"}
+            </div>
+          </div>
+        ) : (
+          <div className="px-6 pb-24 space-y-8">
+            {/* Title */}
+            <div>
+              <h1 className="text-3xl font-bold text-white">{split.title}</h1>
+              <p className="text-white/60 mt-1">
+                {formatTransactionAmount(split.total_amount, split.token)} total ·{" "}
+                {split.split_mode === "even" ? "split evenly" : "custom shares"}
+              </p>
+            </div>
+
+            {/* Progress */}
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm">
+                <span className="text-white/80">
+                  {paidCount} of {requests.length} paid
+                </span>
+                <span className="text-white/60">
+                  {formatTransactionAmount(paidTotal.toFixed(2), split.token)} /{" "}
+                  {formatTransactionAmount(requestedTotal.toFixed(2), split.token)}
+                </span>
+              </div>
+              <Progress
+                value={requestedTotal > 0 ? (paidTotal / requestedTotal) * 100 : 0}
+              />
+            </div>
+
+            {/* Participants */}
+            <div className="space-y-3">
+              {requests.map((request) => (
+                <div
+                  key={request.id}
+                  className="flex items-center justify-between gap-3 rounded-2xl bg-[#2A2640] p-4"
+                >
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">
+                      {request.payer?.name || "Friend"}
+                    </p>
+                    {request.payer?.handle && (
+                      <p className="text-sm text-white/60">@{request.payer.handle}</p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-3 flex-shrink-0">
+                    <span className="font-medium">
+                      {formatTransactionAmount(request.amount, request.token)}
+                    </span>
+                    <RequestStatusBadge
+                      status={
+                        request.status === "requested" &&
+                        !isPaymentRequestPayable(request)
+                          ? "expired"
+                          : request.status
+                      }
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
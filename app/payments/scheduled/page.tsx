@@ -0,0 +1,233 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { ArrowLeft, Loader2, Pause, Pencil, Play, Plus, Trash2 } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { ScheduleForm } from "@/components/payments/ScheduleForm";
+import { useUser } from "@/lib/user-context";
+import {
+  cancelScheduledPayment,
+  describeSchedule,
+  getScheduledPaymentsByProfile,
+  pauseScheduledPayment,
+  resumeScheduledPayment,
+  type ScheduledPayment,
+} from "@/lib/scheduled-payments";
+import { formatTransactionAmount } from "@/lib/transactions";
+
+// Disable static generation for this page
+export const dynamic = 'force-dynamic';
+
+export default function ScheduledPaymentsPage() {
+  const router = useRouter();
+  const { profile } = useUser();
+  const [schedules, setSchedules] = useState<ScheduledPayment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  // null = list view, "new" = create form, otherwise the schedule being edited
+  const [editing, setEditing] = useState<ScheduledPayment | "new" | null>(null);
+
+  const fetchSchedules = useCallback(async () => {
+    if (!profile?.id) return;
+    try {
+      const data = await getScheduledPaymentsByProfile(profile.id);
+      setSchedules(data);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load schedules");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [profile?.id]);
+
+  useEffect(() => {
+    fetchSchedules();
+  }, [fetchSchedules]);
+
+  const runAction = async (
+    scheduleId: string,
+    action: (id: string) => Promise<unknown>
+  ) => {
+    setBusyId(scheduleId);
+    try {
+      await action(scheduleId);
+      await fetchSchedules();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Action failed");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleSaved = async () => {
+    setEditing(null);
+    await fetchSchedules();
+  };
+
+  return (
+    <div className="min-h-screen bg-[#1E1B3D] text-white">
+      <div className="mx-auto max-w-md">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4">
+          <Button
+            size="icon"
+            variant="ghost"
+            onClick={() => (editing ? setEditing(null) : router.push("/payments"))}
+            className="h-10 w-10 text-white hover:bg-white/10"
+          >
+            <ArrowLeft className="h-6 w-6" />
+          </Button>
+          {!editing && (
+            <Button
+              size="icon"
+              variant="ghost"
+              onClick={() => setEditing("new")}
+              className="h-10 w-10 text-white hover:bg-white/10 rounded-full"
+            >
+              <Plus className="h-6 w-6" />
+            </Button>
+          )}
+        </div>
+
+        {/* Title */}
+        <div className="px-6 mb-8">
+          <h1 className="text-3xl font-bold text-white">
+            {editing === "new"
+              ? "New schedule"
+              : editing
+              ? "Edit schedule"
+              : "Scheduled payments"}
+          </h1>
+        </div>
+
+        <div className="px-6 pb-24">
+          {editing && profile?.id ? (
+            <ScheduleForm
+              profileId={profile.id}
+              schedule={editing === "new" ? undefined : editing}
+              onSaved={handleSaved}
+              onCancel={() => setEditing(null)}
+            />
+          ) : isLoading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-6 w-6 animate-spin text-white/60" />
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {error && (
+                <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-sm">
+                  {error}
+                </div>
+              )}
+
+              {schedules.length === 0 && (
+                <div className="text-center py-12 space-y-4">
+                  <p className="text-white/60">No scheduled payments yet</p>
+                  <Button
+                    onClick={() => setEditing("new")}
+                    className="rounded-full bg-white/15 hover:bg-white/25 text-white"
+                  >
+                    Schedule a payment
+                  </Button>
+                </div>
+              )}
+
+              {schedules.map((schedule) => {
+                const isActive = schedule.status === "active";
+                const isPaused = schedule.status === "paused";
+                const isBusy = busyId === schedule.id;
+
+                return (
+                  <div
+                    key={schedule.id}
+                    className="rounded-2xl bg-[#2A2640] p-4 space-y-3"
+                  >
+                    <div className="flex items-start justify-between gap-3">
+                      <div className="min-w-0">
+                        <p className="font-medium truncate">
+                          {schedule.recipient?.name || "Recipient"}
+                        </p>
+                        <p className="text-sm text-white/60">
+                          {describeSchedule(schedule)}
+                        </p>
+                        {schedule.note && (
+                          <p className="text-xs text-white/40 truncate">
+                            {schedule.note}
+                          </p>
+                        )}
+                      </div>
+                      <span className="font-medium whitespace-nowrap">
+                        {formatTransactionAmount(schedule.amount, schedule.token)}
+                      </span>
+                    </div>
+
+                    <div className="flex items-center justify-between">
+                      <p className="text-xs text-white/50">
+                        {isActive && schedule.next_run_at
+                          ? `Next: ${new Date(schedule.next_run_at).toLocaleDateString(
+                              "en-US",
+                              { month: "short", day: "numeric", year: "numeric" }
+                            )}`
+                          : schedule.status.charAt(0).toUpperCase() +
+                            schedule.status.slice(1)}
+                      </p>
+                      {(isActive || isPaused) && (
+                        <div className="flex items-center gap-1">
+                          {isBusy ? (
+                            <Loader2 className="h-4 w-4 animate-spin text-white/60" />
+                          ) : (
+                            <>
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                onClick={() => setEditing(schedule)}
+                                className="h-8 w-8 text-white/70 hover:bg-white/10 rounded-full"
+                              >
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                onClick={() =>
+                                  runAction(
+                                    schedule.id,
+                                    isActive
+                                      ? pauseScheduledPayment
+                                      : resumeScheduledPayment
+                                  )
+                                }
+                                className="h-8 w-8 text-white/70 hover:bg-white/10 rounded-full"
+                              >
+                                {isActive ? (
+                                  <Pause className="h-4 w-4" />
+                                ) : (
+                                  <Play className="h-4 w-4" />
+                                )}
+                              </Button>
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                onClick={() =>
+                                  runAction(schedule.id, cancelScheduledPayment)
+                                }
+                                className="h-8 w-8 text-red-400 hover:bg-red-500/10 rounded-full"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
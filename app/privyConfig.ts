@@ -1,5 +1,6 @@
 import type { PrivyClientConfig } from "@privy-io/react-auth";
 import { base } from "viem/chains";
+import { SUPPORTED_CHAINS } from "@/lib/chains";
 
 export const privyConfig: PrivyClientConfig = {
   embeddedWallets: {
@@ -9,7 +10,7 @@ export const privyConfig: PrivyClientConfig = {
     showWalletUIs: true,
   },
   defaultChain: base, // Required for SIWE authentication
-  supportedChains: [base], // Explicitly support Base chain
+  supportedChains: SUPPORTED_CHAINS, // All networks from the chain registry
   loginMethods: ["google", "apple", "email", "farcaster"],
   appearance: {
     walletList: ["metamask", "rainbow", "wallet_connect", "phantom"],
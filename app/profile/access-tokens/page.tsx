@@ -0,0 +1,271 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { ArrowLeft, Check, Copy, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useUser } from "@/lib/user-context";
+import {
+  ACCESS_TOKEN_EXPIRY_DAYS,
+  ACCESS_TOKEN_SCOPES,
+  createAccessToken,
+  getAccessTokens,
+  isAccessTokenActive,
+  revokeAccessToken,
+  validateAccessTokenInput,
+  type AccessTokenScope,
+  type PersonalAccessTokenSummary,
+} from "@/lib/access-tokens";
+
+const SCOPES = Object.keys(ACCESS_TOKEN_SCOPES) as AccessTokenScope[];
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString();
+}
+
+function getTokenStatus(token: PersonalAccessTokenSummary): string {
+  if (token.revoked_at) return `Revoked ${formatDate(token.revoked_at)}`;
+  if (!isAccessTokenActive(token)) return `Expired ${formatDate(token.expires_at)}`;
+  return `Expires ${formatDate(token.expires_at)}`;
+}
+
+export default function AccessTokensPage() {
+  const router = useRouter();
+  const { profile } = useUser();
+  const [tokens, setTokens] = useState<PersonalAccessTokenSummary[]>([]);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<AccessTokenScope[]>([]);
+  const [expiresInDays, setExpiresInDays] = useState(30);
+  const [newToken, setNewToken] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!profile?.id) return;
+
+    getAccessTokens(profile.id)
+      .then(setTokens)
+      .catch((err) =>
+        setError(err instanceof Error ? err.message : "Failed to load access tokens")
+      )
+      .finally(() => setIsLoading(false));
+  }, [profile?.id]);
+
+  const toggleScope = (scope: AccessTokenScope, selected: boolean) => {
+    setScopes((prev) => (selected ? [...prev, scope] : prev.filter((s) => s !== scope)));
+  };
+
+  const handleCreate = async () => {
+    if (!profile?.id) return;
+
+    const input = { name, scopes, expires_in_days: expiresInDays };
+    const validationError = validateAccessTokenInput(input);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setIsCreating(true);
+    setError(null);
+    try {
+      const { token, access_token } = await createAccessToken(profile.id, input);
+      setTokens((prev) => [access_token, ...prev]);
+      setNewToken(token);
+      setCopied(false);
+      setName("");
+      setScopes([]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create access token");
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!newToken) return;
+    await navigator.clipboard.writeText(newToken);
+    setCopied(true);
+  };
+
+  const handleRevoke = async (tokenId: string) => {
+    if (!profile?.id) return;
+
+    setRevokingId(tokenId);
+    try {
+      await revokeAccessToken(profile.id, tokenId);
+      const revokedAt = new Date().toISOString();
+      setTokens((prev) =>
+        prev.map((t) => (t.id === tokenId ? { ...t, revoked_at: revokedAt } : t))
+      );
+      toast.success("Access token revoked");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to revoke access token");
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-[#0E0E0F] text-white pb-20">
+      <div className="mx-auto max-w-md">
+        {/* Header */}
+        <div className="px-6 py-8 flex items-center gap-3">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => router.push("/profile")}
+            className="text-white hover:bg-white/10 rounded-full"
+          >
+            <ArrowLeft className="h-6 w-6" />
+          </Button>
+          <div>
+            <h1 className="text-xl font-medium">Access Tokens</h1>
+            <p className="text-sm text-white/50">
+              Let MCP clients and scripts read your data
+            </p>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-white/60" />
+          </div>
+        ) : (
+          <div className="px-6 space-y-6">
+            {error && (
+              <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-sm">
+                {error}
+              </div>
+            )}
+
+            {/* Token shown once */}
+            {newToken && (
+              <div className="p-4 rounded-2xl bg-green-500/10 border border-green-500/20 space-y-3">
+                <p className="text-sm text-green-400">
+                  Copy your token now. It won&apos;t be shown again.
+                </p>
+                <div className="flex items-center gap-2">
+                  <code className="flex-1 truncate text-sm text-white/90">{newToken}</code>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={handleCopy}
+                    className="text-white hover:bg-white/10 rounded-full"
+                  >
+                    {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {/* New token */}
+            <div>
+              <h2 className="text-base font-semibold text-white mb-3 px-1">
+                New Token
+              </h2>
+              <div className="bg-white/5 rounded-2xl border border-white/10 divide-y divide-white/10">
+                <div className="p-4">
+                  <Input
+                    placeholder="Name, e.g. Desktop assistant"
+                    value={name}
+                    maxLength={50}
+                    onChange={(e) => setName(e.target.value)}
+                    className="h-10 bg-white/5 border-white/10 text-white"
+                  />
+                </div>
+                {SCOPES.map((scope) => (
+                  <label key={scope} className="flex items-center gap-3 p-4 cursor-pointer">
+                    <Checkbox
+                      checked={scopes.includes(scope)}
+                      onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                    />
+                    <div>
+                      <p className="text-base text-white">{ACCESS_TOKEN_SCOPES[scope].label}</p>
+                      <p className="text-sm text-white/50">
+                        {ACCESS_TOKEN_SCOPES[scope].description}
+                      </p>
+                    </div>
+                  </label>
+                ))}
+                <div className="flex items-center justify-between gap-4 p-4">
+                  <p className="text-base font-medium text-white">Expires in</p>
+                  <div className="flex gap-2">
+                    {ACCESS_TOKEN_EXPIRY_DAYS.map((days) => (
+                      <button
+                        key={days}
+                        onClick={() => setExpiresInDays(days)}
+                        className={`px-3 py-1 rounded-full text-sm transition-colors ${
+                          expiresInDays === days
+                            ? "bg-white text-black"
+                            : "bg-white/10 text-white/70 hover:bg-white/20"
+                        }`}
+                      >
+                        {days}d
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            </div>
+
+            <Button
+              onClick={handleCreate}
+              disabled={isCreating || !profile}
+              className="w-full h-12 bg-white text-black hover:bg-white/90 rounded-full"
+            >
+              {isCreating ? <Loader2 className="h-5 w-5 animate-spin" /> : "Create Token"}
+            </Button>
+
+            {/* Existing tokens */}
+            <div>
+              <h2 className="text-base font-semibold text-white mb-3 px-1">
+                Your Tokens
+              </h2>
+              <div className="bg-white/5 rounded-2xl border border-white/10 divide-y divide-white/10">
+                {tokens.length === 0 ? (
+                  <p className="p-4 text-sm text-white/50">No access tokens yet</p>
+                ) : (
+                  tokens.map((token) => (
+                    <div key={token.id} className="flex items-center justify-between gap-4 p-4">
+                      <div className="min-w-0">
+                        <p className="text-base font-medium text-white truncate">{token.name}</p>
+                        <p className="text-sm text-white/50 truncate">
+                          {token.token_prefix}… ·{" "}
+                          {token.scopes.map((s) => ACCESS_TOKEN_SCOPES[s]?.label ?? s).join(", ")}
+                        </p>
+                        <p className="text-xs text-white/40">
+                          {getTokenStatus(token)}
+                          {token.last_used_at && ` · Last used ${formatDate(token.last_used_at)}`}
+                        </p>
+                      </div>
+                      {isAccessTokenActive(token) && (
+                        <Button
+                          variant="ghost"
+                          onClick={() => handleRevoke(token.id)}
+                          disabled={revokingId === token.id}
+                          className="text-red-400 hover:bg-red-500/10 hover:text-red-400"
+                        >
+                          {revokingId === token.id ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            "Revoke"
+                          )}
+                        </Button>
+                      )}
+                    </div>
+                  ))
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,254 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { ArrowLeft, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useUser } from "@/lib/user-context";
+import { getRecipientsByProfile } from "@/lib/recipients";
+import { type Recipient } from "@/lib/supabase";
+import {
+  MAX_RECIPIENT_COOLDOWN_HOURS,
+  getAISpendingPolicy,
+  updateAISpendingPolicy,
+  validateSpendingPolicySettings,
+  type AISpendingPolicySettings,
+} from "@/lib/ai-spending-policy";
+
+// Limits are edited as text; an empty field means no limit
+type LimitField = "per_transaction_limit" | "daily_limit" | "weekly_limit";
+
+const LIMIT_FIELDS: { field: LimitField; label: string; hint: string }[] = [
+  { field: "per_transaction_limit", label: "Per payment", hint: "Largest single AI payment" },
+  { field: "daily_limit", label: "Daily", hint: "AI payments in the last 24 hours" },
+  { field: "weekly_limit", label: "Weekly", hint: "AI payments in the last 7 days" },
+];
+
+function toLimit(value: string): number | null {
+  return value.trim() === "" ? null : Number(value);
+}
+
+export default function AISpendingLimitsPage() {
+  const router = useRouter();
+  const { profile } = useUser();
+  const [limits, setLimits] = useState<Record<LimitField, string>>({
+    per_transaction_limit: "",
+    daily_limit: "",
+    weekly_limit: "",
+  });
+  const [allowlistEnabled, setAllowlistEnabled] = useState(false);
+  const [allowedIds, setAllowedIds] = useState<string[]>([]);
+  const [cooldownHours, setCooldownHours] = useState("0");
+  const [recipients, setRecipients] = useState<Recipient[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!profile?.id) return;
+
+    const load = async () => {
+      try {
+        const [policy, savedRecipients] = await Promise.all([
+          getAISpendingPolicy(profile.id),
+          getRecipientsByProfile(profile.id),
+        ]);
+        setLimits({
+          per_transaction_limit: policy.per_transaction_limit?.toString() ?? "",
+          daily_limit: policy.daily_limit?.toString() ?? "",
+          weekly_limit: policy.weekly_limit?.toString() ?? "",
+        });
+        setAllowlistEnabled(policy.allowlist_enabled);
+        setAllowedIds(policy.allowed_recipient_ids);
+        setCooldownHours(String(policy.new_recipient_cooldown_hours));
+        setRecipients(savedRecipients.filter((r) => r.external_address));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load spending limits");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    load();
+  }, [profile?.id]);
+
+  const toggleRecipient = (recipientId: string, allowed: boolean) => {
+    setAllowedIds((prev) =>
+      allowed ? [...prev, recipientId] : prev.filter((id) => id !== recipientId)
+    );
+  };
+
+  const handleSave = async () => {
+    if (!profile?.id) return;
+
+    const settings: AISpendingPolicySettings = {
+      per_transaction_limit: toLimit(limits.per_transaction_limit),
+      daily_limit: toLimit(limits.daily_limit),
+      weekly_limit: toLimit(limits.weekly_limit),
+      allowlist_enabled: allowlistEnabled,
+      allowed_recipient_ids: allowedIds,
+      new_recipient_cooldown_hours: Number(cooldownHours || "0"),
+    };
+
+    const validationError = validateSpendingPolicySettings(settings);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await updateAISpendingPolicy(profile.id, settings);
+      toast.success("Spending limits saved");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save spending limits");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-[#0E0E0F] text-white pb-20">
+      <div className="mx-auto max-w-md">
+        {/* Header */}
+        <div className="px-6 py-8 flex items-center gap-3">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => router.push("/profile")}
+            className="text-white hover:bg-white/10 rounded-full"
+          >
+            <ArrowLeft className="h-6 w-6" />
+          </Button>
+          <div>
+            <h1 className="text-xl font-medium">AI Spending Limits</h1>
+            <p className="text-sm text-white/50">
+              Checked before every payment the AI assistant prepares
+            </p>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-white/60" />
+          </div>
+        ) : (
+          <div className="px-6 space-y-6">
+            {error && (
+              <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-sm">
+                {error}
+              </div>
+            )}
+
+            {/* Amount limits */}
+            <div>
+              <h2 className="text-base font-semibold text-white mb-1 px-1">
+                Limits (USD)
+              </h2>
+              <p className="text-sm text-white/50 mb-3 px-1">
+                Leave empty for no limit. ETH payments are refused while a limit is set.
+              </p>
+              <div className="bg-white/5 rounded-2xl border border-white/10 divide-y divide-white/10">
+                {LIMIT_FIELDS.map(({ field, label, hint }) => (
+                  <div key={field} className="flex items-center justify-between gap-4 p-4">
+                    <div>
+                      <p className="text-base font-medium text-white">{label}</p>
+                      <p className="text-sm text-white/50">{hint}</p>
+                    </div>
+                    <Input
+                      type="number"
+                      inputMode="decimal"
+                      min="0"
+                      placeholder="No limit"
+                      value={limits[field]}
+                      onChange={(e) =>
+                        setLimits((prev) => ({ ...prev, [field]: e.target.value }))
+                      }
+                      className="w-32 h-10 bg-white/5 border-white/10 text-white text-right"
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* New recipients */}
+            <div>
+              <h2 className="text-base font-semibold text-white mb-3 px-1">
+                New Recipients
+              </h2>
+              <div className="bg-white/5 rounded-2xl border border-white/10">
+                <div className="flex items-center justify-between gap-4 p-4">
+                  <div>
+                    <p className="text-base font-medium text-white">Cooldown (hours)</p>
+                    <p className="text-sm text-white/50">
+                      Wait before the AI can pay a newly saved recipient
+                    </p>
+                  </div>
+                  <Input
+                    type="number"
+                    inputMode="numeric"
+                    min="0"
+                    max={MAX_RECIPIENT_COOLDOWN_HOURS}
+                    value={cooldownHours}
+                    onChange={(e) => setCooldownHours(e.target.value)}
+                    className="w-24 h-10 bg-white/5 border-white/10 text-white text-right"
+                  />
+                </div>
+              </div>
+            </div>
+
+            {/* Allowlist */}
+            <div>
+              <h2 className="text-base font-semibold text-white mb-3 px-1">
+                Allowed Recipients
+              </h2>
+              <div className="bg-white/5 rounded-2xl border border-white/10 divide-y divide-white/10">
+                <div className="flex items-center justify-between gap-4 p-4">
+                  <div>
+                    <p className="text-base font-medium text-white">Only these recipients</p>
+                    <p className="text-sm text-white/50">
+                      The AI can only pay the recipients selected below
+                    </p>
+                  </div>
+                  <Switch checked={allowlistEnabled} onCheckedChange={setAllowlistEnabled} />
+                </div>
+                {allowlistEnabled &&
+                  (recipients.length === 0 ? (
+                    <p className="p-4 text-sm text-white/50">No saved wallet recipients</p>
+                  ) : (
+                    recipients.map((recipient) => (
+                      <label
+                        key={recipient.id}
+                        className="flex items-center gap-3 p-4 cursor-pointer"
+                      >
+                        <Checkbox
+                          checked={allowedIds.includes(recipient.id)}
+                          onCheckedChange={(checked) =>
+                            toggleRecipient(recipient.id, checked === true)
+                          }
+                        />
+                        <span className="text-base text-white">{recipient.name}</span>
+                      </label>
+                    ))
+                  ))}
+              </div>
+            </div>
+
+            <Button
+              onClick={handleSave}
+              disabled={isSaving || !profile}
+              className="w-full h-12 bg-white text-black hover:bg-white/90 rounded-full"
+            >
+              {isSaving ? <Loader2 className="h-5 w-5 animate-spin" /> : "Save"}
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -27,12 +27,17 @@ import {
   WalletIcon,
   Sparkles,
   RotateCcw,
+  Shield,
+  KeyRound,
+  FileText,
+  Receipt,
 } from "lucide-react";
 import { useAccount } from "wagmi";
 import { useUser } from "@/lib/user-context";
 import { updateProfileName, deleteProfile } from "@/lib/profile";
 import { getAccountsByProfile, updateAccount } from "@/lib/accounts";
 import { type Account } from "@/lib/supabase";
+import { getExplorerAddressUrl } from "@/lib/chains";
 import { useSetActiveWalletSafe } from "@/lib/use-account-safe";
 import { useWallets, usePrivy, useLogout } from "@privy-io/react-auth";
 import { toast } from "sonner";
@@ -124,7 +129,7 @@ export default function ProfilePage() {
   const handleExploreBaseScan = () => {
     if (profile?.wallet_address) {
       window.open(
-        `https://basescan.org/address/${profile.wallet_address}`,
+        getExplorerAddressUrl(profile.wallet_address),
         "_blank"
       );
     }
@@ -368,6 +373,49 @@ export default function ProfilePage() {
             </div>
           </div>
 
+          {/* Reports */}
+          <div>
+            <h2 className="text-base font-semibold text-white mb-3 px-1">
+              Reports
+            </h2>
+            <div className="bg-white/5 rounded-2xl border border-white/10 divide-y divide-white/10">
+              <button
+                onClick={() => router.push("/profile/statements")}
+                className="w-full flex items-center justify-between p-4 hover:bg-white/10 transition-colors rounded-t-2xl"
+              >
+                <div className="flex items-center gap-3">
+                  <FileText className="h-5 w-5 text-white/60" />
+                  <div className="text-left">
+                    <p className="text-base font-medium text-white">
+                      Statements
+                    </p>
+                    <p className="text-sm text-white/50">
+                      Export PDF, CSV or OFX for any month
+                    </p>
+                  </div>
+                </div>
+                <ChevronRight className="h-5 w-5 text-white/40" />
+              </button>
+              <button
+                onClick={() => router.push("/profile/tax-report")}
+                className="w-full flex items-center justify-between p-4 hover:bg-white/10 transition-colors rounded-b-2xl"
+              >
+                <div className="flex items-center gap-3">
+                  <Receipt className="h-5 w-5 text-white/60" />
+                  <div className="text-left">
+                    <p className="text-base font-medium text-white">
+                      Tax Report
+                    </p>
+                    <p className="text-sm text-white/50">
+                      Yield income and realized gains
+                    </p>
+                  </div>
+                </div>
+                <ChevronRight className="h-5 w-5 text-white/40" />
+              </button>
+            </div>
+          </div>
+
           {/* Authentication */}
           <div>
             <h2 className="text-base font-semibold text-white mb-3 px-1">
@@ -397,6 +445,49 @@ export default function ProfilePage() {
             </div>
           </div>
 
+          {/* AI Assistant */}
+          <div>
+            <h2 className="text-base font-semibold text-white mb-3 px-1">
+              AI Assistant
+            </h2>
+            <div className="bg-white/5 rounded-2xl border border-white/10 divide-y divide-white/10">
+              <button
+                onClick={() => router.push("/profile/ai-limits")}
+                className="w-full flex items-center justify-between p-4 hover:bg-white/10 transition-colors rounded-t-2xl"
+              >
+                <div className="flex items-center gap-3">
+                  <Shield className="h-5 w-5 text-white/60" />
+                  <div className="text-left">
+                    <p className="text-base font-medium text-white">
+                      Spending Limits
+                    </p>
+                    <p className="text-sm text-white/50">
+                      Control payments the AI can prepare
+                    </p>
+                  </div>
+                </div>
+                <ChevronRight className="h-5 w-5 text-white/40" />
+              </button>
+              <button
+                onClick={() => router.push("/profile/access-tokens")}
+                className="w-full flex items-center justify-between p-4 hover:bg-white/10 transition-colors rounded-b-2xl"
+              >
+                <div className="flex items-center gap-3">
+                  <KeyRound className="h-5 w-5 text-white/60" />
+                  <div className="text-left">
+                    <p className="text-base font-medium text-white">
+                      Access Tokens
+                    </p>
+                    <p className="text-sm text-white/50">
+                      Connect MCP clients and scripts
+                    </p>
+                  </div>
+                </div>
+                <ChevronRight className="h-5 w-5 text-white/40" />
+              </button>
+            </div>
+          </div>
+
           {/* Preferences */}
           <div>
             <h2 className="text-base font-semibold text-white mb-3 px-1">
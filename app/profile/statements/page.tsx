@@ -0,0 +1,236 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { ArrowLeft, Download, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useUser } from "@/lib/user-context";
+import { getAccountsByProfile } from "@/lib/accounts";
+import { type Account } from "@/lib/supabase";
+import {
+  STATEMENT_FORMATS,
+  downloadStatement,
+  parseStatementPeriod,
+  type StatementFormat,
+} from "@/lib/statements";
+
+type PeriodMode = "month" | "custom";
+
+const FORMAT_LABELS: Record<StatementFormat, { label: string; hint: string }> = {
+  pdf: { label: "PDF", hint: "Printable statement" },
+  csv: { label: "CSV", hint: "Spreadsheets" },
+  ofx: { label: "OFX", hint: "Accounting tools" },
+  qfx: { label: "QFX", hint: "Quicken" },
+};
+
+function FilterPills<T extends string>({
+  options,
+  value,
+  onChange,
+}: {
+  options: Array<{ value: T; label: string }>;
+  value: T;
+  onChange: (value: T) => void;
+}) {
+  return (
+    <div className="flex flex-wrap gap-2">
+      {options.map((option) => (
+        <button
+          key={option.value}
+          onClick={() => onChange(option.value)}
+          className={`px-3 py-1 rounded-full text-sm transition-colors ${
+            value === option.value
+              ? "bg-white text-black"
+              : "bg-white/10 text-white/70 hover:bg-white/20"
+          }`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export default function StatementsPage() {
+  const router = useRouter();
+  const { profile } = useUser();
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [accountId, setAccountId] = useState("");
+  const [mode, setMode] = useState<PeriodMode>("month");
+  const [month, setMonth] = useState(() => new Date().toISOString().slice(0, 7));
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [downloading, setDownloading] = useState<StatementFormat | null>(null);
+
+  useEffect(() => {
+    if (!profile?.id) return;
+
+    getAccountsByProfile(profile.id)
+      .then((result) => {
+        setAccounts(result);
+        setAccountId((result.find((a) => a.is_primary) || result[0])?.id || "");
+      })
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : "Failed to load accounts");
+      })
+      .finally(() => setIsLoading(false));
+  }, [profile?.id]);
+
+  const range = mode === "month" ? { month } : { from: fromDate, to: toDate };
+  // Without both days the parser would fall back to the current month
+  const { period, error: periodError } =
+    mode === "custom" && (!fromDate || !toDate)
+      ? { period: null, error: "Pick the first and last day" }
+      : parseStatementPeriod(range);
+
+  const canDownload = !!(profile?.id && accountId && period);
+
+  const handleDownload = async (format: StatementFormat) => {
+    if (!profile?.id || !canDownload) return;
+
+    setDownloading(format);
+    setError(null);
+    try {
+      await downloadStatement(accountId, profile.id, format, range);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to download statement");
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-[#0E0E0F] text-white pb-20">
+      <div className="mx-auto max-w-md">
+        {/* Header */}
+        <div className="px-6 py-8 flex items-center gap-3">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => router.push("/profile")}
+            className="text-white hover:bg-white/10 rounded-full"
+          >
+            <ArrowLeft className="h-6 w-6" />
+          </Button>
+          <div>
+            <h1 className="text-xl font-medium">Statements</h1>
+            <p className="text-sm text-white/50">
+              Balances, payments and investment movements per account
+            </p>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-white/60" />
+          </div>
+        ) : (
+          <div className="px-6 space-y-6">
+            {error && (
+              <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-sm">
+                {error}
+              </div>
+            )}
+
+            {/* Account */}
+            <div>
+              <h2 className="text-base font-semibold text-white mb-3 px-1">
+                Account
+              </h2>
+              {accounts.length === 0 ? (
+                <p className="text-sm text-white/50 px-1">No accounts yet</p>
+              ) : (
+                <FilterPills
+                  options={accounts.map((a) => ({ value: a.id, label: a.name }))}
+                  value={accountId}
+                  onChange={setAccountId}
+                />
+              )}
+            </div>
+
+            {/* Period */}
+            <div>
+              <h2 className="text-base font-semibold text-white mb-3 px-1">
+                Period
+              </h2>
+              <div className="bg-white/5 rounded-2xl border border-white/10 divide-y divide-white/10">
+                <div className="p-4">
+                  <FilterPills
+                    options={[
+                      { value: "month", label: "Month" },
+                      { value: "custom", label: "Custom range" },
+                    ]}
+                    value={mode}
+                    onChange={setMode}
+                  />
+                </div>
+                <div className="p-4 space-y-2">
+                  {mode === "month" ? (
+                    <Input
+                      type="month"
+                      value={month}
+                      onChange={(e) => setMonth(e.target.value)}
+                      className="h-10 bg-white/5 border-white/10 text-white"
+                    />
+                  ) : (
+                    <div className="flex gap-2">
+                      <Input
+                        type="date"
+                        value={fromDate}
+                        max={toDate || undefined}
+                        onChange={(e) => setFromDate(e.target.value)}
+                        className="h-10 bg-white/5 border-white/10 text-white"
+                      />
+                      <Input
+                        type="date"
+                        value={toDate}
+                        min={fromDate || undefined}
+                        onChange={(e) => setToDate(e.target.value)}
+                        className="h-10 bg-white/5 border-white/10 text-white"
+                      />
+                    </div>
+                  )}
+                  <p className="text-sm text-white/50">
+                    {period ? `${period.label} (UTC)` : periodError}
+                  </p>
+                </div>
+              </div>
+            </div>
+
+            {/* Downloads */}
+            <div>
+              <h2 className="text-base font-semibold text-white mb-3 px-1">
+                Download
+              </h2>
+              <div className="bg-white/5 rounded-2xl border border-white/10 divide-y divide-white/10">
+                {STATEMENT_FORMATS.map((format) => (
+                  <button
+                    key={format}
+                    onClick={() => handleDownload(format)}
+                    disabled={!canDownload || downloading !== null}
+                    className="w-full flex items-center justify-between p-4 hover:bg-white/10 transition-colors first:rounded-t-2xl last:rounded-b-2xl disabled:opacity-50 disabled:hover:bg-transparent"
+                  >
+                    <div className="text-left">
+                      <p className="text-base font-medium text-white">
+                        {FORMAT_LABELS[format].label}
+                      </p>
+                      <p className="text-sm text-white/50">{FORMAT_LABELS[format].hint}</p>
+                    </div>
+                    {downloading === format ? (
+                      <Loader2 className="h-5 w-5 animate-spin text-white/40" />
+                    ) : (
+                      <Download className="h-5 w-5 text-white/40" />
+                    )}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,246 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { AlertTriangle, ArrowLeft, Download, Loader2, Sparkles } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useUser } from "@/lib/user-context";
+import { formatCurrency } from "@/lib/currency";
+import {
+  COST_BASIS_METHODS,
+  getTaxReport,
+  downloadTaxReportCsv,
+  type CostBasisMethod,
+  type TaxReportSummary,
+} from "@/lib/tax-report";
+
+const CURRENT_YEAR = new Date().getUTCFullYear();
+const RECENT_YEARS = [CURRENT_YEAR, CURRENT_YEAR - 1, CURRENT_YEAR - 2, CURRENT_YEAR - 3];
+
+function FilterPills<T extends string | number>({
+  options,
+  value,
+  onChange,
+}: {
+  options: Array<{ value: T; label: string }>;
+  value: T;
+  onChange: (value: T) => void;
+}) {
+  return (
+    <div className="flex flex-wrap gap-2">
+      {options.map((option) => (
+        <button
+          key={option.value}
+          onClick={() => onChange(option.value)}
+          className={`px-3 py-1 rounded-full text-sm transition-colors ${
+            value === option.value
+              ? "bg-white text-black"
+              : "bg-white/10 text-white/70 hover:bg-white/20"
+          }`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+function SummaryRow({ label, usd, eur }: { label: string; usd: number; eur: number }) {
+  return (
+    <div className="flex items-center justify-between p-4">
+      <p className="text-base font-medium text-white">{label}</p>
+      <div className="text-right">
+        <p className="text-base text-white">{formatCurrency(usd, "USD")}</p>
+        <p className="text-sm text-white/50">{formatCurrency(eur, "EUR")}</p>
+      </div>
+    </div>
+  );
+}
+
+export default function TaxReportPage() {
+  const router = useRouter();
+  const { profile } = useUser();
+  const [year, setYear] = useState(CURRENT_YEAR - 1);
+  const [method, setMethod] = useState<CostBasisMethod>("fifo");
+  const [report, setReport] = useState<TaxReportSummary | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isPlanRequired, setIsPlanRequired] = useState(false);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [downloadError, setDownloadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!profile?.id) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    getTaxReport(profile.id, year, method)
+      .then((result) => {
+        if (cancelled) return;
+        setReport(result);
+        setIsPlanRequired(result === null);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to load tax report");
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [profile?.id, year, method]);
+
+  const years = [...new Set([...RECENT_YEARS, ...(report?.years || [])])].sort((a, b) => b - a);
+  const summary = report?.summary;
+
+  const handleDownload = async () => {
+    if (!profile?.id) return;
+
+    setIsDownloading(true);
+    setDownloadError(null);
+    try {
+      await downloadTaxReportCsv(profile.id, year, method);
+    } catch (err) {
+      setDownloadError(err instanceof Error ? err.message : "Failed to download tax report");
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-[#0E0E0F] text-white pb-20">
+      <div className="mx-auto max-w-md">
+        {/* Header */}
+        <div className="px-6 py-8 flex items-center gap-3">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => router.push("/profile")}
+            className="text-white hover:bg-white/10 rounded-full"
+          >
+            <ArrowLeft className="h-6 w-6" />
+          </Button>
+          <div>
+            <h1 className="text-xl font-medium">Tax Report</h1>
+            <p className="text-sm text-white/50">
+              Yield income and realized gains per tax year
+            </p>
+          </div>
+        </div>
+
+        {isPlanRequired ? (
+          <div className="px-6">
+            <div className="bg-white/5 rounded-2xl border border-white/10 p-6 text-center space-y-4">
+              <Sparkles className="h-8 w-8 text-white/60 mx-auto" />
+              <p className="text-base text-white/70">
+                Tax reports are included in the Pro plan
+              </p>
+              <Button
+                onClick={() => router.push("/upgrade")}
+                className="w-full h-12 bg-white text-black hover:bg-white/90 rounded-full"
+              >
+                Upgrade
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="px-6 space-y-6">
+            {/* Options */}
+            <div className="space-y-3">
+              <FilterPills
+                options={years.map((y) => ({ value: y, label: String(y) }))}
+                value={year}
+                onChange={setYear}
+              />
+              <FilterPills
+                options={(Object.keys(COST_BASIS_METHODS) as CostBasisMethod[]).map((m) => ({
+                  value: m,
+                  label: COST_BASIS_METHODS[m],
+                }))}
+                value={method}
+                onChange={setMethod}
+              />
+            </div>
+
+            {isLoading ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="h-6 w-6 animate-spin text-white/60" />
+              </div>
+            ) : error ? (
+              <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-sm">
+                {error}
+              </div>
+            ) : summary ? (
+              <>
+                {/* Income */}
+                <div>
+                  <h2 className="text-base font-semibold text-white mb-3 px-1">
+                    Income
+                  </h2>
+                  <div className="bg-white/5 rounded-2xl border border-white/10 divide-y divide-white/10">
+                    <SummaryRow label="Vault yield" usd={summary.income_usd} eur={summary.income_eur} />
+                    <div className="flex items-center justify-between p-4">
+                      <p className="text-base font-medium text-white">Days with yield</p>
+                      <p className="text-base text-white">{summary.income_days}</p>
+                    </div>
+                  </div>
+                </div>
+
+                {/* Gains */}
+                <div>
+                  <h2 className="text-base font-semibold text-white mb-3 px-1">
+                    Realized Gains
+                  </h2>
+                  <div className="bg-white/5 rounded-2xl border border-white/10 divide-y divide-white/10">
+                    <SummaryRow label="Proceeds" usd={summary.proceeds_usd} eur={summary.proceeds_eur} />
+                    <SummaryRow label="Cost basis" usd={summary.cost_basis_usd} eur={summary.cost_basis_eur} />
+                    <SummaryRow
+                      label="Gain / loss"
+                      usd={summary.realized_gain_usd}
+                      eur={summary.realized_gain_eur}
+                    />
+                  </div>
+                  <p className="text-sm text-white/50 mt-2 px-1">
+                    {summary.disposals} disposal{summary.disposals === 1 ? "" : "s"} of non-stable
+                    tokens. Stablecoins are valued at their peg.
+                  </p>
+                </div>
+
+                {report.warnings.length > 0 && (
+                  <div className="p-3 rounded-lg bg-yellow-500/10 border border-yellow-500/20 text-yellow-300 text-sm space-y-1">
+                    {report.warnings.map((warning) => (
+                      <p key={warning} className="flex gap-2">
+                        <AlertTriangle className="h-4 w-4 shrink-0 mt-0.5" />
+                        {warning}
+                      </p>
+                    ))}
+                  </div>
+                )}
+
+                <button
+                  onClick={handleDownload}
+                  disabled={isDownloading}
+                  className="w-full h-12 flex items-center justify-center gap-2 bg-white text-black hover:bg-white/90 rounded-full text-sm font-medium disabled:opacity-50"
+                >
+                  {isDownloading ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <Download className="h-4 w-4" />
+                  )}
+                  Download line items (CSV)
+                </button>
+                {downloadError && (
+                  <p className="text-sm text-red-400 text-center">{downloadError}</p>
+                )}
+              </>
+            ) : null}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
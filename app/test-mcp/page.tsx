@@ -4,6 +4,7 @@ import { useState, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { authFetch } from "@/lib/auth-fetch";
 
 interface ChatMessage {
   role: "user" | "assistant";
@@ -32,13 +33,10 @@ export default function TestMCPPage() {
   const testMCPTools = async () => {
     setLoading(true);
     try {
-      const listResponse = await fetch("/api/mcp", {
+      const listResponse = await authFetch("/api/mcp", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          method: "tools/list",
-          context: { profileId: "test-user-123" }
-        })
+        body: JSON.stringify({ method: "tools/list" })
       });
 
       const listData = await listResponse.json();
@@ -145,13 +143,12 @@ export default function TestMCPPage() {
     setChatInput("");
 
     try {
-      const chatResponse = await fetch("/api/ai/chat", {
+      const chatResponse = await authFetch("/api/ai/chat", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           message: messageToSend,
           context: {
-            profileId: "test-user-123",
             includeBalance: true,
             includeTransactions: true,
             includeRecipients: true,
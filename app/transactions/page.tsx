@@ -2,46 +2,187 @@
 
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
-import { ArrowLeft, Loader2 } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { ArrowLeft, Loader2, Search, SlidersHorizontal } from "lucide-react";
 import Link from "next/link";
 import { useUser } from "@/lib/user-context";
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import {
   getTransactionsByProfile,
   groupTransactionsByDate,
   type Transaction,
+  type TransactionQuery,
 } from "@/lib/transactions";
+import { TOKENS } from "@/lib/tokens";
 import { TransactionCard } from "@/components/ui/transaction-card";
 
+type DirectionFilter = "all" | "out" | "in";
+type StatusFilter = "completed" | "pending" | "failed" | "all";
+
+const DIRECTION_OPTIONS: Array<{ value: DirectionFilter; label: string }> = [
+  { value: "all", label: "All" },
+  { value: "out", label: "Sent" },
+  { value: "in", label: "Received" },
+];
+
+const STATUS_OPTIONS: Array<{ value: StatusFilter; label: string; statuses?: string[] }> = [
+  { value: "completed", label: "Completed", statuses: ["success"] },
+  { value: "pending", label: "Pending", statuses: ["pending", "sent"] },
+  { value: "failed", label: "Failed", statuses: ["failed"] },
+  { value: "all", label: "All" },
+];
+
+const PAGE_SIZE = 20;
+
+function FilterPills<T extends string>({
+  options,
+  value,
+  onChange,
+}: {
+  options: Array<{ value: T; label: string }>;
+  value: T;
+  onChange: (value: T) => void;
+}) {
+  return (
+    <div className="flex flex-wrap gap-2">
+      {options.map((option) => (
+        <button
+          key={option.value}
+          onClick={() => onChange(option.value)}
+          className={`px-3 py-1 rounded-full text-sm transition-colors ${
+            value === option.value
+              ? "bg-white text-black"
+              : "bg-white/10 text-white/70 hover:bg-white/20"
+          }`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
 export default function TransactionsPage() {
   const { profile } = useUser();
   const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  const [showFilters, setShowFilters] = useState(false);
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+  const [direction, setDirection] = useState<DirectionFilter>("all");
+  const [status, setStatus] = useState<StatusFilter>("completed");
+  const [token, setToken] = useState("");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [minAmount, setMinAmount] = useState("");
+  const [maxAmount, setMaxAmount] = useState("");
+
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  // Wait for typing to pause before searching
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearch(searchInput.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
+
+  const query = useMemo<TransactionQuery>(() => {
+    const statuses = STATUS_OPTIONS.find((o) => o.value === status)?.statuses;
+    return {
+      limit: PAGE_SIZE,
+      search: search || undefined,
+      direction: direction === "all" ? undefined : direction,
+      status: statuses,
+      token: token || undefined,
+      // Dates are picked in local time; include the whole end day
+      from: fromDate ? new Date(`${fromDate}T00:00:00`).toISOString() : undefined,
+      to: toDate ? new Date(`${toDate}T23:59:59.999`).toISOString() : undefined,
+      min_amount: minAmount ? parseFloat(minAmount) : undefined,
+      max_amount: maxAmount ? parseFloat(maxAmount) : undefined,
+    };
+  }, [search, direction, status, token, fromDate, toDate, minAmount, maxAmount]);
+
+  // Reload from the first page whenever the filters change
   useEffect(() => {
-    const fetchTransactions = async () => {
-      if (!profile?.id) return;
-
-      try {
-        setIsLoading(true);
-        const data = await getTransactionsByProfile(profile.id);
-        setTransactions(data);
-      } catch (err) {
+    if (!profile?.id) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    getTransactionsByProfile(profile.id, query)
+      .then((page) => {
+        if (cancelled) return;
+        setTransactions(page.items);
+        setNextCursor(page.next_cursor);
+      })
+      .catch((err) => {
+        if (cancelled) return;
         console.error("Failed to fetch transactions:", err);
         setError("Failed to load transactions");
-      } finally {
-        setIsLoading(false);
-      }
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
     };
+  }, [profile?.id, query]);
 
-    fetchTransactions();
-  }, [profile?.id]);
+  const loadMore = useCallback(async () => {
+    if (!profile?.id || !nextCursor || isLoadingMore) return;
 
-  const completedTransactions = transactions.filter(
-    (tx) => tx.status === "success"
-  );
-  const groupedTransactions = groupTransactionsByDate(completedTransactions);
+    setIsLoadingMore(true);
+    try {
+      const page = await getTransactionsByProfile(profile.id, { ...query, cursor: nextCursor });
+      setTransactions((prev) => [...prev, ...page.items]);
+      setNextCursor(page.next_cursor);
+    } catch (err) {
+      console.error("Failed to fetch more transactions:", err);
+      setError("Failed to load more transactions");
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [profile?.id, query, nextCursor, isLoadingMore]);
+
+  // Infinite scroll: load the next page when the end of the list is visible
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !nextCursor) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0]?.isIntersecting) {
+          loadMore();
+        }
+      },
+      { rootMargin: "200px" }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, loadMore]);
+
+  const hasFilters =
+    !!search || direction !== "all" || status !== "completed" || !!token ||
+    !!fromDate || !!toDate || !!minAmount || !!maxAmount;
+
+  const clearFilters = () => {
+    setSearchInput("");
+    setSearch("");
+    setDirection("all");
+    setStatus("completed");
+    setToken("");
+    setFromDate("");
+    setToDate("");
+    setMinAmount("");
+    setMaxAmount("");
+  };
+
+  const groupedTransactions = groupTransactionsByDate(transactions);
 
   return (
     <div className="min-h-screen bg-black text-white">
@@ -61,19 +202,120 @@ export default function TransactionsPage() {
           <div className="w-10" />
         </div>
 
+        {/* Filter bar */}
+        <div className="px-6 pt-6 space-y-3">
+          <div className="flex gap-2">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-white/40" />
+              <Input
+                placeholder="Search recipients"
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                className="h-10 pl-9 bg-white/5 border-white/10 text-white"
+              />
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setShowFilters((prev) => !prev)}
+              className={`h-10 w-10 rounded-md hover:bg-white/10 ${
+                showFilters || hasFilters ? "bg-white/10 text-white" : "text-white/60"
+              }`}
+            >
+              <SlidersHorizontal className="h-5 w-5" />
+            </Button>
+          </div>
+
+          {showFilters && (
+            <div className="bg-white/5 rounded-2xl border border-white/10 divide-y divide-white/10">
+              <div className="p-4 space-y-2">
+                <p className="text-sm text-white/50">Direction</p>
+                <FilterPills options={DIRECTION_OPTIONS} value={direction} onChange={setDirection} />
+              </div>
+              <div className="p-4 space-y-2">
+                <p className="text-sm text-white/50">Status</p>
+                <FilterPills options={STATUS_OPTIONS} value={status} onChange={setStatus} />
+              </div>
+              <div className="p-4 space-y-2">
+                <p className="text-sm text-white/50">Token</p>
+                <FilterPills
+                  options={[
+                    { value: "", label: "All" },
+                    ...Object.keys(TOKENS).map((symbol) => ({ value: symbol, label: symbol })),
+                  ]}
+                  value={token}
+                  onChange={setToken}
+                />
+              </div>
+              <div className="p-4 space-y-2">
+                <p className="text-sm text-white/50">Date</p>
+                <div className="flex gap-2">
+                  <Input
+                    type="date"
+                    value={fromDate}
+                    max={toDate || undefined}
+                    onChange={(e) => setFromDate(e.target.value)}
+                    className="h-10 bg-white/5 border-white/10 text-white"
+                  />
+                  <Input
+                    type="date"
+                    value={toDate}
+                    min={fromDate || undefined}
+                    onChange={(e) => setToDate(e.target.value)}
+                    className="h-10 bg-white/5 border-white/10 text-white"
+                  />
+                </div>
+              </div>
+              <div className="p-4 space-y-2">
+                <p className="text-sm text-white/50">Amount</p>
+                <div className="flex gap-2">
+                  <Input
+                    type="number"
+                    inputMode="decimal"
+                    min="0"
+                    placeholder="Min"
+                    value={minAmount}
+                    onChange={(e) => setMinAmount(e.target.value)}
+                    className="h-10 bg-white/5 border-white/10 text-white"
+                  />
+                  <Input
+                    type="number"
+                    inputMode="decimal"
+                    min="0"
+                    placeholder="Max"
+                    value={maxAmount}
+                    onChange={(e) => setMaxAmount(e.target.value)}
+                    className="h-10 bg-white/5 border-white/10 text-white"
+                  />
+                </div>
+              </div>
+              {hasFilters && (
+                <button
+                  onClick={clearFilters}
+                  className="w-full p-4 text-sm text-white/70 hover:text-white text-left"
+                >
+                  Clear filters
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+
         {/* Content */}
         <div className="p-6">
           {isLoading ? (
             <div className="flex justify-center items-center py-12">
               <Loader2 className="h-8 w-8 animate-spin text-white/60" />
             </div>
-          ) : error ? (
+          ) : error && transactions.length === 0 ? (
             <div className="text-center py-12">
               <p className="text-red-400">{error}</p>
             </div>
           ) : transactions.length === 0 ? (
             <div className="text-center py-12">
-              <p className="text-white/60">No transactions yet</p>
+              <p className="text-white/60">
+                {hasFilters ? "No transactions match these filters" : "No transactions yet"}
+              </p>
             </div>
           ) : (
             <div className="space-y-6">
@@ -89,11 +331,20 @@ export default function TransactionsPage() {
                         key={tx.id}
                         transaction={tx}
                         variant="completed"
+                        showNegative={tx.sender_profile_id === profile?.id}
                       />
                     ))}
                   </Card>
                 </div>
               ))}
+
+              <div ref={sentinelRef} />
+              {isLoadingMore && (
+                <div className="flex justify-center py-4">
+                  <Loader2 className="h-6 w-6 animate-spin text-white/60" />
+                </div>
+              )}
+              {error && <p className="text-center text-sm text-red-400">{error}</p>}
             </div>
           )}
         </div>
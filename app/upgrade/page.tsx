@@ -5,6 +5,7 @@ import { useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { X, Check, Wallet, Sparkles, Crown } from "lucide-react";
+import { AI_PLAN_QUOTAS } from "@/lib/ai-usage";
 
 export default function UpgradePage() {
   const router = useRouter();
@@ -21,7 +22,7 @@ export default function UpgradePage() {
       logoStyle: "outline", // white outline
       features: [
         "All the core features included to send, invest, and spend your stablecoins.",
-        "Limited number of BANB AI requests per month",
+        `${AI_PLAN_QUOTAS.free} BANB AI requests per month`,
         "Access to one spending and investment account",
       ],
       cta: "You're on this plan",
@@ -36,7 +37,7 @@ export default function UpgradePage() {
       features: [
         "No gas fees up to 100 transactions per month",
         "Access to more investment opportunities",
-        "Extended number of BANB AI requests per month",
+        `${AI_PLAN_QUOTAS.pro} BANB AI requests per month`,
         "Access to analytics and tax reports",
         "Priority support",
       ],
@@ -1,20 +1,20 @@
 /**
  * @fileoverview Wagmi configuration for blockchain connectivity.
- * Configures Base chain connection with Farcaster MiniApp connector.
+ * Configures every network in the chain registry with Farcaster MiniApp connector.
  * Uses localStorage for wallet connection persistence.
  */
 
-import { http, createStorage } from "wagmi";
+import { http, createStorage, type Transport } from "wagmi";
 import { createConfig } from "@privy-io/wagmi";
-import { base } from "viem/chains";
 import { farcasterMiniApp as miniAppConnector } from "@farcaster/miniapp-wagmi-connector";
+import { SUPPORTED_CHAINS } from "@/lib/chains";
 
 /**
  * Wagmi configuration for the application.
- * Supports Base chain with HTTP transport.
+ * Supports all registry networks with HTTP transport.
  *
  * Configuration includes:
- * - Chain: Base mainnet
+ * - Chains: Base (default), Ethereum, Arbitrum, Optimism, Polygon
  * - Connectors: Farcaster MiniApp (Privy handles other wallets)
  * - Storage: Browser localStorage for connection persistence
  *
@@ -36,10 +36,10 @@ import { farcasterMiniApp as miniAppConnector } from "@farcaster/miniapp-wagmi-c
  * ```
  */
 export const config = createConfig({
-  chains: [base],
-  transports: {
-    [base.id]: http(),
-  },
+  chains: SUPPORTED_CHAINS,
+  transports: Object.fromEntries(
+    SUPPORTED_CHAINS.map((chain) => [chain.id, http()])
+  ) as Record<number, Transport>,
   connectors: [miniAppConnector()],
   storage: createStorage({
     storage: typeof window !== "undefined" ? window.localStorage : undefined,
@@ -1,21 +1,51 @@
 "use client";
 
-import { useState } from "react";
-import { useRouter } from "next/navigation";
-import { X } from "lucide-react";
+import { Suspense, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { Loader2, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { useUser } from "@/lib/user-context";
+import { createWithdrawalQuote } from "@/lib/withdrawals";
+import { formatIban, validateIban } from "@/lib/bank-validation";
 
-export default function WithdrawIbanPage() {
+function WithdrawIbanContent() {
   const router = useRouter();
+  const searchParams = useSearchParams();
+  const amount = searchParams.get("amount") || "0";
+  const { profile } = useUser();
   const [iban, setIban] = useState("");
   const [accountHolder, setAccountHolder] = useState("");
   const [bankName, setBankName] = useState("");
+  const [isQuoting, setIsQuoting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const ibanError = iban ? validateIban(iban) : "IBAN is required";
+  const isValidIban = ibanError === null;
+  const hasAmount = parseFloat(amount) > 0;
+  const isFormValid =
+    isValidIban && accountHolder.trim().length > 0 && hasAmount;
+
+  const handleGetQuote = async () => {
+    if (!profile?.id || !isFormValid) return;
 
-  // Basic IBAN validation (starts with 2 letters followed by digits)
-  const isValidIban = /^[A-Z]{2}[0-9]{2,}/.test(iban.toUpperCase());
-  const isFormValid = isValidIban && accountHolder.trim().length > 0;
+    setIsQuoting(true);
+    setError(null);
+    try {
+      const withdrawal = await createWithdrawalQuote({
+        profile_id: profile.id,
+        amount,
+        iban,
+        account_holder: accountHolder,
+        bank_name: bankName || undefined,
+      });
+      router.push(`/withdraw/review/${withdrawal.id}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not get a quote");
+      setIsQuoting(false);
+    }
+  };
 
   return (
     <div className="min-h-screen bg-gradient-to-b from-[#3B1EFF] via-[#5B3FFF] to-[#1A0F3D] text-white">
@@ -45,11 +75,11 @@ export default function WithdrawIbanPage() {
               type="text"
               placeholder="GB29 NWBK 6016 1331 9268 19"
               value={iban}
-              onChange={(e) => setIban(e.target.value.toUpperCase())}
+              onChange={(e) => setIban(formatIban(e.target.value))}
               className="h-12 rounded-2xl bg-white/5 border-white/10 text-white placeholder:text-white/30 focus:border-white/30 focus:ring-0"
             />
-            {iban && !isValidIban && (
-              <p className="text-xs text-red-400">Please enter a valid IBAN</p>
+            {iban && ibanError && (
+              <p className="text-xs text-red-400">{ibanError}</p>
             )}
           </div>
 
@@ -87,26 +117,52 @@ export default function WithdrawIbanPage() {
         {/* Confirmation Summary */}
         <div className="rounded-2xl bg-white/5 border border-white/10 p-4">
           <p className="text-sm text-white/70">
-            Funds will be converted from USDC and sent to your IBAN via SEPA
-            transfer.
+            {hasAmount ? `${amount} USDC` : "Funds"} will be converted and sent
+            to your IBAN via SEPA transfer. You will see the exchange rate and
+            fee before you confirm.
           </p>
         </div>
 
-        {/* Fee and CTA */}
-        <div className="space-y-4 pt-4">
-          <div className="flex items-center justify-between text-sm">
-            <span className="text-white/70">Fees</span>
-            <span className="text-green-400 font-semibold">FREE</span>
+        {error && (
+          <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-sm">
+            {error}
           </div>
+        )}
 
+        {/* CTA */}
+        <div className="space-y-4 pt-4">
           <Button
-            disabled={!isFormValid}
+            disabled={!isFormValid || isQuoting || !profile?.id}
+            onClick={handleGetQuote}
             className="w-full h-14 rounded-2xl bg-gradient-to-r from-[#7B4CFF] to-[#3B1EFF] hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed text-white font-semibold text-lg shadow-lg shadow-purple-500/20"
           >
-            Withdraw
+            {isQuoting ? (
+              <Loader2 className="w-5 h-5 animate-spin" />
+            ) : (
+              "Get quote"
+            )}
           </Button>
+          {!hasAmount && (
+            <p className="text-center text-xs text-white/50">
+              Go back and enter an amount to withdraw.
+            </p>
+          )}
         </div>
       </div>
     </div>
   );
 }
+
+export default function WithdrawIbanPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="min-h-screen bg-black flex items-center justify-center">
+          <div className="text-white">Loading...</div>
+        </div>
+      }
+    >
+      <WithdrawIbanContent />
+    </Suspense>
+  );
+}
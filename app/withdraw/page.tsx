@@ -13,6 +13,10 @@ export default function WithdrawPage() {
   const [amount, setAmount] = useState("");
   const numericAmount = Number.parseFloat(amount) || 0;
 
+  const goToIban = () => {
+    router.push(`/withdraw/iban?amount=${numericAmount}`);
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-b from-[#3B1EFF] via-[#5B3FFF] to-[#1A0F3D] text-white">
       <div className="max-w-md mx-auto px-6 py-8 space-y-8">
@@ -47,7 +51,7 @@ export default function WithdrawPage() {
           <PaymentMethodButton
             icon={<Building2 className="w-5 h-5 text-white" />}
             label="Withdraw to IBAN"
-            onClick={() => router.push("/withdraw/iban")}
+            onClick={goToIban}
           />
         </div>
 
@@ -55,11 +59,12 @@ export default function WithdrawPage() {
         <div className="space-y-4 pt-8">
           <div className="flex items-center justify-between text-sm">
             <span className="text-white/70">Fees</span>
-            <span className="text-green-400 font-semibold">FREE</span>
+            <span className="text-white/50">Shown in your quote</span>
           </div>
 
           <Button
             disabled={numericAmount <= 0}
+            onClick={goToIban}
             className="w-full h-14 rounded-2xl bg-gradient-to-r from-[#7B4CFF] to-[#3B1EFF] hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed text-white font-semibold text-lg shadow-lg shadow-purple-500/20"
           >
             Withdraw
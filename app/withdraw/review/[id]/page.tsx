@@ -0,0 +1,208 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { ArrowLeft, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useUser } from "@/lib/user-context";
+import {
+  getWithdrawal,
+  isWithdrawalQuoteOpen,
+  useWithdrawalTransfer,
+  type Withdrawal,
+} from "@/lib/withdrawals";
+import { CHAINS, getChain } from "@/lib/chains";
+import { formatIban } from "@/lib/bank-validation";
+
+/**
+ * Formats the time left on a quote as m:ss.
+ */
+function formatTimeLeft(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
+
+export default function WithdrawReviewPage() {
+  const router = useRouter();
+  const params = useParams();
+  const withdrawalId = params.id as string;
+  const { profile } = useUser();
+  const { executeWithdrawal, isLoading: isSigning } = useWithdrawalTransfer();
+
+  const [withdrawal, setWithdrawal] = useState<Withdrawal | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!profile?.id) return;
+
+    getWithdrawal(withdrawalId, profile.id)
+      .then(setWithdrawal)
+      .catch((err) =>
+        setError(err instanceof Error ? err.message : "Failed to load quote")
+      )
+      .finally(() => setIsLoading(false));
+  }, [withdrawalId, profile?.id]);
+
+  // Tick once a second for the quote countdown
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const isOpen = withdrawal
+    ? isWithdrawalQuoteOpen(withdrawal, new Date(now))
+    : false;
+  const network = withdrawal
+    ? getChain(withdrawal.chain) ?? CHAINS.base
+    : CHAINS.base;
+  const currencySymbol = withdrawal?.fiat_currency === "EUR" ? "€" : "$";
+
+  const handleConfirm = async () => {
+    if (!withdrawal) return;
+
+    setError(null);
+    try {
+      const submitted = await executeWithdrawal(withdrawal);
+      router.push(`/withdraw/status/${submitted.id}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Withdrawal failed");
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-[#3B1EFF] via-[#5B3FFF] to-[#1A0F3D] text-white">
+      <div className="max-w-md mx-auto px-6 py-8 space-y-8">
+        {/* Header */}
+        <div className="flex items-center gap-3">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => router.back()}
+            className="text-white hover:bg-white/10 rounded-full"
+          >
+            <ArrowLeft className="w-6 h-6" />
+          </Button>
+          <h1 className="text-2xl font-semibold">Review withdrawal</h1>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-white/60" />
+          </div>
+        ) : !withdrawal ? (
+          <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-sm">
+            {error || "Withdrawal not found"}
+          </div>
+        ) : (
+          <>
+            {/* Payout amount */}
+            <div className="text-center space-y-1">
+              <p className="text-sm text-white/70">You receive</p>
+              <p className="text-5xl font-bold">
+                {currencySymbol}
+                {withdrawal.fiat_amount}
+              </p>
+            </div>
+
+            {/* Quote details */}
+            <div className="rounded-2xl bg-white/5 border border-white/10 p-4 space-y-3 text-sm">
+              <div className="flex justify-between">
+                <span className="text-white/70">You send</span>
+                <span>
+                  {withdrawal.amount} {withdrawal.token}
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-white/70">Exchange rate</span>
+                <span>
+                  1 {withdrawal.token} = {currencySymbol}
+                  {parseFloat(withdrawal.fx_rate).toFixed(4)}
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-white/70">Fee</span>
+                <span>
+                  {currencySymbol}
+                  {withdrawal.fee}
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-white/70">Network</span>
+                <span className="flex items-center gap-2">
+                  <span
+                    className="w-2.5 h-2.5 rounded-full"
+                    style={{ backgroundColor: network.color }}
+                  />
+                  {network.label}
+                </span>
+              </div>
+            </div>
+
+            {/* Destination */}
+            <div className="rounded-2xl bg-white/5 border border-white/10 p-4 space-y-3 text-sm">
+              <div className="flex justify-between gap-4">
+                <span className="text-white/70">Account holder</span>
+                <span className="truncate">{withdrawal.account_holder}</span>
+              </div>
+              <div className="flex justify-between gap-4">
+                <span className="text-white/70">IBAN</span>
+                <span className="font-mono truncate">
+                  {formatIban(withdrawal.iban)}
+                </span>
+              </div>
+              {withdrawal.bank_name && (
+                <div className="flex justify-between gap-4">
+                  <span className="text-white/70">Bank</span>
+                  <span className="truncate">{withdrawal.bank_name}</span>
+                </div>
+              )}
+            </div>
+
+            {error && (
+              <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-sm">
+                {error}
+              </div>
+            )}
+
+            {/* CTA */}
+            <div className="space-y-3">
+              <p className="text-center text-xs text-white/50">
+                {isOpen
+                  ? `Quote expires in ${formatTimeLeft(
+                      new Date(withdrawal.quote_expires_at).getTime() - now
+                    )}`
+                  : "This quote is no longer valid."}
+              </p>
+              {isOpen ? (
+                <Button
+                  onClick={handleConfirm}
+                  disabled={isSigning}
+                  className="w-full h-14 rounded-2xl bg-gradient-to-r from-[#7B4CFF] to-[#3B1EFF] hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed text-white font-semibold text-lg shadow-lg shadow-purple-500/20"
+                >
+                  {isSigning ? (
+                    <Loader2 className="w-5 h-5 animate-spin" />
+                  ) : (
+                    "Confirm and sign"
+                  )}
+                </Button>
+              ) : (
+                <Button
+                  onClick={() =>
+                    router.push(`/withdraw/iban?amount=${withdrawal.amount}`)
+                  }
+                  className="w-full h-14 rounded-2xl bg-white text-black hover:bg-white/90 font-semibold text-lg"
+                >
+                  Get a new quote
+                </Button>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,247 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import {
+  AlertCircle,
+  Building2,
+  Check,
+  Copy,
+  ExternalLink,
+  Loader2,
+} from "lucide-react";
+import { useUser } from "@/lib/user-context";
+import { useWithdrawalStatus } from "@/lib/withdrawals";
+import { getExplorerTxUrl } from "@/lib/chains";
+
+export default function WithdrawStatusPage() {
+  const router = useRouter();
+  const params = useParams();
+  const withdrawalId = params.id as string;
+  const { profile } = useUser();
+
+  const { withdrawal, isLoading, error } = useWithdrawalStatus(
+    withdrawalId,
+    profile?.id
+  );
+  const [copied, setCopied] = useState(false);
+
+  const copyTxHash = () => {
+    if (withdrawal?.tx_hash) {
+      navigator.clipboard.writeText(withdrawal.tx_hash);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    }
+  };
+
+  const openExplorer = () => {
+    if (withdrawal?.tx_hash) {
+      window.open(getExplorerTxUrl(withdrawal.tx_hash, withdrawal.chain), "_blank");
+    }
+  };
+
+  const steps = useMemo(
+    () => [
+      { label: "Submitted", status: "submitted" },
+      { label: "Processing", status: "processing" },
+      { label: "Settled", status: "settled" },
+    ],
+    []
+  );
+
+  // Number of completed steps
+  const currentStep =
+    withdrawal?.status === "settled"
+      ? 3
+      : withdrawal?.status === "processing"
+      ? 2
+      : withdrawal?.status === "submitted"
+      ? 1
+      : 0;
+
+  if (isLoading || (!withdrawal && !error)) {
+    return (
+      <div className="min-h-screen bg-[#0E0E0F] text-white flex flex-col">
+        <div className="mx-auto max-w-md w-full flex flex-col h-screen">
+          <div className="flex flex-col h-full px-6">
+            <div className="flex-1 flex flex-col justify-center items-center">
+              <div className="text-white/60">Loading withdrawal status...</div>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !withdrawal) {
+    return (
+      <div className="min-h-screen bg-[#0E0E0F] text-white flex flex-col">
+        <div className="mx-auto max-w-md w-full flex flex-col h-screen">
+          <div className="flex flex-col h-full px-6">
+            <div className="flex-1 flex flex-col justify-center items-center">
+              <AlertCircle className="h-12 w-12 text-red-500 mb-4" />
+              <div className="text-red-400 text-center">
+                {error || "Withdrawal not found"}
+              </div>
+            </div>
+            <div className="pb-6 pt-4">
+              <Button
+                onClick={() => router.push("/home")}
+                className="w-full h-14 rounded-full bg-white text-black hover:bg-white/90 text-base font-medium"
+              >
+                Back to Home
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const currencySymbol = withdrawal.fiat_currency === "EUR" ? "€" : "$";
+  const isUnsuccessful =
+    withdrawal.status === "returned" ||
+    withdrawal.status === "failed" ||
+    withdrawal.status === "expired";
+  const isInFlight = currentStep > 0 && currentStep < 3;
+
+  return (
+    <div className="min-h-screen bg-[#0E0E0F] text-white flex flex-col">
+      <div className="mx-auto max-w-md w-full flex flex-col h-screen">
+        <div className="flex flex-col h-full px-6">
+          <div className="flex-1 flex flex-col justify-center items-center space-y-8">
+            {/* Icon with badge */}
+            <div className="relative">
+              <div className="w-16 h-16 rounded-full bg-white/10 flex items-center justify-center">
+                <Building2 className="w-8 h-8 text-white" />
+              </div>
+              <div
+                className={`absolute -bottom-1 -right-1 w-7 h-7 rounded-full flex items-center justify-center border-2 border-[#0E0E0F] ${
+                  isUnsuccessful
+                    ? "bg-red-500"
+                    : currentStep === 3
+                    ? "bg-green-500"
+                    : "bg-blue-500"
+                }`}
+              >
+                {isUnsuccessful ? (
+                  <AlertCircle className="w-4 h-4 text-white" />
+                ) : currentStep === 3 ? (
+                  <Check className="w-4 h-4 text-white" />
+                ) : (
+                  <Loader2 className="w-4 h-4 text-white animate-spin" />
+                )}
+              </div>
+            </div>
+
+            {/* Status text */}
+            <div className="text-center">
+              <h2 className="text-xl font-medium text-white mb-2">
+                {withdrawal.status === "settled"
+                  ? "Withdrawal complete!"
+                  : withdrawal.status === "returned"
+                  ? "Withdrawal returned"
+                  : withdrawal.status === "expired"
+                  ? "Quote expired"
+                  : withdrawal.status === "failed"
+                  ? "Withdrawal failed"
+                  : "Sending to your bank"}
+              </h2>
+              <p className="text-white/60 text-sm">
+                {isUnsuccessful
+                  ? withdrawal.failure_reason ||
+                    "No funds were paid out to your bank account"
+                  : `${currencySymbol}${withdrawal.fiat_amount} to ${withdrawal.account_holder}`}
+              </p>
+            </div>
+
+            {/* Payout steps */}
+            {!isUnsuccessful && (
+              <div className="w-full space-y-4">
+                {steps.map((step, index) => {
+                  const isActive = index < currentStep;
+                  const isCurrent = index === currentStep;
+
+                  return (
+                    <div
+                      key={step.label}
+                      className="flex justify-between items-center"
+                    >
+                      <span
+                        className={`text-base ${
+                          isActive ? "text-white" : "text-white/40"
+                        }`}
+                      >
+                        {step.label}
+                      </span>
+                      <div
+                        className={`h-8 w-8 rounded-full flex items-center justify-center transition-all duration-500 ${
+                          isActive
+                            ? "bg-green-500"
+                            : isCurrent
+                            ? "bg-blue-500"
+                            : "bg-white/10"
+                        }`}
+                      >
+                        {isActive ? (
+                          <Check className="h-5 w-5 text-white" />
+                        ) : isCurrent ? (
+                          <Loader2 className="h-4 w-4 text-white animate-spin" />
+                        ) : (
+                          <div className="h-2 w-2 rounded-full bg-white/50" />
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {/* Transaction hash with inline buttons */}
+            {withdrawal.tx_hash && (
+              <div className="w-full pt-4">
+                <div className="flex justify-between items-center mb-2">
+                  <span className="text-white text-sm">TX Hash</span>
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={copyTxHash}
+                      className="p-1.5 hover:bg-white/10 rounded-lg transition-colors"
+                      title="Copy hash"
+                    >
+                      {copied ? (
+                        <Check className="h-4 w-4 text-green-500" />
+                      ) : (
+                        <Copy className="h-4 w-4 text-white/60" />
+                      )}
+                    </button>
+                    <button
+                      onClick={openExplorer}
+                      className="p-1.5 hover:bg-white/10 rounded-lg transition-colors"
+                      title="View on explorer"
+                    >
+                      <ExternalLink className="h-4 w-4 text-white/60" />
+                    </button>
+                  </div>
+                </div>
+                <div className="text-white/90 text-sm font-mono break-all bg-white/5 px-3 py-2 rounded-lg">
+                  {withdrawal.tx_hash}
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Action Button */}
+          <div className="pb-8 pt-4">
+            <Button
+              onClick={() => router.push("/home")}
+              className="w-full h-14 rounded-full bg-white text-black hover:bg-white/90 text-base font-medium"
+            >
+              {isInFlight ? "Back to Home" : "Close"}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,11 +2,14 @@
 
 import { useState, useEffect, useCallback } from "react";
 import Image from "next/image";
+import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card } from "@/components/ui/card";
 import { Mic, X, Check, XCircle } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
+import { useUser } from "@/lib/user-context";
+import { getAIUsage, type AIUsageSummary } from "@/lib/ai-usage";
 
 const greetingMessages = [
   "Hey, need help with your finances?",
@@ -32,6 +35,8 @@ export function AIBar({
   const [inputValue, setInputValue] = useState("");
   const [showConfirmation, setShowConfirmation] = useState(false);
   const [aiResponse, setAiResponse] = useState("");
+  const [usage, setUsage] = useState<AIUsageSummary | null>(null);
+  const { profile } = useUser();
 
   // Use external state if provided, otherwise use internal state
   const isExpanded =
@@ -60,6 +65,15 @@ export function AIBar({
     }
   }, [isExpanded]);
 
+  // Refresh the remaining AI requests whenever the bar opens
+  useEffect(() => {
+    if (!isExpanded || !profile?.id) return;
+
+    getAIUsage(profile.id)
+      .then(setUsage)
+      .catch((err) => console.error("[AIBar] Failed to load AI usage:", err));
+  }, [isExpanded, profile?.id]);
+
   // Auto-collapse after inactivity
   useEffect(() => {
     if (isExpanded && !inputValue && !showConfirmation) {
@@ -231,9 +245,24 @@ export function AIBar({
                       width={28}
                       height={28}
                     />
-                    <h3 className="font-semibold text-gray-900">
-                      BANB Assistant
-                    </h3>
+                    <div>
+                      <h3 className="font-semibold text-gray-900">
+                        BANB Assistant
+                      </h3>
+                      {usage && (
+                        <p className="text-xs text-gray-500">
+                          {usage.remaining} of {usage.limit} requests left this month
+                          {usage.remaining === 0 && usage.plan === "free" && (
+                            <>
+                              {" · "}
+                              <Link href="/upgrade" className="text-indigo-600 font-medium">
+                                Upgrade
+                              </Link>
+                            </>
+                          )}
+                        </p>
+                      )}
+                    </div>
                   </div>
                   <Button
                     size="icon"
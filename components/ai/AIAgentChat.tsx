@@ -7,7 +7,7 @@ import { useAIAgent, type AIAgentMessage, type ParsedAIOperation } from "@/lib/a
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card } from "@/components/ui/card";
-import { Loader2, Send, Sparkles, TrendingUp, DollarSign, Users, History } from "lucide-react";
+import { Loader2, Send, Sparkles, TrendingUp, DollarSign, Users, History, Square } from "lucide-react";
 import { AIOperationConfirmation } from "./AIOperationConfirmation";
 import { useRouter } from "next/navigation";
 
@@ -16,14 +16,18 @@ import { useRouter } from "next/navigation";
  * 
  * Provides a conversational interface for AI-powered banking operations.
  * Features message history, suggested prompts, typing indicators, and operation confirmations.
+ * Answers stream in as they are generated and can be stopped with the stop button.
+ * Conversations are stored, so they can be resumed from the history page.
  * 
  * @component
+ * @param {string} [conversationId] - Stored conversation to resume
  * @example
  * ```tsx
  * <AIAgentChat />
+ * <AIAgentChat conversationId={id} />
  * ```
  */
-export function AIAgentChat() {
+export function AIAgentChat({ conversationId }: { conversationId?: string } = {}) {
   const { profile, isLoading: isLoadingProfile } = useUser();
   const { address } = useAccount();
   const router = useRouter();
@@ -33,12 +37,21 @@ export function AIAgentChat() {
 
   const {
     messages,
+    isLoadingConversation,
     isProcessing,
+    toolStatus,
     sendMessage,
+    cancelMessage,
     clearHistory,
     error,
     pendingOperation,
-  } = useAIAgent(profile?.id || "", address);
+  } = useAIAgent(profile?.id || "", address, conversationId);
+
+  // Show the typing indicator until the answer starts arriving, and while tools run
+  const lastMessage = messages[messages.length - 1];
+  const isWaitingForText =
+    isProcessing &&
+    (!!toolStatus || (lastMessage?.role === "assistant" && !lastMessage.content));
 
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
@@ -103,6 +116,15 @@ export function AIAgentChat() {
     );
   }
 
+  if (isLoadingConversation) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full p-6">
+        <Loader2 className="h-8 w-8 animate-spin text-primary mb-4" />
+        <p className="text-muted-foreground">Loading conversation...</p>
+      </div>
+    );
+  }
+
   // Show authentication required if no profile
   if (!profile) {
     return (
@@ -144,7 +166,7 @@ export function AIAgentChat() {
               onClick={clearHistory}
               disabled={isProcessing}
             >
-              Clear
+              New chat
             </Button>
           )}
         </div>
@@ -183,16 +205,18 @@ export function AIAgentChat() {
           </div>
         ) : (
           <>
-            {messages.map((message, index) => (
-              <MessageBubble
-                key={index}
-                message={message}
-                onAction={handleMessageAction}
-              />
-            ))}
+            {messages.map((message, index) =>
+              message.content ? (
+                <MessageBubble
+                  key={index}
+                  message={message}
+                  onAction={isProcessing ? undefined : handleMessageAction}
+                />
+              ) : null
+            )}
 
             {/* Typing Indicator */}
-            {isProcessing && (
+            {isWaitingForText && (
               <div className="flex items-start gap-3">
                 <div className="w-8 h-8 rounded-full bg-primary/10 flex items-center justify-center flex-shrink-0">
                   <Sparkles className="h-4 w-4 text-primary" />
@@ -200,7 +224,9 @@ export function AIAgentChat() {
                 <Card className="p-3 max-w-[80%]">
                   <div className="flex items-center gap-2">
                     <Loader2 className="h-4 w-4 animate-spin" />
-                    <span className="text-sm text-muted-foreground">Thinking...</span>
+                    <span className="text-sm text-muted-foreground">
+                      {toolStatus || "Thinking..."}
+                    </span>
                   </div>
                 </Card>
               </div>
@@ -228,17 +254,24 @@ export function AIAgentChat() {
             disabled={isProcessing}
             className="flex-1"
           />
-          <Button
-            onClick={handleSend}
-            disabled={!inputValue.trim() || isProcessing}
-            size="icon"
-          >
-            {isProcessing ? (
-              <Loader2 className="h-4 w-4 animate-spin" />
-            ) : (
+          {isProcessing ? (
+            <Button
+              onClick={cancelMessage}
+              size="icon"
+              variant="outline"
+              aria-label="Stop response"
+            >
+              <Square className="h-4 w-4" />
+            </Button>
+          ) : (
+            <Button
+              onClick={handleSend}
+              disabled={!inputValue.trim()}
+              size="icon"
+            >
               <Send className="h-4 w-4" />
-            )}
-          </Button>
+            </Button>
+          )}
         </div>
       </div>
 
@@ -345,6 +378,7 @@ function MessageBubble({
               hour: "2-digit",
               minute: "2-digit",
             })}
+            {message.cancelled && " · Stopped"}
           </p>
         </Card>
 
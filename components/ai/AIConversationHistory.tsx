@@ -0,0 +1,279 @@
+"use client";
+
+import { useEffect, useState, useCallback } from "react";
+import Link from "next/link";
+import { useUser } from "@/lib/user-context";
+import {
+  AI_CONVERSATION_TITLE_LENGTH,
+  deleteConversation,
+  getConversations,
+  renameConversation,
+  type AIConversationSummary,
+} from "@/lib/ai-conversations";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { AlertCircle, Loader2, MessageSquare, Pencil, Trash2 } from "lucide-react";
+
+/**
+ * AI Conversation History Component
+ *
+ * Lists the user's stored AI conversations, most recently active first.
+ * Conversations can be opened to continue them, renamed, or deleted.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <AIConversationHistory />
+ * ```
+ */
+export function AIConversationHistory() {
+  const { profile } = useUser();
+  const [conversations, setConversations] = useState<AIConversationSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadConversations = useCallback(async () => {
+    if (!profile?.id) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      setConversations(await getConversations(profile.id));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Failed to load conversations";
+      setError(errorMessage);
+      console.error("[AIConversationHistory] Error:", err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [profile?.id]);
+
+  useEffect(() => {
+    if (profile?.id) {
+      loadConversations();
+    }
+  }, [profile?.id, loadConversations]);
+
+  if (!profile) {
+    return (
+      <Card className="p-6 text-center">
+        <p className="text-muted-foreground">Please log in to view your conversations</p>
+      </Card>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <Card className="p-6">
+        <div className="flex items-center justify-center gap-2">
+          <Loader2 className="h-5 w-5 animate-spin" />
+          <span className="text-muted-foreground">Loading conversations...</span>
+        </div>
+      </Card>
+    );
+  }
+
+  if (error) {
+    return (
+      <Card className="p-6">
+        <div className="flex flex-col items-center gap-4">
+          <AlertCircle className="h-8 w-8 text-destructive" />
+          <div className="text-center space-y-2">
+            <p className="font-medium">Failed to load conversations</p>
+            <p className="text-sm text-muted-foreground">{error}</p>
+          </div>
+          <Button onClick={loadConversations} variant="outline">
+            Try Again
+          </Button>
+        </div>
+      </Card>
+    );
+  }
+
+  if (conversations.length === 0) {
+    return (
+      <Card className="p-6 text-center">
+        <div className="space-y-2">
+          <p className="font-medium">No conversations yet</p>
+          <p className="text-sm text-muted-foreground">
+            Your chats with the AI assistant will appear here
+          </p>
+        </div>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold">Conversations</h3>
+        <Button onClick={loadConversations} variant="ghost" size="sm">
+          Refresh
+        </Button>
+      </div>
+
+      <div className="space-y-3">
+        {conversations.map((conversation) => (
+          <ConversationCard
+            key={conversation.id}
+            conversation={conversation}
+            profileId={profile.id}
+            onRenamed={(updated) =>
+              setConversations((prev) =>
+                prev.map((c) => (c.id === updated.id ? { ...c, title: updated.title } : c))
+              )
+            }
+            onDeleted={(id) => setConversations((prev) => prev.filter((c) => c.id !== id))}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Conversation Card Component
+ * Shows a conversation with open, rename and delete actions.
+ */
+function ConversationCard({
+  conversation,
+  profileId,
+  onRenamed,
+  onDeleted,
+}: {
+  conversation: AIConversationSummary;
+  profileId: string;
+  onRenamed: (conversation: { id: string; title: string }) => void;
+  onDeleted: (id: string) => void;
+}) {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [title, setTitle] = useState(conversation.title);
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRename = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const updated = await renameConversation(conversation.id, profileId, title);
+      onRenamed(updated);
+      setIsRenaming(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to rename conversation");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await deleteConversation(conversation.id, profileId);
+      onDeleted(conversation.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete conversation");
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="p-4">
+      <div className="space-y-3">
+        <div className="flex items-start justify-between gap-3">
+          <div className="flex items-start gap-3 flex-1 min-w-0">
+            <MessageSquare className="h-5 w-5 text-primary mt-0.5 flex-shrink-0" />
+
+            <div className="flex-1 min-w-0">
+              {isRenaming ? (
+                <div className="flex gap-2">
+                  <Input
+                    value={title}
+                    onChange={(e) => setTitle(e.target.value)}
+                    maxLength={AI_CONVERSATION_TITLE_LENGTH}
+                    disabled={isSaving}
+                    autoFocus
+                  />
+                  <Button size="sm" onClick={handleRename} disabled={isSaving || !title.trim()}>
+                    Save
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => {
+                      setIsRenaming(false);
+                      setTitle(conversation.title);
+                    }}
+                    disabled={isSaving}
+                  >
+                    Cancel
+                  </Button>
+                </div>
+              ) : (
+                <Link
+                  href={`/ai-assistant?conversation=${conversation.id}`}
+                  className="font-medium hover:underline block truncate"
+                >
+                  {conversation.title}
+                </Link>
+              )}
+              <p className="text-sm text-muted-foreground mt-1">
+                {conversation.message_count} messages ·{" "}
+                {new Date(conversation.updated_at).toLocaleString()}
+              </p>
+            </div>
+          </div>
+
+          {!isRenaming && !isConfirmingDelete && (
+            <div className="flex items-center gap-1">
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setIsRenaming(true)}
+                aria-label="Rename conversation"
+              >
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setIsConfirmingDelete(true)}
+                aria-label="Delete conversation"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {conversation.summary && (
+          <p className="pl-8 text-sm text-muted-foreground line-clamp-2">
+            {conversation.summary}
+          </p>
+        )}
+
+        {isConfirmingDelete && (
+          <div className="pl-8 flex items-center gap-2">
+            <span className="text-sm">Delete this conversation?</span>
+            <Button size="sm" variant="destructive" onClick={handleDelete} disabled={isSaving}>
+              {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : "Delete"}
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => setIsConfirmingDelete(false)}
+              disabled={isSaving}
+            >
+              Cancel
+            </Button>
+          </div>
+        )}
+
+        {error && <p className="pl-8 text-sm text-destructive">{error}</p>}
+      </div>
+    </Card>
+  );
+}
@@ -1,9 +1,17 @@
 "use client";
 
 import { useState } from "react";
-import { type ParsedAIOperation, executeAIOperation } from "@/lib/ai-agent";
+import { useRouter } from "next/navigation";
+import {
+  type ParsedAIOperation,
+  executeAIOperation,
+  logAIOperationStep,
+  validateAIOperation,
+} from "@/lib/ai-agent";
 import { useUser } from "@/lib/user-context";
-import { useUSDCBalance } from "@/lib/payments";
+import { useTokenBalance } from "@/lib/payments";
+import { DEFAULT_TOKEN, getToken, isTokenSupported } from "@/lib/tokens";
+import { DEFAULT_CHAIN, getChain } from "@/lib/chains";
 import { useAccount } from "wagmi";
 import {
   Dialog,
@@ -16,7 +24,7 @@ import {
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Checkbox } from "@/components/ui/checkbox";
-import { AlertTriangle, DollarSign, TrendingUp, HelpCircle, Loader2, Shield, AlertCircle } from "lucide-react";
+import { AlertTriangle, DollarSign, TrendingUp, HelpCircle, Loader2, Shield, AlertCircle, PiggyBank, UserPlus, ArrowDownToLine } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 
 interface AIOperationConfirmationProps {
@@ -50,9 +58,14 @@ export function AIOperationConfirmation({
   onConfirm,
   onReject,
 }: AIOperationConfirmationProps) {
+  const router = useRouter();
   const { profile } = useUser();
   const { address } = useAccount();
-  const { formattedBalance } = useUSDCBalance(address);
+  const { formattedBalance } = useTokenBalance(
+    address,
+    getOperationToken(operation),
+    getOperationChain(operation)
+  );
   const { toast } = useToast();
   const [isExecuting, setIsExecuting] = useState(false);
   const [open, setOpen] = useState(true);
@@ -107,6 +120,12 @@ export function AIOperationConfirmation({
         });
         setOpen(false);
         onConfirm();
+
+        // Deposits and withdrawals are signed from the prefilled review page
+        const reviewPath = (result.result as { result?: { reviewPath?: string } }).result?.reviewPath;
+        if ((operation.type === "invest" || operation.type === "withdraw_investment") && reviewPath) {
+          router.push(reviewPath);
+        }
       }
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : "Operation failed";
@@ -121,6 +140,9 @@ export function AIOperationConfirmation({
   };
 
   const handleReject = () => {
+    if (operation.id && profile?.id) {
+      logAIOperationStep(operation.id, profile.id, "rejected");
+    }
     setOpen(false);
     onReject();
   };
@@ -174,7 +196,7 @@ export function AIOperationConfirmation({
                       Payment Security Warning
                     </p>
                     <ul className="text-xs text-amber-800 dark:text-amber-200 space-y-1">
-                      <li>• This will send real USDC from your wallet</li>
+                      <li>• This will send real {getOperationToken(operation)} from your wallet</li>
                       <li>• Blockchain transactions cannot be reversed</li>
                       <li>• Verify the recipient address is correct</li>
                       <li>• You will need to approve the transaction in your wallet</li>
@@ -247,60 +269,47 @@ export function AIOperationConfirmation({
 }
 
 /**
- * Validates an operation before execution
+ * Resolves the registry symbol of the token an operation sends.
+ * Falls back to the default token when missing or unsupported; investments
+ * and withdrawals are always in the default token.
  */
-function validateOperation(operation: ParsedAIOperation, balance?: string): string[] {
-  const errors: string[] = [];
-
-  switch (operation.type) {
-    case "payment":
-      // Validate amount
-      if (!operation.data.amount) {
-        errors.push("Payment amount is required");
-      } else {
-        const amount = parseFloat(operation.data.amount as string);
-        if (isNaN(amount) || amount <= 0) {
-          errors.push("Payment amount must be greater than zero");
-        }
-
-        // Check balance
-        if (balance) {
-          const balanceNum = parseFloat(balance);
-          if (!isNaN(balanceNum) && amount > balanceNum) {
-            errors.push(`Insufficient balance. You have ${balance} USDC but trying to send ${amount} USDC`);
-          }
-        }
-      }
-
-      // Validate recipient
-      if (!operation.data.to && !operation.data.recipient_id) {
-        errors.push("Recipient address or ID is required");
-      }
-
-      // Validate address format if provided
-      if (operation.data.to && typeof operation.data.to === "string") {
-        const address = operation.data.to as string;
-        if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
-          errors.push("Invalid recipient address format");
-        }
-      }
-
-      // Validate chain
-      if (!operation.data.chain) {
-        errors.push("Blockchain network is required");
-      }
-      break;
-
-    case "analysis":
-      // Analysis operations don't require validation
-      break;
+function getOperationToken(operation: ParsedAIOperation): string {
+  if (operation.type !== "payment") {
+    return DEFAULT_TOKEN;
+  }
+  return getToken(operation.data.token || DEFAULT_TOKEN)?.symbol ?? DEFAULT_TOKEN;
+}
 
-    case "query":
-      // Query operations don't require validation
-      break;
+/**
+ * Resolves the network an operation sends on.
+ * Falls back to the default network when missing, unsupported, or when the
+ * operation's token is not available there (validation reports the mismatch).
+ */
+function getOperationChain(operation: ParsedAIOperation): string {
+  if (operation.type !== "payment") {
+    return DEFAULT_CHAIN;
+  }
+  const chain = getChain(operation.data.chain || DEFAULT_CHAIN)?.name;
+  return chain && isTokenSupported(getOperationToken(operation), chain)
+    ? chain
+    : DEFAULT_CHAIN;
+}
 
-    default:
-      errors.push("Unknown operation type");
+/**
+ * Validates an operation before execution.
+ * Runs the shared operation schema, then checks the amount against the balance.
+ */
+function validateOperation(operation: ParsedAIOperation, balance?: string): string[] {
+  const { errors } = validateAIOperation(operation);
+
+  if (operation.type === "payment" || operation.type === "invest") {
+    const amount = parseFloat(operation.data.amount);
+    const balanceNum = balance ? parseFloat(balance) : NaN;
+    if (!isNaN(amount) && !isNaN(balanceNum) && amount > balanceNum) {
+      const token = getOperationToken(operation);
+      const verb = operation.type === "payment" ? "send" : "invest";
+      errors.push(`Insufficient balance. You have ${balance} ${token} but trying to ${verb} ${amount} ${token}`);
+    }
   }
 
   return errors;
@@ -329,14 +338,22 @@ function OperationDetails({
             <div className="flex items-center justify-between">
               <span className="text-sm text-muted-foreground">Amount</span>
               <span className="text-sm font-medium">
-                {String(operation.data.amount)} {String(operation.data.token) || "USDC"}
+                {String(operation.data.amount)} {getOperationToken(operation)}
               </span>
             </div>
           )}
           {balance && (
             <div className="flex items-center justify-between">
               <span className="text-sm text-muted-foreground">Your Balance</span>
-              <span className="text-sm font-medium">{balance} USDC</span>
+              <span className="text-sm font-medium">
+                {balance} {getOperationToken(operation)}
+              </span>
+            </div>
+          )}
+          {operation.data.recipient_name != null && (
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-muted-foreground">Recipient</span>
+              <span className="text-sm font-medium">{operation.data.recipient_name}</span>
             </div>
           )}
           {operation.data.to != null && (
@@ -350,12 +367,94 @@ function OperationDetails({
           {operation.data.chain != null && (
             <div className="flex items-center justify-between">
               <span className="text-sm text-muted-foreground">Network</span>
-              <span className="text-sm font-medium capitalize">{String(operation.data.chain)}</span>
+              <span className="text-sm font-medium capitalize">
+                {getChain(String(operation.data.chain))?.label ?? String(operation.data.chain)}
+              </span>
+            </div>
+          )}
+          {operation.data.note && (
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-muted-foreground">Note</span>
+              <span className="text-sm font-medium">{operation.data.note}</span>
             </div>
           )}
         </div>
       );
 
+    case "invest":
+      return (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-muted-foreground">Type</span>
+            <span className="text-sm font-medium">Investment</span>
+          </div>
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-muted-foreground">Vault</span>
+            <span className="text-sm font-medium">
+              {operation.data.vault_name ?? operation.data.option_id}
+            </span>
+          </div>
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-muted-foreground">Amount</span>
+            <span className="text-sm font-medium">
+              {operation.data.amount} {getOperationToken(operation)}
+            </span>
+          </div>
+          {balance && (
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-muted-foreground">Your Balance</span>
+              <span className="text-sm font-medium">
+                {balance} {getOperationToken(operation)}
+              </span>
+            </div>
+          )}
+        </div>
+      );
+
+    case "withdraw_investment":
+      return (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-muted-foreground">Type</span>
+            <span className="text-sm font-medium">Withdrawal</span>
+          </div>
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-muted-foreground">Vault</span>
+            <span className="text-sm font-medium">
+              {operation.data.vault_name ?? operation.data.option_id}
+            </span>
+          </div>
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-muted-foreground">Amount</span>
+            <span className="text-sm font-medium">
+              {operation.data.withdraw_all
+                ? "Entire position"
+                : `${operation.data.amount} ${getOperationToken(operation)}`}
+            </span>
+          </div>
+        </div>
+      );
+
+    case "recipient":
+      return (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-muted-foreground">Type</span>
+            <span className="text-sm font-medium">New Recipient</span>
+          </div>
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-muted-foreground">Name</span>
+            <span className="text-sm font-medium">{operation.data.name}</span>
+          </div>
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-muted-foreground">Address</span>
+            <span className="text-sm font-mono">
+              {operation.data.address.slice(0, 6)}...{operation.data.address.slice(-4)}
+            </span>
+          </div>
+        </div>
+      );
+
     case "analysis":
       return (
         <div className="space-y-2">
@@ -398,6 +497,12 @@ function getOperationIcon(type: string) {
   switch (type) {
     case "payment":
       return <DollarSign className="h-5 w-5" />;
+    case "invest":
+      return <PiggyBank className="h-5 w-5" />;
+    case "withdraw_investment":
+      return <ArrowDownToLine className="h-5 w-5" />;
+    case "recipient":
+      return <UserPlus className="h-5 w-5" />;
     case "analysis":
       return <TrendingUp className="h-5 w-5" />;
     case "query":
@@ -414,6 +519,12 @@ function getOperationExplanation(type: string): string {
   switch (type) {
     case "payment":
       return "The AI assistant has suggested a payment. This will execute a blockchain transaction from your connected wallet.";
+    case "invest":
+      return "The AI assistant has suggested an investment. You will review the deposit and sign it from your connected wallet.";
+    case "withdraw_investment":
+      return "The AI assistant has suggested withdrawing from an investment. You will review the withdrawal and sign it from your connected wallet.";
+    case "recipient":
+      return "The AI assistant has suggested saving a new recipient. Check the address carefully before saving it.";
     case "analysis":
       return "The AI assistant will analyze your transaction history to provide spending insights and patterns.";
     case "query":
@@ -430,6 +541,12 @@ function getSuccessMessage(type: string): string {
   switch (type) {
     case "payment":
       return "Payment initiated successfully";
+    case "invest":
+      return "Investment ready for review";
+    case "withdraw_investment":
+      return "Withdrawal ready for review";
+    case "recipient":
+      return "Recipient saved successfully";
     case "analysis":
       return "Analysis completed successfully";
     case "query":
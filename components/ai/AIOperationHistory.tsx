@@ -3,6 +3,7 @@
 import { useEffect, useState, useCallback } from "react";
 import { useUser } from "@/lib/user-context";
 import { getAIOperationHistory, type AIOperation } from "@/lib/ai-agent";
+import type { AIOperationStepEntry } from "@/lib/ai-operations";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -15,6 +16,9 @@ import {
   Clock,
   Loader2,
   AlertCircle,
+  PiggyBank,
+  UserPlus,
+  ArrowDownToLine,
 } from "lucide-react";
 
 /**
@@ -133,6 +137,9 @@ export function AIOperationHistory() {
  */
 function OperationCard({ operation }: { operation: AIOperation }) {
   const [isExpanded, setIsExpanded] = useState(false);
+  const steps = Array.isArray(operation.execution_result?.steps)
+    ? (operation.execution_result.steps as AIOperationStepEntry[])
+    : [];
 
   return (
     <Card className="p-4">
@@ -146,7 +153,9 @@ function OperationCard({ operation }: { operation: AIOperation }) {
             {/* Details */}
             <div className="flex-1 min-w-0">
               <div className="flex items-center gap-2 flex-wrap">
-                <span className="font-medium capitalize">{operation.operation_type}</span>
+                <span className="font-medium capitalize">
+                  {operation.operation_type.replace("_", " ")}
+                </span>
                 {getStatusBadge(operation)}
               </div>
               <p className="text-sm text-muted-foreground mt-1">
@@ -194,6 +203,23 @@ function OperationCard({ operation }: { operation: AIOperation }) {
               </pre>
             </div>
 
+            {/* Steps */}
+            {steps.length > 0 && (
+              <div>
+                <p className="text-xs font-medium text-muted-foreground mb-1">Steps</p>
+                <ol className="space-y-1">
+                  {steps.map((entry, index) => (
+                    <li key={index} className="text-xs flex justify-between gap-3">
+                      <span className="capitalize">{entry.step}</span>
+                      <span className="text-muted-foreground">
+                        {new Date(entry.at).toLocaleString()}
+                      </span>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            )}
+
             {/* Execution Result */}
             {operation.execution_result && (
               <div>
@@ -226,6 +252,12 @@ function getOperationIcon(type: string) {
   switch (type) {
     case "payment":
       return <DollarSign className="h-5 w-5 text-primary" />;
+    case "invest":
+      return <PiggyBank className="h-5 w-5 text-primary" />;
+    case "withdraw_investment":
+      return <ArrowDownToLine className="h-5 w-5 text-primary" />;
+    case "recipient":
+      return <UserPlus className="h-5 w-5 text-primary" />;
     case "analysis":
       return <TrendingUp className="h-5 w-5 text-primary" />;
     case "query":
@@ -248,16 +280,7 @@ function getStatusBadge(operation: AIOperation) {
     );
   }
 
-  if (!operation.executed) {
-    return (
-      <Badge variant="secondary" className="gap-1">
-        <Clock className="h-3 w-3" />
-        Pending
-      </Badge>
-    );
-  }
-
-  // Check if execution was successful
+  // Check if execution failed (deposits and withdrawals can fail before they're executed)
   const hasError = operation.execution_result?.error;
   if (hasError) {
     return (
@@ -268,6 +291,15 @@ function getStatusBadge(operation: AIOperation) {
     );
   }
 
+  if (!operation.executed) {
+    return (
+      <Badge variant="secondary" className="gap-1">
+        <Clock className="h-3 w-3" />
+        Pending
+      </Badge>
+    );
+  }
+
   return (
     <Badge variant="default" className="gap-1 bg-green-600">
       <CheckCircle className="h-3 w-3" />
@@ -1,3 +1,4 @@
 export { AIAgentChat } from "./AIAgentChat";
 export { AIOperationConfirmation } from "./AIOperationConfirmation";
 export { PortfolioInsightsCard } from "./PortfolioInsightsCard";
+export { AIConversationHistory } from "./AIConversationHistory";
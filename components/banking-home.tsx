@@ -25,7 +25,7 @@ import { useRouter } from "next/navigation";
 import Image from "next/image";
 import { sdk } from "@farcaster/miniapp-sdk";
 import { useAccountSafe as useAccount } from "@/lib/use-account-safe";
-import { useUSDCBalance } from "@/lib/payments";
+import { useMultiChainBalance } from "@/lib/payments";
 import { useUser } from "@/lib/user-context";
 import {
   type Currency,
@@ -37,7 +37,10 @@ import { getRecentTransactions, type Transaction } from "@/lib/transactions";
 import { TransactionCard } from "@/components/ui/transaction-card";
 import { InvestmentMovementCard } from "@/components/ui/investment-movement-card";
 import { RewardsSummaryCard } from "@/components/ui/rewards-summary-card";
+import { fetchLast30DaysRewards, processChartData } from "@/lib/rewards-api";
 import { InsightsCarousel } from "@/components/insights-carousel";
+import { ScheduledPaymentsDue } from "@/components/payments/ScheduledPaymentsDue";
+import { PaymentRequestsDue } from "@/components/payments/PaymentRequestsDue";
 import dynamic from "next/dynamic";
 import { useInvestments } from "@/lib/investments";
 import {
@@ -144,6 +147,9 @@ export function BankingHome() {
   >([]);
   const [movementsLoading, setMovementsLoading] = useState(false);
   const [monthlyRewards, setMonthlyRewards] = useState(0);
+  const [rewardsChartData, setRewardsChartData] = useState<
+    Array<{ day: number; value: number }> | undefined
+  >(undefined);
 
   // Transaction State
   const [transactions, setTransactions] = useState<Transaction[]>([]);
@@ -385,17 +391,33 @@ export function BankingHome() {
         );
         setInvestmentMovements(confirmedMovements);
 
-        const monthlyRewards = parseFloat(
-          String(currentAccountData?.total_rewards || "0")
-        );
-        setMonthlyRewards(monthlyRewards);
+        // Rewards from the synced daily snapshots; fall back to the
+        // investment total until the first sync has run
+        try {
+          const rewards = await fetchLast30DaysRewards(
+            currentAccountData.investment_id
+          );
+          setMonthlyRewards(rewards.monthlyRewards);
+          setRewardsChartData(
+            rewards.dailyRewards.length > 0
+              ? processChartData(rewards.dailyRewards)
+              : undefined
+          );
+        } catch {
+          setMonthlyRewards(
+            parseFloat(String(currentAccountData?.total_rewards || "0"))
+          );
+          setRewardsChartData(undefined);
+        }
       } else {
         setInvestmentMovements([]);
         setMonthlyRewards(0);
+        setRewardsChartData(undefined);
       }
     } catch (error) {
       setInvestmentMovements([]);
       setMonthlyRewards(0);
+      setRewardsChartData(undefined);
     } finally {
       setMovementsLoading(false);
     }
@@ -593,11 +615,15 @@ export function BankingHome() {
     return undefined;
   }, [currentCard]);
 
-  // Use current card's address for balance
+  // Use current card's address for balance, aggregated across all networks
   const {
     formattedBalance: currentCardBalance,
+    balances: currentCardChainBalances,
     isLoading: currentBalanceLoading,
-  } = useUSDCBalance(currentCardAddress as `0x${string}`);
+  } = useMultiChainBalance(currentCardAddress as `0x${string}`, "USDC");
+  const fundedChainBalances = currentCardChainBalances.filter(
+    (entry) => entry.rawBalance > BigInt(0)
+  );
 
   // Calculate displayed balance for current card
   const usdBalance: number = currentCardBalance
@@ -741,6 +767,23 @@ Thanks!`;
                     </span>
                   </div>
                 )}
+                {/* Per-network breakdown, only when funds are spread across networks */}
+                {isMounted && fundedChainBalances.length > 1 && (
+                  <div className="flex flex-wrap items-center justify-center gap-2 mb-3">
+                    {fundedChainBalances.map((entry) => (
+                      <span
+                        key={entry.chain}
+                        className="flex items-center gap-1.5 rounded-full bg-white/10 px-3 py-1 text-xs text-white/80"
+                      >
+                        <span
+                          className="w-2 h-2 rounded-full"
+                          style={{ backgroundColor: entry.color }}
+                        />
+                        {entry.label} {entry.formattedBalance}
+                      </span>
+                    ))}
+                  </div>
+                )}
               </>
             ) : currentCard.type === "add-new" ? (
               <>
@@ -896,12 +939,22 @@ Thanks!`;
                 onClick={() => {
                   if (activeAccount === AccountType.Main) {
                     router.push("/invest/select");
-                  } else {
-                    // Investment account - withdraw from vault (disabled for now)
-                    // TODO: Implement withdrawal functionality
+                  } else if (
+                    currentCard.type === "investment" &&
+                    currentCard.investmentAccount
+                  ) {
+                    // Investment account - withdraw from vault
+                    router.push(
+                      `/invest/withdraw?investment=${
+                        currentCard.investmentAccount.investment_id
+                      }&vault=${
+                        currentCard.investmentAccount.vault_address
+                      }&name=${encodeURIComponent(
+                        currentCard.investmentAccount.investment_name || ""
+                      )}`
+                    );
                   }
                 }}
-                disabled={activeAccount === AccountType.Investment}
               >
                 {activeAccount === AccountType.Investment ? (
                   <ArrowDownFromLine className="size-6" />
@@ -961,6 +1014,13 @@ Thanks!`;
             </div>
           </div>
 
+          {activeAccount === AccountType.Main && profile?.id && (
+            <>
+              <PaymentRequestsDue profileId={profile.id} />
+              <ScheduledPaymentsDue profileId={profile.id} />
+            </>
+          )}
+
           <InsightsCarousel />
 
           {/* Rewards Summary & Transactions/Investments Card */}
@@ -973,6 +1033,8 @@ Thanks!`;
               }
               monthlyRewards={monthlyRewards}
               apr={currentAccount?.apr || 0}
+              investmentId={currentAccount.investment_id}
+              chartData={rewardsChartData}
             />
           )}
 
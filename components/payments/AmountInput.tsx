@@ -5,7 +5,17 @@ import { useRouter } from "next/navigation";
 import { useAccount } from "wagmi";
 import Image from "next/image";
 import { Button } from "@/components/ui/button";
-import { useUSDCBalance } from "@/lib/payments";
+import { useTokenBalance } from "@/lib/payments";
+import {
+  DEFAULT_TOKEN,
+  getSupportedTokens,
+  getTokenChains,
+  getTokenCurrencySymbol,
+  isTokenSupported,
+  requireToken,
+  type TokenSymbol,
+} from "@/lib/tokens";
+import { CHAINS, DEFAULT_CHAIN, type ChainName } from "@/lib/chains";
 import { NumberPad } from "./NumberPad";
 
 interface AmountInputProps {
@@ -22,13 +32,17 @@ export function AmountInput({
   const router = useRouter();
   const [amount, setAmount] = useState("");
   const [isMounted, setIsMounted] = useState(false);
+  const [tokenSymbol, setTokenSymbol] = useState<TokenSymbol>(DEFAULT_TOKEN);
+  const [chainName, setChainName] = useState<ChainName>(DEFAULT_CHAIN);
+  const token = requireToken(tokenSymbol);
+  const currencySymbol = getTokenCurrencySymbol(tokenSymbol);
 
   const { address: userAddress } = useAccount();
   const {
     formattedBalance,
     isLoading: balanceLoading,
     isError: balanceError,
-  } = useUSDCBalance(userAddress);
+  } = useTokenBalance(userAddress, tokenSymbol, chainName);
 
   const needsBalanceCheck = type === "crypto";
   const hasInsufficientBalance = Boolean(
@@ -55,7 +69,10 @@ export function AmountInput({
     const [integer, decimal] = cleanValue.split(".");
 
     // Validate length limits
-    if (integer.length > 4 || (decimal && decimal.length > 2)) {
+    if (
+      integer.length > 4 ||
+      (decimal && decimal.length > token.displayDecimals)
+    ) {
       return amount;
     }
 
@@ -78,6 +95,16 @@ export function AmountInput({
     }
   };
 
+  // Switching token resets the amount, since decimals and balance differ.
+  // Falls back to the default network if the token is not available on the current one.
+  const handleTokenChange = (symbol: TokenSymbol) => {
+    setTokenSymbol(symbol);
+    if (!isTokenSupported(symbol, chainName)) {
+      setChainName(DEFAULT_CHAIN);
+    }
+    setAmount("");
+  };
+
   // Handle backspace
   const handleBackspace = () => {
     setAmount(amount.slice(0, -1));
@@ -85,7 +112,9 @@ export function AmountInput({
 
   const handleContinue = () => {
     if (amount && Number.parseFloat(amount) > 0 && !hasInsufficientBalance) {
-      router.push(`/payments/${type}/${recipientId}/review?amount=${amount}`);
+      router.push(
+        `/payments/${type}/${recipientId}/review?amount=${amount}&token=${tokenSymbol}&chain=${chainName}`
+      );
     }
   };
 
@@ -116,20 +145,27 @@ export function AmountInput({
       <div className="flex-1 flex flex-col min-h-0 overflow-y-auto scrollbar-hide">
         <div className="flex-1 flex flex-col items-center justify-center px-6 py-4">
           <div className="inline-flex items-start justify-center gap-0.5">
-            <span className="text-3xl font-normal text-white mt-2 font-sans">
-              $
-            </span>
+            {currencySymbol && (
+              <span className="text-3xl font-normal text-white mt-2 font-sans">
+                {currencySymbol}
+              </span>
+            )}
             <span className="text-7xl font-light text-white min-w-[1ch] inline-block tracking-tight font-sans">
               {formatDisplayValue(amount) || "0"}
             </span>
+            {!currencySymbol && (
+              <span className="text-3xl font-normal text-white mt-2 ml-2 font-sans">
+                {token.symbol}
+              </span>
+            )}
           </div>
 
           {/* USDC equivalence display */}
           <div className="flex items-center gap-1 text-sm text-white/50 mt-6 font-sans">
             <span className="text-sm text-white/50">≈</span>
             <Image
-              src="/usdc-logo.png"
-              alt="USDC"
+              src={token.logo}
+              alt={token.symbol}
               width={16}
               height={16}
               className="w-4 h-4 text-white"
@@ -138,9 +174,68 @@ export function AmountInput({
               {amount && parseFloat(amount) > 0
                 ? formatDisplayValue(amount)
                 : "0.00"}{" "}
+              {token.symbol}
             </span>
           </div>
 
+          {/* Token picker */}
+          {type === "crypto" && (
+            <div className="flex items-center gap-2 mt-4">
+              {getSupportedTokens(DEFAULT_CHAIN).map((option) => (
+                <button
+                  key={option.symbol}
+                  type="button"
+                  onClick={() => handleTokenChange(option.symbol)}
+                  className={`flex items-center gap-1.5 rounded-full px-3 py-1.5 text-xs font-medium transition-colors ${
+                    option.symbol === tokenSymbol
+                      ? "bg-white text-black"
+                      : "bg-white/10 text-white/70 hover:bg-white/20"
+                  }`}
+                >
+                  <Image
+                    src={option.logo}
+                    alt={option.symbol}
+                    width={14}
+                    height={14}
+                    className="w-3.5 h-3.5"
+                  />
+                  {option.symbol}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {/* Network picker */}
+          {type === "crypto" && (
+            <div className="flex flex-wrap items-center justify-center gap-2 mt-3">
+              {getTokenChains(tokenSymbol).map((name) => (
+                <button
+                  key={name}
+                  type="button"
+                  onClick={() => setChainName(name)}
+                  className={`flex items-center gap-1.5 rounded-full px-3 py-1 text-xs font-medium transition-colors ${
+                    name === chainName
+                      ? "bg-white text-black"
+                      : "bg-white/10 text-white/70 hover:bg-white/20"
+                  }`}
+                >
+                  <span
+                    className="w-2 h-2 rounded-full"
+                    style={{ backgroundColor: CHAINS[name].color }}
+                  />
+                  {CHAINS[name].label}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {/* Balance for the selected token and network */}
+          {type === "crypto" && isMounted && formattedBalance !== undefined && (
+            <div className="text-xs text-white/40 mt-2 font-sans">
+              Balance: {formattedBalance} {token.symbol} on {CHAINS[chainName].label}
+            </div>
+          )}
+
           {/* Error message for insufficient balance */}
           {hasInsufficientBalance && (
             <div className="text-sm text-red-400 mt-4">
@@ -0,0 +1,124 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { HandCoins, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import {
+  declinePaymentRequest,
+  getIncomingPaymentRequests,
+  getRecipientForPaymentRequest,
+  type PaymentRequest,
+} from "@/lib/payment-requests";
+import { formatTransactionAmount } from "@/lib/transactions";
+
+interface PaymentRequestsDueProps {
+  profileId: string;
+}
+
+/**
+ * Lists open payment requests addressed to the user. Paying opens the regular
+ * review screen for the requester. Renders nothing when there are no requests.
+ */
+export function PaymentRequestsDue({ profileId }: PaymentRequestsDueProps) {
+  const router = useRouter();
+  const [requests, setRequests] = useState<PaymentRequest[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRequests = useCallback(async () => {
+    try {
+      const data = await getIncomingPaymentRequests(profileId);
+      setRequests(data);
+    } catch (error) {
+      // Silently fail - the card simply stays hidden
+      setRequests([]);
+    }
+  }, [profileId]);
+
+  useEffect(() => {
+    fetchRequests();
+  }, [fetchRequests]);
+
+  const handlePay = async (request: PaymentRequest) => {
+    setBusyId(request.id);
+    setError(null);
+    try {
+      const recipient = await getRecipientForPaymentRequest(request);
+      router.push(
+        `/payments/crypto/${recipient.id}/review?amount=${request.amount}&token=${request.token}&chain=${request.chain}&requestId=${request.id}`
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not open payment");
+      setBusyId(null);
+    }
+  };
+
+  const handleDecline = async (request: PaymentRequest) => {
+    setBusyId(request.id);
+    setError(null);
+    try {
+      await declinePaymentRequest(request.id);
+      setRequests((prev) => prev.filter((item) => item.id !== request.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not decline request");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (requests.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="bg-[#2A1F4D]/80 backdrop-blur-sm border-0 rounded-3xl p-5 mb-6 shadow-xl">
+      <div className="flex items-center gap-2 mb-4">
+        <HandCoins className="h-5 w-5 text-white/80" />
+        <h3 className="text-white font-medium">Payment requests</h3>
+      </div>
+      {error && <p className="text-sm text-red-400 mb-3">{error}</p>}
+      <div className="space-y-3">
+        {requests.map((request) => (
+          <div key={request.id} className="flex items-center justify-between gap-3">
+            <div className="min-w-0">
+              <p className="text-white truncate">
+                {request.requester?.name || "Someone"}
+              </p>
+              <p className="text-xs text-white/50 truncate">
+                {request.note || `@${request.requester?.handle || "banb"}`}
+              </p>
+            </div>
+            <div className="flex items-center gap-2 flex-shrink-0">
+              <span className="text-white font-medium">
+                {formatTransactionAmount(request.amount, request.token)}
+              </span>
+              {busyId === request.id ? (
+                <Loader2 className="h-4 w-4 animate-spin text-white/60" />
+              ) : (
+                <>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDecline(request)}
+                    className="text-white/60 hover:text-white hover:bg-white/10 rounded-full"
+                  >
+                    Decline
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={() => handlePay(request)}
+                    className="rounded-full bg-white text-black hover:bg-white/90"
+                  >
+                    Pay
+                  </Button>
+                </>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </Card>
+  );
+}
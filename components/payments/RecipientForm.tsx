@@ -17,11 +17,55 @@ import {
 } from "@/components/ui/select";
 import { createRecipient, createBankRecipient } from "@/lib/recipients";
 import { useUser } from "@/lib/user-context";
+import {
+  formatIban,
+  getCountryCurrency,
+  validateBankDetails,
+  validateBic,
+  validateIban,
+  validateRoutingNumber,
+  validateSortCode,
+  validateUkAccountNumber,
+  validateUsAccountNumber,
+} from "@/lib/bank-validation";
+import type { BankDetails } from "@/lib/supabase";
 
 interface RecipientFormProps {
   type: "crypto" | "bank";
 }
 
+/**
+ * Builds bank details from the form fields for the selected country:
+ * routing and account number in the US, sort code and account number in the
+ * UK, IBAN and optional BIC elsewhere.
+ */
+function getBankDetails(formData: Record<string, string>): BankDetails {
+  const country = formData.country || "";
+  const base = { country, currency: formData.currency || "" };
+
+  if (country === "US") {
+    return {
+      ...base,
+      iban: "",
+      routing_number: formData.routingNumber || "",
+      account_number: formData.accountNumber || "",
+    };
+  }
+  if (country === "GB") {
+    return {
+      ...base,
+      iban: "",
+      sort_code: formData.sortCode || "",
+      account_number: formData.accountNumber || "",
+    };
+  }
+  return {
+    ...base,
+    iban: formData.iban || "",
+    ...(formData.bic && { bic: formData.bic }),
+  };
+}
+
 export function RecipientForm({ type }: RecipientFormProps) {
   const router = useRouter();
   const { profile } = useUser();
@@ -67,16 +111,21 @@ export function RecipientForm({ type }: RecipientFormProps) {
           return;
         }
 
+        // Validate bank details before submission
+        const bankDetails = getBankDetails(formData);
+        const bankError = validateBankDetails(bankDetails);
+        if (bankError) {
+          setError(bankError);
+          setIsLoading(false);
+          return;
+        }
+
         // Create bank recipient
         const recipient = await createBankRecipient({
           profile_id: profile.id,
           name: `${formData.firstName} ${formData.lastName}`,
           recipient_type: "bank",
-          bank_details: {
-            iban: formData.iban,
-            country: formData.country,
-            currency: formData.currency,
-          },
+          bank_details: bankDetails,
           status: "active",
         });
 
@@ -162,8 +211,57 @@ export function RecipientForm({ type }: RecipientFormProps) {
     );
   }
 
+  // Field errors are only shown once the user has typed something
+  const fieldError = (
+    value: string | undefined,
+    validate: (input: string) => string | null
+  ) => (value ? validate(value) : null);
+  const ibanError = fieldError(formData.iban, validateIban);
+  const bicError = fieldError(formData.bic, validateBic);
+  const routingError = fieldError(formData.routingNumber, validateRoutingNumber);
+  const sortCodeError = fieldError(formData.sortCode, validateSortCode);
+  const accountError = fieldError(
+    formData.accountNumber,
+    formData.country === "US" ? validateUsAccountNumber : validateUkAccountNumber
+  );
+
+  const renderField = (
+    id: string,
+    label: string,
+    placeholder: string,
+    fieldErrorMessage: string | null,
+    options: { required?: boolean; inputMode?: "numeric" } = {}
+  ) => (
+    <div className="space-y-2">
+      <Label htmlFor={id} className="text-white/80 text-sm">
+        {label}
+      </Label>
+      <Input
+        id={id}
+        placeholder={placeholder}
+        inputMode={options.inputMode}
+        value={formData[id] || ""}
+        onChange={(e) => setFormData({ ...formData, [id]: e.target.value })}
+        className={`bg-[#3A3650] border text-white placeholder:text-white/40 h-14 rounded-2xl font-mono text-sm ${
+          fieldErrorMessage
+            ? "border-red-500/50 focus-visible:ring-red-500"
+            : "border-transparent"
+        }`}
+        required={options.required ?? true}
+      />
+      {fieldErrorMessage && (
+        <p className="text-red-400 text-xs mt-1">{fieldErrorMessage}</p>
+      )}
+    </div>
+  );
+
   return (
     <form onSubmit={handleSubmit} className="space-y-6">
+      {error && (
+        <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-sm">
+          {error}
+        </div>
+      )}
       <div className="space-y-2">
         <Label htmlFor="firstName" className="text-white/80 text-sm">
           First name
@@ -203,17 +301,26 @@ export function RecipientForm({ type }: RecipientFormProps) {
         <Select
           value={formData.country}
           onValueChange={(value) =>
-            setFormData({ ...formData, country: value })
+            setFormData({
+              ...formData,
+              country: value,
+              // Default to the country's currency; the user can still change it
+              currency: getCountryCurrency(value) || formData.currency || "",
+            })
           }
         >
           <SelectTrigger className="bg-[#3A3650] border-0 text-white h-14 rounded-2xl">
             <SelectValue placeholder="Select country" />
           </SelectTrigger>
           <SelectContent className="bg-[#2A2640] border-white/10 text-white">
-            <SelectItem value="uk">United Kingdom</SelectItem>
-            <SelectItem value="us">United States</SelectItem>
-            <SelectItem value="de">Germany</SelectItem>
-            <SelectItem value="fr">France</SelectItem>
+            <SelectItem value="GB">United Kingdom</SelectItem>
+            <SelectItem value="US">United States</SelectItem>
+            <SelectItem value="DE">Germany</SelectItem>
+            <SelectItem value="FR">France</SelectItem>
+            <SelectItem value="ES">Spain</SelectItem>
+            <SelectItem value="IT">Italy</SelectItem>
+            <SelectItem value="NL">Netherlands</SelectItem>
+            <SelectItem value="IE">Ireland</SelectItem>
           </SelectContent>
         </Select>
       </div>
@@ -232,32 +339,55 @@ export function RecipientForm({ type }: RecipientFormProps) {
             <SelectValue placeholder="Select currency" />
           </SelectTrigger>
           <SelectContent className="bg-[#2A2640] border-white/10 text-white">
-            <SelectItem value="usd">USD</SelectItem>
-            <SelectItem value="eur">EUR</SelectItem>
-            <SelectItem value="gbp">GBP</SelectItem>
+            <SelectItem value="USD">USD</SelectItem>
+            <SelectItem value="EUR">EUR</SelectItem>
+            <SelectItem value="GBP">GBP</SelectItem>
           </SelectContent>
         </Select>
       </div>
 
-      <div className="space-y-2">
-        <Label htmlFor="iban" className="text-white/80 text-sm">
-          IBAN
-        </Label>
-        <Input
-          id="iban"
-          placeholder="GB00 0000 0000 0000 0000 00"
-          value={formData.iban || ""}
-          onChange={(e) => setFormData({ ...formData, iban: e.target.value })}
-          className="bg-[#3A3650] border-0 text-white placeholder:text-white/40 h-14 rounded-2xl font-mono text-sm"
-          required
-        />
-      </div>
+      {formData.country === "US" ? (
+        <>
+          {renderField("routingNumber", "Routing number", "021000021", routingError, {
+            inputMode: "numeric",
+          })}
+          {renderField("accountNumber", "Account number", "000123456789", accountError, {
+            inputMode: "numeric",
+          })}
+        </>
+      ) : formData.country === "GB" ? (
+        <>
+          {renderField("sortCode", "Sort code", "60-16-13", sortCodeError, {
+            inputMode: "numeric",
+          })}
+          {renderField("accountNumber", "Account number", "31926819", accountError, {
+            inputMode: "numeric",
+          })}
+        </>
+      ) : (
+        <>
+          {renderField("iban", "IBAN", "DE89 3704 0044 0532 0130 00", ibanError)}
+          {formData.iban && !ibanError && (
+            <p className="text-white/50 text-xs -mt-4 font-mono">
+              {formatIban(formData.iban)}
+            </p>
+          )}
+          {renderField("bic", "BIC (optional)", "COBADEFFXXX", bicError, {
+            required: false,
+          })}
+        </>
+      )}
 
       <Button
         type="submit"
-        className="w-full h-14 rounded-full bg-white/15 hover:bg-white/25 text-white text-base"
+        disabled={
+          isLoading ||
+          !formData.country ||
+          !!(ibanError || bicError || routingError || sortCodeError || accountError)
+        }
+        className="w-full h-14 rounded-full bg-white/15 hover:bg-white/25 text-white text-base disabled:opacity-50"
       >
-        Continue
+        {isLoading ? "Adding recipient..." : "Continue"}
       </Button>
     </form>
   );
@@ -0,0 +1,279 @@
+"use client";
+
+import type React from "react";
+
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RecipientAvatar } from "@/components/ui/recipient-avatar";
+import { getRecipientsByProfile, type Recipient } from "@/lib/recipients";
+import {
+  createPaymentRequest,
+  createPaymentSplit,
+  splitAmountEvenly,
+  validateCustomShares,
+} from "@/lib/payment-requests";
+
+interface RequestFormProps {
+  profileId: string;
+  /** Called with the split ID when a split was created, otherwise null. */
+  onCreated: (splitId: string | null) => void;
+  onCancel: () => void;
+}
+
+const inputClassName =
+  "bg-[#3A3650] border-0 text-white placeholder:text-white/40 h-14 rounded-2xl";
+
+/**
+ * Form to request money from one friend or split a bill across several.
+ * Only friends that are Banb profiles (recipients with a profile link) can
+ * receive requests.
+ */
+export function RequestForm({ profileId, onCreated, onCancel }: RequestFormProps) {
+  const [friends, setFriends] = useState<Recipient[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [amount, setAmount] = useState("");
+  const [note, setNote] = useState("");
+  const [splitMode, setSplitMode] = useState<"even" | "custom">("even");
+  const [includeMe, setIncludeMe] = useState(true);
+  const [customShares, setCustomShares] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getRecipientsByProfile(profileId)
+      .then((data) =>
+        setFriends(data.filter((r) => r.profile_id_link && r.status === "active"))
+      )
+      .catch((err) => {
+        console.error("[RequestForm] Failed to load friends:", err);
+        setFriends([]);
+      });
+  }, [profileId]);
+
+  const selected = friends.filter((f) => selectedIds.includes(f.id));
+  const isSplit = selected.length > 1;
+
+  // Even split preview: the creator's share is kept out of the requests
+  const evenShares = useMemo(() => {
+    const total = parseFloat(amount);
+    if (!isSplit || isNaN(total) || total <= 0) return [];
+    const shares = splitAmountEvenly(
+      amount,
+      selected.length + (includeMe ? 1 : 0)
+    );
+    return includeMe ? shares.slice(1) : shares;
+  }, [amount, isSplit, selected.length, includeMe]);
+
+  const toggleFriend = (id: string) => {
+    setSelectedIds((prev) =>
+      prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id]
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const total = parseFloat(amount);
+    if (isNaN(total) || total <= 0) {
+      setError("Please enter a valid amount");
+      return;
+    }
+    if (selected.length === 0) {
+      setError("Choose at least one friend");
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      if (!isSplit) {
+        await createPaymentRequest({
+          requester_profile_id: profileId,
+          payer_profile_id: selected[0].profile_id_link!,
+          amount: total.toFixed(2),
+          note: note.trim() || null,
+        });
+        onCreated(null);
+        return;
+      }
+
+      const amounts =
+        splitMode === "even"
+          ? evenShares
+          : selected.map((f) => customShares[f.id] || "");
+
+      const sharesError = validateCustomShares(amount, amounts);
+      if (sharesError) {
+        setError(sharesError);
+        return;
+      }
+
+      const split = await createPaymentSplit({
+        profile_id: profileId,
+        title: note.trim() || "Split bill",
+        total_amount: total.toFixed(2),
+        split_mode: splitMode,
+        shares: selected.map((friend, i) => ({
+          profile_id: friend.profile_id_link!,
+          amount: parseFloat(amounts[i]).toFixed(2),
+        })),
+      });
+      onCreated(split.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to send request");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {error && (
+        <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="amount" className="text-white/80 text-sm">
+          {isSplit ? "Total bill (USDC)" : "Amount (USDC)"}
+        </Label>
+        <Input
+          id="amount"
+          inputMode="decimal"
+          placeholder="0.00"
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          className={inputClassName}
+          required
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="note" className="text-white/80 text-sm">
+          {isSplit ? "What is it for?" : "Note (optional)"}
+        </Label>
+        <Input
+          id="note"
+          placeholder="e.g. Dinner"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          className={inputClassName}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-white/80 text-sm">
+          {selected.length > 0 ? `Friends (${selected.length})` : "Friends"}
+        </Label>
+        {friends.length === 0 ? (
+          <p className="text-sm text-white/50">
+            Add Banb users as friends to request money from them
+          </p>
+        ) : (
+          <div className="space-y-1">
+            {friends.map((friend, index) => {
+              const isSelected = selectedIds.includes(friend.id);
+              const shareIndex = selected.findIndex((f) => f.id === friend.id);
+              return (
+                <div
+                  key={friend.id}
+                  className="flex items-center gap-3 p-3 rounded-2xl hover:bg-white/5"
+                >
+                  <Checkbox
+                    id={`friend-${index}`}
+                    checked={isSelected}
+                    onCheckedChange={() => toggleFriend(friend.id)}
+                  />
+                  <RecipientAvatar
+                    name={friend.name}
+                    recipientType="crypto"
+                    size="sm"
+                  />
+                  <label
+                    htmlFor={`friend-${index}`}
+                    className="flex-1 text-white truncate"
+                  >
+                    {friend.name}
+                  </label>
+                  {isSplit && isSelected && splitMode === "even" && (
+                    <span className="text-sm text-white/60">
+                      {evenShares[shareIndex] ? `$${evenShares[shareIndex]}` : ""}
+                    </span>
+                  )}
+                  {isSplit && isSelected && splitMode === "custom" && (
+                    <Input
+                      inputMode="decimal"
+                      placeholder="0.00"
+                      value={customShares[friend.id] || ""}
+                      onChange={(e) =>
+                        setCustomShares({
+                          ...customShares,
+                          [friend.id]: e.target.value,
+                        })
+                      }
+                      className="w-24 bg-[#3A3650] border-0 text-white h-10 rounded-xl"
+                    />
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {isSplit && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-2">
+            {(["even", "custom"] as const).map((mode) => (
+              <Button
+                key={mode}
+                type="button"
+                variant="ghost"
+                onClick={() => setSplitMode(mode)}
+                className={`h-12 rounded-full text-white ${
+                  splitMode === mode ? "bg-white/20" : "bg-white/5 hover:bg-white/10"
+                }`}
+              >
+                {mode === "even" ? "Split evenly" : "Custom shares"}
+              </Button>
+            ))}
+          </div>
+          {splitMode === "even" && (
+            <div className="flex items-center gap-3">
+              <Checkbox
+                id="includeMe"
+                checked={includeMe}
+                onCheckedChange={(checked) => setIncludeMe(checked === true)}
+              />
+              <label htmlFor="includeMe" className="text-sm text-white/80">
+                Include my share in the split
+              </label>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="flex gap-3">
+        <Button
+          type="button"
+          variant="ghost"
+          onClick={onCancel}
+          className="flex-1 h-14 rounded-full text-white hover:bg-white/10"
+        >
+          Cancel
+        </Button>
+        <Button
+          type="submit"
+          disabled={isLoading}
+          className="flex-1 h-14 rounded-full bg-white/15 hover:bg-white/25 text-white text-base disabled:opacity-50"
+        >
+          {isLoading ? "Sending..." : isSplit ? "Send split" : "Send request"}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,29 @@
+import type { PaymentRequest } from "@/lib/supabase";
+
+const STATUS_STYLES: Record<PaymentRequest["status"], string> = {
+  requested: "bg-yellow-500/15 text-yellow-300",
+  paid: "bg-green-500/15 text-green-400",
+  declined: "bg-red-500/15 text-red-400",
+  expired: "bg-white/10 text-white/50",
+};
+
+const STATUS_LABELS: Record<PaymentRequest["status"], string> = {
+  requested: "Waiting",
+  paid: "Paid",
+  declined: "Declined",
+  expired: "Expired",
+};
+
+export function RequestStatusBadge({
+  status,
+}: {
+  status: PaymentRequest["status"];
+}) {
+  return (
+    <span
+      className={`text-xs px-2 py-1 rounded-full whitespace-nowrap ${STATUS_STYLES[status]}`}
+    >
+      {STATUS_LABELS[status]}
+    </span>
+  );
+}
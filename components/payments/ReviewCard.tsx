@@ -8,12 +8,24 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Checkbox } from "@/components/ui/checkbox";
 import { useCryptoPayment } from "@/lib/payments";
+import {
+  DEFAULT_TOKEN,
+  TOKENS,
+  getToken,
+  getTokenCurrencySymbol,
+  isNativeToken,
+  isTokenSupported,
+} from "@/lib/tokens";
+import { CHAINS, DEFAULT_CHAIN, getChain } from "@/lib/chains";
 import { getRecipient, createRecipient } from "@/lib/recipients";
+import {
+  getPaymentRequestById,
+  isPaymentRequestPayable,
+} from "@/lib/payment-requests";
 import { useUser } from "@/lib/user-context";
 import type { Recipient } from "@/lib/supabase";
 import { useGasPrice } from "wagmi";
 import { formatUnits } from "viem";
-import { base } from "wagmi/chains";
 
 interface ReviewCardProps {
   recipientName: string;
@@ -31,6 +43,18 @@ export function ReviewCard({
   const router = useRouter();
   const searchParams = useSearchParams();
   const amount = searchParams.get("amount") || "0";
+  const token = getToken(searchParams.get("token") || DEFAULT_TOKEN) ?? TOKENS.USDC;
+  const currencySymbol = getTokenCurrencySymbol(token.symbol);
+  const requestedChain = getChain(searchParams.get("chain") || DEFAULT_CHAIN);
+  // Unknown networks, or ones the token is not deployed on, fall back to the default
+  const network =
+    requestedChain && isTokenSupported(token.symbol, requestedChain.name)
+      ? requestedChain
+      : CHAINS[DEFAULT_CHAIN];
+  // Set when confirming a transaction that was queued by a payment schedule
+  const queuedTransactionId = searchParams.get("txId") || undefined;
+  // Set when paying a request from another profile
+  const paymentRequestId = searchParams.get("requestId") || undefined;
 
   const [recipient, setRecipient] = useState<Recipient | null>(null);
   const [error, setError] = useState<string | null>(null);
@@ -47,11 +71,13 @@ export function ReviewCard({
 
   // Get gas price for fee estimation
   const { data: gasPrice, isLoading: isGasPriceLoading } = useGasPrice({
-    chainId: base.id,
+    chainId: network.chain.id,
   });
 
-  // Estimate gas fee for USDC transfer
-  const estimatedGasLimit = BigInt(65000);
+  // Estimate gas fee: plain value transfer for native assets, ERC20 transfer otherwise
+  const estimatedGasLimit = BigInt(
+    isNativeToken(token.symbol, network.name) ? 21000 : 65000
+  );
   const gasFeeInUSD = gasPrice
     ? parseFloat(formatUnits(gasPrice * estimatedGasLimit, 18)) * 3000 // ETH price ~$3000
     : null;
@@ -84,6 +110,14 @@ export function ReviewCard({
     }
 
     try {
+      if (paymentRequestId) {
+        const paymentRequest = await getPaymentRequestById(paymentRequestId);
+        if (!paymentRequest || !isPaymentRequestPayable(paymentRequest)) {
+          setError("This request is no longer open");
+          return;
+        }
+      }
+
       let finalRecipientId = recipientId;
 
       // If unknown address and user wants to save, create recipient first
@@ -130,12 +164,15 @@ export function ReviewCard({
         const result = await executePayment({
           recipientId: recipientForTx,
           amount,
-          token: "USDC",
-          chain: "base",
+          token: token.symbol,
+          chain: network.name,
           to: walletAddress,
           sender_profile_id: profile.id,
+          transactionId: queuedTransactionId,
+          paymentRequestId,
         });
 
+        // The request is marked paid once the transaction settles
         router.push(`/payments/status/${result.txId}`);
       } else {
         // For non-crypto payments
@@ -168,11 +205,11 @@ export function ReviewCard({
     return recipientName;
   };
 
-  // Format amount to always show .00 for integers
+  // Format amount to always show .00 for integers (more decimals for volatile tokens)
   const formatAmount = (amt: string) => {
     const num = parseFloat(amt);
     if (isNaN(num)) return "0.00";
-    return num.toFixed(2);
+    return token.peg ? num.toFixed(2) : num.toString();
   };
 
   return (
@@ -209,19 +246,21 @@ export function ReviewCard({
           <div className="flex justify-between items-center">
             <span className="text-white/60">Total Value</span>
             <span className="text-white font-medium">
-              ${formatAmount(amount)}
+              {currencySymbol
+                ? `${currencySymbol}${formatAmount(amount)}`
+                : `${formatAmount(amount)} ${token.symbol}`}
             </span>
           </div>
 
           {type === "crypto" && (
             <div className="flex justify-between items-center">
               <span className="text-white/60">
-                Total {type === "crypto" ? "USDC Value" : "USD"}
+                Total {type === "crypto" ? `${token.symbol} Value` : "USD"}
               </span>
               <div className="flex items-center gap-2">
                 <Image
-                  src="/usdc-logo.png"
-                  alt="USDC"
+                  src={token.logo}
+                  alt={token.symbol}
                   width={16}
                   height={16}
                   className="w-4 h-4"
@@ -252,8 +291,11 @@ export function ReviewCard({
             <div className="flex justify-between items-center ">
               <span className="text-white/60">Network</span>
               <div className="flex items-center gap-2">
-                <div className="w-4 h-4 rounded-full bg-blue-500" />
-                <span className="text-white">Base</span>
+                <div
+                  className="w-4 h-4 rounded-full"
+                  style={{ backgroundColor: network.color }}
+                />
+                <span className="text-white">{network.label}</span>
               </div>
             </div>
           )}
@@ -0,0 +1,347 @@
+"use client";
+
+import type React from "react";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { getRecipientsByProfile, type Recipient } from "@/lib/recipients";
+import {
+  createScheduledPayment,
+  describeSchedule,
+  updateScheduledPayment,
+  type ScheduledPayment,
+} from "@/lib/scheduled-payments";
+
+interface ScheduleFormProps {
+  profileId: string;
+  /** Existing schedule to edit. Omit to create a new one. */
+  schedule?: ScheduledPayment;
+  onSaved: (schedule: ScheduledPayment) => void;
+  onCancel: () => void;
+}
+
+const WEEKDAYS = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+type EndMode = "never" | "date" | "count";
+
+const inputClassName =
+  "bg-[#3A3650] border-0 text-white placeholder:text-white/40 h-14 rounded-2xl";
+
+function todayISODate(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+export function ScheduleForm({
+  profileId,
+  schedule,
+  onSaved,
+  onCancel,
+}: ScheduleFormProps) {
+  const isEditing = !!schedule;
+  const [recipients, setRecipients] = useState<Recipient[]>([]);
+  const [recipientId, setRecipientId] = useState(schedule?.recipient_id || "");
+  const [amount, setAmount] = useState(schedule?.amount || "");
+  const [frequency, setFrequency] = useState<"weekly" | "monthly">(
+    schedule?.frequency || "monthly"
+  );
+  const [intervalCount, setIntervalCount] = useState(
+    String(schedule?.interval_count || 1)
+  );
+  const [dayOfWeek, setDayOfWeek] = useState(
+    String(schedule?.day_of_week ?? new Date().getUTCDay())
+  );
+  const [dayOfMonth, setDayOfMonth] = useState(
+    String(schedule?.day_of_month ?? new Date().getUTCDate())
+  );
+  const [startDate, setStartDate] = useState(
+    schedule?.start_date?.slice(0, 10) || todayISODate()
+  );
+  const [endMode, setEndMode] = useState<EndMode>(
+    schedule?.end_date ? "date" : schedule?.max_runs ? "count" : "never"
+  );
+  const [endDate, setEndDate] = useState(schedule?.end_date?.slice(0, 10) || "");
+  const [maxRuns, setMaxRuns] = useState(String(schedule?.max_runs || ""));
+  const [note, setNote] = useState(schedule?.note || "");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Only crypto recipients with a wallet address can be paid on a schedule
+  useEffect(() => {
+    if (isEditing) return;
+    getRecipientsByProfile(profileId)
+      .then((data) =>
+        setRecipients(data.filter((r) => r.external_address && r.status === "active"))
+      )
+      .catch((err) => {
+        console.error("[ScheduleForm] Failed to load recipients:", err);
+        setRecipients([]);
+      });
+  }, [profileId, isEditing]);
+
+  const timing = {
+    frequency,
+    interval_count: parseInt(intervalCount) || 1,
+    day_of_week: frequency === "weekly" ? parseInt(dayOfWeek) : null,
+    day_of_month: frequency === "monthly" ? parseInt(dayOfMonth) || 1 : null,
+    start_date: startDate,
+    end_date: endMode === "date" && endDate ? endDate : null,
+    max_runs: endMode === "count" && maxRuns ? parseInt(maxRuns) : null,
+    run_count: schedule?.run_count || 0,
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const parsedAmount = parseFloat(amount);
+    if (isNaN(parsedAmount) || parsedAmount <= 0) {
+      setError("Please enter a valid amount");
+      return;
+    }
+    if (!isEditing && !recipientId) {
+      setError("Please choose a recipient");
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const fields = {
+        amount: parsedAmount.toString(),
+        frequency: timing.frequency,
+        interval_count: timing.interval_count,
+        day_of_week: timing.day_of_week,
+        day_of_month: timing.day_of_month,
+        start_date: timing.start_date,
+        end_date: timing.end_date,
+        max_runs: timing.max_runs,
+        note: note.trim() || null,
+      };
+
+      const saved = isEditing
+        ? await updateScheduledPayment(schedule.id, fields)
+        : await createScheduledPayment({
+            profile_id: profileId,
+            recipient_id: recipientId,
+            ...fields,
+          });
+
+      onSaved(saved);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save schedule");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {error && (
+        <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label className="text-white/80 text-sm">Recipient</Label>
+        {isEditing ? (
+          <div className="bg-[#3A3650] text-white h-14 rounded-2xl flex items-center px-4">
+            <span className="text-white/60">
+              {schedule.recipient?.name || "Recipient"}
+            </span>
+          </div>
+        ) : (
+          <Select value={recipientId} onValueChange={setRecipientId}>
+            <SelectTrigger className="bg-[#3A3650] border-0 text-white h-14 rounded-2xl">
+              <SelectValue placeholder="Choose a recipient" />
+            </SelectTrigger>
+            <SelectContent className="bg-[#3A3650] border-0 text-white">
+              {recipients.map((recipient) => (
+                <SelectItem key={recipient.id} value={recipient.id}>
+                  {recipient.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="amount" className="text-white/80 text-sm">
+          Amount (USDC)
+        </Label>
+        <Input
+          id="amount"
+          inputMode="decimal"
+          placeholder="0.00"
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          className={inputClassName}
+          required
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label className="text-white/80 text-sm">Repeat</Label>
+          <Select
+            value={frequency}
+            onValueChange={(value) => setFrequency(value as "weekly" | "monthly")}
+          >
+            <SelectTrigger className="bg-[#3A3650] border-0 text-white h-14 rounded-2xl">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-[#3A3650] border-0 text-white">
+              <SelectItem value="weekly">Weekly</SelectItem>
+              <SelectItem value="monthly">Monthly</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="interval" className="text-white/80 text-sm">
+            Every
+          </Label>
+          <Input
+            id="interval"
+            type="number"
+            min={1}
+            max={12}
+            value={intervalCount}
+            onChange={(e) => setIntervalCount(e.target.value)}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      {frequency === "weekly" ? (
+        <div className="space-y-2">
+          <Label className="text-white/80 text-sm">On</Label>
+          <Select value={dayOfWeek} onValueChange={setDayOfWeek}>
+            <SelectTrigger className="bg-[#3A3650] border-0 text-white h-14 rounded-2xl">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-[#3A3650] border-0 text-white">
+              {WEEKDAYS.map((day, index) => (
+                <SelectItem key={day} value={String(index)}>
+                  {day}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <Label htmlFor="dayOfMonth" className="text-white/80 text-sm">
+            Day of month
+          </Label>
+          <Input
+            id="dayOfMonth"
+            type="number"
+            min={1}
+            max={31}
+            value={dayOfMonth}
+            onChange={(e) => setDayOfMonth(e.target.value)}
+            className={inputClassName}
+          />
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="startDate" className="text-white/80 text-sm">
+          Starting
+        </Label>
+        <Input
+          id="startDate"
+          type="date"
+          value={startDate}
+          onChange={(e) => setStartDate(e.target.value)}
+          className={inputClassName}
+          required
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-white/80 text-sm">Ends</Label>
+        <Select value={endMode} onValueChange={(value) => setEndMode(value as EndMode)}>
+          <SelectTrigger className="bg-[#3A3650] border-0 text-white h-14 rounded-2xl">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-[#3A3650] border-0 text-white">
+            <SelectItem value="never">Never</SelectItem>
+            <SelectItem value="date">On a date</SelectItem>
+            <SelectItem value="count">After a number of payments</SelectItem>
+          </SelectContent>
+        </Select>
+        {endMode === "date" && (
+          <Input
+            type="date"
+            value={endDate}
+            onChange={(e) => setEndDate(e.target.value)}
+            className={inputClassName}
+            required
+          />
+        )}
+        {endMode === "count" && (
+          <Input
+            type="number"
+            min={1}
+            placeholder="Number of payments"
+            value={maxRuns}
+            onChange={(e) => setMaxRuns(e.target.value)}
+            className={inputClassName}
+            required
+          />
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="note" className="text-white/80 text-sm">
+          Note (optional)
+        </Label>
+        <Input
+          id="note"
+          placeholder="e.g. Rent"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          className={inputClassName}
+        />
+      </div>
+
+      <p className="text-sm text-white/50">{describeSchedule(timing)}</p>
+
+      <div className="flex gap-3">
+        <Button
+          type="button"
+          variant="ghost"
+          onClick={onCancel}
+          className="flex-1 h-14 rounded-full text-white hover:bg-white/10"
+        >
+          Cancel
+        </Button>
+        <Button
+          type="submit"
+          disabled={isLoading}
+          className="flex-1 h-14 rounded-full bg-white/15 hover:bg-white/25 text-white text-base disabled:opacity-50"
+        >
+          {isLoading ? "Saving..." : isEditing ? "Save changes" : "Create schedule"}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,112 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { CalendarClock, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { getScheduledTransactionsAwaitingConfirmation } from "@/lib/scheduled-payments";
+import { formatTransactionAmount, updateTransactionStatus } from "@/lib/transactions";
+import type { Transaction } from "@/lib/supabase";
+
+interface ScheduledPaymentsDueProps {
+  profileId: string;
+}
+
+/**
+ * Lists payments queued by schedules that are waiting for wallet confirmation.
+ * Renders nothing when there is nothing to confirm.
+ */
+export function ScheduledPaymentsDue({ profileId }: ScheduledPaymentsDueProps) {
+  const router = useRouter();
+  const [queued, setQueued] = useState<Transaction[]>([]);
+  const [skippingId, setSkippingId] = useState<string | null>(null);
+
+  const fetchQueued = useCallback(async () => {
+    try {
+      const data = await getScheduledTransactionsAwaitingConfirmation(profileId);
+      setQueued(data);
+    } catch (error) {
+      // Silently fail - the card simply stays hidden
+      setQueued([]);
+    }
+  }, [profileId]);
+
+  useEffect(() => {
+    fetchQueued();
+  }, [fetchQueued]);
+
+  const handleReview = (tx: Transaction) => {
+    router.push(
+      `/payments/crypto/${tx.recipient_id}/review?amount=${tx.amount}&token=${tx.token}&chain=${tx.chain}&txId=${tx.id}`
+    );
+  };
+
+  const handleSkip = async (tx: Transaction) => {
+    setSkippingId(tx.id);
+    try {
+      await updateTransactionStatus(tx.id, "failed");
+      setQueued((prev) => prev.filter((item) => item.id !== tx.id));
+    } catch (error) {
+      console.error("[ScheduledPaymentsDue] Failed to skip payment:", error);
+    } finally {
+      setSkippingId(null);
+    }
+  };
+
+  if (queued.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="bg-[#2A1F4D]/80 backdrop-blur-sm border-0 rounded-3xl p-5 mb-6 shadow-xl">
+      <div className="flex items-center gap-2 mb-4">
+        <CalendarClock className="h-5 w-5 text-white/80" />
+        <h3 className="text-white font-medium">Scheduled payments to confirm</h3>
+      </div>
+      <div className="space-y-3">
+        {queued.map((tx) => (
+          <div key={tx.id} className="flex items-center justify-between gap-3">
+            <div className="min-w-0">
+              <p className="text-white truncate">
+                {tx.recipient?.name || "Recipient"}
+              </p>
+              <p className="text-xs text-white/50">
+                Due{" "}
+                {new Date(tx.created_at).toLocaleDateString("en-US", {
+                  month: "short",
+                  day: "numeric",
+                })}
+              </p>
+            </div>
+            <div className="flex items-center gap-2 flex-shrink-0">
+              <span className="text-white font-medium">
+                {formatTransactionAmount(tx.amount, tx.token)}
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleSkip(tx)}
+                disabled={skippingId === tx.id}
+                className="text-white/60 hover:text-white hover:bg-white/10 rounded-full"
+              >
+                {skippingId === tx.id ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  "Skip"
+                )}
+              </Button>
+              <Button
+                size="sm"
+                onClick={() => handleReview(tx)}
+                className="rounded-full bg-white text-black hover:bg-white/90"
+              >
+                Review
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </Card>
+  );
+}
@@ -12,6 +12,7 @@ import {
   Loader2,
 } from "lucide-react";
 import { useTransactionStatus } from "@/lib/payments";
+import { getExplorerTxUrl } from "@/lib/chains";
 import type { Transaction } from "@/lib/supabase";
 
 export function StatusIndicator() {
@@ -33,7 +34,10 @@ export function StatusIndicator() {
 
   const openExplorer = () => {
     if (transaction?.tx_hash) {
-      window.open(`https://basescan.org/tx/${transaction.tx_hash}`, "_blank");
+      window.open(
+        getExplorerTxUrl(transaction.tx_hash, transaction.chain),
+        "_blank"
+      );
     }
   };
 
@@ -99,7 +99,11 @@ export function InvestmentMovementCard({
   };
 
   const handleClick = () => {
-    router.push(`/invest/status/${movement.id}`);
+    router.push(
+      movement.movement_type === "withdrawal"
+        ? `/invest/withdraw/status/${movement.id}`
+        : `/invest/status/${movement.id}`
+    );
   };
 
   return (
@@ -0,0 +1,166 @@
+/**
+ * @fileoverview Server-side verification of personal access tokens.
+ * Generates and hashes tokens and resolves the `Authorization: Bearer` header
+ * of /api/mcp and the AI routes to the token's profile and scopes.
+ */
+
+import { createHash, randomBytes } from "crypto";
+import { createClient } from "@supabase/supabase-js";
+import {
+  ACCESS_TOKEN_PREFIX,
+  hasScope,
+  isAccessTokenActive,
+  type AccessTokenScope,
+  type PersonalAccessToken,
+} from "./access-tokens";
+
+/**
+ * Admin Supabase client for server-side operations.
+ * Uses service role key for elevated permissions when available.
+ * Falls back to anon key if service role key is not set.
+ *
+ * @private
+ */
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY ||
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  }
+);
+
+/**
+ * Profile and scopes a request was authenticated with.
+ *
+ * @interface AccessTokenAuth
+ * @property {string} profileId - Token owner
+ * @property {AccessTokenScope[]} scopes - Scopes granted to the token
+ * @property {string} tokenId - Token record ID
+ */
+export interface AccessTokenAuth {
+  profileId: string;
+  scopes: AccessTokenScope[];
+  tokenId: string;
+}
+
+/**
+ * Outcome of checking a request's access token. `status` and `message` are
+ * ready to be returned by the route when the check fails.
+ */
+export type AccessTokenCheck =
+  | { ok: true; auth: AccessTokenAuth }
+  | { ok: false; status: 401 | 403; message: string };
+
+/**
+ * Hashes a token for storage and lookup. Tokens are 32 random bytes, so a
+ * plain SHA-256 is enough.
+ *
+ * @param {string} token - Token secret
+ * @returns {string} Hex digest
+ */
+export function hashAccessToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Generates a new token secret.
+ *
+ * @returns {{ token: string; prefix: string; hash: string }} Secret, display prefix and hash
+ */
+export function generateAccessToken(): { token: string; prefix: string; hash: string } {
+  const token = `${ACCESS_TOKEN_PREFIX}${randomBytes(32).toString("base64url")}`;
+  return {
+    token,
+    prefix: token.slice(0, ACCESS_TOKEN_PREFIX.length + 4),
+    hash: hashAccessToken(token),
+  };
+}
+
+/**
+ * Reads a personal access token from the Authorization header.
+ * Other bearer tokens (e.g. session JWTs) are ignored.
+ *
+ * @param {Request} request - Incoming request
+ * @returns {string | null} Token, or null if none was sent
+ */
+export function getAccessTokenFromRequest(request: Request): string | null {
+  const authorization = request.headers.get("authorization");
+  if (!authorization?.startsWith("Bearer ")) {
+    return null;
+  }
+  const token = authorization.slice("Bearer ".length).trim();
+  return token.startsWith(ACCESS_TOKEN_PREFIX) ? token : null;
+}
+
+/**
+ * Looks up an active token and records its use.
+ *
+ * @param {string} token - Token secret
+ * @returns {Promise<AccessTokenAuth | null>} Owner and scopes, or null if unknown, expired or revoked
+ */
+export async function authenticateAccessToken(token: string): Promise<AccessTokenAuth | null> {
+  const { data, error } = await supabaseAdmin
+    .from("personal_access_tokens")
+    .select("id, profile_id, scopes, expires_at, revoked_at")
+    .eq("token_hash", hashAccessToken(token))
+    .maybeSingle();
+
+  if (error || !data) {
+    return null;
+  }
+
+  const record = data as Pick<PersonalAccessToken, "id" | "profile_id" | "scopes" | "expires_at" | "revoked_at">;
+  if (!isAccessTokenActive(record)) {
+    return null;
+  }
+
+  // Best effort; a failed update must not reject the request
+  const { error: updateError } = await supabaseAdmin
+    .from("personal_access_tokens")
+    .update({ last_used_at: new Date().toISOString() })
+    .eq("id", record.id);
+  if (updateError) {
+    console.warn("[access-tokens] Failed to record token use:", updateError.message);
+  }
+
+  return { profileId: record.profile_id, scopes: record.scopes, tokenId: record.id };
+}
+
+/**
+ * Authenticates a request that sent a personal access token.
+ *
+ * @param {Request} request - Incoming request
+ * @param {AccessTokenScope} [requiredScope] - Scope the route needs
+ * @returns {Promise<AccessTokenCheck | null>} Result, or null if the request has no token
+ *
+ * @example
+ * ```typescript
+ * const tokenCheck = await checkAccessToken(request, "ai:chat");
+ * if (tokenCheck && !tokenCheck.ok) {
+ *   return NextResponse.json({ message: tokenCheck.message }, { status: tokenCheck.status });
+ * }
+ * ```
+ */
+export async function checkAccessToken(
+  request: Request,
+  requiredScope?: AccessTokenScope
+): Promise<AccessTokenCheck | null> {
+  const token = getAccessTokenFromRequest(request);
+  if (!token) {
+    return null;
+  }
+
+  const auth = await authenticateAccessToken(token);
+  if (!auth) {
+    return { ok: false, status: 401, message: "Invalid or expired access token" };
+  }
+  if (requiredScope && !hasScope(auth.scopes, requiredScope)) {
+    return { ok: false, status: 403, message: `This access token lacks the ${requiredScope} scope` };
+  }
+
+  return { ok: true, auth };
+}
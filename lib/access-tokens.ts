@@ -0,0 +1,204 @@
+/**
+ * @fileoverview Personal access tokens for external clients.
+ * Users create tokens on their profile to connect MCP clients and scripts to
+ * /api/mcp and the AI routes. A token acts for its owner within its scopes and
+ * until it expires or is revoked. Tokens are shown once at creation; only a
+ * hash is stored. Verification lives in lib/access-token-auth.ts.
+ */
+
+import type { PersonalAccessToken } from "./supabase";
+import { authFetch } from "./auth-fetch";
+
+export type { PersonalAccessToken };
+
+/**
+ * What a token may access.
+ * @typedef {string} AccessTokenScope
+ */
+export type AccessTokenScope = PersonalAccessToken["scopes"][number];
+
+/**
+ * Token as returned to the owner: everything except the hash.
+ */
+export type PersonalAccessTokenSummary = Omit<PersonalAccessToken, "token_hash">;
+
+/**
+ * Every token starts with this prefix, so it can be told apart from session JWTs.
+ */
+export const ACCESS_TOKEN_PREFIX = "banb_pat_";
+
+/**
+ * Scopes with the label and description shown when creating a token.
+ */
+export const ACCESS_TOKEN_SCOPES: Record<AccessTokenScope, { label: string; description: string }> = {
+  "read:balances": {
+    label: "Balances",
+    description: "Accounts and balances",
+  },
+  "read:transactions": {
+    label: "Transactions",
+    description: "Transaction history and spending summary",
+  },
+  "read:recipients": {
+    label: "Recipients",
+    description: "Saved recipients and amounts sent to them",
+  },
+  "ai:chat": {
+    label: "AI chat",
+    description: "Ask the AI assistant, which can propose operations",
+  },
+  "ai:execute": {
+    label: "AI operations",
+    description: "Confirm operations proposed by the AI assistant",
+  },
+};
+
+/**
+ * Lifetimes a token can be created with, in days.
+ */
+export const ACCESS_TOKEN_EXPIRY_DAYS = [7, 30, 90, 365];
+
+/**
+ * Maximum number of active tokens per profile.
+ */
+export const MAX_ACTIVE_ACCESS_TOKENS = 10;
+
+/**
+ * Request to create a token.
+ *
+ * @interface CreateAccessTokenInput
+ * @property {string} name - Label for the token
+ * @property {AccessTokenScope[]} scopes - Scopes to grant, at least one
+ * @property {number} expires_in_days - One of ACCESS_TOKEN_EXPIRY_DAYS
+ */
+export interface CreateAccessTokenInput {
+  name: string;
+  scopes: AccessTokenScope[];
+  expires_in_days: number;
+}
+
+/**
+ * Checks whether a value is a known scope.
+ *
+ * @param {unknown} value - Value to check
+ * @returns {boolean} True for a known scope
+ */
+export function isAccessTokenScope(value: unknown): value is AccessTokenScope {
+  return typeof value === "string" && value in ACCESS_TOKEN_SCOPES;
+}
+
+/**
+ * Checks whether a caller may use a scope. Callers without scopes are the
+ * signed-in user in the app and may use everything.
+ *
+ * @param {AccessTokenScope[] | undefined} scopes - Scopes of the caller's token, if any
+ * @param {AccessTokenScope} scope - Scope required
+ * @returns {boolean} True if allowed
+ */
+export function hasScope(scopes: AccessTokenScope[] | undefined, scope: AccessTokenScope): boolean {
+  return scopes === undefined || scopes.includes(scope);
+}
+
+/**
+ * Checks whether a token can still be used.
+ *
+ * @param {Pick<PersonalAccessToken, "expires_at" | "revoked_at">} token - Token to check
+ * @param {Date} [now=new Date()] - Current time
+ * @returns {boolean} True if not revoked and not expired
+ */
+export function isAccessTokenActive(
+  token: Pick<PersonalAccessToken, "expires_at" | "revoked_at">,
+  now: Date = new Date()
+): boolean {
+  return !token.revoked_at && new Date(token.expires_at).getTime() > now.getTime();
+}
+
+/**
+ * Validates a request to create a token.
+ *
+ * @param {Partial<CreateAccessTokenInput>} input - Requested token
+ * @returns {string | null} Error message, or null if valid
+ */
+export function validateAccessTokenInput(input: Partial<CreateAccessTokenInput>): string | null {
+  const name = typeof input.name === "string" ? input.name.trim() : "";
+  if (!name || name.length > 50) {
+    return "Name must be 1 to 50 characters";
+  }
+  if (!Array.isArray(input.scopes) || input.scopes.length === 0) {
+    return "Select at least one scope";
+  }
+  const unknownScope = input.scopes.find((scope) => !isAccessTokenScope(scope));
+  if (unknownScope !== undefined) {
+    return `Unknown scope: ${String(unknownScope)}`;
+  }
+  if (!ACCESS_TOKEN_EXPIRY_DAYS.includes(input.expires_in_days as number)) {
+    return `Expiry must be one of ${ACCESS_TOKEN_EXPIRY_DAYS.join(", ")} days`;
+  }
+  return null;
+}
+
+/**
+ * Lists a profile's tokens, newest first, including revoked and expired ones.
+ *
+ * @param {string} profileId - Owner's profile ID
+ * @returns {Promise<PersonalAccessTokenSummary[]>} Tokens without their hashes
+ * @throws {Error} If the request fails
+ */
+export async function getAccessTokens(profileId: string): Promise<PersonalAccessTokenSummary[]> {
+  const response = await authFetch(`/api/access-tokens?profile_id=${encodeURIComponent(profileId)}`);
+
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || "Failed to fetch access tokens");
+  }
+
+  return result.tokens;
+}
+
+/**
+ * Creates a token. The returned `token` is the only time the secret is available.
+ *
+ * @param {string} profileId - Owner's profile ID
+ * @param {CreateAccessTokenInput} input - Name, scopes and lifetime
+ * @returns {Promise<{ token: string; access_token: PersonalAccessTokenSummary }>} Secret and stored token
+ * @throws {Error} If the input is invalid or the request fails
+ */
+export async function createAccessToken(
+  profileId: string,
+  input: CreateAccessTokenInput
+): Promise<{ token: string; access_token: PersonalAccessTokenSummary }> {
+  const response = await authFetch("/api/access-tokens", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ profile_id: profileId, ...input }),
+  });
+
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || "Failed to create access token");
+  }
+
+  return { token: result.token, access_token: result.access_token };
+}
+
+/**
+ * Revokes a token. Requests using it are rejected immediately.
+ *
+ * @param {string} profileId - Owner's profile ID
+ * @param {string} tokenId - Token to revoke
+ * @returns {Promise<void>}
+ * @throws {Error} If the request fails
+ */
+export async function revokeAccessToken(profileId: string, tokenId: string): Promise<void> {
+  const response = await authFetch(
+    `/api/access-tokens/${tokenId}?profile_id=${encodeURIComponent(profileId)}`,
+    { method: "DELETE" }
+  );
+
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || "Failed to revoke access token");
+  }
+}
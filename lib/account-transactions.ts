@@ -6,6 +6,16 @@
 "use client";
 
 import { supabase, type AccountTransaction } from "./supabase";
+import {
+  MAX_TRANSACTION_PAGE_SIZE,
+  decodeTransactionCursor,
+  getCursorFilter,
+  getPageSize,
+  sanitizeSearchTerm,
+  toTransactionPage,
+  type TransactionPage,
+  type TransactionQuery,
+} from "./transaction-query";
 
 /**
  * Data required to create a new account transaction.
@@ -74,40 +84,67 @@ export async function createAccountTransaction(
 }
 
 /**
- * Retrieves all transactions for an account.
+ * Retrieves a page of an account's transactions, newest first.
+ * Pass `next_cursor` back as `query.cursor` for the following page.
  *
  * @param {string} accountId - UUID of the account
- * @param {number} [limit] - Optional limit for number of transactions
- * @returns {Promise<AccountTransaction[]>} Array of transactions
- * @throws {Error} If database operation fails
+ * @param {TransactionQuery} [query={}] - Filters, search and paging; `counterparty` is an address
+ * @returns {Promise<TransactionPage<AccountTransaction>>} Page of transactions
+ * @throws {Error} If database operation fails or the cursor is invalid
  *
  * @example
  * ```typescript
- * const transactions = await getTransactionsByAccount(accountId);
- * const recentTxs = await getTransactionsByAccount(accountId, 10);
+ * const { items } = await getTransactionsByAccount(accountId, { limit: 10 });
+ * const deposits = await getTransactionsByAccount(accountId, { direction: "in", search: "salary" });
  * ```
  */
 export async function getTransactionsByAccount(
   accountId: string,
-  limit?: number
-): Promise<AccountTransaction[]> {
-  let query = supabase
+  query: TransactionQuery = {}
+): Promise<TransactionPage<AccountTransaction>> {
+  const pageSize = getPageSize(query.limit);
+
+  let request = supabase
     .from("account_transactions")
     .select("*")
     .eq("account_id", accountId)
-    .order("created_at", { ascending: false });
+    .order("created_at", { ascending: false })
+    .order("id", { ascending: false })
+    .limit(pageSize + 1);
+
+  if (query.direction) request = request.eq("direction", query.direction);
+  if (query.counterparty) {
+    request = request.ilike("counterparty", sanitizeSearchTerm(query.counterparty));
+  }
+  if (query.token) request = request.eq("token_symbol", query.token);
+  if (query.status?.length) request = request.in("status", query.status);
+  if (query.from) request = request.gte("created_at", query.from);
+  if (query.to) request = request.lte("created_at", query.to);
+  if (query.min_amount !== undefined) request = request.gte("amount", query.min_amount);
+  if (query.max_amount !== undefined) request = request.lte("amount", query.max_amount);
+
+  const search = query.search ? sanitizeSearchTerm(query.search) : "";
+  if (search) {
+    request = request.or(
+      `counterparty_name.ilike.%${search}%,description.ilike.%${search}%`
+    );
+  }
 
-  if (limit) {
-    query = query.limit(limit);
+  if (query.cursor) {
+    const position = decodeTransactionCursor(query.cursor);
+    if (!position) {
+      throw new Error("Invalid cursor");
+    }
+    request = request.or(getCursorFilter(position));
   }
 
-  const { data, error } = await query;
+  const { data, error } = await request;
 
   if (error) {
     throw new Error(`Failed to fetch transactions: ${error.message}`);
   }
 
-  return data || [];
+  return toTransactionPage((data as AccountTransaction[]) || [], pageSize);
 }
 
 /**
@@ -305,7 +342,17 @@ export function groupAccountTransactionsByDate(
 export async function getAccountTransactionTotals(
   accountId: string
 ): Promise<{ totalIn: number; totalOut: number; net: number }> {
-  const transactions = await getTransactionsByAccount(accountId);
+  const transactions: AccountTransaction[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await getTransactionsByAccount(accountId, {
+      status: ["confirmed"],
+      limit: MAX_TRANSACTION_PAGE_SIZE,
+      cursor,
+    });
+    transactions.push(...page.items);
+    cursor = page.next_cursor ?? undefined;
+  } while (cursor);
 
   const totalIn = transactions
     .filter((tx) => tx.direction === "in" && tx.status === "confirmed")
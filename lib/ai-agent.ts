@@ -6,13 +6,21 @@
 
 "use client";
 
-import { useState, useCallback, useEffect } from "react";
+import { useState, useCallback, useEffect, useRef } from "react";
 import { supabase, type Transaction, type Recipient } from "./supabase";
 import type { AIOperation } from "./supabase";
 import { getRecentTransactions, getSentTransactions } from "./transactions";
 import { getRecipientsByProfile } from "./recipients";
 import { useUSDCBalance } from "./payments";
 import { getPortfolioInsights, type PortfolioInsights } from "./portfolio-insights";
+import { readSSEStream } from "./sse";
+import {
+  validateAIOperationData,
+  type AIOperationStep,
+  type ParsedAIOperation,
+} from "./ai-operations";
+import { getConversation } from "./ai-conversations";
+import { authFetch } from "./auth-fetch";
 
 // Re-export AIOperation for convenience
 export type { AIOperation };
@@ -22,13 +30,15 @@ export type { AIOperation };
  * 
  * @interface AIAgentMessage
  * @property {"user" | "assistant"} role - Message sender role
- * @property {string} content - Message text content
+ * @property {string} content - Message text content (grows while an answer streams in)
  * @property {number} timestamp - Unix timestamp of message creation
+ * @property {boolean} [cancelled] - True if the user stopped the answer mid-stream
  */
 export interface AIAgentMessage {
   role: "user" | "assistant";
   content: string;
   timestamp: number;
+  cancelled?: boolean;
 }
 
 /**
@@ -45,17 +55,8 @@ export interface AIAgentContext {
   recipients: Recipient[];
 }
 
-/**
- * Parsed operation from AI response.
- * 
- * @interface ParsedAIOperation
- * @property {"payment" | "analysis" | "query"} type - Operation type
- * @property {Record<string, unknown>} data - Operation-specific data
- */
-export interface ParsedAIOperation {
-  type: "payment" | "analysis" | "query";
-  data: Record<string, unknown>;
-}
+// Operations are proposed through the AI action tools (see ./ai-operations)
+export type { ParsedAIOperation };
 
 // Re-export PortfolioInsights for convenience
 export type { PortfolioInsights } from "./portfolio-insights";
@@ -64,14 +65,24 @@ export type { PortfolioInsights } from "./portfolio-insights";
  * React hook for AI agent chat interface.
  * Manages conversation history, processes user messages, and handles AI responses.
  * Automatically retrieves user context (balance, transactions, recipients) for AI.
+ * Answers are streamed: the last assistant message grows as text arrives and
+ * `toolStatus` describes the tool currently running.
+ * Conversations are stored server-side: the first message starts a new
+ * conversation and later messages continue it, so the assistant remembers
+ * earlier questions. Pass `conversationId` to resume a stored conversation.
  * 
  * @param {string} profileId - Current user's profile ID
  * @param {string | undefined} userAddress - User's wallet address for balance lookup
+ * @param {string} [initialConversationId] - Stored conversation to resume
  * @returns {Object} AI agent state and functions
  * @returns {AIAgentMessage[]} return.messages - Conversation history
+ * @returns {string | null} return.conversationId - ID of the current stored conversation
+ * @returns {boolean} return.isLoadingConversation - True while a stored conversation loads
  * @returns {boolean} return.isProcessing - True while AI is generating response
+ * @returns {string | null} return.toolStatus - Progress label of the running tool call
  * @returns {function} return.sendMessage - Function to send user message
- * @returns {function} return.clearHistory - Function to clear conversation
+ * @returns {function} return.cancelMessage - Function to stop the answer being generated
+ * @returns {function} return.clearHistory - Function to start a new conversation (the old one stays in history)
  * @returns {string | null} return.error - Error message if operation failed
  * @returns {ParsedAIOperation | null} return.pendingOperation - Operation awaiting confirmation
  * 
@@ -98,11 +109,19 @@ export type { PortfolioInsights } from "./portfolio-insights";
  * }
  * ```
  */
-export function useAIAgent(profileId: string, userAddress?: `0x${string}`) {
+export function useAIAgent(
+  profileId: string,
+  userAddress?: `0x${string}`,
+  initialConversationId?: string
+) {
   const [messages, setMessages] = useState<AIAgentMessage[]>([]);
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [isLoadingConversation, setIsLoadingConversation] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [pendingOperation, setPendingOperation] = useState<ParsedAIOperation | null>(null);
+  const [toolStatus, setToolStatus] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   const { formattedBalance } = useUSDCBalance(userAddress);
 
@@ -113,6 +132,43 @@ export function useAIAgent(profileId: string, userAddress?: `0x${string}`) {
     }
   }, [profileId]);
 
+  // Resume a stored conversation
+  useEffect(() => {
+    if (!profileId || !initialConversationId) {
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoadingConversation(true);
+    setError(null);
+
+    getConversation(initialConversationId, profileId)
+      .then(({ conversation, messages: stored }) => {
+        if (cancelled) return;
+        setConversationId(conversation.id);
+        setMessages(
+          stored.map((m) => ({
+            role: m.role,
+            content: m.content,
+            timestamp: new Date(m.created_at).getTime(),
+            cancelled: m.cancelled || undefined,
+          }))
+        );
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : "Failed to load conversation");
+        console.error("[useAIAgent] Error loading conversation:", err);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingConversation(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [profileId, initialConversationId]);
+
   /**
    * Retrieves current user context for AI.
    * Fetches balance, recent transactions, and recipients.
@@ -131,7 +187,7 @@ export function useAIAgent(profileId: string, userAddress?: `0x${string}`) {
   }, [profileId, formattedBalance]);
 
   /**
-   * Sends a message to the AI and processes the response.
+   * Sends a message to the AI and streams the response into the history.
    * Automatically includes user context in the request.
    */
   const sendMessage = useCallback(
@@ -140,27 +196,59 @@ export function useAIAgent(profileId: string, userAddress?: `0x${string}`) {
         setError("User not authenticated. Please log in to use the AI assistant.");
         return;
       }
+      if (abortControllerRef.current) {
+        return; // One answer at a time
+      }
 
+      const abortController = new AbortController();
+      abortControllerRef.current = abortController;
       setIsProcessing(true);
       setError(null);
+      setToolStatus(null);
 
-      // Add user message to history
+      // Add user message and an empty assistant message to fill while streaming
       const userMessage: AIAgentMessage = {
         role: "user",
         content: message,
         timestamp: Date.now(),
       };
-      setMessages((prev) => [...prev, userMessage]);
+      const assistantTimestamp = Date.now() + 1;
+      setMessages((prev) => [
+        ...prev,
+        userMessage,
+        { role: "assistant", content: "", timestamp: assistantTimestamp },
+      ]);
+
+      const updateAnswer = (update: Partial<AIAgentMessage>) => {
+        setMessages((prev) =>
+          prev.map((m) =>
+            m.role === "assistant" && m.timestamp === assistantTimestamp
+              ? { ...m, ...update }
+              : m
+          )
+        );
+      };
+      const removeEmptyAnswer = () => {
+        setMessages((prev) =>
+          prev.filter(
+            (m) =>
+              !(m.role === "assistant" && m.timestamp === assistantTimestamp && !m.content)
+          )
+        );
+      };
 
+      let content = "";
       try {
         // Send to AI API with profileId in context
-        const response = await fetch("/api/ai/chat", {
+        const response = await authFetch("/api/ai/chat", {
           method: "POST",
           headers: {
             "Content-Type": "application/json",
           },
           body: JSON.stringify({
             message,
+            stream: true,
+            conversationId: conversationId || undefined,
             context: {
               profileId,
               includeBalance: true,
@@ -168,42 +256,75 @@ export function useAIAgent(profileId: string, userAddress?: `0x${string}`) {
               includeRecipients: true,
             },
           }),
+          signal: abortController.signal,
         });
 
-        if (!response.ok) {
-          const errorData = await response.json();
+        if (!response.ok || !response.body) {
+          const errorData = await response.json().catch(() => ({}));
           throw new Error(errorData.message || "Failed to process message");
         }
 
-        const data = await response.json();
-
-        // Add AI response to history
-        const aiMessage: AIAgentMessage = {
-          role: "assistant",
-          content: data.response,
-          timestamp: Date.now(),
-        };
-        setMessages((prev) => [...prev, aiMessage]);
-
-        // Handle operation if present
-        if (data.operation) {
-          setPendingOperation(data.operation);
-        }
+        await readSSEStream(response.body, ({ event, data }) => {
+          const payload = JSON.parse(data);
+          switch (event) {
+            case "conversation":
+              setConversationId(payload.id);
+              break;
+            case "delta":
+              content += payload.text;
+              updateAnswer({ content });
+              break;
+            case "tool":
+              setToolStatus(payload.status === "started" ? payload.label : null);
+              break;
+            case "done":
+              // The final answer replaces streamed text (e.g. fallback responses)
+              content = payload.response;
+              updateAnswer({ content });
+              if (payload.operation) {
+                setPendingOperation(payload.operation);
+              }
+              break;
+            case "error":
+              throw new Error(payload.message || "Failed to process message");
+          }
+        });
       } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : "Failed to send message";
-        setError(errorMessage);
-        console.error("[useAIAgent] Error:", err);
+        if (abortController.signal.aborted) {
+          // Keep what was already received
+          if (content) {
+            updateAnswer({ cancelled: true });
+          } else {
+            removeEmptyAnswer();
+          }
+        } else {
+          removeEmptyAnswer();
+          const errorMessage = err instanceof Error ? err.message : "Failed to send message";
+          setError(errorMessage);
+          console.error("[useAIAgent] Error:", err);
+        }
       } finally {
+        abortControllerRef.current = null;
+        setToolStatus(null);
         setIsProcessing(false);
       }
     },
-    [profileId]
+    [profileId, conversationId]
   );
 
   /**
-   * Clears conversation history.
+   * Stops the answer being generated. Text received so far is kept.
+   */
+  const cancelMessage = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  /**
+   * Starts a new conversation. The current one stays in the stored history.
    */
   const clearHistory = useCallback(() => {
+    abortControllerRef.current?.abort();
+    setConversationId(null);
     setMessages([]);
     setPendingOperation(null);
     setError(null);
@@ -211,8 +332,12 @@ export function useAIAgent(profileId: string, userAddress?: `0x${string}`) {
 
   return {
     messages,
+    conversationId,
+    isLoadingConversation,
     isProcessing,
+    toolStatus,
     sendMessage,
+    cancelMessage,
     clearHistory,
     error,
     pendingOperation,
@@ -221,7 +346,7 @@ export function useAIAgent(profileId: string, userAddress?: `0x${string}`) {
 
 /**
  * Validates an AI operation before execution.
- * Checks operation type, required fields, and data integrity.
+ * Uses the schema shared with the AI action tools and /api/ai/execute.
  * 
  * @param {ParsedAIOperation} operation - Operation to validate
  * @returns {{valid: boolean; errors: string[]}} Validation result
@@ -230,45 +355,7 @@ export function validateAIOperation(operation: ParsedAIOperation): {
   valid: boolean;
   errors: string[];
 } {
-  const errors: string[] = [];
-
-  // Validate operation type
-  if (!["payment", "analysis", "query"].includes(operation.type)) {
-    errors.push(`Invalid operation type: ${operation.type}`);
-    return { valid: false, errors };
-  }
-
-  // Type-specific validation
-  switch (operation.type) {
-    case "payment": {
-      const data = operation.data;
-      if (!data.recipient_id && !data.to) {
-        errors.push("Payment requires recipient_id or recipient address");
-      }
-      if (!data.amount) {
-        errors.push("Payment requires amount");
-      } else {
-        const amount = parseFloat(String(data.amount));
-        if (isNaN(amount) || amount <= 0) {
-          errors.push("Payment amount must be greater than zero");
-        }
-      }
-      if (!data.chain) {
-        errors.push("Payment requires blockchain network");
-      }
-      break;
-    }
-
-    case "analysis":
-      // Analysis operations don't require specific validation
-      break;
-
-    case "query":
-      // Query operations don't require specific validation
-      break;
-  }
-
-  return { valid: errors.length === 0, errors };
+  return validateAIOperationData(operation.type, operation.data);
 }
 
 /**
@@ -314,36 +401,48 @@ export async function executeAIOperation(
     console.error("[executeAIOperation] Validation failed:", validation.errors);
 
     // Log failed validation
-    await logAIOperation({
-      profile_id: profileId,
-      operation_type: operation.type,
-      operation_data: operation.data as Record<string, unknown>,
-      user_message: "",
-      ai_response: "",
-      user_confirmed: false,
-      executed: false,
-      execution_result: { error: errorMessage, validation_errors: validation.errors } as Record<string, unknown>,
-    });
+    if (operation.id) {
+      await logAIOperationStep(operation.id, profileId, "failed", { error: errorMessage });
+    } else {
+      await logAIOperation({
+        profile_id: profileId,
+        operation_type: operation.type,
+        operation_data: operation.data as Record<string, unknown>,
+        user_message: "",
+        ai_response: "",
+        user_confirmed: false,
+        executed: false,
+        execution_result: { error: errorMessage, validation_errors: validation.errors } as Record<string, unknown>,
+      });
+    }
 
     throw new Error(errorMessage);
   }
 
-  // Payment operations require user confirmation
-  if (operation.type === "payment" && !userConfirmed) {
-    const errorMessage = "Payment operations require user confirmation";
+  // Payments, investments, withdrawals and new recipients require user confirmation
+  // and are executed by /api/ai/execute, which records them in ai_operations
+  const isExecutedByAPI = ["payment", "invest", "withdraw_investment", "recipient"].includes(
+    operation.type
+  );
+  if (isExecutedByAPI && !userConfirmed) {
+    const errorMessage = "This operation requires user confirmation";
     console.error("[executeAIOperation]", errorMessage);
 
     // Log rejected operation
-    await logAIOperation({
-      profile_id: profileId,
-      operation_type: operation.type,
-      operation_data: operation.data as Record<string, unknown>,
-      user_message: "",
-      ai_response: "",
-      user_confirmed: false,
-      executed: false,
-      execution_result: { error: errorMessage } as Record<string, unknown>,
-    });
+    if (operation.id) {
+      await logAIOperationStep(operation.id, profileId, "rejected");
+    } else {
+      await logAIOperation({
+        profile_id: profileId,
+        operation_type: operation.type,
+        operation_data: operation.data as Record<string, unknown>,
+        user_message: "",
+        ai_response: "",
+        user_confirmed: false,
+        executed: false,
+        execution_result: { error: errorMessage } as Record<string, unknown>,
+      });
+    }
 
     throw new Error(errorMessage);
   }
@@ -353,26 +452,35 @@ export async function executeAIOperation(
 
     switch (operation.type) {
       case "payment":
-        // Execute payment via API
-        const paymentResponse = await fetch("/api/ai/execute", {
+      case "invest":
+      case "withdraw_investment":
+      case "recipient":
+        // Execute via API; operations proposed in the chat run from their stored record
+        const executeResponse = await authFetch("/api/ai/execute", {
           method: "POST",
           headers: {
             "Content-Type": "application/json",
           },
-          body: JSON.stringify({
-            operationType: "payment",
-            operationData: operation.data,
-            profileId,
-            userConfirmed,
-          }),
+          body: JSON.stringify(
+            operation.id
+              ? { operationId: operation.id, confirmed: userConfirmed, profileId }
+              : {
+                  operationType: operation.type,
+                  operationData: operation.data,
+                  profileId,
+                  userConfirmed,
+                }
+          ),
         });
 
-        if (!paymentResponse.ok) {
-          const errorData = await paymentResponse.json();
-          throw new Error(errorData.message || "Payment execution failed");
+        const executeResult = await executeResponse.json();
+
+        // Refusals (e.g. by the AI spending policy) come back with success: false
+        if (!executeResponse.ok || !executeResult.success) {
+          throw new Error(executeResult.message || "Operation execution failed");
         }
 
-        result = await paymentResponse.json();
+        result = executeResult;
         break;
 
       case "analysis":
@@ -386,20 +494,22 @@ export async function executeAIOperation(
         break;
 
       default:
-        throw new Error(`Unsupported operation type: ${operation.type}`);
+        throw new Error(`Unsupported operation type: ${(operation as ParsedAIOperation).type}`);
     }
 
-    // Log successful operation to audit trail
-    await logAIOperation({
-      profile_id: profileId,
-      operation_type: operation.type,
-      operation_data: operation.data as Record<string, unknown>,
-      user_message: "",
-      ai_response: "",
-      user_confirmed: userConfirmed,
-      executed: true,
-      execution_result: result as Record<string, unknown>,
-    });
+    // Log successful operation to audit trail (operations executed by the API are recorded there)
+    if (!operation.id && !isExecutedByAPI) {
+      await logAIOperation({
+        profile_id: profileId,
+        operation_type: operation.type,
+        operation_data: operation.data as Record<string, unknown>,
+        user_message: "",
+        ai_response: "",
+        user_confirmed: userConfirmed,
+        executed: true,
+        execution_result: result as Record<string, unknown>,
+      });
+    }
 
     console.log(`[executeAIOperation] ✓ ${operation.type} operation executed successfully`);
     return { success: true, result };
@@ -407,17 +517,19 @@ export async function executeAIOperation(
     const errorMessage = err instanceof Error ? err.message : "Operation execution failed";
     console.error("[executeAIOperation] ❌ Error:", err);
 
-    // Log failed operation
-    await logAIOperation({
-      profile_id: profileId,
-      operation_type: operation.type,
-      operation_data: operation.data as Record<string, unknown>,
-      user_message: "",
-      ai_response: "",
-      user_confirmed: userConfirmed,
-      executed: false,
-      execution_result: { error: errorMessage } as Record<string, unknown>,
-    });
+    // Log failed operation (operations executed by the API are recorded there)
+    if (!operation.id && !isExecutedByAPI) {
+      await logAIOperation({
+        profile_id: profileId,
+        operation_type: operation.type,
+        operation_data: operation.data as Record<string, unknown>,
+        user_message: "",
+        ai_response: "",
+        user_confirmed: userConfirmed,
+        executed: false,
+        execution_result: { error: errorMessage } as Record<string, unknown>,
+      });
+    }
 
     throw new Error(errorMessage);
   }
@@ -426,76 +538,6 @@ export async function executeAIOperation(
 // Re-export getPortfolioInsights for convenience
 export { getPortfolioInsights } from "./portfolio-insights";
 
-/**
- * Parses AI response text to extract actionable operations.
- * Looks for payment commands, analysis requests, and queries.
- * 
- * @param {string} aiResponse - AI's text response
- * @param {AIAgentContext} context - User context for validation
- * @returns {ParsedAIOperation | null} Parsed operation or null if none found
- * 
- * @example
- * ```typescript
- * const response = "I can send $50 to Alice for you. Would you like me to proceed?";
- * const operation = parseAIResponse(response, context);
- * // Returns: { type: "payment", data: { recipient_id: "...", amount: "50.00" } }
- * ```
- */
-export function parseAIResponse(
-  aiResponse: string,
-  context: AIAgentContext
-): ParsedAIOperation | null {
-  const lowerResponse = aiResponse.toLowerCase();
-
-  // Check for payment operation
-  if (lowerResponse.includes("send") || lowerResponse.includes("pay")) {
-    // Extract amount (look for $XX or XX USDC patterns)
-    const amountMatch = aiResponse.match(/\$(\d+(?:\.\d{2})?)|(\d+(?:\.\d{2})?)\s*usdc/i);
-    if (amountMatch) {
-      const amount = amountMatch[1] || amountMatch[2];
-
-      // Extract recipient name
-      const toMatch = aiResponse.match(/to\s+([A-Za-z]+)/i);
-      if (toMatch) {
-        const recipientName = toMatch[1];
-
-        // Find recipient in context
-        const recipient = context.recipients.find((r) =>
-          r.name.toLowerCase().includes(recipientName.toLowerCase())
-        );
-
-        if (recipient) {
-          return {
-            type: "payment",
-            data: {
-              recipient_id: recipient.id,
-              amount,
-              token: "USDC",
-              chain: "base",
-              to: recipient.external_address || "",
-            },
-          };
-        }
-      }
-    }
-  }
-
-  // Check for analysis operation
-  if (
-    lowerResponse.includes("analyze") ||
-    lowerResponse.includes("spending") ||
-    lowerResponse.includes("insights")
-  ) {
-    return {
-      type: "analysis",
-      data: {},
-    };
-  }
-
-  // Default to query operation
-  return null;
-}
-
 /**
  * Logs an AI operation to the audit trail.
  * Creates a record in the ai_operations table for compliance and debugging.
@@ -543,6 +585,48 @@ async function logAIOperation(operationData: Partial<AIOperation>): Promise<void
   }
 }
 
+/**
+ * Logs a step of an AI operation proposed in the chat, such as signing the
+ * prefilled deposit or withdrawal, to its ai_operations record.
+ *
+ * @async
+ * @param {string} operationId - ai_operations record ID
+ * @param {string} profileId - Owner's profile ID
+ * @param {AIOperationStep} step - Step reached ("rejected", "submitted", "completed" or "failed")
+ * @param {Record<string, unknown>} [details] - Step details, e.g. the transaction hash or error
+ * @returns {Promise<void>}
+ *
+ * @example
+ * ```typescript
+ * await logAIOperationStep(operationId, profile.id, "completed", { txHash });
+ * ```
+ */
+export async function logAIOperationStep(
+  operationId: string,
+  profileId: string,
+  step: AIOperationStep,
+  details?: Record<string, unknown>
+): Promise<void> {
+  try {
+    const response = await authFetch(`/api/ai/operations/${operationId}/steps`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ profile_id: profileId, step, details }),
+    });
+
+    if (!response.ok) {
+      const result = await response.json();
+      console.error("[logAIOperationStep] Failed to log step:", result.error);
+      // Don't throw - logging failure shouldn't break the operation
+    }
+  } catch (err) {
+    console.error("[logAIOperationStep] Error:", err);
+    // Don't throw - logging failure shouldn't break the operation
+  }
+}
+
 /**
  * Retrieves AI operation history for a profile.
  * Returns operations ordered by creation date (newest first).
@@ -0,0 +1,252 @@
+/**
+ * @fileoverview Persistent AI assistant conversations.
+ * Conversations and their messages are stored in the ai_conversations and
+ * ai_messages tables by /api/ai/chat. To keep prompts within a token budget,
+ * only the most recent messages are sent to the model; older turns are folded
+ * into the conversation's running summary.
+ * The fetch helpers below wrap the /api/ai/conversations routes.
+ */
+
+import type { AIConversation, AIConversationMessage } from "./supabase";
+import type { AIMessage, AIProvider } from "./ai-provider";
+import { authFetch } from "./auth-fetch";
+
+export type { AIConversation, AIConversationMessage };
+
+/**
+ * Conversation with its message count, as listed by /api/ai/conversations.
+ */
+export interface AIConversationSummary extends AIConversation {
+  message_count: number;
+}
+
+/**
+ * Approximate number of tokens of earlier messages sent with each request.
+ * @constant {number}
+ */
+export const AI_HISTORY_TOKEN_BUDGET = 2000;
+
+/**
+ * Longest title derived from the first message.
+ * @constant {number}
+ */
+export const AI_CONVERSATION_TITLE_LENGTH = 60;
+
+/**
+ * Estimates the token count of a text (about four characters per token).
+ *
+ * @param {string} text - Text to measure
+ * @returns {number} Estimated tokens
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Derives a conversation title from its first message.
+ *
+ * @param {string} message - First user message
+ * @returns {string} Title, shortened with an ellipsis when too long
+ */
+export function getConversationTitle(message: string): string {
+  const title = message.replace(/\s+/g, " ").trim();
+  if (title.length <= AI_CONVERSATION_TITLE_LENGTH) {
+    return title || "New conversation";
+  }
+  return `${title.slice(0, AI_CONVERSATION_TITLE_LENGTH - 1).trimEnd()}…`;
+}
+
+/**
+ * Splits a conversation into the recent messages that fit the token budget
+ * and the older ones to summarize. The recent window always starts with a user
+ * message, as providers expect.
+ *
+ * @param {Array} messages - Messages not yet summarized, oldest first
+ * @param {number} [budget=AI_HISTORY_TOKEN_BUDGET] - Token budget for the recent window
+ * @returns {{recent: Array, older: Array}} Messages to send and messages to summarize
+ */
+export function buildHistoryWindow<T extends Pick<AIConversationMessage, "role" | "content">>(
+  messages: T[],
+  budget: number = AI_HISTORY_TOKEN_BUDGET
+): { recent: T[]; older: T[] } {
+  let start = messages.length;
+  let tokens = 0;
+
+  while (start > 0) {
+    const cost = estimateTokens(messages[start - 1].content);
+    if (tokens + cost > budget) {
+      break;
+    }
+    tokens += cost;
+    start--;
+  }
+
+  while (start < messages.length && messages[start].role !== "user") {
+    start++;
+  }
+
+  return { recent: messages.slice(start), older: messages.slice(0, start) };
+}
+
+/**
+ * Builds the model messages for a conversation: the running summary, if any,
+ * followed by the recent messages. Stopped answers are marked as incomplete.
+ *
+ * @param {string | null} summary - Summary of earlier turns
+ * @param {Array} recent - Recent messages, oldest first
+ * @returns {AIMessage[]} Messages to place between the system prompt and the new user message
+ */
+export function toHistoryMessages(
+  summary: string | null,
+  recent: Pick<AIConversationMessage, "role" | "content" | "cancelled">[]
+): AIMessage[] {
+  const history: AIMessage[] = [];
+  if (summary) {
+    history.push({
+      role: "system",
+      content: `Summary of the earlier conversation: ${summary}`,
+    });
+  }
+  for (const message of recent) {
+    history.push({
+      role: message.role,
+      content: message.cancelled ? `${message.content}\n[answer stopped by the user]` : message.content,
+    });
+  }
+  return history;
+}
+
+/**
+ * Folds older messages into the running summary with the AI provider.
+ *
+ * @async
+ * @param {AIProvider} provider - Provider used for the summary
+ * @param {string | null} previousSummary - Current summary, if any
+ * @param {Array} messages - Messages to fold in, oldest first
+ * @returns {Promise<string>} Updated summary
+ * @throws {Error} If the provider request fails
+ */
+export async function summarizeConversation(
+  provider: AIProvider,
+  previousSummary: string | null,
+  messages: Pick<AIConversationMessage, "role" | "content">[]
+): Promise<string> {
+  const transcript = messages
+    .map((message) => `${message.role === "user" ? "User" : "Assistant"}: ${message.content}`)
+    .join("\n");
+
+  const completion = await provider.complete({
+    messages: [
+      {
+        role: "system",
+        content:
+          "You maintain the summary of a conversation between a user and a banking assistant. Update the summary with the new messages. Keep amounts, recipients, dates and open requests; drop small talk. Answer with the summary only, in at most 150 words, in the language of the conversation.",
+      },
+      {
+        role: "user",
+        content: `Current summary: ${previousSummary || "(none)"}\n\nNew messages:\n${transcript}`,
+      },
+    ],
+    maxTokens: 300,
+    temperature: 0.2,
+  });
+
+  return completion.content?.trim() || previousSummary || "";
+}
+
+/**
+ * Lists a profile's conversations, most recently active first.
+ *
+ * @param {string} profileId - Owner's profile ID
+ * @returns {Promise<AIConversationSummary[]>} Conversations
+ * @throws {Error} If the request fails
+ */
+export async function getConversations(profileId: string): Promise<AIConversationSummary[]> {
+  const response = await authFetch(
+    `/api/ai/conversations?profile_id=${encodeURIComponent(profileId)}`
+  );
+
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || "Failed to fetch conversations");
+  }
+
+  return result.conversations;
+}
+
+/**
+ * Fetches a conversation with all of its messages, to resume it.
+ *
+ * @param {string} conversationId - Conversation ID
+ * @param {string} profileId - Owner's profile ID
+ * @returns {Promise<{conversation: AIConversation; messages: AIConversationMessage[]}>} Conversation and messages, oldest first
+ * @throws {Error} If the conversation is not found
+ */
+export async function getConversation(
+  conversationId: string,
+  profileId: string
+): Promise<{ conversation: AIConversation; messages: AIConversationMessage[] }> {
+  const response = await authFetch(
+    `/api/ai/conversations/${conversationId}?profile_id=${encodeURIComponent(profileId)}`
+  );
+
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || "Failed to fetch conversation");
+  }
+
+  return { conversation: result.conversation, messages: result.messages };
+}
+
+/**
+ * Renames a conversation.
+ *
+ * @param {string} conversationId - Conversation ID
+ * @param {string} profileId - Owner's profile ID
+ * @param {string} title - New title
+ * @returns {Promise<AIConversation>} Updated conversation
+ * @throws {Error} If the title is empty or the conversation is not found
+ */
+export async function renameConversation(
+  conversationId: string,
+  profileId: string,
+  title: string
+): Promise<AIConversation> {
+  const response = await authFetch(`/api/ai/conversations/${conversationId}`, {
+    method: "PATCH",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ profile_id: profileId, title }),
+  });
+
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || "Failed to rename conversation");
+  }
+
+  return result.conversation;
+}
+
+/**
+ * Deletes a conversation and its messages.
+ *
+ * @param {string} conversationId - Conversation ID
+ * @param {string} profileId - Owner's profile ID
+ * @returns {Promise<void>}
+ * @throws {Error} If the conversation is not found
+ */
+export async function deleteConversation(
+  conversationId: string,
+  profileId: string
+): Promise<void> {
+  const response = await authFetch(
+    `/api/ai/conversations/${conversationId}?profile_id=${encodeURIComponent(profileId)}`,
+    { method: "DELETE" }
+  );
+
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || "Failed to delete conversation");
+  }
+}
@@ -0,0 +1,483 @@
+/**
+ * @fileoverview Structured operations proposed by the AI assistant.
+ * The model proposes payments, investments, withdrawals and new recipients by
+ * calling the action tools below with typed arguments instead of describing
+ * them in text.
+ * The tools' input schemas are also the validation schema for operations:
+ * the chat route, validateAIOperation (lib/ai-agent.ts) and /api/ai/execute
+ * all validate with validateAIOperationData.
+ * Each step an operation goes through, from proposal to the signed deposit or
+ * withdrawal, is appended to `ai_operations.execution_result.steps`.
+ */
+
+import type { AIToolDefinition } from "./ai-provider";
+import { CHAINS, DEFAULT_CHAIN, getChain } from "./chains";
+import { DEFAULT_TOKEN, TOKENS, getSupportedTokens, getToken, isTokenSupported } from "./tokens";
+import { VAULT_REGISTRY } from "./vault-data";
+
+/**
+ * Operation types stored in `ai_operations.operation_type`.
+ * @typedef {"payment" | "invest" | "withdraw_investment" | "recipient" | "analysis" | "query"} AIOperationType
+ */
+export type AIOperationType =
+  | "payment"
+  | "invest"
+  | "withdraw_investment"
+  | "recipient"
+  | "analysis"
+  | "query";
+
+/**
+ * All operation types, in display order.
+ * @constant {AIOperationType[]}
+ */
+export const AI_OPERATION_TYPES: AIOperationType[] = [
+  "payment",
+  "invest",
+  "withdraw_investment",
+  "recipient",
+  "analysis",
+  "query",
+];
+
+/**
+ * Payment to a saved recipient.
+ *
+ * @interface PaymentOperationData
+ * @property {string} amount - Decimal amount, e.g. "25.50"
+ * @property {string} token - Token symbol (defaults to USDC)
+ * @property {string} chain - Network name (defaults to base)
+ * @property {string} [recipient_id] - Saved recipient ID
+ * @property {string} [recipient_name] - Saved recipient name
+ * @property {string} [to] - Recipient wallet address, filled in by the server
+ * @property {string} [note] - Short note for the user
+ */
+export interface PaymentOperationData {
+  amount: string;
+  token: string;
+  chain: string;
+  recipient_id?: string;
+  recipient_name?: string;
+  to?: string;
+  note?: string;
+}
+
+/**
+ * Deposit into a listed vault.
+ *
+ * @interface InvestOperationData
+ * @property {string} option_id - Investment option ID (see VAULT_REGISTRY)
+ * @property {string} amount - Decimal USDC amount
+ * @property {string} [vault_address] - Vault contract address, filled in by the server
+ * @property {string} [vault_name] - Vault display name, filled in by the server
+ */
+export interface InvestOperationData {
+  option_id: string;
+  amount: string;
+  vault_address?: string;
+  vault_name?: string;
+}
+
+/**
+ * Withdrawal from one of the user's active investments.
+ *
+ * @interface WithdrawInvestmentOperationData
+ * @property {string} option_id - Investment option ID of the vault (see VAULT_REGISTRY)
+ * @property {string} [amount] - Decimal USDC amount; omitted when withdrawing everything
+ * @property {boolean} [withdraw_all] - Withdraw the whole position
+ * @property {string} [investment_id] - Active investment ID, filled in by the server
+ * @property {string} [vault_address] - Vault contract address, filled in by the server
+ * @property {string} [vault_name] - Vault display name, filled in by the server
+ */
+export interface WithdrawInvestmentOperationData {
+  option_id: string;
+  amount?: string;
+  withdraw_all?: boolean;
+  investment_id?: string;
+  vault_address?: string;
+  vault_name?: string;
+}
+
+/**
+ * New saved recipient with an external wallet address.
+ *
+ * @interface RecipientOperationData
+ * @property {string} name - Display name
+ * @property {string} address - Wallet address (0x…)
+ */
+export interface RecipientOperationData {
+  name: string;
+  address: string;
+}
+
+/**
+ * Operation proposed by the AI, awaiting user confirmation.
+ * Discriminated by `type`; the data shape follows the matching action tool.
+ * `id` is the ai_operations record the chat route logged the proposal in.
+ */
+export type ParsedAIOperation = (
+  | { type: "payment"; data: PaymentOperationData }
+  | { type: "invest"; data: InvestOperationData }
+  | { type: "withdraw_investment"; data: WithdrawInvestmentOperationData }
+  | { type: "recipient"; data: RecipientOperationData }
+  | { type: "analysis"; data: Record<string, unknown> }
+  | { type: "query"; data: Record<string, unknown> }
+) & { id?: string };
+
+/**
+ * Steps logged for an operation, in the order they usually happen.
+ * Deposits and withdrawals are `confirmed` in the chat, then `submitted` from
+ * the prefilled review page and `completed` or `failed` once signed.
+ * @typedef {string} AIOperationStep
+ */
+export type AIOperationStep =
+  | "proposed"
+  | "rejected"
+  | "confirmed"
+  | "submitted"
+  | "completed"
+  | "failed";
+
+/**
+ * One entry of `execution_result.steps`.
+ *
+ * @interface AIOperationStepEntry
+ * @property {AIOperationStep} step - Step reached
+ * @property {string} at - ISO timestamp
+ * @property {Record<string, unknown>} [details] - Step details (transaction hash, error…)
+ */
+export interface AIOperationStepEntry {
+  step: AIOperationStep;
+  at: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Largest amount a single AI operation may move.
+ * @constant {number}
+ */
+export const MAX_AI_OPERATION_AMOUNT = 1000000;
+
+const AMOUNT_PATTERN = "^\\d+(\\.\\d+)?$";
+const ADDRESS_PATTERN = "^0x[a-fA-F0-9]{40}$";
+
+type OperationSchema = AIToolDefinition["inputSchema"];
+
+/**
+ * Validation schema for each operation type that carries data.
+ * Analysis and query operations accept any data.
+ * @constant
+ */
+export const AI_OPERATION_SCHEMAS: Partial<Record<AIOperationType, OperationSchema>> = {
+  payment: {
+    type: "object",
+    properties: {
+      recipient_id: {
+        type: "string",
+        description: "ID of the saved recipient, from get_recipients or the user context",
+      },
+      recipient_name: {
+        type: "string",
+        description: "Name of the saved recipient, as the user wrote it (can contain spaces)",
+      },
+      amount: {
+        type: "string",
+        pattern: AMOUNT_PATTERN,
+        description: 'Amount to send as a decimal string, e.g. "25" or "12.50"',
+      },
+      token: {
+        type: "string",
+        enum: Object.keys(TOKENS),
+        description: `Token to send (default ${DEFAULT_TOKEN})`,
+      },
+      chain: {
+        type: "string",
+        enum: Object.keys(CHAINS),
+        description: `Network to send on (default ${DEFAULT_CHAIN})`,
+      },
+      note: {
+        type: "string",
+        maxLength: 140,
+        description: "Optional short reason for the payment",
+      },
+    },
+    required: ["amount"],
+  },
+  invest: {
+    type: "object",
+    properties: {
+      option_id: {
+        type: "string",
+        enum: VAULT_REGISTRY.map((vault) => vault.id),
+        description: "ID of the investment option, from get_investment_options",
+      },
+      amount: {
+        type: "string",
+        pattern: AMOUNT_PATTERN,
+        description: 'USDC amount to deposit as a decimal string, e.g. "200"',
+      },
+    },
+    required: ["option_id", "amount"],
+  },
+  withdraw_investment: {
+    type: "object",
+    properties: {
+      option_id: {
+        type: "string",
+        enum: VAULT_REGISTRY.map((vault) => vault.id),
+        description: "ID of the investment option the user has money in",
+      },
+      amount: {
+        type: "string",
+        pattern: AMOUNT_PATTERN,
+        description: 'USDC amount to withdraw as a decimal string, e.g. "50". Omit when withdrawing everything',
+      },
+      withdraw_all: {
+        type: "boolean",
+        description: "True to withdraw the whole position",
+      },
+    },
+    required: ["option_id"],
+  },
+  recipient: {
+    type: "object",
+    properties: {
+      name: {
+        type: "string",
+        maxLength: 80,
+        description: "Display name for the recipient",
+      },
+      address: {
+        type: "string",
+        pattern: ADDRESS_PATTERN,
+        description: "Wallet address of the recipient (0x followed by 40 hex characters)",
+      },
+    },
+    required: ["name", "address"],
+  },
+};
+
+/**
+ * Action tools offered to the model, keyed to the operation they propose.
+ * Calling one never executes anything: the user confirms first.
+ * @constant {AIToolDefinition[]}
+ */
+export const AI_ACTION_TOOLS: AIToolDefinition[] = [
+  {
+    name: "propose_payment",
+    description:
+      "Propose a payment to one of the user's saved recipients. The user reviews and confirms it in the app; nothing is sent by calling this tool.",
+    inputSchema: AI_OPERATION_SCHEMAS.payment!,
+  },
+  {
+    name: "propose_investment",
+    description:
+      "Propose a USDC deposit into one of the available investment vaults. The user reviews and confirms it in the app.",
+    inputSchema: AI_OPERATION_SCHEMAS.invest!,
+  },
+  {
+    name: "propose_investment_withdrawal",
+    description:
+      "Propose withdrawing USDC from one of the user's active investments, either an amount or everything. The user reviews and confirms it in the app.",
+    inputSchema: AI_OPERATION_SCHEMAS.withdraw_investment!,
+  },
+  {
+    name: "propose_recipient",
+    description:
+      "Propose saving a new recipient with a wallet address. The user reviews and confirms it in the app.",
+    inputSchema: AI_OPERATION_SCHEMAS.recipient!,
+  },
+];
+
+const ACTION_TOOL_OPERATIONS: Record<string, AIOperationType> = {
+  propose_payment: "payment",
+  propose_investment: "invest",
+  propose_investment_withdrawal: "withdraw_investment",
+  propose_recipient: "recipient",
+};
+
+/**
+ * Returns the operation type proposed by an action tool.
+ *
+ * @param {string} toolName - Tool name
+ * @returns {AIOperationType | undefined} Operation type, or undefined for other tools
+ */
+export function getActionToolOperationType(toolName: string): AIOperationType | undefined {
+  return ACTION_TOOL_OPERATIONS[toolName];
+}
+
+/**
+ * Checks a value against one property schema.
+ * Supports the subset of JSON Schema used above: type, enum, pattern, maxLength
+ * and boolean values.
+ */
+function checkProperty(
+  field: string,
+  value: unknown,
+  schema: Record<string, unknown>
+): string | null {
+  if (schema.type === "string") {
+    if (typeof value !== "string") {
+      return `${field} must be a string`;
+    }
+    if (Array.isArray(schema.enum) && !schema.enum.includes(value)) {
+      return `${field} must be one of: ${schema.enum.join(", ")}`;
+    }
+    if (typeof schema.pattern === "string" && !new RegExp(schema.pattern).test(value)) {
+      return `${field} has an invalid format`;
+    }
+    if (typeof schema.maxLength === "number" && value.length > schema.maxLength) {
+      return `${field} must be at most ${schema.maxLength} characters`;
+    }
+  }
+  if (schema.type === "boolean" && typeof value !== "boolean") {
+    return `${field} must be true or false`;
+  }
+  return null;
+}
+
+/**
+ * Validates operation data against the schema of its type, then applies the
+ * rules a schema can't express (amount limits, recipient, token per network,
+ * withdrawal amount).
+ *
+ * @param {string} type - Operation type
+ * @param {unknown} data - Operation data
+ * @returns {{valid: boolean; errors: string[]}} Validation result
+ */
+export function validateAIOperationData(
+  type: string,
+  data: unknown
+): { valid: boolean; errors: string[] } {
+  if (!AI_OPERATION_TYPES.includes(type as AIOperationType)) {
+    return { valid: false, errors: [`Invalid operation type: ${type}`] };
+  }
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    return { valid: false, errors: ["Operation data must be an object"] };
+  }
+
+  const errors: string[] = [];
+  const values = data as Record<string, unknown>;
+  const schema = AI_OPERATION_SCHEMAS[type as AIOperationType];
+
+  // 1. Schema
+  if (schema) {
+    for (const field of schema.required || []) {
+      if (values[field] === undefined || values[field] === null || values[field] === "") {
+        errors.push(`${field} is required`);
+      }
+    }
+    for (const [field, propertySchema] of Object.entries(schema.properties)) {
+      if (values[field] === undefined || values[field] === null || values[field] === "") {
+        continue;
+      }
+      const error = checkProperty(field, values[field], propertySchema as Record<string, unknown>);
+      if (error) {
+        errors.push(error);
+      }
+    }
+  }
+
+  // 2. Amounts
+  if (typeof values.amount === "string" && new RegExp(AMOUNT_PATTERN).test(values.amount)) {
+    const amount = parseFloat(values.amount);
+    if (amount <= 0) {
+      errors.push("Amount must be greater than zero");
+    } else if (amount > MAX_AI_OPERATION_AMOUNT) {
+      errors.push("Amount exceeds maximum limit");
+    }
+  }
+
+  // 3. Type-specific rules
+  if (type === "payment") {
+    if (!values.recipient_id && !values.recipient_name) {
+      errors.push("Payment requires recipient name or ID");
+    }
+    if (values.to !== undefined && !new RegExp(ADDRESS_PATTERN).test(String(values.to))) {
+      errors.push("Invalid recipient address format");
+    }
+
+    const chain = getChain(String(values.chain || DEFAULT_CHAIN));
+    const token = String(values.token || DEFAULT_TOKEN);
+    if (chain && getToken(token) && !isTokenSupported(token, chain.name)) {
+      const supported = getSupportedTokens(chain.name).map((t) => t.symbol).join(", ");
+      errors.push(`${token} is not available on ${chain.label}. Supported tokens: ${supported}`);
+    }
+  }
+
+  if (type === "withdraw_investment") {
+    if (values.withdraw_all === true && values.amount) {
+      errors.push("Withdrawal takes either an amount or withdraw_all, not both");
+    } else if (values.withdraw_all !== true && !values.amount) {
+      errors.push("Withdrawal requires an amount or withdraw_all");
+    }
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Builds an operation from an action tool call.
+ * Strings are trimmed, numeric amounts are accepted and converted, and the
+ * default token and network are filled in before validation.
+ *
+ * @param {string} toolName - Action tool name
+ * @param {Record<string, unknown>} args - Tool arguments from the model
+ * @returns {{operation: ParsedAIOperation | null; errors: string[]}} Operation, or validation errors
+ */
+export function parseActionToolCall(
+  toolName: string,
+  args: Record<string, unknown>
+): { operation: ParsedAIOperation | null; errors: string[] } {
+  const type = getActionToolOperationType(toolName);
+  if (!type) {
+    return { operation: null, errors: [`Unknown action tool: ${toolName}`] };
+  }
+
+  const data: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(args)) {
+    if (typeof value === "string") {
+      data[key] = value.trim();
+    } else if (key === "amount" && typeof value === "number" && Number.isFinite(value)) {
+      data[key] = String(value);
+    } else {
+      data[key] = value;
+    }
+  }
+
+  if (type === "payment") {
+    data.token = getToken(String(data.token || DEFAULT_TOKEN))?.symbol || data.token;
+    data.chain = data.chain ? String(data.chain).toLowerCase() : DEFAULT_CHAIN;
+  }
+
+  const validation = validateAIOperationData(type, data);
+  if (!validation.valid) {
+    return { operation: null, errors: validation.errors };
+  }
+
+  return { operation: { type, data } as ParsedAIOperation, errors: [] };
+}
+
+/**
+ * Appends a step to an operation's execution result, keeping earlier steps
+ * and result fields.
+ *
+ * @param {Record<string, unknown> | null} executionResult - Current `execution_result`
+ * @param {AIOperationStep} step - Step reached
+ * @param {Record<string, unknown>} [details] - Step details
+ * @returns {Record<string, unknown>} Updated execution result
+ */
+export function appendOperationStep(
+  executionResult: Record<string, unknown> | null | undefined,
+  step: AIOperationStep,
+  details?: Record<string, unknown>
+): Record<string, unknown> {
+  const steps = Array.isArray(executionResult?.steps)
+    ? (executionResult.steps as AIOperationStepEntry[])
+    : [];
+  const entry: AIOperationStepEntry = { step, at: new Date().toISOString() };
+  if (details && Object.keys(details).length > 0) {
+    entry.details = details;
+  }
+  return { ...executionResult, steps: [...steps, entry] };
+}
@@ -0,0 +1,850 @@
+/**
+ * @fileoverview AI provider abstraction for the AI chat.
+ * Providers share one message and tool-call format; adapters translate it to
+ * the OpenAI Chat Completions API, the Anthropic Messages API, or any
+ * OpenAI-compatible local endpoint (Ollama, llama.cpp, vLLM). The provider is
+ * chosen with AI_PROVIDER and the model with AI_MODEL. A scripted provider
+ * replays canned completions so the tool-calling loop can run offline.
+ * Passing `onTextDelta` switches the adapters to their streaming APIs.
+ */
+
+import { readSSEStream } from "./sse";
+
+/**
+ * Tool call requested by the model.
+ */
+export interface AIToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+/**
+ * Message in the provider-independent conversation format.
+ * Assistant messages may carry tool calls; tool messages answer one call.
+ */
+export interface AIMessage {
+  role: "system" | "user" | "assistant" | "tool";
+  content: string | null;
+  toolCalls?: AIToolCall[];
+  toolCallId?: string;
+}
+
+/**
+ * Tool made available to the model (same shape as MCP tool definitions).
+ */
+export interface AIToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: {
+    type: "object";
+    properties: Record<string, unknown>;
+    required?: string[];
+  };
+}
+
+/**
+ * Completion request sent to a provider.
+ * With `onTextDelta`, text is reported as it is generated; the returned
+ * completion is the same as without it.
+ */
+export interface AICompletionRequest {
+  messages: AIMessage[];
+  tools?: AIToolDefinition[];
+  maxTokens?: number;
+  temperature?: number;
+  signal?: AbortSignal;
+  onTextDelta?: (text: string) => void;
+}
+
+/**
+ * Completion returned by a provider.
+ */
+export interface AICompletion {
+  content: string | null;
+  toolCalls: AIToolCall[];
+  finishReason: "stop" | "tool_calls" | "length";
+}
+
+/**
+ * Chat model backend.
+ */
+export interface AIProvider {
+  name: string;
+  model: string;
+  complete(request: AICompletionRequest): Promise<AICompletion>;
+}
+
+/**
+ * Error raised for a failed provider request. `status` is the HTTP status
+ * returned by the provider, when there was one.
+ */
+export type AIProviderError = Error & { status?: number };
+
+function createProviderError(
+  provider: string,
+  status: number,
+  detail: string
+): AIProviderError {
+  return Object.assign(
+    new Error(`${provider} API error: ${status} ${detail}`.trim()),
+    { status }
+  );
+}
+
+/**
+ * Returns the HTTP status of a failed provider request, if any.
+ *
+ * @param {unknown} error - Error thrown by a provider
+ * @returns {number | undefined} HTTP status
+ */
+export function getAIProviderErrorStatus(error: unknown): number | undefined {
+  return error instanceof Error
+    ? (error as AIProviderError).status
+    : undefined;
+}
+
+/**
+ * Parses tool call arguments, which providers send as a JSON string.
+ * Malformed arguments are passed to the tool as an empty object.
+ */
+function parseToolArguments(raw: unknown): Record<string, unknown> {
+  if (raw && typeof raw === "object") {
+    return raw as Record<string, unknown>;
+  }
+  if (typeof raw !== "string" || raw.trim() === "") {
+    return {};
+  }
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Translates tool definitions to OpenAI function tools.
+ *
+ * @param {AIToolDefinition[]} tools - Tool definitions
+ * @returns {Array<Object>} OpenAI `tools` entries
+ */
+export function toOpenAITools(tools: AIToolDefinition[]) {
+  return tools.map((tool) => ({
+    type: "function" as const,
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.inputSchema,
+    },
+  }));
+}
+
+/**
+ * Translates tool definitions to Anthropic tools.
+ *
+ * @param {AIToolDefinition[]} tools - Tool definitions
+ * @returns {Array<Object>} Anthropic `tools` entries
+ */
+export function toAnthropicTools(tools: AIToolDefinition[]) {
+  return tools.map((tool) => ({
+    name: tool.name,
+    description: tool.description,
+    input_schema: tool.inputSchema,
+  }));
+}
+
+/**
+ * Converts messages to the OpenAI Chat Completions format.
+ *
+ * @param {AIMessage[]} messages - Conversation
+ * @returns {Array<Object>} OpenAI messages
+ */
+export function toOpenAIMessages(messages: AIMessage[]) {
+  return messages.map((message) => {
+    if (message.role === "tool") {
+      return {
+        role: "tool",
+        tool_call_id: message.toolCallId,
+        content: message.content || "",
+      };
+    }
+    if (message.role === "assistant" && message.toolCalls?.length) {
+      return {
+        role: "assistant",
+        content: message.content,
+        tool_calls: message.toolCalls.map((call) => ({
+          id: call.id,
+          type: "function",
+          function: {
+            name: call.name,
+            arguments: JSON.stringify(call.arguments),
+          },
+        })),
+      };
+    }
+    return { role: message.role, content: message.content || "" };
+  });
+}
+
+type AnthropicContentBlock =
+  | { type: "text"; text: string }
+  | { type: "tool_use"; id: string; name: string; input: Record<string, unknown> }
+  | { type: "tool_result"; tool_use_id: string; content: string };
+
+/**
+ * Converts messages to the Anthropic Messages format.
+ * System messages become the top-level system prompt, and consecutive tool
+ * results are grouped into a single user turn as the API requires.
+ *
+ * @param {AIMessage[]} messages - Conversation
+ * @returns {{system: string | undefined, messages: Array<Object>}} Anthropic request parts
+ */
+export function toAnthropicMessages(messages: AIMessage[]): {
+  system: string | undefined;
+  messages: Array<{ role: "user" | "assistant"; content: AnthropicContentBlock[] }>;
+} {
+  const system = messages
+    .filter((message) => message.role === "system" && message.content)
+    .map((message) => message.content)
+    .join("\n\n");
+  const converted: Array<{
+    role: "user" | "assistant";
+    content: AnthropicContentBlock[];
+  }> = [];
+
+  for (const message of messages) {
+    if (message.role === "system") {
+      continue;
+    }
+
+    let role: "user" | "assistant";
+    const blocks: AnthropicContentBlock[] = [];
+    if (message.role === "tool") {
+      role = "user";
+      blocks.push({
+        type: "tool_result",
+        tool_use_id: message.toolCallId || "",
+        content: message.content || "",
+      });
+    } else {
+      role = message.role;
+      if (message.content) {
+        blocks.push({ type: "text", text: message.content });
+      }
+      for (const call of message.toolCalls || []) {
+        blocks.push({
+          type: "tool_use",
+          id: call.id,
+          name: call.name,
+          input: call.arguments,
+        });
+      }
+    }
+
+    const previous = converted[converted.length - 1];
+    if (previous && previous.role === role) {
+      previous.content.push(...blocks);
+    } else {
+      converted.push({ role, content: blocks });
+    }
+  }
+
+  return { system: system || undefined, messages: converted };
+}
+
+/**
+ * Options for OpenAI and OpenAI-compatible providers.
+ */
+export interface OpenAIProviderOptions {
+  apiKey?: string;
+  model: string;
+  baseUrl?: string; // Defaults to https://api.openai.com/v1
+  name?: string;
+}
+
+/**
+ * Creates a provider for the OpenAI Chat Completions API. Any endpoint that
+ * implements the same API (Ollama, llama.cpp server, vLLM) works by passing
+ * its `baseUrl`.
+ *
+ * @param {OpenAIProviderOptions} options - Provider options
+ * @returns {AIProvider} OpenAI provider
+ */
+export function createOpenAIProvider(options: OpenAIProviderOptions): AIProvider {
+  const baseUrl = (options.baseUrl || "https://api.openai.com/v1").replace(/\/$/, "");
+  const name = options.name || "openai";
+
+  return {
+    name,
+    model: options.model,
+
+    async complete(request) {
+      const headers: Record<string, string> = {
+        "Content-Type": "application/json",
+      };
+      if (options.apiKey) {
+        headers.Authorization = `Bearer ${options.apiKey}`;
+      }
+
+      const body: Record<string, unknown> = {
+        model: options.model,
+        messages: toOpenAIMessages(request.messages),
+        max_tokens: request.maxTokens ?? 500,
+        temperature: request.temperature ?? 0.7,
+      };
+      if (request.tools?.length) {
+        body.tools = toOpenAITools(request.tools);
+        body.tool_choice = "auto";
+      }
+      if (request.onTextDelta) {
+        body.stream = true;
+      }
+
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify(body),
+        signal: request.signal,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error(`[AIProvider] ${name} error:`, response.status, errorText);
+        throw createProviderError(name, response.status, response.statusText);
+      }
+
+      if (request.onTextDelta && response.body) {
+        return readOpenAIStream(response.body, request.onTextDelta);
+      }
+
+      const data = await response.json();
+      const choice = data.choices?.[0];
+      if (!choice) {
+        throw new Error(`${name} returned no choices`);
+      }
+
+      const toolCalls: AIToolCall[] = (choice.message?.tool_calls || []).map(
+        (call: { id: string; function: { name: string; arguments: unknown } }) => ({
+          id: call.id,
+          name: call.function.name,
+          arguments: parseToolArguments(call.function.arguments),
+        })
+      );
+
+      return {
+        content: choice.message?.content ?? null,
+        toolCalls,
+        finishReason:
+          toolCalls.length > 0
+            ? "tool_calls"
+            : choice.finish_reason === "length"
+              ? "length"
+              : "stop",
+      };
+    },
+  };
+}
+
+/**
+ * Accumulates a streamed Chat Completions response. Tool call names and
+ * arguments arrive in fragments keyed by the call's index.
+ */
+async function readOpenAIStream(
+  body: ReadableStream<Uint8Array>,
+  onTextDelta: (text: string) => void
+): Promise<AICompletion> {
+  let content = "";
+  let finishReason: string | null = null;
+  const calls: Array<{ id: string; name: string; arguments: string }> = [];
+
+  await readSSEStream(body, ({ data }) => {
+    if (data === "[DONE]") {
+      return;
+    }
+
+    const chunk = JSON.parse(data);
+    const choice = chunk.choices?.[0];
+    if (!choice) {
+      return;
+    }
+
+    if (choice.delta?.content) {
+      content += choice.delta.content;
+      onTextDelta(choice.delta.content);
+    }
+    for (const fragment of choice.delta?.tool_calls || []) {
+      const call = (calls[fragment.index] ||= { id: "", name: "", arguments: "" });
+      call.id = fragment.id || call.id;
+      call.name += fragment.function?.name || "";
+      call.arguments += fragment.function?.arguments || "";
+    }
+    if (choice.finish_reason) {
+      finishReason = choice.finish_reason;
+    }
+  });
+
+  const toolCalls = calls.filter(Boolean).map((call) => ({
+    id: call.id,
+    name: call.name,
+    arguments: parseToolArguments(call.arguments),
+  }));
+
+  return {
+    content: content || null,
+    toolCalls,
+    finishReason:
+      toolCalls.length > 0
+        ? "tool_calls"
+        : finishReason === "length"
+          ? "length"
+          : "stop",
+  };
+}
+
+/**
+ * Options for the Anthropic provider.
+ */
+export interface AnthropicProviderOptions {
+  apiKey: string;
+  model: string;
+  baseUrl?: string; // Defaults to https://api.anthropic.com/v1
+}
+
+/**
+ * Creates a provider for the Anthropic Messages API.
+ *
+ * @param {AnthropicProviderOptions} options - Provider options
+ * @returns {AIProvider} Anthropic provider
+ */
+export function createAnthropicProvider(
+  options: AnthropicProviderOptions
+): AIProvider {
+  const baseUrl = (options.baseUrl || "https://api.anthropic.com/v1").replace(/\/$/, "");
+
+  return {
+    name: "anthropic",
+    model: options.model,
+
+    async complete(request) {
+      const { system, messages } = toAnthropicMessages(request.messages);
+      const body: Record<string, unknown> = {
+        model: options.model,
+        max_tokens: request.maxTokens ?? 500,
+        temperature: request.temperature ?? 0.7,
+        messages,
+      };
+      if (system) {
+        body.system = system;
+      }
+      if (request.tools?.length) {
+        body.tools = toAnthropicTools(request.tools);
+      }
+      if (request.onTextDelta) {
+        body.stream = true;
+      }
+
+      const response = await fetch(`${baseUrl}/messages`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-api-key": options.apiKey,
+          "anthropic-version": "2023-06-01",
+        },
+        body: JSON.stringify(body),
+        signal: request.signal,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error("[AIProvider] anthropic error:", response.status, errorText);
+        throw createProviderError("anthropic", response.status, response.statusText);
+      }
+
+      if (request.onTextDelta && response.body) {
+        return readAnthropicStream(response.body, request.onTextDelta);
+      }
+
+      const data = await response.json();
+      const blocks: AnthropicContentBlock[] = data.content || [];
+      const text = blocks
+        .filter((block): block is { type: "text"; text: string } => block.type === "text")
+        .map((block) => block.text)
+        .join("");
+      const toolCalls: AIToolCall[] = blocks
+        .filter(
+          (block): block is Extract<AnthropicContentBlock, { type: "tool_use" }> =>
+            block.type === "tool_use"
+        )
+        .map((block) => ({
+          id: block.id,
+          name: block.name,
+          arguments: parseToolArguments(block.input),
+        }));
+
+      return {
+        content: text || null,
+        toolCalls,
+        finishReason:
+          toolCalls.length > 0
+            ? "tool_calls"
+            : data.stop_reason === "max_tokens"
+              ? "length"
+              : "stop",
+      };
+    },
+  };
+}
+
+/**
+ * Accumulates a streamed Messages response. Text and tool_use blocks are
+ * opened by content_block_start and filled by content_block_delta events.
+ */
+async function readAnthropicStream(
+  body: ReadableStream<Uint8Array>,
+  onTextDelta: (text: string) => void
+): Promise<AICompletion> {
+  let stopReason: string | null = null;
+  const blocks: Array<
+    | { type: "text"; text: string }
+    | { type: "tool_use"; id: string; name: string; json: string }
+  > = [];
+
+  await readSSEStream(body, ({ event, data }) => {
+    const payload = JSON.parse(data);
+
+    if (event === "content_block_start") {
+      const block = payload.content_block;
+      blocks[payload.index] =
+        block.type === "tool_use"
+          ? { type: "tool_use", id: block.id, name: block.name, json: "" }
+          : { type: "text", text: block.text || "" };
+    } else if (event === "content_block_delta") {
+      const block = blocks[payload.index];
+      if (payload.delta.type === "text_delta" && block?.type === "text") {
+        block.text += payload.delta.text;
+        onTextDelta(payload.delta.text);
+      } else if (
+        payload.delta.type === "input_json_delta" &&
+        block?.type === "tool_use"
+      ) {
+        block.json += payload.delta.partial_json;
+      }
+    } else if (event === "message_delta") {
+      stopReason = payload.delta?.stop_reason || stopReason;
+    } else if (event === "error") {
+      throw new Error(`anthropic stream error: ${payload.error?.message || data}`);
+    }
+  });
+
+  const text = blocks
+    .filter((block) => block?.type === "text")
+    .map((block) => (block as { text: string }).text)
+    .join("");
+  const toolCalls: AIToolCall[] = blocks
+    .filter((block) => block?.type === "tool_use")
+    .map((block) => {
+      const call = block as { id: string; name: string; json: string };
+      return { id: call.id, name: call.name, arguments: parseToolArguments(call.json) };
+    });
+
+  return {
+    content: text || null,
+    toolCalls,
+    finishReason:
+      toolCalls.length > 0
+        ? "tool_calls"
+        : stopReason === "max_tokens"
+          ? "length"
+          : "stop",
+  };
+}
+
+/**
+ * Step of a scripted provider: a fixed completion, or a function of the
+ * request for responses that depend on earlier tool results.
+ */
+export type ScriptedAIStep =
+  | (Partial<AICompletion> & { content?: string | null })
+  | ((request: AICompletionRequest) => Partial<AICompletion>);
+
+/**
+ * Scripted provider with access to the requests it received.
+ */
+export interface ScriptedAIProvider extends AIProvider {
+  requests: AICompletionRequest[];
+}
+
+/**
+ * Creates a provider that replays a script of completions, one per request.
+ * Used to exercise the tool-calling loop without a model.
+ *
+ * @param {ScriptedAIStep[]} script - Completions in order
+ * @returns {ScriptedAIProvider} Scripted provider
+ * @throws {Error} From `complete` once the script is exhausted
+ *
+ * @example
+ * ```typescript
+ * const provider = createScriptedAIProvider([
+ *   { toolCalls: [{ id: "call_1", name: "get_user_balance", arguments: {} }] },
+ *   { content: "Your balance is 42 USDC." },
+ * ]);
+ * ```
+ */
+export function createScriptedAIProvider(
+  script: ScriptedAIStep[]
+): ScriptedAIProvider {
+  const requests: AICompletionRequest[] = [];
+
+  return {
+    name: "scripted",
+    model: "scripted",
+    requests,
+
+    async complete(request) {
+      const step = script[requests.length];
+      requests.push(request);
+      if (!step) {
+        throw new Error("Scripted provider has no more responses");
+      }
+
+      const completion = typeof step === "function" ? step(request) : step;
+      const toolCalls = completion.toolCalls || [];
+
+      // Stream word by word, like a model would
+      if (request.onTextDelta && completion.content) {
+        for (const piece of completion.content.match(/\S+\s*|\s+/g) || []) {
+          request.onTextDelta(piece);
+        }
+      }
+
+      return {
+        content: completion.content ?? null,
+        toolCalls,
+        finishReason:
+          completion.finishReason || (toolCalls.length > 0 ? "tool_calls" : "stop"),
+      };
+    },
+  };
+}
+
+/**
+ * Options for runToolLoop.
+ */
+export interface ToolLoopOptions {
+  provider: AIProvider;
+  messages: AIMessage[];
+  tools?: AIToolDefinition[];
+  executeTool: (name: string, args: Record<string, unknown>) => Promise<string>;
+  maxIterations?: number; // Model calls allowed before giving up (default 5)
+  maxTokens?: number;
+  temperature?: number;
+  signal?: AbortSignal;
+  onTextDelta?: (text: string) => void;
+  onToolCall?: (call: AIToolCall) => void;
+  onToolResult?: (call: AIToolCall, result: string) => void;
+}
+
+/**
+ * Result of runToolLoop.
+ */
+export interface ToolLoopResult {
+  content: string | null;
+  messages: AIMessage[]; // Conversation including tool calls and results
+  toolCalls: AIToolCall[]; // Every tool call executed, in order
+}
+
+/**
+ * Runs the tool-calling loop: asks the model, executes the tools it requests,
+ * feeds the results back, and repeats until the model answers in text.
+ * Tool failures are returned to the model as error text instead of aborting.
+ *
+ * @param {ToolLoopOptions} options - Loop options
+ * @returns {Promise<ToolLoopResult>} Final answer and transcript
+ * @throws {Error} If the provider fails or the iteration limit is reached
+ */
+export async function runToolLoop(
+  options: ToolLoopOptions
+): Promise<ToolLoopResult> {
+  const maxIterations = options.maxIterations ?? 5;
+  const messages = [...options.messages];
+  const executed: AIToolCall[] = [];
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    const completion = await options.provider.complete({
+      messages,
+      tools: options.tools,
+      maxTokens: options.maxTokens,
+      temperature: options.temperature,
+      signal: options.signal,
+      onTextDelta: options.onTextDelta,
+    });
+
+    if (completion.toolCalls.length === 0) {
+      messages.push({ role: "assistant", content: completion.content });
+      return { content: completion.content, messages, toolCalls: executed };
+    }
+
+    messages.push({
+      role: "assistant",
+      content: completion.content,
+      toolCalls: completion.toolCalls,
+    });
+
+    for (const call of completion.toolCalls) {
+      options.onToolCall?.(call);
+      let result: string;
+      try {
+        result = await options.executeTool(call.name, call.arguments);
+      } catch (error) {
+        result = `Error: ${error instanceof Error ? error.message : "Tool execution failed"}`;
+      }
+      executed.push(call);
+      options.onToolResult?.(call, result);
+      messages.push({ role: "tool", content: result, toolCallId: call.id });
+    }
+  }
+
+  throw new Error(`Tool loop did not finish within ${maxIterations} model calls`);
+}
+
+/**
+ * Supported values of AI_PROVIDER.
+ */
+export type AIProviderName = "openai" | "anthropic" | "local";
+
+/**
+ * Default model per provider, used when AI_MODEL is not set.
+ */
+export const DEFAULT_AI_MODELS: Record<AIProviderName, string> = {
+  openai: "gpt-4o-mini",
+  anthropic: "claude-3-5-haiku-latest",
+  local: "llama3.1",
+};
+
+/**
+ * Default endpoint for the local provider (Ollama's OpenAI-compatible API).
+ * @constant {string}
+ */
+export const DEFAULT_LOCAL_AI_BASE_URL = "http://localhost:11434/v1";
+
+/**
+ * Resolved AI provider configuration.
+ */
+export interface AIProviderConfig {
+  provider: AIProviderName;
+  apiKey?: string;
+  model: string;
+  baseUrl?: string;
+}
+
+function isPlaceholderKey(apiKey: string | undefined): boolean {
+  return !apiKey || apiKey.startsWith("your_");
+}
+
+/**
+ * Reads and validates the AI provider configuration.
+ * AI_PROVIDER selects the backend (default "openai"), AI_MODEL the model,
+ * AI_BASE_URL overrides the endpoint, and AI_API_KEY is required for the
+ * hosted providers.
+ *
+ * @param {Record<string, string | undefined>} [env] - Environment (defaults to process.env)
+ * @returns {{valid: true, config: AIProviderConfig} | {valid: false, error: string}} Configuration or the reason it is unusable
+ */
+export function getAIProviderConfig(
+  env: Record<string, string | undefined> = process.env
+): { valid: true; config: AIProviderConfig } | { valid: false; error: string } {
+  const provider = (env.AI_PROVIDER || "openai") as AIProviderName;
+  if (!(provider in DEFAULT_AI_MODELS)) {
+    return {
+      valid: false,
+      error: `Unknown AI_PROVIDER "${env.AI_PROVIDER}". Use "openai", "anthropic" or "local".`,
+    };
+  }
+
+  const apiKey = env.AI_API_KEY;
+  const model = env.AI_MODEL || DEFAULT_AI_MODELS[provider];
+  const baseUrl = env.AI_BASE_URL || undefined;
+
+  if (provider === "local") {
+    return {
+      valid: true,
+      config: {
+        provider,
+        apiKey: isPlaceholderKey(apiKey) ? undefined : apiKey,
+        model,
+        baseUrl: baseUrl || DEFAULT_LOCAL_AI_BASE_URL,
+      },
+    };
+  }
+
+  if (isPlaceholderKey(apiKey)) {
+    return {
+      valid: false,
+      error: `AI_API_KEY is not configured. Please add a valid ${provider === "openai" ? "OpenAI" : "Anthropic"} API key to your .env.local file.`,
+    };
+  }
+
+  // Keys for api.openai.com start with sk-; custom endpoints may differ
+  if (provider === "openai" && !baseUrl && !apiKey!.startsWith("sk-")) {
+    return {
+      valid: false,
+      error: "Invalid AI_API_KEY format. OpenAI API keys should start with 'sk-'.",
+    };
+  }
+
+  return { valid: true, config: { provider, apiKey, model, baseUrl } };
+}
+
+/**
+ * Creates the provider described by a configuration.
+ *
+ * @param {AIProviderConfig} config - Provider configuration
+ * @returns {AIProvider} Provider
+ */
+export function createAIProvider(config: AIProviderConfig): AIProvider {
+  switch (config.provider) {
+    case "anthropic":
+      return createAnthropicProvider({
+        apiKey: config.apiKey || "",
+        model: config.model,
+        baseUrl: config.baseUrl,
+      });
+    case "local":
+      return createOpenAIProvider({
+        name: "local",
+        apiKey: config.apiKey,
+        model: config.model,
+        baseUrl: config.baseUrl || DEFAULT_LOCAL_AI_BASE_URL,
+      });
+    case "openai":
+    default:
+      return createOpenAIProvider({
+        apiKey: config.apiKey,
+        model: config.model,
+        baseUrl: config.baseUrl,
+      });
+  }
+}
+
+let aiProvider: AIProvider | null = null;
+
+/**
+ * Returns the configured AI provider.
+ *
+ * @returns {AIProvider} Shared provider
+ * @throws {Error} If the configuration is invalid (see getAIProviderConfig)
+ */
+export function getAIProvider(): AIProvider {
+  if (aiProvider) {
+    return aiProvider;
+  }
+
+  const result = getAIProviderConfig();
+  if (!result.valid) {
+    throw new Error(result.error);
+  }
+
+  aiProvider = createAIProvider(result.config);
+  return aiProvider;
+}
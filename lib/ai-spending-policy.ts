@@ -0,0 +1,371 @@
+/**
+ * @fileoverview Spending policy for payments proposed by the AI assistant.
+ * Users configure the policy from their profile; /api/ai/execute checks every
+ * AI payment against it before the pending transaction is created and records
+ * the decision in `ai_operations.execution_result.policy`.
+ * Limits are in US dollars: USD stablecoins count at face value and EURC is
+ * converted at the reference rate. Payments in volatile tokens can't be valued,
+ * so they are refused while an amount limit is set.
+ */
+
+import type { AISpendingPolicy } from "./supabase";
+import { convertCurrency } from "./currency";
+import { getToken } from "./tokens";
+import { authFetch } from "./auth-fetch";
+
+export type { AISpendingPolicy };
+
+/**
+ * Rule of the policy that refused a payment.
+ * @typedef {string} AISpendingRule
+ */
+export type AISpendingRule =
+  | "recipient_allowlist"
+  | "new_recipient_cooldown"
+  | "unpriced_token"
+  | "per_transaction_limit"
+  | "daily_limit"
+  | "weekly_limit";
+
+/**
+ * Policy settings a user can change.
+ */
+export type AISpendingPolicySettings = Pick<
+  AISpendingPolicy,
+  | "per_transaction_limit"
+  | "daily_limit"
+  | "weekly_limit"
+  | "allowlist_enabled"
+  | "allowed_recipient_ids"
+  | "new_recipient_cooldown_hours"
+>;
+
+/**
+ * Payment being checked.
+ *
+ * @interface AISpendingPayment
+ * @property {string} amount - Decimal amount in `token`
+ * @property {string} token - Token symbol
+ * @property {string} recipient_id - Saved recipient ID
+ * @property {string} recipient_created_at - When the recipient was saved (ISO timestamp)
+ */
+export interface AISpendingPayment {
+  amount: string;
+  token: string;
+  recipient_id: string;
+  recipient_created_at: string;
+}
+
+/**
+ * AI payments already made, in US dollars.
+ *
+ * @interface AISpendingUsage
+ * @property {number} daily - Volume of the last 24 hours
+ * @property {number} weekly - Volume of the last 7 days
+ */
+export interface AISpendingUsage {
+  daily: number;
+  weekly: number;
+}
+
+/**
+ * Outcome of a policy check, stored with the operation.
+ *
+ * @interface AISpendingDecision
+ * @property {boolean} allowed - Whether the payment may proceed
+ * @property {AISpendingRule | null} rule - Rule that refused it, null when allowed
+ * @property {string} reason - Explanation shown to the user
+ * @property {number | null} amount_usd - Payment value in US dollars, null if unknown
+ * @property {AISpendingUsage} usage - Volume already used when checked
+ * @property {string} evaluated_at - ISO timestamp
+ */
+export interface AISpendingDecision {
+  allowed: boolean;
+  rule: AISpendingRule | null;
+  reason: string;
+  amount_usd: number | null;
+  usage: AISpendingUsage;
+  evaluated_at: string;
+}
+
+/**
+ * Policy of users who haven't configured one: no limits beyond the
+ * per-operation maximum, no allowlist and no cooldown.
+ * @constant {AISpendingPolicySettings}
+ */
+export const DEFAULT_AI_SPENDING_POLICY: AISpendingPolicySettings = {
+  per_transaction_limit: null,
+  daily_limit: null,
+  weekly_limit: null,
+  allowlist_enabled: false,
+  allowed_recipient_ids: [],
+  new_recipient_cooldown_hours: 0,
+};
+
+/**
+ * Longest cooldown for new recipients, in hours (30 days).
+ * @constant {number}
+ */
+export const MAX_RECIPIENT_COOLDOWN_HOURS = 720;
+
+// USD to EUR rate used when converting EURC (same fallback as useExchangeRate)
+const REFERENCE_EUR_RATE = 0.85;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Reads the user-editable settings from an ai_spending_policies row.
+ * Numeric columns may come back as strings.
+ *
+ * @param {Record<string, unknown> | null} row - Stored policy, or null if none is saved
+ * @returns {AISpendingPolicySettings} Policy settings (the defaults when there is no row)
+ */
+export function toSpendingPolicySettings(
+  row: Record<string, unknown> | null
+): AISpendingPolicySettings {
+  if (!row) {
+    return DEFAULT_AI_SPENDING_POLICY;
+  }
+  const limit = (value: unknown) => (value === null || value === undefined ? null : Number(value));
+  return {
+    per_transaction_limit: limit(row.per_transaction_limit),
+    daily_limit: limit(row.daily_limit),
+    weekly_limit: limit(row.weekly_limit),
+    allowlist_enabled: Boolean(row.allowlist_enabled),
+    allowed_recipient_ids: Array.isArray(row.allowed_recipient_ids)
+      ? (row.allowed_recipient_ids as string[])
+      : [],
+    new_recipient_cooldown_hours: Number(row.new_recipient_cooldown_hours) || 0,
+  };
+}
+
+/**
+ * Values a payment in US dollars.
+ *
+ * @param {string} amount - Decimal amount
+ * @param {string} token - Token symbol
+ * @returns {number | null} Dollar value, or null for volatile or unknown tokens
+ */
+export function getPaymentValueUSD(amount: string, token: string): number | null {
+  const peg = getToken(token)?.peg;
+  const value = parseFloat(amount);
+  if (!peg || isNaN(value)) {
+    return null;
+  }
+  return convertCurrency(value, peg, "USD", REFERENCE_EUR_RATE);
+}
+
+/**
+ * Formats a dollar amount for policy messages.
+ */
+function formatUSD(value: number): string {
+  return `$${value.toFixed(2)}`;
+}
+
+/**
+ * Checks a payment against a policy. Rules are checked in order: allowlist,
+ * new recipient cooldown, then the per-transaction, daily and weekly limits.
+ *
+ * @param {AISpendingPolicySettings} policy - User's policy
+ * @param {AISpendingPayment} payment - Payment to check
+ * @param {AISpendingUsage} usage - AI payment volume already used
+ * @param {Date} [now=new Date()] - Time of the check
+ * @returns {AISpendingDecision} Decision and the rule that refused the payment, if any
+ */
+export function evaluateSpendingPolicy(
+  policy: AISpendingPolicySettings,
+  payment: AISpendingPayment,
+  usage: AISpendingUsage,
+  now: Date = new Date()
+): AISpendingDecision {
+  const amountUSD = getPaymentValueUSD(payment.amount, payment.token);
+  const decide = (rule: AISpendingRule | null, reason: string): AISpendingDecision => ({
+    allowed: rule === null,
+    rule,
+    reason,
+    amount_usd: amountUSD,
+    usage,
+    evaluated_at: now.toISOString(),
+  });
+
+  // 1. Recipient allowlist
+  if (policy.allowlist_enabled && !policy.allowed_recipient_ids.includes(payment.recipient_id)) {
+    return decide(
+      "recipient_allowlist",
+      "This recipient is not on your list of recipients the AI assistant can pay"
+    );
+  }
+
+  // 2. Cooldown for recently saved recipients
+  if (policy.new_recipient_cooldown_hours > 0) {
+    const availableAt =
+      new Date(payment.recipient_created_at).getTime() +
+      policy.new_recipient_cooldown_hours * HOUR_MS;
+    if (now.getTime() < availableAt) {
+      const hoursLeft = Math.ceil((availableAt - now.getTime()) / HOUR_MS);
+      return decide(
+        "new_recipient_cooldown",
+        `This recipient was added recently. The AI assistant can pay them in ${hoursLeft} hour${hoursLeft === 1 ? "" : "s"}`
+      );
+    }
+  }
+
+  // 3. Amount limits
+  const hasLimits =
+    policy.per_transaction_limit !== null ||
+    policy.daily_limit !== null ||
+    policy.weekly_limit !== null;
+  if (!hasLimits) {
+    return decide(null, "No spending limits apply");
+  }
+  if (amountUSD === null) {
+    return decide(
+      "unpriced_token",
+      `${payment.token} payments can't be checked against your spending limits`
+    );
+  }
+
+  if (policy.per_transaction_limit !== null && amountUSD > policy.per_transaction_limit) {
+    return decide(
+      "per_transaction_limit",
+      `This payment exceeds your limit of ${formatUSD(policy.per_transaction_limit)} per AI payment`
+    );
+  }
+  if (policy.daily_limit !== null && usage.daily + amountUSD > policy.daily_limit) {
+    return decide(
+      "daily_limit",
+      `This payment exceeds your daily AI limit of ${formatUSD(policy.daily_limit)} (${formatUSD(Math.max(policy.daily_limit - usage.daily, 0))} left)`
+    );
+  }
+  if (policy.weekly_limit !== null && usage.weekly + amountUSD > policy.weekly_limit) {
+    return decide(
+      "weekly_limit",
+      `This payment exceeds your weekly AI limit of ${formatUSD(policy.weekly_limit)} (${formatUSD(Math.max(policy.weekly_limit - usage.weekly, 0))} left)`
+    );
+  }
+
+  return decide(null, "Within your spending limits");
+}
+
+/**
+ * Sums the dollar value of AI payments made in the last 24 hours and 7 days.
+ * Payments in volatile tokens are left out, as they can't be valued.
+ *
+ * @param {Array<{amount: string; token: string; executed_at: string}>} payments - Executed AI payments
+ * @param {Date} [now=new Date()] - Time of the check
+ * @returns {AISpendingUsage} Daily and weekly volume
+ */
+export function getSpendingUsage(
+  payments: { amount: string; token: string; executed_at: string }[],
+  now: Date = new Date()
+): AISpendingUsage {
+  const usage: AISpendingUsage = { daily: 0, weekly: 0 };
+  for (const payment of payments) {
+    const value = getPaymentValueUSD(payment.amount, payment.token);
+    const age = now.getTime() - new Date(payment.executed_at).getTime();
+    if (value === null || age < 0) {
+      continue;
+    }
+    if (age < 24 * HOUR_MS) {
+      usage.daily += value;
+    }
+    if (age < 7 * 24 * HOUR_MS) {
+      usage.weekly += value;
+    }
+  }
+  return usage;
+}
+
+/**
+ * Checks policy settings before they are saved.
+ *
+ * @param {Partial<AISpendingPolicySettings>} settings - Settings to check
+ * @returns {string | null} First error, or null if valid
+ */
+export function validateSpendingPolicySettings(
+  settings: Partial<AISpendingPolicySettings>
+): string | null {
+  for (const field of ["per_transaction_limit", "daily_limit", "weekly_limit"] as const) {
+    const value = settings[field];
+    if (value !== undefined && value !== null && (typeof value !== "number" || !(value > 0))) {
+      return `${field} must be a positive number or null`;
+    }
+  }
+
+  const { per_transaction_limit, daily_limit, weekly_limit } = settings;
+  if (per_transaction_limit && daily_limit && per_transaction_limit > daily_limit) {
+    return "The per-payment limit can't be higher than the daily limit";
+  }
+  if (daily_limit && weekly_limit && daily_limit > weekly_limit) {
+    return "The daily limit can't be higher than the weekly limit";
+  }
+
+  if (settings.allowlist_enabled !== undefined && typeof settings.allowlist_enabled !== "boolean") {
+    return "allowlist_enabled must be true or false";
+  }
+  if (
+    settings.allowed_recipient_ids !== undefined &&
+    (!Array.isArray(settings.allowed_recipient_ids) ||
+      settings.allowed_recipient_ids.some((id) => typeof id !== "string"))
+  ) {
+    return "allowed_recipient_ids must be a list of recipient IDs";
+  }
+
+  const cooldown = settings.new_recipient_cooldown_hours;
+  if (
+    cooldown !== undefined &&
+    (!Number.isInteger(cooldown) || cooldown < 0 || cooldown > MAX_RECIPIENT_COOLDOWN_HOURS)
+  ) {
+    return `new_recipient_cooldown_hours must be a whole number from 0 to ${MAX_RECIPIENT_COOLDOWN_HOURS}`;
+  }
+
+  return null;
+}
+
+/**
+ * Fetches a profile's AI spending policy, or the defaults if none is saved.
+ *
+ * @param {string} profileId - Owner's profile ID
+ * @returns {Promise<AISpendingPolicySettings>} Policy settings
+ * @throws {Error} If the request fails
+ */
+export async function getAISpendingPolicy(profileId: string): Promise<AISpendingPolicySettings> {
+  const response = await authFetch(
+    `/api/ai/spending-policy?profile_id=${encodeURIComponent(profileId)}`
+  );
+
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || "Failed to fetch spending policy");
+  }
+
+  return result.policy;
+}
+
+/**
+ * Saves a profile's AI spending policy.
+ *
+ * @param {string} profileId - Owner's profile ID
+ * @param {AISpendingPolicySettings} settings - New settings
+ * @returns {Promise<AISpendingPolicySettings>} Saved settings
+ * @throws {Error} If the settings are invalid or the request fails
+ */
+export async function updateAISpendingPolicy(
+  profileId: string,
+  settings: AISpendingPolicySettings
+): Promise<AISpendingPolicySettings> {
+  const response = await authFetch("/api/ai/spending-policy", {
+    method: "PUT",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ profile_id: profileId, ...settings }),
+  });
+
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || "Failed to save spending policy");
+  }
+
+  return result.policy;
+}
@@ -0,0 +1,292 @@
+/**
+ * @fileoverview Server-side AI usage ledger.
+ * Stores one event per AI request so limits survive deploys and are shared by
+ * every serverless instance. `AI_USAGE_STORE` selects the backend: "supabase"
+ * (the ai_usage_events table, default) or "memory" for tests and local runs.
+ * Limits are checked and the request recorded in one step, so concurrent
+ * requests cannot go past them.
+ */
+
+import { createClient } from "@supabase/supabase-js";
+import {
+  AI_PLAN_QUOTAS,
+  AI_RATE_LIMIT,
+  AI_RATE_LIMIT_WINDOW_MS,
+  DEFAULT_PLAN,
+  getUsagePeriodStart,
+  isSubscriptionPlan,
+  summarizeAIUsage,
+  type AIUsageSummary,
+  type SubscriptionPlan,
+} from "./ai-usage";
+
+/**
+ * Admin Supabase client for server-side operations.
+ * Uses service role key for elevated permissions when available.
+ * Falls back to anon key if service role key is not set.
+ *
+ * @private
+ */
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY ||
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  }
+);
+
+/**
+ * Limits a request is recorded within.
+ *
+ * @interface AIUsageLimits
+ * @property {Date} periodStart - Start of the quota period
+ * @property {number} quota - Requests allowed since `periodStart`
+ * @property {Date} windowStart - Start of the rate limit window
+ * @property {number} rateLimit - Requests allowed since `windowStart`
+ */
+export interface AIUsageLimits {
+  periodStart: Date;
+  quota: number;
+  windowStart: Date;
+  rateLimit: number;
+}
+
+/**
+ * Result of `recordRequestWithinLimits`. The counts are those before the
+ * request.
+ *
+ * @interface AIUsageAttempt
+ * @property {boolean} recorded - Whether the request was within both limits and recorded
+ * @property {number} used - Requests since the period start
+ * @property {number} recent - Requests since the window start
+ */
+export interface AIUsageAttempt {
+  recorded: boolean;
+  used: number;
+  recent: number;
+}
+
+/**
+ * Contract every usage ledger backend implements.
+ *
+ * @interface AIUsageStore
+ * @property {string} name - Backend name
+ * @property {Function} countRequests - Counts a profile's requests since a time
+ * @property {Function} recordRequestWithinLimits - Atomically checks the limits and records one request
+ */
+export interface AIUsageStore {
+  name: string;
+  countRequests(profileId: string, since: Date): Promise<number>;
+  recordRequestWithinLimits(
+    profileId: string,
+    at: Date,
+    limits: AIUsageLimits
+  ): Promise<AIUsageAttempt>;
+}
+
+/**
+ * Outcome of `consumeAIRequest`. A refused request is not recorded.
+ */
+export type AIUsageCheck =
+  | { ok: true; usage: AIUsageSummary }
+  | {
+      ok: false;
+      reason: "rate_limit" | "quota";
+      message: string;
+      retryAfterSeconds: number;
+      usage: AIUsageSummary;
+    };
+
+/**
+ * Creates a ledger kept in memory. State is lost on restart and not shared
+ * between instances.
+ *
+ * @returns {AIUsageStore} In-memory store
+ */
+export function createMemoryAIUsageStore(): AIUsageStore {
+  const events = new Map<string, number[]>();
+
+  return {
+    name: "memory",
+    async countRequests(profileId, since) {
+      return (events.get(profileId) || []).filter((at) => at >= since.getTime()).length;
+    },
+    async recordRequestWithinLimits(profileId, at, limits) {
+      // No await between the check and the write, so this is atomic per instance
+      const profileEvents = events.get(profileId) || [];
+      const used = profileEvents.filter((t) => t >= limits.periodStart.getTime()).length;
+      const recent = profileEvents.filter((t) => t >= limits.windowStart.getTime()).length;
+      const recorded = used < limits.quota && recent < limits.rateLimit;
+      if (recorded) {
+        events.set(profileId, [...profileEvents, at.getTime()]);
+      }
+      return { recorded, used, recent };
+    },
+  };
+}
+
+/**
+ * Creates a ledger backed by the ai_usage_events table. Requests are
+ * recorded by the consume_ai_request database function, which locks the
+ * profile's rows, counts them and inserts only within the limits
+ * (see docs/MCP_SETUP.md).
+ *
+ * @returns {AIUsageStore} Supabase store
+ */
+export function createSupabaseAIUsageStore(): AIUsageStore {
+  return {
+    name: "supabase",
+    async countRequests(profileId, since) {
+      const { count, error } = await supabaseAdmin
+        .from("ai_usage_events")
+        .select("id", { count: "exact", head: true })
+        .eq("profile_id", profileId)
+        .gte("created_at", since.toISOString());
+
+      if (error) {
+        throw new Error(`Failed to count AI usage: ${error.message}`);
+      }
+      return count || 0;
+    },
+    async recordRequestWithinLimits(profileId, at, limits) {
+      const { data, error } = await supabaseAdmin
+        .rpc("consume_ai_request", {
+          p_profile_id: profileId,
+          p_at: at.toISOString(),
+          p_period_start: limits.periodStart.toISOString(),
+          p_quota: limits.quota,
+          p_window_start: limits.windowStart.toISOString(),
+          p_rate_limit: limits.rateLimit,
+        })
+        .single<AIUsageAttempt>();
+
+      if (error || !data) {
+        throw new Error(`Failed to record AI usage: ${error?.message}`);
+      }
+      return data;
+    },
+  };
+}
+
+let aiUsageStore: AIUsageStore | null = null;
+
+/**
+ * Returns the configured usage ledger. The instance is cached so the memory
+ * store keeps its state between requests.
+ *
+ * @returns {AIUsageStore} Store instance
+ * @throws {Error} If `AI_USAGE_STORE` names an unknown backend
+ */
+export function getAIUsageStore(): AIUsageStore {
+  if (aiUsageStore) {
+    return aiUsageStore;
+  }
+
+  const name = process.env.AI_USAGE_STORE || "supabase";
+  switch (name) {
+    case "supabase":
+      aiUsageStore = createSupabaseAIUsageStore();
+      break;
+    case "memory":
+      aiUsageStore = createMemoryAIUsageStore();
+      break;
+    default:
+      throw new Error(`Unknown AI usage store: ${name}`);
+  }
+
+  return aiUsageStore;
+}
+
+/**
+ * Looks up a profile's subscription plan.
+ *
+ * @param {string} profileId - Profile ID
+ * @returns {Promise<SubscriptionPlan>} Plan, or the default plan if none is set
+ */
+export async function getProfilePlan(profileId: string): Promise<SubscriptionPlan> {
+  const { data } = await supabaseAdmin
+    .from("profiles")
+    .select("plan")
+    .eq("id", profileId)
+    .maybeSingle();
+
+  return isSubscriptionPlan(data?.plan) ? data.plan : DEFAULT_PLAN;
+}
+
+/**
+ * Summarizes a profile's usage of the current month.
+ *
+ * @param {AIUsageStore} store - Usage ledger
+ * @param {string} profileId - Profile ID
+ * @param {SubscriptionPlan} plan - Profile's plan
+ * @param {Date} [now=new Date()] - Current time
+ * @returns {Promise<AIUsageSummary>} Usage summary
+ */
+export async function getAIUsageSummary(
+  store: AIUsageStore,
+  profileId: string,
+  plan: SubscriptionPlan,
+  now: Date = new Date()
+): Promise<AIUsageSummary> {
+  const used = await store.countRequests(profileId, getUsagePeriodStart(now));
+  return summarizeAIUsage(plan, used, now);
+}
+
+/**
+ * Checks the rate limit and the monthly quota, and records the request if
+ * both allow it, in one atomic store call.
+ *
+ * @param {AIUsageStore} store - Usage ledger
+ * @param {string} profileId - Profile making the request
+ * @param {SubscriptionPlan} plan - Profile's plan
+ * @param {Date} [now=new Date()] - Current time
+ * @returns {Promise<AIUsageCheck>} Usage after the request, or why it was refused
+ *
+ * @example
+ * ```typescript
+ * const check = await consumeAIRequest(getAIUsageStore(), profileId, await getProfilePlan(profileId));
+ * if (!check.ok) {
+ *   return NextResponse.json({ success: false, message: check.message }, { status: 429 });
+ * }
+ * ```
+ */
+export async function consumeAIRequest(
+  store: AIUsageStore,
+  profileId: string,
+  plan: SubscriptionPlan,
+  now: Date = new Date()
+): Promise<AIUsageCheck> {
+  const attempt = await store.recordRequestWithinLimits(profileId, now, {
+    periodStart: getUsagePeriodStart(now),
+    quota: AI_PLAN_QUOTAS[plan],
+    windowStart: new Date(now.getTime() - AI_RATE_LIMIT_WINDOW_MS),
+    rateLimit: AI_RATE_LIMIT,
+  });
+  const usage = summarizeAIUsage(plan, attempt.used, now);
+
+  if (attempt.recorded) {
+    return { ok: true, usage: summarizeAIUsage(plan, attempt.used + 1, now) };
+  }
+
+  if (usage.remaining === 0) {
+    return {
+      ok: false,
+      reason: "quota",
+      message: `You've used all ${usage.limit} AI requests included in your plan this month`,
+      retryAfterSeconds: Math.ceil((new Date(usage.resets_at).getTime() - now.getTime()) / 1000),
+      usage,
+    };
+  }
+
+  return {
+    ok: false,
+    reason: "rate_limit",
+    message: "Rate limit exceeded. Please try again later.",
+    retryAfterSeconds: Math.ceil(AI_RATE_LIMIT_WINDOW_MS / 1000),
+    usage,
+  };
+}
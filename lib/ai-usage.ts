@@ -0,0 +1,138 @@
+/**
+ * @fileoverview AI assistant usage limits.
+ * Every chat request is recorded in a usage ledger (lib/ai-usage-store.ts).
+ * /api/ai/chat refuses a request when the profile has sent too many in the
+ * last minute or has used its plan's monthly quota. Quotas reset at the
+ * start of each calendar month (UTC).
+ */
+
+import { authFetch } from "./auth-fetch";
+import type { Profile } from "./supabase";
+
+/**
+ * Subscription plan of a profile, as offered on /upgrade.
+ * @typedef {string} SubscriptionPlan
+ */
+export type SubscriptionPlan = NonNullable<Profile["plan"]>;
+
+/**
+ * Plan a profile is on when none is set.
+ * @constant {SubscriptionPlan}
+ */
+export const DEFAULT_PLAN: SubscriptionPlan = "free";
+
+/**
+ * AI requests included per calendar month, by plan.
+ */
+export const AI_PLAN_QUOTAS: Record<SubscriptionPlan, number> = {
+  free: 30,
+  pro: 300,
+  ambassador: 300,
+};
+
+/**
+ * Maximum AI requests per profile within `AI_RATE_LIMIT_WINDOW_MS`, on every plan.
+ * @constant {number}
+ */
+export const AI_RATE_LIMIT = 10;
+
+/**
+ * Window of the rate limit in milliseconds.
+ * @constant {number}
+ */
+export const AI_RATE_LIMIT_WINDOW_MS = 60 * 1000;
+
+/**
+ * Usage of the current month.
+ *
+ * @interface AIUsageSummary
+ * @property {SubscriptionPlan} plan - Profile's plan
+ * @property {number} limit - Requests included this month
+ * @property {number} used - Requests made this month
+ * @property {number} remaining - Requests left this month
+ * @property {string} resets_at - ISO timestamp when the quota resets
+ */
+export interface AIUsageSummary {
+  plan: SubscriptionPlan;
+  limit: number;
+  used: number;
+  remaining: number;
+  resets_at: string;
+}
+
+/**
+ * Checks whether a value is a known plan.
+ *
+ * @param {unknown} value - Value to check
+ * @returns {boolean} True for a known plan
+ */
+export function isSubscriptionPlan(value: unknown): value is SubscriptionPlan {
+  return typeof value === "string" && value in AI_PLAN_QUOTAS;
+}
+
+/**
+ * Start of the quota period containing `now`: the first of the month, UTC.
+ *
+ * @param {Date} [now=new Date()] - Current time
+ * @returns {Date} Period start
+ */
+export function getUsagePeriodStart(now: Date = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+/**
+ * End of the quota period containing `now`: the first of the next month, UTC.
+ *
+ * @param {Date} [now=new Date()] - Current time
+ * @returns {Date} Period end, when the quota resets
+ */
+export function getUsagePeriodEnd(now: Date = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+}
+
+/**
+ * Builds the usage summary for a plan and the requests made this month.
+ *
+ * @param {SubscriptionPlan} plan - Profile's plan
+ * @param {number} used - Requests made this month
+ * @param {Date} [now=new Date()] - Current time
+ * @returns {AIUsageSummary} Summary
+ *
+ * @example
+ * ```typescript
+ * summarizeAIUsage("free", 12, new Date("2025-03-10T12:00:00Z"));
+ * // => { plan: "free", limit: 30, used: 12, remaining: 18, resets_at: "2025-04-01T00:00:00.000Z" }
+ * ```
+ */
+export function summarizeAIUsage(
+  plan: SubscriptionPlan,
+  used: number,
+  now: Date = new Date()
+): AIUsageSummary {
+  const limit = AI_PLAN_QUOTAS[plan];
+  return {
+    plan,
+    limit,
+    used,
+    remaining: Math.max(0, limit - used),
+    resets_at: getUsagePeriodEnd(now).toISOString(),
+  };
+}
+
+/**
+ * Fetches the AI usage of the current month.
+ *
+ * @param {string} profileId - Profile ID
+ * @returns {Promise<AIUsageSummary>} Usage summary
+ * @throws {Error} If the request fails
+ */
+export async function getAIUsage(profileId: string): Promise<AIUsageSummary> {
+  const response = await authFetch(`/api/ai/usage?profile_id=${encodeURIComponent(profileId)}`);
+
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || "Failed to fetch AI usage");
+  }
+
+  return result.usage;
+}
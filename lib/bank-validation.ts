@@ -0,0 +1,332 @@
+/**
+ * @fileoverview Bank account validation shared by client forms and API routes.
+ * Covers IBAN (per-country length and mod-97 checksum), BIC, US ABA routing
+ * numbers and UK sort codes, plus display formatting and country/currency
+ * lookups. Pure functions only, safe to import on both client and server.
+ */
+
+import type { BankDetails } from "./supabase";
+
+/**
+ * IBAN length per country, from the SWIFT IBAN registry.
+ * @constant {Record<string, number>}
+ */
+export const IBAN_LENGTHS: Record<string, number> = {
+  AD: 24, AE: 23, AL: 28, AT: 20, AZ: 28, BA: 20, BE: 16, BG: 22, BH: 22,
+  BI: 27, BR: 29, BY: 28, CH: 21, CR: 22, CY: 28, CZ: 24, DE: 22, DJ: 27,
+  DK: 18, DO: 28, EE: 20, EG: 29, ES: 24, FI: 18, FK: 18, FO: 18, FR: 27,
+  GB: 22, GE: 22, GI: 23, GL: 18, GR: 27, GT: 28, HR: 21, HU: 28, IE: 22,
+  IL: 23, IQ: 23, IS: 26, IT: 27, JO: 30, KW: 30, KZ: 20, LB: 28, LC: 32,
+  LI: 21, LT: 20, LU: 20, LV: 21, LY: 25, MC: 27, MD: 24, ME: 22, MK: 19,
+  MN: 20, MR: 27, MT: 31, MU: 30, NI: 28, NL: 18, NO: 15, OM: 23, PK: 24,
+  PL: 28, PS: 29, PT: 25, QA: 29, RO: 24, RS: 22, RU: 33, SA: 24, SC: 31,
+  SD: 18, SE: 24, SI: 19, SK: 24, SM: 27, SO: 23, ST: 25, SV: 28, TL: 23,
+  TN: 24, TR: 26, UA: 29, VA: 22, VG: 24, XK: 20, YE: 30,
+};
+
+/**
+ * Domestic currency per country, for the countries users can pay out to.
+ * @constant {Record<string, string>}
+ */
+export const COUNTRY_CURRENCIES: Record<string, string> = {
+  // Euro area and countries using the euro
+  AD: "EUR", AT: "EUR", BE: "EUR", CY: "EUR", DE: "EUR", EE: "EUR",
+  ES: "EUR", FI: "EUR", FR: "EUR", GR: "EUR", HR: "EUR", IE: "EUR",
+  IT: "EUR", LT: "EUR", LU: "EUR", LV: "EUR", MC: "EUR", ME: "EUR",
+  MT: "EUR", NL: "EUR", PT: "EUR", SI: "EUR", SK: "EUR", SM: "EUR",
+  VA: "EUR", XK: "EUR",
+  // Other European currencies
+  GB: "GBP", GI: "GIP", CH: "CHF", LI: "CHF", NO: "NOK", SE: "SEK",
+  DK: "DKK", FO: "DKK", GL: "DKK", IS: "ISK", PL: "PLN", CZ: "CZK",
+  HU: "HUF", RO: "RON", BG: "BGN", TR: "TRY",
+  // Rest of the world
+  US: "USD", AE: "AED", SA: "SAR", IL: "ILS", BR: "BRL",
+};
+
+/**
+ * Removes spaces and dashes and upper-cases an IBAN.
+ *
+ * @param {string} iban - IBAN as typed by the user
+ * @returns {string} Normalized IBAN (e.g., "DE89370400440532013000")
+ */
+export function normalizeIban(iban: string): string {
+  return iban.replace(/[\s-]+/g, "").toUpperCase();
+}
+
+/**
+ * Computes the ISO 7064 mod-97 remainder of an IBAN.
+ * Moves the first four characters to the end and maps letters to 10-35,
+ * processing the number in chunks to stay within safe integer range.
+ */
+function ibanMod97(iban: string): number {
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+
+  for (const char of rearranged) {
+    const code = char.charCodeAt(0);
+    const value = code >= 65 ? (code - 55).toString() : char;
+    for (const digit of value) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+
+  return remainder;
+}
+
+/**
+ * Validates an IBAN: country code, per-country length and mod-97 checksum.
+ *
+ * @param {string} iban - IBAN, with or without spaces
+ * @returns {string | null} Error message, or null if valid
+ *
+ * @example
+ * ```typescript
+ * validateIban("GB29 NWBK 6016 1331 9268 19"); // => null
+ * validateIban("GB28 NWBK 6016 1331 9268 19"); // => "IBAN checksum is invalid"
+ * ```
+ */
+export function validateIban(iban: string): string | null {
+  const normalized = normalizeIban(iban);
+
+  if (!normalized) {
+    return "IBAN is required";
+  }
+  if (!/^[A-Z]{2}[0-9]{2}[A-Z0-9]+$/.test(normalized)) {
+    return "IBAN must start with a country code and two check digits";
+  }
+
+  const country = normalized.slice(0, 2);
+  const expectedLength = IBAN_LENGTHS[country];
+  if (!expectedLength) {
+    return `IBANs from ${country} are not supported`;
+  }
+  if (normalized.length !== expectedLength) {
+    return `${country} IBANs must be ${expectedLength} characters`;
+  }
+  if (ibanMod97(normalized) !== 1) {
+    return "IBAN checksum is invalid";
+  }
+
+  return null;
+}
+
+/**
+ * Checks whether an IBAN is valid.
+ *
+ * @param {string} iban - IBAN, with or without spaces
+ * @returns {boolean} True if `validateIban` finds no error
+ */
+export function isValidIban(iban: string): boolean {
+  return validateIban(iban) === null;
+}
+
+/**
+ * Formats an IBAN for display in groups of four characters.
+ *
+ * @param {string} iban - IBAN, with or without spaces
+ * @returns {string} Grouped IBAN (e.g., "GB29 NWBK 6016 1331 9268 19")
+ */
+export function formatIban(iban: string): string {
+  return normalizeIban(iban).replace(/(.{4})(?=.)/g, "$1 ");
+}
+
+/**
+ * Returns the country code of an IBAN.
+ *
+ * @param {string} iban - IBAN, with or without spaces
+ * @returns {string | undefined} ISO country code, or undefined if the prefix is not a known IBAN country
+ */
+export function getIbanCountry(iban: string): string | undefined {
+  const country = normalizeIban(iban).slice(0, 2);
+  return IBAN_LENGTHS[country] ? country : undefined;
+}
+
+/**
+ * Returns the domestic currency of a country.
+ *
+ * @param {string} country - ISO country code (case-insensitive)
+ * @returns {string | undefined} ISO currency code, or undefined if unknown
+ */
+export function getCountryCurrency(country: string): string | undefined {
+  return COUNTRY_CURRENCIES[country.toUpperCase()];
+}
+
+/**
+ * Validates a BIC (SWIFT code): 4-letter bank code, 2-letter country code,
+ * 2-character location code and an optional 3-character branch code.
+ *
+ * @param {string} bic - BIC, with or without spaces
+ * @returns {string | null} Error message, or null if valid
+ */
+export function validateBic(bic: string): string | null {
+  const normalized = bic.replace(/\s+/g, "").toUpperCase();
+
+  if (!normalized) {
+    return "BIC is required";
+  }
+  if (!/^[A-Z]{4}[A-Z]{2}[A-Z0-9]{2}([A-Z0-9]{3})?$/.test(normalized)) {
+    return "BIC must be 8 or 11 characters (e.g., NWBKGB2L)";
+  }
+
+  return null;
+}
+
+/**
+ * Validates a US ABA routing number: nine digits with a 3-7-1 weighted checksum.
+ *
+ * @param {string} routingNumber - Routing number
+ * @returns {string | null} Error message, or null if valid
+ *
+ * @example
+ * ```typescript
+ * validateRoutingNumber("021000021"); // => null
+ * validateRoutingNumber("021000022"); // => "Routing number checksum is invalid"
+ * ```
+ */
+export function validateRoutingNumber(routingNumber: string): string | null {
+  const digits = routingNumber.replace(/\s+/g, "");
+
+  if (!/^[0-9]{9}$/.test(digits)) {
+    return "Routing number must be 9 digits";
+  }
+
+  const d = digits.split("").map(Number);
+  const checksum =
+    3 * (d[0] + d[3] + d[6]) + 7 * (d[1] + d[4] + d[7]) + (d[2] + d[5] + d[8]);
+  if (checksum % 10 !== 0) {
+    return "Routing number checksum is invalid";
+  }
+
+  return null;
+}
+
+/**
+ * Validates a US bank account number (4 to 17 digits).
+ *
+ * @param {string} accountNumber - Account number
+ * @returns {string | null} Error message, or null if valid
+ */
+export function validateUsAccountNumber(accountNumber: string): string | null {
+  if (!/^[0-9]{4,17}$/.test(accountNumber.replace(/\s+/g, ""))) {
+    return "Account number must be 4 to 17 digits";
+  }
+  return null;
+}
+
+/**
+ * Removes separators from a UK sort code.
+ *
+ * @param {string} sortCode - Sort code (e.g., "60-16-13")
+ * @returns {string} Six digits (e.g., "601613")
+ */
+export function normalizeSortCode(sortCode: string): string {
+  return sortCode.replace(/[\s-]+/g, "");
+}
+
+/**
+ * Validates a UK sort code (six digits, optionally separated by dashes or spaces).
+ *
+ * @param {string} sortCode - Sort code
+ * @returns {string | null} Error message, or null if valid
+ */
+export function validateSortCode(sortCode: string): string | null {
+  if (!/^[0-9]{6}$/.test(normalizeSortCode(sortCode))) {
+    return "Sort code must be 6 digits";
+  }
+  return null;
+}
+
+/**
+ * Formats a UK sort code for display.
+ *
+ * @param {string} sortCode - Sort code
+ * @returns {string} Dash-separated sort code (e.g., "60-16-13")
+ */
+export function formatSortCode(sortCode: string): string {
+  return normalizeSortCode(sortCode).replace(/^(\d{2})(\d{2})(\d{2})$/, "$1-$2-$3");
+}
+
+/**
+ * Validates a UK bank account number (8 digits).
+ *
+ * @param {string} accountNumber - Account number
+ * @returns {string | null} Error message, or null if valid
+ */
+export function validateUkAccountNumber(accountNumber: string): string | null {
+  if (!/^[0-9]{8}$/.test(accountNumber.replace(/\s+/g, ""))) {
+    return "Account number must be 8 digits";
+  }
+  return null;
+}
+
+/**
+ * Validates the bank details of a recipient for its country:
+ * - US: ABA routing number and account number
+ * - GB: IBAN, or sort code and account number
+ * - Elsewhere: IBAN, whose country must match the selected country
+ * An optional BIC is validated wherever it is provided.
+ *
+ * @param {BankDetails} details - Bank details to validate
+ * @returns {string | null} First error found, or null if valid
+ */
+export function validateBankDetails(details: BankDetails): string | null {
+  const country = (details.country || "").toUpperCase();
+  if (!/^[A-Z]{2}$/.test(country)) {
+    return "Country is required";
+  }
+  if (!details.currency) {
+    return "Currency is required";
+  }
+
+  if (details.bic) {
+    const bicError = validateBic(details.bic);
+    if (bicError) return bicError;
+  }
+
+  if (country === "US") {
+    return (
+      validateRoutingNumber(details.routing_number || "") ||
+      validateUsAccountNumber(details.account_number || "")
+    );
+  }
+
+  if (country === "GB" && !details.iban) {
+    return (
+      validateSortCode(details.sort_code || "") ||
+      validateUkAccountNumber(details.account_number || "")
+    );
+  }
+
+  const ibanError = validateIban(details.iban || "");
+  if (ibanError) return ibanError;
+
+  if (getIbanCountry(details.iban) !== country) {
+    return `IBAN does not belong to ${country}`;
+  }
+
+  return null;
+}
+
+/**
+ * Normalizes bank details before they are stored: upper-case country,
+ * currency and BIC, IBAN without spaces, sort code without dashes.
+ *
+ * @param {BankDetails} details - Validated bank details
+ * @returns {BankDetails} Normalized copy
+ */
+export function normalizeBankDetails(details: BankDetails): BankDetails {
+  return {
+    ...details,
+    iban: details.iban ? normalizeIban(details.iban) : "",
+    country: details.country.toUpperCase(),
+    currency: details.currency.toUpperCase(),
+    ...(details.bic && { bic: details.bic.replace(/\s+/g, "").toUpperCase() }),
+    ...(details.sort_code && { sort_code: normalizeSortCode(details.sort_code) }),
+    ...(details.routing_number && {
+      routing_number: details.routing_number.replace(/\s+/g, ""),
+    }),
+    ...(details.account_number && {
+      account_number: details.account_number.replace(/\s+/g, ""),
+    }),
+  };
+}
@@ -0,0 +1,177 @@
+/**
+ * @fileoverview Chain registry for supported networks.
+ * Single source of truth for the networks accounts and payments can use:
+ * drives the wagmi and Privy configuration, chain switching before a send,
+ * explorer links and per-chain balance lookups.
+ */
+
+import type { Chain } from "viem";
+import { arbitrum, base, mainnet, optimism, polygon } from "viem/chains";
+
+/**
+ * Names of supported networks, as stored in `Account.network` and `Transaction.chain`.
+ * @typedef {"base" | "ethereum" | "arbitrum" | "optimism" | "polygon"} ChainName
+ */
+export type ChainName = "base" | "ethereum" | "arbitrum" | "optimism" | "polygon";
+
+/**
+ * Configuration of a supported network.
+ *
+ * @interface ChainConfig
+ * @property {ChainName} name - Registry key stored in the database
+ * @property {string} label - Display name
+ * @property {Chain} chain - viem chain definition
+ * @property {string} explorerUrl - Block explorer base URL (no trailing slash)
+ * @property {string} explorerName - Block explorer display name
+ * @property {string} color - Accent color used for network badges
+ */
+export interface ChainConfig {
+  name: ChainName;
+  label: string;
+  chain: Chain;
+  explorerUrl: string;
+  explorerName: string;
+  color: string;
+}
+
+/**
+ * Network used when none is specified.
+ * @constant {ChainName}
+ */
+export const DEFAULT_CHAIN: ChainName = "base";
+
+/**
+ * Supported networks keyed by name. Base comes first and is the default.
+ * @constant {Record<ChainName, ChainConfig>}
+ */
+export const CHAINS: Record<ChainName, ChainConfig> = {
+  base: {
+    name: "base",
+    label: "Base",
+    chain: base,
+    explorerUrl: "https://basescan.org",
+    explorerName: "Basescan",
+    color: "#0052FF",
+  },
+  ethereum: {
+    name: "ethereum",
+    label: "Ethereum",
+    chain: mainnet,
+    explorerUrl: "https://etherscan.io",
+    explorerName: "Etherscan",
+    color: "#627EEA",
+  },
+  arbitrum: {
+    name: "arbitrum",
+    label: "Arbitrum",
+    chain: arbitrum,
+    explorerUrl: "https://arbiscan.io",
+    explorerName: "Arbiscan",
+    color: "#28A0F0",
+  },
+  optimism: {
+    name: "optimism",
+    label: "Optimism",
+    chain: optimism,
+    explorerUrl: "https://optimistic.etherscan.io",
+    explorerName: "Optimism Explorer",
+    color: "#FF0420",
+  },
+  polygon: {
+    name: "polygon",
+    label: "Polygon",
+    chain: polygon,
+    explorerUrl: "https://polygonscan.com",
+    explorerName: "Polygonscan",
+    color: "#8247E5",
+  },
+};
+
+/**
+ * viem chain definitions of all supported networks, default first.
+ * Typed as a non-empty tuple as required by wagmi's `createConfig`.
+ * @constant {readonly [Chain, ...Chain[]]}
+ */
+export const SUPPORTED_CHAINS = Object.values(CHAINS).map(
+  (config) => config.chain
+) as [Chain, ...Chain[]];
+
+/**
+ * Looks up a network by name (case-insensitive).
+ *
+ * @param {string} name - Network name (e.g., "base")
+ * @returns {ChainConfig | undefined} Network config, or undefined if unsupported
+ */
+export function getChain(name: string): ChainConfig | undefined {
+  return CHAINS[name.toLowerCase() as ChainName];
+}
+
+/**
+ * Looks up a network by name, throwing if it is not supported.
+ *
+ * @param {string} name - Network name
+ * @returns {ChainConfig} Network config
+ * @throws {Error} If the network is not in the registry
+ */
+export function requireChain(name: string): ChainConfig {
+  const config = getChain(name);
+  if (!config) {
+    throw new Error(`Unsupported network: ${name}`);
+  }
+  return config;
+}
+
+/**
+ * Looks up a network by its numeric chain ID.
+ *
+ * @param {number} chainId - EVM chain ID (e.g., 8453)
+ * @returns {ChainConfig | undefined} Network config, or undefined if unsupported
+ */
+export function getChainById(chainId: number): ChainConfig | undefined {
+  return Object.values(CHAINS).find((config) => config.chain.id === chainId);
+}
+
+/**
+ * Checks whether a network is supported.
+ *
+ * @param {string} name - Network name
+ * @returns {boolean} True if the network is in the registry
+ */
+export function isChainSupported(name: string): boolean {
+  return !!getChain(name);
+}
+
+/**
+ * Gets the block explorer URL for a transaction.
+ * Unknown networks fall back to the default network's explorer.
+ *
+ * @param {string} txHash - Transaction hash
+ * @param {string} [chain="base"] - Network name the transaction was sent on
+ * @returns {string} Explorer URL
+ *
+ * @example
+ * ```typescript
+ * getExplorerTxUrl("0xabc...", "arbitrum");
+ * // => "https://arbiscan.io/tx/0xabc..."
+ * ```
+ */
+export function getExplorerTxUrl(txHash: string, chain: string = DEFAULT_CHAIN): string {
+  const config = getChain(chain) ?? CHAINS[DEFAULT_CHAIN];
+  return `${config.explorerUrl}/tx/${txHash}`;
+}
+
+/**
+ * Gets the block explorer URL for an address.
+ * Unknown networks fall back to the default network's explorer.
+ *
+ * @param {string} address - Wallet or contract address
+ * @param {string} [chain="base"] - Network name
+ * @returns {string} Explorer URL
+ */
+export function getExplorerAddressUrl(
+  address: string,
+  chain: string = DEFAULT_CHAIN
+): string {
+  const config = getChain(chain) ?? CHAINS[DEFAULT_CHAIN];
+  return `${config.explorerUrl}/address/${address}`;
+}
@@ -0,0 +1,33 @@
+/**
+ * @fileoverview Authorization of cron-triggered API routes.
+ * Schedulers call the worker routes (scheduled payments, investment and
+ * account sync, vault refresh, reconciliation) with
+ * `Authorization: Bearer <CRON_SECRET>`, as Vercel Cron does.
+ */
+
+/**
+ * Checks the cron secret of a request. Without CRON_SECRET the routes are
+ * open in local development only; in production they refuse every request
+ * until the secret is configured.
+ *
+ * @param {Request} request - Incoming request
+ * @returns {boolean} True if the request may run the job
+ *
+ * @example
+ * ```typescript
+ * if (!isCronAuthorized(request)) {
+ *   return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+ * }
+ * ```
+ */
+export function isCronAuthorized(request: Request): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    if (process.env.NODE_ENV === "production") {
+      console.error("[cron] CRON_SECRET is not set; refusing the request");
+      return false;
+    }
+    return true;
+  }
+  return request.headers.get("authorization") === `Bearer ${secret}`;
+}
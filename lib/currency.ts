@@ -11,6 +11,26 @@ import { useState, useEffect } from "react";
  */
 export type Currency = "USD" | "EUR";
 
+/**
+ * USD to EUR rate used when no rate can be fetched.
+ * @constant {number}
+ */
+export const FALLBACK_USD_EUR_RATE = 0.85;
+
+/**
+ * Historical reference rates (ECB, via Frankfurter). Used where amounts must
+ * be valued on the day they happened, such as tax reports.
+ * @constant {string}
+ */
+export const HISTORICAL_RATES_API_URL = "https://api.frankfurter.app";
+
+/**
+ * USD to EUR rates keyed by day (YYYY-MM-DD). Days without a published rate,
+ * such as weekends, are missing.
+ * @typedef {Record<string, number>} DailyExchangeRates
+ */
+export type DailyExchangeRates = Record<string, number>;
+
 /**
  * Response structure from the exchange rate API.
  * 
@@ -77,12 +97,12 @@ export function useExchangeRate() {
           console.warn(
             "Exchange rate API returned unexpected format, using fallback"
           );
-          setRate(0.85); // Fallback rate
+          setRate(FALLBACK_USD_EUR_RATE);
         }
       } catch (err) {
         console.error("Error fetching exchange rate:", err);
         setError("Failed to load exchange rate");
-        setRate(0.85); // Fallback rate
+        setRate(FALLBACK_USD_EUR_RATE);
       } finally {
         setIsLoading(false);
       }
@@ -147,3 +167,61 @@ export function formatCurrency(amount: number, currency: Currency): string {
   const symbol = currency === "USD" ? "$" : "€";
   return `${symbol}${amount.toFixed(2)}`;
 }
+
+/**
+ * Fetches the USD to EUR reference rate of every business day in a range.
+ *
+ * @param {string} from - First day (YYYY-MM-DD)
+ * @param {string} to - Last day (YYYY-MM-DD)
+ * @returns {Promise<DailyExchangeRates>} Rates keyed by day
+ * @throws {Error} If the rates API fails
+ *
+ * @example
+ * ```typescript
+ * const rates = await fetchDailyExchangeRates("2025-01-01", "2025-12-31");
+ * const eur = convertCurrency(12.5, "USD", "EUR", getRateForDay(rates, "2025-03-08"));
+ * ```
+ */
+export async function fetchDailyExchangeRates(
+  from: string,
+  to: string
+): Promise<DailyExchangeRates> {
+  const response = await fetch(
+    `${HISTORICAL_RATES_API_URL}/${from}..${to}?from=USD&to=EUR`
+  );
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch exchange rates: ${response.status}`);
+  }
+
+  const data: { rates?: Record<string, { EUR?: number }> } = await response.json();
+  const rates: DailyExchangeRates = {};
+  for (const [day, value] of Object.entries(data.rates || {})) {
+    if (value?.EUR) {
+      rates[day] = value.EUR;
+    }
+  }
+  return rates;
+}
+
+/**
+ * Returns the USD to EUR rate that applied on a day: the day's own rate, or
+ * the last one published before it. Falls back to the earliest known rate,
+ * then to FALLBACK_USD_EUR_RATE.
+ *
+ * @param {DailyExchangeRates} rates - Rates keyed by day
+ * @param {string} day - Day (YYYY-MM-DD)
+ * @returns {number} USD to EUR rate
+ */
+export function getRateForDay(rates: DailyExchangeRates, day: string): number {
+  if (rates[day]) {
+    return rates[day];
+  }
+
+  const days = Object.keys(rates).sort();
+  const previous = days.filter((d) => d < day).pop();
+  if (previous) {
+    return rates[previous];
+  }
+  return days.length > 0 ? rates[days[0]] : FALLBACK_USD_EUR_RATE;
+}
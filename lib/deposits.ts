@@ -0,0 +1,248 @@
+/**
+ * @fileoverview Fiat deposit (on-ramp) client functions and hooks.
+ * Quotes, checkout and status tracking go through the /api/deposits routes,
+ * which talk to the on-ramp provider; the provider webhook credits the deposit.
+ */
+
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { DepositOrder } from "./supabase";
+import { authFetch } from "./auth-fetch";
+
+export type { DepositOrder };
+
+/**
+ * How often the status screen polls an in-flight deposit.
+ * @constant {number}
+ */
+export const DEPOSIT_POLL_INTERVAL_MS = 3000;
+
+/**
+ * Checks whether a deposit order has reached a final state.
+ *
+ * @param {DepositOrder["status"]} status - Deposit order status
+ * @returns {boolean} True for completed, expired and failed orders
+ */
+export function isDepositFinal(status: DepositOrder["status"]): boolean {
+  return status === "completed" || status === "expired" || status === "failed";
+}
+
+/**
+ * Checks whether a quoted deposit can still be checked out.
+ *
+ * @param {DepositOrder} deposit - Deposit order to check
+ * @param {Date} [now=new Date()] - Reference time
+ * @returns {boolean} True if the quote is open and not expired
+ */
+export function isDepositQuoteOpen(
+  deposit: Pick<DepositOrder, "status" | "quote_expires_at">,
+  now: Date = new Date()
+): boolean {
+  return (
+    deposit.status === "quoted" &&
+    new Date(deposit.quote_expires_at).getTime() > now.getTime()
+  );
+}
+
+/**
+ * Data required to request a deposit quote.
+ */
+export interface CreateDepositQuoteData {
+  profile_id: string;
+  fiat_amount: string;
+  fiat_currency?: string;
+  payment_method: DepositOrder["payment_method"];
+}
+
+/**
+ * Requests a quote for a Google Pay or Apple Pay deposit.
+ * The quote is stored as a "quoted" deposit order with the FX rate, fee and
+ * USDC amount that will be credited to the profile's primary account.
+ *
+ * @param {CreateDepositQuoteData} data - Amount and payment method
+ * @returns {Promise<DepositOrder>} Quoted deposit order
+ * @throws {Error} If validation fails or the provider refuses to quote
+ *
+ * @example
+ * ```typescript
+ * const deposit = await createDepositQuote({
+ *   profile_id: profileId,
+ *   fiat_amount: "50",
+ *   fiat_currency: "EUR",
+ *   payment_method: "apple-pay",
+ * });
+ * router.push(`/deposit/review/${deposit.id}`);
+ * ```
+ */
+export async function createDepositQuote(
+  data: CreateDepositQuoteData
+): Promise<DepositOrder> {
+  const response = await authFetch("/api/deposits", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(data),
+  });
+
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || "Failed to get a deposit quote");
+  }
+
+  return result.deposit;
+}
+
+/**
+ * Fetches a deposit order.
+ *
+ * @param {string} depositId - Deposit order ID
+ * @param {string} profileId - Owner's profile ID
+ * @returns {Promise<DepositOrder>} Deposit order
+ * @throws {Error} If the deposit is not found
+ */
+export async function getDeposit(
+  depositId: string,
+  profileId: string
+): Promise<DepositOrder> {
+  const response = await authFetch(
+    `/api/deposits/${depositId}?profile_id=${encodeURIComponent(profileId)}`
+  );
+
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || "Failed to fetch deposit");
+  }
+
+  return result.deposit;
+}
+
+/**
+ * Lists a profile's deposit orders, most recent first.
+ *
+ * @param {string} profileId - Owner's profile ID
+ * @returns {Promise<DepositOrder[]>} Deposit orders
+ * @throws {Error} If the request fails
+ */
+export async function getDepositsByProfile(
+  profileId: string
+): Promise<DepositOrder[]> {
+  const response = await authFetch(
+    `/api/deposits?profile_id=${encodeURIComponent(profileId)}`
+  );
+
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || "Failed to fetch deposits");
+  }
+
+  return result.deposits;
+}
+
+/**
+ * Opens the provider checkout for a quoted deposit.
+ * The returned order carries the `widget_url` to redirect the user to.
+ *
+ * @param {string} depositId - Deposit order ID
+ * @param {string} profileId - Owner's profile ID
+ * @returns {Promise<DepositOrder>} Pending deposit order
+ * @throws {Error} If the quote is no longer open or the provider rejects it
+ */
+export async function startDepositCheckout(
+  depositId: string,
+  profileId: string
+): Promise<DepositOrder> {
+  const response = await authFetch(`/api/deposits/${depositId}/checkout`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ profile_id: profileId }),
+  });
+
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || "Failed to start checkout");
+  }
+
+  return result.deposit;
+}
+
+/**
+ * Pays or declines a deposit in the mock provider checkout.
+ * Only works while the mock on-ramp provider is configured.
+ *
+ * @param {string} depositId - Deposit order ID
+ * @param {string} profileId - Owner's profile ID
+ * @param {"completed" | "failed"} outcome - Whether the payment goes through
+ * @returns {Promise<DepositOrder>} Updated deposit order
+ * @throws {Error} If the order is not at checkout
+ */
+export async function completeMockDepositPayment(
+  depositId: string,
+  profileId: string,
+  outcome: "completed" | "failed"
+): Promise<DepositOrder> {
+  const response = await authFetch(`/api/deposits/${depositId}/mock-payment`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ profile_id: profileId, outcome }),
+  });
+
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || "Payment failed");
+  }
+
+  return result.deposit;
+}
+
+/**
+ * React hook for tracking a deposit until it reaches a final state.
+ * Polls every `DEPOSIT_POLL_INTERVAL_MS` while the payment is in flight.
+ *
+ * @param {string | null} depositId - Deposit order ID
+ * @param {string | undefined} profileId - Owner's profile ID
+ * @returns {Object} Deposit state
+ * @returns {DepositOrder | null} return.deposit - Latest deposit order
+ * @returns {boolean} return.isLoading - True during the first fetch
+ * @returns {string | null} return.error - Error message if the fetch failed
+ * @returns {Function} return.refetch - Refetch manually
+ */
+export function useDepositStatus(
+  depositId: string | null,
+  profileId: string | undefined
+) {
+  const [deposit, setDeposit] = useState<DepositOrder | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchDeposit = useCallback(async () => {
+    if (!depositId || !profileId) return;
+
+    try {
+      const data = await getDeposit(depositId, profileId);
+      setDeposit(data);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to fetch deposit");
+    }
+  }, [depositId, profileId]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    fetchDeposit().finally(() => setIsLoading(false));
+  }, [fetchDeposit]);
+
+  useEffect(() => {
+    if (!deposit || isDepositFinal(deposit.status)) return;
+
+    const interval = setInterval(fetchDeposit, DEPOSIT_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [deposit, fetchDeposit]);
+
+  return { deposit, isLoading, error, refetch: fetchDeposit };
+}
@@ -72,7 +72,7 @@ export async function getInvestmentSummary(profileId: string) {
  * @param {string} profileId - User profile ID
  * @returns {Promise<Array>} Array of investment account summaries
  * @returns {string} return[].vault_address - Vault contract address
- * @returns {number} return[].total_invested - Total amount invested
+ * @returns {number} return[].total_invested - Total amount invested, net of withdrawals
  * @returns {number} return[].total_rewards - Total rewards earned
  * @returns {number} return[].total_value - Combined total value
  * @returns {string} return[].investment_name - Name of the investment
@@ -126,12 +126,12 @@ export async function getInvestmentSummaryByVault(profileId: string) {
     // For each investment, get the total from movements
     const transformedData = await Promise.all(
       investments.map(async (investment) => {
-        // Get all deposit movements for this investment
+        // Get all deposit and withdrawal movements for this investment
         const { data: movements, error: movementsError } = await supabase
           .from("investment_movements")
-          .select("amount, movement_type")
+          .select("amount, movement_type, status")
           .eq("investment_id", investment.id)
-          .eq("movement_type", "deposit");
+          .in("movement_type", ["deposit", "withdrawal"]);
 
         if (movementsError) {
           console.error(
@@ -155,11 +155,18 @@ export async function getInvestmentSummaryByVault(profileId: string) {
           };
         }
 
-        // Calculate total from movements
-        const totalFromMovements =
+        // Calculate net total from movements (failed withdrawals never left the vault)
+        const totalFromMovements = Math.max(
+          0,
           movements?.reduce((sum, movement) => {
+            if (movement.movement_type === "withdrawal") {
+              return movement.status === "failed"
+                ? sum
+                : sum - parseFloat(movement.amount);
+            }
             return sum + parseFloat(movement.amount);
-          }, 0) || 0;
+          }, 0) || 0
+        );
 
         return {
           vault_address: investment.vault_address,
@@ -281,3 +288,47 @@ export async function createDepositMovement(data: {
 
   return movement;
 }
+
+/**
+ * Create a withdrawal movement when user withdraws from a vault.
+ *
+ * @param {Object} data - Withdrawal movement data
+ * @param {string} data.profile_id - User profile ID
+ * @param {string} data.investment_id - Investment ID
+ * @param {string} data.amount - Amount withdrawn (USDC)
+ * @param {string} [data.tx_hash] - Transaction hash
+ * @param {Object} [data.metadata] - Additional metadata
+ * @returns {Promise<InvestmentMovement>} Created withdrawal movement
+ * @throws {Error} If database insert fails
+ */
+export async function createWithdrawalMovement(data: {
+  profile_id: string;
+  investment_id: string;
+  amount: string;
+  tx_hash?: string;
+  metadata?: Record<string, unknown>;
+}): Promise<InvestmentMovement> {
+  const { data: movement, error } = await supabase
+    .from("investment_movements")
+    .insert({
+      ...data,
+      movement_type: "withdrawal",
+      token: "USDC",
+      chain: "base",
+      status: "pending",
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Supabase error creating withdrawal movement:", error);
+    throw new Error(`Failed to create withdrawal movement: ${error.message}`);
+  }
+
+  if (!movement) {
+    console.error("Withdrawal movement insert returned no data");
+    throw new Error("Failed to create withdrawal movement: No data returned");
+  }
+
+  return movement;
+}
@@ -6,17 +6,23 @@ import {
   useWriteContract,
   useWaitForTransactionReceipt,
   useSwitchChain,
+  usePublicClient,
+  useReadContracts,
 } from "wagmi";
 import { base } from "wagmi/chains";
 import { useAccountSafe as useAccount } from "./use-account-safe";
-import { parseUnits, encodeFunctionData } from "viem";
+import { parseUnits, formatUnits, encodeFunctionData, type Abi } from "viem";
 import { useInvestments } from "./investments";
-import { createDepositMovement } from "./investment-movements";
+import {
+  createDepositMovement,
+  createWithdrawalMovement,
+} from "./investment-movements";
 import { supabase, type Investment } from "./supabase";
 import {
   pollTransactionStatus,
   pollRegularTransactionStatus,
 } from "./update-transaction-status";
+import { TOKENS } from "./tokens";
 import ERC20_ABI from "./abi/ERC20.abi.json";
 import MORPHO_ABI from "./abi/Morpho.abi.json";
 
@@ -45,9 +51,9 @@ export interface InvestmentPaymentResult {
   txHash?: string;
 }
 
-// USDC contract address on Base
-const USDC_BASE_ADDRESS = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
-const USDC_DECIMALS = 6;
+// Vault deposits are made in USDC on Base
+const USDC_BASE_ADDRESS = TOKENS.USDC.addresses.base!;
+const USDC_DECIMALS = TOKENS.USDC.decimals;
 
 /**
  * React hook for processing investment payments to Morpho vaults.
@@ -587,3 +593,314 @@ export function useInvestmentPayment(profileId?: string) {
     pendingStep: pendingStep,
   };
 }
+
+/**
+ * Data required to withdraw from a vault position.
+ */
+export interface InvestmentWithdrawalData {
+  investment_id: string;
+  investment_name: string;
+  vault_address: string;
+  amount: string;
+  is_full: boolean;
+  sender_profile_id: string;
+}
+
+/**
+ * Computes the principal left in an investment after a withdrawal.
+ * Withdrawals draw down principal first; a full withdrawal always leaves zero,
+ * even when the redeemed amount includes yield above the principal.
+ *
+ * @param {string} amountInvested - Current `amount_invested` of the investment
+ * @param {string} withdrawn - Amount withdrawn (USDC)
+ * @param {boolean} isFull - Whether the whole position was redeemed
+ * @returns {string} Remaining principal, rounded to 6 decimals
+ *
+ * @example
+ * ```typescript
+ * getRemainingInvestment("100", "40", false); // => "60"
+ * getRemainingInvestment("100", "104.2", true); // => "0"
+ * ```
+ */
+export function getRemainingInvestment(
+  amountInvested: string,
+  withdrawn: string,
+  isFull: boolean
+): string {
+  if (isFull) {
+    return "0";
+  }
+  const remaining = Math.max(
+    0,
+    parseFloat(amountInvested) - parseFloat(withdrawn)
+  );
+  return parseFloat(remaining.toFixed(USDC_DECIMALS)).toString();
+}
+
+/**
+ * React hook reading a user's withdrawable position in a Morpho vault on Base.
+ *
+ * @param {string | undefined} vaultAddress - Vault contract address
+ * @param {string | undefined} userAddress - Position owner
+ * @returns {Object} Position state
+ * @returns {string} return.withdrawable - Assets that can be withdrawn now, formatted in USDC
+ * @returns {bigint} return.maxWithdraw - Raw withdrawable assets
+ * @returns {bigint} return.maxRedeem - Raw redeemable shares
+ * @returns {boolean} return.isLoading - True while reading the vault
+ * @returns {Function} return.refetch - Read the position again
+ */
+export function useVaultPosition(
+  vaultAddress: string | undefined,
+  userAddress: string | undefined
+) {
+  const enabled = !!vaultAddress && !!userAddress;
+  const { data, isLoading, refetch } = useReadContracts({
+    contracts: enabled
+      ? [
+          {
+            address: vaultAddress as `0x${string}`,
+            abi: MORPHO_ABI as Abi,
+            functionName: "maxWithdraw",
+            args: [userAddress as `0x${string}`],
+            chainId: base.id,
+          },
+          {
+            address: vaultAddress as `0x${string}`,
+            abi: MORPHO_ABI as Abi,
+            functionName: "maxRedeem",
+            args: [userAddress as `0x${string}`],
+            chainId: base.id,
+          },
+        ]
+      : [],
+    query: { enabled },
+  });
+
+  const maxWithdraw = (data?.[0]?.result as bigint | undefined) ?? BigInt(0);
+  const maxRedeem = (data?.[1]?.result as bigint | undefined) ?? BigInt(0);
+
+  return {
+    withdrawable: formatUnits(maxWithdraw, USDC_DECIMALS),
+    maxWithdraw,
+    maxRedeem,
+    isLoading,
+    refetch,
+  };
+}
+
+/**
+ * React hook for withdrawing from Morpho vault positions.
+ * Partial withdrawals call `withdraw(assets)`; full withdrawals call
+ * `redeem(maxRedeem)` so no dust shares are left behind. The withdrawal is
+ * recorded as a `withdrawal` movement and the investment's principal and
+ * status are updated; confirmation is tracked in the background.
+ *
+ * @param {string} [profileId] - User profile ID for investment tracking
+ * @returns {Object} Withdrawal state and actions
+ * @returns {Function} return.executeWithdrawal - Withdraw from a vault
+ * @returns {boolean} return.isLoading - True while processing the withdrawal
+ * @returns {string | null} return.error - Error message if the withdrawal fails
+ * @returns {string | null} return.pendingStep - Current step in process
+ *
+ * @example
+ * ```tsx
+ * const { executeWithdrawal } = useInvestmentWithdrawal(profileId);
+ * const result = await executeWithdrawal({
+ *   investment_id: investment.id,
+ *   investment_name: "Spark USDC Vault",
+ *   vault_address: "0x7BfA7C4f149E7415b73bdeDfe609237e29CBF34A",
+ *   amount: "50",
+ *   is_full: false,
+ *   sender_profile_id: profileId,
+ * });
+ * router.push(`/invest/withdraw/status/${result.movementId}`);
+ * ```
+ */
+export function useInvestmentWithdrawal(profileId?: string) {
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [pendingStep, setPendingStep] = useState<string | null>(null);
+
+  const { address: userAddress, chainId } = useAccount();
+  const publicClient = usePublicClient({ chainId: base.id });
+  const { writeContractAsync } = useWriteContract();
+  const { switchChainAsync } = useSwitchChain();
+
+  const executeWithdrawal = useCallback(
+    async (data: InvestmentWithdrawalData): Promise<InvestmentPaymentResult> => {
+      if (!userAddress) {
+        const err =
+          "Wallet not connected. Please connect your wallet to continue.";
+        setError(err);
+        throw new Error(err);
+      }
+      if (!publicClient) {
+        const err = "Base network is not available";
+        setError(err);
+        throw new Error(err);
+      }
+
+      setIsLoading(true);
+      setError(null);
+      setPendingStep("Preparing...");
+
+      try {
+        // 1. Load the investment being withdrawn from
+        const { data: investment, error: investmentError } = await supabase
+          .from("investments")
+          .select("*")
+          .eq("id", data.investment_id)
+          .eq("profile_id", profileId ?? data.sender_profile_id)
+          .eq("status", "active")
+          .single();
+
+        if (investmentError || !investment) {
+          throw new Error("Investment not found or not active");
+        }
+
+        // 2. Ensure we're on Base network
+        if (chainId !== base.id) {
+          setPendingStep("Switching to Base network...");
+          try {
+            await switchChainAsync({ chainId: base.id });
+          } catch (switchError) {
+            console.error("Failed to switch chain:", switchError);
+            throw new Error(
+              "Please switch your wallet to Base network to continue"
+            );
+          }
+        }
+
+        // 3. Read the current position so the amount never exceeds it
+        const vault = data.vault_address as `0x${string}`;
+        const owner = userAddress as `0x${string}`;
+        let assets: bigint;
+        let shares: bigint | null = null;
+
+        if (data.is_full) {
+          shares = (await publicClient.readContract({
+            address: vault,
+            abi: MORPHO_ABI,
+            functionName: "maxRedeem",
+            args: [owner],
+          })) as bigint;
+          if (shares === BigInt(0)) {
+            throw new Error("There is nothing to withdraw from this vault");
+          }
+          assets = (await publicClient.readContract({
+            address: vault,
+            abi: MORPHO_ABI,
+            functionName: "previewRedeem",
+            args: [shares],
+          })) as bigint;
+        } else {
+          assets = parseUnits(data.amount, USDC_DECIMALS);
+          const maxWithdraw = (await publicClient.readContract({
+            address: vault,
+            abi: MORPHO_ABI,
+            functionName: "maxWithdraw",
+            args: [owner],
+          })) as bigint;
+          if (assets > maxWithdraw) {
+            throw new Error(
+              `You can withdraw up to ${formatUnits(
+                maxWithdraw,
+                USDC_DECIMALS
+              )} USDC`
+            );
+          }
+        }
+
+        // 4. Withdraw (partial) or redeem (full) from the vault
+        setPendingStep("Withdrawing...");
+        const txHash = shares
+          ? await writeContractAsync({
+              address: vault,
+              abi: MORPHO_ABI,
+              functionName: "redeem",
+              args: [shares, owner, owner],
+              chainId: base.id,
+            })
+          : await writeContractAsync({
+              address: vault,
+              abi: MORPHO_ABI,
+              functionName: "withdraw",
+              args: [assets, owner, owner],
+              chainId: base.id,
+            });
+
+        // 5. Record the withdrawal movement
+        setPendingStep("Finalizing...");
+        const withdrawnAmount = formatUnits(assets, USDC_DECIMALS);
+        const movement = await createWithdrawalMovement({
+          profile_id: data.sender_profile_id,
+          investment_id: investment.id,
+          amount: withdrawnAmount,
+          tx_hash: txHash,
+          metadata: {
+            vault_address: data.vault_address,
+            investment_name: data.investment_name,
+            method: shares ? "redeem" : "withdraw",
+            shares: shares?.toString(),
+            is_full_withdrawal: data.is_full,
+          },
+        });
+
+        // 6. Update the investment principal and status
+        const { error: updateError } = await supabase
+          .from("investments")
+          .update({
+            amount_invested: getRemainingInvestment(
+              investment.amount_invested,
+              withdrawnAmount,
+              data.is_full
+            ),
+            status: data.is_full ? "completed" : "active",
+          })
+          .eq("id", investment.id);
+
+        if (updateError) {
+          // Continue - the movement already records the withdrawal
+          console.error("Failed to update investment:", updateError);
+        }
+
+        // 7. Track confirmation in the background
+        pollRegularTransactionStatus(txHash, movement.id).catch((error) => {
+          console.error("Error polling withdrawal status:", error);
+        });
+
+        return {
+          success: true,
+          hash: txHash,
+          investmentId: investment.id,
+          movementId: movement.id,
+          status: "pending",
+          txHash,
+        };
+      } catch (err) {
+        const errorMessage =
+          err instanceof Error ? err.message : "Withdrawal failed";
+        setError(errorMessage);
+        throw new Error(errorMessage);
+      } finally {
+        setIsLoading(false);
+        setPendingStep(null);
+      }
+    },
+    [
+      userAddress,
+      chainId,
+      profileId,
+      publicClient,
+      switchChainAsync,
+      writeContractAsync,
+    ]
+  );
+
+  return {
+    executeWithdrawal,
+    isLoading,
+    error,
+    pendingStep,
+  };
+}
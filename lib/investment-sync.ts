@@ -0,0 +1,114 @@
+/**
+ * @fileoverview Yield accrual math for the onchain investment position sync.
+ * The sync (/api/investments/sync) values each position with the vault's
+ * `convertToAssets`; yield is the growth in value that deposits and
+ * withdrawals since the previous sync do not explain. Amounts are handled in
+ * raw USDC units (bigint) so repeated syncs do not accumulate rounding drift.
+ */
+
+import { formatUnits, parseUnits } from "viem";
+import type { InvestmentMovement, InvestmentSnapshot } from "./supabase";
+import type { DailyReward } from "./rewards-api";
+
+/**
+ * Decimals of the vault asset (USDC).
+ * @constant {number}
+ */
+export const VAULT_ASSET_DECIMALS = 6;
+
+/**
+ * Returns the UTC day a snapshot taken at `date` belongs to.
+ *
+ * @param {Date} date - Time of the sync
+ * @returns {string} Day in YYYY-MM-DD format
+ */
+export function getSnapshotDate(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+/**
+ * Sums deposits minus withdrawals, in raw USDC units.
+ * Failed movements never moved funds and are ignored.
+ *
+ * @param {Array<Pick<InvestmentMovement, "movement_type" | "amount" | "status">>} movements - Movements since the previous sync
+ * @returns {bigint} Net flow into the vault (negative when more was withdrawn)
+ */
+export function sumNetFlows(
+  movements: Array<
+    Pick<InvestmentMovement, "movement_type" | "amount" | "status">
+  >
+): bigint {
+  return movements.reduce((total, movement) => {
+    if (movement.status === "failed") {
+      return total;
+    }
+    const amount = parseUnits(movement.amount, VAULT_ASSET_DECIMALS);
+    if (movement.movement_type === "deposit") {
+      return total + amount;
+    }
+    if (movement.movement_type === "withdrawal") {
+      return total - amount;
+    }
+    return total;
+  }, BigInt(0));
+}
+
+/**
+ * Computes the yield accrued between two valuations of a position.
+ * Value changes caused by deposits and withdrawals are subtracted; a drop in
+ * share price is not recorded as negative yield.
+ *
+ * @param {bigint} currentAssets - Position value now, in raw units
+ * @param {bigint} previousAssets - Position value at the previous sync (0 for the first sync)
+ * @param {bigint} netFlows - Deposits minus withdrawals since the previous sync
+ * @returns {bigint} Accrued yield in raw units, never negative
+ *
+ * @example
+ * ```typescript
+ * // 100 USDC last sync, 50 deposited since, now worth 150.02
+ * calculateAccruedYield(150_020000n, 100_000000n, 50_000000n); // => 20000n (0.02 USDC)
+ * ```
+ */
+export function calculateAccruedYield(
+  currentAssets: bigint,
+  previousAssets: bigint,
+  netFlows: bigint
+): bigint {
+  const accrued = currentAssets - previousAssets - netFlows;
+  return accrued > BigInt(0) ? accrued : BigInt(0);
+}
+
+/**
+ * Formats raw USDC units as a decimal string.
+ *
+ * @param {bigint} amount - Amount in raw units
+ * @returns {string} Decimal amount (e.g., "0.02")
+ */
+export function formatVaultAssets(amount: bigint): string {
+  return formatUnits(amount, VAULT_ASSET_DECIMALS);
+}
+
+/**
+ * Builds chart data from daily snapshots.
+ *
+ * @param {Array<Pick<InvestmentSnapshot, "snapshot_date" | "accrued_yield" | "cumulative_yield">>} snapshots - Snapshots of one investment
+ * @param {string} start - First day included (YYYY-MM-DD)
+ * @param {string} end - Last day included (YYYY-MM-DD)
+ * @returns {DailyReward[]} One entry per snapshot day in the range, oldest first
+ */
+export function buildDailyRewards(
+  snapshots: Array<
+    Pick<InvestmentSnapshot, "snapshot_date" | "accrued_yield" | "cumulative_yield">
+  >,
+  start: string,
+  end: string
+): DailyReward[] {
+  return snapshots
+    .filter((s) => s.snapshot_date >= start && s.snapshot_date <= end)
+    .sort((a, b) => a.snapshot_date.localeCompare(b.snapshot_date))
+    .map((s) => ({
+      date: s.snapshot_date,
+      amount: parseFloat(s.accrued_yield),
+      cumulative: parseFloat(s.cumulative_yield),
+    }));
+}
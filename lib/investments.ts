@@ -6,6 +6,7 @@ import {
   createDepositMovement,
   getInvestmentSummary as getInvestmentSummaryFromMovements,
 } from "./investment-movements";
+import { getAllVaultData, type VaultData } from "./vault-data";
 
 /**
  * Investment option configuration for available investment opportunities.
@@ -20,43 +21,6 @@ export interface InvestmentOption {
   type: "morpho_vault" | "savings_account";
 }
 
-/**
- * Available investment options with real Morpho vault addresses.
- * These represent actual investment opportunities users can choose from.
- */
-export const INVESTMENT_OPTIONS: InvestmentOption[] = [
-  {
-    id: "morpho-vault-1",
-    name: "Spark USDC Vault",
-    description:
-      "Spark blue-chip USDC vault. Lending against the lowest risk crypto and real-world assets (RWAs). Curated by SparkDAO which allocates billions in assets across all of DeFi. See: https://data.spark.fi/spark-liquidity-layer",
-    apr: 6.55,
-    logo: "/morpho.svg",
-    vault_address: "0x7BfA7C4f149E7415b73bdeDfe609237e29CBF34A",
-    type: "morpho_vault",
-  },
-  {
-    id: "morpho-vault-2",
-    name: "Steakhouse USDC Vault",
-    description:
-      "The Steakhouse USDC vault aims to optimize yields by lending USDC against blue chip crypto and real world asset (RWA) collateral markets, depending on market conditions.",
-    apr: 5.59,
-    logo: "/morpho.svg",
-    vault_address: "0xbeeF010f9cb27031ad51e3333f9aF9C6B1228183",
-    type: "morpho_vault",
-  },
-  {
-    id: "morpho-vault-3",
-    name: "Seamless USDC Vault",
-    description:
-      "The Seamless USDC Vault curated by Gauntlet is intended to optimize risk-adjusted yield across high-demand collateral markets on Base.",
-    apr: 6.99,
-    logo: "/morpho.svg",
-    vault_address: "0x616a4E1db48e22028f6bbf20444Cd3b8e3273738",
-    type: "morpho_vault",
-  },
-];
-
 /**
  * React hook to manage user investments and investment operations.
  * Provides CRUD operations for investments and tracks investment status.
@@ -241,20 +205,61 @@ export function useInvestments(profileId?: string) {
 }
 
 /**
- * Get all available investment options.
+ * Converts a catalog vault into an investment option.
  *
- * @returns {InvestmentOption[]} Array of investment options
+ * @param {VaultData} vault - Vault from the vault catalog
+ * @returns {InvestmentOption} Investment option
  */
-export function getInvestmentOptions(): InvestmentOption[] {
-  return INVESTMENT_OPTIONS;
+function toInvestmentOption(vault: VaultData): InvestmentOption {
+  return {
+    id: vault.id,
+    name: vault.name,
+    description: vault.description,
+    apr: vault.apr,
+    logo: vault.logo,
+    vault_address: vault.vault_address,
+    type: vault.type,
+  };
+}
+
+/**
+ * Get all available investment options with current APRs from the vault catalog.
+ *
+ * @returns {Promise<InvestmentOption[]>} Array of investment options
+ * @throws {Error} If the vault catalog cannot be loaded
+ */
+export async function getInvestmentOptions(): Promise<InvestmentOption[]> {
+  const vaults = await getAllVaultData();
+  return vaults.map(toInvestmentOption);
 }
 
 /**
  * Get a specific investment option by ID.
  *
  * @param {string} id - Investment option ID
- * @returns {InvestmentOption | undefined} Investment option or undefined if not found
+ * @returns {Promise<InvestmentOption | undefined>} Investment option or undefined if not found
+ * @throws {Error} If the vault catalog cannot be loaded
+ */
+export async function getInvestmentOption(
+  id: string
+): Promise<InvestmentOption | undefined> {
+  const options = await getInvestmentOptions();
+  return options.find((option) => option.id === id);
+}
+
+/**
+ * Get the investment option for a vault address.
+ *
+ * @param {string} vaultAddress - Vault contract address
+ * @returns {Promise<InvestmentOption | undefined>} Investment option or undefined if the vault is not listed
+ * @throws {Error} If the vault catalog cannot be loaded
  */
-export function getInvestmentOption(id: string): InvestmentOption | undefined {
-  return INVESTMENT_OPTIONS.find((option) => option.id === id);
+export async function getInvestmentOptionByVault(
+  vaultAddress: string
+): Promise<InvestmentOption | undefined> {
+  const options = await getInvestmentOptions();
+  return options.find(
+    (option) =>
+      option.vault_address?.toLowerCase() === vaultAddress.toLowerCase()
+  );
 }
@@ -1,46 +1,19 @@
 /**
  * @fileoverview Model Context Protocol (MCP) server implementation for Banb.
  * Provides read-only query tools for AI-powered natural language queries about user data.
- * Exposes investment options, balances, transactions, recipients, and portfolio insights.
+ * Exposes investment options, balances, transactions, recipients, and portfolio insights,
+ * plus account and transaction resources, over JSON-RPC 2.0 for external MCP clients.
  */
 
-// Import removed - we'll define investment options directly to avoid client/server issues
-import { getRecentTransactions, getSentTransactions } from "./transactions";
+import { getSentTransactions, getTransactionsByProfile } from "./transactions";
+import { parseTransactionQuery } from "./transaction-query";
 import { getRecipientsByProfile } from "./recipients";
 import { getPortfolioInsights, type PortfolioInsights } from "./portfolio-insights";
 import { fetchOnchainTransactions, type FormattedOnchainTransaction } from "./onchain-transactions";
+import { CHAINS, DEFAULT_CHAIN, getExplorerTxUrl, isChainSupported } from "./chains";
 import { supabase } from "./supabase";
-
-/**
- * Server-side investment options data.
- * Duplicated from lib/investments.ts to avoid client/server boundary issues.
- */
-const SERVER_INVESTMENT_OPTIONS = [
-  {
-    id: "morpho-vault-1",
-    name: "Spark USDC Vault",
-    description: "Spark blue-chip USDC vault. Lending against the lowest risk crypto and real-world assets (RWAs). Curated by SparkDAO which allocates billions in assets across all of DeFi.",
-    apr: 6.55,
-    type: "morpho_vault",
-    vault_address: "0x7BfA7C4f149E7415b73bdeDfe609237e29CBF34A",
-  },
-  {
-    id: "morpho-vault-2", 
-    name: "Steakhouse USDC Vault",
-    description: "The Steakhouse USDC vault aims to optimize yields by lending USDC against blue chip crypto and real world asset (RWA) collateral markets, depending on market conditions.",
-    apr: 5.59,
-    type: "morpho_vault",
-    vault_address: "0xbeeF010f9cb27031ad51e3333f9aF9C6B1228183",
-  },
-  {
-    id: "morpho-vault-3",
-    name: "Seamless USDC Vault", 
-    description: "The Seamless USDC Vault curated by Gauntlet is intended to optimize risk-adjusted yield across high-demand collateral markets on Base.",
-    apr: 6.99,
-    type: "morpho_vault",
-    vault_address: "0x616a4E1db48e22028f6bbf20444Cd3b8e3273738",
-  },
-] as const;
+import { getVaultCatalog } from "./vault-catalog";
+import { hasScope, type AccessTokenScope } from "./access-tokens";
 
 /**
  * MCP tool definition interface following the MCP specification.
@@ -63,8 +36,75 @@ export interface MCPToolResult {
     type: "text";
     text: string;
   }>;
+  isError?: boolean;
+}
+
+/**
+ * MCP resource definition. Resources are read-only documents a client can
+ * list and read without calling a tool.
+ */
+export interface MCPResource {
+  uri: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType: string;
+}
+
+/**
+ * MCP resource template, a parameterized resource URI (RFC 6570).
+ */
+export interface MCPResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType: string;
 }
 
+/**
+ * Result of resources/read.
+ */
+export interface MCPResourceContents {
+  contents: Array<{
+    uri: string;
+    mimeType: string;
+    text: string;
+  }>;
+}
+
+/**
+ * JSON-RPC 2.0 request id. Notifications have no id.
+ */
+export type JSONRPCId = string | number;
+
+/**
+ * JSON-RPC 2.0 request or notification, as sent by MCP clients.
+ */
+export interface JSONRPCRequest {
+  jsonrpc: "2.0";
+  id?: JSONRPCId;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+/**
+ * JSON-RPC 2.0 error object.
+ */
+export interface JSONRPCError {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+/**
+ * JSON-RPC 2.0 response. Errors for requests whose id couldn't be read
+ * carry a null id.
+ */
+export type JSONRPCResponse =
+  | { jsonrpc: "2.0"; id: JSONRPCId; result: unknown }
+  | { jsonrpc: "2.0"; id: JSONRPCId | null; error: JSONRPCError };
+
 /**
  * MCP request interface for handling protocol requests.
  */
@@ -78,13 +118,52 @@ export interface MCPRequest {
 
 /**
  * Tool execution context containing authenticated user information.
+ * `scopes` is set when the caller authenticated with a personal access
+ * token; without it the caller is the signed-in user and may use every tool.
  */
 export interface ToolExecutionContext {
   profileId: string;
   userAddress?: string;
   sessionId?: string;
+  scopes?: AccessTokenScope[];
 }
 
+/**
+ * MCP protocol revision this server implements. Older revisions listed in
+ * MCP_SUPPORTED_PROTOCOL_VERSIONS are accepted during initialize.
+ */
+export const MCP_PROTOCOL_VERSION = "2025-06-18";
+
+/**
+ * Protocol revisions accepted from clients, newest first.
+ */
+export const MCP_SUPPORTED_PROTOCOL_VERSIONS = [MCP_PROTOCOL_VERSION, "2025-03-26", "2024-11-05"];
+
+/**
+ * Server identity returned by initialize.
+ */
+export const MCP_SERVER_INFO = {
+  name: "banb-mcp-server",
+  title: "Banb",
+  version: "1.0.0",
+};
+
+/**
+ * JSON-RPC error codes. The first five are defined by JSON-RPC 2.0,
+ * RESOURCE_NOT_FOUND by MCP, UNAUTHORIZED and FORBIDDEN (missing token
+ * scope) by this server.
+ */
+export const JSONRPC_ERROR_CODES = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+  UNAUTHORIZED: -32001,
+  RESOURCE_NOT_FOUND: -32002,
+  FORBIDDEN: -32003,
+} as const;
+
 /**
  * Registry of available MCP tools for querying Banb application data.
  * All tools are read-only and require user authentication.
@@ -116,7 +195,7 @@ export const MCP_TOOLS: MCPTool[] = [
   },
   {
     name: "get_recent_transactions",
-    description: "Retrieve recent transaction history for the authenticated user. Includes transaction details like amount, recipient, date, and status.",
+    description: "Retrieve transaction history for the authenticated user, newest first. Includes transaction details like amount, recipient, date, direction, and status. Supports filters, free-text search over recipient names and payment notes, and cursor pagination: pass next_cursor back as cursor for older transactions.",
     inputSchema: {
       type: "object",
       properties: {
@@ -126,6 +205,48 @@ export const MCP_TOOLS: MCPTool[] = [
           minimum: 1,
           maximum: 50,
         },
+        from: {
+          type: "string",
+          description: "Only transactions on or after this date (ISO 8601)",
+        },
+        to: {
+          type: "string",
+          description: "Only transactions on or before this date (ISO 8601)",
+        },
+        direction: {
+          type: "string",
+          description: "in for received, out for sent",
+          enum: ["in", "out"],
+        },
+        counterparty: {
+          type: "string",
+          description: "Recipient ID, as returned by get_recipients",
+        },
+        token: {
+          type: "string",
+          description: "Token symbol, e.g. USDC",
+        },
+        status: {
+          type: "array",
+          description: "Only these statuses",
+          items: { type: "string", enum: ["pending", "sent", "success", "failed"] },
+        },
+        min_amount: {
+          type: "number",
+          description: "Smallest amount, inclusive",
+        },
+        max_amount: {
+          type: "number",
+          description: "Largest amount, inclusive",
+        },
+        search: {
+          type: "string",
+          description: "Text matched against recipient names and payment notes",
+        },
+        cursor: {
+          type: "string",
+          description: "next_cursor from a previous call",
+        },
       },
     },
   },
@@ -147,10 +268,15 @@ export const MCP_TOOLS: MCPTool[] = [
   },
   {
     name: "get_onchain_transactions",
-    description: "Fetch transaction history directly from the Base blockchain using Basescan API. Use this when database transactions are empty or user explicitly requests onchain data. Returns last transactions with amounts, counterparties, and dates.",
+    description: "Fetch transaction history directly from the blockchain using the block explorer API. Defaults to Base; pass chain for other networks. Use this when database transactions are empty or user explicitly requests onchain data. Returns last transactions with amounts, counterparties, and dates.",
     inputSchema: {
       type: "object",
       properties: {
+        chain: {
+          type: "string",
+          description: "Network to query (default base)",
+          enum: Object.keys(CHAINS),
+        },
         limit: {
           type: "number",
           description: "Maximum number of transactions to return (default 5, max 20)",
@@ -162,6 +288,80 @@ export const MCP_TOOLS: MCPTool[] = [
   },
 ];
 
+/**
+ * Access token scope each tool needs; null for public data.
+ */
+export const MCP_TOOL_SCOPES: Record<string, AccessTokenScope | null> = {
+  get_investment_options: null,
+  get_user_balance: "read:balances",
+  get_accounts: "read:balances",
+  get_recent_transactions: "read:transactions",
+  get_recipients: "read:recipients",
+  get_transaction_summary: "read:transactions",
+  get_onchain_transactions: "read:transactions",
+};
+
+/**
+ * Checks whether the caller's scopes allow a tool.
+ *
+ * @param {string} toolName - Tool to check
+ * @param {ToolExecutionContext} context - User context
+ * @returns {boolean} True if the tool may be called
+ */
+export function canUseTool(toolName: string, context: ToolExecutionContext): boolean {
+  const scope = MCP_TOOL_SCOPES[toolName];
+  return !scope || hasScope(context.scopes, scope);
+}
+
+/**
+ * Access token scope needed to read a banb:// resource, by URI host.
+ */
+const RESOURCE_SCOPES: Record<string, AccessTokenScope> = {
+  accounts: "read:balances",
+  transactions: "read:transactions",
+};
+
+/**
+ * Fixed resources every profile has. Each account is also listed as
+ * banb://accounts/{account_id}.
+ */
+export const MCP_RESOURCES: MCPResource[] = [
+  {
+    uri: "banb://accounts",
+    name: "accounts",
+    title: "Accounts",
+    description: "Accounts linked to the profile with balances. Addresses are masked.",
+    mimeType: "application/json",
+  },
+  {
+    uri: "banb://transactions",
+    name: "transactions",
+    title: "Recent transactions",
+    description: "The 10 most recent transactions. Append ?limit=N (max 50) for more.",
+    mimeType: "application/json",
+  },
+];
+
+/**
+ * Parameterized resources, for clients that build URIs themselves.
+ */
+export const MCP_RESOURCE_TEMPLATES: MCPResourceTemplate[] = [
+  {
+    uriTemplate: "banb://accounts/{account_id}",
+    name: "account",
+    title: "Account",
+    description: "A single account with its balance",
+    mimeType: "application/json",
+  },
+  {
+    uriTemplate: "banb://transactions{?limit}",
+    name: "transactions_page",
+    title: "Transactions",
+    description: "Recent transactions, up to limit (max 50)",
+    mimeType: "application/json",
+  },
+];
+
 /**
  * Handles MCP protocol requests and routes them to appropriate handlers.
  * Supports tools/list and tools/call methods as per MCP specification.
@@ -186,7 +386,7 @@ export async function handleMCPRequest(
   switch (request.method) {
     case "tools/list":
       return {
-        tools: MCP_TOOLS,
+        tools: MCP_TOOLS.filter((tool) => canUseTool(tool.name, context)),
       };
 
     case "tools/call":
@@ -210,15 +410,272 @@ export async function handleMCPRequest(
   }
 }
 
+/**
+ * Builds a JSON-RPC error response.
+ *
+ * @param {JSONRPCId | null} id - Request id, or null if it couldn't be read
+ * @param {number} code - One of JSONRPC_ERROR_CODES
+ * @param {string} message - Short description of the error
+ * @param {unknown} [data] - Additional error details
+ * @returns {JSONRPCResponse} Error response
+ */
+export function jsonRPCError(
+  id: JSONRPCId | null,
+  code: number,
+  message: string,
+  data?: unknown
+): JSONRPCResponse {
+  return {
+    jsonrpc: "2.0",
+    id,
+    error: data === undefined ? { code, message } : { code, message, data },
+  };
+}
+
+/**
+ * Checks that a message is a JSON-RPC 2.0 request or notification.
+ *
+ * @param {unknown} message - Parsed message
+ * @returns {boolean} True if the message can be dispatched
+ */
+export function isJSONRPCRequest(message: unknown): message is JSONRPCRequest {
+  if (!message || typeof message !== "object" || Array.isArray(message)) {
+    return false;
+  }
+  const { jsonrpc, id, method, params } = message as Record<string, unknown>;
+  return (
+    jsonrpc === "2.0" &&
+    typeof method === "string" &&
+    (id === undefined || typeof id === "string" || typeof id === "number") &&
+    (params === undefined || (typeof params === "object" && params !== null && !Array.isArray(params)))
+  );
+}
+
+/**
+ * Picks the protocol revision for a session: the client's if supported,
+ * otherwise the latest one this server implements.
+ *
+ * @param {unknown} requested - protocolVersion sent in initialize
+ * @returns {string} Negotiated protocol version
+ */
+export function negotiateProtocolVersion(requested: unknown): string {
+  return typeof requested === "string" && MCP_SUPPORTED_PROTOCOL_VERSIONS.includes(requested)
+    ? requested
+    : MCP_PROTOCOL_VERSION;
+}
+
+/**
+ * Handles one JSON-RPC message from an MCP client.
+ * Supports initialize, ping, tools/list, tools/call, resources/list,
+ * resources/templates/list and resources/read. Notifications are accepted
+ * and produce no response.
+ *
+ * @param {unknown} message - Parsed JSON-RPC message
+ * @param {ToolExecutionContext} context - Authenticated user context
+ * @returns {Promise<JSONRPCResponse | null>} Response, or null for notifications
+ *
+ * @example
+ * ```typescript
+ * const response = await handleJSONRPCMessage(
+ *   { jsonrpc: "2.0", id: 1, method: "tools/list" },
+ *   { profileId: "user-123" }
+ * );
+ * ```
+ */
+export async function handleJSONRPCMessage(
+  message: unknown,
+  context: ToolExecutionContext
+): Promise<JSONRPCResponse | null> {
+  if (!isJSONRPCRequest(message)) {
+    const id = (message as { id?: unknown } | null)?.id;
+    return jsonRPCError(
+      typeof id === "string" || typeof id === "number" ? id : null,
+      JSONRPC_ERROR_CODES.INVALID_REQUEST,
+      "Invalid Request"
+    );
+  }
+
+  // Notifications (e.g. notifications/initialized) need no reply
+  if (message.id === undefined) {
+    return null;
+  }
+
+  const id = message.id;
+  const params = message.params || {};
+  const ok = (result: unknown): JSONRPCResponse => ({ jsonrpc: "2.0", id, result });
+
+  try {
+    switch (message.method) {
+      case "initialize":
+        return ok({
+          protocolVersion: negotiateProtocolVersion(params.protocolVersion),
+          capabilities: {
+            tools: { listChanged: false },
+            resources: { subscribe: false, listChanged: false },
+          },
+          serverInfo: MCP_SERVER_INFO,
+          instructions:
+            "Read-only access to one Banb profile: accounts, balances, transactions, recipients and investment options.",
+        });
+
+      case "ping":
+        return ok({});
+
+      case "tools/list":
+        return ok({ tools: MCP_TOOLS.filter((tool) => canUseTool(tool.name, context)) });
+
+      case "tools/call": {
+        const { name, arguments: args } = params;
+        if (typeof name !== "string" || !MCP_TOOLS.some((t) => t.name === name)) {
+          return jsonRPCError(id, JSONRPC_ERROR_CODES.INVALID_PARAMS, `Unknown tool: ${String(name)}`);
+        }
+        if (!canUseTool(name, context)) {
+          return jsonRPCError(id, JSONRPC_ERROR_CODES.FORBIDDEN, `This access token lacks the ${MCP_TOOL_SCOPES[name]} scope`);
+        }
+        if (args !== undefined && (typeof args !== "object" || args === null || Array.isArray(args))) {
+          return jsonRPCError(id, JSONRPC_ERROR_CODES.INVALID_PARAMS, "Tool arguments must be an object");
+        }
+        return ok(await executeToolHandler(name, (args as Record<string, unknown>) || {}, context));
+      }
+
+      case "resources/list":
+        return ok({ resources: await listResources(context) });
+
+      case "resources/templates/list":
+        return ok({
+          resourceTemplates: MCP_RESOURCE_TEMPLATES.filter((template) =>
+            canReadResource(template.uriTemplate, context)
+          ),
+        });
+
+      case "resources/read": {
+        if (typeof params.uri !== "string") {
+          return jsonRPCError(id, JSONRPC_ERROR_CODES.INVALID_PARAMS, "Missing resource uri");
+        }
+        if (!canReadResource(params.uri, context)) {
+          return jsonRPCError(id, JSONRPC_ERROR_CODES.FORBIDDEN, "This access token can't read this resource", {
+            uri: params.uri,
+          });
+        }
+        const contents = await readResource(params.uri, context);
+        if (!contents) {
+          return jsonRPCError(id, JSONRPC_ERROR_CODES.RESOURCE_NOT_FOUND, "Resource not found", {
+            uri: params.uri,
+          });
+        }
+        return ok(contents);
+      }
+
+      default:
+        return jsonRPCError(id, JSONRPC_ERROR_CODES.METHOD_NOT_FOUND, `Method not found: ${message.method}`);
+    }
+  } catch (error) {
+    return jsonRPCError(
+      id,
+      JSONRPC_ERROR_CODES.INTERNAL_ERROR,
+      error instanceof Error ? error.message : "Internal error"
+    );
+  }
+}
+
+/**
+ * Checks whether the caller's scopes allow reading a resource.
+ * Unknown URIs are allowed here and reported as not found by readResource.
+ *
+ * @param {string} uri - Resource URI or URI template
+ * @param {ToolExecutionContext} context - User context
+ * @returns {boolean} True if the resource may be read
+ */
+export function canReadResource(uri: string, context: ToolExecutionContext): boolean {
+  const host = uri.match(/^banb:\/\/([a-z_]+)/)?.[1];
+  const scope = host ? RESOURCE_SCOPES[host] : undefined;
+  return !scope || hasScope(context.scopes, scope);
+}
+
+/**
+ * Lists the fixed resources plus one resource per account of the profile,
+ * leaving out those the caller's scopes don't allow.
+ *
+ * @param {ToolExecutionContext} context - User context
+ * @returns {Promise<MCPResource[]>} Resources the profile can read
+ */
+export async function listResources(context: ToolExecutionContext): Promise<MCPResource[]> {
+  const resources = MCP_RESOURCES.filter((resource) => canReadResource(resource.uri, context));
+  if (!hasScope(context.scopes, RESOURCE_SCOPES.accounts)) {
+    return resources;
+  }
+
+  const accounts = await getAccountsHandler(context);
+  return [
+    ...resources,
+    ...accounts.map((account) => ({
+      uri: `banb://accounts/${account.id}`,
+      name: `account-${account.id}`,
+      title: account.name,
+      description: `${account.type} account on ${account.network}${account.is_primary ? " (primary)" : ""}`,
+      mimeType: "application/json",
+    })),
+  ];
+}
+
+/**
+ * Reads a banb:// resource. Accounts and transactions are returned in the
+ * same shape as the get_accounts and get_recent_transactions tools.
+ *
+ * @param {string} uri - Resource URI
+ * @param {ToolExecutionContext} context - User context
+ * @returns {Promise<MCPResourceContents | null>} Contents, or null if the resource doesn't exist
+ */
+export async function readResource(
+  uri: string,
+  context: ToolExecutionContext
+): Promise<MCPResourceContents | null> {
+  let url: URL;
+  try {
+    url = new URL(uri);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== "banb:") {
+    return null;
+  }
+
+  const path = url.pathname.replace(/^\/+|\/+$/g, "");
+  let data: unknown;
+
+  if (url.host === "accounts") {
+    const accounts = await getAccountsHandler(context);
+    if (!path) {
+      data = accounts;
+    } else {
+      const account = accounts.find((a) => a.id === decodeURIComponent(path));
+      if (!account) {
+        return null;
+      }
+      data = account;
+    }
+  } else if (url.host === "transactions" && !path) {
+    const limit = Number(url.searchParams.get("limit")) || undefined;
+    data = await getRecentTransactionsHandler({ limit }, context);
+  } else {
+    return null;
+  }
+
+  return {
+    contents: [{ uri, mimeType: "application/json", text: JSON.stringify(data) }],
+  };
+}
+
 /**
  * Executes a specific MCP tool handler with the provided arguments.
- * Validates authentication and routes to the appropriate tool implementation.
+ * Validates authentication and token scopes and routes to the appropriate
+ * tool implementation.
  * 
  * @param {string} toolName - Name of the tool to execute
  * @param {Record<string, unknown>} args - Tool arguments
  * @param {ToolExecutionContext} context - Authenticated user context
  * @returns {Promise<MCPToolResult>} Tool execution result
- * @throws {Error} If tool execution fails or user is not authenticated
+ * @throws {Error} If the user is not authenticated or the token lacks the tool's scope
  */
 export async function executeToolHandler(
   toolName: string,
@@ -230,6 +687,11 @@ export async function executeToolHandler(
     throw new Error("Authentication required");
   }
 
+  // Enforce access token scopes
+  if (!canUseTool(toolName, context)) {
+    throw new Error(`This access token lacks the ${MCP_TOOL_SCOPES[toolName]} scope`);
+  }
+
   try {
     let result: unknown;
 
@@ -290,13 +752,14 @@ export async function executeToolHandler(
           }),
         },
       ],
+      isError: true,
     };
   }
 }
 
 /**
  * Handler for get_investment_options tool.
- * Retrieves all available investment products with details.
+ * Retrieves all available investment products from the vault catalog, with current APRs.
  * Returns investment data formatted with name, description, APR, type, and vault address.
  * 
  * @returns {Promise<Array<{id: string; name: string; description: string; apr: string; type: string; vault_address: string | null}>>} Investment options data in MCP response format
@@ -309,13 +772,14 @@ async function getInvestmentOptionsHandler(): Promise<Array<{
   type: string;
   vault_address: string | null;
 }>> {
-  return SERVER_INVESTMENT_OPTIONS.map((option) => ({
-    id: option.id,
-    name: option.name,
-    description: option.description,
-    apr: `${option.apr}%`,
-    type: option.type,
-    vault_address: option.vault_address || null,
+  const vaults = await getVaultCatalog().getVaults();
+  return vaults.map((vault) => ({
+    id: vault.id,
+    name: vault.name,
+    description: vault.description,
+    apr: `${vault.apr}%`,
+    type: vault.type,
+    vault_address: vault.vault_address || null,
   }));
 }
 
@@ -373,21 +837,26 @@ async function getUserBalanceHandler(context: ToolExecutionContext): Promise<{
  * Transaction response type for getRecentTransactionsHandler
  */
 type TransactionResponse = 
-  | Array<{
-      id: string;
-      amount: string;
-      recipient_name: string;
-      recipient_address: string | null;
-      date: string;
-      status: string;
-      token: string;
-      chain: string;
-    }>
+  | {
+      transactions: Array<{
+        id: string;
+        amount: string;
+        direction: "in" | "out";
+        recipient_name: string;
+        recipient_address: string | null;
+        date: string;
+        status: string;
+        token: string;
+        chain: string;
+      }>;
+      next_cursor: string | null;
+    }
   | { message: string; suggestion: string };
 
 /**
  * Handler for get_recent_transactions tool.
- * Retrieves recent transaction history with recipient details.
+ * Retrieves a page of transaction history with recipient details, using the
+ * same query object as the /transactions page (lib/transaction-query.ts).
  * 
  * @param {Record<string, unknown>} args - Tool arguments
  * @param {ToolExecutionContext} context - User context
@@ -397,30 +866,39 @@ async function getRecentTransactionsHandler(
   args: Record<string, unknown>,
   context: ToolExecutionContext
 ): Promise<TransactionResponse> {
-  const limit = Math.min(Math.max((args.limit as number) || 10, 1), 50);
+  const { query, error } = parseTransactionQuery(args);
+  if (error) {
+    throw new Error(error);
+  }
+  query.limit = Math.min(Math.max((args.limit as number) || 10, 1), 50);
 
-  const transactions = await getRecentTransactions(context.profileId, limit);
+  const { items: transactions, next_cursor } = await getTransactionsByProfile(context.profileId, query);
 
   // If no transactions in database, suggest checking onchain
-  if (transactions.length === 0) {
+  const hasFilters = Object.keys(query).some((key) => key !== "limit");
+  if (transactions.length === 0 && !hasFilters) {
     return {
       message: "No transactions found in the database.",
       suggestion: "Would you like me to check for onchain transactions? This will fetch your transaction history directly from the blockchain."
     };
   }
 
-  return transactions.map((tx) => ({
-    id: tx.id,
-    amount: `$${parseFloat(tx.amount).toFixed(2)}`,
-    recipient_name: tx.recipient?.name || "Unknown",
-    recipient_address: tx.recipient?.external_address
-      ? `${tx.recipient.external_address.slice(0, 6)}...${tx.recipient.external_address.slice(-4)}`
-      : null,
-    date: new Date(tx.created_at).toLocaleDateString(),
-    status: tx.status,
-    token: tx.token,
-    chain: tx.chain,
-  }));
+  return {
+    transactions: transactions.map((tx) => ({
+      id: tx.id,
+      amount: `$${parseFloat(tx.amount).toFixed(2)}`,
+      direction: tx.sender_profile_id === context.profileId ? "out" : "in",
+      recipient_name: tx.recipient?.name || "Unknown",
+      recipient_address: tx.recipient?.external_address
+        ? `${tx.recipient.external_address.slice(0, 6)}...${tx.recipient.external_address.slice(-4)}`
+        : null,
+      date: new Date(tx.created_at).toLocaleDateString(),
+      status: tx.status,
+      token: tx.token,
+      chain: tx.chain,
+    })),
+    next_cursor,
+  };
 }
 
 /**
@@ -600,7 +1078,7 @@ type OnchainTransactionResponse =
 
 /**
  * Handler for get_onchain_transactions tool.
- * Fetches transaction history directly from Base blockchain via Basescan API.
+ * Fetches transaction history directly from the blockchain via the Etherscan v2 API.
  * Returns formatted transaction data with explorer links.
  * 
  * @param {Record<string, unknown>} args - Tool arguments
@@ -614,7 +1092,15 @@ async function getOnchainTransactionsHandler(
   try {
     const limit = Math.min(Math.max((args.limit as number) || 5, 1), 20);
     
-    const transactions = await fetchOnchainTransactions(context.profileId, limit);
+    const chain = (args.chain as string) || DEFAULT_CHAIN;
+    if (!isChainSupported(chain)) {
+      return {
+        error: "unsupported_chain",
+        message: `Unsupported network: ${chain}`,
+      };
+    }
+
+    const transactions = await fetchOnchainTransactions(context.profileId, limit, chain);
     
     if (transactions.length === 0) {
       return {
@@ -631,7 +1117,7 @@ async function getOnchainTransactionsHandler(
       token: tx.token,
       date: tx.date,
       direction: tx.direction === "in" ? "received" : "sent",
-      explorer_url: `https://basescan.org/tx/${tx.tx_hash}`,
+      explorer_url: getExplorerTxUrl(tx.tx_hash, tx.chain),
       // Add a formatted display string for easy presentation (no status shown to user)
       display: `${tx.direction === "in" ? "📥 Received" : "📤 Sent"} ${tx.amount} ${tx.token} - ${tx.date}`,
     }));
@@ -0,0 +1,329 @@
+/**
+ * @fileoverview Off-ramp provider abstraction for IBAN withdrawals.
+ * Providers quote a crypto-to-fiat conversion, give a deposit address for the
+ * user's transfer, and pay out to the bank account once the transfer is submitted.
+ * Server-side only: API routes resolve the configured provider via `getOfframpProvider`.
+ */
+
+import { CHAINS } from "./chains";
+
+/**
+ * Payout state reported by a provider after a withdrawal is submitted.
+ * @typedef {"processing" | "settled" | "returned" | "failed"} OfframpPayoutStatus
+ */
+export type OfframpPayoutStatus = "processing" | "settled" | "returned" | "failed";
+
+/**
+ * Input for requesting a quote.
+ *
+ * @interface OfframpQuoteRequest
+ * @property {string} amount - Crypto amount the user will send (e.g., "100.00")
+ * @property {string} token - Token symbol (e.g., "USDC")
+ * @property {string} chain - Network the transfer is sent on (e.g., "base")
+ * @property {string} fiatCurrency - Payout currency (e.g., "EUR")
+ * @property {string} iban - Destination IBAN, normalized
+ * @property {string} accountHolder - Name on the destination bank account
+ */
+export interface OfframpQuoteRequest {
+  amount: string;
+  token: string;
+  chain: string;
+  fiatCurrency: string;
+  iban: string;
+  accountHolder: string;
+}
+
+/**
+ * Quote returned by a provider.
+ *
+ * @interface OfframpQuote
+ * @property {string} quoteId - Provider quote identifier
+ * @property {string} depositAddress - Address the user must send the crypto amount to
+ * @property {number} fxRate - Token to fiat rate
+ * @property {number} fee - Provider fee in the payout currency
+ * @property {number} fiatAmount - Amount paid out after fees
+ * @property {string} expiresAt - ISO timestamp after which the quote cannot be submitted
+ */
+export interface OfframpQuote {
+  quoteId: string;
+  depositAddress: string;
+  fxRate: number;
+  fee: number;
+  fiatAmount: number;
+  expiresAt: string;
+}
+
+/**
+ * Payout tracked by a provider.
+ *
+ * @interface OfframpPayout
+ * @property {string} reference - Provider payout reference
+ * @property {OfframpPayoutStatus} status - Current payout state
+ * @property {string} [failureReason] - Why the payout was returned or failed
+ * @property {string} [settledAt] - ISO timestamp when the payout reached the bank
+ */
+export interface OfframpPayout {
+  reference: string;
+  status: OfframpPayoutStatus;
+  failureReason?: string;
+  settledAt?: string;
+}
+
+/**
+ * Contract every off-ramp provider implements.
+ *
+ * @interface OfframpProvider
+ * @property {string} name - Provider name stored on each withdrawal
+ * @property {Function} createQuote - Quotes a conversion and reserves a deposit address
+ * @property {Function} submitPayout - Starts the payout once the user's transfer is sent
+ * @property {Function} getPayout - Reads the current payout state
+ */
+export interface OfframpProvider {
+  name: string;
+  createQuote(request: OfframpQuoteRequest): Promise<OfframpQuote>;
+  submitPayout(quoteId: string, txHash: string): Promise<OfframpPayout>;
+  getPayout(reference: string): Promise<OfframpPayout>;
+}
+
+/**
+ * Fee schedule applied to a quote.
+ *
+ * @interface OfframpFeeSchedule
+ * @property {number} percent - Percentage fee on the converted amount (e.g., 0.5 for 0.5%)
+ * @property {number} minimum - Minimum fee in the payout currency
+ */
+export interface OfframpFeeSchedule {
+  percent: number;
+  minimum: number;
+}
+
+/**
+ * Computes the fee and payout of a conversion, rounded to cents.
+ *
+ * @param {number} amount - Crypto amount sent
+ * @param {number} fxRate - Token to fiat rate
+ * @param {OfframpFeeSchedule} fees - Fee schedule
+ * @returns {{ gross: number; fee: number; fiatAmount: number }} Converted amount, fee and payout
+ * @throws {Error} If the fee would consume the whole amount
+ *
+ * @example
+ * ```typescript
+ * calculateOfframpQuote(100, 0.92, { percent: 0.5, minimum: 1 });
+ * // => { gross: 92, fee: 1, fiatAmount: 91 }
+ * ```
+ */
+export function calculateOfframpQuote(
+  amount: number,
+  fxRate: number,
+  fees: OfframpFeeSchedule
+): { gross: number; fee: number; fiatAmount: number } {
+  const grossCents = Math.round(amount * fxRate * 100);
+  const feeCents = Math.max(
+    Math.round(fees.minimum * 100),
+    Math.round((grossCents * fees.percent) / 100)
+  );
+
+  if (feeCents >= grossCents) {
+    throw new Error("Amount is too small to cover the withdrawal fee");
+  }
+
+  return {
+    gross: grossCents / 100,
+    fee: feeCents / 100,
+    fiatAmount: (grossCents - feeCents) / 100,
+  };
+}
+
+/**
+ * Options for the in-memory mock provider.
+ *
+ * @interface MockOfframpOptions
+ * @property {Record<string, number>} [rates] - Token to fiat rate per currency
+ * @property {OfframpFeeSchedule} [fees] - Fee schedule
+ * @property {number} [minimumAmount] - Smallest crypto amount accepted
+ * @property {number} [quoteTtlMs] - How long a quote stays valid
+ * @property {number} [settleAfterMs] - Delay between submission and settlement
+ * @property {string[]} [chains] - Networks quotes are accepted on, testnets of the registry by default
+ * @property {() => number} [now] - Clock, overridable in tests
+ */
+export interface MockOfframpOptions {
+  rates?: Record<string, number>;
+  fees?: OfframpFeeSchedule;
+  minimumAmount?: number;
+  quoteTtlMs?: number;
+  settleAfterMs?: number;
+  chains?: string[];
+  now?: () => number;
+}
+
+/**
+ * Deposit address used by the mock provider. Funds sent here are not recoverable,
+ * so the mock only quotes transfers on testnets.
+ * @constant {string}
+ */
+export const MOCK_OFFRAMP_DEPOSIT_ADDRESS = "0x000000000000000000000000000000000000dEaD";
+
+/**
+ * Creates an in-memory off-ramp provider that walks withdrawals through the
+ * full lifecycle locally: quotes expire, submitted payouts stay processing for
+ * `settleAfterMs` and then settle. Payouts to account holders whose name
+ * contains "return" are returned by the mock bank, to exercise that path.
+ * Quotes on mainnet networks are refused, since the deposit address burns funds.
+ *
+ * @param {MockOfframpOptions} [options] - Mock configuration
+ * @returns {OfframpProvider} Mock provider
+ *
+ * @example
+ * ```typescript
+ * const provider = createMockOfframpProvider({ settleAfterMs: 0, chains: ["base"] });
+ * const quote = await provider.createQuote({ amount: "100", token: "USDC", chain: "base", fiatCurrency: "EUR", iban, accountHolder: "Jane Doe" });
+ * const payout = await provider.submitPayout(quote.quoteId, "0xabc...");
+ * await provider.getPayout(payout.reference); // => { status: "settled", ... }
+ * ```
+ */
+export function createMockOfframpProvider(
+  options: MockOfframpOptions = {}
+): OfframpProvider {
+  const rates = options.rates ?? { EUR: 0.92, USD: 1 };
+  const fees = options.fees ?? { percent: 0.5, minimum: 1 };
+  const minimumAmount = options.minimumAmount ?? 5;
+  const quoteTtlMs = options.quoteTtlMs ?? 10 * 60 * 1000;
+  const settleAfterMs = options.settleAfterMs ?? 30 * 1000;
+  const chains =
+    options.chains ??
+    Object.values(CHAINS)
+      .filter((config) => config.chain.testnet)
+      .map((config) => config.name);
+  const now = options.now ?? Date.now;
+
+  const quotes = new Map<
+    string,
+    OfframpQuote & { request: OfframpQuoteRequest; reference: string | null }
+  >();
+  const payouts = new Map<
+    string,
+    { quoteId: string; txHash: string; submittedAt: number; returned: boolean }
+  >();
+  let sequence = 0;
+
+  return {
+    name: "mock",
+
+    async createQuote(request) {
+      if (!chains.includes(request.chain)) {
+        throw new Error(
+          `The mock off-ramp does not accept transfers on ${request.chain}`
+        );
+      }
+
+      const amount = parseFloat(request.amount);
+      if (isNaN(amount) || amount < minimumAmount) {
+        throw new Error(
+          `Amount is below the minimum withdrawal of ${minimumAmount} ${request.token}`
+        );
+      }
+
+      const fxRate = rates[request.fiatCurrency];
+      if (!fxRate) {
+        throw new Error(`Payouts in ${request.fiatCurrency} are not supported`);
+      }
+
+      const { fee, fiatAmount } = calculateOfframpQuote(amount, fxRate, fees);
+      const quote: OfframpQuote = {
+        quoteId: `mock_quote_${++sequence}`,
+        depositAddress: MOCK_OFFRAMP_DEPOSIT_ADDRESS,
+        fxRate,
+        fee,
+        fiatAmount,
+        expiresAt: new Date(now() + quoteTtlMs).toISOString(),
+      };
+
+      quotes.set(quote.quoteId, { ...quote, request, reference: null });
+      return quote;
+    },
+
+    async submitPayout(quoteId, txHash) {
+      const quote = quotes.get(quoteId);
+      if (!quote) {
+        throw new Error("Quote not found");
+      }
+      if (quote.reference) {
+        throw new Error("Quote has already been submitted");
+      }
+      if (new Date(quote.expiresAt).getTime() <= now()) {
+        throw new Error("Quote has expired");
+      }
+
+      const reference = `mock_payout_${++sequence}`;
+      quote.reference = reference;
+      payouts.set(reference, {
+        quoteId,
+        txHash,
+        submittedAt: now(),
+        returned: /return/i.test(quote.request.accountHolder),
+      });
+
+      return { reference, status: "processing" };
+    },
+
+    async getPayout(reference) {
+      const payout = payouts.get(reference);
+      if (!payout) {
+        throw new Error("Payout not found");
+      }
+
+      const completedAt = payout.submittedAt + settleAfterMs;
+      if (now() < completedAt) {
+        return { reference, status: "processing" };
+      }
+
+      if (payout.returned) {
+        return {
+          reference,
+          status: "returned",
+          failureReason: "Beneficiary bank rejected the transfer",
+        };
+      }
+
+      return {
+        reference,
+        status: "settled",
+        settledAt: new Date(completedAt).toISOString(),
+      };
+    },
+  };
+}
+
+let offrampProvider: OfframpProvider | null = null;
+
+/**
+ * Returns the configured off-ramp provider.
+ * `OFFRAMP_PROVIDER` selects the implementation and must be set; only "mock"
+ * ships today, and it is refused in production.
+ * The instance is cached so the mock keeps its state between requests.
+ *
+ * @returns {OfframpProvider} Provider instance
+ * @throws {Error} If `OFFRAMP_PROVIDER` is unset, unknown, or "mock" in production
+ */
+export function getOfframpProvider(): OfframpProvider {
+  if (offrampProvider) {
+    return offrampProvider;
+  }
+
+  const name = process.env.OFFRAMP_PROVIDER;
+  switch (name) {
+    case undefined:
+    case "":
+      throw new Error("OFFRAMP_PROVIDER is not configured");
+    case "mock":
+      if (process.env.NODE_ENV === "production") {
+        throw new Error("The mock off-ramp provider cannot be used in production");
+      }
+      offrampProvider = createMockOfframpProvider();
+      break;
+    default:
+      throw new Error(`Unknown off-ramp provider: ${name}`);
+  }
+
+  return offrampProvider;
+}
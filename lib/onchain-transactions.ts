@@ -1,13 +1,15 @@
 /**
- * @fileoverview Onchain transaction fetching via Basescan API.
- * Provides functions to fetch transaction history directly from the Base blockchain.
+ * @fileoverview Onchain transaction fetching via the Etherscan v2 multichain API.
+ * Provides functions to fetch transaction history directly from any registry network.
+ * Explorer links live in the chain registry (`getExplorerTxUrl`, `getExplorerAddressUrl`).
  */
 
 import { supabase } from "./supabase";
 import { getAddress } from "viem";
+import { DEFAULT_CHAIN, requireChain } from "./chains";
 
 /**
- * Onchain transaction data from Basescan API.
+ * Onchain transaction data from the Etherscan v2 API.
  */
 export interface OnchainTransaction {
   hash: string;
@@ -33,20 +35,22 @@ export interface FormattedOnchainTransaction {
   date: string;
   direction: "in" | "out";
   status: "confirmed" | "failed";
+  chain: string;
 }
 
 /**
- * Fetches onchain transactions for a user's primary account address.
- * Uses Basescan API to get normal ETH transactions and all ERC20 token transfers.
+ * Fetches onchain transactions for a user's primary account address on one network.
+ * Uses the Etherscan v2 API to get normal native transactions and all ERC20 token transfers.
  * 
  * @param {string} profileId - User profile ID
  * @param {number} [limit=5] - Number of transactions to return (default: 5)
+ * @param {string} [chain="base"] - Network name from the chain registry
  * @returns {Promise<FormattedOnchainTransaction[]>} Array of formatted transactions
- * @throws {Error} If API call fails or account not found
+ * @throws {Error} If API call fails, the network is unsupported or account not found
  * 
  * @example
  * ```typescript
- * const txs = await fetchOnchainTransactions(profileId, 5);
+ * const txs = await fetchOnchainTransactions(profileId, 5, "arbitrum");
  * txs.forEach(tx => {
  *   console.log(`${tx.direction}: ${tx.amount} ${tx.token} - ${tx.date}`);
  * });
@@ -54,9 +58,12 @@ export interface FormattedOnchainTransaction {
  */
 export async function fetchOnchainTransactions(
   profileId: string,
-  limit: number = 5
+  limit: number = 5,
+  chain: string = DEFAULT_CHAIN
 ): Promise<FormattedOnchainTransaction[]> {
   try {
+    const network = requireChain(chain);
+
     // Get user's primary account address - try primary first, fallback to any active account
     const { data: primaryAccount, error: primaryError } = await supabase
       .from("accounts")
@@ -64,26 +71,26 @@ export async function fetchOnchainTransactions(
       .eq("profile_id", profileId)
       .eq("is_primary", true)
       .eq("status", "active")
-      .eq("network", "base")
+      .eq("network", network.name)
       .single();
 
     let account = primaryAccount;
 
-    // Fallback: try to get any active Base account if primary not found
+    // Fallback: try to get any active account on the network if primary not found
     if (primaryError || !account) {
-      console.log("[fetchOnchainTransactions] Primary account not found, trying any Base account");
+      console.log(`[fetchOnchainTransactions] Primary account not found, trying any ${network.label} account`);
       const { data: anyAccount, error: anyError } = await supabase
         .from("accounts")
         .select("address, name, network")
         .eq("profile_id", profileId)
         .eq("status", "active")
-        .eq("network", "base")
+        .eq("network", network.name)
         .limit(1)
         .single();
       
       if (anyError || !anyAccount) {
-        console.error("[fetchOnchainTransactions] No Base accounts found for profile:", profileId);
-        throw new Error("No Base account found for this profile. Please connect a wallet first.");
+        console.error(`[fetchOnchainTransactions] No ${network.label} accounts found for profile:`, profileId);
+        throw new Error(`No ${network.label} account found for this profile. Please connect a wallet first.`);
       }
       
       account = anyAccount;
@@ -102,13 +109,13 @@ export async function fetchOnchainTransactions(
 
     console.log(`[fetchOnchainTransactions] Using account: ${account.name || 'Unknown'} (${address}) on ${account.network}`);
 
-    // Use Etherscan v2 API with chainid for Base (chainid=8453)
+    // Etherscan v2 API serves every registry network, selected by chainid
     const apiKey = process.env.ETHERSCAN_API_KEY || "YourApiKeyToken";
     const baseUrl = "https://api.etherscan.io/v2/api";
-    const chainId = 8453; // Base mainnet chain ID
+    const chainId = network.chain.id;
 
     console.log(`[fetchOnchainTransactions] Fetching onchain transactions for address: ${address}`);
-    console.log(`[fetchOnchainTransactions] Using Etherscan v2 API for Base (chainId: ${chainId})`);
+    console.log(`[fetchOnchainTransactions] Using Etherscan v2 API for ${network.label} (chainId: ${chainId})`);
 
     // Fetch both normal ETH transactions and all ERC20 token transfers in parallel
     const [normalTxResponse, tokenTxResponse] = await Promise.all([
@@ -128,7 +135,7 @@ export async function fetchOnchainTransactions(
     });
 
     if (!normalTxResponse.ok || !tokenTxResponse.ok) {
-      throw new Error(`Basescan API error: ${normalTxResponse.status}`);
+      throw new Error(`${network.explorerName} API error: ${normalTxResponse.status}`);
     }
 
     const [normalTxData, tokenTxData] = await Promise.all([
@@ -149,7 +156,7 @@ export async function fetchOnchainTransactions(
 
     const allTransactions: FormattedOnchainTransaction[] = [];
 
-    // Process normal ETH transactions
+    // Process normal native-asset transactions
     if (normalTxData.status === "1" && normalTxData.result) {
       const normalTxs: Array<{
         hash: string;
@@ -162,7 +169,7 @@ export async function fetchOnchainTransactions(
 
       normalTxs.forEach((tx) => {
         const isIncoming = tx.to.toLowerCase() === address.toLowerCase();
-        const value = parseFloat(tx.value) / 1e18; // ETH has 18 decimals
+        const value = parseFloat(tx.value) / 1e18; // Native assets have 18 decimals
 
         // Only include transactions with value > 0
         if (value > 0) {
@@ -171,10 +178,11 @@ export async function fetchOnchainTransactions(
             from: tx.from,
             to: tx.to,
             amount: value.toFixed(6),
-            token: "ETH",
+            token: network.chain.nativeCurrency.symbol,
             date: new Date(parseInt(tx.timeStamp) * 1000).toLocaleDateString(),
             direction: isIncoming ? "in" : "out",
             status: tx.isError === "0" ? "confirmed" : "failed",
+            chain: network.name,
           });
         }
       });
@@ -198,6 +206,7 @@ export async function fetchOnchainTransactions(
           date: new Date(parseInt(tx.timeStamp) * 1000).toLocaleDateString(),
           direction: isIncoming ? "in" : "out",
           status: tx.isError === "0" ? "confirmed" : "failed",
+          chain: network.name,
         });
       });
     }
@@ -219,23 +228,3 @@ export async function fetchOnchainTransactions(
     throw error;
   }
 }
-
-/**
- * Gets the Base explorer URL for an address.
- * 
- * @param {string} address - Wallet address
- * @returns {string} Base explorer URL
- */
-export function getBasescanAddressUrl(address: string): string {
-  return `https://basescan.org/address/${address}`;
-}
-
-/**
- * Gets the Base explorer URL for a transaction.
- * 
- * @param {string} txHash - Transaction hash
- * @returns {string} Base explorer URL
- */
-export function getBasescanTxUrl(txHash: string): string {
-  return `https://basescan.org/tx/${txHash}`;
-}
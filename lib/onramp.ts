@@ -0,0 +1,443 @@
+/**
+ * @fileoverview On-ramp provider abstraction for card wallet deposits.
+ * Providers quote a fiat-to-crypto purchase, host a checkout widget where the
+ * user pays with Google Pay or Apple Pay, and report the outcome through a
+ * signed webhook. Server-side only: API routes resolve the configured provider
+ * via `getOnrampProvider`.
+ */
+
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+
+/**
+ * Payment methods the on-ramp accepts. Matches the ids on /deposit/method.
+ * @typedef {"google-pay" | "apple-pay"} OnrampPaymentMethod
+ */
+export type OnrampPaymentMethod = "google-pay" | "apple-pay";
+
+/**
+ * Supported payment methods with their display labels.
+ * @constant {Record<OnrampPaymentMethod, string>}
+ */
+export const ONRAMP_PAYMENT_METHODS: Record<OnrampPaymentMethod, string> = {
+  "google-pay": "Google Pay",
+  "apple-pay": "Apple Pay",
+};
+
+/**
+ * Checks whether a value is a supported on-ramp payment method.
+ *
+ * @param {string} method - Payment method id
+ * @returns {boolean} True for "google-pay" and "apple-pay"
+ */
+export function isOnrampPaymentMethod(
+  method: string
+): method is OnrampPaymentMethod {
+  return method in ONRAMP_PAYMENT_METHODS;
+}
+
+/**
+ * Order state reported by a provider webhook.
+ * @typedef {"processing" | "completed" | "failed"} OnrampOrderStatus
+ */
+export type OnrampOrderStatus = "processing" | "completed" | "failed";
+
+/**
+ * Input for requesting a quote.
+ *
+ * @interface OnrampQuoteRequest
+ * @property {string} fiatAmount - Amount the user pays (e.g., "100.00")
+ * @property {string} fiatCurrency - Currency the user pays in (e.g., "EUR")
+ * @property {string} token - Token symbol delivered (e.g., "USDC")
+ * @property {string} chain - Network the tokens are delivered on (e.g., "base")
+ * @property {OnrampPaymentMethod} paymentMethod - Wallet the user pays with
+ */
+export interface OnrampQuoteRequest {
+  fiatAmount: string;
+  fiatCurrency: string;
+  token: string;
+  chain: string;
+  paymentMethod: OnrampPaymentMethod;
+}
+
+/**
+ * Quote returned by a provider.
+ *
+ * @interface OnrampQuote
+ * @property {string} quoteId - Provider quote identifier
+ * @property {number} fxRate - Fiat price of one token
+ * @property {number} fee - Provider fee in the payment currency
+ * @property {number} cryptoAmount - Tokens delivered after fees
+ * @property {string} expiresAt - ISO timestamp after which the quote cannot be checked out
+ */
+export interface OnrampQuote {
+  quoteId: string;
+  fxRate: number;
+  fee: number;
+  cryptoAmount: number;
+  expiresAt: string;
+}
+
+/**
+ * Order opened at the provider for a quote.
+ *
+ * @interface OnrampOrderRequest
+ * @property {string} orderId - Our deposit order ID, echoed back in webhooks
+ * @property {string} walletAddress - Address the tokens are delivered to
+ */
+export interface OnrampOrderRequest {
+  orderId: string;
+  walletAddress: string;
+}
+
+/**
+ * Checkout handed back by a provider.
+ *
+ * @interface OnrampCheckout
+ * @property {string} reference - Provider order reference
+ * @property {string} widgetUrl - Provider checkout URL the user is redirected to
+ */
+export interface OnrampCheckout {
+  reference: string;
+  widgetUrl: string;
+}
+
+/**
+ * Order update delivered by a provider webhook.
+ *
+ * @interface OnrampWebhookEvent
+ * @property {string} reference - Provider order reference
+ * @property {OnrampOrderStatus} status - New order state
+ * @property {number} [cryptoAmount] - Tokens delivered, once completed
+ * @property {string} [txHash] - Hash of the delivery transaction, once completed
+ * @property {string} [failureReason] - Why the payment failed
+ */
+export interface OnrampWebhookEvent {
+  reference: string;
+  status: OnrampOrderStatus;
+  cryptoAmount?: number;
+  txHash?: string;
+  failureReason?: string;
+}
+
+/**
+ * Contract every on-ramp provider implements.
+ *
+ * @interface OnrampProvider
+ * @property {string} name - Provider name stored on each deposit order
+ * @property {Function} createQuote - Quotes a purchase
+ * @property {Function} createOrder - Opens a checkout for a quote
+ * @property {Function} parseWebhook - Verifies a webhook signature and parses its event
+ */
+export interface OnrampProvider {
+  name: string;
+  createQuote(request: OnrampQuoteRequest): Promise<OnrampQuote>;
+  createOrder(
+    quoteId: string,
+    order: OnrampOrderRequest
+  ): Promise<OnrampCheckout>;
+  parseWebhook(rawBody: string, signature: string | null): OnrampWebhookEvent;
+}
+
+/**
+ * Header carrying the HMAC-SHA256 signature of a webhook body.
+ * @constant {string}
+ */
+export const ONRAMP_SIGNATURE_HEADER = "x-onramp-signature";
+
+/**
+ * Signs a webhook body with HMAC-SHA256.
+ *
+ * @param {string} rawBody - Raw request body
+ * @param {string} secret - Shared webhook secret
+ * @returns {string} Hex signature
+ */
+export function signOnrampWebhook(rawBody: string, secret: string): string {
+  return createHmac("sha256", secret).update(rawBody).digest("hex");
+}
+
+/**
+ * Checks a webhook signature in constant time.
+ *
+ * @param {string} rawBody - Raw request body
+ * @param {string | null} signature - Signature from the request header
+ * @param {string} secret - Shared webhook secret
+ * @returns {boolean} True if the signature matches the body
+ */
+export function verifyOnrampWebhook(
+  rawBody: string,
+  signature: string | null,
+  secret: string
+): boolean {
+  if (!signature) {
+    return false;
+  }
+
+  const expected = Buffer.from(signOnrampWebhook(rawBody, secret), "hex");
+  const received = Buffer.from(signature, "hex");
+  return (
+    expected.length === received.length && timingSafeEqual(expected, received)
+  );
+}
+
+/**
+ * Fee schedule applied to a quote.
+ *
+ * @interface OnrampFeeSchedule
+ * @property {number} percent - Percentage fee on the paid amount (e.g., 1.5 for 1.5%)
+ * @property {number} minimum - Minimum fee in the payment currency
+ */
+export interface OnrampFeeSchedule {
+  percent: number;
+  minimum: number;
+}
+
+/**
+ * Computes the fee and the tokens delivered for a purchase.
+ * The fee is rounded to cents; the token amount is rounded down to cents so
+ * the user is never quoted more than the provider will deliver.
+ *
+ * @param {number} fiatAmount - Amount paid
+ * @param {number} fxRate - Fiat price of one token
+ * @param {OnrampFeeSchedule} fees - Fee schedule
+ * @returns {{ fee: number; cryptoAmount: number }} Fee and tokens delivered
+ * @throws {Error} If the fee would consume the whole amount
+ *
+ * @example
+ * ```typescript
+ * calculateOnrampQuote(100, 0.92, { percent: 1.5, minimum: 1 });
+ * // => { fee: 1.5, cryptoAmount: 107.06 }
+ * ```
+ */
+export function calculateOnrampQuote(
+  fiatAmount: number,
+  fxRate: number,
+  fees: OnrampFeeSchedule
+): { fee: number; cryptoAmount: number } {
+  const amountCents = Math.round(fiatAmount * 100);
+  const feeCents = Math.max(
+    Math.round(fees.minimum * 100),
+    Math.round((amountCents * fees.percent) / 100)
+  );
+
+  if (feeCents >= amountCents) {
+    throw new Error("Amount is too small to cover the deposit fee");
+  }
+
+  return {
+    fee: feeCents / 100,
+    cryptoAmount: Math.floor((amountCents - feeCents) / fxRate) / 100,
+  };
+}
+
+/**
+ * Options for the in-memory mock provider.
+ *
+ * @interface MockOnrampOptions
+ * @property {Record<string, number>} [rates] - Fiat price of one token per currency
+ * @property {OnrampFeeSchedule} [fees] - Fee schedule
+ * @property {number} [minimumAmount] - Smallest fiat amount accepted
+ * @property {number} [quoteTtlMs] - How long a quote stays valid
+ * @property {string} webhookSecret - Secret used to sign and verify webhooks
+ * @property {() => number} [now] - Clock, overridable in tests
+ */
+export interface MockOnrampOptions {
+  rates?: Record<string, number>;
+  fees?: OnrampFeeSchedule;
+  minimumAmount?: number;
+  quoteTtlMs?: number;
+  webhookSecret: string;
+  now?: () => number;
+}
+
+/**
+ * Mock provider, which can also play the part of the payment processor.
+ *
+ * @interface MockOnrampProvider
+ * @property {Function} simulatePayment - Builds the signed webhook the provider would send once the user pays or declines
+ */
+export interface MockOnrampProvider extends OnrampProvider {
+  simulatePayment(
+    reference: string,
+    outcome: "completed" | "failed"
+  ): { body: string; signature: string };
+}
+
+/**
+ * Creates an in-memory on-ramp provider for local development.
+ * Its checkout "widget" is the local /deposit/checkout/[id] page, and
+ * `simulatePayment` produces the signed webhook a real processor would send.
+ * No tokens move onchain: completed orders carry a deterministic fake hash.
+ *
+ * @param {MockOnrampOptions} options - Mock configuration
+ * @returns {MockOnrampProvider} Mock provider
+ *
+ * @example
+ * ```typescript
+ * const provider = createMockOnrampProvider({ webhookSecret: "local-secret" });
+ * const quote = await provider.createQuote({ fiatAmount: "100", fiatCurrency: "EUR", token: "USDC", chain: "base", paymentMethod: "google-pay" });
+ * const checkout = await provider.createOrder(quote.quoteId, { orderId, walletAddress });
+ * const { body, signature } = provider.simulatePayment(checkout.reference, "completed");
+ * provider.parseWebhook(body, signature); // => { status: "completed", ... }
+ * ```
+ */
+export function createMockOnrampProvider(
+  options: MockOnrampOptions
+): MockOnrampProvider {
+  const rates = options.rates ?? { EUR: 0.92, USD: 1 };
+  const fees = options.fees ?? { percent: 1.5, minimum: 1 };
+  const minimumAmount = options.minimumAmount ?? 10;
+  const quoteTtlMs = options.quoteTtlMs ?? 10 * 60 * 1000;
+  const webhookSecret = options.webhookSecret;
+  const now = options.now ?? Date.now;
+
+  const quotes = new Map<
+    string,
+    OnrampQuote & { request: OnrampQuoteRequest; reference: string | null }
+  >();
+  const orders = new Map<
+    string,
+    { quoteId: string; orderId: string; status: OnrampOrderStatus | "open" }
+  >();
+  let sequence = 0;
+
+  return {
+    name: "mock",
+
+    async createQuote(request) {
+      const fiatAmount = parseFloat(request.fiatAmount);
+      if (isNaN(fiatAmount) || fiatAmount < minimumAmount) {
+        throw new Error(
+          `Amount is below the minimum deposit of ${minimumAmount} ${request.fiatCurrency}`
+        );
+      }
+
+      const fxRate = rates[request.fiatCurrency];
+      if (!fxRate) {
+        throw new Error(`Payments in ${request.fiatCurrency} are not supported`);
+      }
+
+      const { fee, cryptoAmount } = calculateOnrampQuote(fiatAmount, fxRate, fees);
+      const quote: OnrampQuote = {
+        quoteId: `mock_onramp_quote_${++sequence}`,
+        fxRate,
+        fee,
+        cryptoAmount,
+        expiresAt: new Date(now() + quoteTtlMs).toISOString(),
+      };
+
+      quotes.set(quote.quoteId, { ...quote, request, reference: null });
+      return quote;
+    },
+
+    async createOrder(quoteId, order) {
+      const quote = quotes.get(quoteId);
+      if (!quote) {
+        throw new Error("Quote not found");
+      }
+      if (quote.reference) {
+        throw new Error("Quote has already been checked out");
+      }
+      if (new Date(quote.expiresAt).getTime() <= now()) {
+        throw new Error("Quote has expired");
+      }
+
+      const reference = `mock_onramp_order_${++sequence}`;
+      quote.reference = reference;
+      orders.set(reference, { quoteId, orderId: order.orderId, status: "open" });
+
+      return {
+        reference,
+        widgetUrl: `/deposit/checkout/${order.orderId}?reference=${reference}`,
+      };
+    },
+
+    parseWebhook(rawBody, signature) {
+      if (!verifyOnrampWebhook(rawBody, signature, webhookSecret)) {
+        throw new Error("Invalid webhook signature");
+      }
+      return JSON.parse(rawBody) as OnrampWebhookEvent;
+    },
+
+    simulatePayment(reference, outcome) {
+      const order = orders.get(reference);
+      if (!order) {
+        throw new Error("Order not found");
+      }
+      if (order.status !== "open") {
+        throw new Error(`Order is already ${order.status}`);
+      }
+
+      order.status = outcome;
+      const quote = quotes.get(order.quoteId)!;
+      const event: OnrampWebhookEvent =
+        outcome === "completed"
+          ? {
+              reference,
+              status: "completed",
+              cryptoAmount: quote.cryptoAmount,
+              txHash: `0x${createHash("sha256").update(reference).digest("hex")}`,
+            }
+          : {
+              reference,
+              status: "failed",
+              failureReason: "Payment was declined",
+            };
+
+      const body = JSON.stringify(event);
+      return { body, signature: signOnrampWebhook(body, webhookSecret) };
+    },
+  };
+}
+
+/**
+ * Checks whether a provider is the mock, which can simulate payments.
+ *
+ * @param {OnrampProvider} provider - Provider instance
+ * @returns {boolean} True for the mock provider
+ */
+export function isMockOnrampProvider(
+  provider: OnrampProvider
+): provider is MockOnrampProvider {
+  return "simulatePayment" in provider;
+}
+
+let onrampProvider: OnrampProvider | null = null;
+
+/**
+ * Returns the configured on-ramp provider.
+ * `ONRAMP_PROVIDER` selects the implementation and must be set; only "mock"
+ * ships today, and it is refused in production. Webhooks are verified with
+ * `ONRAMP_WEBHOOK_SECRET`, which must be set too, so unsigned or forged
+ * events are never accepted.
+ * The instance is cached so the mock keeps its state between requests.
+ *
+ * @returns {OnrampProvider} Provider instance
+ * @throws {Error} If `ONRAMP_PROVIDER` or `ONRAMP_WEBHOOK_SECRET` is unset, the provider is unknown, or "mock" in production
+ */
+export function getOnrampProvider(): OnrampProvider {
+  if (onrampProvider) {
+    return onrampProvider;
+  }
+
+  const name = process.env.ONRAMP_PROVIDER;
+  const webhookSecret = process.env.ONRAMP_WEBHOOK_SECRET;
+  if (!name) {
+    throw new Error("ONRAMP_PROVIDER is not configured");
+  }
+  if (!webhookSecret) {
+    throw new Error("ONRAMP_WEBHOOK_SECRET is not configured");
+  }
+
+  switch (name) {
+    case "mock":
+      if (process.env.NODE_ENV === "production") {
+        throw new Error("The mock on-ramp provider cannot be used in production");
+      }
+      onrampProvider = createMockOnrampProvider({ webhookSecret });
+      break;
+    default:
+      throw new Error(`Unknown on-ramp provider: ${name}`);
+  }
+
+  return onrampProvider;
+}
@@ -0,0 +1,522 @@
+/**
+ * @fileoverview Payment requests and split bills between Banb profiles.
+ * A requester asks another profile for money; the payer settles the request
+ * through the regular review/status payment flow. Split bills divide a total
+ * across several friends and create one request per participant.
+ */
+
+import {
+  supabase,
+  type PaymentRequest,
+  type PaymentSplit,
+  type Recipient,
+} from "./supabase";
+import { addRecipient } from "./recipients";
+
+// Re-export types for convenience
+export type { PaymentRequest, PaymentSplit };
+
+/**
+ * Number of days a request stays payable when no expiry is given.
+ */
+export const DEFAULT_REQUEST_EXPIRY_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Data required to request money from another profile.
+ */
+export interface CreatePaymentRequestData {
+  requester_profile_id: string;
+  payer_profile_id: string;
+  amount: string;
+  token?: string;
+  chain?: string;
+  note?: string | null;
+  expires_in_days?: number;
+}
+
+/**
+ * A participant's share of a split bill.
+ */
+export interface SplitShare {
+  profile_id: string;
+  amount: string;
+}
+
+/**
+ * Data required to split a bill. Shares only list the participants being
+ * asked to pay; the creator's own share is not requested.
+ */
+export interface CreatePaymentSplitData {
+  profile_id: string;
+  title: string;
+  total_amount: string;
+  token?: string;
+  split_mode: "even" | "custom";
+  shares: SplitShare[];
+  expires_in_days?: number;
+}
+
+/**
+ * Converts a decimal amount string to integer cents.
+ *
+ * @private
+ */
+function toCents(amount: string): number {
+  return Math.round(parseFloat(amount) * 100);
+}
+
+/**
+ * Divides an amount evenly into a number of shares. Leftover cents go to the
+ * first shares so the parts always add up to the total.
+ *
+ * @param {string} total - Amount to divide (e.g., "100.00")
+ * @param {number} count - Number of shares
+ * @returns {string[]} Shares with two decimals
+ * @throws {Error} If the total or count is invalid
+ *
+ * @example
+ * ```typescript
+ * splitAmountEvenly("100", 3);
+ * // => ["33.34", "33.33", "33.33"]
+ * ```
+ */
+export function splitAmountEvenly(total: string, count: number): string[] {
+  const totalCents = toCents(total);
+  if (isNaN(totalCents) || totalCents <= 0) {
+    throw new Error("Total must be greater than zero");
+  }
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error("Split needs at least one participant");
+  }
+
+  const base = Math.floor(totalCents / count);
+  const remainder = totalCents - base * count;
+
+  return Array.from({ length: count }, (_, i) =>
+    ((base + (i < remainder ? 1 : 0)) / 100).toFixed(2)
+  );
+}
+
+/**
+ * Checks custom shares against the bill total. Custom shares may leave part
+ * of the total to the creator but may never exceed it.
+ *
+ * @param {string} total - Bill total
+ * @param {string[]} shares - Amounts requested from each participant
+ * @returns {string | null} Error message, or null if the shares are valid
+ */
+export function validateCustomShares(
+  total: string,
+  shares: string[]
+): string | null {
+  const totalCents = toCents(total);
+  if (isNaN(totalCents) || totalCents <= 0) {
+    return "Total must be greater than zero";
+  }
+
+  let sum = 0;
+  for (const share of shares) {
+    const cents = toCents(share);
+    if (isNaN(cents) || cents <= 0) {
+      return "Each share must be greater than zero";
+    }
+    sum += cents;
+  }
+
+  if (sum > totalCents) {
+    return "Shares add up to more than the total";
+  }
+
+  return null;
+}
+
+/**
+ * Checks whether a request can still be paid.
+ *
+ * @param {PaymentRequest} request - Payment request
+ * @param {Date} [now] - Reference time, defaults to the current time
+ * @returns {boolean} True if the request is open and not past its expiry
+ */
+export function isPaymentRequestPayable(
+  request: Pick<PaymentRequest, "status" | "expires_at">,
+  now: Date = new Date()
+): boolean {
+  return (
+    request.status === "requested" &&
+    new Date(request.expires_at).getTime() > now.getTime()
+  );
+}
+
+/**
+ * Marks open requests past their expiry as expired.
+ *
+ * @private
+ */
+async function expireOverdueRequests(
+  column: "requester_profile_id" | "payer_profile_id",
+  profileId: string
+): Promise<void> {
+  const { error } = await supabase
+    .from("payment_requests")
+    .update({ status: "expired", updated_at: new Date().toISOString() })
+    .eq(column, profileId)
+    .eq("status", "requested")
+    .lte("expires_at", new Date().toISOString());
+
+  if (error) {
+    console.error("[PaymentRequests] Failed to expire requests:", error);
+  }
+}
+
+/**
+ * Returns the expiry timestamp for a new request.
+ *
+ * @private
+ */
+function expiryFromNow(days: number = DEFAULT_REQUEST_EXPIRY_DAYS): string {
+  return new Date(Date.now() + days * DAY_MS).toISOString();
+}
+
+/**
+ * Creates a request for money from another profile.
+ *
+ * @async
+ * @param {CreatePaymentRequestData} data - Request data
+ * @returns {Promise<PaymentRequest>} Created request
+ * @throws {Error} If validation or database operation fails
+ *
+ * @example
+ * ```typescript
+ * await createPaymentRequest({
+ *   requester_profile_id: currentUser.id,
+ *   payer_profile_id: friend.profile_id_link,
+ *   amount: "25.00",
+ *   note: "Concert tickets"
+ * });
+ * ```
+ */
+export async function createPaymentRequest(
+  data: CreatePaymentRequestData
+): Promise<PaymentRequest> {
+  const amount = parseFloat(data.amount);
+  if (isNaN(amount) || amount <= 0) {
+    throw new Error("Amount must be greater than zero");
+  }
+  if (data.requester_profile_id === data.payer_profile_id) {
+    throw new Error("Cannot request money from yourself");
+  }
+
+  const { data: request, error } = await supabase
+    .from("payment_requests")
+    .insert({
+      requester_profile_id: data.requester_profile_id,
+      payer_profile_id: data.payer_profile_id,
+      amount: data.amount,
+      token: data.token || "USDC",
+      chain: data.chain || "base",
+      note: data.note || null,
+      status: "requested",
+      expires_at: expiryFromNow(data.expires_in_days),
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create payment request: ${error.message}`);
+  }
+
+  return request;
+}
+
+/**
+ * Splits a bill and sends a request to every participant.
+ *
+ * @async
+ * @param {CreatePaymentSplitData} data - Split data
+ * @returns {Promise<PaymentSplit>} Created split with its requests
+ * @throws {Error} If validation or database operation fails
+ */
+export async function createPaymentSplit(
+  data: CreatePaymentSplitData
+): Promise<PaymentSplit> {
+  if (data.shares.length === 0) {
+    throw new Error("Split needs at least one participant");
+  }
+  if (data.shares.some((share) => share.profile_id === data.profile_id)) {
+    throw new Error("Cannot request money from yourself");
+  }
+
+  const sharesError = validateCustomShares(
+    data.total_amount,
+    data.shares.map((share) => share.amount)
+  );
+  if (sharesError) {
+    throw new Error(sharesError);
+  }
+
+  const token = data.token || "USDC";
+
+  const { data: split, error: splitError } = await supabase
+    .from("payment_splits")
+    .insert({
+      profile_id: data.profile_id,
+      title: data.title,
+      total_amount: data.total_amount,
+      token,
+      split_mode: data.split_mode,
+    })
+    .select()
+    .single();
+
+  if (splitError) {
+    throw new Error(`Failed to create split: ${splitError.message}`);
+  }
+
+  const expiresAt = expiryFromNow(data.expires_in_days);
+  const { data: requests, error: requestsError } = await supabase
+    .from("payment_requests")
+    .insert(
+      data.shares.map((share) => ({
+        requester_profile_id: data.profile_id,
+        payer_profile_id: share.profile_id,
+        amount: share.amount,
+        token,
+        chain: "base",
+        note: data.title,
+        status: "requested",
+        split_id: split.id,
+        expires_at: expiresAt,
+      }))
+    )
+    .select();
+
+  if (requestsError) {
+    // Don't leave an empty split behind
+    await supabase.from("payment_splits").delete().eq("id", split.id);
+    throw new Error(
+      `Failed to create split requests: ${requestsError.message}`
+    );
+  }
+
+  return { ...split, requests: requests || [] };
+}
+
+/**
+ * Retrieves a single payment request by ID.
+ *
+ * @param {string} requestId - UUID of the request
+ * @returns {Promise<PaymentRequest | null>} Request if found, null otherwise
+ * @throws {Error} If database operation fails
+ */
+export async function getPaymentRequestById(
+  requestId: string
+): Promise<PaymentRequest | null> {
+  const { data, error } = await supabase
+    .from("payment_requests")
+    .select(
+      `
+      *,
+      requester:profiles!payment_requests_requester_profile_id_fkey(name, handle)
+    `
+    )
+    .eq("id", requestId)
+    .single();
+
+  if (error) {
+    if (error.code === "PGRST116") {
+      return null; // Not found
+    }
+    throw new Error(`Failed to get payment request: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Retrieves open requests a profile has been asked to pay.
+ *
+ * @param {string} profileId - UUID of the payer
+ * @returns {Promise<PaymentRequest[]>} Open requests, oldest first
+ * @throws {Error} If database operation fails
+ */
+export async function getIncomingPaymentRequests(
+  profileId: string
+): Promise<PaymentRequest[]> {
+  await expireOverdueRequests("payer_profile_id", profileId);
+
+  const { data, error } = await supabase
+    .from("payment_requests")
+    .select(
+      `
+      *,
+      requester:profiles!payment_requests_requester_profile_id_fkey(name, handle)
+    `
+    )
+    .eq("payer_profile_id", profileId)
+    .eq("status", "requested")
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch payment requests: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+/**
+ * Retrieves requests a profile has sent, in any state.
+ *
+ * @param {string} profileId - UUID of the requester
+ * @returns {Promise<PaymentRequest[]>} Sent requests, newest first
+ * @throws {Error} If database operation fails
+ */
+export async function getOutgoingPaymentRequests(
+  profileId: string
+): Promise<PaymentRequest[]> {
+  await expireOverdueRequests("requester_profile_id", profileId);
+
+  const { data, error } = await supabase
+    .from("payment_requests")
+    .select(
+      `
+      *,
+      payer:profiles!payment_requests_payer_profile_id_fkey(name, handle)
+    `
+    )
+    .eq("requester_profile_id", profileId)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch payment requests: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+/**
+ * Retrieves a split bill with each participant's request.
+ *
+ * @param {string} splitId - UUID of the split
+ * @returns {Promise<PaymentSplit | null>} Split if found, null otherwise
+ * @throws {Error} If database operation fails
+ */
+export async function getPaymentSplitById(
+  splitId: string
+): Promise<PaymentSplit | null> {
+  const { data, error } = await supabase
+    .from("payment_splits")
+    .select(
+      `
+      *,
+      requests:payment_requests(
+        *,
+        payer:profiles!payment_requests_payer_profile_id_fkey(name, handle)
+      )
+    `
+    )
+    .eq("id", splitId)
+    .single();
+
+  if (error) {
+    if (error.code === "PGRST116") {
+      return null; // Not found
+    }
+    throw new Error(`Failed to get split: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Declines a request. Only open requests can be declined.
+ *
+ * @param {string} requestId - UUID of the request
+ * @returns {Promise<PaymentRequest>} Updated request
+ * @throws {Error} If the request is not open or the update fails
+ */
+export async function declinePaymentRequest(
+  requestId: string
+): Promise<PaymentRequest> {
+  const { data, error } = await supabase
+    .from("payment_requests")
+    .update({ status: "declined", updated_at: new Date().toISOString() })
+    .eq("id", requestId)
+    .eq("status", "requested")
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to decline payment request: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Marks a request as paid by a transaction. Called by
+ * `updateTransactionStatus` when the transaction settles, never when it is
+ * only broadcast. The reconciliation worker marks the requests of the
+ * transactions it settles with its own service role client.
+ *
+ * @param {string} requestId - UUID of the request
+ * @param {string} transactionId - UUID of the transaction that paid it
+ * @returns {Promise<PaymentRequest>} Updated request
+ * @throws {Error} If the request is not open or the update fails
+ */
+export async function markPaymentRequestPaid(
+  requestId: string,
+  transactionId: string
+): Promise<PaymentRequest> {
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from("payment_requests")
+    .update({
+      status: "paid",
+      transaction_id: transactionId,
+      paid_at: now,
+      updated_at: now,
+    })
+    .eq("id", requestId)
+    .eq("status", "requested")
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to mark payment request paid: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Finds the payer's recipient entry for the requester, adding the requester
+ * as a friend if needed, so the request can go through the regular
+ * review/status payment flow.
+ *
+ * @param {PaymentRequest} request - Request being paid
+ * @returns {Promise<Recipient>} Recipient to pay
+ * @throws {Error} If the recipient cannot be found or created
+ */
+export async function getRecipientForPaymentRequest(
+  request: PaymentRequest
+): Promise<Recipient> {
+  const { data, error } = await supabase
+    .from("recipients")
+    .select("*")
+    .eq("profile_id", request.payer_profile_id)
+    .eq("profile_id_link", request.requester_profile_id)
+    .eq("status", "active")
+    .limit(1);
+
+  if (error) {
+    throw new Error(`Failed to look up recipient: ${error.message}`);
+  }
+
+  if (data && data.length > 0) {
+    return data[0];
+  }
+
+  return addRecipient(request.payer_profile_id, request.requester_profile_id);
+}
@@ -1,6 +1,6 @@
 /**
  * @fileoverview Crypto payment execution and transaction monitoring.
- * Provides React hooks for executing USDC payments on Base chain and tracking transaction status.
+ * Provides React hooks for executing token payments on any registry network and tracking transaction status.
  * Integrates wagmi for blockchain interactions and Supabase for transaction persistence.
  */
 
@@ -9,28 +9,49 @@
 import React, { useState, useCallback } from "react";
 import {
   useAccount,
+  useBalance,
   useReadContract,
+  useReadContracts,
+  useSendTransaction,
+  useSwitchChain,
   useWaitForTransactionReceipt,
   useWriteContract,
 } from "wagmi";
-import { parseUnits } from "viem";
-import { base } from "wagmi/chains";
+import { formatUnits, parseUnits, type Abi } from "viem";
 import { createTransaction, updateTransactionStatus } from "./transactions";
 import type { Transaction } from "./supabase";
+import { CHAINS, DEFAULT_CHAIN, getChain, requireChain, type ChainName } from "./chains";
+import { getTokenAddress, getTokenChains, requireToken } from "./tokens";
 import ERC20_ABI from "./abi/ERC20.abi.json";
 
+/**
+ * Minimal Multicall3 ABI used to read native balances alongside ERC20 balances.
+ * @constant
+ */
+const MULTICALL3_ETH_BALANCE_ABI = [
+  {
+    inputs: [{ name: "addr", type: "address" }],
+    name: "getEthBalance",
+    outputs: [{ name: "balance", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
 /**
  * Data required to execute a crypto payment.
  *
  * @interface CryptoPaymentData
  * @property {string} recipientId - Recipient ID from recipients table
  * @property {string} amount - Amount to send as string (e.g., "100.50")
- * @property {string} token - Token symbol (e.g., "USDC")
- * @property {string} chain - Blockchain network (e.g., "base")
+ * @property {string} token - Token symbol from the token registry (e.g., "USDC", "EURC", "ETH")
+ * @property {string} chain - Network name from the chain registry (e.g., "base", "arbitrum")
  * @property {string} to - Recipient's wallet address
  * @property {string} sender_profile_id - Current user's profile ID (required)
- * @property {string} [tokenAddress] - Token contract address (optional, defaults to USDC)
- * @property {number} [decimals] - Token decimals (optional, defaults to 6 for USDC)
+ * @property {string} [tokenAddress] - Token contract address (optional, defaults to the registry address for `token`)
+ * @property {number} [decimals] - Token decimals (optional, defaults to the registry decimals for `token`)
+ * @property {string} [transactionId] - Existing pending transaction to confirm (e.g. queued by a schedule) instead of creating a new one
+ * @property {string} [paymentRequestId] - Payment request settled by this payment
  */
 export interface CryptoPaymentData {
   recipientId: string;
@@ -41,6 +62,8 @@ export interface CryptoPaymentData {
   sender_profile_id: string;
   tokenAddress?: string;
   decimals?: number;
+  transactionId?: string;
+  paymentRequestId?: string;
 }
 
 /**
@@ -57,18 +80,6 @@ export interface CryptoPaymentResult {
   status: "pending" | "sent" | "success" | "failed";
 }
 
-/**
- * USDC contract address on Base mainnet.
- * @constant {string}
- */
-const USDC_BASE_ADDRESS = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
-
-/**
- * USDC token decimals (6 decimals).
- * @constant {number}
- */
-const USDC_DECIMALS = 6;
-
 /**
  * React hook for executing crypto payments.
  * Handles the complete payment flow: database record creation, blockchain transaction,
@@ -113,7 +124,12 @@ export function useCryptoPayment() {
   const [error, setError] = useState<string | null>(null);
   const [transactionId, setTransactionId] = useState<string | null>(null);
 
-  const { address: userAddress } = useAccount();
+  const [activeChainId, setActiveChainId] = useState<number>(
+    CHAINS[DEFAULT_CHAIN].chain.id
+  );
+
+  const { address: userAddress, chainId: walletChainId } = useAccount();
+  const { switchChainAsync } = useSwitchChain();
 
   const {
     data: txHash,
@@ -122,11 +138,19 @@ export function useCryptoPayment() {
     error: writeError,
   } = useWriteContract();
 
+  const {
+    data: nativeTxHash,
+    sendTransactionAsync,
+    isPending: isSendPending,
+    error: sendError,
+  } = useSendTransaction();
+
   const { isLoading: isConfirming, isSuccess: isConfirmed } =
     useWaitForTransactionReceipt({
-      hash: txHash,
+      hash: txHash || nativeTxHash,
+      chainId: activeChainId,
       query: {
-        enabled: !!txHash,
+        enabled: !!(txHash || nativeTxHash),
       },
     });
 
@@ -159,33 +183,70 @@ export function useCryptoPayment() {
       setError(null);
 
       try {
-        // 1. Create transaction record in Supabase with pending status
-        const transaction = await createTransaction({
-          sender_profile_id: data.sender_profile_id,
-          recipient_id: data.recipientId,
-          chain: data.chain,
-          amount: data.amount,
-          token: data.token,
-        });
+        // 0. Make sure the wallet is on the payment's network
+        const network = requireChain(data.chain);
+        const targetChainId = network.chain.id;
+        setActiveChainId(targetChainId);
+        if (walletChainId !== targetChainId) {
+          console.log(
+            `[executePayment] Switching from chain ${walletChainId} to ${network.label} (${targetChainId})...`
+          );
+          try {
+            await switchChainAsync({ chainId: targetChainId });
+          } catch (switchError) {
+            console.error("[executePayment] Failed to switch chain:", switchError);
+            throw new Error(
+              `Please switch your wallet to ${network.label} to continue`
+            );
+          }
+        }
+
+        // 1. Create transaction record in Supabase with pending status,
+        // unless we are confirming one that was already queued
+        const transaction = data.transactionId
+          ? { id: data.transactionId }
+          : await createTransaction({
+              sender_profile_id: data.sender_profile_id,
+              recipient_id: data.recipientId,
+              chain: data.chain,
+              amount: data.amount,
+              token: data.token,
+              payment_request_id: data.paymentRequestId,
+            });
         setTransactionId(transaction.id);
 
-        // 2. Prepare transaction parameters
-        const amountWei = parseUnits(data.amount, USDC_DECIMALS);
+        // 2. Prepare transaction parameters from the token registry
+        const token = requireToken(data.token);
+        const tokenAddress =
+          (data.tokenAddress as `0x${string}` | undefined) ??
+          getTokenAddress(token.symbol, data.chain);
+        const amountWei = parseUnits(
+          data.amount,
+          data.decimals ?? token.decimals
+        );
         console.log("[executePayment] Transfer details:", {
-          contract: USDC_BASE_ADDRESS,
+          token: token.symbol,
+          contract: tokenAddress ?? "native",
           to: data.to,
           amount: data.amount,
           amountWei: amountWei.toString(),
         });
 
         // 3. Execute the transaction (skipping simulation due to connector limitations)
-        const hash = await writeContractAsync({
-          address: USDC_BASE_ADDRESS as `0x${string}`,
-          abi: ERC20_ABI,
-          functionName: "transfer",
-          args: [data.to as `0x${string}`, amountWei],
-          chainId: base.id,
-        });
+        // Native assets are sent as value, tokens through an ERC20 transfer
+        const hash = tokenAddress
+          ? await writeContractAsync({
+              address: tokenAddress,
+              abi: ERC20_ABI,
+              functionName: "transfer",
+              args: [data.to as `0x${string}`, amountWei],
+              chainId: targetChainId,
+            })
+          : await sendTransactionAsync({
+              to: data.to as `0x${string}`,
+              value: amountWei,
+              chainId: targetChainId,
+            });
         if (!hash) {
           console.error("[executePayment] ❌ No transaction hash returned");
           throw new Error("Transaction hash not available");
@@ -237,13 +298,20 @@ export function useCryptoPayment() {
         setIsLoading(false);
       }
     },
-    [userAddress, writeContractAsync, transactionId]
+    [
+      userAddress,
+      walletChainId,
+      switchChainAsync,
+      writeContractAsync,
+      sendTransactionAsync,
+      transactionId,
+    ]
   );
 
   return {
     executePayment,
-    isLoading: isLoading || isWritePending || isConfirming,
-    error: error || writeError?.message,
+    isLoading: isLoading || isWritePending || isSendPending || isConfirming,
+    error: error || writeError?.message || sendError?.message,
   };
 }
 
@@ -272,7 +340,7 @@ export function useCryptoPayment() {
  *       <p>Status: {transaction.status}</p>
  *       <p>Amount: {transaction.amount} {transaction.token}</p>
  *       {transaction.tx_hash && (
- *         <a href={`https://basescan.org/tx/${transaction.tx_hash}`}>
+ *         <a href={getExplorerTxUrl(transaction.tx_hash, transaction.chain)}>
  *           View on Explorer
  *         </a>
  *       )}
@@ -290,6 +358,7 @@ export function useTransactionStatus(txId: string | null) {
   const { data: receipt, isLoading: isWaitingForReceipt } =
     useWaitForTransactionReceipt({
       hash: transaction?.tx_hash as `0x${string}` | undefined,
+      chainId: getChain(transaction?.chain ?? DEFAULT_CHAIN)?.chain.id,
     });
 
   // Update transaction status when receipt is received
@@ -332,9 +401,96 @@ export function useTransactionStatus(txId: string | null) {
   };
 }
 
+/**
+ * React hook to fetch the balance of any registry token for a wallet address.
+ * Reads the ERC20 contract, or the native balance for native assets, on one network.
+ *
+ * @param {`0x${string}`} [address] - Wallet address to check balance for
+ * @param {string} [symbol="USDC"] - Token symbol from the token registry
+ * @param {string} [chain="base"] - Network name from the chain registry
+ * @returns {Object} Balance state
+ * @returns {string | undefined} return.formattedBalance - Balance rounded to the token's display decimals (e.g., "100.50", "0.012345")
+ * @returns {bigint | undefined} return.rawBalance - Balance in the token's smallest unit
+ * @returns {boolean} return.isLoading - True while fetching balance
+ * @returns {boolean} return.isError - True if fetch failed
+ *
+ * @example
+ * ```tsx
+ * function EurcBalance() {
+ *   const { address } = useAccount();
+ *   const { formattedBalance } = useTokenBalance(address, "EURC");
+ *   return <div>EURC Balance: €{formattedBalance}</div>;
+ * }
+ * ```
+ */
+export function useTokenBalance(
+  address?: `0x${string}`,
+  symbol: string = "USDC",
+  chain: string = DEFAULT_CHAIN
+) {
+  const token = requireToken(symbol);
+  const network = requireChain(chain);
+  const tokenAddress = getTokenAddress(token.symbol, network.name);
+
+  let balance: bigint | undefined;
+  let balanceError: Error | null = null;
+  let isLoading = false;
+
+  // Both hooks always run; only the one matching the token type is enabled.
+  // Each is guarded separately so hook order never depends on a throw.
+  try {
+    const result = useReadContract({
+      address: tokenAddress ?? undefined,
+      abi: ERC20_ABI,
+      functionName: "balanceOf",
+      chainId: network.chain.id,
+      args: address ? [address] : undefined,
+      query: {
+        enabled: !!address && !!tokenAddress,
+      },
+    });
+    if (tokenAddress) {
+      balance = result.data as bigint | undefined;
+      balanceError = result.error;
+      isLoading = result.isLoading;
+    }
+  } catch (error) {
+    // WagmiProvider not available yet, keep safe defaults
+  }
+
+  try {
+    const result = useBalance({
+      address,
+      chainId: network.chain.id,
+      query: {
+        enabled: !!address && !tokenAddress,
+      },
+    });
+    if (!tokenAddress) {
+      balance = result.data?.value;
+      balanceError = result.error;
+      isLoading = result.isLoading;
+    }
+  } catch (error) {
+    // WagmiProvider not available yet, keep safe defaults
+  }
+
+  return {
+    formattedBalance:
+      balance !== undefined
+        ? Number(formatUnits(balance, token.decimals)).toFixed(
+            token.displayDecimals
+          )
+        : undefined,
+    rawBalance: balance,
+    isLoading,
+    isError: !!balanceError,
+  };
+}
+
 /**
  * React hook to fetch USDC balance for a wallet address.
- * Reads from the USDC contract on Base chain and formats the balance.
+ * Shorthand for `useTokenBalance(address, "USDC")`.
  *
  * @param {`0x${string}`} [address] - Wallet address to check balance for
  * @returns {Object} Balance state
@@ -356,37 +512,130 @@ export function useTransactionStatus(txId: string | null) {
  * ```
  */
 export function useUSDCBalance(address?: `0x${string}`) {
-  let balance: bigint | undefined;
-  let balanceError: Error | null = null;
+  return useTokenBalance(address, "USDC");
+}
+
+/**
+ * Per-network balance entry returned by `useMultiChainBalance`.
+ *
+ * @interface ChainBalance
+ * @property {ChainName} chain - Network name
+ * @property {string} label - Network display name
+ * @property {string} color - Network accent color
+ * @property {bigint} rawBalance - Balance in the token's smallest unit
+ * @property {string} formattedBalance - Balance rounded to the token's display decimals
+ */
+export interface ChainBalance {
+  chain: ChainName;
+  label: string;
+  color: string;
+  rawBalance: bigint;
+  formattedBalance: string;
+}
+
+/**
+ * React hook to fetch a token balance on every network the token supports
+ * and aggregate it into a single total.
+ * ERC20 balances use `balanceOf`; native balances use Multicall3's `getEthBalance`
+ * so every network is read through a single `useReadContracts` call.
+ *
+ * @param {`0x${string}`} [address] - Wallet address to check balances for
+ * @param {string} [symbol="USDC"] - Token symbol from the token registry
+ * @returns {Object} Balance state
+ * @returns {string | undefined} return.formattedBalance - Total across networks, rounded to the token's display decimals
+ * @returns {bigint | undefined} return.rawBalance - Total in the token's smallest unit
+ * @returns {ChainBalance[]} return.balances - Per-network balances, in registry order (failed reads are omitted)
+ * @returns {boolean} return.isLoading - True while fetching balances
+ * @returns {boolean} return.isError - True if every read failed
+ *
+ * @example
+ * ```tsx
+ * function TotalBalance() {
+ *   const { address } = useAccount();
+ *   const { formattedBalance, balances } = useMultiChainBalance(address);
+ *   return (
+ *     <div>
+ *       <p>Total: ${formattedBalance}</p>
+ *       {balances.map((b) => <p key={b.chain}>{b.label}: ${b.formattedBalance}</p>)}
+ *     </div>
+ *   );
+ * }
+ * ```
+ */
+export function useMultiChainBalance(
+  address?: `0x${string}`,
+  symbol: string = "USDC"
+) {
+  const token = requireToken(symbol);
+  const chains = getTokenChains(token.symbol).filter(
+    (name) =>
+      token.addresses[name] !== null || !!CHAINS[name].chain.contracts?.multicall3
+  );
+
+  const contracts = chains.map((name) => {
+    const network = CHAINS[name];
+    const tokenAddress = token.addresses[name];
+    return tokenAddress
+      ? {
+          address: tokenAddress,
+          abi: ERC20_ABI as Abi,
+          functionName: "balanceOf",
+          args: address ? [address] : undefined,
+          chainId: network.chain.id,
+        }
+      : {
+          address: network.chain.contracts!.multicall3!.address,
+          abi: MULTICALL3_ETH_BALANCE_ABI,
+          functionName: "getEthBalance",
+          args: address ? [address] : undefined,
+          chainId: network.chain.id,
+        };
+  });
+
+  let results: { status: string; result?: unknown }[] | undefined;
   let isLoading = false;
+  let isError = false;
 
   try {
-    const result = useReadContract({
-      address: USDC_BASE_ADDRESS as `0x${string}`,
-      abi: ERC20_ABI,
-      functionName: "balanceOf",
-      chainId: base.id,
-      args: address ? [address] : undefined,
+    const query = useReadContracts({
+      contracts,
       query: {
         enabled: !!address,
       },
     });
-    balance = result.data as bigint | undefined;
-    balanceError = result.error;
-    isLoading = result.isLoading;
+    results = query.data as typeof results;
+    isLoading = query.isLoading;
+    isError = query.isError;
   } catch (error) {
-    // WagmiProvider not available yet, return safe defaults
-    balance = undefined;
-    balanceError = null;
-    isLoading = false;
+    // WagmiProvider not available yet, keep safe defaults
   }
 
+  const balances: ChainBalance[] = [];
+  let total: bigint | undefined;
+
+  results?.forEach((entry, index) => {
+    if (entry.status !== "success" || typeof entry.result !== "bigint") return;
+    const network = CHAINS[chains[index]];
+    balances.push({
+      chain: network.name,
+      label: network.label,
+      color: network.color,
+      rawBalance: entry.result,
+      formattedBalance: Number(formatUnits(entry.result, token.decimals)).toFixed(
+        token.displayDecimals
+      ),
+    });
+    total = (total ?? BigInt(0)) + entry.result;
+  });
+
   return {
     formattedBalance:
-      balance !== undefined
-        ? (Number(balance) / Math.pow(10, USDC_DECIMALS)).toFixed(2)
+      total !== undefined
+        ? Number(formatUnits(total, token.decimals)).toFixed(token.displayDecimals)
         : undefined,
+    rawBalance: total,
+    balances,
     isLoading,
-    isError: !!balanceError,
+    isError: isError || (!!results && results.length > 0 && balances.length === 0),
   };
 }
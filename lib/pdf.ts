@@ -0,0 +1,134 @@
+/**
+ * @fileoverview Minimal PDF writer for text documents.
+ * Lays out monospaced lines on A4 pages using the standard Courier fonts,
+ * which every PDF reader ships, so no font files or dependencies are needed.
+ * Used for generated documents such as account statements.
+ */
+
+/**
+ * One line of text. Objects can render the line in bold.
+ * @typedef {string | { text: string; bold?: boolean }} PdfLine
+ */
+export type PdfLine = string | { text: string; bold?: boolean };
+
+/**
+ * Layout constants in PDF points (1/72 inch).
+ * @private
+ */
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 40;
+const FONT_SIZE = 9;
+const LINE_HEIGHT = 12;
+
+/**
+ * Lines that fit on one page, keeping two lines for the footer.
+ * @constant {number}
+ */
+export const PDF_LINES_PER_PAGE = Math.floor((PAGE_HEIGHT - 2 * MARGIN) / LINE_HEIGHT) - 2;
+
+/**
+ * Characters that fit on one line. Courier glyphs are 0.6em wide.
+ * @constant {number}
+ */
+export const PDF_CHARS_PER_LINE = Math.floor((PAGE_WIDTH - 2 * MARGIN) / (FONT_SIZE * 0.6));
+
+/**
+ * Escapes text for a PDF string literal. The standard fonts only cover
+ * Latin-1 reliably, so other characters are replaced.
+ *
+ * @private
+ */
+function escapePdfText(text: string): string {
+  return text
+    .replace(/[^\x20-\x7e]/g, "?")
+    .replace(/\\/g, "\\\\")
+    .replace(/\(/g, "\\(")
+    .replace(/\)/g, "\\)");
+}
+
+/**
+ * Builds the content stream of one page.
+ *
+ * @private
+ */
+function renderPage(lines: PdfLine[], footer: string): string {
+  const top = PAGE_HEIGHT - MARGIN - FONT_SIZE;
+  const ops = [`BT`, `${LINE_HEIGHT} TL`, `${MARGIN} ${top} Td`];
+  let font = "";
+
+  for (const line of lines) {
+    const { text, bold } = typeof line === "string" ? { text: line, bold: false } : line;
+    const nextFont = bold ? "/F2" : "/F1";
+    if (nextFont !== font) {
+      ops.push(`${nextFont} ${FONT_SIZE} Tf`);
+      font = nextFont;
+    }
+    ops.push(`(${escapePdfText(text.slice(0, PDF_CHARS_PER_LINE))}) Tj T*`);
+  }
+  ops.push(`ET`);
+
+  ops.push(`BT /F1 ${FONT_SIZE - 1} Tf ${MARGIN} ${MARGIN - FONT_SIZE} Td (${escapePdfText(footer)}) Tj ET`);
+  return ops.join("\n");
+}
+
+/**
+ * Creates a PDF from lines of text, starting a new page whenever one is full.
+ * Lines longer than `PDF_CHARS_PER_LINE` are cut.
+ *
+ * @param {PdfLine[]} lines - Document text
+ * @param {Object} [options] - Document options
+ * @param {string} [options.title] - Title stored in the document info and page footers
+ * @returns {Uint8Array} PDF file
+ *
+ * @example
+ * ```typescript
+ * const pdf = createTextPdf([{ text: "Statement", bold: true }, "", "Opening balance  10.00"], {
+ *   title: "March 2025 statement",
+ * });
+ * ```
+ */
+export function createTextPdf(lines: PdfLine[], options: { title?: string } = {}): Uint8Array {
+  const title = options.title || "Document";
+  const pages: PdfLine[][] = [];
+  for (let i = 0; i < lines.length; i += PDF_LINES_PER_PAGE) {
+    pages.push(lines.slice(i, i + PDF_LINES_PER_PAGE));
+  }
+  if (pages.length === 0) {
+    pages.push([]);
+  }
+
+  // Object numbers: 1 catalog, 2 page tree, 3-4 fonts, 5 info, then a page and its content per page
+  const pageIds = pages.map((_, i) => 6 + i * 2);
+  const objects: string[] = [
+    `<< /Type /Catalog /Pages 2 0 R >>`,
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`,
+    `<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>`,
+    `<< /Type /Font /Subtype /Type1 /BaseFont /Courier-Bold /Encoding /WinAnsiEncoding >>`,
+    `<< /Title (${escapePdfText(title)}) /Producer (banb) >>`,
+  ];
+
+  pages.forEach((pageLines, i) => {
+    const content = renderPage(pageLines, `${title} - Page ${i + 1} of ${pages.length}`);
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+    );
+  });
+
+  // Everything is ASCII, so string length equals byte offset
+  let output = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(output.length);
+    output += `${i + 1} 0 obj\n${body}\nendobj\n`;
+  });
+
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return new TextEncoder().encode(output);
+}
@@ -10,6 +10,8 @@ import {
   type Profile,
   type BankDetails,
 } from "./supabase";
+import { validateBankDetails } from "./bank-validation";
+import { authFetch } from "./auth-fetch";
 
 // Re-export types for convenience
 export type { Recipient, Profile };
@@ -379,7 +381,7 @@ export async function addRecipient(
   profileId: string,
   recipientProfileId: string
 ): Promise<Recipient> {
-  const response = await fetch("/api/recipients", {
+  const response = await authFetch("/api/recipients", {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
@@ -400,8 +402,9 @@ export async function addRecipient(
 }
 
 /**
- * Creates a bank recipient directly in the database.
- * Used for adding bank account recipients with IBAN or routing/account details.
+ * Creates a bank recipient using the secure API route.
+ * Bank details are validated for their country (IBAN checksum, BIC, US routing
+ * number or UK sort code) on both sides, so invalid details are never stored.
  * 
  * @async
  * @param {Object} recipientData - Bank recipient data
@@ -411,7 +414,7 @@ export async function addRecipient(
  * @param {BankDetails} recipientData.bank_details - Bank account information
  * @param {"active"} recipientData.status - Must be "active"
  * @returns {Promise<Recipient>} Created bank recipient
- * @throws {Error} If database operation fails
+ * @throws {Error} If the bank details are invalid or the API request fails
  * 
  * @example
  * ```typescript
@@ -436,21 +439,28 @@ export async function createBankRecipient(recipientData: {
   bank_details: BankDetails;
   status: "active";
 }): Promise<Recipient> {
-  const { data, error } = await supabase
-    .from("recipients")
-    .insert({
+  const validationError = validateBankDetails(recipientData.bank_details);
+  if (validationError) {
+    throw new Error(validationError);
+  }
+
+  const response = await authFetch("/api/recipients/bank", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
       profile_id: recipientData.profile_id,
       name: recipientData.name,
-      recipient_type: recipientData.recipient_type,
       bank_details: recipientData.bank_details,
-      status: recipientData.status,
-    })
-    .select()
-    .single();
+    }),
+  });
 
-  if (error) {
-    throw new Error(`Failed to create bank recipient: ${error.message}`);
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to create bank recipient");
   }
 
-  return data;
+  const data = await response.json();
+  return data.recipient;
 }
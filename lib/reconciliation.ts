@@ -0,0 +1,220 @@
+/**
+ * @fileoverview Reconciliation of payment records with onchain receipts.
+ * A payment stays "pending" or "sent" if the sender closes the app before
+ * the client sees its receipt. The reconciliation worker
+ * (/api/transactions/reconcile) looks such transactions up by tx_hash, marks
+ * them success or failed and flags transfers that differ from the record
+ * for review instead of settling them.
+ * Each run is stored as a ReconciliationReport, shown at /admin/reconciliation.
+ */
+
+import { formatUnits, parseUnits } from "viem";
+import { authFetch } from "./auth-fetch";
+import { getToken } from "./tokens";
+import type { ChainName } from "./chains";
+import type {
+  ReconciliationIssue,
+  ReconciliationItem,
+  ReconciliationReport,
+  Transaction,
+} from "./supabase";
+
+/**
+ * Minutes after which a pending or sent transaction is reconciled.
+ * @constant {number}
+ */
+export const STALE_TRANSACTION_MINUTES = 15;
+
+/**
+ * Hours after which a transaction without a receipt is considered dropped
+ * and marked failed.
+ * @constant {number}
+ */
+export const DROPPED_TRANSACTION_HOURS = 24;
+
+/**
+ * Token movement decoded from a receipt: an ERC-20 Transfer log, or the
+ * transaction's own value for native assets (`token_address` null).
+ */
+export interface OnchainTransfer {
+  token_address: string | null;
+  from: string;
+  to: string;
+  value: bigint;
+}
+
+/**
+ * What a receipt lookup found for a mined transaction.
+ */
+export interface ReceiptSummary {
+  status: "success" | "reverted";
+  block_number: number;
+  transfers: OnchainTransfer[];
+}
+
+/**
+ * Compares a successful payment with the transfers in its receipt.
+ * The transfer of the payment's token is matched on recipient; when none of
+ * the addresses is known (unsaved recipients) the recipient is not checked.
+ * The matched transfer must come from one of the payer's addresses.
+ *
+ * @param {Pick<Transaction, "amount" | "token" | "chain">} transaction - Payment record
+ * @param {OnchainTransfer[]} transfers - Transfers decoded from the receipt
+ * @param {string[]} recipientAddresses - Addresses the payment may have been sent to
+ * @param {string[]} senderAddresses - Payer's wallet and account addresses
+ * @returns {ReconciliationIssue[]} Mismatches, empty when the transfer matches
+ */
+export function findTransferIssues(
+  transaction: Pick<Transaction, "amount" | "token" | "chain">,
+  transfers: OnchainTransfer[],
+  recipientAddresses: string[],
+  senderAddresses: string[]
+): ReconciliationIssue[] {
+  const token = getToken(transaction.token);
+  const contract = token?.addresses[transaction.chain as ChainName];
+  if (!token || contract === undefined) {
+    return [{ kind: "token", expected: transaction.token, actual: null }];
+  }
+
+  const expectedValue = parseUnits(transaction.amount, token.decimals);
+  const expectedAmount = `${formatUnits(expectedValue, token.decimals)} ${token.symbol}`;
+
+  const tokenAddress = contract?.toLowerCase() ?? null;
+  const matching = transfers.filter(
+    (transfer) => (transfer.token_address?.toLowerCase() ?? null) === tokenAddress
+  );
+
+  if (matching.length === 0) {
+    const other = transfers[0];
+    return other
+      ? [{ kind: "token", expected: token.symbol, actual: other.token_address ?? "native" }]
+      : [{ kind: "no_transfer", expected: expectedAmount, actual: null }];
+  }
+
+  const issues: ReconciliationIssue[] = [];
+  const recipients = recipientAddresses.map((address) => address.toLowerCase());
+  const transfer =
+    recipients.length === 0
+      ? matching[0]
+      : matching.find((t) => recipients.includes(t.to.toLowerCase()));
+
+  if (!transfer) {
+    issues.push({ kind: "recipient", expected: recipientAddresses[0], actual: matching[0].to });
+  }
+
+  const actual = transfer || matching[0];
+  const senders = senderAddresses.map((address) => address.toLowerCase());
+  if (!senders.includes(actual.from.toLowerCase())) {
+    issues.push({ kind: "sender", expected: senderAddresses[0] ?? "payer's wallet", actual: actual.from });
+  }
+
+  if (actual.value !== expectedValue) {
+    issues.push({
+      kind: "amount",
+      expected: expectedAmount,
+      actual: `${formatUnits(actual.value, token.decimals)} ${token.symbol}`,
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Decides the status of a stale transaction from its receipt.
+ * Reverted transactions become failed. Mined ones become success only when
+ * the transfer matches the record; otherwise they keep their status with the
+ * "mismatch" outcome so an admin reviews them. Without a receipt the
+ * transaction is left alone until it is DROPPED_TRANSACTION_HOURS old.
+ *
+ * @param {Transaction} transaction - Stale pending or sent transaction with a tx_hash
+ * @param {ReceiptSummary | null} receipt - Receipt lookup result, null if not found
+ * @param {string[]} recipientAddresses - Addresses the payment may have been sent to
+ * @param {string[]} senderAddresses - Payer's wallet and account addresses
+ * @param {Date} [now=new Date()] - Current time
+ * @returns {ReconciliationItem} Result for the report
+ */
+export function reconcileTransaction(
+  transaction: Pick<Transaction, "id" | "tx_hash" | "chain" | "token" | "amount" | "status" | "created_at">,
+  receipt: ReceiptSummary | null,
+  recipientAddresses: string[],
+  senderAddresses: string[],
+  now: Date = new Date()
+): ReconciliationItem {
+  const previousStatus = transaction.status === "pending" ? "pending" : "sent";
+  const item: ReconciliationItem = {
+    transaction_id: transaction.id,
+    tx_hash: transaction.tx_hash || "",
+    chain: transaction.chain,
+    token: transaction.token,
+    amount: transaction.amount,
+    previous_status: previousStatus,
+    status: previousStatus,
+    outcome: "not_found",
+    block_number: null,
+    issues: [],
+  };
+
+  if (!receipt) {
+    const ageMs = now.getTime() - new Date(transaction.created_at).getTime();
+    if (ageMs >= DROPPED_TRANSACTION_HOURS * 60 * 60 * 1000) {
+      return { ...item, status: "failed", outcome: "dropped" };
+    }
+    return item;
+  }
+
+  if (receipt.status === "reverted") {
+    return { ...item, status: "failed", outcome: "reverted", block_number: receipt.block_number };
+  }
+
+  const issues = findTransferIssues(transaction, receipt.transfers, recipientAddresses, senderAddresses);
+  if (issues.length > 0) {
+    return { ...item, outcome: "mismatch", block_number: receipt.block_number, issues };
+  }
+
+  return { ...item, status: "success", outcome: "confirmed", block_number: receipt.block_number };
+}
+
+/**
+ * Totals a run's results into a report.
+ *
+ * @param {ReconciliationItem[]} items - Results of the run
+ * @param {Date} ranAt - Time of the run
+ * @returns {Omit<ReconciliationReport, "id">} Report to store
+ */
+export function summarizeReconciliation(
+  items: ReconciliationItem[],
+  ranAt: Date
+): Omit<ReconciliationReport, "id"> {
+  return {
+    ran_at: ranAt.toISOString(),
+    checked: items.length,
+    succeeded: items.filter((item) => item.status === "success").length,
+    failed: items.filter((item) => item.status === "failed").length,
+    unresolved: items.filter((item) => item.status === item.previous_status).length,
+    mismatches: items.filter((item) => item.issues.length > 0).length,
+    items,
+  };
+}
+
+/**
+ * Fetches the latest reconciliation reports. Admins only.
+ *
+ * @param {string} profileId - Profile ID of the admin
+ * @param {number} [limit=20] - Number of reports, newest first
+ * @returns {Promise<ReconciliationReport[]>} Reports
+ * @throws {Error} If the caller is not an admin or the request fails
+ */
+export async function getReconciliationReports(
+  profileId: string,
+  limit: number = 20
+): Promise<ReconciliationReport[]> {
+  const params = new URLSearchParams({ profile_id: profileId, limit: String(limit) });
+  const response = await authFetch(`/api/admin/reconciliation?${params}`);
+  const result = await response.json();
+
+  if (!response.ok) {
+    throw new Error(result.error || "Failed to fetch reconciliation reports");
+  }
+
+  return result.reports;
+}
@@ -3,6 +3,8 @@
  * This file contains the structure for real API integration.
  */
 
+import { authFetch } from "./auth-fetch";
+
 export interface DailyReward {
   date: string; // ISO date string (YYYY-MM-DD)
   amount: number; // Reward amount in USD
@@ -42,7 +44,7 @@ export async function fetchDailyRewards(
   endDate: string
 ): Promise<RewardsApiResponse> {
   // This would be your actual API call
-  const response = await fetch(
+  const response = await authFetch(
     `/api/investments/${investmentId}/rewards?start=${startDate}&end=${endDate}`
   );
 
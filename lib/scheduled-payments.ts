@@ -0,0 +1,646 @@
+/**
+ * @fileoverview Recurring and scheduled payment management.
+ * Provides functions to create, edit, pause, resume and cancel payment schedules,
+ * plus the date arithmetic shared by the client and the server job that queues
+ * pending transactions when a schedule is due.
+ */
+
+import {
+  supabase,
+  type ScheduledPayment,
+  type Transaction,
+} from "./supabase";
+
+// Re-export the database type for convenience
+export type { ScheduledPayment };
+
+/**
+ * Timing fields that determine when a schedule runs.
+ */
+export type ScheduleTiming = Pick<
+  ScheduledPayment,
+  | "frequency"
+  | "interval_count"
+  | "day_of_week"
+  | "day_of_month"
+  | "start_date"
+  | "end_date"
+  | "max_runs"
+  | "run_count"
+>;
+
+/**
+ * Data required to create a new payment schedule.
+ */
+export interface CreateScheduledPaymentData {
+  profile_id: string;
+  recipient_id: string;
+  amount: string;
+  token?: string;
+  chain?: string;
+  frequency: "weekly" | "monthly";
+  interval_count?: number;
+  day_of_week?: number | null;
+  day_of_month?: number | null;
+  start_date: string;
+  end_date?: string | null;
+  max_runs?: number | null;
+  note?: string | null;
+}
+
+/**
+ * Data for editing an existing payment schedule.
+ */
+export interface UpdateScheduledPaymentData {
+  amount?: string;
+  frequency?: "weekly" | "monthly";
+  interval_count?: number;
+  day_of_week?: number | null;
+  day_of_month?: number | null;
+  start_date?: string;
+  end_date?: string | null;
+  max_runs?: number | null;
+  note?: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const WEEKDAY_NAMES = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+/**
+ * Returns the number of days in a month (UTC).
+ *
+ * @private
+ */
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+/**
+ * Truncates a date to midnight UTC.
+ *
+ * @private
+ */
+function startOfUTCDay(date: Date): Date {
+  return new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+  );
+}
+
+/**
+ * Builds a UTC date in the given month, clamping the day to the month's length
+ * so that a schedule "on the 31st" runs on the last day of shorter months.
+ *
+ * @private
+ */
+function clampedMonthDate(year: number, month: number, day: number): Date {
+  const normalizedYear = year + Math.floor(month / 12);
+  const normalizedMonth = ((month % 12) + 12) % 12;
+  const lastDay = daysInMonth(normalizedYear, normalizedMonth);
+  return new Date(
+    Date.UTC(normalizedYear, normalizedMonth, Math.min(day, lastDay))
+  );
+}
+
+/**
+ * Computes the first run date of a schedule on or after its start date.
+ * Runs are expressed as midnight UTC of the due day.
+ *
+ * @param {ScheduleTiming} schedule - Schedule timing fields
+ * @param {Date} [notBefore] - Optional lower bound (e.g. today when resuming)
+ * @returns {Date} First run date
+ *
+ * @example
+ * ```typescript
+ * // Monthly on the 1st, starting mid-month => first run is the 1st of next month
+ * getFirstRunDate({ frequency: "monthly", day_of_month: 1, start_date: "2025-03-15", ... });
+ * // => 2025-04-01T00:00:00.000Z
+ * ```
+ */
+export function getFirstRunDate(
+  schedule: ScheduleTiming,
+  notBefore?: Date
+): Date {
+  let start = startOfUTCDay(new Date(schedule.start_date));
+  if (notBefore && notBefore.getTime() > start.getTime()) {
+    start = startOfUTCDay(notBefore);
+  }
+
+  if (schedule.frequency === "weekly") {
+    const targetDay = schedule.day_of_week ?? start.getUTCDay();
+    const offset = (targetDay - start.getUTCDay() + 7) % 7;
+    return new Date(start.getTime() + offset * DAY_MS);
+  }
+
+  const targetDay = schedule.day_of_month ?? start.getUTCDate();
+  const candidate = clampedMonthDate(
+    start.getUTCFullYear(),
+    start.getUTCMonth(),
+    targetDay
+  );
+  if (candidate.getTime() >= start.getTime()) {
+    return candidate;
+  }
+  return clampedMonthDate(
+    start.getUTCFullYear(),
+    start.getUTCMonth() + 1,
+    targetDay
+  );
+}
+
+/**
+ * Computes the run that follows a given run date.
+ *
+ * @param {Date} previous - Previous run date
+ * @param {ScheduleTiming} schedule - Schedule timing fields
+ * @returns {Date} Next run date
+ *
+ * @example
+ * ```typescript
+ * getNextRunDate(new Date("2025-01-31"), { frequency: "monthly", day_of_month: 31, interval_count: 1, ... });
+ * // => 2025-02-28T00:00:00.000Z
+ * ```
+ */
+export function getNextRunDate(previous: Date, schedule: ScheduleTiming): Date {
+  const interval = Math.max(1, schedule.interval_count || 1);
+
+  if (schedule.frequency === "weekly") {
+    return new Date(startOfUTCDay(previous).getTime() + 7 * interval * DAY_MS);
+  }
+
+  return clampedMonthDate(
+    previous.getUTCFullYear(),
+    previous.getUTCMonth() + interval,
+    schedule.day_of_month ?? previous.getUTCDate()
+  );
+}
+
+/**
+ * Checks whether a schedule has no runs left, either because it reached its
+ * maximum number of runs or because the candidate run falls after the end date.
+ *
+ * @param {ScheduleTiming} schedule - Schedule timing fields
+ * @param {Date} candidateRun - The run that would be queued next
+ * @returns {boolean} True if the schedule should be marked completed
+ */
+export function isScheduleFinished(
+  schedule: ScheduleTiming,
+  candidateRun: Date
+): boolean {
+  if (schedule.max_runs !== null && schedule.run_count >= schedule.max_runs) {
+    return true;
+  }
+
+  if (schedule.end_date) {
+    const endOfEndDay =
+      startOfUTCDay(new Date(schedule.end_date)).getTime() + DAY_MS - 1;
+    if (candidateRun.getTime() > endOfEndDay) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Returns an English ordinal for a day of the month (1st, 2nd, 3rd, 4th...).
+ *
+ * @private
+ */
+function ordinal(n: number): string {
+  const s = ["th", "st", "nd", "rd"];
+  const v = n % 100;
+  return `${n}${s[(v - 20) % 10] || s[v] || s[0]}`;
+}
+
+/**
+ * Describes a schedule in plain English for display.
+ *
+ * @param {ScheduleTiming} schedule - Schedule timing fields
+ * @returns {string} Human readable description
+ *
+ * @example
+ * ```typescript
+ * describeSchedule({ frequency: "weekly", interval_count: 1, day_of_week: 1, ... })
+ * // => "Every week on Monday"
+ * describeSchedule({ frequency: "monthly", interval_count: 2, day_of_month: 1, ... })
+ * // => "Every 2 months on the 1st"
+ * ```
+ */
+export function describeSchedule(schedule: ScheduleTiming): string {
+  const interval = Math.max(1, schedule.interval_count || 1);
+  const unit = schedule.frequency === "weekly" ? "week" : "month";
+  const every = interval === 1 ? `Every ${unit}` : `Every ${interval} ${unit}s`;
+
+  let description =
+    schedule.frequency === "weekly"
+      ? `${every} on ${WEEKDAY_NAMES[schedule.day_of_week ?? 0]}`
+      : `${every} on the ${ordinal(schedule.day_of_month ?? 1)}`;
+
+  if (schedule.max_runs !== null) {
+    description += `, ${schedule.max_runs} times`;
+  } else if (schedule.end_date) {
+    description += `, until ${new Date(schedule.end_date).toLocaleDateString(
+      "en-US",
+      { month: "short", day: "numeric", year: "numeric" }
+    )}`;
+  }
+
+  return description;
+}
+
+/**
+ * Validates schedule input before it is saved.
+ *
+ * @private
+ * @throws {Error} If any field is out of range
+ */
+function assertValidSchedule(data: {
+  amount: string;
+  frequency: "weekly" | "monthly";
+  interval_count: number;
+  day_of_week: number | null;
+  day_of_month: number | null;
+  start_date: string;
+  end_date: string | null;
+  max_runs: number | null;
+}): void {
+  const amount = parseFloat(data.amount);
+  if (isNaN(amount) || amount <= 0) {
+    throw new Error("Amount must be greater than zero");
+  }
+  if (!Number.isInteger(data.interval_count) || data.interval_count < 1) {
+    throw new Error("Interval must be a positive whole number");
+  }
+  if (
+    data.frequency === "weekly" &&
+    (data.day_of_week === null || data.day_of_week < 0 || data.day_of_week > 6)
+  ) {
+    throw new Error("Weekly schedules require a day of the week");
+  }
+  if (
+    data.frequency === "monthly" &&
+    (data.day_of_month === null ||
+      data.day_of_month < 1 ||
+      data.day_of_month > 31)
+  ) {
+    throw new Error("Monthly schedules require a day of the month (1-31)");
+  }
+  if (isNaN(new Date(data.start_date).getTime())) {
+    throw new Error("Invalid start date");
+  }
+  if (
+    data.end_date &&
+    new Date(data.end_date).getTime() < new Date(data.start_date).getTime()
+  ) {
+    throw new Error("End date must be after the start date");
+  }
+  if (
+    data.max_runs !== null &&
+    (!Number.isInteger(data.max_runs) || data.max_runs < 1)
+  ) {
+    throw new Error("Maximum number of payments must be at least 1");
+  }
+}
+
+/**
+ * Creates a new payment schedule for a saved recipient.
+ * The first run is computed from the start date and stored as next_run_at.
+ *
+ * @param {CreateScheduledPaymentData} data - Schedule creation data
+ * @returns {Promise<ScheduledPayment>} Created schedule
+ * @throws {Error} If validation or the database operation fails
+ *
+ * @example
+ * ```typescript
+ * const schedule = await createScheduledPayment({
+ *   profile_id: currentUser.id,
+ *   recipient_id: recipient.id,
+ *   amount: "250.00",
+ *   frequency: "monthly",
+ *   day_of_month: 1,
+ *   start_date: "2025-11-01",
+ *   max_runs: 12
+ * });
+ * ```
+ */
+export async function createScheduledPayment(
+  data: CreateScheduledPaymentData
+): Promise<ScheduledPayment> {
+  const timing = {
+    amount: data.amount,
+    frequency: data.frequency,
+    interval_count: data.interval_count ?? 1,
+    day_of_week: data.frequency === "weekly" ? data.day_of_week ?? null : null,
+    day_of_month:
+      data.frequency === "monthly" ? data.day_of_month ?? null : null,
+    start_date: data.start_date,
+    end_date: data.end_date ?? null,
+    max_runs: data.max_runs ?? null,
+  };
+  assertValidSchedule(timing);
+
+  const firstRun = getFirstRunDate({ ...timing, run_count: 0 });
+
+  const { data: schedule, error } = await supabase
+    .from("scheduled_payments")
+    .insert({
+      profile_id: data.profile_id,
+      recipient_id: data.recipient_id,
+      token: data.token || "USDC",
+      chain: data.chain || "base",
+      note: data.note || null,
+      ...timing,
+      run_count: 0,
+      next_run_at: firstRun.toISOString(),
+      status: "active",
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create scheduled payment: ${error.message}`);
+  }
+
+  return schedule;
+}
+
+/**
+ * Retrieves all payment schedules for a profile with recipient details.
+ * Cancelled schedules are excluded unless requested.
+ *
+ * @param {string} profileId - UUID of the profile
+ * @param {boolean} [includeCancelled=false] - Include cancelled schedules
+ * @returns {Promise<ScheduledPayment[]>} Schedules, soonest next run first
+ * @throws {Error} If database operation fails
+ */
+export async function getScheduledPaymentsByProfile(
+  profileId: string,
+  includeCancelled: boolean = false
+): Promise<ScheduledPayment[]> {
+  let query = supabase
+    .from("scheduled_payments")
+    .select(
+      `
+      *,
+      recipient:recipients(name, external_address)
+    `
+    )
+    .eq("profile_id", profileId)
+    .order("next_run_at", { ascending: true, nullsFirst: false });
+
+  if (!includeCancelled) {
+    query = query.neq("status", "cancelled");
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to fetch scheduled payments: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+/**
+ * Retrieves a single payment schedule by ID.
+ *
+ * @param {string} scheduleId - UUID of the schedule
+ * @returns {Promise<ScheduledPayment | null>} Schedule if found, null otherwise
+ * @throws {Error} If database operation fails
+ */
+export async function getScheduledPaymentById(
+  scheduleId: string
+): Promise<ScheduledPayment | null> {
+  const { data, error } = await supabase
+    .from("scheduled_payments")
+    .select("*")
+    .eq("id", scheduleId)
+    .single();
+
+  if (error) {
+    if (error.code === "PGRST116") {
+      return null; // Not found
+    }
+    throw new Error(`Failed to get scheduled payment: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Edits a payment schedule. When timing fields change, the next run is
+ * recomputed from today so edits never queue a payment in the past. An edit
+ * that leaves no runs (a lower run limit or an earlier end date) completes
+ * the schedule.
+ *
+ * @param {string} scheduleId - UUID of the schedule
+ * @param {UpdateScheduledPaymentData} updates - Fields to update
+ * @returns {Promise<ScheduledPayment>} Updated schedule
+ * @throws {Error} If the schedule is missing, finished, or validation fails
+ */
+export async function updateScheduledPayment(
+  scheduleId: string,
+  updates: UpdateScheduledPaymentData
+): Promise<ScheduledPayment> {
+  const current = await getScheduledPaymentById(scheduleId);
+  if (!current) {
+    throw new Error("Scheduled payment not found");
+  }
+  if (current.status === "cancelled" || current.status === "completed") {
+    throw new Error(`Cannot edit a ${current.status} schedule`);
+  }
+
+  const merged = { ...current, ...updates };
+  if (merged.frequency === "weekly") {
+    merged.day_of_month = null;
+  } else {
+    merged.day_of_week = null;
+  }
+  assertValidSchedule(merged);
+
+  const timingChanged = (
+    [
+      "frequency",
+      "interval_count",
+      "day_of_week",
+      "day_of_month",
+      "start_date",
+    ] as const
+  ).some((key) => {
+    if (updates[key] === undefined) return false;
+    if (key === "start_date") {
+      return (
+        startOfUTCDay(new Date(merged.start_date)).getTime() !==
+        startOfUTCDay(new Date(current.start_date)).getTime()
+      );
+    }
+    return updates[key] !== current[key];
+  });
+
+  const nextRun = timingChanged
+    ? getFirstRunDate(merged, new Date())
+    : current.next_run_at
+    ? new Date(current.next_run_at)
+    : getFirstRunDate(merged, new Date());
+  const finished = isScheduleFinished(merged, nextRun);
+
+  const { data, error } = await supabase
+    .from("scheduled_payments")
+    .update({
+      amount: merged.amount,
+      frequency: merged.frequency,
+      interval_count: merged.interval_count,
+      day_of_week: merged.day_of_week,
+      day_of_month: merged.day_of_month,
+      start_date: merged.start_date,
+      end_date: merged.end_date,
+      max_runs: merged.max_runs,
+      note: merged.note,
+      ...(finished ? { status: "completed" } : {}),
+      next_run_at: finished ? null : nextRun.toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", scheduleId)
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to update scheduled payment: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Pauses a schedule. No payments are queued while paused.
+ *
+ * @param {string} scheduleId - UUID of the schedule
+ * @returns {Promise<ScheduledPayment>} Updated schedule
+ * @throws {Error} If database operation fails
+ */
+export async function pauseScheduledPayment(
+  scheduleId: string
+): Promise<ScheduledPayment> {
+  const { data, error } = await supabase
+    .from("scheduled_payments")
+    .update({ status: "paused", updated_at: new Date().toISOString() })
+    .eq("id", scheduleId)
+    .eq("status", "active")
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to pause scheduled payment: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Resumes a paused schedule. Runs missed while paused are skipped and the
+ * next run is moved to the first due date from today.
+ *
+ * @param {string} scheduleId - UUID of the schedule
+ * @returns {Promise<ScheduledPayment>} Updated schedule
+ * @throws {Error} If the schedule is missing or not paused
+ */
+export async function resumeScheduledPayment(
+  scheduleId: string
+): Promise<ScheduledPayment> {
+  const current = await getScheduledPaymentById(scheduleId);
+  if (!current) {
+    throw new Error("Scheduled payment not found");
+  }
+  if (current.status !== "paused") {
+    throw new Error("Only paused schedules can be resumed");
+  }
+
+  const now = new Date();
+  const nextRun =
+    current.next_run_at && new Date(current.next_run_at) >= now
+      ? new Date(current.next_run_at)
+      : getFirstRunDate(current, now);
+
+  const finished = isScheduleFinished(current, nextRun);
+
+  const { data, error } = await supabase
+    .from("scheduled_payments")
+    .update({
+      status: finished ? "completed" : "active",
+      next_run_at: finished ? null : nextRun.toISOString(),
+      updated_at: now.toISOString(),
+    })
+    .eq("id", scheduleId)
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to resume scheduled payment: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Cancels a schedule permanently. Already queued transactions are left as-is.
+ *
+ * @param {string} scheduleId - UUID of the schedule
+ * @returns {Promise<void>}
+ * @throws {Error} If database operation fails
+ */
+export async function cancelScheduledPayment(scheduleId: string): Promise<void> {
+  const { error } = await supabase
+    .from("scheduled_payments")
+    .update({
+      status: "cancelled",
+      next_run_at: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", scheduleId);
+
+  if (error) {
+    throw new Error(`Failed to cancel scheduled payment: ${error.message}`);
+  }
+}
+
+/**
+ * Retrieves pending transactions queued by schedules that still need the
+ * user's wallet confirmation.
+ *
+ * @param {string} profileId - UUID of the profile
+ * @returns {Promise<Transaction[]>} Pending scheduled transactions, oldest first
+ * @throws {Error} If database operation fails
+ */
+export async function getScheduledTransactionsAwaitingConfirmation(
+  profileId: string
+): Promise<Transaction[]> {
+  const { data, error } = await supabase
+    .from("transactions")
+    .select(
+      `
+      *,
+      recipient:recipients(name, profile_id, external_address)
+    `
+    )
+    .eq("sender_profile_id", profileId)
+    .eq("status", "pending")
+    .not("scheduled_payment_id", "is", null)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    throw new Error(
+      `Failed to fetch scheduled transactions: ${error.message}`
+    );
+  }
+
+  return data || [];
+}
@@ -0,0 +1,413 @@
+/**
+ * @fileoverview Verified sessions for API routes.
+ * Routes that change data call `requireSessionProfile` to find out who is
+ * calling. The `Authorization: Bearer` header carries either a Privy access
+ * token (web and mini app logins) or a Farcaster Quick Auth JWT
+ * (`sdk.quickAuth.fetch`). Privy tokens map to a profile through the user's
+ * linked wallets, Quick Auth tokens through the FID's primary address; both
+ * match `profiles.wallet_address` or an active `accounts.address`.
+ */
+
+import { createPublicKey, verify, type KeyObject } from "crypto";
+import { Errors, createClient as createQuickAuthClient } from "@farcaster/quick-auth";
+import { createClient } from "@supabase/supabase-js";
+import type { Profile } from "./supabase";
+import { ACCESS_TOKEN_PREFIX } from "./access-tokens";
+
+/**
+ * Admin Supabase client for server-side operations.
+ * Uses service role key for elevated permissions when available.
+ * Falls back to anon key if service role key is not set.
+ *
+ * @private
+ */
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY ||
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  }
+);
+
+const quickAuthClient = createQuickAuthClient();
+
+const PRIVY_ISSUER = "privy.io";
+const PRIVY_API_URL = "https://auth.privy.io/api/v1";
+const FARCASTER_API_URL = "https://api.farcaster.xyz";
+
+// Linked wallets change rarely; cache them to avoid a Privy API call per request
+const WALLET_CACHE_TTL_MS = 5 * 60 * 1000;
+const walletCache = new Map<string, { addresses: string[]; expiresAt: number }>();
+
+/**
+ * How the caller proved who they are.
+ * @typedef {string} SessionAuthMethod
+ */
+export type SessionAuthMethod = "privy" | "quick-auth";
+
+/**
+ * Verified caller.
+ *
+ * @interface SessionAuth
+ * @property {Profile} profile - Caller's profile
+ * @property {SessionAuthMethod} method - Token type that was verified
+ * @property {string} subject - Privy user DID or Farcaster FID
+ */
+export interface SessionAuth {
+  profile: Profile;
+  method: SessionAuthMethod;
+  subject: string;
+}
+
+/**
+ * Outcome of `requireSessionProfile`. `status` and `message` are ready to be
+ * returned by the route when the check fails.
+ */
+export type SessionProfileCheck =
+  | { ok: true; profile: Profile }
+  | { ok: false; status: 401 | 403; message: string };
+
+/**
+ * Domain Quick Auth tokens are verified against: the host of the configured
+ * NEXT_PUBLIC_URL. Request headers are not used, since the client controls them.
+ *
+ * @returns {string | null} Host name with port, or null if NEXT_PUBLIC_URL is not a valid URL
+ */
+export function getAppHost(): string | null {
+  try {
+    return new URL(process.env.NEXT_PUBLIC_URL || "").host || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reads a session token from the Authorization header. Personal access
+ * tokens are left to lib/access-token-auth.ts.
+ *
+ * @param {Request} request - Incoming request
+ * @returns {string | null} Bearer token, or null if none was sent
+ */
+export function getSessionToken(request: Request): string | null {
+  const authorization = request.headers.get("authorization");
+  if (!authorization?.startsWith("Bearer ")) {
+    return null;
+  }
+  const token = authorization.slice("Bearer ".length).trim();
+  return token && !token.startsWith(ACCESS_TOKEN_PREFIX) ? token : null;
+}
+
+/**
+ * Decodes one base64url JWT segment as JSON.
+ *
+ * @private
+ */
+function decodeJwtSegment(segment: string): Record<string, unknown> | null {
+  try {
+    return JSON.parse(Buffer.from(segment, "base64url").toString("utf8"));
+  } catch {
+    return null;
+  }
+}
+
+let privyVerificationKey: KeyObject | null = null;
+
+/**
+ * Loads the ES256 verification key from the Privy dashboard
+ * (PRIVY_VERIFICATION_KEY, PEM).
+ *
+ * @private
+ */
+function getPrivyVerificationKey(): KeyObject | null {
+  const pem = process.env.PRIVY_VERIFICATION_KEY;
+  if (!pem) {
+    return null;
+  }
+  if (!privyVerificationKey) {
+    privyVerificationKey = createPublicKey(pem.replace(/\\n/g, "\n"));
+  }
+  return privyVerificationKey;
+}
+
+/**
+ * Verifies a Privy access token.
+ *
+ * @param {string} token - JWT from `getAccessToken()`
+ * @param {Date} [now=new Date()] - Current time
+ * @returns {string | null} Privy user DID, or null if the token is invalid or Privy isn't configured
+ */
+export function verifyPrivyAccessToken(token: string, now: Date = new Date()): string | null {
+  const key = getPrivyVerificationKey();
+  const [encodedHeader, encodedPayload, signature] = token.split(".");
+  if (!key || !encodedHeader || !encodedPayload || !signature) {
+    return null;
+  }
+
+  const header = decodeJwtSegment(encodedHeader);
+  const payload = decodeJwtSegment(encodedPayload);
+  if (header?.alg !== "ES256" || !payload) {
+    return null;
+  }
+
+  const validSignature = verify(
+    "sha256",
+    Buffer.from(`${encodedHeader}.${encodedPayload}`),
+    { key, dsaEncoding: "ieee-p1363" },
+    Buffer.from(signature, "base64url")
+  );
+  if (!validSignature) {
+    return null;
+  }
+
+  const nowSeconds = Math.floor(now.getTime() / 1000);
+  if (
+    payload.iss !== PRIVY_ISSUER ||
+    payload.aud !== process.env.NEXT_PUBLIC_PRIVY_APP_ID ||
+    typeof payload.exp !== "number" ||
+    payload.exp <= nowSeconds ||
+    typeof payload.sub !== "string"
+  ) {
+    return null;
+  }
+
+  return payload.sub;
+}
+
+/**
+ * Fetches the wallet addresses linked to a Privy user.
+ *
+ * @param {string} userId - Privy user DID
+ * @returns {Promise<string[]>} Lowercased addresses
+ * @throws {Error} If PRIVY_APP_SECRET is missing or the Privy API fails
+ */
+export async function getPrivyWalletAddresses(userId: string): Promise<string[]> {
+  const cached = walletCache.get(userId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.addresses;
+  }
+
+  const appId = process.env.NEXT_PUBLIC_PRIVY_APP_ID;
+  const appSecret = process.env.PRIVY_APP_SECRET;
+  if (!appId || !appSecret) {
+    throw new Error("PRIVY_APP_SECRET is not configured");
+  }
+
+  const response = await fetch(`${PRIVY_API_URL}/users/${encodeURIComponent(userId)}`, {
+    headers: {
+      Authorization: `Basic ${Buffer.from(`${appId}:${appSecret}`).toString("base64")}`,
+      "privy-app-id": appId,
+    },
+  });
+  if (!response.ok) {
+    throw new Error(`Privy API error: ${response.status}`);
+  }
+
+  const user = (await response.json()) as {
+    linked_accounts?: Array<{ type?: string; address?: string }>;
+  };
+  const addresses = (user.linked_accounts || [])
+    .filter((account) => account.type === "wallet" && account.address)
+    .map((account) => account.address!.toLowerCase());
+
+  walletCache.set(userId, { addresses, expiresAt: Date.now() + WALLET_CACHE_TTL_MS });
+  return addresses;
+}
+
+/**
+ * Verifies a Farcaster Quick Auth JWT.
+ *
+ * @param {string} token - JWT from `sdk.quickAuth.getToken()`
+ * @param {string} domain - Domain the token must be issued for
+ * @returns {Promise<number | null>} FID, or null if the token is invalid
+ * @throws {Error} If verification fails for another reason (e.g. network)
+ */
+export async function verifyQuickAuthToken(token: string, domain: string): Promise<number | null> {
+  try {
+    const payload = await quickAuthClient.verifyJwt({ token, domain });
+    return Number(payload.sub);
+  } catch (error) {
+    if (error instanceof Errors.InvalidTokenError) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Looks up the primary Ethereum address of a Farcaster user.
+ *
+ * @param {number} fid - Farcaster ID
+ * @returns {Promise<string | null>} Lowercased address, or null if the user has none
+ * @throws {Error} If the Farcaster API fails
+ */
+export async function getFarcasterPrimaryAddress(fid: number): Promise<string | null> {
+  const response = await fetch(
+    `${FARCASTER_API_URL}/fc/primary-address?fid=${fid}&protocol=ethereum`
+  );
+  if (!response.ok) {
+    throw new Error(`Farcaster API error: ${response.status}`);
+  }
+
+  const data = (await response.json()) as {
+    result?: { address?: { address?: string } };
+  };
+  return data.result?.address?.address?.toLowerCase() || null;
+}
+
+/**
+ * Finds the active profile owning one of the addresses, through its primary
+ * wallet or a linked account.
+ *
+ * @param {string[]} addresses - Lowercased wallet addresses
+ * @returns {Promise<Profile | null>} Profile, or null if none matches
+ */
+export async function findProfileByWallets(addresses: string[]): Promise<Profile | null> {
+  if (addresses.length === 0) {
+    return null;
+  }
+
+  const { data: profiles } = await supabaseAdmin
+    .from("profiles")
+    .select("*")
+    .in("wallet_address", addresses)
+    .neq("status", "inactive")
+    .limit(1);
+  if (profiles && profiles.length > 0) {
+    return profiles[0] as Profile;
+  }
+
+  const { data: accounts } = await supabaseAdmin
+    .from("accounts")
+    .select("profile_id")
+    .in("address", addresses)
+    .eq("status", "active")
+    .limit(1);
+  if (!accounts || accounts.length === 0) {
+    return null;
+  }
+
+  const { data: profile } = await supabaseAdmin
+    .from("profiles")
+    .select("*")
+    .eq("id", accounts[0].profile_id)
+    .neq("status", "inactive")
+    .maybeSingle();
+  return (profile as Profile | null) || null;
+}
+
+/**
+ * Verifies the session token of a request and loads the caller's profile.
+ *
+ * @param {Request} request - Incoming request
+ * @returns {Promise<SessionAuth | null>} Caller, or null if there is no valid token or no matching profile
+ */
+export async function authenticateSession(request: Request): Promise<SessionAuth | null> {
+  const token = getSessionToken(request);
+  if (!token) {
+    return null;
+  }
+
+  try {
+    const issuer = decodeJwtSegment(token.split(".")[1] || "")?.iss;
+
+    if (issuer === PRIVY_ISSUER) {
+      const userId = verifyPrivyAccessToken(token);
+      if (!userId) {
+        return null;
+      }
+      const profile = await findProfileByWallets(await getPrivyWalletAddresses(userId));
+      return profile ? { profile, method: "privy", subject: userId } : null;
+    }
+
+    const domain = getAppHost();
+    if (!domain) {
+      console.error("[server-auth] NEXT_PUBLIC_URL is not set; Quick Auth tokens cannot be verified");
+      return null;
+    }
+    const fid = await verifyQuickAuthToken(token, domain);
+    if (!fid) {
+      return null;
+    }
+    const address = await getFarcasterPrimaryAddress(fid);
+    const profile = await findProfileByWallets(address ? [address] : []);
+    return profile ? { profile, method: "quick-auth", subject: String(fid) } : null;
+  } catch (error) {
+    console.error("[server-auth] Session verification failed:", error);
+    return null;
+  }
+}
+
+/**
+ * Whether requests without a session may name their profile. Local
+ * development only, and only when opted into with ALLOW_UNVERIFIED_PROFILE=true.
+ *
+ * @private
+ */
+function allowsUnverifiedProfile(): boolean {
+  return process.env.NODE_ENV !== "production" && process.env.ALLOW_UNVERIFIED_PROFILE === "true";
+}
+
+/**
+ * Authenticates the caller of a route that changes data. When the request
+ * also names a profile (e.g. `profile_id` in the body) it must be the
+ * caller's own.
+ *
+ * @param {Request} request - Incoming request
+ * @param {unknown} [claimedProfileId] - Profile named by the request, if any
+ * @returns {Promise<SessionProfileCheck>} Caller's profile or the error to return
+ *
+ * @example
+ * ```typescript
+ * const session = await requireSessionProfile(request, body.profile_id);
+ * if (!session.ok) {
+ *   return NextResponse.json({ error: session.message }, { status: session.status });
+ * }
+ * ```
+ */
+export async function requireSessionProfile(
+  request: Request,
+  claimedProfileId?: unknown
+): Promise<SessionProfileCheck> {
+  const session = await authenticateSession(request);
+
+  if (!session) {
+    if (allowsUnverifiedProfile() && typeof claimedProfileId === "string" && claimedProfileId) {
+      const { data: profile } = await supabaseAdmin
+        .from("profiles")
+        .select("*")
+        .eq("id", claimedProfileId)
+        .neq("status", "inactive")
+        .maybeSingle();
+      if (profile) {
+        console.warn("[server-auth] ALLOW_UNVERIFIED_PROFILE is set; trusting the request's profile");
+        return { ok: true, profile: profile as Profile };
+      }
+    }
+    return { ok: false, status: 401, message: "Authentication required" };
+  }
+
+  if (claimedProfileId && claimedProfileId !== session.profile.id) {
+    return { ok: false, status: 403, message: "Profile does not match the authenticated user" };
+  }
+
+  return { ok: true, profile: session.profile };
+}
+
+/**
+ * Checks whether a profile may use the admin views. Admins are listed by
+ * profile ID in ADMIN_PROFILE_IDS (comma-separated).
+ *
+ * @param {string} profileId - Profile ID of the caller
+ * @returns {boolean} True for admins
+ */
+export function isAdminProfile(profileId: string): boolean {
+  return (process.env.ADMIN_PROFILE_IDS || "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean)
+    .includes(profileId);
+}
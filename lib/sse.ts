@@ -0,0 +1,103 @@
+/**
+ * @fileoverview Server-Sent Events helpers.
+ * Used on the server to stream AI chat responses and to read streaming
+ * provider APIs, and in the browser to consume the chat stream.
+ */
+
+/**
+ * Single Server-Sent Event. `event` is "message" when the event has no name.
+ */
+export interface SSEEvent {
+  event: string;
+  data: string;
+}
+
+/**
+ * Serializes an event for a text/event-stream response.
+ *
+ * @param {string} event - Event name
+ * @param {unknown} data - Payload, sent as JSON
+ * @returns {string} Encoded event
+ */
+export function formatSSEEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Parses one block of SSE lines into an event.
+ * Comment lines and unknown fields are ignored; multiple data lines are
+ * joined with newlines as the SSE format specifies.
+ *
+ * @param {string} block - Lines of one event, without the blank separator line
+ * @returns {SSEEvent | null} Event, or null for blocks without data
+ */
+export function parseSSEBlock(block: string): SSEEvent | null {
+  let event = "message";
+  const data: string[] = [];
+
+  for (const line of block.split(/\r?\n/)) {
+    if (!line || line.startsWith(":")) {
+      continue;
+    }
+    const separator = line.indexOf(":");
+    const field = separator === -1 ? line : line.slice(0, separator);
+    const value =
+      separator === -1 ? "" : line.slice(separator + 1).replace(/^ /, "");
+
+    if (field === "event") {
+      event = value;
+    } else if (field === "data") {
+      data.push(value);
+    }
+  }
+
+  return data.length > 0 ? { event, data: data.join("\n") } : null;
+}
+
+/**
+ * Reads a text/event-stream body and calls `onEvent` for every event.
+ * Resolves when the stream ends; rejects if reading fails (e.g. on abort) or
+ * if `onEvent` throws, in which case the stream is cancelled.
+ *
+ * @param {ReadableStream<Uint8Array>} body - Response body
+ * @param {function(SSEEvent): void} onEvent - Called for each event, in order
+ * @returns {Promise<void>}
+ */
+export async function readSSEStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: SSEEvent) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+
+      buffer += decoder.decode(value, { stream: true });
+      const blocks = buffer.split(/\r?\n\r?\n/);
+      buffer = blocks.pop() || "";
+      for (const block of blocks) {
+        const event = parseSSEBlock(block);
+        if (event) {
+          onEvent(event);
+        }
+      }
+    }
+
+    const event = parseSSEBlock(buffer + decoder.decode());
+    if (event) {
+      onEvent(event);
+    }
+  } catch (error) {
+    // Stop the underlying request when a handler or the read fails
+    reader.cancel().catch(() => {});
+    throw error;
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,602 @@
+/**
+ * @fileoverview Account statements.
+ * Builds a statement for one Account over a month or a custom range and
+ * renders it as CSV, OFX/QFX (for accounting tools) or PDF. A statement lists
+ * the account's AccountTransactions; the primary account also lists the
+ * profile's payments (Transactions) and investment movements, since those
+ * are sent from and paid into the primary wallet.
+ *
+ * Balances are derived backwards from the account's current balance, so only
+ * settled entries in the balance token move them. Other entries are listed
+ * for reference.
+ */
+
+import { authDownload } from "./auth-fetch";
+import { createTextPdf, type PdfLine } from "./pdf";
+import { DEFAULT_TOKEN, TOKENS, type TokenSymbol } from "./tokens";
+import type {
+  Account,
+  AccountTransaction,
+  InvestmentMovement,
+  Transaction,
+} from "./supabase";
+
+/**
+ * File formats a statement can be exported as.
+ * @typedef {"csv" | "ofx" | "qfx" | "pdf"} StatementFormat
+ */
+export type StatementFormat = "csv" | "ofx" | "qfx" | "pdf";
+
+/**
+ * Supported formats, in the order they are offered.
+ * @constant {StatementFormat[]}
+ */
+export const STATEMENT_FORMATS: StatementFormat[] = ["pdf", "csv", "ofx", "qfx"];
+
+/**
+ * Token the account balance is kept in.
+ * @constant {TokenSymbol}
+ */
+export const STATEMENT_BALANCE_TOKEN: TokenSymbol = DEFAULT_TOKEN;
+
+/**
+ * Longest range a statement may cover.
+ * @constant {number}
+ */
+export const MAX_STATEMENT_DAYS = 366;
+
+/**
+ * Time range of a statement, in UTC.
+ *
+ * @interface StatementPeriod
+ * @property {string} from - ISO timestamp of the first instant included
+ * @property {string} to - ISO timestamp of the first instant after the period
+ * @property {string} label - Human readable period, e.g. "March 2025"
+ */
+export interface StatementPeriod {
+  from: string;
+  to: string;
+  label: string;
+}
+
+/**
+ * One line of a statement.
+ *
+ * @interface StatementEntry
+ * @property {string} id - ID of the source row
+ * @property {"account_transaction" | "transaction" | "investment_movement"} source - Table the entry comes from
+ * @property {string} date - ISO timestamp
+ * @property {string} type - Kind of entry, e.g. "payment", "deposit", "reward"
+ * @property {string} description - What the entry is
+ * @property {string | null} counterparty - Other party, if known
+ * @property {string} token - Token symbol
+ * @property {number} amount - Signed amount; negative when funds leave the account
+ * @property {string} status - Status of the source row
+ * @property {boolean} affects_balance - Whether the entry moves the account balance
+ * @property {number | null} balance - Running balance after the entry, null if it doesn't move the balance
+ * @property {string | null} tx_hash - Blockchain transaction hash
+ */
+export interface StatementEntry {
+  id: string;
+  source: "account_transaction" | "transaction" | "investment_movement";
+  date: string;
+  type: string;
+  description: string;
+  counterparty: string | null;
+  token: string;
+  amount: number;
+  status: string;
+  affects_balance: boolean;
+  balance: number | null;
+  tx_hash: string | null;
+}
+
+/**
+ * Statement of one account over a period.
+ *
+ * @interface AccountStatement
+ * @property {Object} account - Account the statement is for
+ * @property {StatementPeriod} period - Period covered
+ * @property {string} currency - Token the balances are in
+ * @property {number} opening_balance - Balance at the start of the period
+ * @property {number} closing_balance - Balance at the end of the period
+ * @property {number} total_in - Sum of balance entries credited in the period
+ * @property {number} total_out - Sum of balance entries debited in the period, as a positive number
+ * @property {StatementEntry[]} entries - Entries in the period, oldest first
+ * @property {string} generated_at - ISO timestamp of generation
+ */
+export interface AccountStatement {
+  account: Pick<Account, "id" | "name" | "type" | "address" | "network">;
+  period: StatementPeriod;
+  currency: string;
+  opening_balance: number;
+  closing_balance: number;
+  total_in: number;
+  total_out: number;
+  entries: StatementEntry[];
+  generated_at: string;
+}
+
+/**
+ * Rows a statement is built from. Rows may extend past the period end; they
+ * are used to walk the current balance back to the closing balance.
+ *
+ * @interface StatementSource
+ * @property {Account} account - Account the statement is for
+ * @property {string} profileId - Owner of the account
+ * @property {AccountTransaction[]} accountTransactions - Account rows since the period start
+ * @property {Transaction[]} transactions - Payments since the period start, with recipient and sender names
+ * @property {InvestmentMovement[]} movements - Investment movements since the period start, with investment names
+ */
+export interface StatementSource {
+  account: Account;
+  profileId: string;
+  accountTransactions: AccountTransaction[];
+  transactions: Array<Transaction & { sender?: { name: string } | null }>;
+  movements: Array<InvestmentMovement & { investment?: { investment_name: string } | null }>;
+}
+
+/**
+ * Rounds to the smallest unit of USDC so sums don't drift.
+ * @private
+ */
+function round(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+/**
+ * Formats a UTC date as "1 Mar 2025".
+ * @private
+ */
+function formatDay(date: Date): string {
+  return date.toLocaleDateString("en-GB", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+/**
+ * Resolves the period of a statement from a month ("2025-03") or a custom
+ * range of days ("2025-03-01" to "2025-03-15", both included). Without
+ * either, the current month is used.
+ *
+ * @param {Object} input - Raw parameters
+ * @param {string | null} [input.month] - Month as YYYY-MM
+ * @param {string | null} [input.from] - First day as YYYY-MM-DD
+ * @param {string | null} [input.to] - Last day as YYYY-MM-DD
+ * @param {Date} [now=new Date()] - Current time
+ * @returns {{ period: StatementPeriod | null; error: string | null }} Period, or why the input is invalid
+ */
+export function parseStatementPeriod(
+  input: { month?: string | null; from?: string | null; to?: string | null },
+  now: Date = new Date()
+): { period: StatementPeriod | null; error: string | null } {
+  if (input.from || input.to) {
+    const day = /^\d{4}-\d{2}-\d{2}$/;
+    if (!input.from || !input.to || !day.test(input.from) || !day.test(input.to)) {
+      return { period: null, error: "from and to must both be dates (YYYY-MM-DD)" };
+    }
+    const from = new Date(`${input.from}T00:00:00.000Z`);
+    const last = new Date(`${input.to}T00:00:00.000Z`);
+    if (isNaN(from.getTime()) || isNaN(last.getTime())) {
+      return { period: null, error: "from and to must both be dates (YYYY-MM-DD)" };
+    }
+    if (from > last) {
+      return { period: null, error: "from must not be after to" };
+    }
+    const to = new Date(last.getTime() + 24 * 60 * 60 * 1000);
+    if ((to.getTime() - from.getTime()) / (24 * 60 * 60 * 1000) > MAX_STATEMENT_DAYS) {
+      return { period: null, error: `Statements cover at most ${MAX_STATEMENT_DAYS} days` };
+    }
+    return {
+      period: {
+        from: from.toISOString(),
+        to: to.toISOString(),
+        label: `${formatDay(from)} - ${formatDay(last)}`,
+      },
+      error: null,
+    };
+  }
+
+  let year = now.getUTCFullYear();
+  let month = now.getUTCMonth();
+  if (input.month) {
+    const match = /^(\d{4})-(\d{2})$/.exec(input.month);
+    if (!match || Number(match[2]) < 1 || Number(match[2]) > 12) {
+      return { period: null, error: "month must be YYYY-MM" };
+    }
+    year = Number(match[1]);
+    month = Number(match[2]) - 1;
+  }
+
+  const from = new Date(Date.UTC(year, month, 1));
+  return {
+    period: {
+      from: from.toISOString(),
+      to: new Date(Date.UTC(year, month + 1, 1)).toISOString(),
+      label: from.toLocaleDateString("en-GB", { month: "long", year: "numeric", timeZone: "UTC" }),
+    },
+    error: null,
+  };
+}
+
+/**
+ * Turns source rows into statement entries, oldest first, without balances.
+ *
+ * @private
+ */
+function toStatementEntries(source: StatementSource): StatementEntry[] {
+  const isBalanceToken = (token: string) => token === STATEMENT_BALANCE_TOKEN;
+  const entries: StatementEntry[] = [];
+
+  for (const tx of source.accountTransactions) {
+    const amount = parseFloat(tx.amount) || 0;
+    entries.push({
+      id: tx.id,
+      source: "account_transaction",
+      date: tx.created_at,
+      type: tx.direction === "in" ? "credit" : "debit",
+      description: tx.description || (tx.direction === "in" ? "Incoming transfer" : "Outgoing transfer"),
+      counterparty: tx.counterparty_name || tx.counterparty,
+      token: tx.token_symbol,
+      amount: tx.direction === "in" ? amount : -amount,
+      status: tx.status,
+      affects_balance: tx.status === "confirmed" && isBalanceToken(tx.token_symbol),
+      balance: null,
+      tx_hash: tx.tx_hash,
+    });
+  }
+
+  for (const tx of source.transactions) {
+    const amount = parseFloat(tx.amount) || 0;
+    const outgoing = tx.sender_profile_id === source.profileId;
+    entries.push({
+      id: tx.id,
+      source: "transaction",
+      date: tx.created_at,
+      type: "payment",
+      description: outgoing ? "Payment sent" : "Payment received",
+      counterparty: (outgoing ? tx.recipient?.name : tx.sender?.name) || null,
+      token: tx.token,
+      amount: outgoing ? -amount : amount,
+      status: tx.status,
+      affects_balance: tx.status === "success" && isBalanceToken(tx.token),
+      balance: null,
+      tx_hash: tx.tx_hash,
+    });
+  }
+
+  for (const movement of source.movements) {
+    const amount = parseFloat(movement.amount) || 0;
+    // Deposits leave the wallet for the vault and withdrawals come back;
+    // rewards and fees stay in the vault
+    const sign = movement.movement_type === "deposit" ? -1 : movement.movement_type === "withdrawal" ? 1 : 0;
+    entries.push({
+      id: movement.id,
+      source: "investment_movement",
+      date: movement.created_at,
+      type: movement.movement_type,
+      description: `Investment ${movement.movement_type}`,
+      counterparty: movement.investment?.investment_name || null,
+      token: movement.token,
+      amount: sign === 0 ? (movement.movement_type === "fee" ? -amount : amount) : sign * amount,
+      status: movement.status,
+      affects_balance: sign !== 0 && movement.status === "confirmed" && isBalanceToken(movement.token),
+      balance: null,
+      tx_hash: movement.tx_hash || null,
+    });
+  }
+
+  return entries.sort((a, b) =>
+    a.date === b.date ? a.id.localeCompare(b.id) : a.date < b.date ? -1 : 1
+  );
+}
+
+/**
+ * Builds a statement. The closing balance is the account's current balance
+ * minus everything settled after the period; the opening balance is the
+ * closing balance minus everything settled in the period.
+ *
+ * @param {StatementSource} source - Rows since the period start
+ * @param {StatementPeriod} period - Period covered
+ * @param {Date} [now=new Date()] - Generation time
+ * @returns {AccountStatement} Statement
+ */
+export function buildAccountStatement(
+  source: StatementSource,
+  period: StatementPeriod,
+  now: Date = new Date()
+): AccountStatement {
+  const all = toStatementEntries(source).filter((e) => e.date >= period.from);
+  const entries = all.filter((e) => e.date < period.to);
+  const net = (list: StatementEntry[]) =>
+    round(list.reduce((sum, e) => (e.affects_balance ? sum + e.amount : sum), 0));
+
+  const closing = round((parseFloat(source.account.balance) || 0) - net(all.filter((e) => e.date >= period.to)));
+  const opening = round(closing - net(entries));
+
+  let balance = opening;
+  let totalIn = 0;
+  let totalOut = 0;
+  for (const entry of entries) {
+    if (!entry.affects_balance) continue;
+    balance = round(balance + entry.amount);
+    entry.balance = balance;
+    if (entry.amount >= 0) {
+      totalIn = round(totalIn + entry.amount);
+    } else {
+      totalOut = round(totalOut - entry.amount);
+    }
+  }
+
+  const { id, name, type, address, network } = source.account;
+  return {
+    account: { id, name, type, address, network },
+    period,
+    currency: STATEMENT_BALANCE_TOKEN,
+    opening_balance: opening,
+    closing_balance: closing,
+    total_in: totalIn,
+    total_out: totalOut,
+    entries,
+    generated_at: now.toISOString(),
+  };
+}
+
+/**
+ * Formats an amount with the token's display decimals.
+ * @private
+ */
+function formatAmount(amount: number, token: string): string {
+  const decimals = TOKENS[token as TokenSymbol]?.displayDecimals ?? 6;
+  return amount.toFixed(decimals);
+}
+
+/**
+ * Quotes a CSV field. Text that a spreadsheet would run as a formula is
+ * prefixed with a quote.
+ * @private
+ */
+function csvField(value: string | number | null, text = false): string {
+  let field = value === null ? "" : String(value);
+  if (text && /^[=+\-@\t\r]/.test(field)) {
+    field = `'${field}`;
+  }
+  return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+}
+
+/**
+ * Renders a statement as CSV, with opening and closing balance rows around
+ * the entries.
+ *
+ * @param {AccountStatement} statement - Statement
+ * @returns {string} CSV text
+ */
+export function formatStatementCsv(statement: AccountStatement): string {
+  const { currency } = statement;
+  const rows = [
+    ["Date", "Type", "Description", "Counterparty", "Token", "Amount", "Balance", "Status", "Tx Hash", "Source", "Reference"],
+    [statement.period.from, "opening_balance", "Opening balance", "", currency, "", formatAmount(statement.opening_balance, currency), "", "", "", ""],
+    ...statement.entries.map((e) => [
+      e.date,
+      e.type,
+      csvField(e.description, true),
+      csvField(e.counterparty, true),
+      e.token,
+      formatAmount(e.amount, e.token),
+      e.balance === null ? "" : formatAmount(e.balance, currency),
+      e.status,
+      e.tx_hash || "",
+      e.source,
+      e.id,
+    ]),
+    [statement.period.to, "closing_balance", "Closing balance", "", currency, "", formatAmount(statement.closing_balance, currency), "", "", "", ""],
+  ];
+  return rows.map((row) => row.join(",")).join("\r\n") + "\r\n";
+}
+
+/**
+ * Formats a timestamp as an OFX date (YYYYMMDDHHMMSS in UTC).
+ * @private
+ */
+function ofxDate(iso: string): string {
+  return `${iso.slice(0, 19).replace(/[-:T]/g, "")}[0:GMT]`;
+}
+
+/**
+ * Escapes text for an OFX SGML element and applies its length limit.
+ * @private
+ */
+function ofxText(value: string, maxLength: number): string {
+  return value
+    .replace(/[^\x20-\x7e]/g, "")
+    .slice(0, maxLength)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+/**
+ * Renders a statement as OFX 1.0.2, or QFX when an Intuit bank ID is given.
+ * Only entries that move the balance are included, so the ledger balance
+ * reconciles in accounting tools.
+ *
+ * @param {AccountStatement} statement - Statement
+ * @param {Object} [options] - Output options
+ * @param {string} [options.intuBid] - Intuit bank ID; adds the INTU.BID element Quicken requires
+ * @returns {string} OFX text
+ */
+export function formatStatementOfx(
+  statement: AccountStatement,
+  options: { intuBid?: string } = {}
+): string {
+  const currency = TOKENS[statement.currency as TokenSymbol]?.peg || "USD";
+  const transactions = statement.entries
+    .filter((e) => e.affects_balance)
+    .map((e) =>
+      [
+        "<STMTTRN>",
+        `<TRNTYPE>${e.amount >= 0 ? "CREDIT" : "DEBIT"}`,
+        `<DTPOSTED>${ofxDate(e.date)}`,
+        `<TRNAMT>${e.amount.toFixed(2)}`,
+        `<FITID>${e.id}`,
+        `<NAME>${ofxText(e.counterparty || e.description, 32)}`,
+        `<MEMO>${ofxText(e.tx_hash ? `${e.description} ${e.tx_hash}` : e.description, 255)}`,
+        "</STMTTRN>",
+      ].join("\n")
+    );
+
+  return [
+    "OFXHEADER:100",
+    "DATA:OFXSGML",
+    "VERSION:102",
+    "SECURITY:NONE",
+    "ENCODING:USASCII",
+    "CHARSET:1252",
+    "COMPRESSION:NONE",
+    "OLDFILEUID:NONE",
+    "NEWFILEUID:NONE",
+    "",
+    "<OFX>",
+    "<SIGNONMSGSRSV1>",
+    "<SONRS>",
+    "<STATUS>",
+    "<CODE>0",
+    "<SEVERITY>INFO",
+    "</STATUS>",
+    `<DTSERVER>${ofxDate(statement.generated_at)}`,
+    "<LANGUAGE>ENG",
+    "<FI>",
+    "<ORG>banb",
+    "<FID>banb",
+    "</FI>",
+    ...(options.intuBid ? [`<INTU.BID>${options.intuBid}`] : []),
+    "</SONRS>",
+    "</SIGNONMSGSRSV1>",
+    "<BANKMSGSRSV1>",
+    "<STMTTRNRS>",
+    `<TRNUID>${statement.account.id}`,
+    "<STATUS>",
+    "<CODE>0",
+    "<SEVERITY>INFO",
+    "</STATUS>",
+    "<STMTRS>",
+    `<CURDEF>${currency}`,
+    "<BANKACCTFROM>",
+    "<BANKID>banb",
+    `<ACCTID>${statement.account.address}`,
+    `<ACCTTYPE>${statement.account.type === "savings" ? "SAVINGS" : "CHECKING"}`,
+    "</BANKACCTFROM>",
+    "<BANKTRANLIST>",
+    `<DTSTART>${ofxDate(statement.period.from)}`,
+    `<DTEND>${ofxDate(statement.period.to)}`,
+    ...transactions,
+    "</BANKTRANLIST>",
+    "<LEDGERBAL>",
+    `<BALAMT>${statement.closing_balance.toFixed(2)}`,
+    `<DTASOF>${ofxDate(statement.period.to)}`,
+    "</LEDGERBAL>",
+    "</STMTRS>",
+    "</STMTTRNRS>",
+    "</BANKMSGSRSV1>",
+    "</OFX>",
+    "",
+  ].join("\r\n");
+}
+
+/**
+ * Renders a statement as a PDF document.
+ *
+ * @param {AccountStatement} statement - Statement
+ * @returns {Uint8Array} PDF file
+ */
+export function formatStatementPdf(statement: AccountStatement): Uint8Array {
+  const { account, currency } = statement;
+  const column = (text: string, width: number) =>
+    text.length > width ? `${text.slice(0, width - 1)}~` : text.padEnd(width);
+  const money = (amount: number, token: string) => formatAmount(amount, token).padStart(14);
+  const rule = "-".repeat(92);
+
+  const lines: PdfLine[] = [
+    { text: `Account statement - ${statement.period.label}`, bold: true },
+    "",
+    `Account:    ${account.name} (${account.type})`,
+    `Address:    ${account.address}`,
+    `Network:    ${account.network}`,
+    `Period:     ${statement.period.from.slice(0, 10)} to ${statement.period.to.slice(0, 10)} (exclusive, UTC)`,
+    `Generated:  ${statement.generated_at.slice(0, 16).replace("T", " ")} UTC`,
+    "",
+    { text: "Summary", bold: true },
+    `Opening balance ${money(statement.opening_balance, currency)} ${currency}`,
+    `Money in        ${money(statement.total_in, currency)} ${currency}`,
+    `Money out       ${money(-statement.total_out, currency)} ${currency}`,
+    `Closing balance ${money(statement.closing_balance, currency)} ${currency}`,
+    "",
+    { text: `${column("Date", 11)}${column("Description", 24)}${column("Counterparty", 18)}${"Amount".padStart(14)} ${column("Token", 5)}${"Balance".padStart(14)}`, bold: true },
+    rule,
+    `${column(statement.period.from.slice(0, 10), 11)}${column("Opening balance", 24)}${column("", 18)}${"".padStart(14)} ${column("", 5)}${money(statement.opening_balance, currency)}`,
+  ];
+
+  for (const e of statement.entries) {
+    const description = e.affects_balance ? e.description : `${e.description} (${e.status})`;
+    lines.push(
+      `${column(e.date.slice(0, 10), 11)}${column(description, 24)}${column(e.counterparty || "", 18)}` +
+        `${money(e.amount, e.token)} ${column(e.token, 5)}${e.balance === null ? "" : money(e.balance, currency)}`
+    );
+  }
+
+  lines.push(
+    rule,
+    `${column("", 11)}${column("Closing balance", 24)}${column("", 18)}${"".padStart(14)} ${column("", 5)}${money(statement.closing_balance, currency)}`,
+    "",
+    `Entries without a balance are pending, failed, held in the vault or in another token than ${currency}.`
+  );
+
+  return createTextPdf(lines, { title: `${account.name} statement ${statement.period.label}` });
+}
+
+/**
+ * Builds the download URL of a statement.
+ *
+ * @param {string} accountId - Account ID
+ * @param {string} profileId - Owner of the account
+ * @param {StatementFormat} format - File format
+ * @param {{ month?: string; from?: string; to?: string }} range - Month (YYYY-MM) or days (YYYY-MM-DD)
+ * @returns {string} Relative URL of the statement route
+ */
+export function getStatementUrl(
+  accountId: string,
+  profileId: string,
+  format: StatementFormat,
+  range: { month?: string; from?: string; to?: string }
+): string {
+  const params = new URLSearchParams({ profile_id: profileId, format });
+  for (const key of ["month", "from", "to"] as const) {
+    if (range[key]) params.set(key, range[key]!);
+  }
+  return `/api/accounts/${accountId}/statement?${params.toString()}`;
+}
+
+/**
+ * Downloads a statement for the signed-in owner of the account.
+ *
+ * @param {string} accountId - Account ID
+ * @param {string} profileId - Owner of the account
+ * @param {StatementFormat} format - File format
+ * @param {{ month?: string; from?: string; to?: string }} range - Month (YYYY-MM) or days (YYYY-MM-DD)
+ * @returns {Promise<void>}
+ * @throws {Error} If the statement cannot be generated
+ */
+export async function downloadStatement(
+  accountId: string,
+  profileId: string,
+  format: StatementFormat,
+  range: { month?: string; from?: string; to?: string }
+): Promise<void> {
+  await authDownload(
+    getStatementUrl(accountId, profileId, format, range),
+    `statement.${format}`
+  );
+}
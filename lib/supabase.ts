@@ -31,6 +31,7 @@ export const supabase = createClient(supabaseUrl, supabaseAnonKey);
  * @property {string} handle - Unique handle in format: {first3letters}{3random} (e.g., "joh7x2")
  * @property {string} wallet_address - Ethereum wallet address (lowercase)
  * @property {"active" | "inactive"} [status] - Account status, defaults to "active"
+ * @property {"free" | "pro" | "ambassador"} [plan] - Subscription plan, defaults to "free"
  * @property {string} created_at - ISO timestamp of profile creation
  * @property {string} updated_at - ISO timestamp of last update
  */
@@ -40,6 +41,7 @@ export interface Profile {
   handle: string;
   wallet_address: string;
   status?: "active" | "inactive";
+  plan?: "free" | "pro" | "ambassador";
   created_at: string;
   updated_at: string;
 }
@@ -78,18 +80,22 @@ export interface Recipient {
  * Supports international (IBAN) and US (routing/account number) formats.
  *
  * @interface BankDetails
- * @property {string} iban - International Bank Account Number
+ * @property {string} iban - International Bank Account Number, normalized (empty for US and UK domestic accounts)
  * @property {string} country - ISO country code (e.g., "US", "GB", "DE")
  * @property {string} currency - Currency code (e.g., "USD", "EUR", "GBP")
+ * @property {string} [bic] - BIC (SWIFT code) of the bank
  * @property {string} [routing_number] - US bank routing number (ABA)
- * @property {string} [account_number] - US bank account number
+ * @property {string} [sort_code] - UK sort code, six digits without dashes
+ * @property {string} [account_number] - US or UK bank account number
  * @property {string} [bank_name] - Name of the bank institution
  */
 export interface BankDetails {
   iban: string;
   country: string;
   currency: string;
+  bic?: string;
   routing_number?: string;
+  sort_code?: string;
   account_number?: string;
   bank_name?: string;
 }
@@ -108,6 +114,10 @@ export interface BankDetails {
  * @property {string} token - Token symbol (e.g., "USDC", "ETH")
  * @property {"pending" | "sent" | "success" | "failed"} status - Transaction status
  * @property {string} created_at - ISO timestamp of creation
+ * @property {string | null} [scheduled_payment_id] - Schedule that queued this transaction, if any
+ * @property {string | null} [payment_request_id] - Payment request settled by this transaction, if any
+ * @property {string | null} [reconciled_at] - ISO timestamp of the last reconciliation check
+ * @property {string | null} [reconciliation_held_at] - ISO timestamp the transaction was held for review by reconciliation
  * @property {Object} [recipient] - Populated recipient details (from join)
  * @property {string} recipient.name - Recipient's display name
  * @property {string} recipient.profile_id - Recipient's profile ID
@@ -123,6 +133,10 @@ export interface Transaction {
   token: string;
   status: "pending" | "sent" | "success" | "failed";
   created_at: string;
+  scheduled_payment_id?: string | null;
+  payment_request_id?: string | null;
+  reconciled_at?: string | null;
+  reconciliation_held_at?: string | null;
   recipient?: {
     name: string;
     profile_id: string;
@@ -130,6 +144,263 @@ export interface Transaction {
   };
 }
 
+/**
+ * Recurring payment schedule stored in the scheduled_payments table.
+ * A server job queues a pending transaction each time the schedule is due;
+ * the user confirms it with their wallet the next time they open the app.
+ *
+ * @interface ScheduledPayment
+ * @property {string} id - Unique identifier (UUID)
+ * @property {string} profile_id - Profile ID of the payer
+ * @property {string} recipient_id - References recipients table
+ * @property {string} amount - Amount per run as string (numeric(20,8) in DB)
+ * @property {string} token - Token symbol (e.g., "USDC")
+ * @property {string} chain - Blockchain network (e.g., "base")
+ * @property {"weekly" | "monthly"} frequency - Repeat unit
+ * @property {number} interval_count - Repeat every N weeks or months (1 = every week/month)
+ * @property {number | null} day_of_week - Day of week for weekly schedules (0 = Sunday)
+ * @property {number | null} day_of_month - Day of month for monthly schedules (1-31, clamped to month end)
+ * @property {string} start_date - ISO date the schedule starts from
+ * @property {string | null} end_date - ISO date after which no more runs are queued
+ * @property {number | null} max_runs - Maximum number of runs, null for unlimited
+ * @property {number} run_count - Number of runs queued so far
+ * @property {string | null} next_run_at - ISO timestamp of the next run (null once finished)
+ * @property {string | null} last_run_at - ISO timestamp of the last queued run
+ * @property {"active" | "paused" | "cancelled" | "completed"} status - Schedule status
+ * @property {string | null} note - Optional note shown with queued payments
+ * @property {string} created_at - ISO timestamp of creation
+ * @property {string} updated_at - ISO timestamp of last update
+ * @property {Object} [recipient] - Populated recipient details (from join)
+ */
+export interface ScheduledPayment {
+  id: string;
+  profile_id: string;
+  recipient_id: string;
+  amount: string;
+  token: string;
+  chain: string;
+  frequency: "weekly" | "monthly";
+  interval_count: number;
+  day_of_week: number | null;
+  day_of_month: number | null;
+  start_date: string;
+  end_date: string | null;
+  max_runs: number | null;
+  run_count: number;
+  next_run_at: string | null;
+  last_run_at: string | null;
+  status: "active" | "paused" | "cancelled" | "completed";
+  note: string | null;
+  created_at: string;
+  updated_at: string;
+  recipient?: {
+    name: string;
+    external_address: string | null;
+  };
+}
+
+/**
+ * Request for money sent from one Banb profile to another, stored in the
+ * payment_requests table. Split bills create one request per participant.
+ *
+ * @interface PaymentRequest
+ * @property {string} id - Unique identifier (UUID)
+ * @property {string} requester_profile_id - Profile ID asking to be paid
+ * @property {string} payer_profile_id - Profile ID being asked to pay
+ * @property {string} amount - Requested amount as string (numeric(20,8) in DB)
+ * @property {string} token - Token symbol (e.g., "USDC")
+ * @property {string} chain - Blockchain network (e.g., "base")
+ * @property {string | null} note - Optional note shown to the payer
+ * @property {"requested" | "paid" | "declined" | "expired"} status - Request status
+ * @property {string | null} split_id - Split bill this request belongs to, if any
+ * @property {string | null} transaction_id - Transaction that paid the request
+ * @property {string} expires_at - ISO timestamp after which the request can no longer be paid
+ * @property {string | null} paid_at - ISO timestamp of payment
+ * @property {string} created_at - ISO timestamp of creation
+ * @property {string} updated_at - ISO timestamp of last update
+ * @property {Object} [requester] - Populated requester profile (from join)
+ * @property {Object} [payer] - Populated payer profile (from join)
+ */
+export interface PaymentRequest {
+  id: string;
+  requester_profile_id: string;
+  payer_profile_id: string;
+  amount: string;
+  token: string;
+  chain: string;
+  note: string | null;
+  status: "requested" | "paid" | "declined" | "expired";
+  split_id: string | null;
+  transaction_id: string | null;
+  expires_at: string;
+  paid_at: string | null;
+  created_at: string;
+  updated_at: string;
+  requester?: {
+    name: string;
+    handle: string;
+  };
+  payer?: {
+    name: string;
+    handle: string;
+  };
+}
+
+/**
+ * Fiat off-ramp withdrawal stored in the withdrawals table.
+ * Created from a provider quote; the user then signs a USDC transfer to the
+ * provider's deposit address, and the provider pays out to the IBAN.
+ *
+ * @interface Withdrawal
+ * @property {string} id - Unique identifier (UUID)
+ * @property {string} profile_id - Profile ID of the user withdrawing
+ * @property {string} amount - Crypto amount sent to the provider as string (numeric(20,8) in DB)
+ * @property {string} token - Token symbol sent (e.g., "USDC")
+ * @property {string} chain - Network the transfer is sent on (e.g., "base")
+ * @property {string} fiat_currency - Payout currency (e.g., "EUR")
+ * @property {string} fiat_amount - Amount paid out to the bank account, after fees
+ * @property {string} fx_rate - Token to fiat rate quoted by the provider
+ * @property {string} fee - Provider fee, in the payout currency
+ * @property {string} iban - Destination IBAN, normalized (no spaces, upper case)
+ * @property {string} account_holder - Name on the destination bank account
+ * @property {string | null} bank_name - Destination bank name, if provided
+ * @property {string} provider - Off-ramp provider name (e.g., "mock")
+ * @property {string} provider_quote_id - Quote ID at the provider
+ * @property {string | null} provider_reference - Payout reference at the provider, set once submitted
+ * @property {string} deposit_address - Provider address the user must send funds to
+ * @property {string | null} tx_hash - Hash of the user's transfer to the deposit address
+ * @property {"quoted" | "submitted" | "processing" | "settled" | "returned" | "expired" | "failed"} status - Withdrawal status
+ * @property {string | null} failure_reason - Why the payout was returned or failed
+ * @property {string} quote_expires_at - ISO timestamp after which the quote can no longer be submitted
+ * @property {string | null} settled_at - ISO timestamp when the payout reached the bank account
+ * @property {string} created_at - ISO timestamp of creation
+ * @property {string} updated_at - ISO timestamp of last update
+ */
+export interface Withdrawal {
+  id: string;
+  profile_id: string;
+  amount: string;
+  token: string;
+  chain: string;
+  fiat_currency: string;
+  fiat_amount: string;
+  fx_rate: string;
+  fee: string;
+  iban: string;
+  account_holder: string;
+  bank_name: string | null;
+  provider: string;
+  provider_quote_id: string;
+  provider_reference: string | null;
+  deposit_address: string;
+  tx_hash: string | null;
+  status:
+    | "quoted"
+    | "submitted"
+    | "processing"
+    | "settled"
+    | "returned"
+    | "expired"
+    | "failed";
+  failure_reason: string | null;
+  quote_expires_at: string;
+  settled_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Fiat on-ramp deposit stored in the deposit_orders table.
+ * Created from a provider quote; the user then pays in the provider checkout
+ * with Google Pay or Apple Pay, and the provider webhook completes the order
+ * and credits an incoming account transaction.
+ *
+ * @interface DepositOrder
+ * @property {string} id - Unique identifier (UUID)
+ * @property {string} profile_id - Profile ID of the user depositing
+ * @property {string} account_id - Account credited with the deposit
+ * @property {string} wallet_address - Address the tokens are delivered to
+ * @property {"google-pay" | "apple-pay"} payment_method - Wallet the user pays with
+ * @property {string} fiat_amount - Amount paid, in the payment currency
+ * @property {string} fiat_currency - Payment currency (e.g., "EUR")
+ * @property {string} fee - Provider fee, in the payment currency
+ * @property {string} fx_rate - Fiat price of one token quoted by the provider
+ * @property {string} crypto_amount - Tokens delivered as string (numeric(20,8) in DB)
+ * @property {string} token - Token symbol delivered (e.g., "USDC")
+ * @property {string} chain - Network the tokens are delivered on (e.g., "base")
+ * @property {string} provider - On-ramp provider name (e.g., "mock")
+ * @property {string} provider_quote_id - Quote ID at the provider
+ * @property {string | null} provider_reference - Order reference at the provider, set at checkout
+ * @property {string | null} widget_url - Provider checkout URL, set at checkout
+ * @property {string | null} tx_hash - Hash of the provider's delivery transaction
+ * @property {string | null} account_transaction_id - Incoming account transaction created on completion
+ * @property {"quoted" | "pending" | "processing" | "completed" | "expired" | "failed"} status - Order status
+ * @property {string | null} failure_reason - Why the payment failed
+ * @property {string} quote_expires_at - ISO timestamp after which the quote can no longer be checked out
+ * @property {string | null} completed_at - ISO timestamp when the deposit was credited
+ * @property {string} created_at - ISO timestamp of creation
+ * @property {string} updated_at - ISO timestamp of last update
+ */
+export interface DepositOrder {
+  id: string;
+  profile_id: string;
+  account_id: string;
+  wallet_address: string;
+  payment_method: "google-pay" | "apple-pay";
+  fiat_amount: string;
+  fiat_currency: string;
+  fee: string;
+  fx_rate: string;
+  crypto_amount: string;
+  token: string;
+  chain: string;
+  provider: string;
+  provider_quote_id: string;
+  provider_reference: string | null;
+  widget_url: string | null;
+  tx_hash: string | null;
+  account_transaction_id: string | null;
+  status:
+    | "quoted"
+    | "pending"
+    | "processing"
+    | "completed"
+    | "expired"
+    | "failed";
+  failure_reason: string | null;
+  quote_expires_at: string;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Bill split across several profiles, stored in the payment_splits table.
+ * Each participant other than the creator receives a PaymentRequest.
+ *
+ * @interface PaymentSplit
+ * @property {string} id - Unique identifier (UUID)
+ * @property {string} profile_id - Profile ID of the creator (who paid the bill)
+ * @property {string} title - Description of the bill (e.g., "Dinner")
+ * @property {string} total_amount - Full bill amount as string (numeric(20,8) in DB)
+ * @property {string} token - Token symbol (e.g., "USDC")
+ * @property {"even" | "custom"} split_mode - How the total was divided
+ * @property {string} created_at - ISO timestamp of creation
+ * @property {string} updated_at - ISO timestamp of last update
+ * @property {PaymentRequest[]} [requests] - Populated participant requests (from join)
+ */
+export interface PaymentSplit {
+  id: string;
+  profile_id: string;
+  title: string;
+  total_amount: string;
+  token: string;
+  split_mode: "even" | "custom";
+  created_at: string;
+  updated_at: string;
+  requests?: PaymentRequest[];
+}
+
 export interface Investment {
   id: string;
   profile_id: string;
@@ -159,6 +430,38 @@ export interface InvestmentMovement {
   updated_at?: string;
 }
 
+/**
+ * Daily onchain snapshot of an investment position, stored in the
+ * investment_snapshots table (one row per investment per UTC day).
+ * Written by the position sync; the rewards charts are built from these rows.
+ *
+ * @interface InvestmentSnapshot
+ * @property {string} id - Unique identifier (UUID)
+ * @property {string} investment_id - References investments table
+ * @property {string} profile_id - Owner's profile ID
+ * @property {string} snapshot_date - UTC day of the snapshot (YYYY-MM-DD)
+ * @property {string} shares - Vault shares held, in raw units
+ * @property {string} assets - Value of the shares in USDC (`convertToAssets`)
+ * @property {string} principal - `amount_invested` at the time of the snapshot
+ * @property {string} accrued_yield - Yield accrued during the day, in USDC
+ * @property {string} cumulative_yield - Yield accrued since the first snapshot, in USDC
+ * @property {string} synced_at - ISO timestamp of the last sync that updated this row
+ * @property {string} created_at - ISO timestamp of creation
+ */
+export interface InvestmentSnapshot {
+  id: string;
+  investment_id: string;
+  profile_id: string;
+  snapshot_date: string;
+  shares: string;
+  assets: string;
+  principal: string;
+  accrued_yield: string;
+  cumulative_yield: string;
+  synced_at: string;
+  created_at: string;
+}
+
 /**
  * Account represents a connected wallet account for a user profile.
  * Users can have multiple accounts (spending, investment, savings).
@@ -203,6 +506,7 @@ export interface Account {
  * @property {string | null} counterparty - Counterparty wallet address or username
  * @property {string | null} counterparty_name - Display name of counterparty
  * @property {string | null} tx_hash - Blockchain transaction hash
+ * @property {number | null} [log_index] - Log index of the indexed transfer; unique with account_id and tx_hash
  * @property {string} token_symbol - Token symbol (e.g., "USDC", "ETH")
  * @property {string} network - Blockchain network
  * @property {"pending" | "confirmed" | "failed"} status - Transaction status
@@ -219,6 +523,7 @@ export interface AccountTransaction {
   counterparty: string | null;
   counterparty_name: string | null;
   tx_hash: string | null;
+  log_index?: number | null;
   token_symbol: string;
   network: string;
   status: "pending" | "confirmed" | "failed";
@@ -228,6 +533,88 @@ export interface AccountTransaction {
   updated_at: string;
 }
 
+/**
+ * Progress of the transfer indexer for one account, stored in the
+ * transfer_index_cursors table (one row per account).
+ *
+ * @interface TransferIndexCursor
+ * @property {string} account_id - References accounts table (primary key)
+ * @property {string} network - Network the account was scanned on
+ * @property {number} last_block - Highest block with an indexed transfer; the next scan starts there
+ * @property {string} last_scanned_at - ISO timestamp of the last completed scan
+ */
+export interface TransferIndexCursor {
+  account_id: string;
+  network: string;
+  last_block: number;
+  last_scanned_at: string;
+}
+
+/**
+ * Discrepancy between a payment record and what happened onchain.
+ *
+ * @interface ReconciliationIssue
+ * @property {"amount" | "recipient" | "sender" | "token" | "no_transfer"} kind - What differs
+ * @property {string} expected - Value from the transactions row
+ * @property {string | null} actual - Value decoded from the receipt, null if absent
+ */
+export interface ReconciliationIssue {
+  kind: "amount" | "recipient" | "sender" | "token" | "no_transfer";
+  expected: string;
+  actual: string | null;
+}
+
+/**
+ * Result of reconciling one stale transaction with its receipt.
+ *
+ * @interface ReconciliationItem
+ * @property {string} transaction_id - References transactions table
+ * @property {"pending" | "sent"} previous_status - Status before reconciliation
+ * @property {"pending" | "sent" | "success" | "failed"} status - Status after reconciliation
+ * @property {"confirmed" | "mismatch" | "reverted" | "dropped" | "not_found" | "error"} outcome - What the lookup found
+ * @property {number | null} block_number - Block the transaction was mined in
+ * @property {ReconciliationIssue[]} issues - Mismatches against the decoded transfer
+ * @property {string} [error] - Lookup error, when outcome is "error"
+ */
+export interface ReconciliationItem {
+  transaction_id: string;
+  tx_hash: string;
+  chain: string;
+  token: string;
+  amount: string;
+  previous_status: "pending" | "sent";
+  status: "pending" | "sent" | "success" | "failed";
+  outcome: "confirmed" | "mismatch" | "reverted" | "dropped" | "not_found" | "error";
+  block_number: number | null;
+  issues: ReconciliationIssue[];
+  error?: string;
+}
+
+/**
+ * One run of the transaction reconciliation worker, stored in the
+ * reconciliation_reports table.
+ *
+ * @interface ReconciliationReport
+ * @property {string} id - Unique identifier (UUID)
+ * @property {string} ran_at - ISO timestamp of the run
+ * @property {number} checked - Stale transactions looked up
+ * @property {number} succeeded - Transactions marked success
+ * @property {number} failed - Transactions marked failed
+ * @property {number} unresolved - Transactions left as they were, including mismatches
+ * @property {number} mismatches - Transactions with at least one issue
+ * @property {ReconciliationItem[]} items - Per-transaction results (JSONB)
+ */
+export interface ReconciliationReport {
+  id: string;
+  ran_at: string;
+  checked: number;
+  succeeded: number;
+  failed: number;
+  unresolved: number;
+  mismatches: number;
+  items: ReconciliationItem[];
+}
+
 /**
  * AI operation record stored in the ai_operations table.
  * Tracks AI agent interactions and operations for audit trail.
@@ -235,7 +622,7 @@ export interface AccountTransaction {
  * @interface AIOperation
  * @property {string} id - Unique identifier (UUID)
  * @property {string} profile_id - Profile ID of the user
- * @property {"payment" | "analysis" | "query"} operation_type - Type of operation
+ * @property {"payment" | "invest" | "withdraw_investment" | "recipient" | "analysis" | "query"} operation_type - Type of operation
  * @property {Record<string, unknown>} operation_data - Operation-specific data (JSONB)
  * @property {string} user_message - Original user message to AI
  * @property {string} ai_response - AI's response message
@@ -248,7 +635,7 @@ export interface AccountTransaction {
 export interface AIOperation {
   id: string;
   profile_id: string;
-  operation_type: "payment" | "analysis" | "query";
+  operation_type: "payment" | "invest" | "withdraw_investment" | "recipient" | "analysis" | "query";
   operation_data: Record<string, unknown>;
   user_message: string;
   ai_response: string;
@@ -258,3 +645,122 @@ export interface AIOperation {
   created_at: string;
   executed_at: string | null;
 }
+
+/**
+ * AI assistant conversation stored in the ai_conversations table.
+ * Turns that no longer fit the history window are folded into `summary`.
+ *
+ * @interface AIConversation
+ * @property {string} id - Unique identifier (UUID)
+ * @property {string} profile_id - Profile ID of the user
+ * @property {string} title - Conversation title (first message, or set by the user)
+ * @property {string | null} summary - Running summary of the turns folded out of the history window
+ * @property {string | null} summarized_until - created_at of the last message included in the summary
+ * @property {string} created_at - ISO timestamp of creation
+ * @property {string} updated_at - ISO timestamp of the last message or rename
+ */
+export interface AIConversation {
+  id: string;
+  profile_id: string;
+  title: string;
+  summary: string | null;
+  summarized_until: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Message in an AI conversation, stored in the ai_messages table.
+ *
+ * @interface AIConversationMessage
+ * @property {string} id - Unique identifier (UUID)
+ * @property {string} conversation_id - Conversation the message belongs to
+ * @property {string} profile_id - Profile ID of the user
+ * @property {"user" | "assistant"} role - Message sender role
+ * @property {string} content - Message text
+ * @property {boolean} cancelled - True if the user stopped the answer mid-stream
+ * @property {string} created_at - ISO timestamp of creation
+ */
+export interface AIConversationMessage {
+  id: string;
+  conversation_id: string;
+  profile_id: string;
+  role: "user" | "assistant";
+  content: string;
+  cancelled: boolean;
+  created_at: string;
+}
+
+/**
+ * AI spending policy stored in the ai_spending_policies table (one per profile).
+ * Limits are in US dollars; null means no limit.
+ *
+ * @interface AISpendingPolicy
+ * @property {string} id - Unique identifier (UUID)
+ * @property {string} profile_id - Owner's profile ID
+ * @property {number | null} per_transaction_limit - Largest single AI payment
+ * @property {number | null} daily_limit - AI payment volume allowed per 24 hours
+ * @property {number | null} weekly_limit - AI payment volume allowed per 7 days
+ * @property {boolean} allowlist_enabled - Only allow AI payments to allowed recipients
+ * @property {string[]} allowed_recipient_ids - Recipients the AI may pay when the allowlist is enabled
+ * @property {number} new_recipient_cooldown_hours - Hours before a new recipient can be paid by the AI (0 = off)
+ * @property {string} created_at - ISO timestamp of creation
+ * @property {string} updated_at - ISO timestamp of last update
+ */
+export interface AISpendingPolicy {
+  id: string;
+  profile_id: string;
+  per_transaction_limit: number | null;
+  daily_limit: number | null;
+  weekly_limit: number | null;
+  allowlist_enabled: boolean;
+  allowed_recipient_ids: string[];
+  new_recipient_cooldown_hours: number;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Personal access token stored in the personal_access_tokens table.
+ * Lets external clients (MCP clients, scripts) act for a profile within the
+ * token's scopes. Only a SHA-256 hash of the token is stored.
+ *
+ * @interface PersonalAccessToken
+ * @property {string} id - Unique identifier (UUID)
+ * @property {string} profile_id - Owner's profile ID
+ * @property {string} name - Label chosen by the user
+ * @property {string} token_hash - SHA-256 hex digest of the token
+ * @property {string} token_prefix - First characters of the token, shown to identify it
+ * @property {string[]} scopes - What the token may access
+ * @property {string} expires_at - ISO timestamp after which the token is rejected
+ * @property {string | null} last_used_at - ISO timestamp of the last authenticated request
+ * @property {string | null} revoked_at - ISO timestamp of revocation, null while active
+ * @property {string} created_at - ISO timestamp of creation
+ */
+export interface PersonalAccessToken {
+  id: string;
+  profile_id: string;
+  name: string;
+  token_hash: string;
+  token_prefix: string;
+  scopes: Array<"read:balances" | "read:transactions" | "read:recipients" | "ai:chat" | "ai:execute">;
+  expires_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+/**
+ * One AI assistant request, stored in the ai_usage_events table.
+ * The ledger backs both the per-minute rate limit and the monthly plan quota.
+ *
+ * @interface AIUsageEvent
+ * @property {string} id - Unique identifier (UUID)
+ * @property {string} profile_id - Profile that made the request
+ * @property {string} created_at - ISO timestamp of the request
+ */
+export interface AIUsageEvent {
+  id: string;
+  profile_id: string;
+  created_at: string;
+}
@@ -0,0 +1,634 @@
+/**
+ * @fileoverview Crypto tax report.
+ * Walks investment movements and transfers in date order and classifies
+ * them for a tax return:
+ * - vault rewards (net of vault fees) are income, summed per day and valued
+ *   in USD and EUR at that day's rates
+ * - non-stable tokens (e.g. ETH) are tracked in lots; sending them realizes a
+ *   gain or loss against their cost basis, using FIFO or average cost
+ * - stablecoin transfers and vault deposits/withdrawals are listed but not
+ *   taxable, since they are valued at their peg
+ * Reports are summarized per calendar year (UTC) and exported as line-item
+ * CSV. Pro plan feature, served by /api/tax-report.
+ */
+
+import { authDownload, authFetch } from "./auth-fetch";
+import { convertCurrency, getRateForDay, type DailyExchangeRates } from "./currency";
+import { TOKENS, type TokenSymbol } from "./tokens";
+import type {
+  AccountTransaction,
+  InvestmentMovement,
+  Transaction,
+} from "./supabase";
+
+/**
+ * How the cost of disposed tokens is determined.
+ * @typedef {"fifo" | "average"} CostBasisMethod
+ */
+export type CostBasisMethod = "fifo" | "average";
+
+/**
+ * Supported cost basis methods with their display labels.
+ * @constant {Record<CostBasisMethod, string>}
+ */
+export const COST_BASIS_METHODS: Record<CostBasisMethod, string> = {
+  fifo: "FIFO",
+  average: "Average cost",
+};
+
+/**
+ * Checks whether a value is a supported cost basis method.
+ *
+ * @param {unknown} value - Value to check
+ * @returns {boolean} True for "fifo" and "average"
+ */
+export function isCostBasisMethod(value: unknown): value is CostBasisMethod {
+  return typeof value === "string" && value in COST_BASIS_METHODS;
+}
+
+/**
+ * Settled movement of funds the report is built from. Amounts are positive.
+ *
+ * @interface TaxEvent
+ * @property {string} id - ID of the source row
+ * @property {"investment_movement" | "transaction" | "account_transaction"} source - Table the event comes from
+ * @property {string} date - ISO timestamp
+ * @property {"reward" | "fee" | "vault_deposit" | "vault_withdrawal" | "transfer_in" | "transfer_out"} type - What happened
+ * @property {string} token - Token symbol
+ * @property {number} amount - Amount of tokens
+ * @property {string | null} tx_hash - Blockchain transaction hash
+ */
+export interface TaxEvent {
+  id: string;
+  source: "investment_movement" | "transaction" | "account_transaction";
+  date: string;
+  type: "reward" | "fee" | "vault_deposit" | "vault_withdrawal" | "transfer_in" | "transfer_out";
+  token: string;
+  amount: number;
+  tx_hash: string | null;
+}
+
+/**
+ * One line of the report.
+ *
+ * @interface TaxLineItem
+ * @property {string} day - Day (YYYY-MM-DD, UTC)
+ * @property {"income" | "disposal" | "acquisition" | "non_taxable"} kind - Tax treatment
+ * @property {TaxEvent["type"]} category - What happened
+ * @property {string} token - Token symbol
+ * @property {number} amount - Amount of tokens (rewards: net of fees for the day)
+ * @property {number} usd_value - Value in USD on the day
+ * @property {number} eur_value - Value in EUR on the day
+ * @property {number} usd_eur_rate - USD to EUR rate used
+ * @property {number | null} cost_basis_usd - Cost of the disposed tokens in USD (disposals only)
+ * @property {number | null} cost_basis_eur - Cost of the disposed tokens in EUR (disposals only)
+ * @property {number | null} gain_usd - Realized gain or loss in USD (disposals only)
+ * @property {number | null} gain_eur - Realized gain or loss in EUR (disposals only)
+ * @property {string[]} references - IDs of the source rows
+ * @property {string | null} tx_hash - Blockchain transaction hash, when the line has a single one
+ */
+export interface TaxLineItem {
+  day: string;
+  kind: "income" | "disposal" | "acquisition" | "non_taxable";
+  category: TaxEvent["type"];
+  token: string;
+  amount: number;
+  usd_value: number;
+  eur_value: number;
+  usd_eur_rate: number;
+  cost_basis_usd: number | null;
+  cost_basis_eur: number | null;
+  gain_usd: number | null;
+  gain_eur: number | null;
+  references: string[];
+  tx_hash: string | null;
+}
+
+/**
+ * Totals of one tax year.
+ *
+ * @interface TaxYearSummary
+ * @property {number} year - Calendar year
+ * @property {number} income_usd - Yield income in USD
+ * @property {number} income_eur - Yield income in EUR
+ * @property {number} income_days - Days with yield income
+ * @property {number} proceeds_usd - Value of disposed non-stable tokens in USD
+ * @property {number} proceeds_eur - Value of disposed non-stable tokens in EUR
+ * @property {number} cost_basis_usd - Cost of disposed non-stable tokens in USD
+ * @property {number} cost_basis_eur - Cost of disposed non-stable tokens in EUR
+ * @property {number} realized_gain_usd - Proceeds minus cost basis in USD
+ * @property {number} realized_gain_eur - Proceeds minus cost basis in EUR
+ * @property {number} disposals - Number of disposals
+ */
+export interface TaxYearSummary {
+  year: number;
+  income_usd: number;
+  income_eur: number;
+  income_days: number;
+  proceeds_usd: number;
+  proceeds_eur: number;
+  cost_basis_usd: number;
+  cost_basis_eur: number;
+  realized_gain_usd: number;
+  realized_gain_eur: number;
+  disposals: number;
+}
+
+/**
+ * Complete tax report of a profile.
+ *
+ * @interface TaxReport
+ * @property {CostBasisMethod} method - Cost basis method used
+ * @property {TaxYearSummary[]} years - Summary per year, oldest first
+ * @property {TaxLineItem[]} lines - Line items, oldest first
+ * @property {string[]} warnings - Gaps in the data that make figures less reliable
+ * @property {string} generated_at - ISO timestamp of generation
+ */
+export interface TaxReport {
+  method: CostBasisMethod;
+  years: TaxYearSummary[];
+  lines: TaxLineItem[];
+  warnings: string[];
+  generated_at: string;
+}
+
+/**
+ * USD prices of non-stable tokens, keyed by token and day (YYYY-MM-DD).
+ * @typedef {Record<string, Record<string, number>>} DailyTokenPrices
+ */
+export type DailyTokenPrices = Record<string, Record<string, number>>;
+
+/**
+ * Tokens held in a lot, with what they cost.
+ * @private
+ */
+interface Lot {
+  amount: number;
+  cost_usd: number;
+  cost_eur: number;
+}
+
+/**
+ * Rounds away floating point noise so sums don't drift.
+ * @private
+ */
+function round(value: number): number {
+  return Math.round(value * 1e8) / 1e8;
+}
+
+/**
+ * Summary of a year without activity.
+ * @private
+ */
+function emptyYearSummary(year: number): TaxYearSummary {
+  return {
+    year,
+    income_usd: 0,
+    income_eur: 0,
+    income_days: 0,
+    proceeds_usd: 0,
+    proceeds_eur: 0,
+    cost_basis_usd: 0,
+    cost_basis_eur: 0,
+    realized_gain_usd: 0,
+    realized_gain_eur: 0,
+    disposals: 0,
+  };
+}
+
+/**
+ * Checks whether a token tracks a fiat currency.
+ *
+ * @param {string} token - Token symbol
+ * @returns {boolean} True for stablecoins such as USDC, EURC and DAI
+ */
+export function isStableToken(token: string): boolean {
+  return !!TOKENS[token as TokenSymbol]?.peg;
+}
+
+/**
+ * Turns settled movements and transfers of a profile into tax events, oldest
+ * first. Account transactions that record a payment already in `transactions`
+ * (same tx_hash) are skipped so it is not counted twice.
+ *
+ * @param {Object} input - Source rows
+ * @param {string} input.profileId - Profile the report is for
+ * @param {InvestmentMovement[]} input.movements - Investment movements
+ * @param {Transaction[]} input.transactions - Payments sent or received
+ * @param {AccountTransaction[]} input.accountTransactions - Transfers of the profile's accounts
+ * @returns {TaxEvent[]} Events
+ */
+export function toTaxEvents(input: {
+  profileId: string;
+  movements: InvestmentMovement[];
+  transactions: Transaction[];
+  accountTransactions: AccountTransaction[];
+}): TaxEvent[] {
+  const events: TaxEvent[] = [];
+  const MOVEMENT_TYPES = {
+    deposit: "vault_deposit",
+    withdrawal: "vault_withdrawal",
+    reward: "reward",
+    fee: "fee",
+  } as const;
+
+  for (const movement of input.movements) {
+    if (movement.status !== "confirmed") continue;
+    events.push({
+      id: movement.id,
+      source: "investment_movement",
+      date: movement.created_at,
+      type: MOVEMENT_TYPES[movement.movement_type],
+      token: movement.token,
+      amount: parseFloat(movement.amount) || 0,
+      tx_hash: movement.tx_hash || null,
+    });
+  }
+
+  const paymentHashes = new Set<string>();
+  for (const tx of input.transactions) {
+    if (tx.status !== "success") continue;
+    if (tx.tx_hash) paymentHashes.add(tx.tx_hash.toLowerCase());
+    events.push({
+      id: tx.id,
+      source: "transaction",
+      date: tx.created_at,
+      type: tx.sender_profile_id === input.profileId ? "transfer_out" : "transfer_in",
+      token: tx.token,
+      amount: parseFloat(tx.amount) || 0,
+      tx_hash: tx.tx_hash,
+    });
+  }
+
+  for (const tx of input.accountTransactions) {
+    if (tx.status !== "confirmed") continue;
+    if (tx.tx_hash && paymentHashes.has(tx.tx_hash.toLowerCase())) continue;
+    events.push({
+      id: tx.id,
+      source: "account_transaction",
+      date: tx.created_at,
+      type: tx.direction === "in" ? "transfer_in" : "transfer_out",
+      token: tx.token_symbol,
+      amount: parseFloat(tx.amount) || 0,
+      tx_hash: tx.tx_hash,
+    });
+  }
+
+  return events
+    .filter((e) => e.amount > 0)
+    .sort((a, b) => (a.date === b.date ? a.id.localeCompare(b.id) : a.date < b.date ? -1 : 1));
+}
+
+/**
+ * Builds a tax report from events.
+ *
+ * @param {TaxEvent[]} events - Events, oldest first
+ * @param {Object} options - Valuation options
+ * @param {CostBasisMethod} options.method - Cost basis method for non-stable tokens
+ * @param {DailyExchangeRates} options.rates - USD to EUR rates per day
+ * @param {DailyTokenPrices} options.prices - USD prices of non-stable tokens per day
+ * @param {Date} [options.now=new Date()] - Generation time
+ * @returns {TaxReport} Report
+ *
+ * @example
+ * ```typescript
+ * const report = buildTaxReport(toTaxEvents(rows), { method: "fifo", rates, prices });
+ * const summary = report.years.find((y) => y.year === 2025);
+ * ```
+ */
+export function buildTaxReport(
+  events: TaxEvent[],
+  options: {
+    method: CostBasisMethod;
+    rates: DailyExchangeRates;
+    prices: DailyTokenPrices;
+    now?: Date;
+  }
+): TaxReport {
+  const { method, rates, prices } = options;
+  const warnings = new Set<string>();
+  const lots = new Map<string, Lot[]>();
+  const lines: TaxLineItem[] = [];
+
+  // USD value of one token on a day; the last known price carries forward
+  const usdPrice = (token: string, day: string, rate: number): number => {
+    const peg = TOKENS[token as TokenSymbol]?.peg;
+    if (peg === "USD") return 1;
+    if (peg === "EUR") return convertCurrency(1, "EUR", "USD", rate);
+
+    const daily = prices[token] || {};
+    if (daily[day] !== undefined) return daily[day];
+    const previous = Object.keys(daily).filter((d) => d < day).sort().pop();
+    if (previous) return daily[previous];
+    warnings.add(`No ${token} price for ${day}; valued at 0`);
+    return 0;
+  };
+
+  const valueLine = (
+    day: string,
+    kind: TaxLineItem["kind"],
+    category: TaxEvent["type"],
+    token: string,
+    amount: number,
+    group: TaxEvent[]
+  ): TaxLineItem => {
+    const rate = getRateForDay(rates, day);
+    const usd = round(amount * usdPrice(token, day, rate));
+    return {
+      day,
+      kind,
+      category,
+      token,
+      amount: round(amount),
+      usd_value: usd,
+      eur_value: round(convertCurrency(usd, "USD", "EUR", rate)),
+      usd_eur_rate: rate,
+      cost_basis_usd: null,
+      cost_basis_eur: null,
+      gain_usd: null,
+      gain_eur: null,
+      references: group.map((e) => e.id),
+      tx_hash: group.length === 1 ? group[0].tx_hash : null,
+    };
+  };
+
+  const addLot = (token: string, line: TaxLineItem) => {
+    const held = lots.get(token) || [];
+    const lot = { amount: line.amount, cost_usd: line.usd_value, cost_eur: line.eur_value };
+    if (method === "average" && held.length > 0) {
+      // One pool whose cost per token is the running average
+      held[0] = {
+        amount: round(held[0].amount + lot.amount),
+        cost_usd: round(held[0].cost_usd + lot.cost_usd),
+        cost_eur: round(held[0].cost_eur + lot.cost_eur),
+      };
+    } else {
+      held.push(lot);
+    }
+    lots.set(token, held);
+  };
+
+  const takeLots = (token: string, amount: number, day: string) => {
+    const held = lots.get(token) || [];
+    let remaining = amount;
+    let costUsd = 0;
+    let costEur = 0;
+    while (remaining > 1e-12 && held.length > 0) {
+      const lot = held[0];
+      const used = Math.min(lot.amount, remaining);
+      const share = used / lot.amount;
+      costUsd += lot.cost_usd * share;
+      costEur += lot.cost_eur * share;
+      remaining = round(remaining - used);
+      if (used >= lot.amount) {
+        held.shift();
+      } else {
+        held[0] = {
+          amount: round(lot.amount - used),
+          cost_usd: round(lot.cost_usd * (1 - share)),
+          cost_eur: round(lot.cost_eur * (1 - share)),
+        };
+      }
+    }
+    if (remaining > 1e-12) {
+      warnings.add(`Missing cost basis for ${round(remaining)} ${token} sent on ${day}; counted at 0`);
+    }
+    return { cost_usd: round(costUsd), cost_eur: round(costEur) };
+  };
+
+  // Rewards and fees are combined into one income line per day and token,
+  // placed where the day's first reward falls
+  const items: TaxEvent[][] = [];
+  const incomeGroups = new Map<string, TaxEvent[]>();
+  for (const event of events) {
+    if (event.type !== "reward" && event.type !== "fee") {
+      items.push([event]);
+      continue;
+    }
+    const key = `${event.date.slice(0, 10)}|${event.token}`;
+    const group = incomeGroups.get(key);
+    if (group) {
+      group.push(event);
+    } else {
+      const created = [event];
+      incomeGroups.set(key, created);
+      items.push(created);
+    }
+  }
+
+  for (const group of items) {
+    const event = group[0];
+    const day = event.date.slice(0, 10);
+
+    if (event.type === "reward" || event.type === "fee") {
+      const amount = group.reduce((sum, e) => sum + (e.type === "fee" ? -e.amount : e.amount), 0);
+      const line = valueLine(day, "income", "reward", event.token, amount, group);
+      if (!isStableToken(event.token) && line.amount > 0) {
+        // Yield received in a volatile token is acquired at its income value
+        addLot(event.token, line);
+      }
+      lines.push(line);
+      continue;
+    }
+
+    if (isStableToken(event.token) || event.type === "vault_deposit" || event.type === "vault_withdrawal") {
+      lines.push(valueLine(day, "non_taxable", event.type, event.token, event.amount, group));
+      continue;
+    }
+
+    if (event.type === "transfer_in") {
+      const line = valueLine(day, "acquisition", event.type, event.token, event.amount, group);
+      addLot(event.token, line);
+      lines.push(line);
+      continue;
+    }
+
+    const line = valueLine(day, "disposal", event.type, event.token, event.amount, group);
+    const cost = takeLots(event.token, event.amount, day);
+    lines.push({
+      ...line,
+      cost_basis_usd: cost.cost_usd,
+      cost_basis_eur: cost.cost_eur,
+      gain_usd: round(line.usd_value - cost.cost_usd),
+      gain_eur: round(line.eur_value - cost.cost_eur),
+    });
+  }
+
+  const years = new Map<number, TaxYearSummary>();
+  for (const line of lines) {
+    const year = Number(line.day.slice(0, 4));
+    const summary = years.get(year) || emptyYearSummary(year);
+    if (line.kind === "income") {
+      summary.income_usd = round(summary.income_usd + line.usd_value);
+      summary.income_eur = round(summary.income_eur + line.eur_value);
+      summary.income_days += 1;
+    }
+    if (line.kind === "disposal") {
+      summary.proceeds_usd = round(summary.proceeds_usd + line.usd_value);
+      summary.proceeds_eur = round(summary.proceeds_eur + line.eur_value);
+      summary.cost_basis_usd = round(summary.cost_basis_usd + (line.cost_basis_usd || 0));
+      summary.cost_basis_eur = round(summary.cost_basis_eur + (line.cost_basis_eur || 0));
+      summary.realized_gain_usd = round(summary.realized_gain_usd + (line.gain_usd || 0));
+      summary.realized_gain_eur = round(summary.realized_gain_eur + (line.gain_eur || 0));
+      summary.disposals += 1;
+    }
+    years.set(year, summary);
+  }
+
+  return {
+    method,
+    years: [...years.values()].sort((a, b) => a.year - b.year),
+    lines,
+    warnings: [...warnings],
+    generated_at: (options.now || new Date()).toISOString(),
+  };
+}
+
+/**
+ * Returns the summary of one year, with zeros if the year had no activity.
+ *
+ * @param {TaxReport} report - Report
+ * @param {number} year - Tax year
+ * @returns {TaxYearSummary} Summary
+ */
+export function getTaxYearSummary(report: TaxReport, year: number): TaxYearSummary {
+  return report.years.find((summary) => summary.year === year) || emptyYearSummary(year);
+}
+
+/**
+ * Renders the line items of a report as CSV, optionally for one year.
+ *
+ * @param {TaxReport} report - Report
+ * @param {number} [year] - Only lines of this year
+ * @returns {string} CSV text
+ */
+export function formatTaxReportCsv(report: TaxReport, year?: number): string {
+  const money = (value: number | null) => (value === null ? "" : value.toFixed(2));
+  const rows = [
+    [
+      "Date",
+      "Kind",
+      "Category",
+      "Token",
+      "Amount",
+      "USD Value",
+      "EUR Value",
+      "USD/EUR Rate",
+      "Cost Basis USD",
+      "Cost Basis EUR",
+      "Gain USD",
+      "Gain EUR",
+      "Tx Hash",
+      "References",
+    ],
+    ...report.lines
+      .filter((line) => year === undefined || line.day.startsWith(`${year}-`))
+      .map((line) => [
+        line.day,
+        line.kind,
+        line.category,
+        line.token,
+        String(line.amount),
+        money(line.usd_value),
+        money(line.eur_value),
+        String(line.usd_eur_rate),
+        money(line.cost_basis_usd),
+        money(line.cost_basis_eur),
+        money(line.gain_usd),
+        money(line.gain_eur),
+        line.tx_hash || "",
+        line.references.join(" "),
+      ]),
+  ];
+  return rows.map((row) => row.join(",")).join("\r\n") + "\r\n";
+}
+
+/**
+ * Tax report of one year as returned by GET /api/tax-report.
+ *
+ * @interface TaxReportSummary
+ * @property {number} year - Requested year
+ * @property {CostBasisMethod} method - Cost basis method used
+ * @property {TaxYearSummary} summary - Totals of the year
+ * @property {number[]} years - Years with activity
+ * @property {string[]} warnings - Gaps in the data
+ */
+export interface TaxReportSummary {
+  year: number;
+  method: CostBasisMethod;
+  summary: TaxYearSummary;
+  years: number[];
+  warnings: string[];
+}
+
+/**
+ * Builds the URL of the tax report route.
+ *
+ * @param {string} profileId - Profile ID
+ * @param {number} year - Tax year
+ * @param {CostBasisMethod} method - Cost basis method
+ * @param {"json" | "csv"} [format="json"] - Response format
+ * @returns {string} Relative URL
+ */
+export function getTaxReportUrl(
+  profileId: string,
+  year: number,
+  method: CostBasisMethod,
+  format: "json" | "csv" = "json"
+): string {
+  const params = new URLSearchParams({
+    profile_id: profileId,
+    year: String(year),
+    method,
+    format,
+  });
+  return `/api/tax-report?${params.toString()}`;
+}
+
+/**
+ * Fetches the tax report summary of a year.
+ *
+ * @param {string} profileId - Profile ID
+ * @param {number} year - Tax year
+ * @param {CostBasisMethod} method - Cost basis method
+ * @returns {Promise<TaxReportSummary | null>} Summary, or null if the profile's plan doesn't include tax reports
+ * @throws {Error} If the request fails
+ */
+export async function getTaxReport(
+  profileId: string,
+  year: number,
+  method: CostBasisMethod
+): Promise<TaxReportSummary | null> {
+  const response = await authFetch(getTaxReportUrl(profileId, year, method));
+  const result = await response.json();
+
+  if (response.status === 403 && result.plan) {
+    return null;
+  }
+
+  if (!response.ok) {
+    throw new Error(result.error || "Failed to load tax report");
+  }
+
+  return result.report;
+}
+
+/**
+ * Downloads the line items of a year as CSV.
+ *
+ * @param {string} profileId - Profile ID
+ * @param {number} year - Tax year
+ * @param {CostBasisMethod} method - Cost basis method
+ * @returns {Promise<void>}
+ * @throws {Error} If the request fails
+ */
+export async function downloadTaxReportCsv(
+  profileId: string,
+  year: number,
+  method: CostBasisMethod
+): Promise<void> {
+  await authDownload(
+    getTaxReportUrl(profileId, year, method, "csv"),
+    `tax-report-${year}-${method}.csv`
+  );
+}
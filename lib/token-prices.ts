@@ -0,0 +1,124 @@
+/**
+ * @fileoverview Historical token prices for valuing non-stable tokens.
+ * Stablecoins are valued at their peg and never looked up. Server-side only:
+ * the tax report route resolves the configured source via
+ * `getTokenPriceSource`. TOKEN_PRICE_SOURCE selects "coingecko" (default) or
+ * "none", which prices nothing and leaves gaps as report warnings.
+ */
+
+import type { DailyTokenPrices } from "./tax-report";
+
+/**
+ * Source of daily USD prices.
+ *
+ * @interface TokenPriceSource
+ * @property {string} name - Source name
+ * @property {Function} fetchDailyPrices - Prices of one token per day (YYYY-MM-DD) in a range; days without data are omitted
+ */
+export interface TokenPriceSource {
+  name: string;
+  fetchDailyPrices(token: string, from: string, to: string): Promise<Record<string, number>>;
+}
+
+/**
+ * CoinGecko coin IDs of the non-stable tokens we support.
+ * @constant {Record<string, string>}
+ */
+export const COINGECKO_COIN_IDS: Record<string, string> = {
+  ETH: "ethereum",
+};
+
+/**
+ * Creates a source that serves fixed prices, for tests and local runs.
+ *
+ * @param {DailyTokenPrices} [prices={}] - USD prices keyed by token and day
+ * @returns {TokenPriceSource} Fixed source
+ */
+export function createFixedTokenPriceSource(prices: DailyTokenPrices = {}): TokenPriceSource {
+  return {
+    name: "fixed",
+    async fetchDailyPrices(token, from, to) {
+      return Object.fromEntries(
+        Object.entries(prices[token] || {}).filter(([day]) => day >= from && day <= to)
+      );
+    },
+  };
+}
+
+/**
+ * Creates a source backed by CoinGecko's market chart API. Ranges longer than
+ * 90 days return one price per day; shorter ranges are hourly, and the first
+ * price of each day is kept.
+ *
+ * @param {Object} [options] - Source options
+ * @param {string} [options.url] - API base URL
+ * @param {string} [options.apiKey] - Demo API key, sent as x-cg-demo-api-key
+ * @returns {TokenPriceSource} CoinGecko source
+ */
+export function createCoinGeckoTokenPriceSource(
+  options: { url?: string; apiKey?: string } = {}
+): TokenPriceSource {
+  const url = options.url || "https://api.coingecko.com/api/v3";
+
+  return {
+    name: "coingecko",
+    async fetchDailyPrices(token, from, to) {
+      const coinId = COINGECKO_COIN_IDS[token];
+      if (!coinId) {
+        return {};
+      }
+
+      const start = Math.floor(Date.parse(`${from}T00:00:00Z`) / 1000);
+      const end = Math.floor(Date.parse(`${to}T23:59:59Z`) / 1000);
+      const response = await fetch(
+        `${url}/coins/${coinId}/market_chart/range?vs_currency=usd&from=${start}&to=${end}`,
+        { headers: options.apiKey ? { "x-cg-demo-api-key": options.apiKey } : undefined }
+      );
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch ${token} prices: ${response.status}`);
+      }
+
+      const data: { prices?: Array<[number, number]> } = await response.json();
+      const prices: Record<string, number> = {};
+      for (const [timestamp, price] of data.prices || []) {
+        const day = new Date(timestamp).toISOString().slice(0, 10);
+        if (prices[day] === undefined) {
+          prices[day] = price;
+        }
+      }
+      return prices;
+    },
+  };
+}
+
+let tokenPriceSource: TokenPriceSource | null = null;
+
+/**
+ * Returns the configured price source.
+ *
+ * @returns {TokenPriceSource} Source instance
+ * @throws {Error} If TOKEN_PRICE_SOURCE names an unknown source
+ */
+export function getTokenPriceSource(): TokenPriceSource {
+  if (tokenPriceSource) {
+    return tokenPriceSource;
+  }
+
+  const name = process.env.TOKEN_PRICE_SOURCE || "coingecko";
+  switch (name) {
+    case "coingecko":
+      tokenPriceSource = createCoinGeckoTokenPriceSource({
+        url: process.env.COINGECKO_API_URL || undefined,
+        apiKey: process.env.COINGECKO_API_KEY || undefined,
+      });
+      break;
+    case "none":
+      tokenPriceSource = createFixedTokenPriceSource();
+      break;
+    default:
+      throw new Error(`Unknown token price source: ${name}`);
+  }
+
+  return tokenPriceSource;
+}
@@ -0,0 +1,210 @@
+/**
+ * @fileoverview Token registry for supported payment assets.
+ * Single source of truth for token addresses, decimals, symbols and logos,
+ * shared by the payment hooks, the payment UI and server-side validation.
+ */
+
+import { DEFAULT_CHAIN, type ChainName } from "./chains";
+
+/**
+ * Symbols of the tokens users can send.
+ * @typedef {"USDC" | "EURC" | "ETH" | "DAI"} TokenSymbol
+ */
+export type TokenSymbol = "USDC" | "EURC" | "ETH" | "DAI";
+
+/**
+ * Configuration of a supported token.
+ *
+ * @interface TokenConfig
+ * @property {TokenSymbol} symbol - Ticker symbol
+ * @property {string} name - Display name
+ * @property {number} decimals - Onchain decimals
+ * @property {string} logo - Path to the logo in /public
+ * @property {"USD" | "EUR" | null} peg - Fiat currency the token tracks, null if volatile
+ * @property {number} displayDecimals - Decimals shown and accepted in the UI
+ * @property {Record<ChainName, `0x${string}` | null>} addresses - Contract address per chain; null marks the chain's native asset
+ */
+export interface TokenConfig {
+  symbol: TokenSymbol;
+  name: string;
+  decimals: number;
+  logo: string;
+  peg: "USD" | "EUR" | null;
+  displayDecimals: number;
+  addresses: Partial<Record<ChainName, `0x${string}` | null>>;
+}
+
+/**
+ * Token used when none is specified.
+ * @constant {TokenSymbol}
+ */
+export const DEFAULT_TOKEN: TokenSymbol = "USDC";
+
+/**
+ * Supported tokens keyed by symbol.
+ * @constant {Record<TokenSymbol, TokenConfig>}
+ */
+export const TOKENS: Record<TokenSymbol, TokenConfig> = {
+  USDC: {
+    symbol: "USDC",
+    name: "USD Coin",
+    decimals: 6,
+    logo: "/usdc-logo.png",
+    peg: "USD",
+    displayDecimals: 2,
+    addresses: {
+      base: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+      ethereum: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48",
+      arbitrum: "0xaf88d065e77c8cC2239327C5EDb3A432268e5831",
+      optimism: "0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85",
+      polygon: "0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359",
+    },
+  },
+  EURC: {
+    symbol: "EURC",
+    name: "Euro Coin",
+    decimals: 6,
+    logo: "/eurc-logo.svg",
+    peg: "EUR",
+    displayDecimals: 2,
+    addresses: {
+      base: "0x60a3E35Cc302bFA44Cb288Bc5a4F316Fdb1adb42",
+      ethereum: "0x1aBaEA1f7C830bD89Acc67eC4af516284b1bC33c",
+    },
+  },
+  DAI: {
+    symbol: "DAI",
+    name: "Dai",
+    decimals: 18,
+    logo: "/dai-logo.svg",
+    peg: "USD",
+    displayDecimals: 2,
+    addresses: {
+      base: "0x50c5725949A6F0c72E6C4a641F24049A917DB0Cb",
+      ethereum: "0x6B175474E89094C44Da98b954EedeAC495271d0F",
+      arbitrum: "0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1",
+      optimism: "0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1",
+      polygon: "0x8f3Cf7ad23Cd3CaDbD9735AFf958023239c6A063",
+    },
+  },
+  ETH: {
+    symbol: "ETH",
+    name: "Ether",
+    decimals: 18,
+    logo: "/eth-logo.svg",
+    peg: null,
+    displayDecimals: 6,
+    addresses: {
+      base: null,
+      ethereum: null,
+      arbitrum: null,
+      optimism: null,
+      // Polygon's native asset is POL; ETH is the bridged WETH token
+      polygon: "0x7ceB23fD6bC0adD59E62ac25578270cFf1b9f619",
+    },
+  },
+};
+
+/**
+ * Looks up a token by symbol (case-insensitive).
+ *
+ * @param {string} symbol - Token symbol (e.g., "usdc")
+ * @returns {TokenConfig | undefined} Token config, or undefined if unsupported
+ */
+export function getToken(symbol: string): TokenConfig | undefined {
+  return TOKENS[symbol.toUpperCase() as TokenSymbol];
+}
+
+/**
+ * Looks up a token by symbol, throwing if it is not supported.
+ *
+ * @param {string} symbol - Token symbol
+ * @returns {TokenConfig} Token config
+ * @throws {Error} If the token is not in the registry
+ */
+export function requireToken(symbol: string): TokenConfig {
+  const token = getToken(symbol);
+  if (!token) {
+    throw new Error(`Unsupported token: ${symbol}`);
+  }
+  return token;
+}
+
+/**
+ * Checks whether a token can be sent on a chain.
+ *
+ * @param {string} symbol - Token symbol
+ * @param {string} [chain="base"] - Network name from the chain registry
+ * @returns {boolean} True if the token is supported on the chain
+ */
+export function isTokenSupported(symbol: string, chain: string = DEFAULT_CHAIN): boolean {
+  const token = getToken(symbol);
+  return !!token && chain in token.addresses;
+}
+
+/**
+ * Checks whether a token is the native asset of a chain (sent as value
+ * rather than through an ERC20 transfer).
+ *
+ * @param {string} symbol - Token symbol
+ * @param {string} [chain="base"] - Network name from the chain registry
+ * @returns {boolean} True for native assets
+ */
+export function isNativeToken(symbol: string, chain: string = DEFAULT_CHAIN): boolean {
+  const token = getToken(symbol);
+  return !!token && token.addresses[chain as ChainName] === null;
+}
+
+/**
+ * Returns a token's contract address on a chain.
+ *
+ * @param {string} symbol - Token symbol
+ * @param {string} [chain="base"] - Network name from the chain registry
+ * @returns {`0x${string}` | null} Contract address, or null for native assets
+ * @throws {Error} If the token is not supported on the chain
+ */
+export function getTokenAddress(
+  symbol: string,
+  chain: string = DEFAULT_CHAIN
+): `0x${string}` | null {
+  const token = requireToken(symbol);
+  if (!(chain in token.addresses)) {
+    throw new Error(`${token.symbol} is not supported on ${chain}`);
+  }
+  return token.addresses[chain as ChainName] ?? null;
+}
+
+/**
+ * Lists tokens that can be sent on a chain, in registry order.
+ *
+ * @param {string} [chain="base"] - Network name from the chain registry
+ * @returns {TokenConfig[]} Supported tokens
+ */
+export function getSupportedTokens(chain: string = DEFAULT_CHAIN): TokenConfig[] {
+  return Object.values(TOKENS).filter((token) => chain in token.addresses);
+}
+
+/**
+ * Lists the networks a token can be sent on, in registry order.
+ *
+ * @param {string} symbol - Token symbol
+ * @returns {ChainName[]} Supported networks, empty if the token is unknown
+ */
+export function getTokenChains(symbol: string): ChainName[] {
+  const token = getToken(symbol);
+  return token ? (Object.keys(token.addresses) as ChainName[]) : [];
+}
+
+/**
+ * Returns the currency prefix used to display amounts of a token.
+ * Volatile tokens have no prefix and are shown with their symbol instead.
+ *
+ * @param {string} symbol - Token symbol
+ * @returns {string} "$", "€" or an empty string
+ */
+export function getTokenCurrencySymbol(symbol: string): string {
+  const peg = getToken(symbol)?.peg;
+  if (peg === "EUR") return "€";
+  if (peg === "USD") return "$";
+  return "";
+}
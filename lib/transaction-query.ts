@@ -0,0 +1,249 @@
+/**
+ * @fileoverview Query object shared by the transaction history APIs.
+ * `getTransactionsByProfile` (lib/transactions.ts), `getTransactionsByAccount`
+ * (lib/account-transactions.ts) and the get_recent_transactions MCP tool take
+ * the same filters and return pages ordered newest first. Pages are addressed
+ * by an opaque cursor over (created_at, id), so rows inserted while a user
+ * scrolls don't shift later pages.
+ */
+
+/**
+ * Direction of a transaction relative to the profile or account.
+ * @typedef {string} TransactionDirection
+ */
+export type TransactionDirection = "in" | "out";
+
+/**
+ * Filters and paging for a transaction history query. All filters are optional
+ * and combined with AND.
+ *
+ * @interface TransactionQuery
+ * @property {string} [from] - ISO timestamp; only transactions at or after it
+ * @property {string} [to] - ISO timestamp; only transactions at or before it
+ * @property {TransactionDirection} [direction] - Only incoming or outgoing transactions
+ * @property {string} [counterparty] - Recipient ID (transactions) or counterparty address (account transactions)
+ * @property {string} [token] - Token symbol, e.g. "USDC"
+ * @property {string[]} [status] - Only these statuses
+ * @property {number} [min_amount] - Smallest amount, inclusive
+ * @property {number} [max_amount] - Largest amount, inclusive
+ * @property {string} [search] - Free text matched against recipient names and descriptions
+ * @property {string} [cursor] - `next_cursor` of the previous page
+ * @property {number} [limit] - Page size, up to MAX_TRANSACTION_PAGE_SIZE
+ */
+export interface TransactionQuery {
+  from?: string;
+  to?: string;
+  direction?: TransactionDirection;
+  counterparty?: string;
+  token?: string;
+  status?: string[];
+  min_amount?: number;
+  max_amount?: number;
+  search?: string;
+  cursor?: string;
+  limit?: number;
+}
+
+/**
+ * One page of a transaction history query.
+ *
+ * @interface TransactionPage
+ * @property {T[]} items - Transactions, newest first
+ * @property {string | null} next_cursor - Cursor of the next page, null on the last page
+ */
+export interface TransactionPage<T> {
+  items: T[];
+  next_cursor: string | null;
+}
+
+/**
+ * Page size when the query sets none.
+ * @constant {number}
+ */
+export const DEFAULT_TRANSACTION_PAGE_SIZE = 20;
+
+/**
+ * Largest page size a query may request.
+ * @constant {number}
+ */
+export const MAX_TRANSACTION_PAGE_SIZE = 100;
+
+// Cursor fields are interpolated into a PostgREST filter, so only exact
+// UUIDs and ISO timestamps are accepted
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const ISO_TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{1,6})?(Z|[+-]\d{2}:\d{2})$/;
+
+/**
+ * Encodes the position after a row as a cursor.
+ *
+ * @param {{ created_at: string; id: string }} row - Last row of a page
+ * @returns {string} Opaque cursor
+ */
+export function encodeTransactionCursor(row: { created_at: string; id: string }): string {
+  const value = `${row.created_at}|${row.id}`;
+  return typeof btoa === "function"
+    ? btoa(value).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+    : Buffer.from(value).toString("base64url");
+}
+
+/**
+ * Decodes a cursor made by `encodeTransactionCursor`.
+ *
+ * @param {string} cursor - Cursor from a previous page
+ * @returns {{ created_at: string; id: string } | null} Position, or null unless it holds an ISO timestamp and a UUID
+ */
+export function decodeTransactionCursor(
+  cursor: string
+): { created_at: string; id: string } | null {
+  try {
+    const base64 = cursor.replace(/-/g, "+").replace(/_/g, "/");
+    const value =
+      typeof atob === "function" ? atob(base64) : Buffer.from(base64, "base64").toString("utf8");
+    const [createdAt, id, ...rest] = value.split("|");
+    if (rest.length > 0 || !isValidCursorPosition({ created_at: createdAt, id })) {
+      return null;
+    }
+    return { created_at: createdAt, id };
+  } catch {
+    return null;
+  }
+}
+
+function isValidCursorPosition(position: { created_at?: string; id?: string }): boolean {
+  return (
+    !!position.created_at &&
+    !!position.id &&
+    ISO_TIMESTAMP_PATTERN.test(position.created_at) &&
+    !isNaN(Date.parse(position.created_at)) &&
+    UUID_PATTERN.test(position.id)
+  );
+}
+
+/**
+ * Builds the PostgREST `or` filter selecting rows after a cursor in
+ * (created_at desc, id desc) order.
+ *
+ * @param {{ created_at: string; id: string }} position - Decoded cursor
+ * @returns {string} Filter for `query.or()`
+ * @throws {Error} If the position is not an ISO timestamp and a UUID
+ */
+export function getCursorFilter(position: { created_at: string; id: string }): string {
+  if (!isValidCursorPosition(position)) {
+    throw new Error("Invalid cursor");
+  }
+  return `created_at.lt."${position.created_at}",and(created_at.eq."${position.created_at}",id.lt.${position.id})`;
+}
+
+/**
+ * Removes characters that would break a PostgREST filter or act as
+ * wildcards, so the term can be used in `ilike` patterns.
+ *
+ * @param {string} term - Search text
+ * @returns {string} Safe term
+ */
+export function sanitizeSearchTerm(term: string): string {
+  return term.replace(/[,()*%_\\"]/g, " ").trim().replace(/\s+/g, " ");
+}
+
+/**
+ * Resolves the page size of a query.
+ *
+ * @param {number} [limit] - Requested size
+ * @returns {number} Size between 1 and MAX_TRANSACTION_PAGE_SIZE
+ */
+export function getPageSize(limit?: number): number {
+  if (!limit || !Number.isFinite(limit)) {
+    return DEFAULT_TRANSACTION_PAGE_SIZE;
+  }
+  return Math.min(Math.max(Math.floor(limit), 1), MAX_TRANSACTION_PAGE_SIZE);
+}
+
+/**
+ * Cuts the rows fetched for a page (one more than the page size) into the
+ * page and the cursor of the next one.
+ *
+ * @param {T[]} rows - Rows fetched with `limit(pageSize + 1)`
+ * @param {number} pageSize - Page size
+ * @returns {TransactionPage<T>} Page
+ */
+export function toTransactionPage<T extends { created_at: string; id: string }>(
+  rows: T[],
+  pageSize: number
+): TransactionPage<T> {
+  const items = rows.slice(0, pageSize);
+  return {
+    items,
+    next_cursor: rows.length > pageSize ? encodeTransactionCursor(items[items.length - 1]) : null,
+  };
+}
+
+/**
+ * Builds a query from untrusted input, such as MCP tool arguments or URL
+ * parameters. Unknown fields are dropped.
+ *
+ * @param {Record<string, unknown>} input - Raw filters
+ * @returns {{ query: TransactionQuery; error: string | null }} Query, and the first problem found
+ *
+ * @example
+ * ```typescript
+ * const { query, error } = parseTransactionQuery({ direction: "out", min_amount: "50", token: "usdc" });
+ * // query => { direction: "out", min_amount: 50, token: "USDC" }
+ * ```
+ */
+export function parseTransactionQuery(input: Record<string, unknown>): {
+  query: TransactionQuery;
+  error: string | null;
+} {
+  const query: TransactionQuery = {};
+  const text = (value: unknown) => (typeof value === "string" ? value.trim() : "");
+  const amount = (value: unknown) =>
+    value === undefined || value === null || value === "" ? undefined : Number(value);
+
+  for (const key of ["from", "to"] as const) {
+    const value = text(input[key]);
+    if (!value) continue;
+    if (isNaN(Date.parse(value))) {
+      return { query, error: `${key} must be a date` };
+    }
+    query[key] = new Date(value).toISOString();
+  }
+
+  const direction = text(input.direction);
+  if (direction) {
+    if (direction !== "in" && direction !== "out") {
+      return { query, error: "direction must be in or out" };
+    }
+    query.direction = direction;
+  }
+
+  if (text(input.counterparty)) query.counterparty = text(input.counterparty);
+  if (text(input.token)) query.token = text(input.token).toUpperCase();
+  if (text(input.search)) query.search = text(input.search);
+  if (text(input.cursor)) query.cursor = text(input.cursor);
+
+  const status = Array.isArray(input.status)
+    ? input.status.map(text).filter(Boolean)
+    : text(input.status).split(",").map((s) => s.trim()).filter(Boolean);
+  if (status.length > 0) query.status = status;
+
+  const minAmount = amount(input.min_amount);
+  const maxAmount = amount(input.max_amount);
+  if ((minAmount !== undefined && isNaN(minAmount)) || (maxAmount !== undefined && isNaN(maxAmount))) {
+    return { query, error: "Amounts must be numbers" };
+  }
+  if (minAmount !== undefined && maxAmount !== undefined && minAmount > maxAmount) {
+    return { query, error: "min_amount must not exceed max_amount" };
+  }
+  if (minAmount !== undefined) query.min_amount = minAmount;
+  if (maxAmount !== undefined) query.max_amount = maxAmount;
+
+  if (input.limit !== undefined && input.limit !== null && input.limit !== "") {
+    query.limit = getPageSize(Number(input.limit));
+  }
+
+  if (query.cursor && !decodeTransactionCursor(query.cursor)) {
+    return { query, error: "Invalid cursor" };
+  }
+
+  return { query, error: null };
+}
@@ -6,6 +6,18 @@
 
 import { supabase, type Transaction as DBTransaction } from "./supabase";
 import { createClient } from "@supabase/supabase-js";
+import { getToken } from "./tokens";
+import { authFetch } from "./auth-fetch";
+import { markPaymentRequestPaid } from "./payment-requests";
+import {
+  decodeTransactionCursor,
+  getCursorFilter,
+  getPageSize,
+  sanitizeSearchTerm,
+  toTransactionPage,
+  type TransactionPage,
+  type TransactionQuery,
+} from "./transaction-query";
 
 /**
  * Admin Supabase client for server-side operations.
@@ -28,36 +40,42 @@ const supabaseAdmin = createClient(
 
 // Re-export the database transaction type
 export type Transaction = DBTransaction;
+export type { TransactionPage, TransactionQuery };
 
 /**
- * Retrieves all transactions for a profile (sent OR received).
- * Returns transactions where the user is either the sender or the recipient.
- * Includes recipient details via join. Ordered by creation date (newest first).
- * 
+ * Retrieves a page of a profile's transactions (sent OR received).
+ * Sent transactions have the profile as sender; received ones are paid to a
+ * recipient linked to the profile. Includes recipient details via join.
+ * Ordered by creation date (newest first); pass `next_cursor` back as
+ * `query.cursor` for the following page.
+ *
  * @async
  * @param {string} profileId - UUID of the profile
- * @returns {Promise<Transaction[]>} Array of transactions with recipient details
- * @throws {Error} If database operation fails
- * 
+ * @param {TransactionQuery} [query={}] - Filters, search and paging
+ * @returns {Promise<TransactionPage<Transaction>>} Page of transactions with recipient details
+ * @throws {Error} If database operation fails or the cursor is invalid
+ *
  * @example
  * ```typescript
- * const allTxs = await getTransactionsByProfile(currentUser.id);
- * console.log(`Total transactions: ${allTxs.length}`);
+ * const page = await getTransactionsByProfile(currentUser.id, { direction: "out", token: "USDC" });
+ * const next = await getTransactionsByProfile(currentUser.id, { direction: "out", token: "USDC", cursor: page.next_cursor! });
  * ```
  */
 export async function getTransactionsByProfile(
-  profileId: string
-): Promise<Transaction[]> {
-  // Get recipients linked to this profile
-  const { data: recipients } = await supabase
+  profileId: string,
+  query: TransactionQuery = {}
+): Promise<TransactionPage<Transaction>> {
+  const pageSize = getPageSize(query.limit);
+  const empty: TransactionPage<Transaction> = { items: [], next_cursor: null };
+
+  // Recipients other users saved for this profile: payments to them are incoming
+  const { data: linkedRecipients } = await supabase
     .from("recipients")
     .select("id")
-    .eq("profile_id", profileId);
+    .eq("profile_id_link", profileId);
+  const incomingIds = linkedRecipients?.map((r) => r.id) || [];
 
-  const recipientIds = recipients?.map((r) => r.id) || [];
-
-  // Get transactions where user is sender OR recipient
-  const { data, error } = await supabase
+  let request = supabase
     .from("transactions")
     .select(
       `
@@ -65,23 +83,90 @@ export async function getTransactionsByProfile(
       recipient:recipients(name, profile_id, external_address)
     `
     )
-    .or(
-      `sender_profile_id.eq.${profileId},recipient_id.in.(${recipientIds.join(
-        ","
-      )})`
-    )
-    .order("created_at", { ascending: false });
+    .order("created_at", { ascending: false })
+    .order("id", { ascending: false })
+    .limit(pageSize + 1);
+
+  if (query.direction === "out") {
+    request = request.eq("sender_profile_id", profileId);
+  } else if (query.direction === "in") {
+    if (incomingIds.length === 0) return empty;
+    request = request.in("recipient_id", incomingIds).neq("sender_profile_id", profileId);
+  } else if (incomingIds.length > 0) {
+    request = request.or(
+      `sender_profile_id.eq.${profileId},recipient_id.in.(${incomingIds.join(",")})`
+    );
+  } else {
+    request = request.eq("sender_profile_id", profileId);
+  }
+
+  // Free-text search over recipient names and descriptions. A payment's
+  // description is the note of the payment request or schedule behind it.
+  const search = query.search ? sanitizeSearchTerm(query.search) : "";
+  if (search) {
+    const pattern = `%${search}%`;
+    const [{ data: recipientMatches }, { data: requestMatches }, { data: scheduleMatches }] =
+      await Promise.all([
+        supabase
+          .from("recipients")
+          .select("id")
+          .or(`profile_id.eq.${profileId},profile_id_link.eq.${profileId}`)
+          .ilike("name", pattern),
+        supabase
+          .from("payment_requests")
+          .select("id")
+          .or(`requester_profile_id.eq.${profileId},payer_profile_id.eq.${profileId}`)
+          .ilike("note", pattern),
+        supabase
+          .from("scheduled_payments")
+          .select("id")
+          .or(
+            incomingIds.length > 0
+              ? `profile_id.eq.${profileId},recipient_id.in.(${incomingIds.join(",")})`
+              : `profile_id.eq.${profileId}`
+          )
+          .ilike("note", pattern),
+      ]);
+
+    const searchFilters = [
+      { column: "recipient_id", ids: recipientMatches?.map((r) => r.id) || [] },
+      { column: "payment_request_id", ids: requestMatches?.map((r) => r.id) || [] },
+      { column: "scheduled_payment_id", ids: scheduleMatches?.map((r) => r.id) || [] },
+    ]
+      .filter(({ ids }) => ids.length > 0)
+      .map(({ column, ids }) => `${column}.in.(${ids.join(",")})`);
+    if (searchFilters.length === 0) return empty;
+    request = request.or(searchFilters.join(","));
+  }
+
+  if (query.counterparty) request = request.eq("recipient_id", query.counterparty);
+  if (query.token) request = request.eq("token", query.token);
+  if (query.status?.length) request = request.in("status", query.status);
+  if (query.from) request = request.gte("created_at", query.from);
+  if (query.to) request = request.lte("created_at", query.to);
+  if (query.min_amount !== undefined) request = request.gte("amount", query.min_amount);
+  if (query.max_amount !== undefined) request = request.lte("amount", query.max_amount);
+
+  if (query.cursor) {
+    const position = decodeTransactionCursor(query.cursor);
+    if (!position) {
+      throw new Error("Invalid cursor");
+    }
+    request = request.or(getCursorFilter(position));
+  }
+
+  const { data, error } = await request;
 
   if (error) {
     throw new Error(`Failed to fetch transactions: ${error.message}`);
   }
 
-  return data || [];
+  return toTransactionPage((data as Transaction[]) || [], pageSize);
 }
 
 /**
  * Retrieves recent transactions for a profile with a limit.
- * Returns the most recent transactions where user is sender OR recipient.
+ * Returns the first page of `getTransactionsByProfile` without filters.
  * Useful for dashboard displays and activity feeds.
  * 
  * @async
@@ -103,45 +188,8 @@ export async function getRecentTransactions(
   profileId: string,
   limit: number = 5
 ): Promise<Transaction[]> {
-  // Get recipients linked to this profile
-  const { data: recipients } = await supabase
-    .from("recipients")
-    .select("id")
-    .eq("profile_id", profileId);
-
-  const recipientIds = recipients?.map((r) => r.id) || [];
-
-  // Get transactions where user is sender OR recipient
-  const query = supabase
-    .from("transactions")
-    .select(
-      `
-      *,
-      recipient:recipients(name, profile_id, external_address)
-    `
-    )
-    .order("created_at", { ascending: false })
-    .limit(limit);
-
-  // If user has recipients, include transactions where they're the recipient
-  if (recipientIds.length > 0) {
-    query.or(
-      `sender_profile_id.eq.${profileId},recipient_id.in.(${recipientIds.join(
-        ","
-      )})`
-    );
-  } else {
-    // Otherwise just get sent transactions
-    query.eq("sender_profile_id", profileId);
-  }
-
-  const { data, error } = await query;
-
-  if (error) {
-    throw new Error(`Failed to fetch recent transactions: ${error.message}`);
-  }
-
-  return data || [];
+  const { items } = await getTransactionsByProfile(profileId, { limit });
+  return items;
 }
 
 /**
@@ -240,8 +288,8 @@ export async function getReceivedTransactions(
  * 
  * @example
  * ```typescript
- * const txs = await getTransactionsByProfile(currentUser.id);
- * const grouped = groupTransactionsByDate(txs);
+ * const { items } = await getTransactionsByProfile(currentUser.id);
+ * const grouped = groupTransactionsByDate(items);
  * 
  * // Result: { "October 15, 2025": [...], "October 14, 2025": [...] }
  * Object.entries(grouped).forEach(([date, txs]) => {
@@ -273,7 +321,8 @@ export function groupTransactionsByDate(
 /**
  * Formats a transaction amount with currency symbol.
  * Handles negative amounts with proper prefix.
- * Supports USD, EUR, GBP, and defaults to $ for unknown tokens.
+ * Supports USD, EUR, GBP and registry stablecoins, and defaults to $ for unknown tokens.
+ * Volatile registry tokens (ETH) are shown with their symbol instead.
  * 
  * @param {string | number} amount - Amount to format (can be negative)
  * @param {string} [token="USDC"] - Token symbol for currency selection
@@ -284,7 +333,9 @@ export function groupTransactionsByDate(
  * formatTransactionAmount(100, "USDC")     // => "$100.00"
  * formatTransactionAmount(-50, "EUR")      // => "-€50.00"
  * formatTransactionAmount("75.5", "GBP")   // => "£75.50"
- * formatTransactionAmount(100, "ETH")      // => "$100.00" (defaults to $)
+ * formatTransactionAmount(20, "EURC")      // => "€20.00"
+ * formatTransactionAmount(0.015, "ETH")    // => "0.015 ETH"
+ * formatTransactionAmount(100, "XYZ")      // => "$100.00" (defaults to $)
  * ```
  */
 export function formatTransactionAmount(
@@ -295,6 +346,12 @@ export function formatTransactionAmount(
   const prefix = numAmount < 0 ? "-" : "";
   const absAmount = Math.abs(numAmount);
 
+  const registryToken = getToken(token);
+  if (registryToken && !registryToken.peg) {
+    const rounded = parseFloat(absAmount.toFixed(registryToken.displayDecimals));
+    return `${prefix}${rounded} ${registryToken.symbol}`;
+  }
+
   // Get currency symbol based on token
   const getCurrencySymbol = (token: string) => {
     switch (token.toUpperCase()) {
@@ -302,6 +359,7 @@ export function formatTransactionAmount(
       case "USD":
         return "$";
       case "EUR":
+      case "EURC":
         return "€";
       case "GBP":
         return "£";
@@ -326,6 +384,7 @@ export function formatTransactionAmount(
  * @param {string} data.chain - Blockchain network (e.g., "base", "ethereum")
  * @param {string} data.amount - Amount as string (e.g., "100.50")
  * @param {string} data.token - Token symbol (e.g., "USDC", "ETH")
+ * @param {string} [data.payment_request_id] - Payment request this transaction settles
  * @returns {Promise<Transaction>} Created transaction object
  * @throws {Error} If API request fails or validation fails
  * 
@@ -347,8 +406,9 @@ export async function createTransaction(data: {
   amount: string;
   token: string;
   sender_profile_id: string;
+  payment_request_id?: string;
 }): Promise<Transaction> {
-  const response = await fetch("/api/transactions", {
+  const response = await authFetch("/api/transactions", {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
@@ -359,6 +419,7 @@ export async function createTransaction(data: {
       chain: data.chain,
       amount: data.amount,
       token: data.token,
+      payment_request_id: data.payment_request_id,
     }),
   });
 
@@ -467,6 +528,15 @@ export async function updateTransactionStatus(
     } as Transaction;
   }
 
+  // A payment request is paid once the transaction paying it settles
+  if (status === "success" && data[0].payment_request_id) {
+    try {
+      await markPaymentRequestPaid(data[0].payment_request_id, data[0].id);
+    } catch (requestError) {
+      console.error("[transactions] Failed to mark payment request paid", requestError);
+    }
+  }
+
   return data[0];
 }
 
@@ -485,7 +555,7 @@ export async function updateTransactionStatus(
  * if (tx) {
  *   console.log(`Status: ${tx.status}`);
  *   if (tx.tx_hash) {
- *     console.log(`View on explorer: https://basescan.org/tx/${tx.tx_hash}`);
+ *     console.log(`View on explorer: ${getExplorerTxUrl(tx.tx_hash, tx.chain)}`);
  *   }
  * }
  * ```
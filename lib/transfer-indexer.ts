@@ -0,0 +1,489 @@
+/**
+ * @fileoverview ERC-20 transfer indexer for accounts.
+ * Scans the Transfer logs of registry tokens (lib/tokens.ts) sent from or to
+ * an account address and turns them into account_transactions. Transfers are
+ * keyed by tx_hash and log index, so scans may overlap and be replayed without
+ * creating duplicates. Logs come from a pluggable source chosen with
+ * TRANSFER_LOG_SOURCE: "etherscan" (default, the Etherscan v2 logs API) or
+ * "fixture", which replays lib/fixtures/transfer-logs.json offline.
+ * /api/accounts/sync runs the scan.
+ */
+
+import { formatUnits, getAddress, parseUnits } from "viem";
+import { requireChain, type ChainName } from "./chains";
+import { DEFAULT_TOKEN, TOKENS, getSupportedTokens } from "./tokens";
+import type { Account, AccountTransaction } from "./supabase";
+import TRANSFER_LOGS_FIXTURE from "./fixtures/transfer-logs.json";
+
+/**
+ * topic0 of `Transfer(address indexed from, address indexed to, uint256 value)`.
+ * @constant {string}
+ */
+export const TRANSFER_EVENT_TOPIC =
+  "0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef";
+
+/**
+ * Event log as returned by Etherscan-compatible `getLogs` APIs.
+ * Numbers are hex strings; Etherscan writes index 0 as "0x".
+ */
+export interface RawTransferLog {
+  address: string;
+  topics: string[];
+  data: string;
+  blockNumber: string;
+  timeStamp: string;
+  logIndex: string;
+  transactionHash: string;
+}
+
+/**
+ * Logs to fetch: transfers of `tokens` from or to `address`, from
+ * `fromBlock` (inclusive) on.
+ */
+export interface TransferLogQuery {
+  network: string;
+  address: string;
+  tokens: string[];
+  fromBlock: number;
+}
+
+/**
+ * Source of Transfer logs.
+ */
+export interface TransferLogSource {
+  name: string;
+  fetchTransferLogs(query: TransferLogQuery): Promise<RawTransferLog[]>;
+}
+
+/**
+ * Decoded transfer of a registry token.
+ *
+ * @interface TokenTransfer
+ * @property {string} amount - Amount in token units (e.g., "12.5")
+ * @property {string} tx_hash - Lowercase transaction hash
+ * @property {string} timestamp - ISO timestamp of the block
+ */
+export interface TokenTransfer {
+  network: string;
+  token_symbol: string;
+  token_address: string;
+  from: string;
+  to: string;
+  amount: string;
+  tx_hash: string;
+  log_index: number;
+  block_number: number;
+  timestamp: string;
+}
+
+function hexToNumber(value: string): number {
+  return value && value !== "0x" ? Number(BigInt(value)) : 0;
+}
+
+function toAddressTopic(address: string): string {
+  return `0x${address.slice(2).toLowerCase().padStart(64, "0")}`;
+}
+
+/**
+ * Returns the contract addresses of the ERC-20 registry tokens on a network.
+ * Native assets have no Transfer logs and are left out.
+ *
+ * @param {string} network - Network name from the chain registry
+ * @returns {string[]} Token contract addresses
+ */
+export function getIndexedTokenAddresses(network: string): string[] {
+  return getSupportedTokens(network)
+    .map((token) => token.addresses[network as ChainName])
+    .filter((address): address is `0x${string}` => !!address);
+}
+
+/**
+ * Decodes a Transfer log of a registry token.
+ *
+ * @param {RawTransferLog} log - Log from the source
+ * @param {string} network - Network the log was read from
+ * @returns {TokenTransfer | null} Transfer, or null for other events and unknown tokens
+ */
+export function decodeTransferLog(
+  log: RawTransferLog,
+  network: string
+): TokenTransfer | null {
+  if (log.topics.length < 3 || log.topics[0].toLowerCase() !== TRANSFER_EVENT_TOPIC) {
+    return null;
+  }
+
+  const token = getSupportedTokens(network).find(
+    (t) => t.addresses[network as ChainName]?.toLowerCase() === log.address.toLowerCase()
+  );
+  if (!token) {
+    return null;
+  }
+
+  const value = log.data && log.data !== "0x" ? BigInt(log.data) : BigInt(0);
+
+  return {
+    network,
+    token_symbol: token.symbol,
+    token_address: getAddress(log.address),
+    from: getAddress(`0x${log.topics[1].slice(26)}`),
+    to: getAddress(`0x${log.topics[2].slice(26)}`),
+    amount: formatUnits(value, token.decimals),
+    tx_hash: log.transactionHash.toLowerCase(),
+    log_index: hexToNumber(log.logIndex),
+    block_number: hexToNumber(log.blockNumber),
+    timestamp: new Date(hexToNumber(log.timeStamp) * 1000).toISOString(),
+  };
+}
+
+/**
+ * Returns the dedup key of a transfer.
+ *
+ * @param {string} txHash - Transaction hash
+ * @param {number} logIndex - Index of the log in the block
+ * @returns {string} Key in the form "<tx_hash>:<log_index>"
+ */
+export function getTransferKey(txHash: string, logIndex: number): string {
+  return `${txHash.toLowerCase()}:${logIndex}`;
+}
+
+/**
+ * Names known for addresses: the owner's saved recipients, and app users
+ * with their account and wallet addresses.
+ */
+export interface CounterpartyDirectory {
+  recipients: Array<{ name: string; external_address: string | null; profile_id_link: string | null }>;
+  profiles: Array<{ id: string; name: string; addresses: string[] }>;
+}
+
+/**
+ * Resolves the display name of a counterparty address. A recipient the owner
+ * saved takes precedence over the app user's own profile name.
+ *
+ * @param {string} address - Counterparty address
+ * @param {CounterpartyDirectory} directory - Known names
+ * @returns {string | null} Name, or null if the address is unknown
+ */
+export function resolveCounterpartyName(
+  address: string,
+  directory: CounterpartyDirectory
+): string | null {
+  const target = address.toLowerCase();
+
+  const external = directory.recipients.find(
+    (r) => r.external_address?.toLowerCase() === target
+  );
+  if (external) {
+    return external.name;
+  }
+
+  const profile = directory.profiles.find((p) =>
+    p.addresses.some((a) => a.toLowerCase() === target)
+  );
+  if (!profile) {
+    return null;
+  }
+
+  const linked = directory.recipients.find((r) => r.profile_id_link === profile.id);
+  return linked?.name || profile.name;
+}
+
+/**
+ * Row fields that decide its effect on Account.balance.
+ */
+export type BalanceRow = Pick<AccountTransaction, "amount" | "direction" | "token_symbol">;
+
+/**
+ * Changes a scan makes to one account.
+ *
+ * @interface TransferSyncPlan
+ * @property {Array} inserts - New account_transactions rows
+ * @property {Array} confirmations - Rows recorded before their transfer was mined (no log index yet) and now matched to it, with the transfer to count toward the balance (null if already counted)
+ * @property {string} balanceDelta - Change of Account.balance if every write applies, in DEFAULT_TOKEN units
+ * @property {number | null} lastBlock - Highest block among the scanned transfers
+ */
+export interface TransferSyncPlan {
+  inserts: Array<Omit<AccountTransaction, "id" | "updated_at">>;
+  confirmations: Array<{
+    id: string;
+    changes: Partial<AccountTransaction>;
+    balanceRow: BalanceRow | null;
+  }>;
+  balanceDelta: string;
+  lastBlock: number | null;
+}
+
+/**
+ * Sums the balance change of rows. Only DEFAULT_TOKEN rows move
+ * Account.balance.
+ *
+ * @param {BalanceRow[]} rows - Inserted or confirmed rows
+ * @returns {string} Change in DEFAULT_TOKEN units
+ */
+export function getBalanceDelta(rows: BalanceRow[]): string {
+  const decimals = TOKENS[DEFAULT_TOKEN].decimals;
+  let delta = BigInt(0);
+  for (const row of rows) {
+    if (row.token_symbol === DEFAULT_TOKEN) {
+      const amount = parseUnits(String(row.amount), decimals);
+      delta += row.direction === "in" ? amount : -amount;
+    }
+  }
+  return formatUnits(delta, decimals);
+}
+
+/**
+ * Plans the account_transactions changes for scanned transfers.
+ * Transfers already indexed (same tx_hash and log index in `existing`) are
+ * skipped; a unique (account_id, tx_hash, log_index) key also stops
+ * overlapping scans from inserting them twice. Only DEFAULT_TOKEN transfers
+ * move Account.balance, once per row:
+ * rows the indexer writes are marked `metadata.balance_applied`, and rows
+ * recorded elsewhere (e.g. deposits credited by the on-ramp webhook) move it
+ * when their transfer is matched, whatever their status.
+ *
+ * @param {Pick<Account, "id" | "address" | "network">} account - Scanned account
+ * @param {TokenTransfer[]} transfers - Decoded transfers from the scan
+ * @param {AccountTransaction[]} existing - Rows of the account with the scanned tx hashes
+ * @param {Record<string, string>} names - Counterparty names keyed by lowercase address
+ * @returns {TransferSyncPlan} Rows to insert and update, and the balance change
+ */
+export function planTransferSync(
+  account: Pick<Account, "id" | "address" | "network">,
+  transfers: TokenTransfer[],
+  existing: AccountTransaction[],
+  names: Record<string, string>
+): TransferSyncPlan {
+  const own = account.address.toLowerCase();
+
+  const logIndexOf = (row: AccountTransaction) =>
+    typeof row.log_index === "number" ? row.log_index : row.metadata?.log_index;
+  const indexed = new Set(
+    existing
+      .filter((row) => row.tx_hash && typeof logIndexOf(row) === "number")
+      .map((row) => getTransferKey(row.tx_hash!, logIndexOf(row) as number))
+  );
+  const unmatched = existing.filter(
+    (row) => row.tx_hash && typeof logIndexOf(row) !== "number"
+  );
+
+  const plan: TransferSyncPlan = { inserts: [], confirmations: [], balanceDelta: "0", lastBlock: null };
+  const balanceRows: BalanceRow[] = [];
+
+  const ordered = [...transfers].sort(
+    (a, b) => a.block_number - b.block_number || a.log_index - b.log_index
+  );
+
+  for (const transfer of ordered) {
+    const from = transfer.from.toLowerCase();
+    const to = transfer.to.toLowerCase();
+    if ((from !== own && to !== own) || from === to) {
+      continue;
+    }
+
+    plan.lastBlock = Math.max(plan.lastBlock ?? 0, transfer.block_number);
+
+    const key = getTransferKey(transfer.tx_hash, transfer.log_index);
+    if (indexed.has(key)) {
+      continue;
+    }
+    indexed.add(key);
+
+    const direction = to === own ? "in" : "out";
+    const counterparty = direction === "in" ? transfer.from : transfer.to;
+    const metadata = {
+      source: "transfer_indexer",
+      log_index: transfer.log_index,
+      block_number: transfer.block_number,
+      token_address: transfer.token_address,
+      balance_applied: true,
+    };
+
+    const balanceRow: BalanceRow = {
+      amount: transfer.amount,
+      direction,
+      token_symbol: transfer.token_symbol,
+    };
+    const matchIndex = unmatched.findIndex(
+      (row) =>
+        row.tx_hash!.toLowerCase() === transfer.tx_hash &&
+        row.direction === direction &&
+        row.token_symbol === transfer.token_symbol
+    );
+
+    if (matchIndex >= 0) {
+      const [row] = unmatched.splice(matchIndex, 1);
+      const counted = row.metadata?.balance_applied !== true;
+      plan.confirmations.push({
+        id: row.id,
+        balanceRow: counted ? balanceRow : null,
+        changes: {
+          status: "confirmed",
+          amount: transfer.amount,
+          log_index: transfer.log_index,
+          counterparty: row.counterparty || counterparty,
+          counterparty_name: row.counterparty_name || names[counterparty.toLowerCase()] || null,
+          metadata: { ...row.metadata, ...metadata },
+        },
+      });
+      if (counted) {
+        balanceRows.push(balanceRow);
+      }
+    } else {
+      plan.inserts.push({
+        account_id: account.id,
+        amount: transfer.amount,
+        direction,
+        counterparty,
+        counterparty_name: names[counterparty.toLowerCase()] || null,
+        tx_hash: transfer.tx_hash,
+        log_index: transfer.log_index,
+        token_symbol: transfer.token_symbol,
+        network: transfer.network,
+        status: "confirmed",
+        description: null,
+        metadata,
+        created_at: transfer.timestamp,
+      });
+      balanceRows.push(balanceRow);
+    }
+  }
+
+  plan.balanceDelta = getBalanceDelta(balanceRows);
+  return plan;
+}
+
+/**
+ * Creates a source that replays recorded logs, for tests and offline runs.
+ *
+ * @param {Record<string, RawTransferLog[]>} [fixture] - Logs keyed by network (defaults to lib/fixtures/transfer-logs.json)
+ * @returns {TransferLogSource} Fixture source
+ */
+export function createFixtureTransferLogSource(
+  fixture: Record<string, RawTransferLog[]> = TRANSFER_LOGS_FIXTURE
+): TransferLogSource {
+  return {
+    name: "fixture",
+    async fetchTransferLogs({ network, address, tokens, fromBlock }) {
+      const topic = toAddressTopic(address);
+      const contracts = tokens.map((token) => token.toLowerCase());
+      return (fixture[network] || []).filter(
+        (log) =>
+          contracts.includes(log.address.toLowerCase()) &&
+          hexToNumber(log.blockNumber) >= fromBlock &&
+          (log.topics[1]?.toLowerCase() === topic || log.topics[2]?.toLowerCase() === topic)
+      );
+    },
+  };
+}
+
+/**
+ * Etherscan v2 multichain API endpoint.
+ * @constant {string}
+ */
+export const ETHERSCAN_API_URL = "https://api.etherscan.io/v2/api";
+
+/**
+ * Maximum number of logs Etherscan returns per request.
+ * @constant {number}
+ */
+export const TRANSFER_LOG_PAGE_SIZE = 1000;
+
+/**
+ * Creates a source backed by an Etherscan-compatible logs API. Sent and
+ * received transfers of each token are separate requests. When a request
+ * hits the page size, logs past its last block are dropped from the result,
+ * so the next scan picks up from there without leaving gaps.
+ *
+ * @param {Object} [options] - Source options
+ * @param {string} [options.url] - API endpoint
+ * @param {string} [options.apiKey] - API key
+ * @returns {TransferLogSource} Etherscan source
+ */
+export function createEtherscanTransferLogSource(
+  options: { url?: string; apiKey?: string } = {}
+): TransferLogSource {
+  const url = options.url || ETHERSCAN_API_URL;
+
+  return {
+    name: "etherscan",
+    async fetchTransferLogs({ network, address, tokens, fromBlock }) {
+      const chainId = requireChain(network).chain.id;
+      const topic = toAddressTopic(address);
+      const logs: RawTransferLog[] = [];
+      let completeUntil = Infinity;
+
+      for (const token of tokens) {
+        // The address is topic1 (from) on sent transfers and topic2 (to) on received ones
+        for (const position of [1, 2]) {
+          const params = new URLSearchParams({
+            chainid: String(chainId),
+            module: "logs",
+            action: "getLogs",
+            address: token,
+            fromBlock: String(fromBlock),
+            toBlock: "latest",
+            topic0: TRANSFER_EVENT_TOPIC,
+            [`topic0_${position}_opr`]: "and",
+            [`topic${position}`]: topic,
+            page: "1",
+            offset: String(TRANSFER_LOG_PAGE_SIZE),
+          });
+          if (options.apiKey) {
+            params.set("apikey", options.apiKey);
+          }
+
+          const response = await fetch(`${url}?${params}`);
+          if (!response.ok) {
+            throw new Error(`Failed to fetch transfer logs: ${response.status}`);
+          }
+
+          const data: { message?: string; result: RawTransferLog[] | string } =
+            await response.json();
+          // "No records found" comes back as status 0 with an empty array
+          if (!Array.isArray(data.result)) {
+            throw new Error(`Failed to fetch transfer logs: ${data.result || data.message}`);
+          }
+
+          logs.push(...data.result);
+          if (data.result.length >= TRANSFER_LOG_PAGE_SIZE) {
+            const lastBlock = hexToNumber(data.result[data.result.length - 1].blockNumber);
+            completeUntil = Math.min(completeUntil, lastBlock);
+          }
+        }
+      }
+
+      return logs.filter((log) => hexToNumber(log.blockNumber) <= completeUntil);
+    },
+  };
+}
+
+let transferLogSource: TransferLogSource | null = null;
+
+/**
+ * Returns the configured transfer log source.
+ *
+ * @returns {TransferLogSource} Source instance
+ * @throws {Error} If TRANSFER_LOG_SOURCE names an unknown source
+ */
+export function getTransferLogSource(): TransferLogSource {
+  if (transferLogSource) {
+    return transferLogSource;
+  }
+
+  const name = process.env.TRANSFER_LOG_SOURCE || "etherscan";
+  switch (name) {
+    case "etherscan":
+      transferLogSource = createEtherscanTransferLogSource({
+        url: process.env.ETHERSCAN_API_URL || undefined,
+        apiKey: process.env.ETHERSCAN_API_KEY || undefined,
+      });
+      break;
+    case "fixture":
+      transferLogSource = createFixtureTransferLogSource();
+      break;
+    default:
+      throw new Error(`Unknown transfer log source: ${name}`);
+  }
+
+  return transferLogSource;
+}
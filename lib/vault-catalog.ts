@@ -0,0 +1,297 @@
+/**
+ * @fileoverview Server-side vault catalog.
+ * Single source of vault information for the invest pages, the vault info
+ * page and the get_investment_options MCP tool. Combines VAULT_REGISTRY with
+ * live metrics from a pluggable source and caches the result in memory.
+ * The source is chosen with VAULT_METRICS_SOURCE ("fixture" by default, or
+ * "morpho" for the Morpho API); /api/vaults/refresh refreshes the cache.
+ */
+
+import {
+  VAULT_REGISTRY,
+  buildVaultData,
+  type VaultData,
+  type VaultDefinition,
+  type VaultMetrics,
+} from "./vault-data";
+import VAULT_METRICS_FIXTURE from "./fixtures/vault-metrics.json";
+
+/**
+ * Source of live vault metrics.
+ * Sources return metrics for the vaults they know about and omit the rest.
+ */
+export interface VaultMetricsSource {
+  name: string;
+  fetchMetrics(vaults: VaultDefinition[]): Promise<VaultMetrics[]>;
+}
+
+/**
+ * Creates a source that serves metrics from a fixture.
+ *
+ * @param {VaultMetrics[]} [fixture] - Metrics to serve (defaults to lib/fixtures/vault-metrics.json)
+ * @returns {VaultMetricsSource} Fixture source
+ */
+export function createFixtureVaultMetricsSource(
+  fixture: VaultMetrics[] = VAULT_METRICS_FIXTURE
+): VaultMetricsSource {
+  return {
+    name: "fixture",
+    async fetchMetrics(vaults) {
+      return fixture.filter((metrics) =>
+        vaults.some(
+          (vault) =>
+            vault.vault_address.toLowerCase() ===
+            metrics.vault_address.toLowerCase()
+        )
+      );
+    },
+  };
+}
+
+/**
+ * Morpho API endpoint used by the morpho source.
+ * @constant {string}
+ */
+export const MORPHO_API_URL = "https://blue-api.morpho.org/graphql";
+
+const MORPHO_VAULTS_QUERY = `
+  query VaultMetrics($addresses: [String!], $chainId: Int!) {
+    vaults(where: { address_in: $addresses, chainId_in: [$chainId] }) {
+      items {
+        address
+        liquidity { usd }
+        state {
+          netApy
+          totalAssetsUsd
+          allocation {
+            supplyAssetsUsd
+            market {
+              loanAsset { symbol }
+              collateralAsset { symbol }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+interface MorphoVaultItem {
+  address: string;
+  liquidity: { usd: number | null } | null;
+  state: {
+    netApy: number | null;
+    totalAssetsUsd: number | null;
+    allocation: Array<{
+      supplyAssetsUsd: number | null;
+      market: {
+        loanAsset: { symbol: string };
+        collateralAsset: { symbol: string } | null;
+      };
+    }>;
+  } | null;
+}
+
+/**
+ * Creates a source that reads vault metrics from the Morpho API.
+ * Allocations below 0.5% of the vault are dropped.
+ *
+ * @param {Object} [options] - Source options
+ * @param {string} [options.url] - GraphQL endpoint
+ * @param {number} [options.chainId] - Chain the vaults are deployed on (Base)
+ * @returns {VaultMetricsSource} Morpho API source
+ */
+export function createMorphoVaultMetricsSource(
+  options: { url?: string; chainId?: number } = {}
+): VaultMetricsSource {
+  const url = options.url || MORPHO_API_URL;
+  const chainId = options.chainId || 8453;
+
+  return {
+    name: "morpho",
+    async fetchMetrics(vaults) {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          query: MORPHO_VAULTS_QUERY,
+          variables: {
+            addresses: vaults.map((vault) => vault.vault_address),
+            chainId,
+          },
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok || result.errors?.length) {
+        throw new Error(
+          result.errors?.[0]?.message ||
+            `Morpho API request failed: ${response.status}`
+        );
+      }
+
+      const items: MorphoVaultItem[] = result.data?.vaults?.items || [];
+      return items.map((item) => {
+        const totalAssets = item.state?.totalAssetsUsd || 0;
+        return {
+          vault_address: item.address,
+          apy: (item.state?.netApy || 0) * 100,
+          totalAssets,
+          liquidity: item.liquidity?.usd || 0,
+          allocations: (item.state?.allocation || [])
+            .filter(
+              (allocation) =>
+                (allocation.supplyAssetsUsd || 0) > totalAssets * 0.005
+            )
+            .map((allocation) => ({
+              market: allocation.market.collateralAsset
+                ? `${allocation.market.collateralAsset.symbol} / ${allocation.market.loanAsset.symbol}`
+                : `Idle ${allocation.market.loanAsset.symbol}`,
+              assets: allocation.supplyAssetsUsd || 0,
+            })),
+        };
+      });
+    },
+  };
+}
+
+/**
+ * Options for a vault catalog.
+ */
+export interface VaultCatalogOptions {
+  source: VaultMetricsSource;
+  vaults?: VaultDefinition[]; // Defaults to VAULT_REGISTRY
+  ttlMs?: number; // How long fetched metrics are served before refetching
+  now?: () => number;
+}
+
+/**
+ * Vault catalog with an in-memory metrics cache.
+ */
+export interface VaultCatalog {
+  getVaults(): Promise<VaultData[]>;
+  getVault(vaultAddress: string): Promise<VaultData | undefined>;
+  refresh(): Promise<VaultData[]>;
+}
+
+/**
+ * Default cache lifetime for vault metrics (5 minutes).
+ * @constant {number}
+ */
+export const VAULT_CATALOG_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Creates a vault catalog.
+ * Metrics are fetched on first use and again once older than the TTL. When a
+ * refetch fails the previous metrics keep being served; vaults without any
+ * metrics are listed with zeroed figures and `metricsUpdatedAt: null`.
+ *
+ * @param {VaultCatalogOptions} options - Catalog options
+ * @returns {VaultCatalog} Vault catalog
+ */
+export function createVaultCatalog(options: VaultCatalogOptions): VaultCatalog {
+  const vaults = options.vaults || VAULT_REGISTRY;
+  const ttlMs = options.ttlMs ?? VAULT_CATALOG_TTL_MS;
+  const now = options.now || Date.now;
+
+  let cache: { data: VaultData[]; fetchedAt: number } | null = null;
+  let inflight: Promise<VaultData[]> | null = null;
+
+  const refresh = async (): Promise<VaultData[]> => {
+    if (inflight) {
+      return inflight;
+    }
+
+    inflight = (async () => {
+      try {
+        const metrics = await options.source.fetchMetrics(vaults);
+        const fetchedAt = now();
+        const updatedAt = new Date(fetchedAt).toISOString();
+        const data = vaults.map((vault) =>
+          buildVaultData(
+            vault,
+            metrics.find(
+              (m) =>
+                m.vault_address.toLowerCase() ===
+                vault.vault_address.toLowerCase()
+            ),
+            updatedAt
+          )
+        );
+        cache = { data, fetchedAt };
+        return data;
+      } catch (error) {
+        console.error(
+          `[VaultCatalog] Failed to fetch metrics from ${options.source.name}:`,
+          error
+        );
+        if (cache) {
+          return cache.data;
+        }
+        return vaults.map((vault) => buildVaultData(vault, undefined, null));
+      } finally {
+        inflight = null;
+      }
+    })();
+
+    return inflight;
+  };
+
+  const getVaults = async (): Promise<VaultData[]> => {
+    if (cache && now() - cache.fetchedAt < ttlMs) {
+      return cache.data;
+    }
+    return refresh();
+  };
+
+  return {
+    getVaults,
+    refresh,
+    async getVault(vaultAddress) {
+      const data = await getVaults();
+      return data.find(
+        (vault) =>
+          vault.vault_address.toLowerCase() === vaultAddress.toLowerCase()
+      );
+    },
+  };
+}
+
+let vaultCatalog: VaultCatalog | null = null;
+
+/**
+ * Returns the configured vault catalog.
+ * The metrics source is selected with the VAULT_METRICS_SOURCE environment
+ * variable and defaults to the fixture.
+ *
+ * @returns {VaultCatalog} Shared vault catalog
+ * @throws {Error} If VAULT_METRICS_SOURCE names an unknown source
+ */
+export function getVaultCatalog(): VaultCatalog {
+  if (vaultCatalog) {
+    return vaultCatalog;
+  }
+
+  const name = process.env.VAULT_METRICS_SOURCE || "fixture";
+  let source: VaultMetricsSource;
+  switch (name) {
+    case "fixture":
+      source = createFixtureVaultMetricsSource();
+      break;
+    case "morpho":
+      source = createMorphoVaultMetricsSource({
+        url: process.env.MORPHO_API_URL || undefined,
+      });
+      break;
+    default:
+      throw new Error(`Unknown vault metrics source: ${name}`);
+  }
+
+  const ttl = parseInt(process.env.VAULT_CATALOG_TTL_MS || "", 10);
+  vaultCatalog = createVaultCatalog({
+    source,
+    ttlMs: isNaN(ttl) ? undefined : ttl,
+  });
+
+  return vaultCatalog;
+}
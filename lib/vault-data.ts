@@ -1,23 +1,20 @@
 /**
- * Vault data configuration for investment information pages.
- * This file contains all vault-specific data that can be easily updated.
+ * Vault data for investment pages.
+ * Static vault information (name, description, risk disclosures) lives in
+ * VAULT_REGISTRY; live metrics (APY, deposits, liquidity, allocations) are
+ * served by the vault catalog (lib/vault-catalog.ts) through /api/vaults.
  */
 
-export interface VaultData {
+/**
+ * Static information about a vault that does not change with market conditions.
+ */
+export interface VaultDefinition {
   id: string;
   name: string;
   description: string;
   vault_address: string;
-  apr: number;
   type: "morpho_vault" | "savings_account";
-  totalDeposits: number;
-  liquidity: number;
-  apy: number;
-  strategy: Array<{
-    market: string;
-    exposure: string;
-    allocation: string;
-  }>;
+  logo: string;
   risks: {
     curatorTVL: string;
     owner: string;
@@ -30,27 +27,48 @@ export interface VaultData {
 }
 
 /**
- * Vault data configuration for all available investment vaults.
- * Update this data to reflect current vault information.
+ * Live metrics for a vault as reported by a vault metrics source.
+ */
+export interface VaultMetrics {
+  vault_address: string;
+  apy: number; // Percentage, e.g. 6.55
+  totalAssets: number; // USD
+  liquidity: number; // USD
+  allocations: Array<{
+    market: string;
+    assets: number; // USD
+  }>;
+}
+
+/**
+ * Vault definition combined with its latest metrics.
  */
-export const VAULT_DATA: VaultData[] = [
+export interface VaultData extends VaultDefinition {
+  apr: number;
+  apy: number;
+  totalDeposits: number;
+  liquidity: number;
+  strategy: Array<{
+    market: string;
+    exposure: string;
+    allocation: string;
+  }>;
+  metricsUpdatedAt: string | null; // null when no metrics are available yet
+}
+
+/**
+ * All vaults offered to users.
+ * Add a vault here to list it; its metrics are fetched by the catalog.
+ */
+export const VAULT_REGISTRY: VaultDefinition[] = [
   {
     id: "morpho-vault-1",
     name: "Spark USDC Vault",
     description:
       "Spark blue-chip USDC vault. Lending against the lowest risk crypto and real-world assets (RWAs). Curated by SparkDAO which allocates billions in assets across all of DeFi.",
     vault_address: "0x7BfA7C4f149E7415b73bdeDfe609237e29CBF34A",
-    apr: 6.55,
     type: "morpho_vault",
-    totalDeposits: 1250000000, // $1.25B
-    liquidity: 650710000, // $650.71M
-    apy: 6.55,
-    strategy: [
-      { market: "USDC Lending", exposure: "45%", allocation: "$292.82M" },
-      { market: "ETH Collateral", exposure: "30%", allocation: "$195.21M" },
-      { market: "BTC Collateral", exposure: "15%", allocation: "$97.61M" },
-      { market: "RWA Assets", exposure: "10%", allocation: "$65.07M" },
-    ],
+    logo: "/morpho.svg",
     risks: {
       curatorTVL: "$650.71M",
       owner: "0xF93B...F579",
@@ -67,17 +85,8 @@ export const VAULT_DATA: VaultData[] = [
     description:
       "The Steakhouse USDC vault aims to optimize yields by lending USDC against blue chip crypto and real world asset (RWA) collateral markets, depending on market conditions.",
     vault_address: "0xbeeF010f9cb27031ad51e3333f9aF9C6B1228183",
-    apr: 5.59,
     type: "morpho_vault",
-    totalDeposits: 850000000, // $850M
-    liquidity: 420000000, // $420M
-    apy: 5.59,
-    strategy: [
-      { market: "USDC Lending", exposure: "50%", allocation: "$210.00M" },
-      { market: "ETH Collateral", exposure: "25%", allocation: "$105.00M" },
-      { market: "BTC Collateral", exposure: "15%", allocation: "$63.00M" },
-      { market: "RWA Assets", exposure: "10%", allocation: "$42.00M" },
-    ],
+    logo: "/morpho.svg",
     risks: {
       curatorTVL: "$420.00M",
       owner: "0x8A25...39AB",
@@ -94,17 +103,8 @@ export const VAULT_DATA: VaultData[] = [
     description:
       "The Seamless USDC Vault curated by Gauntlet is intended to optimize risk-adjusted yield across high-demand collateral markets on Base.",
     vault_address: "0x616a4E1db48e22028f6bbf20444Cd3b8e3273738",
-    apr: 6.99,
     type: "morpho_vault",
-    totalDeposits: 950000000, // $950M
-    liquidity: 580000000, // $580M
-    apy: 6.99,
-    strategy: [
-      { market: "USDC Lending", exposure: "40%", allocation: "$232.00M" },
-      { market: "ETH Collateral", exposure: "35%", allocation: "$203.00M" },
-      { market: "BTC Collateral", exposure: "20%", allocation: "$116.00M" },
-      { market: "RWA Assets", exposure: "5%", allocation: "$29.00M" },
-    ],
+    logo: "/morpho.svg",
     risks: {
       curatorTVL: "$580.00M",
       owner: "0x9B47...2C8D",
@@ -118,22 +118,96 @@ export const VAULT_DATA: VaultData[] = [
 ];
 
 /**
- * Get vault data by vault address.
+ * Formats a USD amount compactly (e.g., 292820000 => "$292.82M").
  *
- * @param {string} vaultAddress - The vault contract address
- * @returns {VaultData | undefined} Vault data or undefined if not found
+ * @param {number} amount - Amount in USD
+ * @returns {string} Compact amount
  */
-export function getVaultData(vaultAddress: string): VaultData | undefined {
-  return VAULT_DATA.find(
-    (vault) => vault.vault_address.toLowerCase() === vaultAddress.toLowerCase()
-  );
+export function formatCompactUsd(amount: number): string {
+  if (amount >= 1_000_000_000) {
+    return `$${(amount / 1_000_000_000).toFixed(2)}B`;
+  }
+  if (amount >= 1_000_000) {
+    return `$${(amount / 1_000_000).toFixed(2)}M`;
+  }
+  if (amount >= 1_000) {
+    return `$${(amount / 1_000).toFixed(2)}K`;
+  }
+  return `$${amount.toFixed(2)}`;
 }
 
 /**
- * Get all vault data.
+ * Combines a vault definition with its metrics.
+ * Allocation percentages are relative to the sum of the allocations.
  *
- * @returns {VaultData[]} Array of all vault data
+ * @param {VaultDefinition} definition - Static vault information
+ * @param {VaultMetrics | undefined} metrics - Latest metrics, if any
+ * @param {string | null} updatedAt - When the metrics were fetched
+ * @returns {VaultData} Vault data for display
  */
-export function getAllVaultData(): VaultData[] {
-  return VAULT_DATA;
+export function buildVaultData(
+  definition: VaultDefinition,
+  metrics: VaultMetrics | undefined,
+  updatedAt: string | null
+): VaultData {
+  const allocations = metrics?.allocations || [];
+  const allocated = allocations.reduce((sum, a) => sum + a.assets, 0);
+  const apy = metrics ? Math.round(metrics.apy * 100) / 100 : 0;
+
+  return {
+    ...definition,
+    apr: apy,
+    apy,
+    totalDeposits: metrics?.totalAssets || 0,
+    liquidity: metrics?.liquidity || 0,
+    strategy: allocations.map((allocation) => ({
+      market: allocation.market,
+      exposure:
+        allocated > 0
+          ? `${Math.round((allocation.assets / allocated) * 100)}%`
+          : "0%",
+      allocation: formatCompactUsd(allocation.assets),
+    })),
+    metricsUpdatedAt: metrics ? updatedAt : null,
+  };
+}
+
+/**
+ * Get all vaults with their current metrics.
+ *
+ * @returns {Promise<VaultData[]>} Array of all vault data
+ * @throws {Error} If the request fails
+ */
+export async function getAllVaultData(): Promise<VaultData[]> {
+  const response = await fetch("/api/vaults");
+  const result = await response.json();
+
+  if (!response.ok) {
+    throw new Error(result.error || "Failed to load vaults");
+  }
+
+  return result.vaults;
+}
+
+/**
+ * Get vault data by vault address.
+ *
+ * @param {string} vaultAddress - The vault contract address
+ * @returns {Promise<VaultData | undefined>} Vault data or undefined if not found
+ * @throws {Error} If the request fails
+ */
+export async function getVaultData(
+  vaultAddress: string
+): Promise<VaultData | undefined> {
+  const response = await fetch(`/api/vaults/${vaultAddress}`);
+  if (response.status === 404) {
+    return undefined;
+  }
+
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || "Failed to load vault");
+  }
+
+  return result.vault;
 }
@@ -0,0 +1,318 @@
+/**
+ * @fileoverview IBAN withdrawal (off-ramp) client functions and hooks.
+ * Quotes and status tracking go through the /api/withdrawals routes, which talk
+ * to the off-ramp provider; the USDC transfer to the provider is signed here.
+ */
+
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useAccount, useSwitchChain, useWriteContract } from "wagmi";
+import { parseUnits } from "viem";
+import type { Withdrawal } from "./supabase";
+import { requireChain } from "./chains";
+import { getTokenAddress, requireToken } from "./tokens";
+import ERC20_ABI from "./abi/ERC20.abi.json";
+import { authFetch } from "./auth-fetch";
+
+export type { Withdrawal };
+
+/**
+ * How often the status screen polls an in-flight withdrawal.
+ * @constant {number}
+ */
+export const WITHDRAWAL_POLL_INTERVAL_MS = 5000;
+
+/**
+ * Checks whether a withdrawal has reached a final state.
+ *
+ * @param {Withdrawal["status"]} status - Withdrawal status
+ * @returns {boolean} True for settled, returned, expired and failed withdrawals
+ */
+export function isWithdrawalFinal(status: Withdrawal["status"]): boolean {
+  return (
+    status === "settled" ||
+    status === "returned" ||
+    status === "expired" ||
+    status === "failed"
+  );
+}
+
+/**
+ * Checks whether a quoted withdrawal can still be signed.
+ *
+ * @param {Withdrawal} withdrawal - Withdrawal to check
+ * @param {Date} [now=new Date()] - Reference time
+ * @returns {boolean} True if the quote is open and not expired
+ */
+export function isWithdrawalQuoteOpen(
+  withdrawal: Pick<Withdrawal, "status" | "quote_expires_at">,
+  now: Date = new Date()
+): boolean {
+  return (
+    withdrawal.status === "quoted" &&
+    new Date(withdrawal.quote_expires_at).getTime() > now.getTime()
+  );
+}
+
+/**
+ * Data required to request a withdrawal quote.
+ */
+export interface CreateWithdrawalQuoteData {
+  profile_id: string;
+  amount: string;
+  iban: string;
+  account_holder: string;
+  bank_name?: string;
+  fiat_currency?: string;
+}
+
+/**
+ * Requests a quote for an IBAN withdrawal.
+ * The quote is stored as a "quoted" withdrawal with the FX rate, fee and the
+ * provider deposit address the user has to send USDC to.
+ *
+ * @param {CreateWithdrawalQuoteData} data - Amount and destination bank account
+ * @returns {Promise<Withdrawal>} Quoted withdrawal
+ * @throws {Error} If validation fails or the provider refuses to quote
+ *
+ * @example
+ * ```typescript
+ * const withdrawal = await createWithdrawalQuote({
+ *   profile_id: profileId,
+ *   amount: "100",
+ *   iban: "DE89370400440532013000",
+ *   account_holder: "Jane Doe",
+ * });
+ * router.push(`/withdraw/review/${withdrawal.id}`);
+ * ```
+ */
+export async function createWithdrawalQuote(
+  data: CreateWithdrawalQuoteData
+): Promise<Withdrawal> {
+  const response = await authFetch("/api/withdrawals", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(data),
+  });
+
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || "Failed to get a withdrawal quote");
+  }
+
+  return result.withdrawal;
+}
+
+/**
+ * Fetches a withdrawal, synced with the provider's latest payout state.
+ *
+ * @param {string} withdrawalId - Withdrawal ID
+ * @param {string} profileId - Owner's profile ID
+ * @returns {Promise<Withdrawal>} Withdrawal
+ * @throws {Error} If the withdrawal is not found
+ */
+export async function getWithdrawal(
+  withdrawalId: string,
+  profileId: string
+): Promise<Withdrawal> {
+  const response = await authFetch(
+    `/api/withdrawals/${withdrawalId}?profile_id=${encodeURIComponent(profileId)}`
+  );
+
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || "Failed to fetch withdrawal");
+  }
+
+  return result.withdrawal;
+}
+
+/**
+ * Lists a profile's withdrawals, most recent first.
+ *
+ * @param {string} profileId - Owner's profile ID
+ * @returns {Promise<Withdrawal[]>} Withdrawals
+ * @throws {Error} If the request fails
+ */
+export async function getWithdrawalsByProfile(
+  profileId: string
+): Promise<Withdrawal[]> {
+  const response = await authFetch(
+    `/api/withdrawals?profile_id=${encodeURIComponent(profileId)}`
+  );
+
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || "Failed to fetch withdrawals");
+  }
+
+  return result.withdrawals;
+}
+
+/**
+ * Records the user's transfer and asks the provider to start the payout.
+ *
+ * @param {string} withdrawalId - Withdrawal ID
+ * @param {string} profileId - Owner's profile ID
+ * @param {string} txHash - Hash of the transfer to the deposit address
+ * @returns {Promise<Withdrawal>} Submitted withdrawal
+ * @throws {Error} If the withdrawal is not open or the provider rejects it
+ */
+export async function submitWithdrawal(
+  withdrawalId: string,
+  profileId: string,
+  txHash: string
+): Promise<Withdrawal> {
+  const response = await authFetch(`/api/withdrawals/${withdrawalId}/submit`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ profile_id: profileId, tx_hash: txHash }),
+  });
+
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || "Failed to submit withdrawal");
+  }
+
+  return result.withdrawal;
+}
+
+/**
+ * React hook that signs the token transfer for a quoted withdrawal and submits it.
+ * Re-checks the quote before asking for a signature so an expired quote never
+ * moves funds, and switches the wallet to the withdrawal's network if needed.
+ *
+ * @returns {Object} Transfer state and action
+ * @returns {Function} return.executeWithdrawal - Sign and submit a withdrawal
+ * @returns {boolean} return.isLoading - True while signing or submitting
+ * @returns {string | null} return.error - Error message if the withdrawal failed
+ *
+ * @example
+ * ```tsx
+ * const { executeWithdrawal, isLoading } = useWithdrawalTransfer();
+ * const submitted = await executeWithdrawal(withdrawal);
+ * router.push(`/withdraw/status/${submitted.id}`);
+ * ```
+ */
+export function useWithdrawalTransfer() {
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { address: userAddress, chainId: walletChainId } = useAccount();
+  const { switchChainAsync } = useSwitchChain();
+  const { writeContractAsync } = useWriteContract();
+
+  const executeWithdrawal = useCallback(
+    async (withdrawal: Withdrawal): Promise<Withdrawal> => {
+      if (!userAddress) {
+        const err = "Wallet not connected. Please connect your wallet to continue.";
+        setError(err);
+        throw new Error(err);
+      }
+
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        // 1. Make sure the quote is still open before moving funds
+        const current = await getWithdrawal(withdrawal.id, withdrawal.profile_id);
+        if (!isWithdrawalQuoteOpen(current)) {
+          throw new Error("This quote has expired. Please request a new one.");
+        }
+
+        // 2. Make sure the wallet is on the withdrawal's network
+        const network = requireChain(current.chain);
+        if (walletChainId !== network.chain.id) {
+          try {
+            await switchChainAsync({ chainId: network.chain.id });
+          } catch (switchError) {
+            console.error("[executeWithdrawal] Failed to switch chain:", switchError);
+            throw new Error(`Please switch your wallet to ${network.label} to continue`);
+          }
+        }
+
+        // 3. Send the tokens to the provider deposit address
+        const token = requireToken(current.token);
+        const tokenAddress = getTokenAddress(token.symbol, network.name);
+        if (!tokenAddress) {
+          throw new Error(`${token.symbol} withdrawals must be sent as a token transfer`);
+        }
+
+        const hash = await writeContractAsync({
+          address: tokenAddress,
+          abi: ERC20_ABI,
+          functionName: "transfer",
+          args: [
+            current.deposit_address as `0x${string}`,
+            parseUnits(current.amount, token.decimals),
+          ],
+          chainId: network.chain.id,
+        });
+
+        // 4. Hand the payout over to the provider
+        return await submitWithdrawal(current.id, current.profile_id, hash);
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : "Withdrawal failed";
+        setError(errorMessage);
+        throw err;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [userAddress, walletChainId, switchChainAsync, writeContractAsync]
+  );
+
+  return { executeWithdrawal, isLoading, error };
+}
+
+/**
+ * React hook for tracking a withdrawal until it reaches a final state.
+ * Polls every `WITHDRAWAL_POLL_INTERVAL_MS` while the payout is in flight.
+ *
+ * @param {string | null} withdrawalId - Withdrawal ID
+ * @param {string | undefined} profileId - Owner's profile ID
+ * @returns {Object} Withdrawal state
+ * @returns {Withdrawal | null} return.withdrawal - Latest withdrawal
+ * @returns {boolean} return.isLoading - True during the first fetch
+ * @returns {string | null} return.error - Error message if the fetch failed
+ * @returns {Function} return.refetch - Refetch manually
+ */
+export function useWithdrawalStatus(
+  withdrawalId: string | null,
+  profileId: string | undefined
+) {
+  const [withdrawal, setWithdrawal] = useState<Withdrawal | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchWithdrawal = useCallback(async () => {
+    if (!withdrawalId || !profileId) return;
+
+    try {
+      const data = await getWithdrawal(withdrawalId, profileId);
+      setWithdrawal(data);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to fetch withdrawal");
+    }
+  }, [withdrawalId, profileId]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    fetchWithdrawal().finally(() => setIsLoading(false));
+  }, [fetchWithdrawal]);
+
+  useEffect(() => {
+    if (!withdrawal || isWithdrawalFinal(withdrawal.status)) return;
+
+    const interval = setInterval(fetchWithdrawal, WITHDRAWAL_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [withdrawal, fetchWithdrawal]);
+
+  return { withdrawal, isLoading, error, refetch: fetchWithdrawal };
+}
@@ -0,0 +1,136 @@
+/**
+ * @fileoverview Tests for personal access tokens.
+ * Mirrors lib/access-tokens.ts and the scope checks in lib/mcp-server.ts:
+ * which tokens are usable, how creation requests are validated, and which
+ * tools and resources each scope unlocks.
+ */
+
+import { strict as assert } from "assert";
+import { createHash } from "crypto";
+
+const ACCESS_TOKEN_SCOPES = ["read:balances", "read:transactions", "read:recipients", "ai:chat", "ai:execute"];
+const ACCESS_TOKEN_EXPIRY_DAYS = [7, 30, 90, 365];
+
+const MCP_TOOL_SCOPES = {
+  get_investment_options: null,
+  get_user_balance: "read:balances",
+  get_accounts: "read:balances",
+  get_recent_transactions: "read:transactions",
+  get_recipients: "read:recipients",
+  get_transaction_summary: "read:transactions",
+  get_onchain_transactions: "read:transactions",
+};
+const RESOURCE_SCOPES = { accounts: "read:balances", transactions: "read:transactions" };
+
+function hasScope(scopes, scope) {
+  return scopes === undefined || scopes.includes(scope);
+}
+
+function canUseTool(toolName, context) {
+  const scope = MCP_TOOL_SCOPES[toolName];
+  return !scope || hasScope(context.scopes, scope);
+}
+
+function canReadResource(uri, context) {
+  const host = uri.match(/^banb:\/\/([a-z_]+)/)?.[1];
+  const scope = host ? RESOURCE_SCOPES[host] : undefined;
+  return !scope || hasScope(context.scopes, scope);
+}
+
+function isAccessTokenActive(token, now = new Date()) {
+  return !token.revoked_at && new Date(token.expires_at).getTime() > now.getTime();
+}
+
+function validateAccessTokenInput(input) {
+  const name = typeof input.name === "string" ? input.name.trim() : "";
+  if (!name || name.length > 50) {
+    return "Name must be 1 to 50 characters";
+  }
+  if (!Array.isArray(input.scopes) || input.scopes.length === 0) {
+    return "Select at least one scope";
+  }
+  const unknownScope = input.scopes.find((scope) => !ACCESS_TOKEN_SCOPES.includes(scope));
+  if (unknownScope !== undefined) {
+    return `Unknown scope: ${String(unknownScope)}`;
+  }
+  if (!ACCESS_TOKEN_EXPIRY_DAYS.includes(input.expires_in_days)) {
+    return `Expiry must be one of ${ACCESS_TOKEN_EXPIRY_DAYS.join(", ")} days`;
+  }
+  return null;
+}
+
+function hashAccessToken(token) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+const NOW = new Date("2025-03-10T12:00:00.000Z");
+
+/**
+ * Test: Revoked and expired tokens
+ */
+export function testAccessTokenActive() {
+  assert.ok(isAccessTokenActive({ expires_at: "2025-04-01T00:00:00.000Z", revoked_at: null }, NOW));
+  assert.ok(
+    !isAccessTokenActive({ expires_at: "2025-03-10T12:00:00.000Z", revoked_at: null }, NOW),
+    "A token is rejected from its expiry time"
+  );
+  assert.ok(
+    !isAccessTokenActive({ expires_at: "2025-04-01T00:00:00.000Z", revoked_at: "2025-03-09T00:00:00.000Z" }, NOW)
+  );
+}
+
+/**
+ * Test: Creation requests
+ */
+export function testAccessTokenInputValidation() {
+  const valid = { name: "Desktop assistant", scopes: ["read:balances"], expires_in_days: 30 };
+  assert.equal(validateAccessTokenInput(valid), null);
+  assert.equal(validateAccessTokenInput({ ...valid, name: "   " }), "Name must be 1 to 50 characters");
+  assert.equal(validateAccessTokenInput({ ...valid, scopes: [] }), "Select at least one scope");
+  assert.equal(validateAccessTokenInput({ ...valid, scopes: ["write:payments"] }), "Unknown scope: write:payments");
+  assert.equal(
+    validateAccessTokenInput({ ...valid, expires_in_days: 1000 }),
+    "Expiry must be one of 7, 30, 90, 365 days",
+    "Every token must expire"
+  );
+}
+
+/**
+ * Test: Tool and resource access per scope
+ */
+export function testScopeEnforcement() {
+  const session = { profileId: "p1" };
+  assert.ok(
+    Object.keys(MCP_TOOL_SCOPES).every((tool) => canUseTool(tool, session)),
+    "The signed-in user without a token can use every tool"
+  );
+
+  const balancesOnly = { profileId: "p1", scopes: ["read:balances"] };
+  assert.ok(canUseTool("get_accounts", balancesOnly));
+  assert.ok(canUseTool("get_investment_options", balancesOnly), "Public data needs no scope");
+  assert.ok(!canUseTool("get_recent_transactions", balancesOnly));
+  assert.ok(!canUseTool("get_onchain_transactions", balancesOnly));
+  assert.ok(!canUseTool("get_recipients", balancesOnly));
+
+  assert.ok(canReadResource("banb://accounts/acc-1", balancesOnly));
+  assert.ok(!canReadResource("banb://transactions?limit=5", balancesOnly));
+  assert.ok(!canReadResource("banb://transactions{?limit}", balancesOnly), "Templates are filtered too");
+  assert.ok(canReadResource("banb://unknown", balancesOnly), "Unknown URIs are left to readResource");
+
+  const chatOnly = { profileId: "p1", scopes: ["ai:chat"] };
+  assert.deepEqual(
+    Object.keys(MCP_TOOL_SCOPES).filter((tool) => canUseTool(tool, chatOnly)),
+    ["get_investment_options"],
+    "A chat token without read scopes only gets public tools"
+  );
+}
+
+/**
+ * Test: Tokens are looked up by hash
+ */
+export function testAccessTokenHash() {
+  const hash = hashAccessToken("banb_pat_example");
+  assert.equal(hash.length, 64);
+  assert.equal(hash, hashAccessToken("banb_pat_example"), "Hashing is deterministic so tokens can be looked up");
+  assert.notEqual(hash, hashAccessToken("banb_pat_examplf"));
+}
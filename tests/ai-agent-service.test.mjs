@@ -107,40 +107,6 @@ export async function testPortfolioInsightsCalculation() {
   console.log("✓ Portfolio insights calculation test passed");
 }
 
-/**
- * Test: AI response parsing for payment operations
- */
-export async function testAIResponseParsingPayment() {
-  console.log("Testing AI response parsing for payments...");
-
-  const context = {
-    balance: "1000.00",
-    transactions: mockTransactions,
-    recipients: mockRecipients,
-  };
-
-  // Test payment detection
-  const paymentResponse = "I can send $50 to Alice for you. Would you like me to proceed?";
-  const amountMatch = paymentResponse.match(/\$(\d+(?:\.\d{2})?)|(\d+(?:\.\d{2})?)\s*usdc/i);
-  const toMatch = paymentResponse.match(/to\s+([A-Za-z]+)/i);
-
-  assert.ok(amountMatch, "Should detect amount in payment response");
-  assert.ok(toMatch, "Should detect recipient in payment response");
-  assert.equal(amountMatch[1], "50", "Should extract correct amount");
-  assert.equal(toMatch[1], "Alice", "Should extract correct recipient name");
-
-  // Find recipient
-  const recipientName = toMatch[1];
-  const recipient = context.recipients.find((r) =>
-    r.name.toLowerCase().includes(recipientName.toLowerCase())
-  );
-
-  assert.ok(recipient, "Should find recipient in context");
-  assert.equal(recipient.name, "Alice", "Should match correct recipient");
-
-  console.log("✓ AI response parsing for payments test passed");
-}
-
 /**
  * Test: AI response parsing for analysis operations
  */
@@ -292,7 +258,6 @@ async function runTests() {
 
   try {
     await testPortfolioInsightsCalculation();
-    await testAIResponseParsingPayment();
     await testAIResponseParsingAnalysis();
     await testOperationValidation();
     await testContextRetrieval();
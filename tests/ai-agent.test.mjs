@@ -150,41 +150,79 @@ export function testOperationValidation() {
 }
 
 /**
- * Test: AI response parsing
+ * Test: Operations proposed through action tools
  */
-export function testAIResponseParsing() {
-  function parseAIResponse(response) {
-    const paymentPattern = /send\s+\$?(\d+(?:\.\d{2})?)\s+to\s+(\w+)/i;
-    const match = response.match(paymentPattern);
-
-    if (match) {
-      return {
-        operation: {
-          type: "payment",
-          data: {
-            amount: match[1],
-            recipientName: match[2],
-          },
-        },
-      };
+export function testActionToolProposal() {
+  const ACTION_TOOL_OPERATIONS = {
+    propose_payment: "payment",
+    propose_investment: "invest",
+    propose_recipient: "recipient",
+  };
+
+  function proposeOperation(toolName, args, recipients) {
+    const type = ACTION_TOOL_OPERATIONS[toolName];
+    if (!type) {
+      return { operation: null, error: `Unknown action tool: ${toolName}` };
+    }
+    if (type !== "payment") {
+      return { operation: { type, data: args } };
     }
 
-    return { operation: null };
-  }
+    const data = {
+      ...args,
+      amount: typeof args.amount === "number" ? String(args.amount) : args.amount,
+      token: args.token || "USDC",
+      chain: args.chain || "base",
+    };
+    const wanted = data.recipient_name?.toLowerCase();
+    const recipient = recipients.find((r) =>
+      data.recipient_id ? r.id === data.recipient_id : r.name.toLowerCase() === wanted
+    );
+    if (!recipient) {
+      return { operation: null, error: "Recipient not found among saved recipients" };
+    }
 
-  // Test: Payment suggestion
-  const paymentResponse = "I can send $50.00 to Alice for you. Would you like me to proceed?";
-  const parsed1 = parseAIResponse(paymentResponse);
-  assert.ok(parsed1.operation !== null, "Should detect payment operation");
-  assert.equal(parsed1.operation.data.amount, "50.00", "Should extract correct amount");
-  assert.equal(parsed1.operation.data.recipientName, "Alice", "Should extract correct recipient");
+    return {
+      operation: {
+        type,
+        data: {
+          ...data,
+          recipient_id: recipient.id,
+          recipient_name: recipient.name,
+          to: recipient.external_address,
+        },
+      },
+    };
+  }
 
-  // Test: Non-payment response
-  const normalResponse = "Your balance is looking good!";
-  const parsed2 = parseAIResponse(normalResponse);
-  assert.ok(parsed2.operation === null, "Should not detect operation in normal response");
+  const recipients = [
+    { id: "r1", name: "Mary Jane", external_address: "0x1111111111111111111111111111111111111111" },
+    { id: "r2", name: "Bob", external_address: "0x2222222222222222222222222222222222222222" },
+  ];
 
-  console.log("✓ AI response parsing test passed");
+  // Test: Multi-word names and amounts without cents
+  const payment = proposeOperation("propose_payment", { recipient_name: "mary jane", amount: "12.5" }, recipients);
+  assert.equal(payment.operation.type, "payment", "Should propose a payment");
+  assert.equal(payment.operation.data.recipient_id, "r1", "Should resolve the saved recipient");
+  assert.equal(payment.operation.data.recipient_name, "Mary Jane", "Should use the saved name");
+  assert.equal(payment.operation.data.amount, "12.5", "Should keep the amount");
+  assert.equal(payment.operation.data.chain, "base", "Should default the network");
+
+  // Test: Numeric amounts become strings
+  const numeric = proposeOperation("propose_payment", { recipient_id: "r2", amount: 40 }, recipients);
+  assert.equal(numeric.operation.data.amount, "40", "Should convert numeric amounts");
+
+  // Test: Unknown recipient is reported back to the model
+  const unknown = proposeOperation("propose_payment", { recipient_name: "Mary", amount: "5" }, recipients);
+  assert.equal(unknown.operation, null, "Partial names should not match");
+  assert.ok(unknown.error.includes("not found"), "Should explain the failure");
+
+  // Test: Other action tools
+  const invest = proposeOperation("propose_investment", { option_id: "morpho-vault-2", amount: "200" }, recipients);
+  assert.equal(invest.operation.type, "invest", "Should propose an investment");
+  assert.equal(proposeOperation("get_recipients", {}, recipients).operation, null, "Data tools are not action tools");
+
+  console.log("✓ Action tool proposal test passed");
 }
 
 /**
@@ -252,7 +290,7 @@ try {
   testInputSanitization();
   testRateLimiting();
   testOperationValidation();
-  testAIResponseParsing();
+  testActionToolProposal();
   testMockResponseGeneration();
 
   console.log("\n✅ All AI Agent tests passed!\n");
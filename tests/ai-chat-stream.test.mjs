@@ -0,0 +1,226 @@
+/**
+ * @fileoverview Tests for streaming AI chat responses.
+ * Mirrors lib/sse.ts (event encoding and parsing across chunk boundaries)
+ * and the streamed Chat Completions accumulation in lib/ai-provider.ts.
+ */
+
+import { strict as assert } from "assert";
+
+function formatSSEEvent(event, data) {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+function parseSSEBlock(block) {
+  let event = "message";
+  const data = [];
+
+  for (const line of block.split(/\r?\n/)) {
+    if (!line || line.startsWith(":")) {
+      continue;
+    }
+    const separator = line.indexOf(":");
+    const field = separator === -1 ? line : line.slice(0, separator);
+    const value =
+      separator === -1 ? "" : line.slice(separator + 1).replace(/^ /, "");
+
+    if (field === "event") {
+      event = value;
+    } else if (field === "data") {
+      data.push(value);
+    }
+  }
+
+  return data.length > 0 ? { event, data: data.join("\n") } : null;
+}
+
+async function readSSEStream(body, onEvent) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+
+      buffer += decoder.decode(value, { stream: true });
+      const blocks = buffer.split(/\r?\n\r?\n/);
+      buffer = blocks.pop() || "";
+      for (const block of blocks) {
+        const event = parseSSEBlock(block);
+        if (event) {
+          onEvent(event);
+        }
+      }
+    }
+
+    const event = parseSSEBlock(buffer + decoder.decode());
+    if (event) {
+      onEvent(event);
+    }
+  } catch (error) {
+    reader.cancel().catch(() => {});
+    throw error;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+function parseToolArguments(raw) {
+  if (typeof raw !== "string" || raw.trim() === "") {
+    return {};
+  }
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+async function readOpenAIStream(body, onTextDelta) {
+  let content = "";
+  let finishReason = null;
+  const calls = [];
+
+  await readSSEStream(body, ({ data }) => {
+    if (data === "[DONE]") {
+      return;
+    }
+
+    const chunk = JSON.parse(data);
+    const choice = chunk.choices?.[0];
+    if (!choice) {
+      return;
+    }
+
+    if (choice.delta?.content) {
+      content += choice.delta.content;
+      onTextDelta(choice.delta.content);
+    }
+    for (const fragment of choice.delta?.tool_calls || []) {
+      const call = (calls[fragment.index] ||= { id: "", name: "", arguments: "" });
+      call.id = fragment.id || call.id;
+      call.name += fragment.function?.name || "";
+      call.arguments += fragment.function?.arguments || "";
+    }
+    if (choice.finish_reason) {
+      finishReason = choice.finish_reason;
+    }
+  });
+
+  const toolCalls = calls.filter(Boolean).map((call) => ({
+    id: call.id,
+    name: call.name,
+    arguments: parseToolArguments(call.arguments),
+  }));
+
+  return {
+    content: content || null,
+    toolCalls,
+    finishReason:
+      toolCalls.length > 0 ? "tool_calls" : finishReason === "length" ? "length" : "stop",
+  };
+}
+
+/**
+ * Builds a stream that delivers `text` in chunks of `size` bytes.
+ */
+function chunkedStream(text, size) {
+  const bytes = new TextEncoder().encode(text);
+  let offset = 0;
+  return new ReadableStream({
+    pull(controller) {
+      if (offset >= bytes.length) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(bytes.slice(offset, offset + size));
+      offset += size;
+    },
+  });
+}
+
+/**
+ * Test: SSE encoding and parsing
+ * Validates round trips, comments, multi-line data and split chunks
+ */
+export async function testSSERoundTrip() {
+  console.log("Testing SSE encoding and parsing...");
+
+  const payload =
+    formatSSEEvent("delta", { text: "Hello, " }) +
+    ": keep-alive\n\n" +
+    formatSSEEvent("tool", { name: "get_recent_transactions", status: "started" }) +
+    "data: line one\ndata: line two\n\n" +
+    formatSSEEvent("done", { response: "Héllo 👋", operation: null });
+
+  // Tiny chunks split events and multi-byte characters
+  const events = [];
+  await readSSEStream(chunkedStream(payload, 3), (event) => events.push(event));
+
+  assert.deepEqual(
+    events.map((e) => e.event),
+    ["delta", "tool", "message", "done"]
+  );
+  assert.equal(JSON.parse(events[0].data).text, "Hello, ");
+  assert.equal(events[2].data, "line one\nline two");
+  assert.equal(JSON.parse(events[3].data).response, "Héllo 👋");
+
+  // A final event without the trailing blank line is still delivered
+  const tail = [];
+  await readSSEStream(chunkedStream("event: done\ndata: {}", 4), (e) => tail.push(e));
+  assert.equal(tail.length, 1);
+
+  // Handler errors stop reading
+  await assert.rejects(
+    readSSEStream(chunkedStream(payload, 16), (event) => {
+      if (event.event === "tool") {
+        throw new Error("stop");
+      }
+    }),
+    /stop/
+  );
+
+  console.log("✓ SSE round trip test passed");
+}
+
+/**
+ * Test: Streamed Chat Completions
+ * Validates text deltas and tool calls assembled from fragments
+ */
+export async function testOpenAIStreamAccumulation() {
+  console.log("Testing streamed chat completion accumulation...");
+
+  const chunk = (delta, finish_reason = null) =>
+    `data: ${JSON.stringify({ choices: [{ delta, finish_reason }] })}\n\n`;
+
+  const textStream =
+    chunk({ content: "Your " }) + chunk({ content: "balance is 42." }) +
+    chunk({}, "stop") + "data: [DONE]\n\n";
+  const deltas = [];
+  const text = await readOpenAIStream(chunkedStream(textStream, 7), (d) => deltas.push(d));
+  assert.deepEqual(deltas, ["Your ", "balance is 42."]);
+  assert.equal(text.content, "Your balance is 42.");
+  assert.equal(text.finishReason, "stop");
+
+  const toolStream =
+    chunk({ tool_calls: [{ index: 0, id: "call_1", function: { name: "get_recent_", arguments: "" } }] }) +
+    chunk({ tool_calls: [{ index: 0, function: { name: "transactions", arguments: "{\"lim" } }] }) +
+    chunk({ tool_calls: [{ index: 0, function: { arguments: "it\": 5}" } }] }) +
+    chunk({ tool_calls: [{ index: 1, id: "call_2", function: { name: "get_user_balance", arguments: "" } }] }) +
+    chunk({}, "tool_calls") + "data: [DONE]\n\n";
+  const tools = await readOpenAIStream(chunkedStream(toolStream, 11), () => {
+    throw new Error("No text expected");
+  });
+  assert.equal(tools.content, null);
+  assert.equal(tools.finishReason, "tool_calls");
+  assert.deepEqual(tools.toolCalls, [
+    { id: "call_1", name: "get_recent_transactions", arguments: { limit: 5 } },
+    { id: "call_2", name: "get_user_balance", arguments: {} },
+  ]);
+
+  console.log("✓ Streamed chat completion test passed");
+}
@@ -0,0 +1,118 @@
+/**
+ * @fileoverview Tests for persistent AI conversations.
+ * Mirrors lib/ai-conversations.ts: titles, the token-budgeted history window
+ * and the messages sent to the model.
+ */
+
+import { strict as assert } from "assert";
+
+const AI_CONVERSATION_TITLE_LENGTH = 60;
+
+function estimateTokens(text) {
+  return Math.ceil(text.length / 4);
+}
+
+function getConversationTitle(message) {
+  const title = message.replace(/\s+/g, " ").trim();
+  if (title.length <= AI_CONVERSATION_TITLE_LENGTH) {
+    return title || "New conversation";
+  }
+  return `${title.slice(0, AI_CONVERSATION_TITLE_LENGTH - 1).trimEnd()}…`;
+}
+
+function buildHistoryWindow(messages, budget) {
+  let start = messages.length;
+  let tokens = 0;
+
+  while (start > 0) {
+    const cost = estimateTokens(messages[start - 1].content);
+    if (tokens + cost > budget) {
+      break;
+    }
+    tokens += cost;
+    start--;
+  }
+
+  while (start < messages.length && messages[start].role !== "user") {
+    start++;
+  }
+
+  return { recent: messages.slice(start), older: messages.slice(0, start) };
+}
+
+function toHistoryMessages(summary, recent) {
+  const history = [];
+  if (summary) {
+    history.push({ role: "system", content: `Summary of the earlier conversation: ${summary}` });
+  }
+  for (const message of recent) {
+    history.push({
+      role: message.role,
+      content: message.cancelled ? `${message.content}\n[answer stopped by the user]` : message.content,
+    });
+  }
+  return history;
+}
+
+// 40 characters = 10 tokens per message
+const turn = (role, letter) => ({ role, content: letter.repeat(40) });
+
+/**
+ * Test: Conversation titles
+ */
+export function testConversationTitle() {
+  assert.equal(getConversationTitle("  What did I   spend\non food? "), "What did I spend on food?");
+  assert.equal(getConversationTitle("   "), "New conversation");
+
+  const long = getConversationTitle("word ".repeat(30));
+  assert.ok(long.length <= AI_CONVERSATION_TITLE_LENGTH, "Long titles are shortened");
+  assert.ok(long.endsWith("…"), "Shortened titles end with an ellipsis");
+}
+
+/**
+ * Test: History window keeps the newest messages within budget
+ */
+export function testHistoryWindowBudget() {
+  const messages = [
+    turn("user", "a"),
+    turn("assistant", "b"),
+    turn("user", "c"),
+    turn("assistant", "d"),
+  ];
+
+  // Everything fits
+  const all = buildHistoryWindow(messages, 100);
+  assert.equal(all.recent.length, 4);
+  assert.equal(all.older.length, 0);
+
+  // Only the last turn fits
+  const lastTurn = buildHistoryWindow(messages, 25);
+  assert.deepEqual(lastTurn.recent.map((m) => m.content[0]), ["c", "d"]);
+  assert.deepEqual(lastTurn.older.map((m) => m.content[0]), ["a", "b"]);
+
+  // The window never starts with an assistant message
+  const odd = buildHistoryWindow(messages, 35);
+  assert.equal(odd.recent[0].role, "user");
+  assert.deepEqual(odd.older.map((m) => m.content[0]), ["a", "b"]);
+
+  // Nothing fits
+  const none = buildHistoryWindow(messages, 5);
+  assert.equal(none.recent.length, 0);
+  assert.equal(none.older.length, 4);
+}
+
+/**
+ * Test: Summary and stopped answers in the prompt
+ */
+export function testHistoryMessages() {
+  const history = toHistoryMessages("User asked about rent.", [
+    { role: "user", content: "And groceries?" },
+    { role: "assistant", content: "You spent", cancelled: true },
+  ]);
+
+  assert.equal(history.length, 3);
+  assert.equal(history[0].role, "system");
+  assert.ok(history[0].content.includes("User asked about rent."));
+  assert.ok(history[2].content.endsWith("[answer stopped by the user]"));
+  assert.equal(toHistoryMessages(null, []).length, 0, "No summary and no messages");
+}
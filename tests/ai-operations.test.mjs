@@ -0,0 +1,299 @@
+/**
+ * @fileoverview Tests for structured AI operations.
+ * Mirrors lib/ai-operations.ts: the action tool schemas and the validator
+ * shared by the chat route, validateAIOperation and /api/ai/execute, and the
+ * step log kept in ai_operations.execution_result.
+ */
+
+import { strict as assert } from "assert";
+
+const AI_OPERATION_TYPES = ["payment", "invest", "withdraw_investment", "recipient", "analysis", "query"];
+const MAX_AI_OPERATION_AMOUNT = 1000000;
+const AMOUNT_PATTERN = "^\\d+(\\.\\d+)?$";
+const ADDRESS_PATTERN = "^0x[a-fA-F0-9]{40}$";
+
+// Subset of the token registry: which networks each token can be sent on
+const TOKEN_CHAINS = {
+  USDC: ["base", "ethereum", "arbitrum", "optimism", "polygon"],
+  EURC: ["base", "ethereum"],
+  ETH: ["base", "ethereum", "arbitrum", "optimism", "polygon"],
+  DAI: ["base", "ethereum", "arbitrum", "optimism", "polygon"],
+};
+
+const AI_OPERATION_SCHEMAS = {
+  payment: {
+    properties: {
+      recipient_id: { type: "string" },
+      recipient_name: { type: "string" },
+      amount: { type: "string", pattern: AMOUNT_PATTERN },
+      token: { type: "string", enum: Object.keys(TOKEN_CHAINS) },
+      chain: { type: "string", enum: ["base", "ethereum", "arbitrum", "optimism", "polygon"] },
+      note: { type: "string", maxLength: 140 },
+    },
+    required: ["amount"],
+  },
+  invest: {
+    properties: {
+      option_id: { type: "string", enum: ["morpho-vault-1", "morpho-vault-2", "morpho-vault-3"] },
+      amount: { type: "string", pattern: AMOUNT_PATTERN },
+    },
+    required: ["option_id", "amount"],
+  },
+  withdraw_investment: {
+    properties: {
+      option_id: { type: "string", enum: ["morpho-vault-1", "morpho-vault-2", "morpho-vault-3"] },
+      amount: { type: "string", pattern: AMOUNT_PATTERN },
+      withdraw_all: { type: "boolean" },
+    },
+    required: ["option_id"],
+  },
+  recipient: {
+    properties: {
+      name: { type: "string", maxLength: 80 },
+      address: { type: "string", pattern: ADDRESS_PATTERN },
+    },
+    required: ["name", "address"],
+  },
+};
+
+function checkProperty(field, value, schema) {
+  if (schema.type === "string") {
+    if (typeof value !== "string") {
+      return `${field} must be a string`;
+    }
+    if (Array.isArray(schema.enum) && !schema.enum.includes(value)) {
+      return `${field} must be one of: ${schema.enum.join(", ")}`;
+    }
+    if (typeof schema.pattern === "string" && !new RegExp(schema.pattern).test(value)) {
+      return `${field} has an invalid format`;
+    }
+    if (typeof schema.maxLength === "number" && value.length > schema.maxLength) {
+      return `${field} must be at most ${schema.maxLength} characters`;
+    }
+  }
+  if (schema.type === "boolean" && typeof value !== "boolean") {
+    return `${field} must be true or false`;
+  }
+  return null;
+}
+
+function isEmpty(value) {
+  return value === undefined || value === null || value === "";
+}
+
+function validateAIOperationData(type, data) {
+  if (!AI_OPERATION_TYPES.includes(type)) {
+    return { valid: false, errors: [`Invalid operation type: ${type}`] };
+  }
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    return { valid: false, errors: ["Operation data must be an object"] };
+  }
+
+  const errors = [];
+  const schema = AI_OPERATION_SCHEMAS[type];
+
+  if (schema) {
+    for (const field of schema.required) {
+      if (isEmpty(data[field])) {
+        errors.push(`${field} is required`);
+      }
+    }
+    for (const [field, propertySchema] of Object.entries(schema.properties)) {
+      if (isEmpty(data[field])) {
+        continue;
+      }
+      const error = checkProperty(field, data[field], propertySchema);
+      if (error) {
+        errors.push(error);
+      }
+    }
+  }
+
+  if (typeof data.amount === "string" && new RegExp(AMOUNT_PATTERN).test(data.amount)) {
+    const amount = parseFloat(data.amount);
+    if (amount <= 0) {
+      errors.push("Amount must be greater than zero");
+    } else if (amount > MAX_AI_OPERATION_AMOUNT) {
+      errors.push("Amount exceeds maximum limit");
+    }
+  }
+
+  if (type === "payment") {
+    if (!data.recipient_id && !data.recipient_name) {
+      errors.push("Payment requires recipient name or ID");
+    }
+    if (data.to !== undefined && !new RegExp(ADDRESS_PATTERN).test(String(data.to))) {
+      errors.push("Invalid recipient address format");
+    }
+    const chain = data.chain || "base";
+    const token = data.token || "USDC";
+    if (TOKEN_CHAINS[token] && !TOKEN_CHAINS[token].includes(chain)) {
+      errors.push(`${token} is not available on ${chain}`);
+    }
+  }
+
+  if (type === "withdraw_investment") {
+    if (data.withdraw_all === true && data.amount) {
+      errors.push("Withdrawal takes either an amount or withdraw_all, not both");
+    } else if (data.withdraw_all !== true && !data.amount) {
+      errors.push("Withdrawal requires an amount or withdraw_all");
+    }
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
+function appendOperationStep(executionResult, step, details, at = new Date().toISOString()) {
+  const steps = Array.isArray(executionResult?.steps) ? executionResult.steps : [];
+  const entry = { step, at };
+  if (details && Object.keys(details).length > 0) {
+    entry.details = details;
+  }
+  return { ...executionResult, steps: [...steps, entry] };
+}
+
+/**
+ * Test: Payment operations
+ */
+export function testPaymentOperationSchema() {
+  const valid = validateAIOperationData("payment", {
+    recipient_name: "Mary Jane",
+    amount: "12.5",
+    token: "USDC",
+    chain: "base",
+  });
+  assert.ok(valid.valid, "Valid payment should pass");
+
+  // Amounts are decimal strings within limits
+  assert.ok(!validateAIOperationData("payment", { recipient_id: "r1", amount: "0" }).valid);
+  assert.ok(!validateAIOperationData("payment", { recipient_id: "r1", amount: "-5" }).valid);
+  assert.ok(!validateAIOperationData("payment", { recipient_id: "r1", amount: "1,000" }).valid);
+  assert.ok(!validateAIOperationData("payment", { recipient_id: "r1", amount: 50 }).valid);
+  assert.deepEqual(
+    validateAIOperationData("payment", { recipient_id: "r1", amount: "2000000" }).errors,
+    ["Amount exceeds maximum limit"]
+  );
+
+  // A recipient is required
+  assert.deepEqual(
+    validateAIOperationData("payment", { amount: "10" }).errors,
+    ["Payment requires recipient name or ID"]
+  );
+
+  // Network and token must be supported together
+  assert.ok(
+    validateAIOperationData("payment", { recipient_id: "r1", amount: "10", chain: "solana" })
+      .errors[0].startsWith("chain must be one of"),
+    "Unknown network should fail"
+  );
+  assert.deepEqual(
+    validateAIOperationData("payment", { recipient_id: "r1", amount: "10", token: "EURC", chain: "polygon" }).errors,
+    ["EURC is not available on polygon"]
+  );
+
+  // Resolved address must be well formed
+  assert.deepEqual(
+    validateAIOperationData("payment", { recipient_id: "r1", amount: "10", to: "0x123" }).errors,
+    ["Invalid recipient address format"]
+  );
+}
+
+/**
+ * Test: Investment and recipient operations
+ */
+export function testInvestAndRecipientOperationSchemas() {
+  assert.ok(validateAIOperationData("invest", { option_id: "morpho-vault-2", amount: "200" }).valid);
+  assert.deepEqual(
+    validateAIOperationData("invest", { amount: "200" }).errors,
+    ["option_id is required"]
+  );
+  assert.ok(
+    !validateAIOperationData("invest", { option_id: "unknown-vault", amount: "200" }).valid,
+    "Unlisted vaults should fail"
+  );
+
+  assert.ok(
+    validateAIOperationData("recipient", {
+      name: "Bob's wallet",
+      address: "0x2222222222222222222222222222222222222222",
+    }).valid
+  );
+  assert.deepEqual(
+    validateAIOperationData("recipient", { name: "Bob", address: "bob.eth" }).errors,
+    ["address has an invalid format"]
+  );
+}
+
+/**
+ * Test: Investment withdrawals
+ */
+export function testWithdrawInvestmentOperationSchema() {
+  assert.ok(validateAIOperationData("withdraw_investment", { option_id: "morpho-vault-1", amount: "50" }).valid);
+  assert.ok(
+    validateAIOperationData("withdraw_investment", { option_id: "morpho-vault-1", withdraw_all: true }).valid,
+    "Full withdrawals need no amount"
+  );
+
+  // Exactly one of amount and withdraw_all
+  assert.deepEqual(
+    validateAIOperationData("withdraw_investment", { option_id: "morpho-vault-1" }).errors,
+    ["Withdrawal requires an amount or withdraw_all"]
+  );
+  assert.deepEqual(
+    validateAIOperationData("withdraw_investment", { option_id: "morpho-vault-1", amount: "50", withdraw_all: true }).errors,
+    ["Withdrawal takes either an amount or withdraw_all, not both"]
+  );
+  assert.ok(
+    validateAIOperationData("withdraw_investment", { option_id: "morpho-vault-1", amount: "50", withdraw_all: false }).valid,
+    "withdraw_all false with an amount is a partial withdrawal"
+  );
+
+  assert.deepEqual(
+    validateAIOperationData("withdraw_investment", { option_id: "morpho-vault-1", withdraw_all: "yes" }).errors,
+    ["withdraw_all must be true or false", "Withdrawal requires an amount or withdraw_all"]
+  );
+  assert.deepEqual(
+    validateAIOperationData("withdraw_investment", { option_id: "morpho-vault-1", amount: "0" }).errors,
+    ["Amount must be greater than zero"]
+  );
+}
+
+/**
+ * Test: Step log
+ */
+export function testOperationStepLog() {
+  const proposed = appendOperationStep(null, "proposed", undefined, "2025-01-01T10:00:00.000Z");
+  assert.deepEqual(proposed, { steps: [{ step: "proposed", at: "2025-01-01T10:00:00.000Z" }] });
+
+  // Result fields and earlier steps are kept
+  const confirmed = appendOperationStep(
+    { ...proposed, reviewPath: "/invest/review?option=morpho-vault-1&amount=200" },
+    "confirmed",
+    {},
+    "2025-01-01T10:01:00.000Z"
+  );
+  assert.equal(confirmed.reviewPath, "/invest/review?option=morpho-vault-1&amount=200");
+  assert.deepEqual(confirmed.steps.map((s) => s.step), ["proposed", "confirmed"]);
+  assert.equal(confirmed.steps[1].details, undefined, "Empty details are omitted");
+
+  const completed = appendOperationStep(confirmed, "completed", { txHash: "0xabc" });
+  assert.deepEqual(completed.steps.map((s) => s.step), ["proposed", "confirmed", "completed"]);
+  assert.deepEqual(completed.steps[2].details, { txHash: "0xabc" });
+  assert.equal(confirmed.steps.length, 2, "The previous log is not mutated");
+
+  // Records logged before steps existed start a new log
+  assert.deepEqual(
+    appendOperationStep({ error: "old" }, "failed", undefined, "2025-01-02T00:00:00.000Z"),
+    { error: "old", steps: [{ step: "failed", at: "2025-01-02T00:00:00.000Z" }] }
+  );
+}
+
+/**
+ * Test: Operation types and data shape
+ */
+export function testOperationTypesAndShape() {
+  assert.ok(validateAIOperationData("analysis", {}).valid, "Analysis accepts any data");
+  assert.ok(validateAIOperationData("query", { question: "balance" }).valid, "Query accepts any data");
+  assert.deepEqual(validateAIOperationData("transfer", {}).errors, ["Invalid operation type: transfer"]);
+  assert.deepEqual(validateAIOperationData("payment", null).errors, ["Operation data must be an object"]);
+}
@@ -0,0 +1,354 @@
+/**
+ * @fileoverview Tests for the AI provider layer.
+ * Mirrors lib/ai-provider.ts: tool schema translation, Anthropic message
+ * conversion, provider configuration and the tool-calling loop driven by the
+ * scripted provider.
+ */
+
+import { strict as assert } from "assert";
+
+const TOOLS = [
+  {
+    name: "get_user_balance",
+    description: "Get current USDC balance",
+    inputSchema: { type: "object", properties: {} },
+  },
+  {
+    name: "get_recent_transactions",
+    description: "Get recent transactions",
+    inputSchema: {
+      type: "object",
+      properties: { limit: { type: "number" } },
+    },
+  },
+];
+
+function toOpenAITools(tools) {
+  return tools.map((tool) => ({
+    type: "function",
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.inputSchema,
+    },
+  }));
+}
+
+function toAnthropicTools(tools) {
+  return tools.map((tool) => ({
+    name: tool.name,
+    description: tool.description,
+    input_schema: tool.inputSchema,
+  }));
+}
+
+function toAnthropicMessages(messages) {
+  const system = messages
+    .filter((message) => message.role === "system" && message.content)
+    .map((message) => message.content)
+    .join("\n\n");
+  const converted = [];
+
+  for (const message of messages) {
+    if (message.role === "system") {
+      continue;
+    }
+
+    let role;
+    const blocks = [];
+    if (message.role === "tool") {
+      role = "user";
+      blocks.push({
+        type: "tool_result",
+        tool_use_id: message.toolCallId || "",
+        content: message.content || "",
+      });
+    } else {
+      role = message.role;
+      if (message.content) {
+        blocks.push({ type: "text", text: message.content });
+      }
+      for (const call of message.toolCalls || []) {
+        blocks.push({
+          type: "tool_use",
+          id: call.id,
+          name: call.name,
+          input: call.arguments,
+        });
+      }
+    }
+
+    const previous = converted[converted.length - 1];
+    if (previous && previous.role === role) {
+      previous.content.push(...blocks);
+    } else {
+      converted.push({ role, content: blocks });
+    }
+  }
+
+  return { system: system || undefined, messages: converted };
+}
+
+const DEFAULT_AI_MODELS = {
+  openai: "gpt-4o-mini",
+  anthropic: "claude-3-5-haiku-latest",
+  local: "llama3.1",
+};
+
+function getAIProviderConfig(env) {
+  const provider = env.AI_PROVIDER || "openai";
+  if (!(provider in DEFAULT_AI_MODELS)) {
+    return { valid: false, error: `Unknown AI_PROVIDER "${env.AI_PROVIDER}".` };
+  }
+
+  const apiKey = env.AI_API_KEY;
+  const isPlaceholder = !apiKey || apiKey.startsWith("your_");
+  const model = env.AI_MODEL || DEFAULT_AI_MODELS[provider];
+  const baseUrl = env.AI_BASE_URL || undefined;
+
+  if (provider === "local") {
+    return {
+      valid: true,
+      config: {
+        provider,
+        apiKey: isPlaceholder ? undefined : apiKey,
+        model,
+        baseUrl: baseUrl || "http://localhost:11434/v1",
+      },
+    };
+  }
+
+  if (isPlaceholder) {
+    return { valid: false, error: "AI_API_KEY is not configured." };
+  }
+  if (provider === "openai" && !baseUrl && !apiKey.startsWith("sk-")) {
+    return { valid: false, error: "Invalid AI_API_KEY format." };
+  }
+
+  return { valid: true, config: { provider, apiKey, model, baseUrl } };
+}
+
+function createScriptedAIProvider(script) {
+  const requests = [];
+
+  return {
+    name: "scripted",
+    model: "scripted",
+    requests,
+
+    async complete(request) {
+      const step = script[requests.length];
+      requests.push(request);
+      if (!step) {
+        throw new Error("Scripted provider has no more responses");
+      }
+
+      const completion = typeof step === "function" ? step(request) : step;
+      const toolCalls = completion.toolCalls || [];
+      return {
+        content: completion.content ?? null,
+        toolCalls,
+        finishReason:
+          completion.finishReason || (toolCalls.length > 0 ? "tool_calls" : "stop"),
+      };
+    },
+  };
+}
+
+async function runToolLoop(options) {
+  const maxIterations = options.maxIterations ?? 5;
+  const messages = [...options.messages];
+  const executed = [];
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    const completion = await options.provider.complete({
+      messages,
+      tools: options.tools,
+    });
+
+    if (completion.toolCalls.length === 0) {
+      messages.push({ role: "assistant", content: completion.content });
+      return { content: completion.content, messages, toolCalls: executed };
+    }
+
+    messages.push({
+      role: "assistant",
+      content: completion.content,
+      toolCalls: completion.toolCalls,
+    });
+
+    for (const call of completion.toolCalls) {
+      options.onToolCall?.(call);
+      let result;
+      try {
+        result = await options.executeTool(call.name, call.arguments);
+      } catch (error) {
+        result = `Error: ${error instanceof Error ? error.message : "Tool execution failed"}`;
+      }
+      executed.push(call);
+      messages.push({ role: "tool", content: result, toolCallId: call.id });
+    }
+  }
+
+  throw new Error(`Tool loop did not finish within ${maxIterations} model calls`);
+}
+
+/**
+ * Test: Tool schema translation
+ * Validates that MCP tools map to OpenAI functions and Anthropic tools
+ */
+export function testToolTranslation() {
+  console.log("Testing tool schema translation...");
+
+  const openai = toOpenAITools(TOOLS);
+  assert.equal(openai[1].type, "function");
+  assert.equal(openai[1].function.name, "get_recent_transactions");
+  assert.deepEqual(openai[1].function.parameters, TOOLS[1].inputSchema);
+
+  const anthropic = toAnthropicTools(TOOLS);
+  assert.deepEqual(anthropic[0], {
+    name: "get_user_balance",
+    description: "Get current USDC balance",
+    input_schema: { type: "object", properties: {} },
+  });
+
+  console.log("✓ Tool translation test passed");
+}
+
+/**
+ * Test: Anthropic message conversion
+ * Validates system extraction, tool_use blocks and grouped tool results
+ */
+export function testAnthropicMessageConversion() {
+  console.log("Testing Anthropic message conversion...");
+
+  const { system, messages } = toAnthropicMessages([
+    { role: "system", content: "You are a banking assistant." },
+    { role: "user", content: "Balance and last payments?" },
+    {
+      role: "assistant",
+      content: null,
+      toolCalls: [
+        { id: "call_1", name: "get_user_balance", arguments: {} },
+        { id: "call_2", name: "get_recent_transactions", arguments: { limit: 3 } },
+      ],
+    },
+    { role: "tool", content: "{\"balance\":\"42\"}", toolCallId: "call_1" },
+    { role: "tool", content: "[]", toolCallId: "call_2" },
+  ]);
+
+  assert.equal(system, "You are a banking assistant.");
+  assert.equal(messages.length, 3);
+  assert.deepEqual(messages[1].content.map((b) => b.type), ["tool_use", "tool_use"]);
+  assert.deepEqual(messages[1].content[1].input, { limit: 3 });
+  // Both tool results travel in one user turn
+  assert.equal(messages[2].role, "user");
+  assert.deepEqual(
+    messages[2].content.map((b) => b.tool_use_id),
+    ["call_1", "call_2"]
+  );
+
+  console.log("✓ Anthropic message conversion test passed");
+}
+
+/**
+ * Test: Provider configuration
+ * Validates provider selection, model defaults and key requirements
+ */
+export function testProviderConfig() {
+  console.log("Testing AI provider configuration...");
+
+  assert.equal(
+    getAIProviderConfig({ AI_API_KEY: "sk-test" }).config.model,
+    "gpt-4o-mini"
+  );
+  assert.equal(
+    getAIProviderConfig({ AI_PROVIDER: "anthropic", AI_API_KEY: "sk-ant-x", AI_MODEL: "claude-custom" }).config.model,
+    "claude-custom"
+  );
+  assert.equal(getAIProviderConfig({ AI_PROVIDER: "anthropic" }).valid, false);
+  assert.equal(getAIProviderConfig({ AI_API_KEY: "your_ai_api_key" }).valid, false);
+  assert.equal(getAIProviderConfig({ AI_API_KEY: "abc" }).valid, false);
+  // Custom OpenAI-style endpoints may use other key formats
+  assert.equal(
+    getAIProviderConfig({ AI_API_KEY: "abc", AI_BASE_URL: "https://proxy.example/v1" }).valid,
+    true
+  );
+  assert.equal(getAIProviderConfig({ AI_PROVIDER: "gemini" }).valid, false);
+
+  const local = getAIProviderConfig({ AI_PROVIDER: "local" });
+  assert.equal(local.valid, true);
+  assert.equal(local.config.baseUrl, "http://localhost:11434/v1");
+  assert.equal(local.config.apiKey, undefined);
+
+  console.log("✓ Provider configuration test passed");
+}
+
+/**
+ * Test: Tool-calling loop with the scripted provider
+ * Validates tool execution, result feedback and error handling offline
+ */
+export async function testToolLoopWithScriptedProvider() {
+  console.log("Testing tool loop with scripted provider...");
+
+  const provider = createScriptedAIProvider([
+    {
+      toolCalls: [
+        { id: "call_1", name: "get_user_balance", arguments: {} },
+        { id: "call_2", name: "get_missing_tool", arguments: {} },
+      ],
+    },
+    (request) => {
+      const results = request.messages.filter((m) => m.role === "tool");
+      return { content: `Balance: ${JSON.parse(results[0].content).balance} USDC` };
+    },
+  ]);
+
+  const called = [];
+  const result = await runToolLoop({
+    provider,
+    messages: [{ role: "user", content: "What's my balance?" }],
+    tools: TOOLS,
+    executeTool: async (name) => {
+      called.push(name);
+      if (name === "get_user_balance") {
+        return JSON.stringify({ balance: "42.00" });
+      }
+      throw new Error(`Unknown tool: ${name}`);
+    },
+  });
+
+  assert.equal(result.content, "Balance: 42.00 USDC");
+  assert.deepEqual(called, ["get_user_balance", "get_missing_tool"]);
+  assert.equal(result.toolCalls.length, 2);
+  assert.equal(provider.requests.length, 2);
+  assert.equal(provider.requests[0].tools.length, 2);
+  // Tool failures are reported back to the model
+  const toolMessages = result.messages.filter((m) => m.role === "tool");
+  assert.equal(toolMessages[1].content, "Error: Unknown tool: get_missing_tool");
+  assert.equal(toolMessages[1].toolCallId, "call_2");
+
+  // Models that keep calling tools are stopped
+  const looping = createScriptedAIProvider(
+    Array.from({ length: 3 }, (_, i) => ({
+      toolCalls: [{ id: `call_${i}`, name: "get_user_balance", arguments: {} }],
+    }))
+  );
+  await assert.rejects(
+    runToolLoop({
+      provider: looping,
+      messages: [{ role: "user", content: "loop" }],
+      executeTool: async () => "{}",
+      maxIterations: 3,
+    }),
+    /within 3 model calls/
+  );
+
+  // Exhausted scripts fail loudly
+  await assert.rejects(
+    createScriptedAIProvider([]).complete({ messages: [] }),
+    /no more responses/
+  );
+
+  console.log("✓ Tool loop test passed");
+}
@@ -0,0 +1,280 @@
+/**
+ * @fileoverview Tests for the AI spending policy.
+ * Mirrors lib/ai-spending-policy.ts: how payments are valued, how recent AI
+ * volume is counted, and which rule refuses a payment.
+ */
+
+import { strict as assert } from "assert";
+
+const HOUR_MS = 60 * 60 * 1000;
+const REFERENCE_EUR_RATE = 0.85;
+const MAX_RECIPIENT_COOLDOWN_HOURS = 720;
+const TOKEN_PEGS = { USDC: "USD", DAI: "USD", EURC: "EUR", ETH: null };
+
+const DEFAULT_POLICY = {
+  per_transaction_limit: null,
+  daily_limit: null,
+  weekly_limit: null,
+  allowlist_enabled: false,
+  allowed_recipient_ids: [],
+  new_recipient_cooldown_hours: 0,
+};
+
+function getPaymentValueUSD(amount, token) {
+  const peg = TOKEN_PEGS[token];
+  const value = parseFloat(amount);
+  if (!peg || isNaN(value)) {
+    return null;
+  }
+  return peg === "EUR" ? value / REFERENCE_EUR_RATE : value;
+}
+
+function formatUSD(value) {
+  return `$${value.toFixed(2)}`;
+}
+
+function evaluateSpendingPolicy(policy, payment, usage, now = new Date()) {
+  const amountUSD = getPaymentValueUSD(payment.amount, payment.token);
+  const decide = (rule, reason) => ({
+    allowed: rule === null,
+    rule,
+    reason,
+    amount_usd: amountUSD,
+    usage,
+    evaluated_at: now.toISOString(),
+  });
+
+  if (policy.allowlist_enabled && !policy.allowed_recipient_ids.includes(payment.recipient_id)) {
+    return decide("recipient_allowlist", "This recipient is not on your list of recipients the AI assistant can pay");
+  }
+
+  if (policy.new_recipient_cooldown_hours > 0) {
+    const availableAt =
+      new Date(payment.recipient_created_at).getTime() + policy.new_recipient_cooldown_hours * HOUR_MS;
+    if (now.getTime() < availableAt) {
+      const hoursLeft = Math.ceil((availableAt - now.getTime()) / HOUR_MS);
+      return decide(
+        "new_recipient_cooldown",
+        `This recipient was added recently. The AI assistant can pay them in ${hoursLeft} hour${hoursLeft === 1 ? "" : "s"}`
+      );
+    }
+  }
+
+  const hasLimits =
+    policy.per_transaction_limit !== null || policy.daily_limit !== null || policy.weekly_limit !== null;
+  if (!hasLimits) {
+    return decide(null, "No spending limits apply");
+  }
+  if (amountUSD === null) {
+    return decide("unpriced_token", `${payment.token} payments can't be checked against your spending limits`);
+  }
+
+  if (policy.per_transaction_limit !== null && amountUSD > policy.per_transaction_limit) {
+    return decide(
+      "per_transaction_limit",
+      `This payment exceeds your limit of ${formatUSD(policy.per_transaction_limit)} per AI payment`
+    );
+  }
+  if (policy.daily_limit !== null && usage.daily + amountUSD > policy.daily_limit) {
+    return decide(
+      "daily_limit",
+      `This payment exceeds your daily AI limit of ${formatUSD(policy.daily_limit)} (${formatUSD(Math.max(policy.daily_limit - usage.daily, 0))} left)`
+    );
+  }
+  if (policy.weekly_limit !== null && usage.weekly + amountUSD > policy.weekly_limit) {
+    return decide(
+      "weekly_limit",
+      `This payment exceeds your weekly AI limit of ${formatUSD(policy.weekly_limit)} (${formatUSD(Math.max(policy.weekly_limit - usage.weekly, 0))} left)`
+    );
+  }
+
+  return decide(null, "Within your spending limits");
+}
+
+function getSpendingUsage(payments, now = new Date()) {
+  const usage = { daily: 0, weekly: 0 };
+  for (const payment of payments) {
+    const value = getPaymentValueUSD(payment.amount, payment.token);
+    const age = now.getTime() - new Date(payment.executed_at).getTime();
+    if (value === null || age < 0) {
+      continue;
+    }
+    if (age < 24 * HOUR_MS) {
+      usage.daily += value;
+    }
+    if (age < 7 * 24 * HOUR_MS) {
+      usage.weekly += value;
+    }
+  }
+  return usage;
+}
+
+function validateSpendingPolicySettings(settings) {
+  for (const field of ["per_transaction_limit", "daily_limit", "weekly_limit"]) {
+    const value = settings[field];
+    if (value !== undefined && value !== null && (typeof value !== "number" || !(value > 0))) {
+      return `${field} must be a positive number or null`;
+    }
+  }
+  const { per_transaction_limit, daily_limit, weekly_limit } = settings;
+  if (per_transaction_limit && daily_limit && per_transaction_limit > daily_limit) {
+    return "The per-payment limit can't be higher than the daily limit";
+  }
+  if (daily_limit && weekly_limit && daily_limit > weekly_limit) {
+    return "The daily limit can't be higher than the weekly limit";
+  }
+  const cooldown = settings.new_recipient_cooldown_hours;
+  if (
+    cooldown !== undefined &&
+    (!Number.isInteger(cooldown) || cooldown < 0 || cooldown > MAX_RECIPIENT_COOLDOWN_HOURS)
+  ) {
+    return `new_recipient_cooldown_hours must be a whole number from 0 to ${MAX_RECIPIENT_COOLDOWN_HOURS}`;
+  }
+  return null;
+}
+
+const NOW = new Date("2025-03-10T12:00:00.000Z");
+const NO_USAGE = { daily: 0, weekly: 0 };
+const payment = (overrides = {}) => ({
+  amount: "50",
+  token: "USDC",
+  recipient_id: "r1",
+  recipient_created_at: "2025-01-01T00:00:00.000Z",
+  ...overrides,
+});
+
+/**
+ * Test: Default policy and amount limits
+ */
+export function testAmountLimits() {
+  const open = evaluateSpendingPolicy(DEFAULT_POLICY, payment({ amount: "900000" }), NO_USAGE, NOW);
+  assert.ok(open.allowed, "Without a policy any valid amount is allowed");
+  assert.equal(open.rule, null);
+
+  const policy = { ...DEFAULT_POLICY, per_transaction_limit: 100, daily_limit: 200, weekly_limit: 500 };
+  assert.ok(evaluateSpendingPolicy(policy, payment({ amount: "100" }), NO_USAGE, NOW).allowed, "Limits are inclusive");
+
+  const perTx = evaluateSpendingPolicy(policy, payment({ amount: "100.01" }), NO_USAGE, NOW);
+  assert.equal(perTx.rule, "per_transaction_limit");
+  assert.equal(perTx.reason, "This payment exceeds your limit of $100.00 per AI payment");
+
+  const daily = evaluateSpendingPolicy(policy, payment({ amount: "60" }), { daily: 150, weekly: 150 }, NOW);
+  assert.equal(daily.rule, "daily_limit");
+  assert.equal(daily.reason, "This payment exceeds your daily AI limit of $200.00 ($50.00 left)");
+
+  const weekly = evaluateSpendingPolicy(policy, payment({ amount: "60" }), { daily: 0, weekly: 480 }, NOW);
+  assert.equal(weekly.rule, "weekly_limit");
+  assert.deepEqual(weekly.usage, { daily: 0, weekly: 480 }, "Usage is recorded with the decision");
+}
+
+/**
+ * Test: Token valuation
+ */
+export function testTokenValuation() {
+  assert.equal(getPaymentValueUSD("25", "DAI"), 25);
+  assert.equal(getPaymentValueUSD("85", "EURC"), 100);
+  assert.equal(getPaymentValueUSD("1", "ETH"), null);
+
+  const policy = { ...DEFAULT_POLICY, per_transaction_limit: 90 };
+  assert.equal(
+    evaluateSpendingPolicy(policy, payment({ amount: "80", token: "EURC" }), NO_USAGE, NOW).rule,
+    "per_transaction_limit",
+    "EURC is valued in dollars"
+  );
+  assert.equal(
+    evaluateSpendingPolicy(policy, payment({ amount: "0.01", token: "ETH" }), NO_USAGE, NOW).rule,
+    "unpriced_token"
+  );
+  assert.ok(
+    evaluateSpendingPolicy(DEFAULT_POLICY, payment({ amount: "1", token: "ETH" }), NO_USAGE, NOW).allowed,
+    "ETH is allowed when no limit is set"
+  );
+}
+
+/**
+ * Test: Allowlist and new recipient cooldown
+ */
+export function testRecipientRules() {
+  const allowlist = { ...DEFAULT_POLICY, allowlist_enabled: true, allowed_recipient_ids: ["r1"] };
+  assert.ok(evaluateSpendingPolicy(allowlist, payment(), NO_USAGE, NOW).allowed);
+  assert.equal(
+    evaluateSpendingPolicy(allowlist, payment({ recipient_id: "r2" }), NO_USAGE, NOW).rule,
+    "recipient_allowlist"
+  );
+  assert.equal(
+    evaluateSpendingPolicy({ ...allowlist, allowed_recipient_ids: [] }, payment(), NO_USAGE, NOW).rule,
+    "recipient_allowlist",
+    "An empty allowlist refuses every recipient"
+  );
+
+  const cooldown = { ...DEFAULT_POLICY, new_recipient_cooldown_hours: 24 };
+  const recent = evaluateSpendingPolicy(
+    cooldown,
+    payment({ recipient_created_at: "2025-03-10T02:30:00.000Z" }),
+    NO_USAGE,
+    NOW
+  );
+  assert.equal(recent.rule, "new_recipient_cooldown");
+  assert.equal(recent.reason, "This recipient was added recently. The AI assistant can pay them in 15 hours");
+  assert.ok(
+    evaluateSpendingPolicy(cooldown, payment({ recipient_created_at: "2025-03-09T12:00:00.000Z" }), NO_USAGE, NOW)
+      .allowed,
+    "The cooldown ends exactly after the configured hours"
+  );
+
+  // The allowlist is checked before the limits
+  const both = { ...allowlist, per_transaction_limit: 10 };
+  assert.equal(
+    evaluateSpendingPolicy(both, payment({ recipient_id: "r2", amount: "500" }), NO_USAGE, NOW).rule,
+    "recipient_allowlist"
+  );
+}
+
+/**
+ * Test: Recent AI volume
+ */
+export function testSpendingUsage() {
+  const usage = getSpendingUsage(
+    [
+      { amount: "40", token: "USDC", executed_at: "2025-03-10T09:00:00.000Z" },
+      { amount: "85", token: "EURC", executed_at: "2025-03-09T13:00:00.000Z" },
+      { amount: "30", token: "DAI", executed_at: "2025-03-08T12:00:00.000Z" },
+      { amount: "1", token: "ETH", executed_at: "2025-03-10T10:00:00.000Z" },
+      { amount: "500", token: "USDC", executed_at: "2025-03-03T11:59:00.000Z" },
+    ],
+    NOW
+  );
+  assert.equal(usage.daily, 140);
+  assert.equal(usage.weekly, 170);
+}
+
+/**
+ * Test: Settings validation
+ */
+export function testPolicySettingsValidation() {
+  assert.equal(validateSpendingPolicySettings(DEFAULT_POLICY), null);
+  assert.equal(
+    validateSpendingPolicySettings({ ...DEFAULT_POLICY, per_transaction_limit: 50, daily_limit: 100, weekly_limit: 300 }),
+    null
+  );
+  assert.equal(
+    validateSpendingPolicySettings({ ...DEFAULT_POLICY, daily_limit: 0 }),
+    "daily_limit must be a positive number or null"
+  );
+  assert.equal(
+    validateSpendingPolicySettings({ ...DEFAULT_POLICY, weekly_limit: NaN }),
+    "weekly_limit must be a positive number or null"
+  );
+  assert.equal(
+    validateSpendingPolicySettings({ ...DEFAULT_POLICY, per_transaction_limit: 200, daily_limit: 100 }),
+    "The per-payment limit can't be higher than the daily limit"
+  );
+  assert.equal(
+    validateSpendingPolicySettings({ ...DEFAULT_POLICY, daily_limit: 600, weekly_limit: 500 }),
+    "The daily limit can't be higher than the weekly limit"
+  );
+  assert.equal(
+    validateSpendingPolicySettings({ ...DEFAULT_POLICY, new_recipient_cooldown_hours: 1.5 }),
+    "new_recipient_cooldown_hours must be a whole number from 0 to 720"
+  );
+}
@@ -0,0 +1,158 @@
+/**
+ * @fileoverview Tests for AI usage limits.
+ * Mirrors lib/ai-usage.ts and lib/ai-usage-store.ts with the in-memory
+ * ledger: monthly quotas by plan, the per-minute rate limit, and the quota
+ * period boundaries.
+ */
+
+import { strict as assert } from "assert";
+
+const AI_PLAN_QUOTAS = { free: 30, pro: 300, ambassador: 300 };
+const AI_RATE_LIMIT = 10;
+const AI_RATE_LIMIT_WINDOW_MS = 60 * 1000;
+
+function getUsagePeriodStart(now) {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+function getUsagePeriodEnd(now) {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+}
+
+function summarizeAIUsage(plan, used, now) {
+  const limit = AI_PLAN_QUOTAS[plan];
+  return {
+    plan,
+    limit,
+    used,
+    remaining: Math.max(0, limit - used),
+    resets_at: getUsagePeriodEnd(now).toISOString(),
+  };
+}
+
+function createMemoryAIUsageStore() {
+  const events = new Map();
+  return {
+    name: "memory",
+    async countRequests(profileId, since) {
+      return (events.get(profileId) || []).filter((at) => at >= since.getTime()).length;
+    },
+    async recordRequestWithinLimits(profileId, at, limits) {
+      const profileEvents = events.get(profileId) || [];
+      const used = profileEvents.filter((t) => t >= limits.periodStart.getTime()).length;
+      const recent = profileEvents.filter((t) => t >= limits.windowStart.getTime()).length;
+      const recorded = used < limits.quota && recent < limits.rateLimit;
+      if (recorded) {
+        events.set(profileId, [...profileEvents, at.getTime()]);
+      }
+      return { recorded, used, recent };
+    },
+  };
+}
+
+async function consumeAIRequest(store, profileId, plan, now) {
+  const attempt = await store.recordRequestWithinLimits(profileId, now, {
+    periodStart: getUsagePeriodStart(now),
+    quota: AI_PLAN_QUOTAS[plan],
+    windowStart: new Date(now.getTime() - AI_RATE_LIMIT_WINDOW_MS),
+    rateLimit: AI_RATE_LIMIT,
+  });
+  const usage = summarizeAIUsage(plan, attempt.used, now);
+
+  if (attempt.recorded) {
+    return { ok: true, usage: summarizeAIUsage(plan, attempt.used + 1, now) };
+  }
+
+  if (usage.remaining === 0) {
+    return {
+      ok: false,
+      reason: "quota",
+      retryAfterSeconds: Math.ceil((new Date(usage.resets_at).getTime() - now.getTime()) / 1000),
+      usage,
+    };
+  }
+
+  return { ok: false, reason: "rate_limit", retryAfterSeconds: 60, usage };
+}
+
+const START = new Date("2025-03-10T12:00:00.000Z");
+
+function minutesLater(minutes) {
+  return new Date(START.getTime() + minutes * 60 * 1000);
+}
+
+/**
+ * Test: Quota period is the calendar month in UTC
+ */
+export function testUsagePeriod() {
+  assert.equal(getUsagePeriodStart(START).toISOString(), "2025-03-01T00:00:00.000Z");
+  assert.equal(getUsagePeriodEnd(START).toISOString(), "2025-04-01T00:00:00.000Z");
+  assert.equal(
+    getUsagePeriodEnd(new Date("2025-12-31T23:59:59.000Z")).toISOString(),
+    "2026-01-01T00:00:00.000Z"
+  );
+  assert.deepEqual(summarizeAIUsage("free", 12, START), {
+    plan: "free",
+    limit: 30,
+    used: 12,
+    remaining: 18,
+    resets_at: "2025-04-01T00:00:00.000Z",
+  });
+  assert.equal(summarizeAIUsage("free", 45, START).remaining, 0, "Remaining never goes negative");
+}
+
+/**
+ * Test: Requests per minute are limited on every plan
+ */
+export async function testRateLimit() {
+  const store = createMemoryAIUsageStore();
+  for (let i = 0; i < AI_RATE_LIMIT; i++) {
+    assert.ok((await consumeAIRequest(store, "p1", "pro", START)).ok);
+  }
+
+  const limited = await consumeAIRequest(store, "p1", "pro", START);
+  assert.equal(limited.ok, false);
+  assert.equal(limited.reason, "rate_limit");
+  assert.equal(limited.usage.used, AI_RATE_LIMIT, "Refused requests are not recorded");
+
+  assert.ok((await consumeAIRequest(store, "p2", "pro", START)).ok, "Limits are per profile");
+  assert.ok((await consumeAIRequest(store, "p1", "pro", minutesLater(2))).ok, "The window slides");
+}
+
+/**
+ * Test: Monthly quota depends on the plan
+ */
+export async function testMonthlyQuota() {
+  const store = createMemoryAIUsageStore();
+  for (let i = 0; i < AI_PLAN_QUOTAS.free; i++) {
+    const result = await consumeAIRequest(store, "p1", "free", minutesLater(i));
+    assert.ok(result.ok);
+    assert.equal(result.usage.remaining, AI_PLAN_QUOTAS.free - i - 1);
+  }
+
+  const refused = await consumeAIRequest(store, "p1", "free", minutesLater(100));
+  assert.equal(refused.ok, false);
+  assert.equal(refused.reason, "quota");
+  assert.ok(refused.retryAfterSeconds > 0);
+
+  const upgraded = await consumeAIRequest(store, "p1", "pro", minutesLater(100));
+  assert.ok(upgraded.ok, "Upgrading raises the quota immediately");
+  assert.equal(upgraded.usage.remaining, AI_PLAN_QUOTAS.pro - AI_PLAN_QUOTAS.free - 1);
+
+  const nextMonth = await consumeAIRequest(store, "p1", "free", new Date("2025-04-01T00:00:00.000Z"));
+  assert.ok(nextMonth.ok, "The quota resets at the start of the month");
+  assert.equal(nextMonth.usage.used, 1);
+}
+
+/**
+ * Test: Concurrent requests cannot go past the limit
+ */
+export async function testConcurrentRequests() {
+  const store = createMemoryAIUsageStore();
+  const results = await Promise.all(
+    Array.from({ length: AI_RATE_LIMIT + 5 }, () => consumeAIRequest(store, "p1", "pro", START))
+  );
+
+  assert.equal(results.filter((result) => result.ok).length, AI_RATE_LIMIT);
+  assert.equal(await store.countRequests("p1", START), AI_RATE_LIMIT);
+}
@@ -0,0 +1,136 @@
+/**
+ * @fileoverview Tests for bank account validation.
+ * Mirrors the helpers in lib/bank-validation.ts: IBAN length and mod-97
+ * checksum, BIC format, ABA routing checksum, UK sort codes and formatting.
+ */
+
+import { strict as assert } from "assert";
+
+const IBAN_LENGTHS = { DE: 22, GB: 22, FR: 27, NL: 18, NO: 15, BE: 16, IT: 27 };
+
+function normalizeIban(iban) {
+  return iban.replace(/[\s-]+/g, "").toUpperCase();
+}
+
+function ibanMod97(iban) {
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const code = char.charCodeAt(0);
+    const value = code >= 65 ? (code - 55).toString() : char;
+    for (const digit of value) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder;
+}
+
+function validateIban(iban) {
+  const normalized = normalizeIban(iban);
+  if (!normalized) return "IBAN is required";
+  if (!/^[A-Z]{2}[0-9]{2}[A-Z0-9]+$/.test(normalized)) {
+    return "IBAN must start with a country code and two check digits";
+  }
+  const country = normalized.slice(0, 2);
+  const expectedLength = IBAN_LENGTHS[country];
+  if (!expectedLength) return `IBANs from ${country} are not supported`;
+  if (normalized.length !== expectedLength) {
+    return `${country} IBANs must be ${expectedLength} characters`;
+  }
+  if (ibanMod97(normalized) !== 1) return "IBAN checksum is invalid";
+  return null;
+}
+
+function formatIban(iban) {
+  return normalizeIban(iban).replace(/(.{4})(?=.)/g, "$1 ");
+}
+
+function validateBic(bic) {
+  const normalized = bic.replace(/\s+/g, "").toUpperCase();
+  if (!normalized) return "BIC is required";
+  if (!/^[A-Z]{4}[A-Z]{2}[A-Z0-9]{2}([A-Z0-9]{3})?$/.test(normalized)) {
+    return "BIC must be 8 or 11 characters (e.g., NWBKGB2L)";
+  }
+  return null;
+}
+
+function validateRoutingNumber(routingNumber) {
+  const digits = routingNumber.replace(/\s+/g, "");
+  if (!/^[0-9]{9}$/.test(digits)) return "Routing number must be 9 digits";
+  const d = digits.split("").map(Number);
+  const checksum =
+    3 * (d[0] + d[3] + d[6]) + 7 * (d[1] + d[4] + d[7]) + (d[2] + d[5] + d[8]);
+  if (checksum % 10 !== 0) return "Routing number checksum is invalid";
+  return null;
+}
+
+function validateSortCode(sortCode) {
+  if (!/^[0-9]{6}$/.test(sortCode.replace(/[\s-]+/g, ""))) {
+    return "Sort code must be 6 digits";
+  }
+  return null;
+}
+
+/**
+ * Test: IBAN validation
+ * Validates registry examples, checksum failures and wrong lengths
+ */
+export function testIbanValidation() {
+  console.log("Testing IBAN validation...");
+
+  // Examples from the SWIFT IBAN registry
+  assert.equal(validateIban("DE89370400440532013000"), null);
+  assert.equal(validateIban("GB29 NWBK 6016 1331 9268 19"), null);
+  assert.equal(validateIban("fr14 2004 1010 0505 0001 3m02 606"), null);
+  assert.equal(validateIban("NL91ABNA0417164300"), null);
+  assert.equal(validateIban("NO9386011117947"), null);
+  assert.equal(validateIban("BE68539007547034"), null);
+
+  assert.equal(validateIban("DE88370400440532013000"), "IBAN checksum is invalid");
+  assert.equal(validateIban("GB29NWBK601613319268"), "GB IBANs must be 22 characters");
+  assert.equal(validateIban("XX89370400440532013000"), "IBANs from XX are not supported");
+  assert.equal(
+    validateIban("DEAB370400440532013000"),
+    "IBAN must start with a country code and two check digits"
+  );
+  assert.equal(validateIban("   "), "IBAN is required");
+
+  console.log("✓ IBAN validation test passed");
+}
+
+/**
+ * Test: IBAN formatting
+ * Validates display grouping in blocks of four
+ */
+export function testIbanFormatting() {
+  console.log("Testing IBAN formatting...");
+
+  assert.equal(formatIban("gb29nwbk60161331926819"), "GB29 NWBK 6016 1331 9268 19");
+  assert.equal(formatIban("DE89 3704 0044 0532 0130 00"), "DE89 3704 0044 0532 0130 00");
+  assert.equal(formatIban("NO9386011117947"), "NO93 8601 1117 947");
+
+  console.log("✓ IBAN formatting test passed");
+}
+
+/**
+ * Test: BIC, routing number and sort code validation
+ */
+export function testDomesticValidation() {
+  console.log("Testing BIC, routing number and sort code validation...");
+
+  assert.equal(validateBic("NWBKGB2L"), null);
+  assert.equal(validateBic("COBADEFFXXX"), null);
+  assert.ok(validateBic("NWBKGB2"));
+  assert.ok(validateBic("1WBKGB2L"));
+
+  assert.equal(validateRoutingNumber("021000021"), null);
+  assert.equal(validateRoutingNumber("011000015"), null);
+  assert.equal(validateRoutingNumber("021000022"), "Routing number checksum is invalid");
+  assert.equal(validateRoutingNumber("12345"), "Routing number must be 9 digits");
+
+  assert.equal(validateSortCode("60-16-13"), null);
+  assert.equal(validateSortCode("601613"), null);
+  assert.equal(validateSortCode("60-16-1"), "Sort code must be 6 digits");
+
+  console.log("✓ BIC, routing number and sort code validation test passed");
+}
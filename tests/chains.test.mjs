@@ -0,0 +1,109 @@
+/**
+ * @fileoverview Tests for the chain registry.
+ * Mirrors the helpers in lib/chains.ts and the chain-aware token lookups in
+ * lib/tokens.ts: explorer links, network lookup and per-chain token support.
+ */
+
+import { strict as assert } from "assert";
+
+const DEFAULT_CHAIN = "base";
+
+const CHAINS = {
+  base: { name: "base", id: 8453, explorerUrl: "https://basescan.org" },
+  ethereum: { name: "ethereum", id: 1, explorerUrl: "https://etherscan.io" },
+  arbitrum: { name: "arbitrum", id: 42161, explorerUrl: "https://arbiscan.io" },
+  optimism: { name: "optimism", id: 10, explorerUrl: "https://optimistic.etherscan.io" },
+  polygon: { name: "polygon", id: 137, explorerUrl: "https://polygonscan.com" },
+};
+
+const TOKEN_ADDRESSES = {
+  USDC: { base: "0x8335", ethereum: "0xA0b8", arbitrum: "0xaf88", optimism: "0x0b2C", polygon: "0x3c49" },
+  EURC: { base: "0x60a3", ethereum: "0x1aBa" },
+  ETH: { base: null, ethereum: null, arbitrum: null, optimism: null, polygon: "0x7ceB" },
+};
+
+function getChain(name) {
+  return CHAINS[name.toLowerCase()];
+}
+
+function getChainById(chainId) {
+  return Object.values(CHAINS).find((config) => config.id === chainId);
+}
+
+function getExplorerTxUrl(txHash, chain = DEFAULT_CHAIN) {
+  const config = getChain(chain) ?? CHAINS[DEFAULT_CHAIN];
+  return `${config.explorerUrl}/tx/${txHash}`;
+}
+
+function getExplorerAddressUrl(address, chain = DEFAULT_CHAIN) {
+  const config = getChain(chain) ?? CHAINS[DEFAULT_CHAIN];
+  return `${config.explorerUrl}/address/${address}`;
+}
+
+function isTokenSupported(symbol, chain = DEFAULT_CHAIN) {
+  const addresses = TOKEN_ADDRESSES[symbol.toUpperCase()];
+  return !!addresses && chain in addresses;
+}
+
+function isNativeToken(symbol, chain = DEFAULT_CHAIN) {
+  const addresses = TOKEN_ADDRESSES[symbol.toUpperCase()];
+  return !!addresses && addresses[chain] === null;
+}
+
+/**
+ * Test: Explorer links
+ * Validates that links follow the transaction's network, with Base as fallback
+ */
+export function testExplorerUrls() {
+  console.log("Testing explorer URLs...");
+
+  assert.equal(getExplorerTxUrl("0xabc"), "https://basescan.org/tx/0xabc");
+  assert.equal(getExplorerTxUrl("0xabc", "arbitrum"), "https://arbiscan.io/tx/0xabc");
+  assert.equal(
+    getExplorerTxUrl("0xabc", "optimism"),
+    "https://optimistic.etherscan.io/tx/0xabc"
+  );
+  assert.equal(getExplorerTxUrl("0xabc", "Polygon"), "https://polygonscan.com/tx/0xabc");
+  // Legacy rows with unknown networks still get a usable link
+  assert.equal(getExplorerTxUrl("0xabc", "solana"), "https://basescan.org/tx/0xabc");
+  assert.equal(
+    getExplorerAddressUrl("0x1234", "ethereum"),
+    "https://etherscan.io/address/0x1234"
+  );
+
+  console.log("✓ Explorer URLs test passed");
+}
+
+/**
+ * Test: Network lookup
+ * Validates lookups by name and by chain ID
+ */
+export function testChainLookup() {
+  console.log("Testing chain lookup...");
+
+  assert.equal(getChain("BASE").id, 8453);
+  assert.equal(getChain("unknown"), undefined);
+  assert.equal(getChainById(42161).name, "arbitrum");
+  assert.equal(getChainById(999999), undefined);
+
+  console.log("✓ Chain lookup test passed");
+}
+
+/**
+ * Test: Per-chain token support
+ * Validates which tokens can be sent where and which are native assets
+ */
+export function testTokenChainSupport() {
+  console.log("Testing per-chain token support...");
+
+  assert.ok(isTokenSupported("USDC", "polygon"));
+  assert.ok(isTokenSupported("EURC", "ethereum"));
+  assert.ok(!isTokenSupported("EURC", "arbitrum"), "EURC is not deployed on Arbitrum");
+  assert.ok(!isTokenSupported("DOGE", "base"));
+
+  assert.ok(isNativeToken("ETH", "arbitrum"));
+  assert.ok(!isNativeToken("ETH", "polygon"), "ETH on Polygon is bridged WETH");
+  assert.ok(!isNativeToken("USDC", "base"));
+
+  console.log("✓ Per-chain token support test passed");
+}
@@ -0,0 +1,35 @@
+/**
+ * @fileoverview Tests for cron route authorization.
+ * Mirrors lib/cron-auth.ts: the bearer secret check, and what happens when
+ * CRON_SECRET is not configured.
+ */
+
+import { strict as assert } from "assert";
+
+function isCronAuthorized(headers, env) {
+  const secret = env.CRON_SECRET;
+  if (!secret) {
+    return env.NODE_ENV !== "production";
+  }
+  return headers.authorization === `Bearer ${secret}`;
+}
+
+/**
+ * Test: Requests must carry the configured secret
+ */
+export function testCronSecret() {
+  const env = { NODE_ENV: "production", CRON_SECRET: "s3cret" };
+
+  assert.ok(isCronAuthorized({ authorization: "Bearer s3cret" }, env));
+  assert.ok(!isCronAuthorized({ authorization: "Bearer wrong" }, env));
+  assert.ok(!isCronAuthorized({}, env));
+}
+
+/**
+ * Test: Without a secret the routes are open in development only
+ */
+export function testMissingSecret() {
+  assert.ok(isCronAuthorized({}, { NODE_ENV: "development" }));
+  assert.ok(!isCronAuthorized({}, { NODE_ENV: "production" }), "Production fails closed");
+  assert.ok(!isCronAuthorized({ authorization: "Bearer " }, { NODE_ENV: "production", CRON_SECRET: "" }));
+}
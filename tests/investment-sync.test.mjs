@@ -0,0 +1,116 @@
+/**
+ * @fileoverview Tests for the onchain investment sync.
+ * Mirrors lib/investment-sync.ts: net flows, accrued yield and the daily
+ * rewards built from snapshots for /api/investments/[id]/rewards.
+ */
+
+import { strict as assert } from "assert";
+
+const VAULT_ASSET_DECIMALS = 6;
+
+function toUnits(amount) {
+  const [integer, fraction = ""] = amount.split(".");
+  return BigInt(integer + fraction.padEnd(VAULT_ASSET_DECIMALS, "0"));
+}
+
+function sumNetFlows(movements) {
+  return movements.reduce((total, movement) => {
+    if (movement.status === "failed") {
+      return total;
+    }
+    const amount = toUnits(movement.amount);
+    if (movement.movement_type === "deposit") {
+      return total + amount;
+    }
+    if (movement.movement_type === "withdrawal") {
+      return total - amount;
+    }
+    return total;
+  }, 0n);
+}
+
+function calculateAccruedYield(currentAssets, previousAssets, netFlows) {
+  const accrued = currentAssets - previousAssets - netFlows;
+  return accrued > 0n ? accrued : 0n;
+}
+
+function buildDailyRewards(snapshots, start, end) {
+  return snapshots
+    .filter((s) => s.snapshot_date >= start && s.snapshot_date <= end)
+    .sort((a, b) => a.snapshot_date.localeCompare(b.snapshot_date))
+    .map((s) => ({
+      date: s.snapshot_date,
+      amount: parseFloat(s.accrued_yield),
+      cumulative: parseFloat(s.cumulative_yield),
+    }));
+}
+
+/**
+ * Test: Net flows
+ * Validates that deposits add, withdrawals subtract and failed movements are ignored
+ */
+export function testNetFlows() {
+  console.log("Testing investment net flows...");
+
+  assert.equal(
+    sumNetFlows([
+      { movement_type: "deposit", amount: "100", status: "confirmed" },
+      { movement_type: "deposit", amount: "0.5", status: "pending" },
+      { movement_type: "withdrawal", amount: "30.25", status: "confirmed" },
+      { movement_type: "withdrawal", amount: "50", status: "failed" },
+    ]),
+    70_250000n
+  );
+  assert.equal(sumNetFlows([]), 0n);
+
+  console.log("✓ Net flows test passed");
+}
+
+/**
+ * Test: Accrued yield
+ * Validates that deposits and withdrawals are not counted as yield
+ */
+export function testAccruedYield() {
+  console.log("Testing accrued yield...");
+
+  // First sync: everything above the deposits is yield
+  assert.equal(calculateAccruedYield(100_120000n, 0n, 100_000000n), 120000n);
+  // Deposit since the last sync
+  assert.equal(
+    calculateAccruedYield(150_020000n, 100_000000n, 50_000000n),
+    20000n
+  );
+  // Withdrawal since the last sync
+  assert.equal(
+    calculateAccruedYield(60_010000n, 100_000000n, -40_000000n),
+    10000n
+  );
+  // A share price drop is never negative yield
+  assert.equal(calculateAccruedYield(99_000000n, 100_000000n, 0n), 0n);
+
+  console.log("✓ Accrued yield test passed");
+}
+
+/**
+ * Test: Daily rewards from snapshots
+ * Validates range filtering and ordering
+ */
+export function testDailyRewardsFromSnapshots() {
+  console.log("Testing daily rewards from snapshots...");
+
+  const snapshots = [
+    { snapshot_date: "2026-03-03", accrued_yield: "0.03", cumulative_yield: "0.06" },
+    { snapshot_date: "2026-03-01", accrued_yield: "0.01", cumulative_yield: "0.01" },
+    { snapshot_date: "2026-03-02", accrued_yield: "0.02", cumulative_yield: "0.03" },
+    { snapshot_date: "2026-02-28", accrued_yield: "0.5", cumulative_yield: "0.5" },
+  ];
+
+  const rewards = buildDailyRewards(snapshots, "2026-03-01", "2026-03-02");
+  assert.deepEqual(rewards, [
+    { date: "2026-03-01", amount: 0.01, cumulative: 0.01 },
+    { date: "2026-03-02", amount: 0.02, cumulative: 0.03 },
+  ]);
+  assert.deepEqual(buildDailyRewards(snapshots, "2026-04-01", "2026-04-30"), []);
+
+  console.log("✓ Daily rewards test passed");
+}
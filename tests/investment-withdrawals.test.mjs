@@ -0,0 +1,89 @@
+/**
+ * @fileoverview Tests for vault withdrawals.
+ * Mirrors lib/investment-payments.ts (remaining principal after a withdrawal)
+ * and the net position math in getInvestmentSummaryByVault.
+ */
+
+import { strict as assert } from "assert";
+
+const USDC_DECIMALS = 6;
+
+function getRemainingInvestment(amountInvested, withdrawn, isFull) {
+  if (isFull) {
+    return "0";
+  }
+  const remaining = Math.max(
+    0,
+    parseFloat(amountInvested) - parseFloat(withdrawn)
+  );
+  return parseFloat(remaining.toFixed(USDC_DECIMALS)).toString();
+}
+
+function getNetInvested(movements) {
+  return Math.max(
+    0,
+    movements.reduce((sum, movement) => {
+      if (movement.movement_type === "withdrawal") {
+        return movement.status === "failed"
+          ? sum
+          : sum - parseFloat(movement.amount);
+      }
+      return sum + parseFloat(movement.amount);
+    }, 0)
+  );
+}
+
+/**
+ * Test: Remaining principal
+ * Validates partial, over-principal and full withdrawals
+ */
+export function testRemainingInvestment() {
+  console.log("Testing remaining principal after withdrawal...");
+
+  assert.equal(getRemainingInvestment("100", "40", false), "60");
+  assert.equal(getRemainingInvestment("100.5", "0.25", false), "100.25");
+  // Floating point noise is trimmed to USDC precision
+  assert.equal(getRemainingInvestment("0.3", "0.1", false), "0.2");
+  // Withdrawing yield on top of principal never goes negative
+  assert.equal(getRemainingInvestment("100", "104.2", false), "0");
+  // Full redemptions close the position
+  assert.equal(getRemainingInvestment("100", "99.99", true), "0");
+
+  console.log("✓ Remaining principal test passed");
+}
+
+/**
+ * Test: Net position from movements
+ * Validates that withdrawals reduce the position and failed ones are ignored
+ */
+export function testNetInvestedFromMovements() {
+  console.log("Testing net position from movements...");
+
+  assert.equal(
+    getNetInvested([
+      { movement_type: "deposit", amount: "100", status: "confirmed" },
+      { movement_type: "deposit", amount: "50", status: "confirmed" },
+      { movement_type: "withdrawal", amount: "30", status: "confirmed" },
+      { movement_type: "withdrawal", amount: "20", status: "pending" },
+    ]),
+    100
+  );
+
+  assert.equal(
+    getNetInvested([
+      { movement_type: "deposit", amount: "100", status: "confirmed" },
+      { movement_type: "withdrawal", amount: "100", status: "failed" },
+    ]),
+    100
+  );
+
+  assert.equal(
+    getNetInvested([
+      { movement_type: "deposit", amount: "100", status: "confirmed" },
+      { movement_type: "withdrawal", amount: "101.5", status: "confirmed" },
+    ]),
+    0
+  );
+
+  console.log("✓ Net position test passed");
+}
@@ -81,46 +81,34 @@ export async function testMCPRequestParsing() {
 }
 
 /**
- * Test: Profile ID Extraction
- * Validates that profile IDs are correctly extracted from request context
+ * Test: Access Token Extraction
+ * Validates that personal access tokens are read from the Authorization
+ * header and other bearer tokens are left to session verification; a profile
+ * ID in the body is not trusted
  */
-export async function testProfileIdExtraction() {
-  // Mock extractProfileId function
-  function extractProfileId(body) {
-    try {
-      const profileId = body.context?.profileId;
-      
-      if (!profileId || typeof profileId !== "string") {
-        return null;
-      }
-      
-      return profileId;
-    } catch (error) {
-      console.error("Failed to extract profile ID:", error);
+export async function testAccessTokenExtraction() {
+  // Mock getAccessTokenFromRequest function
+  function getAccessTokenFromRequest(headers) {
+    const authorization = headers.authorization;
+    if (!authorization?.startsWith("Bearer ")) {
       return null;
     }
+    const token = authorization.slice("Bearer ".length).trim();
+    return token.startsWith("banb_pat_") ? token : null;
   }
 
-  // Test valid profile ID
-  const validBody = {
-    method: "tools/list",
-    context: { profileId: "user-123" }
-  };
-  const profileId = extractProfileId(validBody);
-  assert.equal(profileId, "user-123");
-
-  // Test missing context
-  const noContextBody = { method: "tools/list" };
-  const noProfileId = extractProfileId(noContextBody);
-  assert.equal(noProfileId, null);
-
-  // Test invalid profile ID type
-  const invalidTypeBody = {
-    method: "tools/list",
-    context: { profileId: 123 }
-  };
-  const invalidProfileId = extractProfileId(invalidTypeBody);
-  assert.equal(invalidProfileId, null);
+  // Test valid token
+  const token = getAccessTokenFromRequest({ authorization: "Bearer banb_pat_abc123" });
+  assert.equal(token, "banb_pat_abc123");
+
+  // Test missing header (a body context.profileId is ignored)
+  assert.equal(getAccessTokenFromRequest({}), null);
+
+  // Test other bearer tokens, e.g. session JWTs verified as sessions instead
+  assert.equal(getAccessTokenFromRequest({ authorization: "Bearer eyJhbGciOi.jwt" }), null);
+
+  // Test other schemes
+  assert.equal(getAccessTokenFromRequest({ authorization: "Basic banb_pat_abc123" }), null);
 }
 
 /**
@@ -319,8 +307,8 @@ export async function test() {
     await testMCPRequestParsing();
     console.log("✓ MCP request parsing test passed");
 
-    await testProfileIdExtraction();
-    console.log("✓ Profile ID extraction test passed");
+    await testAccessTokenExtraction();
+    console.log("✓ Access token extraction test passed");
 
     await testErrorResponseFormat();
     console.log("✓ Error response format test passed");
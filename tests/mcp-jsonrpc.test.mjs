@@ -0,0 +1,232 @@
+/**
+ * @fileoverview Tests for the MCP JSON-RPC endpoint.
+ * Mirrors handleJSONRPCMessage and readResource in lib/mcp-server.ts: message
+ * validation, version negotiation, error codes, and banb:// resource URIs.
+ */
+
+import { strict as assert } from "assert";
+
+const MCP_PROTOCOL_VERSION = "2025-06-18";
+const MCP_SUPPORTED_PROTOCOL_VERSIONS = [MCP_PROTOCOL_VERSION, "2025-03-26", "2024-11-05"];
+const CODES = {
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+  RESOURCE_NOT_FOUND: -32002,
+};
+const TOOL_NAMES = ["get_accounts", "get_recent_transactions"];
+
+const ACCOUNTS = [
+  { id: "acc-1", name: "Main", type: "spending", network: "base", is_primary: true },
+  { id: "acc-2", name: "Savings", type: "savings", network: "base", is_primary: false },
+];
+
+function jsonRPCError(id, code, message, data) {
+  return { jsonrpc: "2.0", id, error: data === undefined ? { code, message } : { code, message, data } };
+}
+
+function isJSONRPCRequest(message) {
+  if (!message || typeof message !== "object" || Array.isArray(message)) {
+    return false;
+  }
+  const { jsonrpc, id, method, params } = message;
+  return (
+    jsonrpc === "2.0" &&
+    typeof method === "string" &&
+    (id === undefined || typeof id === "string" || typeof id === "number") &&
+    (params === undefined || (typeof params === "object" && params !== null && !Array.isArray(params)))
+  );
+}
+
+function negotiateProtocolVersion(requested) {
+  return typeof requested === "string" && MCP_SUPPORTED_PROTOCOL_VERSIONS.includes(requested)
+    ? requested
+    : MCP_PROTOCOL_VERSION;
+}
+
+async function readResource(uri) {
+  let url;
+  try {
+    url = new URL(uri);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== "banb:") {
+    return null;
+  }
+
+  const path = url.pathname.replace(/^\/+|\/+$/g, "");
+  let data;
+  if (url.host === "accounts") {
+    data = path ? ACCOUNTS.find((a) => a.id === decodeURIComponent(path)) : ACCOUNTS;
+    if (!data) {
+      return null;
+    }
+  } else if (url.host === "transactions" && !path) {
+    data = { limit: Number(url.searchParams.get("limit")) || undefined };
+  } else {
+    return null;
+  }
+  return { contents: [{ uri, mimeType: "application/json", text: JSON.stringify(data) }] };
+}
+
+async function handleJSONRPCMessage(message, executeTool) {
+  if (!isJSONRPCRequest(message)) {
+    const id = message?.id;
+    return jsonRPCError(typeof id === "string" || typeof id === "number" ? id : null, CODES.INVALID_REQUEST, "Invalid Request");
+  }
+  if (message.id === undefined) {
+    return null;
+  }
+
+  const id = message.id;
+  const params = message.params || {};
+  const ok = (result) => ({ jsonrpc: "2.0", id, result });
+
+  try {
+    switch (message.method) {
+      case "initialize":
+        return ok({
+          protocolVersion: negotiateProtocolVersion(params.protocolVersion),
+          capabilities: { tools: { listChanged: false }, resources: { subscribe: false, listChanged: false } },
+        });
+      case "ping":
+        return ok({});
+      case "tools/call": {
+        const { name, arguments: args } = params;
+        if (typeof name !== "string" || !TOOL_NAMES.includes(name)) {
+          return jsonRPCError(id, CODES.INVALID_PARAMS, `Unknown tool: ${String(name)}`);
+        }
+        if (args !== undefined && (typeof args !== "object" || args === null || Array.isArray(args))) {
+          return jsonRPCError(id, CODES.INVALID_PARAMS, "Tool arguments must be an object");
+        }
+        return ok(await executeTool(name, args || {}));
+      }
+      case "resources/read": {
+        if (typeof params.uri !== "string") {
+          return jsonRPCError(id, CODES.INVALID_PARAMS, "Missing resource uri");
+        }
+        const contents = await readResource(params.uri);
+        if (!contents) {
+          return jsonRPCError(id, CODES.RESOURCE_NOT_FOUND, "Resource not found", { uri: params.uri });
+        }
+        return ok(contents);
+      }
+      default:
+        return jsonRPCError(id, CODES.METHOD_NOT_FOUND, `Method not found: ${message.method}`);
+    }
+  } catch (error) {
+    return jsonRPCError(id, CODES.INTERNAL_ERROR, error instanceof Error ? error.message : "Internal error");
+  }
+}
+
+const echoTool = async (name, args) => ({ content: [{ type: "text", text: JSON.stringify({ name, args }) }] });
+
+/**
+ * Test: Message validation and notifications
+ */
+export async function testJSONRPCMessageValidation() {
+  assert.ok(isJSONRPCRequest({ jsonrpc: "2.0", id: 1, method: "ping" }));
+  assert.ok(isJSONRPCRequest({ jsonrpc: "2.0", method: "notifications/initialized" }));
+  assert.ok(!isJSONRPCRequest({ jsonrpc: "1.0", id: 1, method: "ping" }));
+  assert.ok(!isJSONRPCRequest({ jsonrpc: "2.0", id: null, method: "ping" }), "A null id is not a request id");
+  assert.ok(!isJSONRPCRequest({ jsonrpc: "2.0", id: 1, method: "ping", params: [1] }));
+
+  const invalid = await handleJSONRPCMessage({ jsonrpc: "2.0", id: 7 }, echoTool);
+  assert.deepEqual(invalid, jsonRPCError(7, CODES.INVALID_REQUEST, "Invalid Request"), "The id is kept when readable");
+  assert.equal((await handleJSONRPCMessage("ping", echoTool)).id, null);
+
+  assert.equal(
+    await handleJSONRPCMessage({ jsonrpc: "2.0", method: "notifications/initialized" }, echoTool),
+    null,
+    "Notifications get no response"
+  );
+}
+
+/**
+ * Test: initialize and version negotiation
+ */
+export async function testInitializeNegotiation() {
+  const older = await handleJSONRPCMessage(
+    { jsonrpc: "2.0", id: 1, method: "initialize", params: { protocolVersion: "2025-03-26" } },
+    echoTool
+  );
+  assert.equal(older.result.protocolVersion, "2025-03-26", "A supported version is echoed back");
+  assert.deepEqual(Object.keys(older.result.capabilities), ["tools", "resources"]);
+
+  const unknown = await handleJSONRPCMessage(
+    { jsonrpc: "2.0", id: "init", method: "initialize", params: { protocolVersion: "1999-01-01" } },
+    echoTool
+  );
+  assert.equal(unknown.id, "init");
+  assert.equal(unknown.result.protocolVersion, MCP_PROTOCOL_VERSION, "Unknown versions get the latest");
+
+  assert.deepEqual(await handleJSONRPCMessage({ jsonrpc: "2.0", id: 2, method: "ping" }, echoTool), {
+    jsonrpc: "2.0",
+    id: 2,
+    result: {},
+  });
+}
+
+/**
+ * Test: Tool calls and error codes
+ */
+export async function testToolCallErrors() {
+  const call = await handleJSONRPCMessage(
+    { jsonrpc: "2.0", id: 3, method: "tools/call", params: { name: "get_recent_transactions", arguments: { limit: 5 } } },
+    echoTool
+  );
+  assert.deepEqual(JSON.parse(call.result.content[0].text), { name: "get_recent_transactions", args: { limit: 5 } });
+
+  const unknownTool = await handleJSONRPCMessage(
+    { jsonrpc: "2.0", id: 4, method: "tools/call", params: { name: "send_money" } },
+    echoTool
+  );
+  assert.equal(unknownTool.error.code, CODES.INVALID_PARAMS);
+  assert.equal(unknownTool.error.message, "Unknown tool: send_money");
+
+  const badArgs = await handleJSONRPCMessage(
+    { jsonrpc: "2.0", id: 5, method: "tools/call", params: { name: "get_accounts", arguments: "all" } },
+    echoTool
+  );
+  assert.equal(badArgs.error.code, CODES.INVALID_PARAMS);
+
+  const unknownMethod = await handleJSONRPCMessage({ jsonrpc: "2.0", id: 6, method: "prompts/list" }, echoTool);
+  assert.equal(unknownMethod.error.code, CODES.METHOD_NOT_FOUND);
+
+  const failing = await handleJSONRPCMessage(
+    { jsonrpc: "2.0", id: 8, method: "tools/call", params: { name: "get_accounts" } },
+    async () => {
+      throw new Error("Database unavailable");
+    }
+  );
+  assert.deepEqual(failing.error, { code: CODES.INTERNAL_ERROR, message: "Database unavailable" });
+}
+
+/**
+ * Test: Resource URIs
+ */
+export async function testResourceRead() {
+  const read = (uri) => handleJSONRPCMessage({ jsonrpc: "2.0", id: 9, method: "resources/read", params: { uri } }, echoTool);
+
+  const accounts = await read("banb://accounts");
+  assert.equal(accounts.result.contents[0].mimeType, "application/json");
+  assert.equal(JSON.parse(accounts.result.contents[0].text).length, 2);
+
+  const account = await read("banb://accounts/acc-2");
+  assert.equal(JSON.parse(account.result.contents[0].text).name, "Savings");
+  assert.equal(account.result.contents[0].uri, "banb://accounts/acc-2", "Contents carry the requested URI");
+
+  const transactions = await read("banb://transactions?limit=20");
+  assert.deepEqual(JSON.parse(transactions.result.contents[0].text), { limit: 20 });
+
+  for (const uri of ["banb://accounts/acc-9", "banb://recipients", "https://example.com/accounts", "not a uri"]) {
+    const missing = await read(uri);
+    assert.equal(missing.error.code, CODES.RESOURCE_NOT_FOUND, `${uri} is not a resource`);
+    assert.deepEqual(missing.error.data, { uri });
+  }
+
+  const noUri = await handleJSONRPCMessage({ jsonrpc: "2.0", id: 10, method: "resources/read" }, echoTool);
+  assert.equal(noUri.error.code, CODES.INVALID_PARAMS);
+}
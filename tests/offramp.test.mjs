@@ -0,0 +1,231 @@
+/**
+ * @fileoverview Tests for the IBAN off-ramp.
+ * Mirrors lib/offramp.ts: quote fee math and the mock provider lifecycle
+ * (quote, expiry, submission, settlement and returns).
+ */
+
+import { strict as assert } from "assert";
+
+function calculateOfframpQuote(amount, fxRate, fees) {
+  const grossCents = Math.round(amount * fxRate * 100);
+  const feeCents = Math.max(
+    Math.round(fees.minimum * 100),
+    Math.round((grossCents * fees.percent) / 100)
+  );
+
+  if (feeCents >= grossCents) {
+    throw new Error("Amount is too small to cover the withdrawal fee");
+  }
+
+  return {
+    gross: grossCents / 100,
+    fee: feeCents / 100,
+    fiatAmount: (grossCents - feeCents) / 100,
+  };
+}
+
+// The chain registry only lists mainnets
+const TESTNET_CHAINS = [];
+
+function createMockOfframpProvider(options = {}) {
+  const rates = options.rates ?? { EUR: 0.92, USD: 1 };
+  const fees = options.fees ?? { percent: 0.5, minimum: 1 };
+  const minimumAmount = options.minimumAmount ?? 5;
+  const quoteTtlMs = options.quoteTtlMs ?? 10 * 60 * 1000;
+  const settleAfterMs = options.settleAfterMs ?? 30 * 1000;
+  const chains = options.chains ?? TESTNET_CHAINS;
+  const now = options.now ?? Date.now;
+
+  const quotes = new Map();
+  const payouts = new Map();
+  let sequence = 0;
+
+  return {
+    name: "mock",
+
+    async createQuote(request) {
+      if (!chains.includes(request.chain)) {
+        throw new Error(
+          `The mock off-ramp does not accept transfers on ${request.chain}`
+        );
+      }
+
+      const amount = parseFloat(request.amount);
+      if (isNaN(amount) || amount < minimumAmount) {
+        throw new Error(
+          `Amount is below the minimum withdrawal of ${minimumAmount} ${request.token}`
+        );
+      }
+
+      const fxRate = rates[request.fiatCurrency];
+      if (!fxRate) {
+        throw new Error(`Payouts in ${request.fiatCurrency} are not supported`);
+      }
+
+      const { fee, fiatAmount } = calculateOfframpQuote(amount, fxRate, fees);
+      const quote = {
+        quoteId: `mock_quote_${++sequence}`,
+        depositAddress: "0x000000000000000000000000000000000000dEaD",
+        fxRate,
+        fee,
+        fiatAmount,
+        expiresAt: new Date(now() + quoteTtlMs).toISOString(),
+      };
+
+      quotes.set(quote.quoteId, { ...quote, request, reference: null });
+      return quote;
+    },
+
+    async submitPayout(quoteId, txHash) {
+      const quote = quotes.get(quoteId);
+      if (!quote) throw new Error("Quote not found");
+      if (quote.reference) throw new Error("Quote has already been submitted");
+      if (new Date(quote.expiresAt).getTime() <= now()) {
+        throw new Error("Quote has expired");
+      }
+
+      const reference = `mock_payout_${++sequence}`;
+      quote.reference = reference;
+      payouts.set(reference, {
+        quoteId,
+        txHash,
+        submittedAt: now(),
+        returned: /return/i.test(quote.request.accountHolder),
+      });
+
+      return { reference, status: "processing" };
+    },
+
+    async getPayout(reference) {
+      const payout = payouts.get(reference);
+      if (!payout) throw new Error("Payout not found");
+
+      const completedAt = payout.submittedAt + settleAfterMs;
+      if (now() < completedAt) return { reference, status: "processing" };
+
+      if (payout.returned) {
+        return {
+          reference,
+          status: "returned",
+          failureReason: "Beneficiary bank rejected the transfer",
+        };
+      }
+
+      return {
+        reference,
+        status: "settled",
+        settledAt: new Date(completedAt).toISOString(),
+      };
+    },
+  };
+}
+
+const REQUEST = {
+  amount: "100",
+  token: "USDC",
+  chain: "base",
+  fiatCurrency: "EUR",
+  iban: "DE89370400440532013000",
+  accountHolder: "Jane Doe",
+};
+
+/**
+ * Test: Quote math
+ * Validates conversion, percentage and minimum fees, and tiny amounts
+ */
+export function testQuoteMath() {
+  console.log("Testing off-ramp quote math...");
+
+  // Minimum fee applies below 200 EUR
+  assert.deepEqual(calculateOfframpQuote(100, 0.92, { percent: 0.5, minimum: 1 }), {
+    gross: 92,
+    fee: 1,
+    fiatAmount: 91,
+  });
+  // Percentage fee applies above it
+  assert.deepEqual(calculateOfframpQuote(1000, 0.92, { percent: 0.5, minimum: 1 }), {
+    gross: 920,
+    fee: 4.6,
+    fiatAmount: 915.4,
+  });
+  assert.throws(
+    () => calculateOfframpQuote(1, 0.92, { percent: 0.5, minimum: 1 }),
+    /too small/
+  );
+
+  console.log("✓ Off-ramp quote math test passed");
+}
+
+/**
+ * Test: Mock provider lifecycle
+ * Validates submitted payouts stay processing, then settle or are returned
+ */
+export async function testMockLifecycle() {
+  console.log("Testing mock off-ramp lifecycle...");
+
+  let clock = Date.parse("2025-06-01T12:00:00Z");
+  const provider = createMockOfframpProvider({ chains: ["base"], now: () => clock });
+
+  const quote = await provider.createQuote(REQUEST);
+  assert.equal(quote.fiatAmount, 91);
+
+  const payout = await provider.submitPayout(quote.quoteId, "0xabc");
+  assert.equal(payout.status, "processing");
+  await assert.rejects(
+    provider.submitPayout(quote.quoteId, "0xabc"),
+    /already been submitted/
+  );
+
+  clock += 10 * 1000;
+  assert.equal((await provider.getPayout(payout.reference)).status, "processing");
+
+  clock += 30 * 1000;
+  const settled = await provider.getPayout(payout.reference);
+  assert.equal(settled.status, "settled");
+  assert.equal(settled.settledAt, "2025-06-01T12:00:30.000Z");
+
+  // Account holders named "return" exercise the returned path
+  const returnQuote = await provider.createQuote({
+    ...REQUEST,
+    accountHolder: "Return Test",
+  });
+  const returnPayout = await provider.submitPayout(returnQuote.quoteId, "0xdef");
+  clock += 60 * 1000;
+  const returned = await provider.getPayout(returnPayout.reference);
+  assert.equal(returned.status, "returned");
+  assert.ok(returned.failureReason);
+
+  console.log("✓ Mock off-ramp lifecycle test passed");
+}
+
+/**
+ * Test: Mock provider rejections
+ * Validates mainnet networks, minimums, unsupported currencies and expired quotes
+ */
+export async function testMockRejections() {
+  console.log("Testing mock off-ramp rejections...");
+
+  // The deposit address burns funds, so mainnet transfers are refused by default
+  await assert.rejects(
+    createMockOfframpProvider().createQuote(REQUEST),
+    /does not accept transfers on base/
+  );
+
+  let clock = Date.parse("2025-06-01T12:00:00Z");
+  const provider = createMockOfframpProvider({ chains: ["base"], now: () => clock });
+
+  await assert.rejects(
+    provider.createQuote({ ...REQUEST, amount: "2" }),
+    /below the minimum/
+  );
+  await assert.rejects(
+    provider.createQuote({ ...REQUEST, fiatCurrency: "GBP" }),
+    /not supported/
+  );
+
+  const quote = await provider.createQuote(REQUEST);
+  clock += 10 * 60 * 1000;
+  await assert.rejects(provider.submitPayout(quote.quoteId, "0xabc"), /expired/);
+
+  console.log("✓ Mock off-ramp rejections test passed");
+}
@@ -0,0 +1,278 @@
+/**
+ * @fileoverview Tests for the fiat on-ramp.
+ * Mirrors lib/onramp.ts: quote fee math, webhook signatures and the mock
+ * provider lifecycle (quote, checkout, simulated payment and expiry).
+ */
+
+import { strict as assert } from "assert";
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+
+function calculateOnrampQuote(fiatAmount, fxRate, fees) {
+  const amountCents = Math.round(fiatAmount * 100);
+  const feeCents = Math.max(
+    Math.round(fees.minimum * 100),
+    Math.round((amountCents * fees.percent) / 100)
+  );
+
+  if (feeCents >= amountCents) {
+    throw new Error("Amount is too small to cover the deposit fee");
+  }
+
+  return {
+    fee: feeCents / 100,
+    cryptoAmount: Math.floor((amountCents - feeCents) / fxRate) / 100,
+  };
+}
+
+function signOnrampWebhook(rawBody, secret) {
+  return createHmac("sha256", secret).update(rawBody).digest("hex");
+}
+
+function verifyOnrampWebhook(rawBody, signature, secret) {
+  if (!signature) {
+    return false;
+  }
+
+  const expected = Buffer.from(signOnrampWebhook(rawBody, secret), "hex");
+  const received = Buffer.from(signature, "hex");
+  return (
+    expected.length === received.length && timingSafeEqual(expected, received)
+  );
+}
+
+const WEBHOOK_SECRET = "test-onramp-webhook-secret";
+
+function createMockOnrampProvider(options) {
+  const rates = options.rates ?? { EUR: 0.92, USD: 1 };
+  const fees = options.fees ?? { percent: 1.5, minimum: 1 };
+  const minimumAmount = options.minimumAmount ?? 10;
+  const quoteTtlMs = options.quoteTtlMs ?? 10 * 60 * 1000;
+  const webhookSecret = options.webhookSecret;
+  const now = options.now ?? Date.now;
+
+  const quotes = new Map();
+  const orders = new Map();
+  let sequence = 0;
+
+  return {
+    name: "mock",
+
+    async createQuote(request) {
+      const fiatAmount = parseFloat(request.fiatAmount);
+      if (isNaN(fiatAmount) || fiatAmount < minimumAmount) {
+        throw new Error(
+          `Amount is below the minimum deposit of ${minimumAmount} ${request.fiatCurrency}`
+        );
+      }
+
+      const fxRate = rates[request.fiatCurrency];
+      if (!fxRate) {
+        throw new Error(`Payments in ${request.fiatCurrency} are not supported`);
+      }
+
+      const { fee, cryptoAmount } = calculateOnrampQuote(fiatAmount, fxRate, fees);
+      const quote = {
+        quoteId: `mock_onramp_quote_${++sequence}`,
+        fxRate,
+        fee,
+        cryptoAmount,
+        expiresAt: new Date(now() + quoteTtlMs).toISOString(),
+      };
+
+      quotes.set(quote.quoteId, { ...quote, request, reference: null });
+      return quote;
+    },
+
+    async createOrder(quoteId, order) {
+      const quote = quotes.get(quoteId);
+      if (!quote) {
+        throw new Error("Quote not found");
+      }
+      if (quote.reference) {
+        throw new Error("Quote has already been checked out");
+      }
+      if (new Date(quote.expiresAt).getTime() <= now()) {
+        throw new Error("Quote has expired");
+      }
+
+      const reference = `mock_onramp_order_${++sequence}`;
+      quote.reference = reference;
+      orders.set(reference, { quoteId, orderId: order.orderId, status: "open" });
+
+      return {
+        reference,
+        widgetUrl: `/deposit/checkout/${order.orderId}?reference=${reference}`,
+      };
+    },
+
+    parseWebhook(rawBody, signature) {
+      if (!verifyOnrampWebhook(rawBody, signature, webhookSecret)) {
+        throw new Error("Invalid webhook signature");
+      }
+      return JSON.parse(rawBody);
+    },
+
+    simulatePayment(reference, outcome) {
+      const order = orders.get(reference);
+      if (!order) {
+        throw new Error("Order not found");
+      }
+      if (order.status !== "open") {
+        throw new Error(`Order is already ${order.status}`);
+      }
+
+      order.status = outcome;
+      const quote = quotes.get(order.quoteId);
+      const event =
+        outcome === "completed"
+          ? {
+              reference,
+              status: "completed",
+              cryptoAmount: quote.cryptoAmount,
+              txHash: `0x${createHash("sha256").update(reference).digest("hex")}`,
+            }
+          : {
+              reference,
+              status: "failed",
+              failureReason: "Payment was declined",
+            };
+
+      const body = JSON.stringify(event);
+      return { body, signature: signOnrampWebhook(body, webhookSecret) };
+    },
+  };
+}
+
+const QUOTE_REQUEST = {
+  fiatAmount: "100",
+  fiatCurrency: "EUR",
+  token: "USDC",
+  chain: "base",
+  paymentMethod: "google-pay",
+};
+
+/**
+ * Test: Quote fee math
+ * Validates percentage and minimum fees and rounding down of the token amount
+ */
+export function testOnrampQuoteMath() {
+  console.log("Testing on-ramp quote math...");
+
+  // 1.5% of 100 EUR = 1.50 fee, 98.50 / 0.92 = 107.0652... rounded down
+  assert.deepEqual(
+    calculateOnrampQuote(100, 0.92, { percent: 1.5, minimum: 1 }),
+    { fee: 1.5, cryptoAmount: 107.06 }
+  );
+
+  // Minimum fee applies to small amounts
+  assert.deepEqual(
+    calculateOnrampQuote(20, 1, { percent: 1.5, minimum: 1 }),
+    { fee: 1, cryptoAmount: 19 }
+  );
+
+  assert.throws(
+    () => calculateOnrampQuote(1, 1, { percent: 1.5, minimum: 1 }),
+    /too small/
+  );
+
+  console.log("✓ On-ramp quote math test passed");
+}
+
+/**
+ * Test: Webhook signatures
+ * Validates that tampered bodies and foreign secrets are rejected
+ */
+export function testOnrampWebhookSignature() {
+  console.log("Testing on-ramp webhook signatures...");
+
+  const body = JSON.stringify({ reference: "ref_1", status: "completed" });
+  const signature = signOnrampWebhook(body, "secret");
+
+  assert.equal(verifyOnrampWebhook(body, signature, "secret"), true);
+  assert.equal(verifyOnrampWebhook(body, signature, "other"), false);
+  assert.equal(
+    verifyOnrampWebhook(body.replace("completed", "failed"), signature, "secret"),
+    false
+  );
+  assert.equal(verifyOnrampWebhook(body, null, "secret"), false);
+  assert.equal(verifyOnrampWebhook(body, "not-hex", "secret"), false);
+
+  console.log("✓ On-ramp webhook signature test passed");
+}
+
+/**
+ * Test: Mock provider lifecycle
+ * Validates quote, checkout, simulated payment and replay protection
+ */
+export async function testMockOnrampLifecycle() {
+  console.log("Testing mock on-ramp lifecycle...");
+
+  let clock = Date.parse("2026-01-01T00:00:00Z");
+  const provider = createMockOnrampProvider({ webhookSecret: WEBHOOK_SECRET, now: () => clock });
+
+  const quote = await provider.createQuote(QUOTE_REQUEST);
+  assert.equal(quote.cryptoAmount, 107.06);
+
+  const checkout = await provider.createOrder(quote.quoteId, {
+    orderId: "order-1",
+    walletAddress: "0xabc",
+  });
+  assert.match(checkout.widgetUrl, /^\/deposit\/checkout\/order-1\?reference=/);
+
+  await assert.rejects(
+    provider.createOrder(quote.quoteId, { orderId: "order-1", walletAddress: "0xabc" }),
+    /already been checked out/
+  );
+
+  const { body, signature } = provider.simulatePayment(checkout.reference, "completed");
+  const event = provider.parseWebhook(body, signature);
+  assert.equal(event.status, "completed");
+  assert.equal(event.cryptoAmount, 107.06);
+  assert.match(event.txHash, /^0x[a-f0-9]{64}$/);
+
+  assert.throws(() => provider.parseWebhook(body, "00"), /Invalid webhook signature/);
+  assert.throws(
+    () => provider.simulatePayment(checkout.reference, "completed"),
+    /already completed/
+  );
+
+  // Declined payments report a failure reason
+  const declinedQuote = await provider.createQuote(QUOTE_REQUEST);
+  const declined = await provider.createOrder(declinedQuote.quoteId, {
+    orderId: "order-2",
+    walletAddress: "0xabc",
+  });
+  const failed = provider.simulatePayment(declined.reference, "failed");
+  assert.equal(provider.parseWebhook(failed.body, failed.signature).status, "failed");
+
+  // Expired quotes cannot be checked out
+  const staleQuote = await provider.createQuote(QUOTE_REQUEST);
+  clock += 11 * 60 * 1000;
+  await assert.rejects(
+    provider.createOrder(staleQuote.quoteId, { orderId: "order-3", walletAddress: "0xabc" }),
+    /expired/
+  );
+
+  console.log("✓ Mock on-ramp lifecycle test passed");
+}
+
+/**
+ * Test: Mock provider rejections
+ * Validates minimum amount and unsupported currencies
+ */
+export async function testMockOnrampRejections() {
+  console.log("Testing mock on-ramp rejections...");
+
+  const provider = createMockOnrampProvider({ webhookSecret: WEBHOOK_SECRET });
+
+  await assert.rejects(
+    provider.createQuote({ ...QUOTE_REQUEST, fiatAmount: "5" }),
+    /minimum deposit of 10 EUR/
+  );
+  await assert.rejects(
+    provider.createQuote({ ...QUOTE_REQUEST, fiatCurrency: "JPY" }),
+    /JPY are not supported/
+  );
+
+  console.log("✓ Mock on-ramp rejections test passed");
+}
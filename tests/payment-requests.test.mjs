@@ -0,0 +1,137 @@
+/**
+ * @fileoverview Tests for payment request and split bill logic.
+ * Mirrors the helpers in lib/payment-requests.ts: even splits, custom share
+ * validation and request expiry.
+ */
+
+import { strict as assert } from "assert";
+
+function toCents(amount) {
+  return Math.round(parseFloat(amount) * 100);
+}
+
+function splitAmountEvenly(total, count) {
+  const totalCents = toCents(total);
+  if (isNaN(totalCents) || totalCents <= 0) {
+    throw new Error("Total must be greater than zero");
+  }
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error("Split needs at least one participant");
+  }
+
+  const base = Math.floor(totalCents / count);
+  const remainder = totalCents - base * count;
+
+  return Array.from({ length: count }, (_, i) =>
+    ((base + (i < remainder ? 1 : 0)) / 100).toFixed(2)
+  );
+}
+
+function validateCustomShares(total, shares) {
+  const totalCents = toCents(total);
+  if (isNaN(totalCents) || totalCents <= 0) {
+    return "Total must be greater than zero";
+  }
+
+  let sum = 0;
+  for (const share of shares) {
+    const cents = toCents(share);
+    if (isNaN(cents) || cents <= 0) {
+      return "Each share must be greater than zero";
+    }
+    sum += cents;
+  }
+
+  if (sum > totalCents) {
+    return "Shares add up to more than the total";
+  }
+
+  return null;
+}
+
+function isPaymentRequestPayable(request, now = new Date()) {
+  return (
+    request.status === "requested" &&
+    new Date(request.expires_at).getTime() > now.getTime()
+  );
+}
+
+/**
+ * Test: Even split
+ * Validates that even shares always add up to the total
+ */
+export function testEvenSplit() {
+  console.log("Testing even split...");
+
+  assert.deepEqual(splitAmountEvenly("90", 3), ["30.00", "30.00", "30.00"]);
+  assert.deepEqual(splitAmountEvenly("100", 3), ["33.34", "33.33", "33.33"]);
+  assert.deepEqual(splitAmountEvenly("0.05", 2), ["0.03", "0.02"]);
+
+  for (const [total, count] of [["123.45", 7], ["10", 6], ["1", 3]]) {
+    const sum = splitAmountEvenly(total, count).reduce(
+      (acc, share) => acc + toCents(share),
+      0
+    );
+    assert.equal(sum, toCents(total), `${total} / ${count} should add up`);
+  }
+
+  assert.throws(() => splitAmountEvenly("0", 2), /greater than zero/);
+  assert.throws(() => splitAmountEvenly("10", 0), /at least one participant/);
+
+  console.log("✓ Even split test passed");
+}
+
+/**
+ * Test: Custom shares
+ * Validates that custom shares are positive and never exceed the total
+ */
+export function testCustomShares() {
+  console.log("Testing custom shares...");
+
+  assert.equal(validateCustomShares("100", ["40", "60"]), null);
+  // Creator keeps the remaining 30
+  assert.equal(validateCustomShares("100", ["40", "30"]), null);
+  // Float addition must not cause false positives
+  assert.equal(validateCustomShares("0.3", ["0.1", "0.2"]), null);
+
+  assert.equal(
+    validateCustomShares("100", ["60", "50"]),
+    "Shares add up to more than the total"
+  );
+  assert.equal(
+    validateCustomShares("100", ["50", "0"]),
+    "Each share must be greater than zero"
+  );
+  assert.equal(
+    validateCustomShares("100", ["50", ""]),
+    "Each share must be greater than zero"
+  );
+  assert.equal(
+    validateCustomShares("abc", ["1"]),
+    "Total must be greater than zero"
+  );
+
+  console.log("✓ Custom shares test passed");
+}
+
+/**
+ * Test: Request expiry
+ * Validates that only open, unexpired requests can be paid
+ */
+export function testRequestPayable() {
+  console.log("Testing request payable state...");
+
+  const now = new Date("2025-06-01T12:00:00Z");
+  const open = { status: "requested", expires_at: "2025-06-08T12:00:00Z" };
+
+  assert.ok(isPaymentRequestPayable(open, now), "open request is payable");
+  assert.ok(
+    !isPaymentRequestPayable({ ...open, expires_at: "2025-06-01T12:00:00Z" }, now),
+    "request at its expiry is not payable"
+  );
+  assert.ok(!isPaymentRequestPayable({ ...open, status: "paid" }, now));
+  assert.ok(!isPaymentRequestPayable({ ...open, status: "declined" }, now));
+  assert.ok(!isPaymentRequestPayable({ ...open, status: "expired" }, now));
+
+  console.log("✓ Request payable test passed");
+}
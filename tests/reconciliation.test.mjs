@@ -0,0 +1,234 @@
+/**
+ * @fileoverview Tests for transaction reconciliation.
+ * Mirrors lib/reconciliation.ts: settling stale transactions from their
+ * receipts, holding back transfers that differ from the record, and the report
+ * totals.
+ */
+
+import { strict as assert } from "assert";
+import { formatUnits, parseUnits } from "viem";
+
+const DROPPED_TRANSACTION_HOURS = 24;
+
+const TOKENS = {
+  USDC: { symbol: "USDC", decimals: 6, addresses: { base: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913" } },
+  ETH: { symbol: "ETH", decimals: 18, addresses: { base: null } },
+};
+
+const USDC_BASE = TOKENS.USDC.addresses.base;
+const FRIEND = "0xF00d000000000000000000000000000000000001";
+const STRANGER = "0x5700000000000000000000000000000000000002";
+const PAYER = "0xCa11000000000000000000000000000000000003";
+const NOW = new Date("2025-06-01T12:00:00.000Z");
+
+function findTransferIssues(transaction, transfers, recipientAddresses, senderAddresses) {
+  const token = TOKENS[transaction.token.toUpperCase()];
+  const contract = token?.addresses[transaction.chain];
+  if (!token || contract === undefined) {
+    return [{ kind: "token", expected: transaction.token, actual: null }];
+  }
+
+  const expectedValue = parseUnits(transaction.amount, token.decimals);
+  const expectedAmount = `${formatUnits(expectedValue, token.decimals)} ${token.symbol}`;
+
+  const tokenAddress = contract?.toLowerCase() ?? null;
+  const matching = transfers.filter(
+    (transfer) => (transfer.token_address?.toLowerCase() ?? null) === tokenAddress
+  );
+
+  if (matching.length === 0) {
+    const other = transfers[0];
+    return other
+      ? [{ kind: "token", expected: token.symbol, actual: other.token_address ?? "native" }]
+      : [{ kind: "no_transfer", expected: expectedAmount, actual: null }];
+  }
+
+  const issues = [];
+  const recipients = recipientAddresses.map((address) => address.toLowerCase());
+  const transfer =
+    recipients.length === 0
+      ? matching[0]
+      : matching.find((t) => recipients.includes(t.to.toLowerCase()));
+
+  if (!transfer) {
+    issues.push({ kind: "recipient", expected: recipientAddresses[0], actual: matching[0].to });
+  }
+
+  const actual = transfer || matching[0];
+  const senders = senderAddresses.map((address) => address.toLowerCase());
+  if (!senders.includes(actual.from.toLowerCase())) {
+    issues.push({ kind: "sender", expected: senderAddresses[0] ?? "payer's wallet", actual: actual.from });
+  }
+
+  if (actual.value !== expectedValue) {
+    issues.push({
+      kind: "amount",
+      expected: expectedAmount,
+      actual: `${formatUnits(actual.value, token.decimals)} ${token.symbol}`,
+    });
+  }
+
+  return issues;
+}
+
+function reconcileTransaction(transaction, receipt, recipientAddresses, senderAddresses, now) {
+  const previousStatus = transaction.status === "pending" ? "pending" : "sent";
+  const item = {
+    transaction_id: transaction.id,
+    tx_hash: transaction.tx_hash || "",
+    chain: transaction.chain,
+    token: transaction.token,
+    amount: transaction.amount,
+    previous_status: previousStatus,
+    status: previousStatus,
+    outcome: "not_found",
+    block_number: null,
+    issues: [],
+  };
+
+  if (!receipt) {
+    const ageMs = now.getTime() - new Date(transaction.created_at).getTime();
+    if (ageMs >= DROPPED_TRANSACTION_HOURS * 60 * 60 * 1000) {
+      return { ...item, status: "failed", outcome: "dropped" };
+    }
+    return item;
+  }
+
+  if (receipt.status === "reverted") {
+    return { ...item, status: "failed", outcome: "reverted", block_number: receipt.block_number };
+  }
+
+  const issues = findTransferIssues(transaction, receipt.transfers, recipientAddresses, senderAddresses);
+  if (issues.length > 0) {
+    return { ...item, outcome: "mismatch", block_number: receipt.block_number, issues };
+  }
+
+  return { ...item, status: "success", outcome: "confirmed", block_number: receipt.block_number };
+}
+
+function summarizeReconciliation(items, ranAt) {
+  return {
+    ran_at: ranAt.toISOString(),
+    checked: items.length,
+    succeeded: items.filter((item) => item.status === "success").length,
+    failed: items.filter((item) => item.status === "failed").length,
+    unresolved: items.filter((item) => item.status === item.previous_status).length,
+    mismatches: items.filter((item) => item.issues.length > 0).length,
+    items,
+  };
+}
+
+function payment(overrides = {}) {
+  return {
+    id: "tx-1",
+    tx_hash: "0x" + "ab".repeat(32),
+    chain: "base",
+    token: "USDC",
+    amount: "25.00000000",
+    status: "sent",
+    created_at: "2025-06-01T11:00:00.000Z",
+    ...overrides,
+  };
+}
+
+function usdcTransfer(to, amount, from = PAYER) {
+  return { token_address: USDC_BASE, from, to, value: parseUnits(amount, 6) };
+}
+
+/**
+ * Test: Mined receipts settle the status; missing ones wait until dropped
+ */
+export function testStatusFromReceipt() {
+  const confirmed = reconcileTransaction(
+    payment(),
+    { status: "success", block_number: 100, transfers: [usdcTransfer(FRIEND, "25")] },
+    [FRIEND],
+    [PAYER],
+    NOW
+  );
+  assert.deepEqual([confirmed.status, confirmed.outcome, confirmed.issues], ["success", "confirmed", []]);
+  assert.equal(confirmed.previous_status, "sent");
+
+  const reverted = reconcileTransaction(payment(), { status: "reverted", block_number: 101, transfers: [] }, [FRIEND], [PAYER], NOW);
+  assert.deepEqual([reverted.status, reverted.outcome, reverted.issues], ["failed", "reverted", []]);
+
+  const waiting = reconcileTransaction(payment(), null, [FRIEND], [PAYER], NOW);
+  assert.deepEqual([waiting.status, waiting.outcome], ["sent", "not_found"], "Recent transactions may still be mined");
+
+  const dropped = reconcileTransaction(payment({ status: "pending", created_at: "2025-05-30T12:00:00.000Z" }), null, [], [PAYER], NOW);
+  assert.deepEqual([dropped.previous_status, dropped.status, dropped.outcome], ["pending", "failed", "dropped"]);
+}
+
+/**
+ * Test: Amount, recipient and sender mismatches are held for review
+ */
+export function testTransferMismatches() {
+  const wrongAmount = reconcileTransaction(
+    payment(),
+    { status: "success", block_number: 100, transfers: [usdcTransfer(FRIEND, "2.5")] },
+    [FRIEND],
+    [PAYER],
+    NOW
+  );
+  assert.deepEqual([wrongAmount.status, wrongAmount.outcome], ["sent", "mismatch"], "Mismatches are held for review");
+  assert.deepEqual(wrongAmount.issues, [{ kind: "amount", expected: "25 USDC", actual: "2.5 USDC" }]);
+
+  const wrongRecipient = findTransferIssues(payment(), [usdcTransfer(STRANGER, "25")], [FRIEND], [PAYER]);
+  assert.deepEqual(wrongRecipient, [{ kind: "recipient", expected: FRIEND, actual: STRANGER }]);
+
+  const unknownRecipient = findTransferIssues(payment(), [usdcTransfer(STRANGER, "25")], [], [PAYER]);
+  assert.deepEqual(unknownRecipient, [], "Unsaved recipients are not checked");
+
+  const multiTransfer = findTransferIssues(
+    payment(),
+    [usdcTransfer(STRANGER, "0.1"), usdcTransfer(FRIEND.toLowerCase(), "25")],
+    [FRIEND],
+    [PAYER]
+  );
+  assert.deepEqual(multiTransfer, [], "The transfer to the recipient is the one compared");
+
+  const wrongSender = findTransferIssues(payment(), [usdcTransfer(FRIEND, "25", STRANGER)], [FRIEND], [PAYER]);
+  assert.deepEqual(wrongSender, [{ kind: "sender", expected: PAYER, actual: STRANGER }]);
+  assert.deepEqual(
+    findTransferIssues(payment(), [usdcTransfer(FRIEND, "25", PAYER.toLowerCase())], [FRIEND], [STRANGER, PAYER]),
+    [],
+    "Any of the payer's addresses may send"
+  );
+}
+
+/**
+ * Test: Receipts without the payment's token are flagged
+ */
+export function testTokenMismatches() {
+  assert.deepEqual(findTransferIssues(payment(), [], [FRIEND], [PAYER]), [
+    { kind: "no_transfer", expected: "25 USDC", actual: null },
+  ]);
+
+  const native = { token_address: null, from: PAYER, to: FRIEND, value: parseUnits("0.01", 18) };
+  assert.deepEqual(findTransferIssues(payment(), [native], [FRIEND], [PAYER]), [
+    { kind: "token", expected: "USDC", actual: "native" },
+  ]);
+  assert.deepEqual(findTransferIssues(payment({ token: "ETH", amount: "0.01" }), [native], [FRIEND], [PAYER]), []);
+  assert.deepEqual(findTransferIssues(payment({ token: "USDC", chain: "solana" }), [native], [FRIEND], [PAYER]), [
+    { kind: "token", expected: "USDC", actual: null },
+  ]);
+}
+
+/**
+ * Test: Report totals
+ */
+export function testReportSummary() {
+  const items = [
+    reconcileTransaction(payment({ id: "a" }), { status: "success", block_number: 1, transfers: [usdcTransfer(FRIEND, "25")] }, [FRIEND], [PAYER], NOW),
+    reconcileTransaction(payment({ id: "b" }), { status: "success", block_number: 1, transfers: [usdcTransfer(STRANGER, "25")] }, [FRIEND], [PAYER], NOW),
+    reconcileTransaction(payment({ id: "c" }), { status: "reverted", block_number: 2, transfers: [] }, [FRIEND], [PAYER], NOW),
+    reconcileTransaction(payment({ id: "d" }), null, [FRIEND], [PAYER], NOW),
+  ];
+
+  const report = summarizeReconciliation(items, NOW);
+  assert.deepEqual(
+    [report.checked, report.succeeded, report.failed, report.unresolved, report.mismatches],
+    [4, 1, 1, 2, 1]
+  );
+  assert.equal(report.ran_at, NOW.toISOString());
+}
@@ -0,0 +1,231 @@
+/**
+ * @fileoverview Tests for scheduled payment date arithmetic.
+ * Mirrors the helpers in lib/scheduled-payments.ts: first run, next run,
+ * month-end clamping and schedule completion.
+ */
+
+import { strict as assert } from "assert";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function daysInMonth(year, month) {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+function startOfUTCDay(date) {
+  return new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+  );
+}
+
+function clampedMonthDate(year, month, day) {
+  const normalizedYear = year + Math.floor(month / 12);
+  const normalizedMonth = ((month % 12) + 12) % 12;
+  const lastDay = daysInMonth(normalizedYear, normalizedMonth);
+  return new Date(
+    Date.UTC(normalizedYear, normalizedMonth, Math.min(day, lastDay))
+  );
+}
+
+function getFirstRunDate(schedule, notBefore) {
+  let start = startOfUTCDay(new Date(schedule.start_date));
+  if (notBefore && notBefore.getTime() > start.getTime()) {
+    start = startOfUTCDay(notBefore);
+  }
+
+  if (schedule.frequency === "weekly") {
+    const targetDay = schedule.day_of_week ?? start.getUTCDay();
+    const offset = (targetDay - start.getUTCDay() + 7) % 7;
+    return new Date(start.getTime() + offset * DAY_MS);
+  }
+
+  const targetDay = schedule.day_of_month ?? start.getUTCDate();
+  const candidate = clampedMonthDate(
+    start.getUTCFullYear(),
+    start.getUTCMonth(),
+    targetDay
+  );
+  if (candidate.getTime() >= start.getTime()) {
+    return candidate;
+  }
+  return clampedMonthDate(
+    start.getUTCFullYear(),
+    start.getUTCMonth() + 1,
+    targetDay
+  );
+}
+
+function getNextRunDate(previous, schedule) {
+  const interval = Math.max(1, schedule.interval_count || 1);
+
+  if (schedule.frequency === "weekly") {
+    return new Date(startOfUTCDay(previous).getTime() + 7 * interval * DAY_MS);
+  }
+
+  return clampedMonthDate(
+    previous.getUTCFullYear(),
+    previous.getUTCMonth() + interval,
+    schedule.day_of_month ?? previous.getUTCDate()
+  );
+}
+
+function isScheduleFinished(schedule, candidateRun) {
+  if (schedule.max_runs !== null && schedule.run_count >= schedule.max_runs) {
+    return true;
+  }
+
+  if (schedule.end_date) {
+    const endOfEndDay =
+      startOfUTCDay(new Date(schedule.end_date)).getTime() + DAY_MS - 1;
+    if (candidateRun.getTime() > endOfEndDay) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+function makeSchedule(overrides = {}) {
+  return {
+    frequency: "monthly",
+    interval_count: 1,
+    day_of_week: null,
+    day_of_month: 1,
+    start_date: "2025-03-15",
+    end_date: null,
+    max_runs: null,
+    run_count: 0,
+    ...overrides,
+  };
+}
+
+/**
+ * Test: First run date
+ * Validates that the first run is the first matching day on or after the start
+ */
+export function testFirstRunDate() {
+  console.log("Testing first run date...");
+
+  // Monthly on the 1st starting mid-month => next month
+  assert.equal(
+    getFirstRunDate(makeSchedule()).toISOString(),
+    "2025-04-01T00:00:00.000Z"
+  );
+
+  // Monthly on the 20th starting on the 15th => same month
+  assert.equal(
+    getFirstRunDate(makeSchedule({ day_of_month: 20 })).toISOString(),
+    "2025-03-20T00:00:00.000Z"
+  );
+
+  // Weekly on Monday starting on Saturday 2025-03-15 => Monday 2025-03-17
+  assert.equal(
+    getFirstRunDate(
+      makeSchedule({ frequency: "weekly", day_of_week: 1, day_of_month: null })
+    ).toISOString(),
+    "2025-03-17T00:00:00.000Z"
+  );
+
+  // Start date in the past is moved forward to notBefore
+  assert.equal(
+    getFirstRunDate(
+      makeSchedule({ day_of_month: 10 }),
+      new Date("2025-06-12T09:30:00Z")
+    ).toISOString(),
+    "2025-07-10T00:00:00.000Z"
+  );
+
+  console.log("✓ First run date test passed");
+}
+
+/**
+ * Test: Month-end clamping
+ * Validates that a schedule on the 31st runs on the last day of short months
+ */
+export function testMonthEndClamping() {
+  console.log("Testing month-end clamping...");
+
+  const schedule = makeSchedule({ day_of_month: 31, start_date: "2025-01-01" });
+  const first = getFirstRunDate(schedule);
+  assert.equal(first.toISOString(), "2025-01-31T00:00:00.000Z");
+
+  const february = getNextRunDate(first, schedule);
+  assert.equal(february.toISOString(), "2025-02-28T00:00:00.000Z");
+
+  // Clamping must not drift: March goes back to the 31st
+  const march = getNextRunDate(february, schedule);
+  assert.equal(march.toISOString(), "2025-03-31T00:00:00.000Z");
+
+  // Leap year February
+  assert.equal(
+    getNextRunDate(new Date("2024-01-31"), schedule).toISOString(),
+    "2024-02-29T00:00:00.000Z"
+  );
+
+  // December rolls over to the next year
+  assert.equal(
+    getNextRunDate(new Date("2025-12-31"), schedule).toISOString(),
+    "2026-01-31T00:00:00.000Z"
+  );
+
+  console.log("✓ Month-end clamping test passed");
+}
+
+/**
+ * Test: Intervals
+ * Validates weekly and monthly interval counts
+ */
+export function testScheduleIntervals() {
+  console.log("Testing schedule intervals...");
+
+  const biweekly = makeSchedule({
+    frequency: "weekly",
+    day_of_week: 1,
+    day_of_month: null,
+    interval_count: 2,
+  });
+  assert.equal(
+    getNextRunDate(new Date("2025-03-17"), biweekly).toISOString(),
+    "2025-03-31T00:00:00.000Z"
+  );
+
+  const quarterly = makeSchedule({ interval_count: 3 });
+  assert.equal(
+    getNextRunDate(new Date("2025-04-01"), quarterly).toISOString(),
+    "2025-07-01T00:00:00.000Z"
+  );
+
+  console.log("✓ Schedule intervals test passed");
+}
+
+/**
+ * Test: Schedule completion
+ * Validates that schedules finish after max runs or past their end date
+ */
+export function testScheduleCompletion() {
+  console.log("Testing schedule completion...");
+
+  const candidate = new Date("2025-05-01");
+
+  assert.ok(!isScheduleFinished(makeSchedule(), candidate), "open-ended schedule never finishes");
+
+  assert.ok(
+    !isScheduleFinished(makeSchedule({ max_runs: 3, run_count: 2 }), candidate),
+    "schedule with runs left should not finish"
+  );
+  assert.ok(
+    isScheduleFinished(makeSchedule({ max_runs: 3, run_count: 3 }), candidate),
+    "schedule should finish after max runs"
+  );
+
+  assert.ok(
+    !isScheduleFinished(makeSchedule({ end_date: "2025-05-01" }), candidate),
+    "run on the end date is still allowed"
+  );
+  assert.ok(
+    isScheduleFinished(makeSchedule({ end_date: "2025-04-30" }), candidate),
+    "run after the end date should finish the schedule"
+  );
+
+  console.log("✓ Schedule completion test passed");
+}
@@ -0,0 +1,172 @@
+/**
+ * @fileoverview Tests for verified sessions on API routes.
+ * Mirrors lib/server-auth.ts: which bearer tokens count as sessions, how
+ * Privy access tokens are verified, and when a route accepts the profile
+ * named in the request.
+ */
+
+import { strict as assert } from "assert";
+import { generateKeyPairSync, sign, verify } from "crypto";
+
+const ACCESS_TOKEN_PREFIX = "banb_pat_";
+const PRIVY_ISSUER = "privy.io";
+const APP_ID = "app-123";
+
+function getSessionToken(headers) {
+  const authorization = headers.authorization;
+  if (!authorization?.startsWith("Bearer ")) {
+    return null;
+  }
+  const token = authorization.slice("Bearer ".length).trim();
+  return token && !token.startsWith(ACCESS_TOKEN_PREFIX) ? token : null;
+}
+
+function decodeJwtSegment(segment) {
+  try {
+    return JSON.parse(Buffer.from(segment, "base64url").toString("utf8"));
+  } catch {
+    return null;
+  }
+}
+
+function getTokenIssuer(token) {
+  return decodeJwtSegment(token.split(".")[1] || "")?.iss === PRIVY_ISSUER ? "privy" : "quick-auth";
+}
+
+function verifyPrivyAccessToken(token, key, now = new Date()) {
+  const [encodedHeader, encodedPayload, signature] = token.split(".");
+  if (!key || !encodedHeader || !encodedPayload || !signature) {
+    return null;
+  }
+  const header = decodeJwtSegment(encodedHeader);
+  const payload = decodeJwtSegment(encodedPayload);
+  if (header?.alg !== "ES256" || !payload) {
+    return null;
+  }
+  const validSignature = verify(
+    "sha256",
+    Buffer.from(`${encodedHeader}.${encodedPayload}`),
+    { key, dsaEncoding: "ieee-p1363" },
+    Buffer.from(signature, "base64url")
+  );
+  if (!validSignature) {
+    return null;
+  }
+  const nowSeconds = Math.floor(now.getTime() / 1000);
+  if (
+    payload.iss !== PRIVY_ISSUER ||
+    payload.aud !== APP_ID ||
+    typeof payload.exp !== "number" ||
+    payload.exp <= nowSeconds ||
+    typeof payload.sub !== "string"
+  ) {
+    return null;
+  }
+  return payload.sub;
+}
+
+function checkSessionProfile(session, claimedProfileId, { devFallbackProfile = null } = {}) {
+  if (!session) {
+    if (devFallbackProfile && claimedProfileId === devFallbackProfile.id) {
+      return { ok: true, profile: devFallbackProfile };
+    }
+    return { ok: false, status: 401, message: "Authentication required" };
+  }
+  if (claimedProfileId && claimedProfileId !== session.profile.id) {
+    return { ok: false, status: 403, message: "Profile does not match the authenticated user" };
+  }
+  return { ok: true, profile: session.profile };
+}
+
+function allowsUnverifiedProfile(env) {
+  return env.NODE_ENV !== "production" && env.ALLOW_UNVERIFIED_PROFILE === "true";
+}
+
+function getAppHost(env) {
+  try {
+    return new URL(env.NEXT_PUBLIC_URL || "").host || null;
+  } catch {
+    return null;
+  }
+}
+
+const { privateKey, publicKey } = generateKeyPairSync("ec", { namedCurve: "P-256" });
+const NOW = new Date("2025-03-10T12:00:00.000Z");
+const NOW_SECONDS = Math.floor(NOW.getTime() / 1000);
+
+function signJwt(payload, header = { alg: "ES256", typ: "JWT" }) {
+  const encodedHeader = Buffer.from(JSON.stringify(header)).toString("base64url");
+  const encodedPayload = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  const signature = sign("sha256", Buffer.from(`${encodedHeader}.${encodedPayload}`), {
+    key: privateKey,
+    dsaEncoding: "ieee-p1363",
+  });
+  return `${encodedHeader}.${encodedPayload}.${signature.toString("base64url")}`;
+}
+
+/**
+ * Test: Personal access tokens are not sessions
+ */
+export function testSessionTokenExtraction() {
+  assert.equal(getSessionToken({ authorization: "Bearer eyJ.a.b" }), "eyJ.a.b");
+  assert.equal(getSessionToken({ authorization: "Bearer banb_pat_abc" }), null);
+  assert.equal(getSessionToken({ authorization: "Basic abc" }), null);
+  assert.equal(getSessionToken({}), null);
+}
+
+/**
+ * Test: Tokens are routed to Privy or Quick Auth by issuer
+ */
+export function testTokenRouting() {
+  assert.equal(getTokenIssuer(signJwt({ iss: "privy.io", sub: "did:privy:1" })), "privy");
+  assert.equal(getTokenIssuer(signJwt({ iss: "https://auth.farcaster.xyz", sub: 42 })), "quick-auth");
+  assert.equal(getTokenIssuer("not-a-jwt"), "quick-auth", "Unreadable tokens are left to Quick Auth to reject");
+}
+
+/**
+ * Test: Privy access token verification
+ */
+export function testPrivyTokenVerification() {
+  const claims = { iss: "privy.io", aud: APP_ID, sub: "did:privy:abc", exp: NOW_SECONDS + 3600 };
+
+  assert.equal(verifyPrivyAccessToken(signJwt(claims), publicKey, NOW), "did:privy:abc");
+  assert.equal(verifyPrivyAccessToken(signJwt(claims), null, NOW), null, "No key configured means no Privy sessions");
+  assert.equal(verifyPrivyAccessToken(signJwt({ ...claims, aud: "other-app" }), publicKey, NOW), null);
+  assert.equal(verifyPrivyAccessToken(signJwt({ ...claims, exp: NOW_SECONDS }), publicKey, NOW), null);
+  assert.equal(verifyPrivyAccessToken(signJwt(claims, { alg: "none" }), publicKey, NOW), null);
+
+  const [header, , signature] = signJwt(claims).split(".");
+  const forged = Buffer.from(JSON.stringify({ ...claims, sub: "did:privy:other" })).toString("base64url");
+  assert.equal(verifyPrivyAccessToken(`${header}.${forged}.${signature}`, publicKey, NOW), null);
+}
+
+/**
+ * Test: The profile named in a request must be the caller's
+ */
+export function testSessionProfileCheck() {
+  const session = { profile: { id: "p1" }, method: "privy", subject: "did:privy:abc" };
+
+  assert.deepEqual(checkSessionProfile(session, "p1"), { ok: true, profile: { id: "p1" } });
+  assert.deepEqual(checkSessionProfile(session, undefined), { ok: true, profile: { id: "p1" } });
+  assert.equal(checkSessionProfile(session, "p2").status, 403);
+  assert.equal(checkSessionProfile(null, "p1").status, 401);
+  assert.equal(
+    checkSessionProfile(null, "p1", { devFallbackProfile: { id: "p1" } }).ok,
+    true,
+    "Local development that opted in trusts the named profile"
+  );
+
+  assert.ok(allowsUnverifiedProfile({ NODE_ENV: "development", ALLOW_UNVERIFIED_PROFILE: "true" }));
+  assert.ok(!allowsUnverifiedProfile({ NODE_ENV: "development" }), "The fallback is opt-in");
+  assert.ok(!allowsUnverifiedProfile({ NODE_ENV: "production", ALLOW_UNVERIFIED_PROFILE: "true" }));
+}
+
+/**
+ * Test: Quick Auth tokens are verified for the configured app host
+ */
+export function testQuickAuthDomain() {
+  assert.equal(getAppHost({ NEXT_PUBLIC_URL: "https://banb.example" }), "banb.example");
+  assert.equal(getAppHost({ NEXT_PUBLIC_URL: "http://localhost:3000" }), "localhost:3000");
+  assert.equal(getAppHost({}), null, "Without NEXT_PUBLIC_URL no Quick Auth session is accepted");
+  assert.equal(getAppHost({ NEXT_PUBLIC_URL: "not a url" }), null);
+}
@@ -0,0 +1,233 @@
+/**
+ * @fileoverview Tests for account statements.
+ * Mirrors lib/statements.ts: statement periods, turning account rows,
+ * payments and investment movements into entries, and deriving the opening
+ * and closing balance from the account's current balance.
+ */
+
+import { strict as assert } from "assert";
+
+const STATEMENT_BALANCE_TOKEN = "USDC";
+const MAX_STATEMENT_DAYS = 366;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function round(value) {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+function parseStatementPeriod(input, now = new Date()) {
+  if (input.from || input.to) {
+    const day = /^\d{4}-\d{2}-\d{2}$/;
+    if (!input.from || !input.to || !day.test(input.from) || !day.test(input.to)) {
+      return { period: null, error: "from and to must both be dates (YYYY-MM-DD)" };
+    }
+    const from = new Date(`${input.from}T00:00:00.000Z`);
+    const last = new Date(`${input.to}T00:00:00.000Z`);
+    if (from > last) {
+      return { period: null, error: "from must not be after to" };
+    }
+    const to = new Date(last.getTime() + DAY_MS);
+    if ((to.getTime() - from.getTime()) / DAY_MS > MAX_STATEMENT_DAYS) {
+      return { period: null, error: `Statements cover at most ${MAX_STATEMENT_DAYS} days` };
+    }
+    return { period: { from: from.toISOString(), to: to.toISOString() }, error: null };
+  }
+
+  let year = now.getUTCFullYear();
+  let month = now.getUTCMonth();
+  if (input.month) {
+    const match = /^(\d{4})-(\d{2})$/.exec(input.month);
+    if (!match || Number(match[2]) < 1 || Number(match[2]) > 12) {
+      return { period: null, error: "month must be YYYY-MM" };
+    }
+    year = Number(match[1]);
+    month = Number(match[2]) - 1;
+  }
+  return {
+    period: {
+      from: new Date(Date.UTC(year, month, 1)).toISOString(),
+      to: new Date(Date.UTC(year, month + 1, 1)).toISOString(),
+    },
+    error: null,
+  };
+}
+
+function toStatementEntries(source) {
+  const isBalanceToken = (token) => token === STATEMENT_BALANCE_TOKEN;
+  const entries = [];
+
+  for (const tx of source.accountTransactions) {
+    const amount = parseFloat(tx.amount) || 0;
+    entries.push({
+      id: tx.id,
+      source: "account_transaction",
+      date: tx.created_at,
+      token: tx.token_symbol,
+      amount: tx.direction === "in" ? amount : -amount,
+      affects_balance: tx.status === "confirmed" && isBalanceToken(tx.token_symbol),
+      balance: null,
+    });
+  }
+
+  for (const tx of source.transactions) {
+    const amount = parseFloat(tx.amount) || 0;
+    const outgoing = tx.sender_profile_id === source.profileId;
+    entries.push({
+      id: tx.id,
+      source: "transaction",
+      date: tx.created_at,
+      counterparty: (outgoing ? tx.recipient?.name : tx.sender?.name) || null,
+      token: tx.token,
+      amount: outgoing ? -amount : amount,
+      affects_balance: tx.status === "success" && isBalanceToken(tx.token),
+      balance: null,
+    });
+  }
+
+  for (const movement of source.movements) {
+    const amount = parseFloat(movement.amount) || 0;
+    const sign = movement.movement_type === "deposit" ? -1 : movement.movement_type === "withdrawal" ? 1 : 0;
+    entries.push({
+      id: movement.id,
+      source: "investment_movement",
+      date: movement.created_at,
+      token: movement.token,
+      amount: sign === 0 ? (movement.movement_type === "fee" ? -amount : amount) : sign * amount,
+      affects_balance: sign !== 0 && movement.status === "confirmed" && isBalanceToken(movement.token),
+      balance: null,
+    });
+  }
+
+  return entries.sort((a, b) => (a.date === b.date ? a.id.localeCompare(b.id) : a.date < b.date ? -1 : 1));
+}
+
+function buildAccountStatement(source, period) {
+  const all = toStatementEntries(source).filter((e) => e.date >= period.from);
+  const entries = all.filter((e) => e.date < period.to);
+  const net = (list) => round(list.reduce((sum, e) => (e.affects_balance ? sum + e.amount : sum), 0));
+
+  const closing = round((parseFloat(source.account.balance) || 0) - net(all.filter((e) => e.date >= period.to)));
+  const opening = round(closing - net(entries));
+
+  let balance = opening;
+  let totalIn = 0;
+  let totalOut = 0;
+  for (const entry of entries) {
+    if (!entry.affects_balance) continue;
+    balance = round(balance + entry.amount);
+    entry.balance = balance;
+    if (entry.amount >= 0) {
+      totalIn = round(totalIn + entry.amount);
+    } else {
+      totalOut = round(totalOut - entry.amount);
+    }
+  }
+
+  return { opening_balance: opening, closing_balance: closing, total_in: totalIn, total_out: totalOut, entries };
+}
+
+function csvField(value, text = false) {
+  let field = value === null ? "" : String(value);
+  if (text && /^[=+\-@\t\r]/.test(field)) {
+    field = `'${field}`;
+  }
+  return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+}
+
+const MARCH = parseStatementPeriod({ month: "2025-03" }).period;
+
+const SOURCE = {
+  account: { id: "acc-1", balance: "150.00" },
+  profileId: "p1",
+  accountTransactions: [
+    { id: "at-1", created_at: "2025-03-02T10:00:00.000Z", amount: "200", direction: "in", token_symbol: "USDC", status: "confirmed" },
+    { id: "at-2", created_at: "2025-03-05T10:00:00.000Z", amount: "40", direction: "out", token_symbol: "USDC", status: "pending" },
+    { id: "at-3", created_at: "2025-03-06T10:00:00.000Z", amount: "0.1", direction: "in", token_symbol: "ETH", status: "confirmed" },
+    // After the period: walks the current balance back
+    { id: "at-4", created_at: "2025-04-02T10:00:00.000Z", amount: "50", direction: "in", token_symbol: "USDC", status: "confirmed" },
+  ],
+  transactions: [
+    { id: "tx-1", created_at: "2025-03-10T10:00:00.000Z", sender_profile_id: "p1", amount: "30", token: "USDC", status: "success", recipient: { name: "Bob" } },
+    { id: "tx-2", created_at: "2025-03-11T10:00:00.000Z", sender_profile_id: "p2", amount: "15", token: "USDC", status: "success", sender: { name: "Alice" } },
+    { id: "tx-3", created_at: "2025-03-12T10:00:00.000Z", sender_profile_id: "p1", amount: "99", token: "USDC", status: "failed", recipient: { name: "Bob" } },
+  ],
+  movements: [
+    { id: "im-1", created_at: "2025-03-15T10:00:00.000Z", movement_type: "deposit", amount: "100", token: "USDC", status: "confirmed" },
+    { id: "im-2", created_at: "2025-03-20T10:00:00.000Z", movement_type: "reward", amount: "0.42", token: "USDC", status: "confirmed" },
+    { id: "im-3", created_at: "2025-03-25T10:00:00.000Z", movement_type: "withdrawal", amount: "25", token: "USDC", status: "confirmed" },
+  ],
+};
+
+/**
+ * Test: Statement periods from a month or a custom range
+ */
+export function testStatementPeriod() {
+  assert.deepEqual(MARCH, { from: "2025-03-01T00:00:00.000Z", to: "2025-04-01T00:00:00.000Z" });
+  assert.equal(
+    parseStatementPeriod({ month: "2025-12" }).period.to,
+    "2026-01-01T00:00:00.000Z",
+    "December ends at the new year"
+  );
+  assert.equal(
+    parseStatementPeriod({}, new Date("2025-06-15T00:00:00.000Z")).period.from,
+    "2025-06-01T00:00:00.000Z",
+    "Defaults to the current month"
+  );
+  assert.deepEqual(parseStatementPeriod({ from: "2025-03-01", to: "2025-03-15" }).period, {
+    from: "2025-03-01T00:00:00.000Z",
+    to: "2025-03-16T00:00:00.000Z",
+  });
+  assert.equal(parseStatementPeriod({ month: "2025-13" }).error, "month must be YYYY-MM");
+  assert.equal(parseStatementPeriod({ from: "2025-03-01" }).error, "from and to must both be dates (YYYY-MM-DD)");
+  assert.equal(parseStatementPeriod({ from: "2025-03-10", to: "2025-03-01" }).error, "from must not be after to");
+  assert.equal(parseStatementPeriod({ from: "2024-01-01", to: "2025-03-01" }).error, "Statements cover at most 366 days");
+}
+
+/**
+ * Test: Opening and closing balance are derived from the current balance
+ */
+export function testStatementBalances() {
+  const statement = buildAccountStatement(SOURCE, MARCH);
+
+  // 150 now, minus 50 received in April
+  assert.equal(statement.closing_balance, 100);
+  // In March: +200 deposit, -30 paid, +15 received, -100 invested, +25 withdrawn
+  assert.equal(statement.opening_balance, 100 - (200 - 30 + 15 - 100 + 25));
+  assert.equal(statement.total_in, 240);
+  assert.equal(statement.total_out, 130);
+
+  const last = statement.entries.filter((e) => e.balance !== null).pop();
+  assert.equal(last.balance, statement.closing_balance, "Running balance ends at the closing balance");
+  assert.ok(!statement.entries.some((e) => e.id === "at-4"), "Entries after the period are not listed");
+}
+
+/**
+ * Test: Entries that don't move the balance are still listed
+ */
+export function testStatementEntries() {
+  const { entries } = buildAccountStatement(SOURCE, MARCH);
+  const byId = Object.fromEntries(entries.map((e) => [e.id, e]));
+
+  assert.equal(entries.length, 9);
+  assert.deepEqual(entries.map((e) => e.date), [...entries.map((e) => e.date)].sort(), "Oldest first");
+  assert.equal(byId["at-2"].affects_balance, false, "Pending account transaction");
+  assert.equal(byId["at-3"].affects_balance, false, "Other token than the balance token");
+  assert.equal(byId["tx-3"].affects_balance, false, "Failed payment");
+  assert.equal(byId["im-2"].affects_balance, false, "Rewards stay in the vault");
+  assert.equal(byId["im-2"].balance, null);
+  assert.equal(byId["tx-1"].amount, -30);
+  assert.equal(byId["tx-1"].counterparty, "Bob");
+  assert.equal(byId["tx-2"].counterparty, "Alice", "Incoming payments name the sender");
+  assert.equal(byId["im-1"].amount, -100, "Investing moves money out of the wallet");
+}
+
+/**
+ * Test: CSV fields are quoted and can't run as formulas
+ */
+export function testCsvFields() {
+  assert.equal(csvField("Rent, March"), '"Rent, March"');
+  assert.equal(csvField('Say "hi"'), '"Say ""hi"""');
+  assert.equal(csvField("=HYPERLINK(1)", true), "'=HYPERLINK(1)");
+  assert.equal(csvField("-12.50"), "-12.50", "Amounts keep their sign");
+  assert.equal(csvField(null), "");
+}
@@ -0,0 +1,312 @@
+/**
+ * @fileoverview Tests for the crypto tax report.
+ * Mirrors lib/tax-report.ts and the daily rates of lib/currency.ts: yield
+ * income per day in USD and EUR, FIFO and average cost basis for non-stable
+ * tokens, and per-year summaries.
+ */
+
+import { strict as assert } from "assert";
+
+const FALLBACK_USD_EUR_RATE = 0.85;
+const PEGS = { USDC: "USD", DAI: "USD", EURC: "EUR", ETH: null };
+
+function round(value) {
+  return Math.round(value * 1e8) / 1e8;
+}
+
+function convertCurrency(amount, from, to, rate) {
+  if (from === to) return amount;
+  if (from === "USD" && to === "EUR") return amount * rate;
+  if (from === "EUR" && to === "USD") return amount / rate;
+  return amount;
+}
+
+function getRateForDay(rates, day) {
+  if (rates[day]) return rates[day];
+  const days = Object.keys(rates).sort();
+  const previous = days.filter((d) => d < day).pop();
+  if (previous) return rates[previous];
+  return days.length > 0 ? rates[days[0]] : FALLBACK_USD_EUR_RATE;
+}
+
+function isStableToken(token) {
+  return !!PEGS[token];
+}
+
+function emptyYearSummary(year) {
+  return {
+    year,
+    income_usd: 0,
+    income_eur: 0,
+    income_days: 0,
+    proceeds_usd: 0,
+    proceeds_eur: 0,
+    cost_basis_usd: 0,
+    cost_basis_eur: 0,
+    realized_gain_usd: 0,
+    realized_gain_eur: 0,
+    disposals: 0,
+  };
+}
+
+function buildTaxReport(events, { method, rates, prices }) {
+  const warnings = new Set();
+  const lots = new Map();
+  const lines = [];
+
+  const usdPrice = (token, day, rate) => {
+    const peg = PEGS[token];
+    if (peg === "USD") return 1;
+    if (peg === "EUR") return convertCurrency(1, "EUR", "USD", rate);
+    const daily = prices[token] || {};
+    if (daily[day] !== undefined) return daily[day];
+    const previous = Object.keys(daily).filter((d) => d < day).sort().pop();
+    if (previous) return daily[previous];
+    warnings.add(`No ${token} price for ${day}; valued at 0`);
+    return 0;
+  };
+
+  const valueLine = (day, kind, category, token, amount, group) => {
+    const rate = getRateForDay(rates, day);
+    const usd = round(amount * usdPrice(token, day, rate));
+    return {
+      day,
+      kind,
+      category,
+      token,
+      amount: round(amount),
+      usd_value: usd,
+      eur_value: round(convertCurrency(usd, "USD", "EUR", rate)),
+      usd_eur_rate: rate,
+      cost_basis_usd: null,
+      cost_basis_eur: null,
+      gain_usd: null,
+      gain_eur: null,
+      references: group.map((e) => e.id),
+    };
+  };
+
+  const addLot = (token, line) => {
+    const held = lots.get(token) || [];
+    const lot = { amount: line.amount, cost_usd: line.usd_value, cost_eur: line.eur_value };
+    if (method === "average" && held.length > 0) {
+      held[0] = {
+        amount: round(held[0].amount + lot.amount),
+        cost_usd: round(held[0].cost_usd + lot.cost_usd),
+        cost_eur: round(held[0].cost_eur + lot.cost_eur),
+      };
+    } else {
+      held.push(lot);
+    }
+    lots.set(token, held);
+  };
+
+  const takeLots = (token, amount, day) => {
+    const held = lots.get(token) || [];
+    let remaining = amount;
+    let costUsd = 0;
+    let costEur = 0;
+    while (remaining > 1e-12 && held.length > 0) {
+      const lot = held[0];
+      const used = Math.min(lot.amount, remaining);
+      const share = used / lot.amount;
+      costUsd += lot.cost_usd * share;
+      costEur += lot.cost_eur * share;
+      remaining = round(remaining - used);
+      if (used >= lot.amount) {
+        held.shift();
+      } else {
+        held[0] = {
+          amount: round(lot.amount - used),
+          cost_usd: round(lot.cost_usd * (1 - share)),
+          cost_eur: round(lot.cost_eur * (1 - share)),
+        };
+      }
+    }
+    if (remaining > 1e-12) {
+      warnings.add(`Missing cost basis for ${round(remaining)} ${token} sent on ${day}; counted at 0`);
+    }
+    return { cost_usd: round(costUsd), cost_eur: round(costEur) };
+  };
+
+  const items = [];
+  const incomeGroups = new Map();
+  for (const event of events) {
+    if (event.type !== "reward" && event.type !== "fee") {
+      items.push([event]);
+      continue;
+    }
+    const key = `${event.date.slice(0, 10)}|${event.token}`;
+    const group = incomeGroups.get(key);
+    if (group) {
+      group.push(event);
+    } else {
+      const created = [event];
+      incomeGroups.set(key, created);
+      items.push(created);
+    }
+  }
+
+  for (const group of items) {
+    const event = group[0];
+    const day = event.date.slice(0, 10);
+
+    if (event.type === "reward" || event.type === "fee") {
+      const amount = group.reduce((sum, e) => sum + (e.type === "fee" ? -e.amount : e.amount), 0);
+      const line = valueLine(day, "income", "reward", event.token, amount, group);
+      if (!isStableToken(event.token) && line.amount > 0) {
+        addLot(event.token, line);
+      }
+      lines.push(line);
+      continue;
+    }
+
+    if (isStableToken(event.token) || event.type === "vault_deposit" || event.type === "vault_withdrawal") {
+      lines.push(valueLine(day, "non_taxable", event.type, event.token, event.amount, group));
+      continue;
+    }
+
+    if (event.type === "transfer_in") {
+      const line = valueLine(day, "acquisition", event.type, event.token, event.amount, group);
+      addLot(event.token, line);
+      lines.push(line);
+      continue;
+    }
+
+    const line = valueLine(day, "disposal", event.type, event.token, event.amount, group);
+    const cost = takeLots(event.token, event.amount, day);
+    lines.push({
+      ...line,
+      cost_basis_usd: cost.cost_usd,
+      cost_basis_eur: cost.cost_eur,
+      gain_usd: round(line.usd_value - cost.cost_usd),
+      gain_eur: round(line.eur_value - cost.cost_eur),
+    });
+  }
+
+  const years = new Map();
+  for (const line of lines) {
+    const year = Number(line.day.slice(0, 4));
+    const summary = years.get(year) || emptyYearSummary(year);
+    if (line.kind === "income") {
+      summary.income_usd = round(summary.income_usd + line.usd_value);
+      summary.income_eur = round(summary.income_eur + line.eur_value);
+      summary.income_days += 1;
+    }
+    if (line.kind === "disposal") {
+      summary.proceeds_usd = round(summary.proceeds_usd + line.usd_value);
+      summary.proceeds_eur = round(summary.proceeds_eur + line.eur_value);
+      summary.cost_basis_usd = round(summary.cost_basis_usd + (line.cost_basis_usd || 0));
+      summary.cost_basis_eur = round(summary.cost_basis_eur + (line.cost_basis_eur || 0));
+      summary.realized_gain_usd = round(summary.realized_gain_usd + (line.gain_usd || 0));
+      summary.realized_gain_eur = round(summary.realized_gain_eur + (line.gain_eur || 0));
+      summary.disposals += 1;
+    }
+    years.set(year, summary);
+  }
+
+  return {
+    method,
+    years: [...years.values()].sort((a, b) => a.year - b.year),
+    lines,
+    warnings: [...warnings],
+  };
+}
+
+let nextId = 0;
+function event(date, type, token, amount) {
+  nextId += 1;
+  return { id: `e-${String(nextId).padStart(3, "0")}`, date: `${date}T12:00:00.000Z`, type, token, amount, tx_hash: null };
+}
+
+const RATES = { "2025-03-07": 0.9, "2025-03-10": 0.92, "2025-06-02": 0.88 };
+const ETH_PRICES = { "2025-01-10": 3000, "2025-02-10": 2000, "2025-06-02": 3500 };
+
+/**
+ * Test: Daily rates carry forward over weekends and holidays
+ */
+export function testRateForDay() {
+  assert.equal(getRateForDay(RATES, "2025-03-10"), 0.92);
+  assert.equal(getRateForDay(RATES, "2025-03-08"), 0.9, "Saturday uses Friday's rate");
+  assert.equal(getRateForDay(RATES, "2025-01-01"), 0.9, "Days before the first rate use the earliest one");
+  assert.equal(getRateForDay({}, "2025-03-10"), FALLBACK_USD_EUR_RATE);
+}
+
+/**
+ * Test: Yield income is summed per day, net of fees, and valued in USD and EUR
+ */
+export function testYieldIncomePerDay() {
+  const report = buildTaxReport(
+    [
+      event("2025-03-08", "reward", "USDC", 1.5),
+      event("2025-03-08", "reward", "USDC", 0.5),
+      event("2025-03-08", "fee", "USDC", 0.2),
+      event("2025-03-10", "reward", "USDC", 2),
+      event("2025-03-10", "vault_deposit", "USDC", 500),
+      event("2025-03-10", "reward", "EURC", 1),
+    ],
+    { method: "fifo", rates: RATES, prices: {} }
+  );
+
+  const income = report.lines.filter((l) => l.kind === "income");
+  assert.equal(income.length, 3, "One income line per day and token");
+  assert.deepEqual(
+    [income[0].day, income[0].amount, income[0].usd_value, income[0].eur_value, income[0].references.length],
+    ["2025-03-08", 1.8, 1.8, 1.62, 3]
+  );
+  assert.equal(income[2].token, "EURC");
+  assert.equal(income[2].eur_value, 1, "EUR stablecoins keep their EUR value");
+
+  const deposit = report.lines.find((l) => l.category === "vault_deposit");
+  assert.equal(deposit.kind, "non_taxable");
+
+  assert.equal(report.years.length, 1);
+  assert.equal(report.years[0].income_days, 3);
+  assert.equal(report.years[0].income_usd, round(1.8 + 2 + 1 / 0.92));
+  assert.equal(report.years[0].disposals, 0);
+}
+
+/**
+ * Test: FIFO and average cost give different gains for the same history
+ */
+export function testCostBasisMethods() {
+  const events = [
+    event("2025-01-10", "transfer_in", "ETH", 1),
+    event("2025-02-10", "transfer_in", "ETH", 1),
+    event("2025-06-02", "transfer_out", "ETH", 1),
+  ];
+
+  const fifo = buildTaxReport(events, { method: "fifo", rates: RATES, prices: { ETH: ETH_PRICES } });
+  const fifoSale = fifo.lines.find((l) => l.kind === "disposal");
+  assert.equal(fifoSale.usd_value, 3500);
+  assert.equal(fifoSale.cost_basis_usd, 3000, "FIFO sells the oldest lot first");
+  assert.equal(fifoSale.gain_usd, 500);
+
+  const average = buildTaxReport(events, { method: "average", rates: RATES, prices: { ETH: ETH_PRICES } });
+  const averageSale = average.lines.find((l) => l.kind === "disposal");
+  assert.equal(averageSale.cost_basis_usd, 2500, "Average cost pools both lots");
+  assert.equal(averageSale.gain_usd, 1000);
+  assert.equal(average.years[0].realized_gain_usd, 1000);
+  assert.equal(average.years[0].disposals, 1);
+}
+
+/**
+ * Test: Gaps in prices and lots are reported instead of failing
+ */
+export function testWarnings() {
+  const report = buildTaxReport(
+    [
+      event("2024-12-30", "transfer_in", "ETH", 0.5),
+      event("2025-01-10", "transfer_out", "ETH", 1),
+      event("2025-01-11", "transfer_out", "USDC", 20),
+    ],
+    { method: "fifo", rates: {}, prices: { ETH: ETH_PRICES } }
+  );
+
+  assert.ok(report.warnings.includes("No ETH price for 2024-12-30; valued at 0"));
+  assert.ok(report.warnings.includes("Missing cost basis for 0.5 ETH sent on 2025-01-10; counted at 0"));
+  assert.equal(report.lines.find((l) => l.token === "USDC").kind, "non_taxable", "Stablecoin transfers are not disposals");
+  assert.deepEqual(report.years.map((y) => y.year), [2024, 2025], "Years are summarized separately");
+  assert.equal(report.years[1].realized_gain_usd, 3000);
+  assert.equal(report.lines[0].usd_eur_rate, FALLBACK_USD_EUR_RATE);
+}
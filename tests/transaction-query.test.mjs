@@ -0,0 +1,253 @@
+/**
+ * @fileoverview Tests for the transaction history query layer.
+ * Mirrors lib/transaction-query.ts: parsing filters from untrusted input,
+ * cursors, and keyset pagination over (created_at desc, id desc), replayed
+ * here against an in-memory table.
+ */
+
+import { strict as assert } from "assert";
+
+const DEFAULT_TRANSACTION_PAGE_SIZE = 20;
+const MAX_TRANSACTION_PAGE_SIZE = 100;
+
+function encodeTransactionCursor(row) {
+  return Buffer.from(`${row.created_at}|${row.id}`).toString("base64url");
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const ISO_TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{1,6})?(Z|[+-]\d{2}:\d{2})$/;
+
+function decodeTransactionCursor(cursor) {
+  try {
+    const value = Buffer.from(cursor.replace(/-/g, "+").replace(/_/g, "/"), "base64").toString("utf8");
+    const [createdAt, id, ...rest] = value.split("|");
+    if (
+      rest.length > 0 ||
+      !createdAt ||
+      !id ||
+      !ISO_TIMESTAMP_PATTERN.test(createdAt) ||
+      isNaN(Date.parse(createdAt)) ||
+      !UUID_PATTERN.test(id)
+    ) {
+      return null;
+    }
+    return { created_at: createdAt, id };
+  } catch {
+    return null;
+  }
+}
+
+function sanitizeSearchTerm(term) {
+  return term.replace(/[,()*%_\\"]/g, " ").trim().replace(/\s+/g, " ");
+}
+
+function getPageSize(limit) {
+  if (!limit || !Number.isFinite(limit)) {
+    return DEFAULT_TRANSACTION_PAGE_SIZE;
+  }
+  return Math.min(Math.max(Math.floor(limit), 1), MAX_TRANSACTION_PAGE_SIZE);
+}
+
+function toTransactionPage(rows, pageSize) {
+  const items = rows.slice(0, pageSize);
+  return {
+    items,
+    next_cursor: rows.length > pageSize ? encodeTransactionCursor(items[items.length - 1]) : null,
+  };
+}
+
+function parseTransactionQuery(input) {
+  const query = {};
+  const text = (value) => (typeof value === "string" ? value.trim() : "");
+  const amount = (value) => (value === undefined || value === null || value === "" ? undefined : Number(value));
+
+  for (const key of ["from", "to"]) {
+    const value = text(input[key]);
+    if (!value) continue;
+    if (isNaN(Date.parse(value))) {
+      return { query, error: `${key} must be a date` };
+    }
+    query[key] = new Date(value).toISOString();
+  }
+
+  const direction = text(input.direction);
+  if (direction) {
+    if (direction !== "in" && direction !== "out") {
+      return { query, error: "direction must be in or out" };
+    }
+    query.direction = direction;
+  }
+
+  if (text(input.counterparty)) query.counterparty = text(input.counterparty);
+  if (text(input.token)) query.token = text(input.token).toUpperCase();
+  if (text(input.search)) query.search = text(input.search);
+  if (text(input.cursor)) query.cursor = text(input.cursor);
+
+  const status = Array.isArray(input.status)
+    ? input.status.map(text).filter(Boolean)
+    : text(input.status).split(",").map((s) => s.trim()).filter(Boolean);
+  if (status.length > 0) query.status = status;
+
+  const minAmount = amount(input.min_amount);
+  const maxAmount = amount(input.max_amount);
+  if ((minAmount !== undefined && isNaN(minAmount)) || (maxAmount !== undefined && isNaN(maxAmount))) {
+    return { query, error: "Amounts must be numbers" };
+  }
+  if (minAmount !== undefined && maxAmount !== undefined && minAmount > maxAmount) {
+    return { query, error: "min_amount must not exceed max_amount" };
+  }
+  if (minAmount !== undefined) query.min_amount = minAmount;
+  if (maxAmount !== undefined) query.max_amount = maxAmount;
+
+  if (input.limit !== undefined && input.limit !== null && input.limit !== "") {
+    query.limit = getPageSize(Number(input.limit));
+  }
+
+  if (query.cursor && !decodeTransactionCursor(query.cursor)) {
+    return { query, error: "Invalid cursor" };
+  }
+
+  return { query, error: null };
+}
+
+// In-memory stand-in for the PostgREST filters applied by getTransactionsByAccount
+function runQuery(rows, query) {
+  const pageSize = getPageSize(query.limit);
+  const position = query.cursor ? decodeTransactionCursor(query.cursor) : null;
+  const search = query.search ? sanitizeSearchTerm(query.search).toLowerCase() : "";
+
+  const matches = rows
+    .filter((r) => !query.direction || r.direction === query.direction)
+    .filter((r) => !query.token || r.token_symbol === query.token)
+    .filter((r) => !query.status || query.status.includes(r.status))
+    .filter((r) => !query.from || r.created_at >= query.from)
+    .filter((r) => !query.to || r.created_at <= query.to)
+    .filter((r) => query.min_amount === undefined || parseFloat(r.amount) >= query.min_amount)
+    .filter((r) => query.max_amount === undefined || parseFloat(r.amount) <= query.max_amount)
+    .filter(
+      (r) =>
+        !search ||
+        (r.counterparty_name || "").toLowerCase().includes(search) ||
+        (r.description || "").toLowerCase().includes(search)
+    )
+    .filter(
+      (r) =>
+        !position ||
+        r.created_at < position.created_at ||
+        (r.created_at === position.created_at && r.id < position.id)
+    )
+    .sort((a, b) => (a.created_at === b.created_at ? (a.id < b.id ? 1 : -1) : a.created_at < b.created_at ? 1 : -1));
+
+  return toTransactionPage(matches.slice(0, pageSize + 1), pageSize);
+}
+
+// UUIDs that sort in the order of n
+function txId(n) {
+  return `00000000-0000-4000-8000-0000000000${String(n).padStart(2, "0")}`;
+}
+
+const ROWS = Array.from({ length: 25 }, (_, i) => ({
+  id: txId(i),
+  // Pairs of rows share a timestamp so the id tie-breaker matters
+  created_at: new Date(Date.UTC(2025, 2, 1 + Math.floor(i / 2))).toISOString(),
+  amount: String(10 * (i + 1)),
+  direction: i % 3 === 0 ? "in" : "out",
+  token_symbol: i % 5 === 0 ? "EURC" : "USDC",
+  status: i === 7 ? "failed" : "confirmed",
+  counterparty_name: i % 4 === 0 ? "Alice" : "Bob",
+  description: i === 10 ? "Rent for March" : null,
+}));
+
+/**
+ * Test: Filters parsed from MCP arguments or URL parameters
+ */
+export function testParseTransactionQuery() {
+  assert.deepEqual(
+    parseTransactionQuery({ direction: "out", token: "usdc", min_amount: "50", status: "success,failed", limit: 500 }),
+    {
+      query: { direction: "out", token: "USDC", min_amount: 50, status: ["success", "failed"], limit: 100 },
+      error: null,
+    }
+  );
+  assert.equal(parseTransactionQuery({ from: "2025-03-01" }).query.from, "2025-03-01T00:00:00.000Z");
+  assert.equal(parseTransactionQuery({ direction: "sideways" }).error, "direction must be in or out");
+  assert.equal(parseTransactionQuery({ from: "yesterday-ish" }).error, "from must be a date");
+  assert.equal(parseTransactionQuery({ min_amount: 100, max_amount: 10 }).error, "min_amount must not exceed max_amount");
+  assert.equal(parseTransactionQuery({ max_amount: "lots" }).error, "Amounts must be numbers");
+  assert.equal(parseTransactionQuery({ cursor: "bm90LWEtY3Vyc29y" }).error, "Invalid cursor");
+  assert.deepEqual(parseTransactionQuery({ unknown: "x", search: "  " }).query, {}, "Unknown and blank fields are dropped");
+}
+
+/**
+ * Test: Cursors round-trip and search terms can't inject filters
+ */
+export function testCursorAndSearchTerm() {
+  const row = { created_at: "2025-03-01T10:00:00.000Z", id: "7f1c0c1e-0000-4000-8000-000000000000" };
+  assert.deepEqual(decodeTransactionCursor(encodeTransactionCursor(row)), row);
+  assert.equal(decodeTransactionCursor("%%%"), null);
+
+  const cursorOf = (value) => Buffer.from(value).toString("base64url");
+  assert.equal(
+    decodeTransactionCursor(cursorOf(`${row.created_at}|1),status.eq.(failed`)),
+    null,
+    "Ids that are not UUIDs can't inject filters"
+  );
+  assert.equal(decodeTransactionCursor(cursorOf(`2025-03-01")|${row.id}`)), null, "Timestamps must be ISO");
+  assert.equal(decodeTransactionCursor(cursorOf(`March 1, 2025|${row.id}`)), null, "Other date formats are rejected");
+  assert.deepEqual(
+    decodeTransactionCursor(cursorOf(`2025-03-01T10:00:00.123456+00:00|${row.id}`)),
+    { created_at: "2025-03-01T10:00:00.123456+00:00", id: row.id },
+    "Postgres timestamps are accepted"
+  );
+  assert.equal(sanitizeSearchTerm("rent),id.eq.(1"), "rent id.eq. 1", "Commas and parentheses can't close the or() filter");
+  assert.equal(sanitizeSearchTerm("100%_off"), "100 off", "Wildcards are not passed to ilike");
+}
+
+/**
+ * Test: Paging through every row with cursors
+ */
+export function testCursorPagination() {
+  const seen = [];
+  let cursor;
+  let pages = 0;
+  do {
+    const page = runQuery(ROWS, { limit: 10, cursor });
+    seen.push(...page.items.map((r) => r.id));
+    cursor = page.next_cursor ?? undefined;
+    pages++;
+  } while (cursor);
+
+  assert.equal(pages, 3);
+  assert.equal(seen.length, ROWS.length);
+  assert.equal(new Set(seen).size, ROWS.length, "No row appears twice across pages");
+  assert.equal(seen[0], txId(24), "Newest first");
+  assert.deepEqual(seen.slice(1, 3), [txId(23), txId(22)], "Rows with the same timestamp are ordered by id");
+
+  // A row inserted after the first page was loaded doesn't shift the next page
+  const first = runQuery(ROWS, { limit: 10 });
+  const newer = { ...ROWS[0], id: txId(99), created_at: "2025-04-01T00:00:00.000Z" };
+  const second = runQuery([...ROWS, newer], { limit: 10, cursor: first.next_cursor });
+  assert.equal(second.items[0].id, txId(14));
+}
+
+/**
+ * Test: Filters and search combine with AND
+ */
+export function testFiltersAndSearch() {
+  const eurcIn = runQuery(ROWS, { direction: "in", token: "EURC", limit: 100 });
+  assert.deepEqual(eurcIn.items.map((r) => r.id), [txId(15), txId(0)]);
+  assert.equal(eurcIn.next_cursor, null);
+
+  const failed = runQuery(ROWS, { status: ["failed"] });
+  assert.deepEqual(failed.items.map((r) => r.id), [txId(7)]);
+
+  const ranged = runQuery(ROWS, {
+    from: "2025-03-02T00:00:00.000Z",
+    to: "2025-03-03T00:00:00.000Z",
+    min_amount: 40,
+  });
+  assert.deepEqual(ranged.items.map((r) => r.id), [txId(5), txId(4), txId(3)]);
+
+  assert.deepEqual(runQuery(ROWS, { search: "rent" }).items.map((r) => r.id), [txId(10)], "Descriptions are searched");
+  assert.equal(runQuery(ROWS, { search: "alice", limit: 100 }).items.length, 7, "Counterparty names are searched");
+}
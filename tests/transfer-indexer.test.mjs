@@ -0,0 +1,349 @@
+/**
+ * @fileoverview Tests for the transfer indexer.
+ * Mirrors lib/transfer-indexer.ts and replays lib/fixtures/transfer-logs.json:
+ * log decoding, dedup by tx_hash and log index, counterparty names and the
+ * balance change of a scan.
+ */
+
+import { strict as assert } from "assert";
+import { readFileSync } from "fs";
+import { formatUnits, getAddress, parseUnits } from "viem";
+
+const TRANSFER_LOGS_FIXTURE = JSON.parse(
+  readFileSync(new URL("../lib/fixtures/transfer-logs.json", import.meta.url))
+);
+
+const TRANSFER_EVENT_TOPIC =
+  "0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef";
+
+const BASE_TOKENS = [
+  { symbol: "USDC", decimals: 6, address: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913" },
+  { symbol: "EURC", decimals: 6, address: "0x60a3E35Cc302bFA44Cb288Bc5a4F316Fdb1adb42" },
+  { symbol: "DAI", decimals: 18, address: "0x50c5725949A6F0c72E6C4a641F24049A917DB0Cb" },
+];
+
+const ALICE = "0xA11ce00000000000000000000000000000000001";
+const BOB = "0xB0b0000000000000000000000000000000000002";
+const CAFE = "0xCafe000000000000000000000000000000000003";
+const ACCOUNT = { id: "account-alice", address: ALICE.toLowerCase(), network: "base" };
+
+function hexToNumber(value) {
+  return value && value !== "0x" ? Number(BigInt(value)) : 0;
+}
+
+function toAddressTopic(address) {
+  return `0x${address.slice(2).toLowerCase().padStart(64, "0")}`;
+}
+
+function fetchFixtureLogs({ network, address, tokens, fromBlock }) {
+  const topic = toAddressTopic(address);
+  const contracts = tokens.map((token) => token.toLowerCase());
+  return (TRANSFER_LOGS_FIXTURE[network] || []).filter(
+    (log) =>
+      contracts.includes(log.address.toLowerCase()) &&
+      hexToNumber(log.blockNumber) >= fromBlock &&
+      (log.topics[1]?.toLowerCase() === topic || log.topics[2]?.toLowerCase() === topic)
+  );
+}
+
+function decodeTransferLog(log, network) {
+  if (log.topics.length < 3 || log.topics[0].toLowerCase() !== TRANSFER_EVENT_TOPIC) {
+    return null;
+  }
+  const token = BASE_TOKENS.find((t) => t.address.toLowerCase() === log.address.toLowerCase());
+  if (!token) {
+    return null;
+  }
+  const value = log.data && log.data !== "0x" ? BigInt(log.data) : BigInt(0);
+  return {
+    network,
+    token_symbol: token.symbol,
+    token_address: getAddress(log.address),
+    from: getAddress(`0x${log.topics[1].slice(26)}`),
+    to: getAddress(`0x${log.topics[2].slice(26)}`),
+    amount: formatUnits(value, token.decimals),
+    tx_hash: log.transactionHash.toLowerCase(),
+    log_index: hexToNumber(log.logIndex),
+    block_number: hexToNumber(log.blockNumber),
+    timestamp: new Date(hexToNumber(log.timeStamp) * 1000).toISOString(),
+  };
+}
+
+function getTransferKey(txHash, logIndex) {
+  return `${txHash.toLowerCase()}:${logIndex}`;
+}
+
+function resolveCounterpartyName(address, directory) {
+  const target = address.toLowerCase();
+  const external = directory.recipients.find((r) => r.external_address?.toLowerCase() === target);
+  if (external) {
+    return external.name;
+  }
+  const profile = directory.profiles.find((p) => p.addresses.some((a) => a.toLowerCase() === target));
+  if (!profile) {
+    return null;
+  }
+  const linked = directory.recipients.find((r) => r.profile_id_link === profile.id);
+  return linked?.name || profile.name;
+}
+
+function getBalanceDelta(rows) {
+  let delta = BigInt(0);
+  for (const row of rows) {
+    if (row.token_symbol === "USDC") {
+      const amount = parseUnits(String(row.amount), 6);
+      delta += row.direction === "in" ? amount : -amount;
+    }
+  }
+  return formatUnits(delta, 6);
+}
+
+function planTransferSync(account, transfers, existing, names) {
+  const own = account.address.toLowerCase();
+  const logIndexOf = (row) => (typeof row.log_index === "number" ? row.log_index : row.metadata?.log_index);
+  const indexed = new Set(
+    existing
+      .filter((row) => row.tx_hash && typeof logIndexOf(row) === "number")
+      .map((row) => getTransferKey(row.tx_hash, logIndexOf(row)))
+  );
+  const unmatched = existing.filter((row) => row.tx_hash && typeof logIndexOf(row) !== "number");
+
+  const plan = { inserts: [], confirmations: [], balanceDelta: "0", lastBlock: null };
+  const balanceRows = [];
+
+  const ordered = [...transfers].sort((a, b) => a.block_number - b.block_number || a.log_index - b.log_index);
+
+  for (const transfer of ordered) {
+    const from = transfer.from.toLowerCase();
+    const to = transfer.to.toLowerCase();
+    if ((from !== own && to !== own) || from === to) {
+      continue;
+    }
+
+    plan.lastBlock = Math.max(plan.lastBlock ?? 0, transfer.block_number);
+
+    const key = getTransferKey(transfer.tx_hash, transfer.log_index);
+    if (indexed.has(key)) {
+      continue;
+    }
+    indexed.add(key);
+
+    const direction = to === own ? "in" : "out";
+    const counterparty = direction === "in" ? transfer.from : transfer.to;
+    const metadata = {
+      source: "transfer_indexer",
+      log_index: transfer.log_index,
+      block_number: transfer.block_number,
+      token_address: transfer.token_address,
+      balance_applied: true,
+    };
+
+    const balanceRow = { amount: transfer.amount, direction, token_symbol: transfer.token_symbol };
+    const matchIndex = unmatched.findIndex(
+      (row) =>
+        row.tx_hash.toLowerCase() === transfer.tx_hash &&
+        row.direction === direction &&
+        row.token_symbol === transfer.token_symbol
+    );
+
+    if (matchIndex >= 0) {
+      const [row] = unmatched.splice(matchIndex, 1);
+      const counted = row.metadata?.balance_applied !== true;
+      plan.confirmations.push({
+        id: row.id,
+        balanceRow: counted ? balanceRow : null,
+        changes: {
+          status: "confirmed",
+          amount: transfer.amount,
+          log_index: transfer.log_index,
+          counterparty: row.counterparty || counterparty,
+          counterparty_name: row.counterparty_name || names[counterparty.toLowerCase()] || null,
+          metadata: { ...row.metadata, ...metadata },
+        },
+      });
+      if (counted) {
+        balanceRows.push(balanceRow);
+      }
+    } else {
+      plan.inserts.push({
+        account_id: account.id,
+        amount: transfer.amount,
+        direction,
+        counterparty,
+        counterparty_name: names[counterparty.toLowerCase()] || null,
+        tx_hash: transfer.tx_hash,
+        log_index: transfer.log_index,
+        token_symbol: transfer.token_symbol,
+        network: transfer.network,
+        status: "confirmed",
+        description: null,
+        metadata,
+        created_at: transfer.timestamp,
+      });
+      balanceRows.push(balanceRow);
+    }
+  }
+
+  plan.balanceDelta = getBalanceDelta(balanceRows);
+  return plan;
+}
+
+function scan(fromBlock) {
+  return fetchFixtureLogs({
+    network: "base",
+    address: ALICE,
+    tokens: BASE_TOKENS.map((token) => token.address),
+    fromBlock,
+  })
+    .map((log) => decodeTransferLog(log, "base"))
+    .filter((transfer) => transfer !== null);
+}
+
+const DIRECTORY = {
+  recipients: [
+    { name: "Coffee Shop", external_address: CAFE.toLowerCase(), profile_id_link: null },
+    { name: "Bobby", external_address: null, profile_id_link: "profile-bob" },
+  ],
+  profiles: [{ id: "profile-bob", name: "Bob Builder", addresses: [BOB] }],
+};
+
+function namesFor(transfers) {
+  const names = {};
+  for (const transfer of transfers) {
+    for (const address of [transfer.from, transfer.to]) {
+      const name = resolveCounterpartyName(address, DIRECTORY);
+      if (name) names[address.toLowerCase()] = name;
+    }
+  }
+  return names;
+}
+
+/**
+ * Test: Recorded logs decode into transfers of registry tokens
+ */
+export function testDecodeFixtureLogs() {
+  const transfers = scan(0);
+
+  assert.equal(transfers.length, 4, "Unknown tokens and other addresses are left out");
+  assert.deepEqual(
+    transfers.map((t) => [t.token_symbol, t.amount, t.log_index]),
+    [
+      ["USDC", "250", 5],
+      ["USDC", "40", 0],
+      ["USDC", "1.5", 1],
+      ["EURC", "100", 3],
+    ]
+  );
+  assert.equal(transfers[0].from, getAddress(CAFE), "Addresses are checksummed");
+  assert.equal(transfers[0].timestamp, "2025-05-01T10:00:00.000Z");
+  assert.equal(scan(29400100).length, 3, "Scans start at the cursor block");
+}
+
+/**
+ * Test: A scan records every transfer once, with direction, name and balance change
+ */
+export function testPlanInsertsTransfers() {
+  const transfers = scan(0);
+  const plan = planTransferSync(ACCOUNT, transfers, [], namesFor(transfers));
+
+  assert.equal(plan.inserts.length, 4);
+  assert.deepEqual(
+    plan.inserts.map((row) => [row.direction, row.counterparty_name]),
+    [
+      ["in", "Coffee Shop"],
+      ["out", "Bobby"],
+      ["out", "Coffee Shop"],
+      ["in", "Bobby"],
+    ],
+    "Saved recipient names win over profile names"
+  );
+  assert.equal(plan.inserts[1].tx_hash, plan.inserts[2].tx_hash, "Two logs of one transaction are two rows");
+  assert.equal(plan.balanceDelta, "208.5", "Only USDC moves the balance");
+  assert.equal(plan.lastBlock, 29400200);
+  assert.deepEqual(plan.inserts.map((row) => row.log_index), plan.inserts.map((row) => row.metadata.log_index));
+}
+
+/**
+ * Test: Replaying the same logs does not duplicate rows or move the balance
+ */
+export function testReplayIsIdempotent() {
+  const transfers = scan(0);
+  const first = planTransferSync(ACCOUNT, transfers, [], {});
+  const stored = first.inserts.map((row, i) => ({ ...row, id: `row-${i}` }));
+
+  const replay = planTransferSync(ACCOUNT, scan(first.lastBlock), stored, {});
+  assert.equal(replay.inserts.length, 0);
+  assert.equal(replay.balanceDelta, "0");
+  assert.equal(replay.lastBlock, first.lastBlock, "The cursor stays put when nothing is new");
+
+  const full = planTransferSync(ACCOUNT, transfers, stored, {});
+  assert.equal(full.inserts.length, 0);
+
+  // An overlapping sync whose insert of the first two rows was ignored as
+  // duplicates only moves the balance by the rows it wrote
+  assert.equal(getBalanceDelta(first.inserts.slice(2)), "-1.5");
+}
+
+/**
+ * Test: Rows recorded before their transfer was mined are confirmed, not duplicated
+ */
+export function testPendingRowsAreConfirmed() {
+  const transfers = scan(0);
+  const pending = {
+    id: "pending-1",
+    account_id: ACCOUNT.id,
+    amount: "40",
+    direction: "out",
+    counterparty: BOB,
+    counterparty_name: "Bob",
+    tx_hash: transfers[1].tx_hash,
+    token_symbol: "USDC",
+    network: "base",
+    status: "pending",
+    description: "Rent",
+    metadata: null,
+  };
+
+  const plan = planTransferSync(ACCOUNT, transfers, [pending], {});
+  assert.equal(plan.inserts.length, 3);
+  assert.equal(plan.confirmations.length, 1);
+  assert.equal(plan.confirmations[0].id, "pending-1");
+  assert.equal(plan.confirmations[0].changes.status, "confirmed");
+  assert.equal(plan.confirmations[0].changes.counterparty_name, "Bob", "Existing names are kept");
+  assert.equal(plan.confirmations[0].changes.metadata.log_index, 0);
+  assert.equal(plan.confirmations[0].changes.log_index, 0, "Confirmed rows take the transfer's key");
+  assert.deepEqual(plan.confirmations[0].balanceRow, { amount: "40", direction: "out", token_symbol: "USDC" });
+  assert.equal(plan.balanceDelta, "208.5");
+}
+
+/**
+ * Test: Confirmed rows move the balance once, unless the indexer already counted them
+ */
+export function testConfirmedDepositsMoveTheBalance() {
+  const transfers = scan(0);
+  const deposit = {
+    id: "deposit-1",
+    account_id: ACCOUNT.id,
+    amount: "250",
+    direction: "in",
+    counterparty: "mock",
+    counterparty_name: "Google Pay",
+    tx_hash: transfers[0].tx_hash,
+    token_symbol: "USDC",
+    network: "base",
+    status: "confirmed",
+    description: null,
+    metadata: { deposit_order_id: "order-1" },
+  };
+
+  const plan = planTransferSync(ACCOUNT, transfers, [deposit], {});
+  assert.equal(plan.confirmations.length, 1);
+  assert.equal(plan.confirmations[0].changes.metadata.balance_applied, true);
+  assert.equal(plan.confirmations[0].changes.metadata.deposit_order_id, "order-1");
+  assert.equal(plan.balanceDelta, "208.5", "Webhook deposits never moved the balance");
+
+  const counted = { ...deposit, metadata: { ...deposit.metadata, balance_applied: true } };
+  const recounted = planTransferSync(ACCOUNT, transfers, [counted], {});
+  assert.equal(recounted.balanceDelta, "-41.5");
+  assert.equal(recounted.confirmations[0].balanceRow, null);
+}
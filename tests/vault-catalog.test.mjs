@@ -0,0 +1,277 @@
+/**
+ * @fileoverview Tests for the vault catalog.
+ * Mirrors lib/vault-data.ts (combining definitions with metrics) and
+ * lib/vault-catalog.ts (fixture source, cache lifetime and stale fallback).
+ */
+
+import { strict as assert } from "assert";
+import { readFileSync } from "fs";
+
+const VAULT_METRICS_FIXTURE = JSON.parse(
+  readFileSync(new URL("../lib/fixtures/vault-metrics.json", import.meta.url))
+);
+
+const VAULTS = [
+  {
+    id: "morpho-vault-1",
+    name: "Spark USDC Vault",
+    vault_address: "0x7BfA7C4f149E7415b73bdeDfe609237e29CBF34A",
+  },
+  {
+    id: "morpho-vault-4",
+    name: "Unlisted Vault",
+    vault_address: "0x0000000000000000000000000000000000000004",
+  },
+];
+
+function formatCompactUsd(amount) {
+  if (amount >= 1_000_000_000) {
+    return `$${(amount / 1_000_000_000).toFixed(2)}B`;
+  }
+  if (amount >= 1_000_000) {
+    return `$${(amount / 1_000_000).toFixed(2)}M`;
+  }
+  if (amount >= 1_000) {
+    return `$${(amount / 1_000).toFixed(2)}K`;
+  }
+  return `$${amount.toFixed(2)}`;
+}
+
+function buildVaultData(definition, metrics, updatedAt) {
+  const allocations = metrics?.allocations || [];
+  const allocated = allocations.reduce((sum, a) => sum + a.assets, 0);
+  const apy = metrics ? Math.round(metrics.apy * 100) / 100 : 0;
+
+  return {
+    ...definition,
+    apr: apy,
+    apy,
+    totalDeposits: metrics?.totalAssets || 0,
+    liquidity: metrics?.liquidity || 0,
+    strategy: allocations.map((allocation) => ({
+      market: allocation.market,
+      exposure:
+        allocated > 0
+          ? `${Math.round((allocation.assets / allocated) * 100)}%`
+          : "0%",
+      allocation: formatCompactUsd(allocation.assets),
+    })),
+    metricsUpdatedAt: metrics ? updatedAt : null,
+  };
+}
+
+function createFixtureVaultMetricsSource(fixture = VAULT_METRICS_FIXTURE) {
+  return {
+    name: "fixture",
+    async fetchMetrics(vaults) {
+      return fixture.filter((metrics) =>
+        vaults.some(
+          (vault) =>
+            vault.vault_address.toLowerCase() ===
+            metrics.vault_address.toLowerCase()
+        )
+      );
+    },
+  };
+}
+
+function createVaultCatalog(options) {
+  const vaults = options.vaults;
+  const ttlMs = options.ttlMs ?? 5 * 60 * 1000;
+  const now = options.now || Date.now;
+
+  let cache = null;
+  let inflight = null;
+
+  const refresh = async () => {
+    if (inflight) {
+      return inflight;
+    }
+
+    inflight = (async () => {
+      try {
+        const metrics = await options.source.fetchMetrics(vaults);
+        const fetchedAt = now();
+        const updatedAt = new Date(fetchedAt).toISOString();
+        const data = vaults.map((vault) =>
+          buildVaultData(
+            vault,
+            metrics.find(
+              (m) =>
+                m.vault_address.toLowerCase() ===
+                vault.vault_address.toLowerCase()
+            ),
+            updatedAt
+          )
+        );
+        cache = { data, fetchedAt };
+        return data;
+      } catch {
+        if (cache) {
+          return cache.data;
+        }
+        return vaults.map((vault) => buildVaultData(vault, undefined, null));
+      } finally {
+        inflight = null;
+      }
+    })();
+
+    return inflight;
+  };
+
+  const getVaults = async () => {
+    if (cache && now() - cache.fetchedAt < ttlMs) {
+      return cache.data;
+    }
+    return refresh();
+  };
+
+  return {
+    getVaults,
+    refresh,
+    async getVault(vaultAddress) {
+      const data = await getVaults();
+      return data.find(
+        (vault) =>
+          vault.vault_address.toLowerCase() === vaultAddress.toLowerCase()
+      );
+    },
+  };
+}
+
+/**
+ * Test: Vault data from metrics
+ * Validates APR rounding, allocation percentages and missing metrics
+ */
+export function testBuildVaultData() {
+  console.log("Testing vault data from metrics...");
+
+  const vault = buildVaultData(
+    VAULTS[0],
+    {
+      vault_address: VAULTS[0].vault_address,
+      apy: 6.5549,
+      totalAssets: 1250000000,
+      liquidity: 650710000,
+      allocations: [
+        { market: "USDC Lending", assets: 300000000 },
+        { market: "ETH Collateral", assets: 100000000 },
+      ],
+    },
+    "2026-01-01T00:00:00.000Z"
+  );
+
+  assert.equal(vault.apr, 6.55);
+  assert.equal(vault.apy, 6.55);
+  assert.deepEqual(vault.strategy, [
+    { market: "USDC Lending", exposure: "75%", allocation: "$300.00M" },
+    { market: "ETH Collateral", exposure: "25%", allocation: "$100.00M" },
+  ]);
+  assert.equal(vault.metricsUpdatedAt, "2026-01-01T00:00:00.000Z");
+
+  const empty = buildVaultData(VAULTS[1], undefined, "2026-01-01T00:00:00.000Z");
+  assert.equal(empty.apr, 0);
+  assert.deepEqual(empty.strategy, []);
+  assert.equal(empty.metricsUpdatedAt, null);
+
+  console.log("✓ Vault data test passed");
+}
+
+/**
+ * Test: Fixture source
+ * Validates that the fixture covers the registry and filters by address
+ */
+export async function testFixtureSource() {
+  console.log("Testing fixture vault metrics source...");
+
+  const metrics = await createFixtureVaultMetricsSource().fetchMetrics(VAULTS);
+  assert.equal(metrics.length, 1);
+  assert.equal(metrics[0].apy, 6.55);
+
+  const catalog = createVaultCatalog({
+    source: createFixtureVaultMetricsSource(),
+    vaults: VAULTS,
+  });
+  const spark = await catalog.getVault(VAULTS[0].vault_address.toLowerCase());
+  assert.equal(spark.apr, 6.55);
+  assert.equal(spark.strategy.length, 4);
+  assert.equal(await catalog.getVault("0xdead"), undefined);
+
+  console.log("✓ Fixture source test passed");
+}
+
+/**
+ * Test: Catalog cache
+ * Validates the cache lifetime, forced refreshes and stale fallback on errors
+ */
+export async function testCatalogCache() {
+  console.log("Testing vault catalog cache...");
+
+  let clock = Date.parse("2026-01-01T00:00:00Z");
+  let calls = 0;
+  let apy = 5;
+  let failing = false;
+  const source = {
+    name: "test",
+    async fetchMetrics() {
+      calls++;
+      if (failing) {
+        throw new Error("Source unavailable");
+      }
+      return [
+        {
+          vault_address: VAULTS[0].vault_address,
+          apy,
+          totalAssets: 100,
+          liquidity: 50,
+          allocations: [],
+        },
+      ];
+    },
+  };
+
+  const catalog = createVaultCatalog({
+    source,
+    vaults: VAULTS,
+    ttlMs: 60_000,
+    now: () => clock,
+  });
+
+  assert.equal((await catalog.getVaults())[0].apy, 5);
+  apy = 6;
+  assert.equal((await catalog.getVaults())[0].apy, 5);
+  assert.equal(calls, 1);
+
+  // Expired cache is refetched
+  clock += 60_000;
+  assert.equal((await catalog.getVaults())[0].apy, 6);
+  assert.equal(calls, 2);
+
+  // Forced refresh bypasses the cache
+  apy = 7;
+  assert.equal((await catalog.refresh())[0].apy, 7);
+
+  // Failed refetches keep serving the last metrics
+  failing = true;
+  clock += 60_000;
+  const stale = await catalog.getVaults();
+  assert.equal(stale[0].apy, 7);
+  assert.ok(stale[0].metricsUpdatedAt);
+
+  // Concurrent callers share one fetch
+  failing = false;
+  const before = calls;
+  await Promise.all([catalog.refresh(), catalog.refresh(), catalog.getVaults()]);
+  assert.equal(calls, before + 1);
+
+  // Without any metrics, vaults are listed with zeroed figures
+  const cold = createVaultCatalog({
+    source: { name: "down", fetchMetrics: async () => { throw new Error("down"); } },
+    vaults: VAULTS,
+  });
+  const coldVaults = await cold.getVaults();
+  assert.equal(coldVaults.length, 2);
+  assert.equal(coldVaults[0].metricsUpdatedAt, null);
+
+  console.log("✓ Vault catalog cache test passed");
+}